@@ -0,0 +1,211 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { format, subDays } from 'date-fns'
+import { Download, Loader2, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  ResponseTimeChart,
+  ResponseTimeGroup,
+  formatDuration,
+} from '@/components/analytics/response-time-chart'
+
+type ResponseTimeReport = {
+  from: string
+  to: string
+  overall: ResponseTimeGroup
+  groups: Record<string, ResponseTimeGroup[]>
+}
+
+const DIMENSIONS = [
+  { value: 'crew', label: 'Posada' },
+  { value: 'department', label: 'Odeljenje' },
+  { value: 'deck', label: 'Paluba' },
+  { value: 'location', label: 'Lokacija' },
+  { value: 'device', label: 'Uređaj' },
+  { value: 'hour', label: 'Sat u danu' },
+  { value: 'guest', label: 'Gost' },
+]
+
+export default function AnalyticsPage() {
+  const [from, setFrom] = useState(format(subDays(new Date(), 7), 'yyyy-MM-dd'))
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [report, setReport] = useState<ResponseTimeReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Kraj perioda uključuje ceo izabrani dan
+  const queryString = `from=${new Date(`${from}T00:00:00`).toISOString()}&to=${new Date(`${to}T23:59:59`).toISOString()}`
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/analytics/response-times?${queryString}`)
+
+      if (!response.ok) {
+        throw new Error('Neuspešno dohvatanje analitike')
+      }
+
+      setReport(await response.json())
+      setError(null)
+    } catch (error) {
+      console.error('Greška pri dohvatanju analitike:', error)
+      setError('Nije moguće učitati analitiku.')
+    } finally {
+      setLoading(false)
+    }
+  }, [queryString])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  return (
+    <div className="container py-6 space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Vreme odziva</h1>
+          <p className="text-muted-foreground">
+            Percentili vremena prihvatanja i završetka zahteva
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="from">Od</Label>
+            <Input id="from" type="date" value={from} max={to} onChange={e => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="to">Do</Label>
+            <Input id="to" type="date" value={to} min={from} onChange={e => setTo(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={fetchReport}>
+            <RefreshCw className="mr-2 h-4 w-4" /> Osveži
+          </Button>
+          <Button asChild>
+            <a href={`/api/analytics/response-times?${queryString}&format=csv`}>
+              <Download className="mr-2 h-4 w-4" /> Izvezi CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <span className="ml-2 text-lg">Učitavanje analitike...</span>
+        </div>
+      ) : error || !report ? (
+        <div className="text-center py-12 text-muted-foreground">{error}</div>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Zahtevi</CardTitle>
+              </CardHeader>
+              <CardContent className="text-2xl font-bold">{report.overall.requests}</CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Prihvatanje p50 / p90</CardTitle>
+              </CardHeader>
+              <CardContent className="text-2xl font-bold">
+                {formatDuration(report.overall.timeToAccept.p50)} / {formatDuration(report.overall.timeToAccept.p90)}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Završetak p50 / p90</CardTitle>
+              </CardHeader>
+              <CardContent className="text-2xl font-bold">
+                {formatDuration(report.overall.timeToComplete.p50)} / {formatDuration(report.overall.timeToComplete.p90)}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Prihvatanje p99</CardTitle>
+              </CardHeader>
+              <CardContent className="text-2xl font-bold">
+                {formatDuration(report.overall.timeToAccept.p99)}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Tabs defaultValue="crew">
+            <TabsList className="flex-wrap h-auto">
+              {DIMENSIONS.map(dimension => (
+                <TabsTrigger key={dimension.value} value={dimension.value}>
+                  {dimension.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+
+            {DIMENSIONS.map(dimension => {
+              const groups = report.groups[dimension.value] || []
+              return (
+                <TabsContent key={dimension.value} value={dimension.value} className="space-y-4">
+                  <div className="grid gap-4 lg:grid-cols-2">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Vreme do prihvatanja</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <ResponseTimeChart groups={groups} metric="timeToAccept" />
+                      </CardContent>
+                    </Card>
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Vreme do završetka</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <ResponseTimeChart groups={groups} metric="timeToComplete" />
+                      </CardContent>
+                    </Card>
+                  </div>
+
+                  <Card>
+                    <CardContent className="pt-6">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>{dimension.label}</TableHead>
+                            <TableHead className="text-right">Zahtevi</TableHead>
+                            <TableHead className="text-right">Prihvatanje p50</TableHead>
+                            <TableHead className="text-right">p90</TableHead>
+                            <TableHead className="text-right">p99</TableHead>
+                            <TableHead className="text-right">Završetak p50</TableHead>
+                            <TableHead className="text-right">p90</TableHead>
+                            <TableHead className="text-right">p99</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {groups.map(group => (
+                            <TableRow key={group.key}>
+                              <TableCell className="font-medium">{group.label}</TableCell>
+                              <TableCell className="text-right">{group.requests}</TableCell>
+                              <TableCell className="text-right">{formatDuration(group.timeToAccept.p50)}</TableCell>
+                              <TableCell className="text-right">{formatDuration(group.timeToAccept.p90)}</TableCell>
+                              <TableCell className="text-right">{formatDuration(group.timeToAccept.p99)}</TableCell>
+                              <TableCell className="text-right">{formatDuration(group.timeToComplete.p50)}</TableCell>
+                              <TableCell className="text-right">{formatDuration(group.timeToComplete.p90)}</TableCell>
+                              <TableCell className="text-right">{formatDuration(group.timeToComplete.p99)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              )
+            })}
+          </Tabs>
+        </>
+      )}
+    </div>
+  )
+}
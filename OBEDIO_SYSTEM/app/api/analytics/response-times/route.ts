@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { AnalyticsService, ANALYTICS_DIMENSIONS } from '@/lib/services/analytics-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju parametara upita
+const querySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  groupBy: z.array(z.enum(ANALYTICS_DIMENSIONS)).optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+})
+
+// GET /api/analytics/response-times?from=&to=&groupBy=crew,department&format=csv
+// Percentili vremena prihvatanja i završetka zahteva za dati period
+export async function GET(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('analytics:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const groupBy = searchParams.get('groupBy')
+
+    const validation = querySchema.safeParse({
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      groupBy: groupBy ? groupBy.split(',').filter(Boolean) : undefined,
+      format: searchParams.get('format') || undefined,
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    // Podrazumevani period je poslednjih 7 dana
+    const to = validation.data.to || new Date()
+    const from = validation.data.from || new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000)
+
+    if (from > to) {
+      return NextResponse.json(
+        { error: "Početak perioda mora biti pre kraja" },
+        { status: 400 }
+      )
+    }
+
+    const report = await AnalyticsService.getResponseTimes(
+      from,
+      to,
+      validation.data.groupBy || ANALYTICS_DIMENSIONS
+    )
+
+    if (validation.data.format === 'csv') {
+      const fileName = `response-times-${from.toISOString().slice(0, 10)}-${to.toISOString().slice(0, 10)}.csv`
+      return new NextResponse(AnalyticsService.toCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+        },
+      })
+    }
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error fetching response time analytics:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom računanja analitike" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,34 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
-import { headers } from 'next/headers'
+import { authorize } from '@/lib/auth'
 
 export const dynamic = 'force-dynamic'
 
-// Authentication check helper function
-async function checkAuth() {
-  const headersList = headers();
-  const authBypass = headersList.get('x-auth-bypass');
-  
-  if (!authBypass) {
-    const session = getSessionCookie()
-    if (!session) {
-      console.log('API: No session and no bypass header, returning 401 Unauthorized');
-      return { authorized: false };
-    }
-    console.log('API: Valid session found, access allowed');
-  } else {
-    console.log('API: Found x-auth-bypass header, skipping authentication check');
-  }
-  
-  return { authorized: true };
-}
-
 // GET - Fetch assignments for timeline
 export async function GET(request: NextRequest) {
-  const auth = await checkAuth();
-  if (!auth.authorized) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -96,9 +77,10 @@ export async function GET(request: NextRequest) {
 
 // POST - Create new assignment
 export async function POST(request: NextRequest) {
-  const auth = await checkAuth();
-  if (!auth.authorized) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:write');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -179,9 +161,10 @@ export async function POST(request: NextRequest) {
 
 // PUT - Update assignment
 export async function PUT(request: NextRequest) {
-  const auth = await checkAuth();
-  if (!auth.authorized) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:write');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -244,9 +227,10 @@ export async function PUT(request: NextRequest) {
 
 // DELETE - Remove assignment
 export async function DELETE(request: NextRequest) {
-  const auth = await checkAuth();
-  if (!auth.authorized) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:write');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { signJWT, verify } from '@/lib/auth'
+import { resolveRole } from '@/lib/permissions'
 import { prisma } from '@/lib/prisma'
 
 export async function POST(request: Request) {
@@ -43,6 +44,7 @@ export async function POST(request: Request) {
       email: user.email,
       name: user.name,
       role: user.role,
+      accessRole: user.accessRole,
     })
 
     // Set cookie
@@ -62,6 +64,7 @@ export async function POST(request: Request) {
         name: user.name,
         email: user.email,
         role: user.role,
+        accessRole: resolveRole(user),
       },
     })
   } catch (error) {
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { ButtonRuleService, buttonRuleSchema } from '@/lib/services/button-rule-service'
+
+export const dynamic = 'force-dynamic'
+
+// PUT /api/button-rules/[id] - izmena pravila
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:write')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID pravila" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validation = buttonRuleSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const rule = await ButtonRuleService.update(id, validation.data)
+    if (!rule) {
+      return NextResponse.json({ error: "Pravilo nije pronađeno" }, { status: 404 })
+    }
+
+    return NextResponse.json(rule)
+  } catch (error) {
+    console.error('Error updating button rule:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom ažuriranja pravila dugmeta" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/button-rules/[id] - brisanje pravila
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:write')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID pravila" }, { status: 400 })
+    }
+
+    const removed = await ButtonRuleService.remove(id)
+    if (!removed) {
+      return NextResponse.json({ error: "Pravilo nije pronađeno" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Pravilo je uspešno obrisano", id })
+  } catch (error) {
+    console.error('Error deleting button rule:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom brisanja pravila dugmeta" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { ButtonRuleService } from '@/lib/services/button-rule-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za probni pritisak; bez vremena i prisustva gosta koristi se trenutno stanje
+const dryRunSchema = z.object({
+  deviceId: z.number().int().positive(),
+  pressType: z.enum(['short', 'single', 'double', 'triple', 'long']),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).nullable().optional(),
+  guestPresent: z.boolean().nullable().optional(),
+})
+
+// POST /api/button-rules/dry-run - koje bi pravilo odgovorilo na pritisak, bez izvršavanja akcije
+export async function POST(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const body = await request.json()
+    const validation = dryRunSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const result = await ButtonRuleService.dryRun(validation.data)
+    if (!result) {
+      return NextResponse.json({ error: "Uređaj nije pronađen" }, { status: 404 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error evaluating button rules:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom probe pravila dugmadi" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { ButtonRuleService, buttonRuleSchema } from '@/lib/services/button-rule-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/button-rules - pravila dugmadi redom kojim se proveravaju
+export async function GET() {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const rules = await ButtonRuleService.list()
+    return NextResponse.json({ rules })
+  } catch (error) {
+    console.error('Error fetching button rules:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja pravila dugmadi" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/button-rules - novo pravilo
+export async function POST(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:write')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const body = await request.json()
+    const validation = buttonRuleSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const rule = await ButtonRuleService.create(validation.data, auth.session.id)
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error) {
+    console.error('Error creating button rule:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom kreiranja pravila dugmeta" },
+      { status: 500 }
+    )
+  }
+}
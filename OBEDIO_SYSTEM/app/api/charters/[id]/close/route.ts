@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { CharterService } from '@/lib/services/charter-service'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/charters/[id]/close
+// Zatvara čarter, generiše završni izveštaj i arhivira goste
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('charters:manage')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID čartera" }, { status: 400 })
+    }
+
+    const charter = await prisma.charter.findUnique({
+      where: { id },
+      select: { id: true, status: true }
+    })
+
+    if (!charter) {
+      return NextResponse.json({ error: "Čarter nije pronađen" }, { status: 404 })
+    }
+
+    if (charter.status === 'closed') {
+      return NextResponse.json({ error: "Čarter je već zatvoren" }, { status: 409 })
+    }
+
+    const report = await CharterService.close(id)
+    return NextResponse.json({ report })
+  } catch (error) {
+    console.error('Error closing charter:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom zatvaranja čartera" },
+      { status: 500 }
+    )
+  }
+}
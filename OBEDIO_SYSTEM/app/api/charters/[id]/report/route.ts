@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { CharterService } from '@/lib/services/charter-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/charters/[id]/report
+// Za zatvoren čarter vraća sačuvan izveštaj, za aktivan trenutni presek
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('guests:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID čartera" }, { status: 400 })
+    }
+
+    const charter = await prisma.charter.findUnique({
+      where: { id },
+      select: { id: true, report: true }
+    })
+
+    if (!charter) {
+      return NextResponse.json({ error: "Čarter nije pronađen" }, { status: 404 })
+    }
+
+    if (charter.report) {
+      return NextResponse.json({ report: JSON.parse(charter.report), final: true })
+    }
+
+    const report = await CharterService.generateReport(id)
+    return NextResponse.json({ report, final: false })
+  } catch (error) {
+    console.error('Error generating charter report:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom generisanja izveštaja" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { CharterService } from '@/lib/services/charter-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju izmena čartera
+const charterUpdateSchema = z.object({
+  name: z.string().min(1).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  principalGuestId: z.number().int().positive().nullable().optional(),
+  broker: z.string().nullable().optional(),
+  guestIds: z.array(z.number().int().positive()).optional(),
+  cabinPlan: z.array(z.object({
+    guestId: z.number().int().positive(),
+    locationId: z.number().int().positive(),
+  })).optional(),
+  itinerary: z.array(z.object({
+    port: z.string().min(1),
+    arrival: z.string(),
+    departure: z.string().nullable().optional(),
+  })).optional(),
+  notes: z.string().nullable().optional(),
+})
+
+// GET /api/charters/[id]
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('guests:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID čartera" }, { status: 400 })
+    }
+
+    const charter = await prisma.charter.findUnique({
+      where: { id },
+      include: {
+        guests: { select: { id: true, name: true, isVip: true, room: true, status: true } },
+        principalGuest: { select: { id: true, name: true } }
+      }
+    })
+
+    if (!charter) {
+      return NextResponse.json({ error: "Čarter nije pronađen" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      ...charter,
+      status: CharterService.resolveStatus(charter),
+      cabinPlan: CharterService.parseCabinPlan(charter.cabinPlan),
+      itinerary: CharterService.parseItinerary(charter.itinerary),
+      report: charter.report ? JSON.parse(charter.report) : null,
+    })
+  } catch (error) {
+    console.error('Error fetching charter:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja čartera" },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/charters/[id]
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('charters:manage')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID čartera" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validation = charterUpdateSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const existingCharter = await prisma.charter.findUnique({ where: { id } })
+    if (!existingCharter) {
+      return NextResponse.json({ error: "Čarter nije pronađen" }, { status: 404 })
+    }
+
+    if (existingCharter.status === 'closed') {
+      return NextResponse.json({ error: "Zatvoren čarter se ne može menjati" }, { status: 409 })
+    }
+
+    const charter = await CharterService.update(id, validation.data)
+    return NextResponse.json(charter)
+  } catch (error) {
+    console.error('Error updating charter:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom ažuriranja čartera" },
+      { status: 500 }
+    )
+  }
+}
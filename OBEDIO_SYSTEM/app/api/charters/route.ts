@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { CharterService } from '@/lib/services/charter-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju čartera
+const charterSchema = z.object({
+  name: z.string().min(1, "Naziv čartera je obavezan"),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  principalGuestId: z.number().int().positive().nullable().optional(),
+  broker: z.string().nullable().optional(),
+  guestIds: z.array(z.number().int().positive()).optional(),
+  cabinPlan: z.array(z.object({
+    guestId: z.number().int().positive(),
+    locationId: z.number().int().positive(),
+  })).optional(),
+  itinerary: z.array(z.object({
+    port: z.string().min(1),
+    arrival: z.string(),
+    departure: z.string().nullable().optional(),
+  })).optional(),
+  notes: z.string().nullable().optional(),
+}).refine(data => data.endDate >= data.startDate, {
+  message: "Kraj čartera mora biti posle početka",
+  path: ["endDate"],
+})
+
+// GET /api/charters - vremenska linija čartera koji nisu zatvoreni
+export async function GET() {
+  // Provera autentikacije i dozvole
+  const auth = authorize('guests:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const charters = await CharterService.getTimeline()
+    return NextResponse.json({ charters })
+  } catch (error) {
+    console.error('Error fetching charters:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja čartera" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/charters - kreiranje čartera
+export async function POST(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('charters:manage')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const body = await request.json()
+    const validation = charterSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const charter = await CharterService.create(validation.data)
+    return NextResponse.json(charter, { status: 201 })
+  } catch (error) {
+    console.error('Error creating charter:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom kreiranja čartera" },
+      { status: 500 }
+    )
+  }
+}
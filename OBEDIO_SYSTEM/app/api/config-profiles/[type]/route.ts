@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { CONFIG_DEVICE_TYPES, DeviceConfigService, configPatchSchema } from '@/lib/services/device-config-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju nove verzije profila
+const profileSchema = z.object({
+  config: configPatchSchema,
+  notes: z.string().max(500).optional().nullable(),
+})
+
+const isConfigDeviceType = (type: string) => (CONFIG_DEVICE_TYPES as readonly string[]).includes(type)
+
+// GET /api/config-profiles/[type] - sve verzije profila tipa uređaja
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { type: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    if (!isConfigDeviceType(params.type)) {
+      return NextResponse.json({ error: "Nepoznat tip uređaja" }, { status: 404 })
+    }
+
+    const versions = await DeviceConfigService.getHistory({ deviceType: params.type })
+    return NextResponse.json({ deviceType: params.type, versions })
+  } catch (error) {
+    console.error('Error fetching config profile history:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja istorije profila" },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/config-profiles/[type] - nova verzija profila tipa uređaja.
+// Uređaji bez sopstvenog profila dobijaju promenu pri sledećoj sinhronizaciji mqttBridge-a.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { type: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:write')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    if (!isConfigDeviceType(params.type)) {
+      return NextResponse.json({ error: "Nepoznat tip uređaja" }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validation = profileSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const profile = await DeviceConfigService.saveProfile(
+      { deviceType: params.type },
+      validation.data.config,
+      validation.data.notes,
+      auth.session.id
+    )
+
+    return NextResponse.json(profile)
+  } catch (error) {
+    console.error('Error saving config profile:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom čuvanja profila" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { DeviceConfigService } from '@/lib/services/device-config-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/config-profiles - važeći profil svakog tipa uređaja i stanje sinhronizacije uređaja
+export async function GET() {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const profiles = await DeviceConfigService.listTypeProfiles()
+    return NextResponse.json({ profiles })
+  } catch (error) {
+    console.error('Error fetching config profiles:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja profila konfiguracije" },
+      { status: 500 }
+    )
+  }
+}
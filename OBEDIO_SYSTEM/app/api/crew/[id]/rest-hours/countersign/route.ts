@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { RestHoursService, MONTH_PATTERN } from '@/lib/services/rest-hours-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju supotpisa
+const countersignSchema = z.object({
+  month: z.string().regex(MONTH_PATTERN, "Mesec mora biti u formatu YYYY-MM"),
+})
+
+// POST /api/crew/[id]/rest-hours/countersign
+// Zapovednik supotpisuje evidenciju koju je član posade potpisao
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('rest:countersign')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID člana posade" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validation = countersignSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const { month } = validation.data
+    const record = await RestHoursService.getRecord(id, month)
+    if (!record) {
+      return NextResponse.json({ error: "Član posade nije pronađen" }, { status: 404 })
+    }
+
+    if (!record.signature.crewSignedAt) {
+      return NextResponse.json({ error: "Član posade još nije potpisao evidenciju" }, { status: 409 })
+    }
+
+    // Supotpisuje se samo tabela koja odgovara odrađenim smenama
+    if (record.changedSinceSigned) {
+      return NextResponse.json({ error: "Smene su promenjene posle potpisa; član posade mora ponovo da potpiše" }, { status: 409 })
+    }
+
+    return NextResponse.json(await RestHoursService.countersign(id, month, auth.session.id))
+  } catch (error) {
+    console.error('Error countersigning rest hours:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom supotpisivanja evidencije odmora" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { RestHoursService, MONTH_PATTERN } from '@/lib/services/rest-hours-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju parametara izvoza
+const querySchema = z.object({
+  month: z.string().regex(MONTH_PATTERN, "Mesec mora biti u formatu YYYY-MM"),
+  format: z.enum(['csv', 'pdf']).default('pdf'),
+})
+
+// GET /api/crew/[id]/rest-hours/export?month=YYYY-MM&format=csv|pdf
+// Evidencija odmora u rasporedu tabele ILO/IMO za inspekciju države zastave
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID člana posade" }, { status: 400 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const validation = querySchema.safeParse({
+      month: searchParams.get('month') || undefined,
+      format: searchParams.get('format') || undefined,
+    })
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const { month, format } = validation.data
+    const record = await RestHoursService.getRecord(id, month)
+    if (!record) {
+      return NextResponse.json({ error: "Član posade nije pronađen" }, { status: 404 })
+    }
+
+    const fileName = `hours-of-rest-${record.sheet.name.replace(/[^A-Za-z0-9]+/g, '-').toLowerCase()}-${month}.${format}`
+    if (format === 'csv') {
+      return new NextResponse(RestHoursService.toCsv(record), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+        },
+      })
+    }
+
+    return new NextResponse(new Uint8Array(RestHoursService.toPdf(record)), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting rest hours:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom izvoza evidencije odmora" },
+      { status: 500 }
+    )
+  }
+}
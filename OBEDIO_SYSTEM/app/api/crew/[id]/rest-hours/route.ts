@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { can, resolveRole } from '@/lib/permissions'
+import { RestHoursService, MONTH_PATTERN } from '@/lib/services/rest-hours-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju meseca (YYYY-MM); podrazumevano tekući mesec
+const querySchema = z.object({
+  month: z.string().regex(MONTH_PATTERN, "Mesec mora biti u formatu YYYY-MM").optional(),
+})
+
+// GET /api/crew/[id]/rest-hours?month=YYYY-MM
+// Mesečna evidencija sati rada i odmora sa neusaglašenostima i potpisima
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID člana posade" }, { status: 400 })
+    }
+
+    const validation = querySchema.safeParse({ month: request.nextUrl.searchParams.get('month') || undefined })
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const month = validation.data.month || RestHoursService.currentMonth()
+    const record = await RestHoursService.getRecord(id, month)
+    if (!record) {
+      return NextResponse.json({ error: "Član posade nije pronađen" }, { status: 404 })
+    }
+
+    // Posada potpisuje samo svoju evidenciju, zapovednik supotpisuje
+    return NextResponse.json({
+      ...record,
+      canSign: auth.session.id === id,
+      canCountersign: can(resolveRole(auth.session), 'rest:countersign'),
+    })
+  } catch (error) {
+    console.error('Error fetching rest hours:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom učitavanja evidencije odmora" },
+      { status: 500 }
+    )
+  }
+}
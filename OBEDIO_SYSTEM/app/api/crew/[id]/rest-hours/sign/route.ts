@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { RestHoursService, MONTH_PATTERN } from '@/lib/services/rest-hours-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju potpisa
+const signSchema = z.object({
+  month: z.string().regex(MONTH_PATTERN, "Mesec mora biti u formatu YYYY-MM"),
+})
+
+// POST /api/crew/[id]/rest-hours/sign
+// Član posade potpisuje svoju mesečnu evidenciju odmora
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID člana posade" }, { status: 400 })
+    }
+
+    if (auth.session.id !== id) {
+      return NextResponse.json({ error: "Evidenciju odmora potpisuje samo član posade na koga se odnosi" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validation = signSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const { month } = validation.data
+    if (RestHoursService.monthRange(month).start > new Date()) {
+      return NextResponse.json({ error: "Evidencija za budući mesec se ne može potpisati" }, { status: 400 })
+    }
+
+    const record = await RestHoursService.sign(id, month)
+    if (!record) {
+      return NextResponse.json({ error: "Član posade nije pronađen" }, { status: 404 })
+    }
+
+    return NextResponse.json(record)
+  } catch (error) {
+    console.error('Error signing rest hours:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom potpisivanja evidencije odmora" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
-import { headers } from 'next/headers'
+import { authorize } from '@/lib/auth'
+import { DutyService } from '@/lib/services/duty-service'
 import { z } from 'zod'
 
 export const dynamic = 'force-dynamic'
@@ -22,20 +22,10 @@ export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  // Alternative check for x-auth-bypass header
-  const headersList = headers();
-  const authBypass = headersList.get('x-auth-bypass');
-  
-  // Standard authentication check if no bypass header
-  if (!authBypass) {
-    const session = getSessionCookie()
-    if (!session) {
-      console.log('API: No session and no bypass header, returning 401 Unauthorized');
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
-    console.log('API: Valid session found, access allowed');
-  } else {
-    console.log('API: Found x-auth-bypass header, skipping authentication check');
+  // Provera autentikacije i dozvole
+  const auth = authorize('crew:read');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -72,9 +62,7 @@ export async function GET(
     }
 
     // Separate shifts into active and upcoming
-    const activeShift = crewMember.shifts.find(
-      shift => new Date(shift.startsAt) <= now && new Date(shift.endsAt) >= now
-    )
+    const activeShift = crewMember.shifts.find(shift => DutyService.isLive(shift))
 
     const upcomingShifts = crewMember.shifts
       .filter(shift => new Date(shift.startsAt) > now)
@@ -155,19 +143,10 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  // Authentication check
-  const headersList = headers();
-  const authBypass = headersList.get('x-auth-bypass');
-  
-  if (!authBypass) {
-    const session = getSessionCookie()
-    if (!session) {
-      console.log('API: No session and no bypass header, returning 401 Unauthorized');
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
-    console.log('API: Valid session found, access allowed');
-  } else {
-    console.log('API: Found x-auth-bypass header, skipping authentication check');
+  // Provera autentikacije i dozvole
+  const auth = authorize('crew:write');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -252,15 +231,10 @@ export async function PUT(
       }
     });
 
-    // Get current time for determining active shifts
-    const now = new Date()
-
     // Determine if crew member is on duty (koristimo completeUserData umjesto updatedMember)
     let activeShift = null;
     if (completeUserData?.shifts) {
-      activeShift = completeUserData.shifts.find(
-        shift => new Date(shift.startsAt) <= now && new Date(shift.endsAt) >= now
-      );
+      activeShift = completeUserData.shifts.find(shift => DutyService.isLive(shift));
     }
 
     // Format the response using completeUserData
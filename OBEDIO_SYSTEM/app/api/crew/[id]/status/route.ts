@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
-import { headers } from 'next/headers'
+import { authorize } from '@/lib/auth'
+import { DutyService } from '@/lib/services/duty-service'
 
 export const dynamic = 'force-dynamic'
 
@@ -10,19 +10,10 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  // Authentication check
-  const headersList = headers();
-  const authBypass = headersList.get('x-auth-bypass');
-  
-  if (!authBypass) {
-    const session = getSessionCookie()
-    if (!session) {
-      console.log('API: No session and no bypass header, returning 401 Unauthorized');
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
-    console.log('API: Valid session found, access allowed');
-  } else {
-    console.log('API: Found x-auth-bypass header, skipping authentication check');
+  // Provera autentikacije i dozvole
+  const auth = authorize('crew:status');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -36,32 +27,18 @@ export async function PUT(
       return NextResponse.json({ error: 'Invalid status value' }, { status: 400 })
     }
 
-    // Get the current time for shift tracking
-    const now = new Date();
-
     // 1. Check if user exists
-    const user = await prisma.user.findUnique({
-      where: { id },
-      include: {
-        shifts: {
-          where: {
-            startsAt: { lte: now },
-            endsAt: { gte: now }
-          }
-        }
-      }
-    })
-
+    const user = await prisma.user.findUnique({ where: { id } })
     if (!user) {
       return NextResponse.json({ error: 'Crew member not found' }, { status: 404 })
     }
 
-    // 2. Get current active shift if any
-    const activeShift = user.shifts.length > 0 ? user.shifts[0] : null;
+    // 2. Get current live shift if any
+    const activeShift = await DutyService.getLiveShift(id)
 
     // 3. Handle status change
     if (status === 'on_duty') {
-      // If already has active shift, don't create a new one
+      // If already has active shift, don't start a new one
       if (activeShift) {
         return NextResponse.json({
           message: 'Crew member is already on duty',
@@ -69,23 +46,22 @@ export async function PUT(
         })
       }
 
-      // Create a new shift
-      const endTime = new Date();
-      endTime.setHours(endTime.getHours() + 8); // Default 8-hour shift
-      
-      const newShift = await prisma.shift.create({
-        data: {
-          userId: id,
-          startsAt: now,
-          endsAt: endTime,
-          completed: false
-        }
-      });
+      // The planned shift waits until the incoming handover is acknowledged
+      const planned = await DutyService.getPlannedShift(id)
+      if (planned && await DutyService.hasPendingHandover(id, planned.id)) {
+        return NextResponse.json(
+          { error: 'Shift handover must be acknowledged before the shift starts' },
+          { status: 409 }
+        )
+      }
+
+      // Starts the planned shift, or an unscheduled one if nothing is planned
+      const shift = await DutyService.startShift(id, 'web')
 
       return NextResponse.json({
         message: 'Crew member checked in successfully',
         status: 'on_duty',
-        shift: newShift
+        shift
       })
     } else { // status === 'off_duty'
       // If no active shift, nothing to complete
@@ -96,19 +72,12 @@ export async function PUT(
         })
       }
 
-      // Complete the shift
-      const updatedShift = await prisma.shift.update({
-        where: { id: activeShift.id },
-        data: {
-          endsAt: now, // End the shift now
-          completed: true
-        }
-      });
+      const shift = await DutyService.endShift(id)
 
       return NextResponse.json({
         message: 'Crew member checked out successfully',
         status: 'off_duty',
-        shift: updatedShift
+        shift
       })
     }
   } catch (error) {
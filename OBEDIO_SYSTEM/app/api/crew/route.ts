@@ -1,36 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie, hash } from '@/lib/auth'
-import { headers } from 'next/headers'
+import { authorize, hash } from '@/lib/auth'
 import type { User, Device, Shift, Prisma } from '@prisma/client' // Added Prisma types
 
 export const dynamic = 'force-dynamic'
 
 // GET - Fetch crew members with their current shifts
-// Authentication check helper function
-async function checkAuth() {
-  const headersList = headers();
-  const authBypass = headersList.get('x-auth-bypass');
-  
-  if (!authBypass) {
-    const session = getSessionCookie()
-    if (!session) {
-      console.log('API: No session and no bypass header, returning 401 Unauthorized');
-      return { authorized: false };
-    }
-    console.log('API: Valid session found, access allowed');
-  } else {
-    console.log('API: Found x-auth-bypass header, skipping authentication check');
-  }
-  
-  return { authorized: true };
-}
-
 export async function GET(request: NextRequest) {
-  // Check authorization
-  const auth = await checkAuth();
-  if (!auth.authorized) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  // Provera autentikacije i dozvole
+  const auth = authorize('crew:read');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -58,10 +38,10 @@ export async function GET(request: NextRequest) {
         // Removed role: 'CREW' filter to accommodate specific position roles.
       },
       include: {
-        shifts: { // Include active shifts for the user
+        shifts: { // Include live shifts (started and not yet ended) for the user
           where: {
-            startsAt: { lte: now },
-            endsAt: { gte: now }
+            startedAt: { not: null },
+            endedAt: null
           }
         },
         devices: { // Include assigned smartwatch
@@ -171,10 +151,10 @@ export async function GET(request: NextRequest) {
 
 // POST - Create a new crew member
 export async function POST(request: NextRequest) {
-  // Check authorization
-  const auth = await checkAuth();
-  if (!auth.authorized) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  // Provera autentikacije i dozvole
+  const auth = authorize('crew:write');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju polise automatske dodele
+const policySchema = z.object({
+  policy: z.enum(['auto_dispatch', 'manual']),
+})
+
+// GET /api/devices/[id]/auto-assign
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID uređaja" }, { status: 400 })
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id },
+      select: { id: true, autoAssignPolicy: true }
+    })
+
+    if (!device) {
+      return NextResponse.json({ error: "Uređaj nije pronađen" }, { status: 404 })
+    }
+
+    return NextResponse.json({ policy: device.autoAssignPolicy })
+  } catch (error) {
+    console.error('Error fetching auto-assign policy:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja polise" },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/devices/[id]/auto-assign
+// Uključuje ili isključuje sat iz automatske dodele zahteva
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:write')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID uređaja" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validation = policySchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id },
+      select: { id: true, type: true }
+    })
+
+    if (!device) {
+      return NextResponse.json({ error: "Uređaj nije pronađen" }, { status: 404 })
+    }
+
+    if (device.type !== 'SMART_WATCH') {
+      return NextResponse.json(
+        { error: "Polisa automatske dodele važi samo za satove" },
+        { status: 400 }
+      )
+    }
+
+    const updatedDevice = await prisma.device.update({
+      where: { id },
+      data: { autoAssignPolicy: validation.data.policy },
+      select: { id: true, autoAssignPolicy: true }
+    })
+
+    return NextResponse.json({ policy: updatedDevice.autoAssignPolicy })
+  } catch (error) {
+    console.error('Error updating auto-assign policy:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom čuvanja polise" },
+      { status: 500 }
+    )
+  }
+}
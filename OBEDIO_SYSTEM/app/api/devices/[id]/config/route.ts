@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { DeviceConfigService, configPatchSchema } from '@/lib/services/device-config-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju profila uređaja
+const profileSchema = z.object({
+  config: configPatchSchema,
+  notes: z.string().max(500).optional().nullable(),
+})
+
+// GET /api/devices/[id]/config - važeća konfiguracija uređaja, profili i stanje sinhronizacije
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID uređaja" }, { status: 400 })
+    }
+
+    const config = await DeviceConfigService.getDeviceConfig(id)
+    if (!config) {
+      return NextResponse.json({ error: "Uređaj nije pronađen" }, { status: 404 })
+    }
+
+    const versions = await DeviceConfigService.getHistory({ deviceId: id })
+    return NextResponse.json({ ...config, versions })
+  } catch (error) {
+    console.error('Error fetching device config:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja konfiguracije" },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/devices/[id]/config - nova verzija profila uređaja (menja profil tipa za ovaj uređaj).
+// Prazan config vraća uređaj na profil tipa. Profil šalje mqttBridge pri sledećoj sinhronizaciji.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:write')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID uređaja" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validation = profileSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!device) {
+      return NextResponse.json({ error: "Uređaj nije pronađen" }, { status: 404 })
+    }
+
+    await DeviceConfigService.saveProfile(
+      { deviceId: id },
+      validation.data.config,
+      validation.data.notes,
+      auth.session.id
+    )
+
+    const config = await DeviceConfigService.getDeviceConfig(id)
+    return NextResponse.json(config)
+  } catch (error) {
+    console.error('Error saving device config:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom čuvanja konfiguracije" },
+      { status: 500 }
+    )
+  }
+}
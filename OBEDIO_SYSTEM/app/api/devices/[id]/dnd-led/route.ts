@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju DND LED podešavanja
+const dndLedSchema = z.object({
+  enabled: z.boolean(),
+})
+
+// GET /api/devices/[id]/dnd-led
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID uređaja" }, { status: 400 })
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id },
+      select: { id: true, dndLedEnabled: true }
+    })
+
+    if (!device) {
+      return NextResponse.json({ error: "Uređaj nije pronađen" }, { status: 404 })
+    }
+
+    return NextResponse.json({ enabled: device.dndLedEnabled })
+  } catch (error) {
+    console.error('Error fetching DND LED setting:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja podešavanja" },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/devices/[id]/dnd-led
+// Uključuje ili isključuje prikaz DND stanja kabine na LED-u dugmeta.
+// Komandu šalje mqttBridge pri sledećoj promeni DND stanja.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:write')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID uređaja" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validation = dndLedSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id },
+      select: { id: true, type: true }
+    })
+
+    if (!device) {
+      return NextResponse.json({ error: "Uređaj nije pronađen" }, { status: 404 })
+    }
+
+    if (device.type !== 'BUTTON') {
+      return NextResponse.json(
+        { error: "DND LED postoji samo na dugmadima" },
+        { status: 400 }
+      )
+    }
+
+    const updatedDevice = await prisma.device.update({
+      where: { id },
+      data: { dndLedEnabled: validation.data.enabled },
+      select: { id: true, dndLedEnabled: true }
+    })
+
+    return NextResponse.json({ enabled: updatedDevice.dndLedEnabled })
+  } catch (error) {
+    console.error('Error updating DND LED setting:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom čuvanja podešavanja" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { FirmwareService } from '@/lib/services/firmware-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/devices/[id]/firmware - trenutna verzija i istorija OTA ažuriranja uređaja
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID uređaja" }, { status: 400 })
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id },
+      select: { id: true, uid: true, model: true, firmwareVersion: true }
+    })
+
+    if (!device) {
+      return NextResponse.json({ error: "Uređaj nije pronađen" }, { status: 404 })
+    }
+
+    const updates = await FirmwareService.getDeviceUpdates(id)
+    return NextResponse.json({ ...device, updates })
+  } catch (error) {
+    console.error('Error fetching device firmware:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja firmware-a uređaja" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { BatteryService } from '@/lib/services/battery-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju parametara upita
+const querySchema = z.object({
+  replaceBeforeCharter: z.enum(['true', 'false']).optional(),
+})
+
+// GET /api/devices/battery?replaceBeforeCharter=true
+// Plan zamene baterija sortiran po projektovanom datumu pražnjenja
+export async function GET(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const validation = querySchema.safeParse({
+      replaceBeforeCharter: request.nextUrl.searchParams.get('replaceBeforeCharter') || undefined,
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const plan = await BatteryService.getPlan()
+    if (validation.data.replaceBeforeCharter === 'true') {
+      plan.devices = plan.devices.filter(device => device.replaceBeforeCharter)
+    }
+
+    return NextResponse.json(plan)
+  } catch (error) {
+    console.error('Error building battery plan:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom izrade plana zamene baterija" },
+      { status: 500 }
+    )
+  }
+}
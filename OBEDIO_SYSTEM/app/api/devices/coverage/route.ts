@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { CoverageService, COVERAGE_DEFAULT_DAYS, COVERAGE_RETENTION_DAYS } from '@/lib/services/coverage-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju parametara upita - istorija signala se čuva COVERAGE_RETENTION_DAYS dana
+const querySchema = z.object({
+  days: z.coerce.number().int().min(1).max(COVERAGE_RETENTION_DAYS).default(COVERAGE_DEFAULT_DAYS),
+})
+
+// GET /api/devices/coverage?days=7
+// Pokrivenost LoRa mreže po palubama i lokacijama i predlozi za nove repetitore
+export async function GET(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const validation = querySchema.safeParse({
+      days: request.nextUrl.searchParams.get('days') || undefined,
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const report = await CoverageService.getReport(validation.data.days)
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error building coverage report:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom izrade izveštaja o pokrivenosti" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,23 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
-import { headers } from 'next/headers'
-
-// Authentication check helper function
-async function checkAuth() {
-  const session = await getSessionCookie()
-  if (!session) {
-    return { authorized: false, message: 'No session found' }
-  }
-  return { authorized: true }
-}
+import { authorize } from '@/lib/auth'
 
 // GET - Fetch devices with filtering and pagination
 export async function GET(request: NextRequest) {
-  // Check authorization
-  const auth = await checkAuth()
-  if (!auth.authorized) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
   }
 
   try {
@@ -94,10 +84,10 @@ export async function GET(request: NextRequest) {
 
 // POST - Create a new device
 export async function POST(request: NextRequest) {
-  // Check authorization
-  const auth = await checkAuth()
-  if (!auth.authorized) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:write')
+  if (!auth.session) {
+    return auth.response
   }
 
   try {
@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 
 // GET - Dohvatanje statistike o uređajima
 export async function GET(request: NextRequest) {
-  // Provera autentikacije
-  const session = getSessionCookie()
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
   }
 
   try {
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { TopologyService } from '@/lib/services/topology-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/devices/topology - graf LoRa mreže (repetitori, uređaji i veze sa RSSI/SNR)
+export async function GET() {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const topology = await TopologyService.getTopology()
+    return NextResponse.json(topology)
+  } catch (error) {
+    console.error('Error fetching network topology:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja mrežne topologije" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { EscalationService } from '@/lib/services/escalation-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju nivoa eskalacije
+const tierSchema = z.object({
+  afterSeconds: z.number().int().positive("afterSeconds mora biti pozitivan broj"),
+  target: z.enum(["ASSIGNED_CREW", "DEPARTMENT_ON_DUTY", "ROLES"]),
+  department: z.string().optional(),
+  roles: z.array(z.string()).optional(),
+})
+
+// Schema za validaciju podataka kod ažuriranja polise
+const policyUpdateSchema = z.object({
+  name: z.string().min(1).optional(),
+  locationType: z.string().nullable().optional(),
+  vipOnly: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  tiers: z.array(tierSchema).min(1).optional(),
+})
+
+// PUT - Ažuriranje polise eskalacije
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('escalation:manage')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID polise" }, { status: 400 })
+    }
+
+    const existingPolicy = await prisma.escalationPolicy.findUnique({ where: { id } })
+    if (!existingPolicy) {
+      return NextResponse.json({ error: "Polisa nije pronađena" }, { status: 404 })
+    }
+
+    const body = await request.json()
+
+    // Validacija podataka
+    const validation = policyUpdateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const { tiers, ...rest } = validation.data
+    const data: Record<string, unknown> = { ...rest }
+
+    if (tiers) {
+      const tiersJson = JSON.stringify(tiers)
+      try {
+        EscalationService.parseTiers(tiersJson)
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : "Neispravni nivoi eskalacije" },
+          { status: 400 }
+        )
+      }
+      data.tiers = tiersJson
+    }
+
+    const updatedPolicy = await prisma.escalationPolicy.update({
+      where: { id },
+      data,
+    })
+
+    return NextResponse.json({ ...updatedPolicy, tiers: JSON.parse(updatedPolicy.tiers) })
+  } catch (error) {
+    console.error('Error updating escalation policy:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom ažuriranja polise eskalacije" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Brisanje polise eskalacije
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('escalation:manage')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID polise" }, { status: 400 })
+    }
+
+    const existingPolicy = await prisma.escalationPolicy.findUnique({ where: { id } })
+    if (!existingPolicy) {
+      return NextResponse.json({ error: "Polisa nije pronađena" }, { status: 404 })
+    }
+
+    await prisma.escalationPolicy.delete({ where: { id } })
+
+    return NextResponse.json({ message: "Polisa je uspešno obrisana", id })
+  } catch (error) {
+    console.error('Error deleting escalation policy:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom brisanja polise eskalacije" },
+      { status: 500 }
+    )
+  }
+}
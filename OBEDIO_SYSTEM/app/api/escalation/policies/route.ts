@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { EscalationService, DEFAULT_ESCALATION_TIERS } from '@/lib/services/escalation-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju nivoa eskalacije
+const tierSchema = z.object({
+  afterSeconds: z.number().int().positive("afterSeconds mora biti pozitivan broj"),
+  target: z.enum(["ASSIGNED_CREW", "DEPARTMENT_ON_DUTY", "ROLES"]),
+  department: z.string().optional(),
+  roles: z.array(z.string()).optional(),
+})
+
+// Schema za validaciju podataka kod kreiranja polise
+const policySchema = z.object({
+  name: z.string().min(1, "Naziv polise je obavezan"),
+  locationType: z.string().nullable().optional(),
+  vipOnly: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  tiers: z.array(tierSchema).min(1, "Polisa mora imati bar jedan nivo"),
+})
+
+// GET - Dohvatanje svih polisa eskalacije
+export async function GET() {
+  // Provera autentikacije i dozvole
+  const auth = authorize('requests:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const policies = await prisma.escalationPolicy.findMany({
+      orderBy: { createdAt: 'asc' }
+    })
+
+    return NextResponse.json({
+      policies: policies.map((policy: { tiers: string }) => ({
+        ...policy,
+        tiers: JSON.parse(policy.tiers)
+      })),
+      defaultTiers: DEFAULT_ESCALATION_TIERS,
+    })
+  } catch (error) {
+    console.error('Error fetching escalation policies:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja polisa eskalacije" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Kreiranje nove polise eskalacije
+export async function POST(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('escalation:manage')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const body = await request.json()
+
+    // Validacija podataka
+    const validation = policySchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    // Dodatna provera pravila za nivoe (npr. ROLES zahteva listu uloga)
+    const tiersJson = JSON.stringify(validation.data.tiers)
+    try {
+      EscalationService.parseTiers(tiersJson)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Neispravni nivoi eskalacije" },
+        { status: 400 }
+      )
+    }
+
+    const policy = await prisma.escalationPolicy.create({
+      data: {
+        name: validation.data.name,
+        locationType: validation.data.locationType || null,
+        vipOnly: validation.data.vipOnly ?? false,
+        isActive: validation.data.isActive ?? true,
+        tiers: tiersJson,
+      }
+    })
+
+    return NextResponse.json({ ...policy, tiers: validation.data.tiers }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating escalation policy:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom kreiranja polise eskalacije" },
+      { status: 500 }
+    )
+  }
+}
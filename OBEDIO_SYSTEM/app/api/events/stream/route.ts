@@ -1,15 +1,15 @@
 import { NextRequest } from 'next/server'
-import { emitter, SSE_EVENTS } from '@/lib/sseEmitter'
-import { getSessionCookie } from '@/lib/auth'
+import { emitter, SSE_EVENTS, RequestEscalatedEvent, EmergencyAlertEvent, DndChangedEvent, FirmwareUpdateEvent, DeviceConfigEvent, RequestVoiceEvent, RequestTranslationEvent, RequestReplyEvent, BatteryAlertEvent, ShiftRequestEvent, ShiftUpdateEvent, DutyAlertEvent, HandoverEvent } from '@/lib/sseEmitter'
+import { authorize } from '@/lib/auth'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
 export async function GET(request: NextRequest) {
-  // Check authentication
-  const session = getSessionCookie()
-  if (!session) {
-    return new Response('Unauthorized', { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('events:read')
+  if (!auth.session) {
+    return auth.response
   }
 
   // Headers for SSE
@@ -46,11 +46,89 @@ export async function GET(request: NextRequest) {
         controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.DEVICE_ADDED}\ndata: ${JSON.stringify(data)}\n\n`))
       }
 
+      // Handler for escalated (unacknowledged) requests
+      const requestEscalatedHandler = (data: RequestEscalatedEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.REQUEST_ESCALATED}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Handler for emergency alerts (emergency button, fall detection)
+      const emergencyAlertHandler = (data: EmergencyAlertEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.EMERGENCY_ALERT}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Handler for guest do-not-disturb changes
+      const dndChangedHandler = (data: DndChangedEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.DND_CHANGED}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Handler for OTA firmware update progress
+      const firmwareUpdateHandler = (data: FirmwareUpdateEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.FIRMWARE_UPDATE}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Handler for device configuration push results
+      const deviceConfigHandler = (data: DeviceConfigEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.DEVICE_CONFIG}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Handler for voice messages and their transcripts
+      const requestVoiceHandler = (data: RequestVoiceEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.REQUEST_VOICE}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Handler for translated guest messages
+      const requestTranslationHandler = (data: RequestTranslationEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.REQUEST_TRANSLATION}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Handler for crew replies sent to the cabin
+      const requestReplyHandler = (data: RequestReplyEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.REQUEST_REPLY}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Handler for shift swap and leave request updates
+      const shiftRequestHandler = (data: ShiftRequestEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.SHIFT_REQUEST}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Handler for actual shift starts and ends
+      const shiftUpdateHandler = (data: ShiftUpdateEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.SHIFT_UPDATE}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Handler for abnormal battery drain
+      const batteryAlertHandler = (data: BatteryAlertEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.BATTERY_ALERT}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Handler for late crew, uncovered positions and missed shifts
+      const dutyAlertHandler = (data: DutyAlertEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.DUTY_ALERT}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Handler for shift handovers
+      const handoverHandler = (data: HandoverEvent) => {
+        controller.enqueue(encoder.encode(`event: ${SSE_EVENTS.HANDOVER}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
       // Register event listeners
       emitter.on(SSE_EVENTS.NEW_REQUEST, newRequestHandler)
       emitter.on(SSE_EVENTS.DEVICE_UPDATE, deviceUpdateHandler)
       emitter.on(SSE_EVENTS.SYSTEM_STATUS, systemStatusHandler)
       emitter.on(SSE_EVENTS.DEVICE_ADDED, deviceAddedHandler)
+      emitter.on(SSE_EVENTS.REQUEST_ESCALATED, requestEscalatedHandler)
+      emitter.on(SSE_EVENTS.EMERGENCY_ALERT, emergencyAlertHandler)
+      emitter.on(SSE_EVENTS.DND_CHANGED, dndChangedHandler)
+      emitter.on(SSE_EVENTS.FIRMWARE_UPDATE, firmwareUpdateHandler)
+      emitter.on(SSE_EVENTS.DEVICE_CONFIG, deviceConfigHandler)
+      emitter.on(SSE_EVENTS.REQUEST_VOICE, requestVoiceHandler)
+      emitter.on(SSE_EVENTS.REQUEST_TRANSLATION, requestTranslationHandler)
+      emitter.on(SSE_EVENTS.REQUEST_REPLY, requestReplyHandler)
+      emitter.on(SSE_EVENTS.BATTERY_ALERT, batteryAlertHandler)
+      emitter.on(SSE_EVENTS.SHIFT_REQUEST, shiftRequestHandler)
+      emitter.on(SSE_EVENTS.SHIFT_UPDATE, shiftUpdateHandler)
+      emitter.on(SSE_EVENTS.DUTY_ALERT, dutyAlertHandler)
+      emitter.on(SSE_EVENTS.HANDOVER, handoverHandler)
 
       // Keep-alive interval
       const keepAliveInterval = setInterval(() => {
@@ -63,6 +141,19 @@ export async function GET(request: NextRequest) {
         emitter.off(SSE_EVENTS.DEVICE_UPDATE, deviceUpdateHandler)
         emitter.off(SSE_EVENTS.SYSTEM_STATUS, systemStatusHandler)
         emitter.off(SSE_EVENTS.DEVICE_ADDED, deviceAddedHandler)
+        emitter.off(SSE_EVENTS.REQUEST_ESCALATED, requestEscalatedHandler)
+        emitter.off(SSE_EVENTS.EMERGENCY_ALERT, emergencyAlertHandler)
+        emitter.off(SSE_EVENTS.DND_CHANGED, dndChangedHandler)
+        emitter.off(SSE_EVENTS.FIRMWARE_UPDATE, firmwareUpdateHandler)
+        emitter.off(SSE_EVENTS.DEVICE_CONFIG, deviceConfigHandler)
+        emitter.off(SSE_EVENTS.REQUEST_VOICE, requestVoiceHandler)
+        emitter.off(SSE_EVENTS.REQUEST_TRANSLATION, requestTranslationHandler)
+        emitter.off(SSE_EVENTS.REQUEST_REPLY, requestReplyHandler)
+        emitter.off(SSE_EVENTS.BATTERY_ALERT, batteryAlertHandler)
+        emitter.off(SSE_EVENTS.SHIFT_REQUEST, shiftRequestHandler)
+        emitter.off(SSE_EVENTS.SHIFT_UPDATE, shiftUpdateHandler)
+        emitter.off(SSE_EVENTS.DUTY_ALERT, dutyAlertHandler)
+        emitter.off(SSE_EVENTS.HANDOVER, handoverHandler)
         clearInterval(keepAliveInterval)
         controller.close()
       })
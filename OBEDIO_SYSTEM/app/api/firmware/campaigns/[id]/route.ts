@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { FirmwareService } from '@/lib/services/firmware-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za promenu stanja kampanje
+const campaignActionSchema = z.object({
+  action: z.enum(['start', 'pause', 'resume', 'cancel']),
+  reason: z.string().max(500).optional(),
+})
+
+// GET /api/firmware/campaigns/[id] - kampanja sa stanjem ažuriranja po uređaju
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID kampanje" }, { status: 400 })
+    }
+
+    const campaign = await FirmwareService.getCampaign(id)
+
+    if (!campaign) {
+      return NextResponse.json({ error: "Kampanja nije pronađena" }, { status: 404 })
+    }
+
+    return NextResponse.json(campaign)
+  } catch (error) {
+    console.error('Error fetching firmware campaign:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja kampanje" },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/firmware/campaigns/[id] - pokretanje, pauza, nastavak ili otkazivanje kampanje
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('firmware:manage')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID kampanje" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validation = campaignActionSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const campaign = await prisma.firmwareCampaign.findUnique({
+      where: { id },
+      select: { id: true, status: true }
+    })
+
+    if (!campaign) {
+      return NextResponse.json({ error: "Kampanja nije pronađena" }, { status: 404 })
+    }
+
+    const { action, reason } = validation.data
+    if (!FirmwareService.canTransition(campaign.status, action)) {
+      return NextResponse.json(
+        { error: `Kampanja u stanju "${campaign.status}" ne dozvoljava akciju "${action}"` },
+        { status: 409 }
+      )
+    }
+
+    const updated = await FirmwareService.transition(id, action, reason)
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating firmware campaign:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom izmene kampanje" },
+      { status: 500 }
+    )
+  }
+}
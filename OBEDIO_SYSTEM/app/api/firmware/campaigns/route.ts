@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { FirmwareService } from '@/lib/services/firmware-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju OTA kampanje
+const campaignSchema = z.object({
+  name: z.string().min(1, "Naziv kampanje je obavezan"),
+  releaseId: z.number().int().positive(),
+  targetGroup: z.object({
+    locationIds: z.array(z.number().int().positive()).optional(),
+    deviceIds: z.array(z.number().int().positive()).optional(),
+  }).nullable().optional(),
+  // Procenat uređaja koji je ažuriran posle svake faze, npr. [10, 50, 100]
+  stages: z.array(z.number().int().min(1).max(100)).min(1).default([10, 50, 100]),
+  failureThreshold: z.number().int().min(1).max(100).default(20),
+}).refine(data => data.stages.every((stage, i) => i === 0 || stage > data.stages[i - 1]), {
+  message: "Faze moraju da rastu",
+  path: ["stages"],
+}).refine(data => data.stages[data.stages.length - 1] === 100, {
+  message: "Poslednja faza mora obuhvatiti sve uređaje (100%)",
+  path: ["stages"],
+})
+
+// GET /api/firmware/campaigns - OTA kampanje sa brojem uređaja po stanju
+export async function GET() {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const campaigns = await FirmwareService.listCampaigns()
+    return NextResponse.json({ campaigns })
+  } catch (error) {
+    console.error('Error fetching firmware campaigns:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja kampanja" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/firmware/campaigns - kreiranje kampanje (u stanju draft)
+export async function POST(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('firmware:manage')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const body = await request.json()
+    const validation = campaignSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const campaign = await FirmwareService.createCampaign(validation.data)
+
+    if (!campaign) {
+      return NextResponse.json({ error: "Firmware nije pronađen" }, { status: 404 })
+    }
+
+    return NextResponse.json(campaign, { status: 201 })
+  } catch (error) {
+    console.error('Error creating firmware campaign:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom kreiranja kampanje" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { FirmwareService, FIRMWARE_DEVICE_TYPES } from '@/lib/services/firmware-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Najveći dozvoljeni firmware fajl (ESP32 OTA particija)
+const MAX_FIRMWARE_SIZE = 4 * 1024 * 1024
+
+// Schema za validaciju podataka o firmware-u (polja iz multipart forme)
+const releaseSchema = z.object({
+  version: z.string().min(1, "Verzija je obavezna").max(50),
+  model: z.string().min(1, "Model uređaja je obavezan").max(100),
+  deviceType: z.enum(FIRMWARE_DEVICE_TYPES),
+  checksum: z.string().regex(/^[a-fA-F0-9]{64}$/, "Checksum mora biti SHA-256 (hex)").optional(),
+  releaseNotes: z.string().max(5000).optional(),
+})
+
+// GET /api/firmware - registar firmware-a
+export async function GET() {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const releases = await FirmwareService.listReleases()
+    return NextResponse.json({ releases })
+  } catch (error) {
+    console.error('Error fetching firmware releases:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja firmware-a" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/firmware - otpremanje firmware-a (multipart: file, version, model, deviceType, checksum, releaseNotes)
+export async function POST(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('firmware:manage')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const contentType = request.headers.get('content-type') || ''
+    if (!contentType.includes('multipart/form-data')) {
+      return NextResponse.json({ error: "Firmware se otprema kao multipart/form-data" }, { status: 400 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: "Firmware fajl je obavezan" }, { status: 400 })
+    }
+
+    if (file.size > MAX_FIRMWARE_SIZE) {
+      return NextResponse.json({ error: "Firmware fajl je prevelik" }, { status: 413 })
+    }
+
+    const validation = releaseSchema.safeParse({
+      version: formData.get('version') ?? undefined,
+      model: formData.get('model') ?? undefined,
+      deviceType: formData.get('deviceType') ?? undefined,
+      checksum: formData.get('checksum') || undefined,
+      releaseNotes: formData.get('releaseNotes') || undefined,
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const { checksum, ...release } = validation.data
+    const data = Buffer.from(await file.arrayBuffer())
+
+    // Checksum iz forme štiti od oštećenog otpremanja
+    if (checksum && checksum.toLowerCase() !== FirmwareService.checksum(data)) {
+      return NextResponse.json({ error: "Checksum fajla se ne poklapa" }, { status: 400 })
+    }
+
+    const existing = await prisma.firmwareRelease.findUnique({
+      where: { model_version: { model: release.model, version: release.version } },
+      select: { id: true }
+    })
+
+    if (existing) {
+      return NextResponse.json({ error: "Ova verzija firmware-a za model već postoji" }, { status: 409 })
+    }
+
+    const created = await FirmwareService.createRelease({ ...release, fileName: file.name, data })
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    console.error('Error uploading firmware:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom otpremanja firmware-a" },
+      { status: 500 }
+    )
+  }
+}
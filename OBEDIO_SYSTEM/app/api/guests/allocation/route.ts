@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { CabinAllocationService } from '@/lib/services/cabin-allocation-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Podrazumevani period plana kada nije zadat
+const DEFAULT_RANGE_DAYS = 14
+
+// Schema za validaciju izmena rasporeda
+const allocationSchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  changes: z.array(z.object({
+    guestId: z.number().int().positive(),
+    locationId: z.number().int().positive().nullable(),
+  })).min(1, "Nema izmena rasporeda"),
+  dryRun: z.boolean().optional(),
+  force: z.boolean().optional(),
+}).refine(data => data.to > data.from, {
+  message: "Kraj perioda mora biti posle početka",
+  path: ["to"],
+})
+
+// GET /api/guests/allocation?from=&to=&suggest=true - plan kabina po palubama
+export async function GET(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('guests:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : new Date()
+    const to = searchParams.get('to')
+      ? new Date(searchParams.get('to')!)
+      : new Date(from.getTime() + DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000)
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+      return NextResponse.json({ error: "Nevažeći period" }, { status: 400 })
+    }
+
+    const plan = await CabinAllocationService.getPlan(from, to, searchParams.get('suggest') === 'true')
+    return NextResponse.json(plan)
+  } catch (error) {
+    console.error('Error fetching cabin plan:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja plana kabina" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/guests/allocation - provera (dryRun) ili primena izmena rasporeda
+export async function POST(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('guests:write')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const body = await request.json()
+    const validation = allocationSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const { from, to, changes, dryRun, force } = validation.data
+    const result = await CabinAllocationService.apply(changes, from, to, { dryRun, force })
+
+    if (result.unknownGuestIds.length > 0) {
+      return NextResponse.json(
+        { error: "Gosti nisu u planu za zadati period", guestIds: result.unknownGuestIds },
+        { status: 400 }
+      )
+    }
+
+    if (!dryRun && !result.applied) {
+      return NextResponse.json(
+        { error: "Raspored ima konflikte", conflicts: result.conflicts },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error applying cabin allocation:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom izmene rasporeda kabina" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
-import { getSessionCookie } from "@/lib/auth"
+import { authorize } from "@/lib/auth"
+import { DndService } from "@/lib/services/dnd-service"
 
 // Definisanje default strukture preferenci
 const defaultPreferences = {
@@ -16,22 +17,23 @@ export async function GET(request: NextRequest) {
   try {
     console.log('GET /api/guests - početak zahteva')
     
-    // Proveri autentikaciju
-    const authBypass = request.headers.get("x-auth-bypass")
-    
-    if (!authBypass) {
-      const session = getSessionCookie()
-      if (!session) {
-        console.log('GET /api/guests - Neautorizovan pristup')
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-      }
+    // Provera autentikacije i dozvole
+    const auth = authorize('guests:read')
+    if (!auth.session) {
+      return auth.response
     }
 
     // Dobavi sve goste iz baze
     console.log('GET /api/guests - Dohvatanje gostiju iz baze')
+    // Gosti sa zatvorenih čartera su arhivirani i prikazuju se samo na zahtev
+    const includeArchived = request.nextUrl.searchParams.get('includeArchived') === 'true'
     const guests = await prisma.guest.findMany({
+      where: includeArchived ? undefined : { archivedAt: null },
       include: {
         serviceRequests: true,
+        charter: {
+          select: { id: true, name: true },
+        },
       },
       orderBy: {
         createdAt: 'desc',
@@ -104,14 +106,10 @@ export async function GET(request: NextRequest) {
 // POST /api/guests - kreiraj novog gosta
 export async function POST(request: NextRequest) {
   try {
-    // Proveri autentikaciju
-    const authBypass = request.headers.get("x-auth-bypass")
-    
-    if (!authBypass) {
-      const session = getSessionCookie()
-      if (!session) {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-      }
+    // Provera autentikacije i dozvole
+    const auth = authorize('guests:write')
+    if (!auth.session) {
+      return auth.response
     }
 
     // Dobavi telo zahteva
@@ -170,6 +168,13 @@ export async function POST(request: NextRequest) {
       data: guestData
     })
 
+    // Gost je sačuvan; neuspela DND sinhronizacija se samo beleži, raspoređivač je ponavlja
+    if (body.preferences?.dndActive) {
+      await DndService.sync().catch(error => {
+        console.error('Error syncing DND state after creating guest:', error)
+      })
+    }
+
     // Vrati kreiranog gosta sa ispravno obrađenim preferences poljem
     return NextResponse.json({
       ...guest,
@@ -185,14 +190,10 @@ export async function POST(request: NextRequest) {
 // PATCH /api/guests - ažuriraj postojećeg gosta
 export async function PATCH(request: NextRequest) {
   try {
-    // Proveri autentikaciju
-    const authBypass = request.headers.get("x-auth-bypass")
-    
-    if (!authBypass) {
-      const session = getSessionCookie()
-      if (!session) {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-      }
+    // Provera autentikacije i dozvole
+    const auth = authorize('guests:write')
+    if (!auth.session) {
+      return auth.response
     }
 
     // Dobavi telo zahteva
@@ -270,6 +271,13 @@ export async function PATCH(request: NextRequest) {
       }
     })
 
+    // Promena DND-a odmah suspenduje/vraća zadatke i osvežava prikaz kabina
+    if (body.preferences?.dndActive !== undefined || body.preferences?.dndLocations !== undefined) {
+      await DndService.sync().catch(error => {
+        console.error('Error syncing DND state after updating guest:', error)
+      })
+    }
+
     // Parsiraj preference za vraćanje klijentu
     let guestPreferences = {...defaultPreferences}
     if (updatedGuest.preferences) {
@@ -302,14 +310,10 @@ export async function PATCH(request: NextRequest) {
 // DELETE /api/guests/:id - obriši gosta
 export async function DELETE(request: NextRequest) {
   try {
-    // Proveri autentikaciju
-    const authBypass = request.headers.get("x-auth-bypass")
-    
-    if (!authBypass) {
-      const session = getSessionCookie()
-      if (!session) {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-      }
+    // Provera autentikacije i dozvole
+    const auth = authorize('guests:write')
+    if (!auth.session) {
+      return auth.response
     }
 
     // Dobavi ID iz URL-a
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { HandoverService, HANDOVER_STATUSES } from '@/lib/services/handover-service'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/handovers/[id]/acknowledge
+// Dolazeći član posade potvrđuje primopredaju; posle toga smena može da počne
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID primopredaje" }, { status: 400 })
+    }
+
+    const handover = await HandoverService.get(id)
+    if (!handover) {
+      return NextResponse.json({ error: "Primopredaja nije pronađena" }, { status: 404 })
+    }
+
+    if (handover.incomingUserId !== auth.session.id) {
+      return NextResponse.json({ error: "Samo dolazeći član posade može da potvrdi primopredaju" }, { status: 403 })
+    }
+
+    if (handover.status !== HANDOVER_STATUSES.PENDING) {
+      return NextResponse.json({ error: "Primopredaja je već potvrđena" }, { status: 409 })
+    }
+
+    return NextResponse.json(await HandoverService.acknowledge(id, 'web'))
+  } catch (error) {
+    console.error('Error acknowledging handover:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom potvrde primopredaje" },
+      { status: 500 }
+    )
+  }
+}
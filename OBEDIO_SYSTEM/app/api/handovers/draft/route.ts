@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { HandoverService } from '@/lib/services/handover-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/handovers/draft
+// Predlog primopredaje: smena u toku, sledeća smena na poziciji, otvoreni zahtevi i gosti na brodu
+export async function GET() {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    return NextResponse.json(await HandoverService.draft(auth.session.id))
+  } catch (error) {
+    console.error('Error preparing handover draft:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom pripreme primopredaje" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { HandoverService } from '@/lib/services/handover-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju primopredaje smene
+const handoverSchema = z.object({
+  incomingShiftId: z.number().int().positive().optional(),
+  incomingUserId: z.number().int().positive().optional(),
+  requests: z.array(z.object({
+    requestId: z.number().int().positive(),
+    note: z.string().max(500).optional(),
+  })).max(100).default([]),
+  guestNotes: z.array(z.object({
+    guestId: z.number().int().positive(),
+    note: z.string().min(1).max(1000),
+  })).max(100).default([]),
+  tasks: z.array(z.string().min(1).max(500)).max(50).default([]),
+  notes: z.string().max(2000).optional(),
+  transferRequests: z.boolean().optional(),
+})
+
+// GET /api/handovers?shiftId=
+// Primopredaje prijavljenog člana posade ili arhiva primopredaja jedne smene
+export async function GET(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const shiftIdParam = request.nextUrl.searchParams.get('shiftId')
+    const shiftId = shiftIdParam ? parseInt(shiftIdParam) : undefined
+    if (shiftId !== undefined && isNaN(shiftId)) {
+      return NextResponse.json({ error: "Nevažeći ID smene" }, { status: 400 })
+    }
+
+    const handovers = await HandoverService.listFor(auth.session.id, shiftId)
+    return NextResponse.json({ handovers, currentUserId: auth.session.id })
+  } catch (error) {
+    console.error('Error fetching handovers:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom učitavanja primopredaja" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/handovers
+// Odlazeći član posade predaje smenu dolazećem
+export async function POST(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const body = await request.json()
+    const validation = handoverSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const result = await HandoverService.create(validation.data, auth.session.id)
+    if (result.outcome === 'invalid') {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json(result.handover, { status: 201 })
+  } catch (error) {
+    console.error('Error creating handover:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom kreiranja primopredaje" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,19 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const authBypass = request.headers.get("x-auth-bypass")
-    if (authBypass !== "true") {
-      const session = await getSessionCookie()
-      if (!session) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-      }
+    // Provera autentikacije i dozvole
+    const auth = authorize('locations:read')
+    if (!auth.session) {
+      return auth.response
     }
 
     const id = parseInt(params.id)
@@ -58,13 +55,10 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const authBypass = request.headers.get("x-auth-bypass")
-    if (authBypass !== "true") {
-      const session = await getSessionCookie()
-      if (!session) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-      }
+    // Provera autentikacije i dozvole
+    const auth = authorize('locations:write')
+    if (!auth.session) {
+      return auth.response
     }
 
     const id = parseInt(params.id)
@@ -73,7 +67,7 @@ export async function PUT(
     }
 
     const body = await request.json()
-    const { name, deck, type, description, capacity } = body
+    const { name, deck, type, description, capacity, responsibleDepartment } = body
 
     const location = await prisma.location.update({
       where: { id },
@@ -83,6 +77,7 @@ export async function PUT(
         ...(type !== undefined && { type }),
         ...(description !== undefined && { description }),
         ...(capacity !== undefined && { capacity }),
+        ...(responsibleDepartment !== undefined && { responsibleDepartment }),
       },
     })
 
@@ -104,13 +99,10 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const authBypass = request.headers.get("x-auth-bypass")
-    if (authBypass !== "true") {
-      const session = await getSessionCookie()
-      if (!session) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-      }
+    // Provera autentikacije i dozvole
+    const auth = authorize('locations:write')
+    if (!auth.session) {
+      return auth.response
     }
 
     const id = parseInt(params.id)
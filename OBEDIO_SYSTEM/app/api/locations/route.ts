@@ -1,16 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
+import { DndService } from '@/lib/services/dnd-service'
 
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const authBypass = request.headers.get("x-auth-bypass")
-    if (authBypass !== "true") {
-      const session = await getSessionCookie()
-      if (!session) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-      }
+    // Provera autentikacije i dozvole
+    const auth = authorize('locations:read')
+    if (!auth.session) {
+      return auth.response
     }
 
     const searchParams = request.nextUrl.searchParams
@@ -35,10 +33,16 @@ export async function GET(request: NextRequest) {
       ]
     })
 
+    // DND state is derived from guest preferences
+    const dndLocations = await DndService.getActive()
+    const dndByLocation = new Map(dndLocations.map(dnd => [dnd.locationId, dnd]))
+
     // Calculate occupancy for each location
     const locationsWithOccupancy = locations.map(location => ({
       ...location,
-      occupancy: location.guests?.length || 0
+      occupancy: location.guests?.length || 0,
+      dndActive: dndByLocation.has(location.id),
+      dndGuests: dndByLocation.get(location.id)?.guestNames || []
     }))
 
     return NextResponse.json(locationsWithOccupancy)
@@ -53,13 +57,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const authBypass = request.headers.get("x-auth-bypass")
-    if (authBypass !== "true") {
-      const session = await getSessionCookie()
-      if (!session) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-      }
+    // Provera autentikacije i dozvole
+    const auth = authorize('locations:write')
+    if (!auth.session) {
+      return auth.response
     }
 
     const body = await request.json()
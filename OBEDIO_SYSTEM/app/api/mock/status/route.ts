@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
 
 export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('system:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
   // Trenutni datum za timestamp
   const now = new Date();
   
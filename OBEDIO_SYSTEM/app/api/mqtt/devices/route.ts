@@ -1,23 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 
 const prisma = new PrismaClient()
 
-// Authentication check helper function
-async function checkAuth() {
-  const session = await getSessionCookie()
-  if (!session) {
-    return { authorized: false, message: 'No session found' }
-  }
-  return { authorized: true }
-}
-
 export async function GET(request: NextRequest) {
-  // Check authorization
-  const auth = await checkAuth()
-  if (!auth.authorized) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('mqtt:read')
+  if (!auth.session) {
+    return auth.response
   }
 
   try {
@@ -60,10 +51,10 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  // Check authorization
-  const auth = await checkAuth()
-  if (!auth.authorized) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('mqtt:write')
+  if (!auth.session) {
+    return auth.response
   }
 
   try {
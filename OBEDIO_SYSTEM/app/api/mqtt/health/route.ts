@@ -1,24 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 
 const prisma = new PrismaClient()
 
-// Authentication check helper function
-async function checkAuth() {
-  const session = await getSessionCookie()
-  if (!session) {
-    return { authorized: false, message: 'No session found' }
-  }
-  return { authorized: true }
-}
-
 // GET - Fetch MQTT health data from SQLite database
 export async function GET(request: NextRequest) {
-  // Check authorization
-  const auth = await checkAuth()
-  if (!auth.authorized) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('mqtt:read')
+  if (!auth.session) {
+    return auth.response
   }
 
   try {
@@ -1,18 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 
 const prisma = new PrismaClient()
 
-// Authentication check helper function
-async function checkAuth() {
-  const session = await getSessionCookie()
-  if (!session) {
-    return { authorized: false, message: 'No session found' }
-  }
-  return { authorized: true }
-}
-
 // Helper function to generate secure passwords
 function generateSecurePassword() {
   const length = 16
@@ -25,10 +16,10 @@ function generateSecurePassword() {
 }
 
 export async function POST(request: NextRequest) {
-  // Check authorization
-  const auth = await checkAuth()
-  if (!auth.authorized) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('provisioning:manage')
+  if (!auth.session) {
+    return auth.response
   }
 
   try {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { ProvisionService } from '@/lib/services/provision-service'
 
 // Zod shema za validaciju zahteva
@@ -17,19 +17,12 @@ export const dynamic = 'force-dynamic'
  */
 export async function POST(request: NextRequest) {
   try {
-    // Provera autentikacije
-    const session = getSessionCookie()
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
-    // Provera da li korisnik ima prava da kreira token za provisioning
-    if (session.role !== 'ADMIN' && session.role !== 'ENGINEER') {
-      return NextResponse.json(
-        { error: 'Insufficient permissions. Only ADMIN or ENGINEER can create provision tokens' },
-        { status: 403 }
-      )
+    // Provera autentikacije i dozvole
+    const auth = authorize('provisioning:manage')
+    if (!auth.session) {
+      return auth.response
     }
+    const session = auth.session
     
     // Parsiranje tela zahteva
     const body = await request.json()
@@ -48,7 +41,7 @@ export async function POST(request: NextRequest) {
     // Kreiranje provision tokena
     const provisionToken = await ProvisionService.createProvisionToken(
       room,
-      session.userId,
+      session.id,
       expiresInMinutes
     )
     
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { ProvisionService } from '@/lib/services/provision-service'
 
 export const dynamic = 'force-dynamic'
@@ -13,10 +13,10 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
-    // Provera autentikacije
-    const session = getSessionCookie()
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Provera autentikacije i dozvole
+    const auth = authorize('provisioning:manage')
+    if (!auth.session) {
+      return auth.response
     }
     
     const tokenId = parseInt(params.id)
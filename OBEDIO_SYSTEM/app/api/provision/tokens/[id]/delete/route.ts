@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@prisma/client'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -15,19 +15,12 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
-    // Provera autentikacije
-    const session = getSessionCookie()
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
-    // Provera administratorskih prava
-    if (session.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Insufficient permissions. Only ADMIN can delete provision tokens' },
-        { status: 403 }
-      )
+    // Provera autentikacije i dozvole
+    const auth = authorize('provisioning:delete')
+    if (!auth.session) {
+      return auth.response
     }
+    const session = auth.session
     
     const tokenId = parseInt(params.id)
     if (isNaN(tokenId)) {
@@ -45,8 +38,8 @@ export async function POST(
       data: {
         tokenId,
         action: 'DELETE',
-        message: `Token soft-deleted by admin ${session.userId}`,
-        metadata: JSON.stringify({ adminId: session.userId })
+        message: `Token soft-deleted by admin ${session.id}`,
+        metadata: JSON.stringify({ adminId: session.id })
       }
     })
     
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@prisma/client'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -12,10 +12,10 @@ export const dynamic = 'force-dynamic'
  */
 export async function GET(request: NextRequest) {
   try {
-    // Provera autentikacije
-    const session = getSessionCookie()
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Provera autentikacije i dozvole
+    const auth = authorize('provisioning:manage')
+    if (!auth.session) {
+      return auth.response
     }
     
     // Dohvatanje upita za filtriranje
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { assignRequest } from '@/lib/mqtt-handlers/request-handler'
+
+// POST /api/requests/[id]/accept
+// Prihvatanje zahteva - dodela trenutno prijavljenom korisniku
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('requests:handle')
+  if (!auth.session) {
+    return auth.response
+  }
+  const session = auth.session
+
+  try {
+    const id = Number(params.id)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid request ID" },
+        { status: 400 }
+      )
+    }
+
+    // Provera da li zahtev postoji
+    const existingRequest = await prisma.request.findUnique({
+      where: { id }
+    })
+
+    if (!existingRequest) {
+      return NextResponse.json(
+        { error: "Request not found" },
+        { status: 404 }
+      )
+    }
+
+    // Samo zahtevi na čekanju mogu biti prihvaćeni
+    if (existingRequest.status !== 'PENDING') {
+      return NextResponse.json(
+        { error: "Only pending requests can be accepted" },
+        { status: 400 }
+      )
+    }
+
+    // assignRequest beleži ACCEPTED događaj i emituje SSE ažuriranje
+    const acceptedRequest = await assignRequest(id, session.id)
+
+    return NextResponse.json(acceptedRequest)
+  } catch (error) {
+    console.error('Error accepting request:', error)
+    return NextResponse.json(
+      { error: "Failed to accept request" },
+      { status: 500 }
+    )
+  }
+}
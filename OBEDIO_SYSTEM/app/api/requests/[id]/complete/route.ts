@@ -1,18 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { emitter, SSE_EVENTS } from '@/lib/sseEmitter'
+import { RequestHistoryService, REQUEST_EVENT_TYPES } from '@/lib/services/request-history-service'
+import { PriorityService } from '@/lib/services/priority-service'
 
 // POST /api/requests/[id]/complete
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  // Provera autentikacije
-  const session = getSessionCookie()
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('requests:handle')
+  if (!auth.session) {
+    return auth.response
   }
+  const session = auth.session
 
   try {
     const id = Number(params.id)
@@ -34,7 +37,7 @@ export async function POST(
             room: true,
           }
         },
-        assignedUser: true
+        assignee: true
       }
     })
     
@@ -53,12 +56,21 @@ export async function POST(
       )
     }
     
+    // Telo zahteva je opciono - beleška o incidentu je obavezna samo za hitne zahteve
+    const body = await request.json().catch(() => ({}))
+    const incidentNote = typeof body.incidentNote === 'string' ? body.incidentNote : undefined
+
+    const closureError = PriorityService.validateClosure(existingRequest.priority, incidentNote)
+    if (closureError) {
+      return NextResponse.json({ error: closureError }, { status: 400 })
+    }
+
     // Ažuriranje statusa zahteva
     const completedRequest = await prisma.request.update({
       where: { id },
       data: {
         status: 'COMPLETED',
-        completedAt: new Date(),
+        ...(incidentNote && { incidentNote }),
       },
       include: {
         device: {
@@ -68,10 +80,15 @@ export async function POST(
             room: true,
           }
         },
-        assignedUser: true
+        assignee: true
       }
     })
     
+    await RequestHistoryService.record(id, REQUEST_EVENT_TYPES.COMPLETED, {
+      actorId: session.id,
+      reason: incidentNote,
+    })
+
     // Emitovanje SSE događaja
     emitter.emitEvent(SSE_EVENTS.REQUEST_UPDATE, {
       requestId: completedRequest.id,
@@ -80,8 +97,8 @@ export async function POST(
       room: completedRequest.device.room,
       status: completedRequest.status,
       assignedTo: completedRequest.assignedTo,
-      assignedName: completedRequest.assignedUser?.name || null,
-      timestamp: completedRequest.timestamp.toISOString(),
+      assignedName: completedRequest.assignee?.name || null,
+      timestamp: completedRequest.createdAt.toISOString(),
       updatedAt: new Date().toISOString(),
     })
     
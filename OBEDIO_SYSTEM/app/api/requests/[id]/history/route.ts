@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { RequestHistoryService } from '@/lib/services/request-history-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/requests/[id]/history
+// Hronološka istorija zahteva (kreiranje, isporuka, prihvatanje, prebacivanje, eskalacija, završetak)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('requests:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = Number(params.id)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid request ID" },
+        { status: 400 }
+      )
+    }
+
+    const existingRequest = await prisma.request.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!existingRequest) {
+      return NextResponse.json(
+        { error: "Request not found" },
+        { status: 404 }
+      )
+    }
+
+    const history = await RequestHistoryService.getHistory(id)
+
+    return NextResponse.json({ history })
+  } catch (error) {
+    console.error('Error fetching request history:', error)
+    return NextResponse.json(
+      { error: "Failed to fetch request history" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { TranslationService } from '@/lib/services/translation-service'
+import { CANNED_REPLY_KEYS } from '@/lib/translation/canned-replies'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+const replySchema = z.object({
+  reply: z.enum(CANNED_REPLY_KEYS),
+})
+
+// POST /api/requests/[id]/reply
+// Gotov odgovor gostu - prikazuje se na uređaju u kabini na jeziku gosta
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('requests:handle')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID zahteva" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validation = replySchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const reply = await TranslationService.sendReply(id, validation.data.reply, auth.session.id)
+    if (!reply) {
+      return NextResponse.json({ error: "Zahtev nije pronađen" }, { status: 404 })
+    }
+
+    return NextResponse.json({ reply }, { status: 201 })
+  } catch (error) {
+    console.error('Error sending reply to guest:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom slanja odgovora gostu" },
+      { status: 500 }
+    )
+  }
+}
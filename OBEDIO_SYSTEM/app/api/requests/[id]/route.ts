@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { emitter, SSE_EVENTS } from '@/lib/sseEmitter'
+import { RequestHistoryService, REQUEST_EVENT_TYPES } from '@/lib/services/request-history-service'
+import { PriorityService } from '@/lib/services/priority-service'
+import { GuestContextService } from '@/lib/services/guest-context-service'
+import { VoiceService } from '@/lib/services/voice-service'
+import { TranslationService } from '@/lib/services/translation-service'
 import { z } from 'zod'
 
 // Schema za validaciju podataka kod ažuriranja zahteva
@@ -9,6 +14,8 @@ const requestUpdateSchema = z.object({
   status: z.enum(["PENDING", "IN_PROGRESS", "COMPLETED", "CANCELLED"]).optional(),
   assignedTo: z.number().int().positive().nullable().optional(),
   notes: z.string().optional(),
+  priority: z.enum(["normal", "urgent", "emergency"]).optional(),
+  incidentNote: z.string().optional(),
 })
 
 // GET - Dohvatanje pojedinačnog zahteva
@@ -16,10 +23,10 @@ export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  // Provera autentikacije
-  const session = getSessionCookie()
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('requests:read')
+  if (!auth.session) {
+    return auth.response
   }
 
   try {
@@ -39,16 +46,19 @@ export async function GET(
             room: true,
             type: true,
             battery: true,
-            signalStrength: true,
+            signal: true,
             lastSeen: true,
           }
         },
-        assignedUser: {
+        assignee: {
           select: {
             id: true,
             name: true,
             email: true,
           }
+        },
+        escalations: {
+          orderBy: { createdAt: 'asc' }
         }
       },
     })
@@ -57,7 +67,12 @@ export async function GET(
       return NextResponse.json({ error: "Zahtev nije pronađen" }, { status: 404 })
     }
 
-    return NextResponse.json(request)
+    return NextResponse.json({
+      ...request,
+      guestContext: GuestContextService.parse(request.guestContext),
+      voiceRecordings: await VoiceService.getForRequest(id),
+      crewReplies: await TranslationService.getReplies(id),
+    })
   } catch (error) {
     console.error('Error fetching request:', error)
     return NextResponse.json(
@@ -72,11 +87,12 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  // Provera autentikacije
-  const session = getSessionCookie()
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('requests:handle')
+  if (!auth.session) {
+    return auth.response
   }
+  const session = auth.session
 
   try {
     const id = parseInt(params.id)
@@ -112,6 +128,18 @@ export async function PUT(
       )
     }
 
+    // Hitni zahtevi se ne zatvaraju bez beleške o incidentu
+    const { status: nextStatus } = validation.data
+    if (nextStatus === 'COMPLETED' || nextStatus === 'CANCELLED') {
+      const closureError = PriorityService.validateClosure(
+        validation.data.priority || existingRequest.priority,
+        validation.data.incidentNote || existingRequest.incidentNote
+      )
+      if (closureError) {
+        return NextResponse.json({ error: closureError }, { status: 400 })
+      }
+    }
+
     // Ako se menja assignedTo, provera korisnika
     if (validation.data.assignedTo !== undefined) {
       if (validation.data.assignedTo !== null) {
@@ -128,12 +156,13 @@ export async function PUT(
       }
     }
 
-    // Ažuriranje zahteva
+    // Ažuriranje zahteva; notes nije kolona zahteva - beleži se kao razlog u istoriji
+    const { notes, ...changes } = validation.data
     const updatedRequest = await prisma.request.update({
       where: { id },
-      data: validation.data,
+      data: changes,
       include: {
-        assignedUser: {
+        assignee: {
           select: {
             id: true,
             name: true,
@@ -150,6 +179,34 @@ export async function PUT(
       }
     })
 
+    // Beleženje promena u istoriji zahteva
+    const { assignedTo, status } = validation.data
+    if (assignedTo !== undefined && assignedTo !== null && assignedTo !== existingRequest.assignedTo) {
+      await RequestHistoryService.record(
+        id,
+        assignedTo === session.id ? REQUEST_EVENT_TYPES.ACCEPTED : REQUEST_EVENT_TYPES.TRANSFERRED,
+        {
+          actorId: session.id,
+          fromUserId: existingRequest.assignedTo,
+          toUserId: assignedTo,
+          reason: notes,
+        }
+      )
+    }
+    if (status && status !== existingRequest.status) {
+      if (status === 'COMPLETED') {
+        await RequestHistoryService.record(id, REQUEST_EVENT_TYPES.COMPLETED, {
+          actorId: session.id,
+          reason: validation.data.incidentNote,
+        })
+      } else if (status === 'CANCELLED') {
+        await RequestHistoryService.record(id, REQUEST_EVENT_TYPES.CANCELLED, {
+          actorId: session.id,
+          reason: validation.data.incidentNote || notes,
+        })
+      }
+    }
+
     // Emitovanje SSE događaja za ažuriranje zahteva
     emitter.emitEvent(SSE_EVENTS.REQUEST_UPDATE, {
       requestId: updatedRequest.id,
@@ -158,8 +215,8 @@ export async function PUT(
       room: updatedRequest.device.room,
       status: updatedRequest.status,
       assignedTo: updatedRequest.assignedTo,
-      assignedName: updatedRequest.assignedUser?.name || null,
-      timestamp: updatedRequest.timestamp,
+      assignedName: updatedRequest.assignee?.name || null,
+      timestamp: updatedRequest.createdAt.toISOString(),
       updatedAt: new Date().toISOString(),
     })
 
@@ -178,11 +235,12 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  // Provera autentikacije
-  const session = getSessionCookie()
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('requests:manage')
+  if (!auth.session) {
+    return auth.response
   }
+  const session = auth.session
 
   try {
     const id = parseInt(params.id)
@@ -207,12 +265,20 @@ export async function DELETE(
       return NextResponse.json({ error: "Zahtev nije pronađen" }, { status: 404 })
     }
 
+    // Hitan zahtev se otkazuje samo uz belešku o incidentu (?incidentNote=...)
+    const incidentNote = request.nextUrl.searchParams.get('incidentNote') || undefined
+    const closureError = PriorityService.validateClosure(existingRequest.priority, incidentNote)
+    if (closureError) {
+      return NextResponse.json({ error: closureError }, { status: 400 })
+    }
+
     // Umesto brisanja, menjamo status u CANCELLED
     const cancelledRequest = await prisma.request.update({
       where: { id },
       data: { 
         status: "CANCELLED",
         assignedTo: null, // Uklanjamo asignaciju
+        ...(incidentNote && { incidentNote }),
       },
       include: {
         device: {
@@ -225,6 +291,12 @@ export async function DELETE(
       }
     })
 
+    await RequestHistoryService.record(id, REQUEST_EVENT_TYPES.CANCELLED, {
+      actorId: session.id,
+      fromUserId: existingRequest.assignedTo,
+      reason: incidentNote,
+    })
+
     // Emitovanje SSE događaja za otkazivanje zahteva
     emitter.emitEvent(SSE_EVENTS.REQUEST_UPDATE, {
       requestId: cancelledRequest.id,
@@ -234,7 +306,7 @@ export async function DELETE(
       status: "CANCELLED",
       assignedTo: null,
       assignedName: null,
-      timestamp: cancelledRequest.timestamp,
+      timestamp: cancelledRequest.createdAt.toISOString(),
       updatedAt: new Date().toISOString(),
     })
 
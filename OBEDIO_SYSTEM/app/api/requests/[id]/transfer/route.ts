@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { emitter, SSE_EVENTS } from '@/lib/sseEmitter'
+import { RequestHistoryService, REQUEST_EVENT_TYPES } from '@/lib/services/request-history-service'
 
 // POST /api/requests/[id]/transfer
 // Prebacivanje zahteva na drugog korisnika
@@ -9,11 +10,12 @@ export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  // Provera autentikacije
-  const session = getSessionCookie()
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('requests:handle')
+  if (!auth.session) {
+    return auth.response
   }
+  const session = auth.session
 
   try {
     const id = Number(params.id)
@@ -45,7 +47,7 @@ export async function POST(
             room: true,
           }
         },
-        assignedUser: true
+        assignee: true
       }
     })
     
@@ -76,22 +78,16 @@ export async function POST(
       )
     }
 
-    // Zapisati u notes ko je prebacio i dodatni komentar ako postoji
+    // Ko je prebacio i komentar beleže se u istoriji zahteva (TRANSFERRED)
     const sourceUserName = session.name
     const notes = data.notes || ''
-    const transferNote = `${new Date().toISOString()} - ${sourceUserName} transferred to ${targetUser.name}${notes ? ': ' + notes : ''}`
-    
-    const updatedNotes = existingRequest.notes
-      ? `${existingRequest.notes}\n${transferNote}`
-      : transferNote
-    
+
     // Ažuriranje statusa zahteva
     const updatedRequest = await prisma.request.update({
       where: { id },
       data: {
         status: 'IN_PROGRESS',
         assignedTo: targetUserId,
-        notes: updatedNotes
       },
       include: {
         device: {
@@ -101,10 +97,17 @@ export async function POST(
             room: true,
           }
         },
-        assignedUser: true
+        assignee: true
       }
     })
     
+    await RequestHistoryService.record(id, REQUEST_EVENT_TYPES.TRANSFERRED, {
+      actorId: session.id,
+      fromUserId: existingRequest.assignedTo,
+      toUserId: targetUserId,
+      reason: notes,
+    })
+
     // Emitovanje SSE događaja
     emitter.emitEvent(SSE_EVENTS.REQUEST_UPDATE, {
       requestId: updatedRequest.id,
@@ -113,8 +116,8 @@ export async function POST(
       room: updatedRequest.device.room,
       status: updatedRequest.status,
       assignedTo: updatedRequest.assignedTo,
-      assignedName: updatedRequest.assignedUser?.name || null,
-      timestamp: updatedRequest.timestamp.toISOString(),
+      assignedName: updatedRequest.assignee?.name || null,
+      timestamp: updatedRequest.createdAt.toISOString(),
       updatedAt: new Date().toISOString(),
       transferredBy: sourceUserName,
       transferredTo: targetUser.name
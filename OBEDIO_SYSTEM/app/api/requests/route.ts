@@ -1,14 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { emitter, SSE_EVENTS } from '@/lib/sseEmitter'
-import { headers } from 'next/headers'
+import { RequestHistoryService, REQUEST_EVENT_TYPES } from '@/lib/services/request-history-service'
+import { PriorityService, REQUEST_CATEGORIES } from '@/lib/services/priority-service'
+import { raiseEmergencyAlarm } from '@/lib/mqtt-handlers/request-handler'
+import { GuestContextService } from '@/lib/services/guest-context-service'
 import { z } from 'zod'
 
 // Schema za validaciju podataka kod kreiranja zahteva
 const requestCreateSchema = z.object({
   deviceId: z.number().int().positive("ID uređaja mora biti pozitivan broj"),
   notes: z.string().optional(),
+  priority: z.enum(["normal", "urgent", "emergency"]).optional(),
 })
 
 // Schema za validaciju podataka kod ažuriranja zahteva
@@ -20,20 +24,10 @@ const requestUpdateSchema = z.object({
 
 // GET - Dohvatanje svih zahteva
 export async function GET(request: NextRequest) {
-  // Alternativna provera za x-auth-bypass header
-  const headersList = headers();
-  const authBypass = headersList.get('x-auth-bypass');
-  
-  // Standardna provera autentikacije ako nema bypass headera
-  if (!authBypass) {
-    const session = getSessionCookie()
-    if (!session) {
-      console.log('API Requests: Nema sesije i nema bypass headera, vraćam 401 Unauthorized');
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
-    console.log('API Requests: Validna sesija pronađena, pristup dozvoljen');
-  } else {
-    console.log('API Requests: Pronađen x-auth-bypass header, preskačem proveru autentikacije');
+  // Provera autentikacije i dozvole
+  const auth = authorize('requests:read');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -48,12 +42,15 @@ export async function GET(request: NextRequest) {
     const assignedTo = searchParams.get('assignedTo') 
       ? parseInt(searchParams.get('assignedTo') || '0') 
       : undefined
+    const priority = searchParams.get('priority') || undefined
 
     // Priprema filtera za pretragu
     const where: any = {}
     
-    // Dodavanje filtera za status zahteva
-    if (status) {
+    // Dodavanje filtera za status zahteva; active = na čekanju ili u obradi
+    if (status === 'active') {
+      where.status = { in: ['PENDING', 'IN_PROGRESS'] }
+    } else if (status) {
       where.status = status
     }
     
@@ -66,6 +63,11 @@ export async function GET(request: NextRequest) {
     if (assignedTo && !isNaN(assignedTo)) {
       where.assignedTo = assignedTo
     }
+
+    // Dodavanje filtera za prioritet
+    if (priority) {
+      where.priority = priority
+    }
     
     // Brojanje ukupnog broja rezultata (za paginaciju)
     const total = await prisma.request.count({ where })
@@ -75,7 +77,7 @@ export async function GET(request: NextRequest) {
       where,
       skip: (page - 1) * limit,
       take: limit,
-      orderBy: { timestamp: 'desc' },
+      orderBy: { createdAt: 'desc' },
       include: {
         device: {
           select: {
@@ -85,7 +87,7 @@ export async function GET(request: NextRequest) {
             type: true,
           }
         },
-        assignedUser: {
+        assignee: {
           select: {
             id: true,
             name: true,
@@ -95,6 +97,11 @@ export async function GET(request: NextRequest) {
       }
     })
     
+    // Hitni zahtevi preskaču red unutar strane
+    requests.sort((a: { priority: string }, b: { priority: string }) =>
+      PriorityService.rank(b.priority) - PriorityService.rank(a.priority)
+    )
+
     // Priprema meta podataka za paginaciju
     const meta = {
       page,
@@ -103,7 +110,13 @@ export async function GET(request: NextRequest) {
       totalPages: Math.ceil(total / limit),
     }
     
-    return NextResponse.json({ requests, meta })
+    return NextResponse.json({
+      requests: requests.map((item: { guestContext: string | null }) => ({
+        ...item,
+        guestContext: GuestContextService.parse(item.guestContext),
+      })),
+      meta,
+    })
   } catch (error) {
     console.error('Error fetching requests:', error)
     return NextResponse.json(
@@ -115,11 +128,12 @@ export async function GET(request: NextRequest) {
 
 // POST - Kreiranje novog zahteva
 export async function POST(request: NextRequest) {
-  // Provera autentikacije
-  const session = getSessionCookie()
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('requests:handle')
+  if (!auth.session) {
+    return auth.response
   }
+  const session = auth.session
 
   try {
     const body = await request.json()
@@ -145,13 +159,16 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    const guests = await GuestContextService.forLocation(device.locationId)
+
     // Kreiranje novog zahteva
     const newRequest = await prisma.request.create({
       data: {
         deviceId: validation.data.deviceId,
         status: "PENDING",
-        timestamp: new Date(),
-        notes: validation.data.notes || "",
+        priority: validation.data.priority || 'normal',
+        category: REQUEST_CATEGORIES.MANUAL,
+        guestContext: GuestContextService.serialize(guests),
       },
       include: {
         device: {
@@ -164,14 +181,29 @@ export async function POST(request: NextRequest) {
       }
     })
     
+    // Beleška uz ručno kreiran zahtev čuva se u istoriji (zahtev nema kolonu za beleške)
+    await RequestHistoryService.record(newRequest.id, REQUEST_EVENT_TYPES.CREATED, {
+      actorId: session.id,
+      reason: validation.data.notes,
+      metadata: { source: 'web' }
+    })
+
     // Emitovanje SSE događaja za novi zahtev
     emitter.emitEvent(SSE_EVENTS.NEW_REQUEST, {
       requestId: newRequest.id,
       deviceId: newRequest.deviceId,
       deviceName: newRequest.device.name,
       room: newRequest.device.room,
-      timestamp: newRequest.timestamp,
+      timestamp: newRequest.createdAt.toISOString(),
+      priority: newRequest.priority,
+      category: newRequest.category,
+      guests,
     })
+
+    // Hitan zahtev prijavljen iz aplikacije alarmira isto kao i dugme
+    if (PriorityService.isEmergency(newRequest.priority)) {
+      await raiseEmergencyAlarm(newRequest, device)
+    }
     
     return NextResponse.json(newRequest, { status: 201 })
   } catch (error) {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { DutyService } from '@/lib/services/duty-service'
 
 // GET /api/shifts/[id] - Dohvatanje pojedinačne smene
@@ -8,10 +8,10 @@ export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  // Provera autentikacije
-  const session = getSessionCookie()
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
   }
 
   try {
@@ -61,11 +61,12 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  // Provera autentikacije
-  const session = getSessionCookie()
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:write')
+  if (!auth.session) {
+    return auth.response
   }
+  const session = auth.session
 
   try {
     const id = Number(params.id)
@@ -96,7 +97,7 @@ export async function PATCH(
     // Podržane akcije: 'end' (završavanje smene)
     if (action === 'end') {
       // Ako je smena već završena
-      if (shift.status !== 'ACTIVE') {
+      if (!DutyService.isLive(shift)) {
         return NextResponse.json(
           { error: "Cannot end shift that is not active" },
           { status: 400 }
@@ -110,7 +111,7 @@ export async function PATCH(
         
         if (!isNaN(targetUserId)) {
           // Prebacivanje svih zahteva
-          await DutyService.transferAllRequests(shift.userId, targetUserId, notes)
+          await DutyService.transferAllRequests(shift.userId, targetUserId, notes, session.id)
         }
       }
       
@@ -1,34 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
-import { headers } from 'next/headers'
+import { authorize } from '@/lib/auth'
 
 export const dynamic = 'force-dynamic'
 
-// Helper function for auth check
-async function checkAuth() {
-  const headersList = headers();
-  const authBypass = headersList.get('x-auth-bypass');
-  
-  if (!authBypass) {
-    const session = getSessionCookie()
-    if (!session) {
-      console.log('API: No session and no bypass header, returning 401 Unauthorized');
-      return { authorized: false };
-    }
-    console.log('API: Valid session found, access allowed');
-  } else {
-    console.log('API: Found x-auth-bypass header, skipping authentication check');
-  }
-  
-  return { authorized: true };
-}
-
 export async function POST(request: NextRequest) {
-  // Check authorization
-  const auth = await checkAuth();
-  if (!auth.authorized) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:write');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { ShiftRequestService, SHIFT_REQUEST_STATUSES } from '@/lib/services/shift-request-service'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/shifts/requests/[id]/cancel
+// Predlagač povlači zahtev dok još nije odlučeno
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID zahteva" }, { status: 400 })
+    }
+
+    const shiftRequest = await ShiftRequestService.get(id)
+    if (!shiftRequest) {
+      return NextResponse.json({ error: "Zahtev nije pronađen" }, { status: 404 })
+    }
+
+    if (shiftRequest.requesterId !== auth.session.id) {
+      return NextResponse.json({ error: "Samo predlagač može da povuče zahtev" }, { status: 403 })
+    }
+
+    if (shiftRequest.status !== SHIFT_REQUEST_STATUSES.PENDING_COLLEAGUE &&
+      shiftRequest.status !== SHIFT_REQUEST_STATUSES.PENDING_APPROVAL) {
+      return NextResponse.json({ error: "Zahtev je već rešen" }, { status: 409 })
+    }
+
+    return NextResponse.json(await ShiftRequestService.cancel(id))
+  } catch (error) {
+    console.error('Error cancelling shift request:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom povlačenja zahteva" },
+      { status: 500 }
+    )
+  }
+}
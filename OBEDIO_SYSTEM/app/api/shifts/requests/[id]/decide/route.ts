@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { ShiftRequestService, SHIFT_REQUEST_STATUSES } from '@/lib/services/shift-request-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju odluke šefa odeljenja
+const decideSchema = z.object({
+  approve: z.boolean(),
+  force: z.boolean().optional(),
+  note: z.string().max(500).optional(),
+})
+
+// POST /api/shifts/requests/[id]/decide
+// Šef odeljenja odobrava ili odbija zamenu ili odsustvo
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije; šefa odeljenja proverava canDecide, ne uloga (Chief Engineer, Bosun nemaju shifts:write)
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID zahteva" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validation = decideSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const shiftRequest = await ShiftRequestService.get(id)
+    if (!shiftRequest) {
+      return NextResponse.json({ error: "Zahtev nije pronađen" }, { status: 404 })
+    }
+
+    if (!(await ShiftRequestService.canDecide(auth.session.id, shiftRequest))) {
+      return NextResponse.json({ error: "Samo šef odeljenja može da odluči o zahtevu" }, { status: 403 })
+    }
+
+    if (shiftRequest.status !== SHIFT_REQUEST_STATUSES.PENDING_APPROVAL) {
+      return NextResponse.json({ error: "Zahtev ne čeka odobrenje" }, { status: 409 })
+    }
+
+    const { approve, force, note } = validation.data
+    const decision = await ShiftRequestService.decide(id, auth.session.id, approve, { force, note })
+
+    if (decision.outcome === 'stale') {
+      return NextResponse.json({ error: "Smene iz zahteva su u međuvremenu promenjene" }, { status: 409 })
+    }
+
+    // Konflikti se vraćaju da bi šef odeljenja mogao svesno da odobri sa force
+    if (decision.outcome === 'conflicts') {
+      return NextResponse.json(
+        { error: "Zamena pravi konflikte u rasporedu", conflicts: decision.conflicts },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(decision.request)
+  } catch (error) {
+    console.error('Error deciding shift request:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom odlučivanja o zahtevu" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { ShiftRequestService, SHIFT_REQUEST_STATUSES } from '@/lib/services/shift-request-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju odgovora kolege
+const respondSchema = z.object({
+  accept: z.boolean(),
+})
+
+// POST /api/shifts/requests/[id]/respond
+// Kolega prihvata ili odbija predloženu zamenu smene
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID zahteva" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validation = respondSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const shiftRequest = await ShiftRequestService.get(id)
+    if (!shiftRequest) {
+      return NextResponse.json({ error: "Zahtev nije pronađen" }, { status: 404 })
+    }
+
+    if (shiftRequest.colleagueId !== auth.session.id) {
+      return NextResponse.json({ error: "Samo kolega iz zahteva može da odgovori" }, { status: 403 })
+    }
+
+    if (shiftRequest.status !== SHIFT_REQUEST_STATUSES.PENDING_COLLEAGUE) {
+      return NextResponse.json({ error: "Zahtev više ne čeka odgovor kolege" }, { status: 409 })
+    }
+
+    return NextResponse.json(await ShiftRequestService.respond(id, validation.data.accept))
+  } catch (error) {
+    console.error('Error responding to shift request:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom odgovora na zahtev" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { ShiftRequestService } from '@/lib/services/shift-request-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za validaciju predloga zamene ili odsustva
+const shiftRequestSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('swap'),
+    shiftId: z.number().int().positive(),
+    colleagueId: z.number().int().positive(),
+    colleagueShiftId: z.number().int().positive().optional(),
+    reason: z.string().max(500).optional(),
+  }),
+  z.object({
+    type: z.literal('leave'),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+    reason: z.string().max(500).optional(),
+  }),
+])
+
+// GET /api/shifts/requests
+// Zahtevi za zamenu smena i odsustvo koje prijavljeni član posade vidi
+export async function GET() {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const requests = await ShiftRequestService.listFor(auth.session.id)
+    return NextResponse.json({ requests, currentUserId: auth.session.id })
+  } catch (error) {
+    console.error('Error fetching shift requests:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom učitavanja zahteva za smene" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/shifts/requests
+// Član posade predlaže zamenu svoje smene sa kolegom ili traži odsustvo
+export async function POST(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const body = await request.json()
+    const validation = shiftRequestSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const error = await ShiftRequestService.validate(validation.data, auth.session.id)
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const shiftRequest = await ShiftRequestService.propose(validation.data, auth.session.id)
+    return NextResponse.json(shiftRequest, { status: 201 })
+  } catch (error) {
+    console.error('Error creating shift request:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom kreiranja zahteva za smenu" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { RosterService, ROTATION_TEMPLATES } from '@/lib/services/roster-service'
+import { MLC_MIN_REST_24H, MLC_MIN_REST_7D } from '@/utils/conflict-detection'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Najduži raspored koji se generiše odjednom
+const MAX_WEEKS = 12
+
+// Schema za validaciju zahteva za generisanje rasporeda
+const rosterSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  startDate: z.coerce.date(),
+  weeks: z.number().int().min(1).max(MAX_WEEKS),
+  positions: z.array(z.object({
+    laneId: z.string().trim().min(1),
+    templateId: z.string().refine(id => !!RosterService.getTemplate(id), "Nepoznat šablon rotacije"),
+    crew: z.number().int().min(1).max(20),
+    department: z.string().trim().min(1).optional(),
+    skills: z.array(z.string().trim().min(1)).optional(),
+  })).min(1, "Raspored mora imati bar jednu poziciju"),
+  replaceExisting: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+  force: z.boolean().optional(),
+})
+
+// GET /api/shifts/roster - šabloni rotacije i pravila odmora
+export async function GET() {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  return NextResponse.json({
+    templates: ROTATION_TEMPLATES,
+    restRules: { minRest24h: MLC_MIN_REST_24H, minRest7d: MLC_MIN_REST_7D },
+  })
+}
+
+// POST /api/shifts/roster - provera (dryRun) ili čuvanje rasporeda generisanog iz šablona rotacije
+export async function POST(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:write')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const body = await request.json()
+    const validation = rosterSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const { dryRun, force, ...input } = validation.data
+    const result = await RosterService.generate(input, { dryRun, force, createdById: auth.session.id })
+
+    if (!dryRun && !result.saved) {
+      return NextResponse.json(
+        { error: "Raspored krši pravila o odmoru ili se preklapa sa postojećim smenama", conflicts: result.conflicts },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(result, { status: result.saved ? 201 : 200 })
+  } catch (error) {
+    console.error('Error generating roster:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom generisanja rasporeda" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,35 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
-import { headers } from 'next/headers'
+import { authorize } from '@/lib/auth'
 
 export const dynamic = 'force-dynamic'
 
-// Authentication check helper function
-async function checkAuth() {
-  const headersList = headers();
-  const authBypass = headersList.get('x-auth-bypass');
-  
-  if (!authBypass) {
-    const session = getSessionCookie()
-    if (!session) {
-      console.log('API: No session and no bypass header, returning 401 Unauthorized');
-      return { authorized: false };
-    }
-    console.log('API: Valid session found, access allowed');
-  } else {
-    console.log('API: Found x-auth-bypass header, skipping authentication check');
-  }
-  
-  return { authorized: true };
-}
-
 // GET /api/shifts - Fetch all shifts with optional filters
 export async function GET(request: NextRequest) {
-  // Check authorization
-  const auth = await checkAuth();
-  if (!auth.authorized) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:read');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -90,10 +70,10 @@ export async function GET(request: NextRequest) {
 
 // POST /api/shifts - Create a new shift
 export async function POST(request: NextRequest) {
-  // Check authorization
-  const auth = await checkAuth();
-  if (!auth.authorized) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  // Provera autentikacije i dozvole
+  const auth = authorize('shifts:write');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
@@ -1,27 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { emitter, SSE_EVENTS } from '@/lib/sseEmitter'
-import { headers } from 'next/headers'
 
 export const dynamic = 'force-dynamic'
 
 // GET - Dohvatanje sistemskog statusa za dashboard
 export async function GET(request: NextRequest) {
-  // Alternativna provera za x-auth-bypass header
-  const headersList = headers();
-  const authBypass = headersList.get('x-auth-bypass');
-  
-  // Standardna provera autentikacije ako nema bypass headera
-  if (!authBypass) {
-    const session = getSessionCookie()
-    if (!session) {
-      console.log('API: Nema sesije i nema bypass headera, vraćam 401 Unauthorized');
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
-    console.log('API: Validna sesija pronađena, pristup dozvoljen');
-  } else {
-    console.log('API: Pronađen x-auth-bypass header, preskačem proveru autentikacije');
+  // Provera autentikacije i dozvole
+  const auth = authorize('system:read');
+  if (!auth.session) {
+    return auth.response;
   }
 
   try {
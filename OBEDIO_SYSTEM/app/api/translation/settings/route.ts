@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { TranslationService, translationSettingsSchema } from '@/lib/services/translation-service'
+import { getTranslator, listTranslators } from '@/lib/translation/translator'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/translation/settings - podešavanja prevoda i dostupni translatori
+export async function GET() {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const settings = await TranslationService.getSettings()
+    const translators = await Promise.all(listTranslators().map(async translator => ({
+      name: translator.name,
+      description: translator.description,
+      available: await translator.isAvailable(),
+    })))
+
+    return NextResponse.json({ settings, translators })
+  } catch (error) {
+    console.error('Error fetching translation settings:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja podešavanja prevoda" },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/translation/settings - izmena podešavanja prevoda
+export async function PUT(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:write')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const body = await request.json()
+    const validation = translationSettingsSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    if (!getTranslator(validation.data.engine)) {
+      return NextResponse.json({ error: "Nepoznat translator" }, { status: 400 })
+    }
+
+    const settings = await TranslationService.saveSettings(validation.data, auth.session.id)
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Error saving translation settings:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom čuvanja podešavanja prevoda" },
+      { status: 500 }
+    )
+  }
+}
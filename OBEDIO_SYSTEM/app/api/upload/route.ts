@@ -2,8 +2,15 @@ import { NextRequest, NextResponse } from "next/server"
 import { v4 as uuidv4 } from 'uuid'
 import { writeFile, mkdir } from 'fs/promises'
 import { join } from 'path'
+import { authorize } from "@/lib/auth"
 
 export async function POST(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('uploads:write')
+  if (!auth.session) {
+    return auth.response
+  }
+
   try {
     // Check if the request is a FormData or a JSON request
     const contentType = request.headers.get('content-type') || ''
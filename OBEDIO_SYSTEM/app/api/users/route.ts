@@ -1,15 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getSessionCookie } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 
 export const dynamic = 'force-dynamic'
 
 // GET /api/users - Dohvatanje svih korisnika
 export async function GET(request: NextRequest) {
-  // Provera autentikacije
-  const session = getSessionCookie()
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  // Provera autentikacije i dozvole
+  const auth = authorize('users:read')
+  if (!auth.session) {
+    return auth.response
   }
 
   try {
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VirtualDeviceManager } from '@/lib/virtual-devices/manager';
 import { prisma } from '@/lib/prisma';
-import { getSessionCookie } from '@/lib/auth';
+import { authorize } from '@/lib/auth';
 import { VirtualSmartButton } from '@/lib/virtual-devices/button';
 import { VirtualSmartwatch } from '@/lib/virtual-devices/smartwatch';
 import { VirtualRepeater } from '@/lib/virtual-devices/repeater';
@@ -25,9 +25,10 @@ export async function POST(
   { params }: { params: { uid: string } }
 ) {
   try {
-    const session = await getSessionCookie();
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Provera autentikacije i dozvole
+    const auth = authorize('simulator:manage');
+    if (!auth.session) {
+      return auth.response;
     }
 
     const manager = getDeviceManager();
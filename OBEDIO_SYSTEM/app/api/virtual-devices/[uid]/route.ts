@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VirtualDeviceManager } from '@/lib/virtual-devices/manager';
 import { prisma } from '@/lib/prisma';
-import { getSessionCookie } from '@/lib/auth';
+import { authorize } from '@/lib/auth';
 
 // Create a singleton instance of the device manager
 let deviceManager: VirtualDeviceManager | null = null;
@@ -22,9 +22,10 @@ export async function GET(
   { params }: { params: { uid: string } }
 ) {
   try {
-    const session = getSessionCookie();
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Provera autentikacije i dozvole
+    const auth = authorize('simulator:manage');
+    if (!auth.session) {
+      return auth.response;
     }
 
     const manager = getDeviceManager();
@@ -65,9 +66,10 @@ export async function DELETE(
   { params }: { params: { uid: string } }
 ) {
   try {
-    const session = getSessionCookie();
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Provera autentikacije i dozvole
+    const auth = authorize('simulator:manage');
+    if (!auth.session) {
+      return auth.response;
     }
 
     const manager = getDeviceManager();
@@ -93,9 +95,10 @@ export async function PATCH(
   { params }: { params: { uid: string } }
 ) {
   try {
-    const session = getSessionCookie();
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Provera autentikacije i dozvole
+    const auth = authorize('simulator:manage');
+    if (!auth.session) {
+      return auth.response;
     }
 
     const manager = getDeviceManager();
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VirtualDeviceManager } from '@/lib/virtual-devices/manager';
 import { prisma } from '@/lib/prisma';
-import { getSessionCookie } from '@/lib/auth';
+import { authorize } from '@/lib/auth';
 
 // Create a singleton instance of the device manager
 let deviceManager: VirtualDeviceManager | null = null;
@@ -19,9 +19,10 @@ function getDeviceManager() {
 // GET /api/virtual-devices - Get all virtual devices
 export async function GET(request: NextRequest) {
   try {
-    const session = getSessionCookie();
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Provera autentikacije i dozvole
+    const auth = authorize('simulator:manage');
+    if (!auth.session) {
+      return auth.response;
     }
 
     const manager = getDeviceManager();
@@ -61,9 +62,10 @@ export async function GET(request: NextRequest) {
 // POST /api/virtual-devices - Create a new virtual device
 export async function POST(request: NextRequest) {
   try {
-    const session = getSessionCookie();
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Provera autentikacije i dozvole
+    const auth = authorize('simulator:manage');
+    if (!auth.session) {
+      return auth.response;
     }
 
     const body = await request.json();
@@ -129,9 +131,10 @@ export async function POST(request: NextRequest) {
 // DELETE /api/virtual-devices - Delete all virtual devices
 export async function DELETE(request: NextRequest) {
   try {
-    const session = getSessionCookie();
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Provera autentikacije i dozvole
+    const auth = authorize('simulator:manage');
+    if (!auth.session) {
+      return auth.response;
     }
 
     const manager = getDeviceManager();
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readFile } from 'fs/promises'
+import { prisma } from '@/lib/prisma'
+import { authorize } from '@/lib/auth'
+import { VoiceService } from '@/lib/services/voice-service'
+
+export const dynamic = 'force-dynamic'
+
+const CONTENT_TYPES: Record<string, string> = {
+  wav: 'audio/wav',
+  opus: 'audio/ogg',
+}
+
+// GET /api/voice/[id] - audio glasovne poruke (za plejer na dashboard-u)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('requests:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const id = parseInt(params.id)
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Nevažeći ID snimka" }, { status: 400 })
+    }
+
+    const recording = await prisma.voiceRecording.findUnique({ where: { id } })
+    if (!recording) {
+      return NextResponse.json({ error: "Snimak nije pronađen" }, { status: 404 })
+    }
+
+    const audio = await readFile(VoiceService.filePath(recording))
+    return new NextResponse(new Uint8Array(audio), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[recording.format] || 'application/octet-stream',
+        'Content-Length': audio.length.toString(),
+        'Cache-Control': 'private, max-age=3600',
+      }
+    })
+  } catch (error) {
+    console.error('Error reading voice message:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom čitanja glasovne poruke" },
+      { status: 500 }
+    )
+  }
+}
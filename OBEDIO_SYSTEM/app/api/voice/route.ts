@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize, isDeviceAuthorized } from '@/lib/auth'
+import { VOICE_FORMATS, VOICE_MAX_BYTES, VoiceService } from '@/lib/services/voice-service'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// Schema za podatke uz snimak (repetitor šalje ceo snimak umesto MQTT delova)
+const uploadSchema = z.object({
+  deviceUid: z.string().min(1),
+  recordingId: z.string().min(1).max(100),
+  format: z.enum(VOICE_FORMATS).default('wav'),
+  sampleRate: z.coerce.number().int().positive().optional(),
+  durationMs: z.coerce.number().int().positive().optional(),
+  requestId: z.coerce.number().int().positive().optional(),
+})
+
+// POST /api/voice - otpremanje glasovne poruke (multipart: file, deviceUid, recordingId, format, sampleRate, durationMs, requestId)
+export async function POST(request: NextRequest) {
+  // Provera autentikacije i dozvole - repetitor se predstavlja tajnom uređaja, posada sesijom
+  if (!isDeviceAuthorized()) {
+    const auth = authorize('uploads:write')
+    if (!auth.session) {
+      return auth.response
+    }
+  }
+
+  try {
+    const contentType = request.headers.get('content-type') || ''
+    if (!contentType.includes('multipart/form-data')) {
+      return NextResponse.json({ error: "Snimak se otprema kao multipart/form-data" }, { status: 400 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: "Audio fajl je obavezan" }, { status: 400 })
+    }
+
+    if (file.size > VOICE_MAX_BYTES) {
+      return NextResponse.json({ error: "Audio fajl je prevelik" }, { status: 413 })
+    }
+
+    const validation = uploadSchema.safeParse({
+      deviceUid: formData.get('deviceUid') ?? undefined,
+      recordingId: formData.get('recordingId') ?? undefined,
+      format: formData.get('format') || undefined,
+      sampleRate: formData.get('sampleRate') || undefined,
+      durationMs: formData.get('durationMs') || undefined,
+      requestId: formData.get('requestId') || undefined,
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    const result = await VoiceService.ingest({
+      ...validation.data,
+      source: 'upload',
+      sampleRate: validation.data.sampleRate ?? null,
+      durationMs: validation.data.durationMs ?? null,
+      data: Buffer.from(await file.arrayBuffer()),
+    })
+
+    if (!result) {
+      return NextResponse.json({ error: "Uređaj nije pronađen" }, { status: 404 })
+    }
+
+    // Transkripcija se nastavlja u pozadini; rezultat stiže preko SSE-a
+    return NextResponse.json({
+      id: result.recording.id,
+      requestId: result.recording.requestId,
+      voiceUrl: VoiceService.voiceUrl(result.recording.id),
+      status: result.recording.status,
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error uploading voice message:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom otpremanja glasovne poruke" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { VoiceService, voiceSettingsSchema } from '@/lib/services/voice-service'
+import { getTranscriptionEngine, listTranscriptionEngines } from '@/lib/voice/transcription'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/voice/settings - podešavanja transkripcije i dostupni engine-i
+export async function GET() {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:read')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const settings = await VoiceService.getSettings()
+    const engines = await Promise.all(listTranscriptionEngines().map(async engine => ({
+      name: engine.name,
+      description: engine.description,
+      available: await engine.isAvailable(),
+    })))
+
+    return NextResponse.json({ settings, engines })
+  } catch (error) {
+    console.error('Error fetching voice settings:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom dohvatanja podešavanja glasa" },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/voice/settings - izmena podešavanja transkripcije
+export async function PUT(request: NextRequest) {
+  // Provera autentikacije i dozvole
+  const auth = authorize('devices:write')
+  if (!auth.session) {
+    return auth.response
+  }
+
+  try {
+    const body = await request.json()
+    const validation = voiceSettingsSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validacija nije uspela", details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    if (!getTranscriptionEngine(validation.data.engine)) {
+      return NextResponse.json({ error: "Nepoznat engine za transkripciju" }, { status: 400 })
+    }
+
+    const settings = await VoiceService.saveSettings(validation.data, auth.session.id)
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Error saving voice settings:', error)
+    return NextResponse.json(
+      { error: "Došlo je do greške prilikom čuvanja podešavanja glasa" },
+      { status: 500 }
+    )
+  }
+}
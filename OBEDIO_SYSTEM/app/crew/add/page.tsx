@@ -115,8 +115,7 @@ export default function AddCrewPage() {
       const response = await fetchWithAuth('/api/crew', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-auth-bypass': 'true'
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           name: formData.name,
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useCallback } from 'react'
 import { DraggableCrewCard } from '@/components/crew/draggable-crew-card'
 import { CrewCalendar, type CalendarLane, type CalendarAssignment } from '@/components/crew/crew-calendar'
 import { GroupsPanel } from '@/components/crew/groups-panel'
@@ -8,12 +8,19 @@ import { ConflictAlert } from '@/components/crew/conflict-alert'
 import { AutoDistribution } from '@/components/crew/auto-distribution'
 import { CrewDragDropProvider } from '@/components/crew/drag-drop-context'
 import { AddCrewModal } from '@/components/crew/add-crew-modal'
+import { RosterGeneratorModal } from '@/components/crew/roster-generator-modal'
+import { RestHoursModal } from '@/components/crew/rest-hours-modal'
+import { ShiftRequestsModal } from '@/components/crew/shift-requests-modal'
+import { HandoverModal } from '@/components/crew/handover-modal'
 import { Button } from '@/components/ui/button'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Plus, Users, Calendar, Settings, AlertTriangle } from 'lucide-react'
+import { Plus, Users, Calendar, Clock, Repeat, ClipboardList, Settings, AlertTriangle } from 'lucide-react'
 import { detectAllConflicts, Conflict } from '@/utils/conflict-detection'
+import { useDutyAlertEvents } from '@/hooks/useEventSource'
+import { toast } from '@/components/ui/use-toast'
+import type { DutyAlertEvent } from '@/lib/sseEmitter'
 
 // Types matching the components exactly
 type CrewStatus = 'on' | 'next' | 'break' | 'off' | 'sick'
@@ -58,6 +65,12 @@ interface Group {
 
 // Remove old Lane interface since we're using CalendarLane now
 
+const DUTY_ALERT_TITLES: Record<DutyAlertEvent['type'], string> = {
+  late: 'Crew member late',
+  uncovered: 'Position uncovered',
+  missed: 'Shift missed'
+}
+
 export default function CrewManagementPage() {
   const [crew, setCrew] = useState<CrewMember[]>([])
   const [assignments, setAssignments] = useState<Assignment[]>([])
@@ -83,6 +96,10 @@ export default function CrewManagementPage() {
   // Modal states
   const [showAddCrewModal, setShowAddCrewModal] = useState(false)
   const [showAddGroupModal, setShowAddGroupModal] = useState(false)
+  const [showRosterModal, setShowRosterModal] = useState(false)
+  const [showRestHoursModal, setShowRestHoursModal] = useState(false)
+  const [showShiftRequestsModal, setShowShiftRequestsModal] = useState(false)
+  const [showHandoverModal, setShowHandoverModal] = useState(false)
   const [newGroupForm, setNewGroupForm] = useState({
     title: '',
     targetSlots: 2,
@@ -96,11 +113,7 @@ export default function CrewManagementPage() {
         setError(null)
 
         // Fetch crew data
-        const crewResponse = await fetch('/api/crew', {
-          headers: {
-            'x-auth-bypass': 'development'
-          }
-        })
+        const crewResponse = await fetch('/api/crew')
 
         if (!crewResponse.ok) {
           throw new Error(`Failed to fetch crew data: ${crewResponse.status}`)
@@ -133,11 +146,7 @@ export default function CrewManagementPage() {
         setCrew(transformedCrew)
 
         // Fetch assignments
-        const assignmentsResponse = await fetch('/api/assignments', {
-          headers: {
-            'x-auth-bypass': 'development'
-          }
-        })
+        const assignmentsResponse = await fetch('/api/assignments')
 
         if (assignmentsResponse.ok) {
           const assignmentsData = await assignmentsResponse.json()
@@ -216,11 +225,7 @@ export default function CrewManagementPage() {
   const handleCrewAdded = async () => {
     // Reload crew data when a new crew member is added
     try {
-      const crewResponse = await fetch('/api/crew', {
-        headers: {
-          'x-auth-bypass': 'development'
-        }
-      })
+      const crewResponse = await fetch('/api/crew')
 
       if (crewResponse.ok) {
         const crewData = await crewResponse.json()
@@ -251,6 +256,31 @@ export default function CrewManagementPage() {
     }
   }
 
+  // Kašnjenje na smenu, nepokrivena pozicija ili propuštena smena (raspoređivač smena)
+  const handleDutyAlert = useCallback((event: DutyAlertEvent) => {
+    toast({
+      title: DUTY_ALERT_TITLES[event.type],
+      description: event.message,
+      variant: 'destructive'
+    })
+  }, [])
+
+  useDutyAlertEvents(handleDutyAlert)
+
+  const handleRosterSaved = async () => {
+    // Reload assignments - the generated roster is saved as shifts
+    try {
+      const assignmentsResponse = await fetch('/api/assignments')
+
+      if (assignmentsResponse.ok) {
+        const assignmentsData = await assignmentsResponse.json()
+        setAssignments(assignmentsData.assignments || [])
+      }
+    } catch (error) {
+      console.error('Error reloading assignments:', error)
+    }
+  }
+
   const handleDropCrewMember = (crewId: string, laneId: string, start: Date, status: 'duty' | 'standby') => {
     // Create a new assignment when crew is dropped on calendar
     const crewMember = crew.find(c => c.id === crewId)
@@ -430,6 +460,22 @@ export default function CrewManagementPage() {
             </p>
           </div>
           <div className="flex gap-3">
+            <Button onClick={() => setShowRosterModal(true)} variant="outline" size="sm">
+              <Calendar className="w-4 h-4 mr-2" />
+              Generate Roster
+            </Button>
+            <Button onClick={() => setShowRestHoursModal(true)} variant="outline" size="sm">
+              <Clock className="w-4 h-4 mr-2" />
+              Hours of Rest
+            </Button>
+            <Button onClick={() => setShowShiftRequestsModal(true)} variant="outline" size="sm">
+              <Repeat className="w-4 h-4 mr-2" />
+              Shift Requests
+            </Button>
+            <Button onClick={() => setShowHandoverModal(true)} variant="outline" size="sm">
+              <ClipboardList className="w-4 h-4 mr-2" />
+              Handover
+            </Button>
             <Button onClick={handleAddGroup} variant="outline" size="sm">
               <Users className="w-4 h-4 mr-2" />
               Add Group
@@ -576,6 +622,37 @@ export default function CrewManagementPage() {
         onClose={() => setShowAddCrewModal(false)}
         onCrewAdded={handleCrewAdded}
       />
+
+      {/* Roster Generator Modal */}
+      <RosterGeneratorModal
+        isOpen={showRosterModal}
+        onClose={() => setShowRosterModal(false)}
+        lanes={lanes}
+        onRosterSaved={handleRosterSaved}
+      />
+
+      {/* Hours of Rest Modal */}
+      <RestHoursModal
+        isOpen={showRestHoursModal}
+        onClose={() => setShowRestHoursModal(false)}
+        crew={crew}
+      />
+
+      {/* Shift Swap & Leave Requests Modal */}
+      <ShiftRequestsModal
+        isOpen={showShiftRequestsModal}
+        onClose={() => setShowShiftRequestsModal(false)}
+        crew={crew}
+        onShiftsChanged={handleRosterSaved}
+      />
+
+      {/* Shift Handover Modal */}
+      <HandoverModal
+        isOpen={showHandoverModal}
+        onClose={() => setShowHandoverModal(false)}
+        crew={crew}
+        onShiftsChanged={handleRosterSaved}
+      />
       
       {/* Add Group Modal */}
       <Dialog open={showAddGroupModal} onOpenChange={setShowAddGroupModal}>
@@ -94,8 +94,7 @@ export default function AddGuestPage() {
       const response = await fetch('/api/upload', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-auth-bypass': 'true'
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ image: imageDataUrl })
       })
@@ -0,0 +1,240 @@
+'use client'
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { addDays, format } from 'date-fns'
+import { ArrowLeft, Loader2, RefreshCw, Save, Sparkles, Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { useToast } from '@/components/ui/use-toast'
+import {
+  CabinAllocationBoard,
+  AllocationConflict,
+  AllocationPlanCabin,
+  AllocationPlanGuest,
+  CONFLICT_LABELS,
+} from '@/components/guests/cabin-allocation-board'
+
+type AllocationPlan = {
+  decks: { deck: string; cabins: (AllocationPlanCabin & { guests: AllocationPlanGuest[] })[] }[]
+  unassigned: AllocationPlanGuest[]
+  conflicts: AllocationConflict[]
+  suggestions: { guestId: number; locationId: number | null }[]
+}
+
+type ApplyResult = {
+  applied: boolean
+  conflicts: AllocationConflict[]
+  buttons: { guestId: number; locationId: number | null; devices: { id: number; uid: string; name: string | null }[] }[]
+}
+
+export default function CabinAllocationPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [from, setFrom] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [to, setTo] = useState(format(addDays(new Date(), 14), 'yyyy-MM-dd'))
+  const [plan, setPlan] = useState<AllocationPlan | null>(null)
+  const [changes, setChanges] = useState<Map<number, number | null>>(new Map())
+  const [conflicts, setConflicts] = useState<AllocationConflict[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const range = useMemo(() => ({
+    from: new Date(`${from}T00:00:00`).toISOString(),
+    to: new Date(`${to}T23:59:59`).toISOString(),
+  }), [from, to])
+
+  const fetchPlan = useCallback(async (suggest = false) => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/guests/allocation?from=${range.from}&to=${range.to}&suggest=${suggest}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch cabin plan')
+      }
+      const data: AllocationPlan = await response.json()
+      setPlan(data)
+      setConflicts(data.conflicts)
+      setError(null)
+      return data
+    } catch (err) {
+      console.error('Error fetching cabin plan:', err)
+      setError('Failed to load cabin plan.')
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }, [range])
+
+  useEffect(() => {
+    setChanges(new Map())
+    fetchPlan()
+  }, [fetchPlan])
+
+  // Guests with the unsaved draft applied on top of the stored allocation
+  const guests = useMemo(() => {
+    if (!plan) return []
+    const stored = [...plan.unassigned, ...plan.decks.flatMap(deck => deck.cabins.flatMap(cabin => cabin.guests))]
+    return stored.map(guest => changes.has(guest.id) ? { ...guest, locationId: changes.get(guest.id) ?? null } : guest)
+  }, [plan, changes])
+
+  const postChanges = async (draft: Map<number, number | null>, options: { dryRun?: boolean; force?: boolean }) => {
+    const response = await fetch('/api/guests/allocation', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...range,
+        changes: Array.from(draft, ([guestId, locationId]) => ({ guestId, locationId })),
+        ...options,
+      }),
+    })
+    const data = await response.json()
+    if (!response.ok && response.status !== 409) {
+      throw new Error(data.error || 'Failed to update cabin allocation')
+    }
+    return data as ApplyResult
+  }
+
+  // Every draft change is checked on the server so conflicts show up while planning
+  const updateDraft = async (draft: Map<number, number | null>) => {
+    setChanges(draft)
+    if (draft.size === 0) {
+      setConflicts(plan?.conflicts || [])
+      return
+    }
+    try {
+      const result = await postChanges(draft, { dryRun: true })
+      setConflicts(result.conflicts)
+    } catch (err) {
+      console.error('Error validating cabin allocation:', err)
+    }
+  }
+
+  const handleMove = (guestId: number, locationId: number | null) => {
+    const draft = new Map(changes)
+    draft.set(guestId, locationId)
+    updateDraft(draft)
+  }
+
+  const handleSuggest = async () => {
+    const data = await fetchPlan(true)
+    if (!data) return
+
+    if (data.suggestions.length === 0) {
+      toast({ title: "No suggestions", description: "Every guest in this period already has a cabin or none fits." })
+      return
+    }
+
+    const draft = new Map(changes)
+    data.suggestions.forEach(suggestion => draft.set(suggestion.guestId, suggestion.locationId))
+    updateDraft(draft)
+  }
+
+  const handleSave = async (force = false) => {
+    setSaving(true)
+    try {
+      const result = await postChanges(changes, { force })
+      if (!result.applied) {
+        setConflicts(result.conflicts)
+        toast({
+          title: "Allocation has conflicts",
+          description: `${result.conflicts.length} conflict(s) must be resolved, or save anyway.`,
+          variant: "destructive"
+        })
+        return
+      }
+
+      const buttons = result.buttons.reduce((sum, entry) => sum + entry.devices.length, 0)
+      toast({
+        title: "Cabins updated",
+        description: `${result.buttons.length} guest(s) moved, ${buttons} call button(s) now mapped to their guests.`
+      })
+      setChanges(new Map())
+      fetchPlan()
+    } catch (err) {
+      console.error('Error saving cabin allocation:', err)
+      toast({
+        title: "Error",
+        description: "Failed to save cabin allocation. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <Button variant="ghost" className="mb-2 -ml-4" onClick={() => router.push('/guests')}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to guests
+          </Button>
+          <h1 className="text-3xl font-bold">Cabin Planner</h1>
+          <p className="text-muted-foreground">Drag guests into cabins. Capacity and overlapping stays are checked as you go.</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="from">From</Label>
+            <Input id="from" type="date" value={from} max={to} onChange={e => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="to">To</Label>
+            <Input id="to" type="date" value={to} min={from} onChange={e => setTo(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={() => fetchPlan()}>
+            <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+          </Button>
+          <Button variant="outline" onClick={handleSuggest}>
+            <Sparkles className="mr-2 h-4 w-4" /> Suggest
+          </Button>
+          <Button variant="outline" disabled={changes.size === 0} onClick={() => updateDraft(new Map())}>
+            <Undo2 className="mr-2 h-4 w-4" /> Reset
+          </Button>
+          <Button disabled={changes.size === 0 || saving} onClick={() => handleSave()}>
+            <Save className="mr-2 h-4 w-4" /> Save ({changes.size})
+          </Button>
+        </div>
+      </div>
+
+      {conflicts.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTitle>{conflicts.length} allocation conflict(s)</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {conflicts.map((conflict, index) => (
+                <li key={`${conflict.locationId}-${conflict.type}-${index}`}>
+                  {CONFLICT_LABELS[conflict.type]}:{' '}
+                  {conflict.guestIds.map(id => guests.find(guest => guest.id === id)?.name).filter(Boolean).join(', ')}
+                </li>
+              ))}
+            </ul>
+            {changes.size > 0 && (
+              <Button size="sm" variant="outline" className="mt-2" disabled={saving} onClick={() => handleSave(true)}>
+                Save anyway
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {loading && !plan ? (
+        <div className="flex justify-center items-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error || !plan ? (
+        <div className="text-center py-12 text-muted-foreground">{error}</div>
+      ) : (
+        <CabinAllocationBoard
+          decks={plan.decks}
+          guests={guests}
+          conflicts={conflicts}
+          changedGuestIds={new Set(changes.keys())}
+          onMove={handleMove}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import { AlertTriangle, ArrowLeft, Crown, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatDuration } from '@/components/analytics/response-time-chart'
+import type { CharterReport } from '@/lib/services/charter-service'
+
+export default function CharterReportPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const [report, setReport] = useState<CharterReport | null>(null)
+  const [isFinal, setIsFinal] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/charters/${params.id}/report`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch charter report')
+      }
+      const data = await response.json()
+      setReport(data.report)
+      setIsFinal(data.final)
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching charter report:', err)
+      setError('Failed to load charter report.')
+    } finally {
+      setLoading(false)
+    }
+  }, [params.id])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <Button variant="ghost" onClick={() => router.push('/guests')}>
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to guests
+      </Button>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error || !report ? (
+        <div className="text-center py-12 text-muted-foreground">{error}</div>
+      ) : (
+        <>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              {report.name}
+              <Badge variant="outline">{isFinal ? 'Final report' : 'In progress'}</Badge>
+            </h1>
+            <p className="text-muted-foreground">
+              {format(new Date(report.startDate), 'MMM dd, yyyy')} – {format(new Date(report.endDate), 'MMM dd, yyyy')}
+              {' · '}generated {format(new Date(report.generatedAt), 'MMM dd, yyyy HH:mm')}
+            </p>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2"><CardTitle className="text-sm">Requests</CardTitle></CardHeader>
+              <CardContent className="text-2xl font-bold">{report.totals.requests}</CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2"><CardTitle className="text-sm">Incidents</CardTitle></CardHeader>
+              <CardContent className="text-2xl font-bold">{report.totals.emergencies}</CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2"><CardTitle className="text-sm">Avg. time to accept</CardTitle></CardHeader>
+              <CardContent className="text-2xl font-bold">{formatDuration(report.totals.timeToAccept.avg)}</CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2"><CardTitle className="text-sm">Avg. time to complete</CardTitle></CardHeader>
+              <CardContent className="text-2xl font-bold">{formatDuration(report.totals.timeToComplete.avg)}</CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Guests</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Guest</TableHead>
+                    <TableHead className="text-right">Requests</TableHead>
+                    <TableHead>Preferences</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.guests.map(guest => (
+                    <TableRow key={guest.guestId}>
+                      <TableCell className="font-medium">
+                        <span className="flex items-center gap-1">
+                          {guest.isVip && <Crown className="h-3 w-3 text-amber-500" />}
+                          {guest.name}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">{guest.requests}</TableCell>
+                      <TableCell>{guest.preferences || '-'}</TableCell>
+                      <TableCell className="whitespace-pre-line text-muted-foreground">{guest.notes || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {report.incidents.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-red-500" /> Incidents
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {report.incidents.map(incident => (
+                  <div key={incident.requestId} className="rounded-md border p-3 text-sm">
+                    <div className="font-medium">
+                      #{incident.requestId} · {incident.room} · {format(new Date(incident.createdAt), 'MMM dd, HH:mm')}
+                    </div>
+                    <div className="text-muted-foreground">{incident.incidentNote || 'No incident note'}</div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {report.itinerary.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Itinerary</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ol className="space-y-1 text-sm">
+                  {report.itinerary.map((stop, index) => (
+                    <li key={`${stop.port}-${index}`}>
+                      <span className="font-medium">{stop.port}</span>
+                      <span className="text-muted-foreground">
+                        {' '}{format(new Date(stop.arrival), 'MMM dd')}
+                        {stop.departure && ` – ${format(new Date(stop.departure), 'MMM dd')}`}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
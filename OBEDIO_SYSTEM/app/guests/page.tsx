@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect, useMemo } from 'react'
-import { UserPlus, Search, Filter, AlertCircle, X, Camera, Info } from 'lucide-react'
+import { UserPlus, Search, Filter, AlertCircle, X, Camera, Info, BedDouble } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 
 import { Button } from '@/components/ui/button'
@@ -33,6 +33,11 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { ChangeCabinModal } from '@/components/guests/change-cabin-modal'
 import { ImageCapture } from '@/components/ui/image-capture'
 import { GuestDetailPanel as FixedGuestDetailPanel } from '@/components/guests/guest-detail-panel-fixed'
+import {
+  UpcomingGuestsSection,
+  UpcomingGuest,
+  CharterTimelineEntry
+} from '@/components/guests/upcoming-guests-section'
 
 // Type definitions
 export interface GuestPreferences {
@@ -43,6 +48,8 @@ export interface GuestPreferences {
   cleaningTime: "Morning" | "Afternoon" | "Evening"
   dndActive: boolean
   dndLocations?: string[]
+  preferredCabin?: string
+  preferredDeck?: string
 }
 
 export interface Guest {
@@ -309,6 +316,9 @@ export default function GuestsPage() {
   const [searchQuery, setSearchQuery] = useState('')
   const [filterType, setFilterType] = useState('all')
   
+  // Charter timeline (upcoming and on-board charters)
+  const [charters, setCharters] = useState<CharterTimelineEntry[]>([])
+  
   // State for cabin change modal
   const [showCabinModal, setShowCabinModal] = useState(false)
   const [cabinModalGuestId, setCabinModalGuestId] = useState<number | null>(null)
@@ -348,8 +358,7 @@ export default function GuestsPage() {
       const response = await fetch('/api/guests', {
         method: 'GET',
         headers: {
-          'Content-Type': 'application/json',
-          'x-auth-bypass': 'true'
+          'Content-Type': 'application/json'
         }
       })
       
@@ -375,8 +384,29 @@ export default function GuestsPage() {
     }
   }
   
+  // Fetch charters for the timeline
+  const fetchCharters = async () => {
+    try {
+      const response = await fetch('/api/charters')
+      if (!response.ok) {
+        throw new Error('Failed to fetch charters')
+      }
+      const data = await response.json()
+      const timeline: (Omit<CharterTimelineEntry, 'guests'> & {
+        guests: (Omit<UpcomingGuest, 'plannedRoom'> & { room: string | null })[]
+      })[] = data.charters
+      setCharters(timeline.map(charter => ({
+        ...charter,
+        guests: charter.guests.map(guest => ({ ...guest, plannedRoom: guest.room }))
+      })))
+    } catch (err) {
+      console.error('Error fetching charters:', err)
+    }
+  }
+
   useEffect(() => {
     fetchGuests()
+    fetchCharters()
   }, [])
   
   // Handle updating a guest
@@ -385,8 +415,7 @@ export default function GuestsPage() {
       const response = await fetch(`/api/guests/${id}`, {
         method: 'PATCH',
         headers: {
-          'Content-Type': 'application/json',
-          'x-auth-bypass': 'true'
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify(data)
       })
@@ -427,8 +456,7 @@ export default function GuestsPage() {
       const response = await fetch(`/api/guests/${id}/checkout`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-auth-bypass': 'true'
+          'Content-Type': 'application/json'
         }
       })
       
@@ -465,6 +493,46 @@ export default function GuestsPage() {
     }
   }
   
+  // Handle confirming arrival of a charter guest
+  const handleConfirmArrival = async (guest: UpcomingGuest) => {
+    const updated = await handleUpdateGuest(guest.id, { status: 'Checked-In' })
+    if (updated) {
+      toast({
+        title: "Arrival Confirmed",
+        description: `${guest.name} is now checked in.`
+      })
+      fetchCharters()
+    }
+  }
+
+  // Handle closing a charter - generates the report and archives its guests
+  const handleCloseCharter = async (charter: CharterTimelineEntry) => {
+    if (!window.confirm(`Close charter "${charter.name}"? Its guests will be archived.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/charters/${charter.id}/close`, { method: 'POST' })
+      if (!response.ok) {
+        throw new Error('Failed to close charter')
+      }
+      toast({
+        title: "Charter Closed",
+        description: `${charter.name} has been closed and its report generated.`
+      })
+      fetchGuests()
+      fetchCharters()
+      router.push(`/guests/charters/${charter.id}`)
+    } catch (err) {
+      console.error('Error closing charter:', err)
+      toast({
+        title: "Error",
+        description: "Failed to close charter. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+  
   // Handle initiating a cabin change
   const handleChangeCabin = (id: number) => {
     setCabinModalGuestId(id)
@@ -477,8 +545,7 @@ export default function GuestsPage() {
       const response = await fetch(`/api/guests/${id}`, {
         method: 'DELETE',
         headers: {
-          'Content-Type': 'application/json',
-          'x-auth-bypass': 'true'
+          'Content-Type': 'application/json'
         }
       })
       
@@ -573,6 +640,11 @@ export default function GuestsPage() {
               </SelectContent>
             </Select>
             
+            <Button variant="outline" onClick={() => router.push("/guests/allocation")}>
+              <BedDouble className="h-4 w-4 mr-2" />
+              Cabin Planner
+            </Button>
+            
             <Button variant="default" onClick={() => router.push("/guests/add")}>
               <UserPlus className="h-4 w-4 mr-2" />
               Add Guest
@@ -593,6 +665,12 @@ export default function GuestsPage() {
           </Alert>
         ) : (
           <>
+            <UpcomingGuestsSection
+              charters={charters}
+              onConfirmArrival={handleConfirmArrival}
+              onCloseCharter={handleCloseCharter}
+            />
+
             {/* Display guest content based on view (list and detail) */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               {/* Guests list - takes full width on mobile, 1/3 on desktop */}
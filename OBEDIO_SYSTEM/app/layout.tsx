@@ -5,6 +5,7 @@ import { ThemeProvider } from '@/components/theme-provider'
 import { SidebarNav } from '@/components/sidebar-nav'
 import { Header } from '@/components/header'
 import { Toaster } from '@/components/ui/toaster'
+import { EmergencyAlarm } from '@/components/emergency-alarm'
 import { PWAProvider } from '@/components/pwa/pwa-provider'
 import { InstallPrompt } from '@/components/pwa/install-prompt'
 import { OfflineIndicator, OfflineBanner } from '@/components/pwa/offline-indicator'
@@ -73,6 +74,7 @@ export default function RootLayout({ children }: { children: React.ReactNode })
               <SidebarNav />
               <div className="flex flex-1 flex-col">
                 <Header />
+                <EmergencyAlarm />
                 <OfflineIndicator />
                 <main className="flex-1 p-6">
                   {children}
@@ -0,0 +1,178 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { RequestTimeline, RequestHistoryEntry } from '@/components/requests/request-timeline'
+import { GuestContextInfo } from '@/components/requests/guest-context'
+import { VoiceMessages, VoiceRecordingInfo } from '@/components/requests/voice-message'
+import { CrewReplyInfo, GuestMessage, GuestReplies } from '@/components/requests/guest-reply'
+import type { GuestContext } from '@/lib/services/guest-context-service'
+import { useEventSource } from '@/hooks/useEventSource'
+
+type RequestDetails = {
+  id: number
+  status: string
+  createdAt: string
+  device: { name: string | null; room: string }
+  assignee: { id: number; name: string } | null
+  guestContext: GuestContext[]
+  transcript: string | null
+  transcriptLanguage: string | null
+  translatedTranscript: string | null
+  translationLanguage: string | null
+  voiceRecordings: VoiceRecordingInfo[]
+  crewReplies: CrewReplyInfo[]
+}
+
+export default function RequestDetailsPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const [request, setRequest] = useState<RequestDetails | null>(null)
+  const [history, setHistory] = useState<RequestHistoryEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchDetails = useCallback(async () => {
+    try {
+      const [requestResponse, historyResponse] = await Promise.all([
+        fetch(`/api/requests/${params.id}`),
+        fetch(`/api/requests/${params.id}/history`),
+      ])
+
+      if (!requestResponse.ok || !historyResponse.ok) {
+        throw new Error('Neuspešno dohvatanje zahteva')
+      }
+
+      const requestData = await requestResponse.json()
+      const historyData = await historyResponse.json()
+      setRequest(requestData)
+      setHistory(historyData.history)
+      setError(null)
+    } catch (error) {
+      console.error('Greška pri dohvatanju istorije zahteva:', error)
+      setError('Nije moguće učitati zahtev.')
+    } finally {
+      setLoading(false)
+    }
+  }, [params.id])
+
+  useEffect(() => {
+    fetchDetails()
+  }, [fetchDetails])
+
+  // Osvežavanje istorije kada se zahtev promeni
+  useEventSource('request_update', (data: { requestId: number }) => {
+    if (data.requestId === Number(params.id)) fetchDetails()
+  })
+  useEventSource('request_escalated', (data: { requestId: number }) => {
+    if (data.requestId === Number(params.id)) fetchDetails()
+  })
+  // Glasovna poruka je stigla ili je transkripcija završena
+  useEventSource('request_voice', (data: { requestId: number }) => {
+    if (data.requestId === Number(params.id)) fetchDetails()
+  })
+  // Prevod poruke gosta i status odgovora posade
+  useEventSource('request_translation', (data: { requestId: number }) => {
+    if (data.requestId === Number(params.id)) fetchDetails()
+  })
+  useEventSource('request_reply', (data: { requestId: number }) => {
+    if (data.requestId === Number(params.id)) fetchDetails()
+  })
+
+  return (
+    <div className="container py-6 space-y-6">
+      <Button variant="ghost" onClick={() => router.push('/requests/active')}>
+        <ArrowLeft className="mr-2 h-4 w-4" /> Nazad na zahteve
+      </Button>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <span className="ml-2 text-lg">Učitavanje zahteva...</span>
+        </div>
+      ) : error || !request ? (
+        <div className="text-center py-12 text-muted-foreground">{error}</div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Zahtev #{request.id}</CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-2 text-sm sm:grid-cols-3">
+              <div>
+                <div className="text-muted-foreground">Lokacija</div>
+                <div className="font-medium">{request.device.room}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Status</div>
+                <div className="font-medium">{request.status}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Dodeljeno</div>
+                <div className="font-medium">{request.assignee?.name || 'Nije dodeljeno'}</div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {request.transcript && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Poruka gosta</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <GuestMessage
+                  transcript={request.transcript}
+                  transcriptLanguage={request.transcriptLanguage}
+                  translatedTranscript={request.translatedTranscript}
+                  translationLanguage={request.translationLanguage}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {request.voiceRecordings.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Glasovna poruka</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <VoiceMessages recordings={request.voiceRecordings} />
+              </CardContent>
+            </Card>
+          )}
+
+          {request.guestContext.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Gosti u kabini</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <GuestContextInfo guests={request.guestContext} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Odgovor gostu</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <GuestReplies requestId={request.id} replies={request.crewReplies} onSent={fetchDetails} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Istorija zahteva</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RequestTimeline history={history} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -25,7 +25,7 @@ export default function ActiveRequestsPage() {
       }
       
       const data = await response.json()
-      setRequests(data)
+      setRequests(data.requests)
     } catch (error) {
       console.error('Greška pri dohvatanju zahteva:', error)
     } finally {
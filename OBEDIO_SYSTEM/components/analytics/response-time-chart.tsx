@@ -0,0 +1,80 @@
+import React from 'react'
+
+export type DurationStats = {
+  count: number
+  avg: number | null
+  p50: number | null
+  p90: number | null
+  p99: number | null
+}
+
+export type ResponseTimeGroup = {
+  key: string
+  label: string
+  requests: number
+  timeToAccept: DurationStats
+  timeToComplete: DurationStats
+}
+
+interface ResponseTimeChartProps {
+  groups: ResponseTimeGroup[]
+  metric: 'timeToAccept' | 'timeToComplete'
+}
+
+// Formatiranje trajanja u sekundama za prikaz (npr. 45s, 3m 20s, 1h 5m)
+export function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '—'
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) {
+    const rest = seconds % 60
+    return rest ? `${Math.floor(seconds / 60)}m ${rest}s` : `${seconds / 60}m`
+  }
+  const minutes = Math.floor((seconds % 3600) / 60)
+  return minutes ? `${Math.floor(seconds / 3600)}h ${minutes}m` : `${seconds / 3600}h`
+}
+
+// Horizontalni stubići: p50 puna boja, p90 svetlija pozadina
+export function ResponseTimeChart({ groups, metric }: ResponseTimeChartProps) {
+  const withData = groups.filter(group => group[metric].count > 0)
+  const maxValue = Math.max(...withData.map(group => group[metric].p90 || 0), 1)
+
+  if (withData.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Nema podataka za izabrani period.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {withData.map(group => {
+        const stats = group[metric]
+        return (
+          <div key={group.key} className="grid grid-cols-[10rem_1fr_6rem] items-center gap-3 text-sm">
+            <span className="truncate" title={group.label}>{group.label}</span>
+            <div className="relative h-5 rounded bg-muted">
+              <div
+                className="absolute inset-y-0 left-0 rounded bg-blue-200"
+                style={{ width: `${((stats.p90 || 0) / maxValue) * 100}%` }}
+                title={`p90: ${formatDuration(stats.p90)}`}
+              />
+              <div
+                className="absolute inset-y-0 left-0 rounded bg-blue-600"
+                style={{ width: `${((stats.p50 || 0) / maxValue) * 100}%` }}
+                title={`p50: ${formatDuration(stats.p50)}`}
+              />
+            </div>
+            <span className="text-right text-muted-foreground">
+              {formatDuration(stats.p50)} / {formatDuration(stats.p90)}
+            </span>
+          </div>
+        )
+      })}
+      <div className="flex gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded bg-blue-600" /> p50</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded bg-blue-200" /> p90</span>
+      </div>
+    </div>
+  )
+}
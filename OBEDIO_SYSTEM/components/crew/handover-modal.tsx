@@ -0,0 +1,386 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Check, Plus, Send, X } from "lucide-react"
+import { format } from 'date-fns'
+import { fetchWithAuth } from '@/lib/fetchWithAuth'
+import { toast } from '@/components/ui/use-toast'
+import { useHandoverEvents } from '@/hooks/useEventSource'
+import type { HandoverView } from '@/lib/services/handover-service'
+import type { HandoverEvent } from '@/lib/sseEmitter'
+
+interface HandoverModalProps {
+  isOpen: boolean
+  onClose: () => void
+  crew: { id: string; name: string }[]
+  onShiftsChanged?: () => void
+}
+
+interface ShiftItem {
+  id: number
+  userId: number
+  laneId: string | null
+  startsAt: string
+  endsAt: string
+}
+
+interface HandoverItem extends Omit<HandoverView, 'outgoingShift' | 'incomingShift' | 'acknowledgedAt' | 'createdAt'> {
+  outgoingShift: ShiftItem | null
+  incomingShift: ShiftItem | null
+  acknowledgedAt: string | null
+  createdAt: string
+  canAcknowledge: boolean
+}
+
+interface HandoverDraft {
+  outgoingShift: ShiftItem | null
+  incomingShift: ShiftItem | null
+  incomingUser: { id: number; name: string } | null
+  openRequests: { requestId: number; room: string; deviceName: string | null; status: string; priority: string }[]
+  guests: { id: number; name: string; room: string | null; isVip: boolean }[]
+}
+
+const formatShift = (shift: { laneId: string | null; startsAt: string; endsAt: string }) =>
+  `${shift.laneId ? `${shift.laneId} · ` : ''}${format(new Date(shift.startsAt), 'EEE MMM d HH:mm')}–${format(new Date(shift.endsAt), 'HH:mm')}`
+
+export function HandoverModal({ isOpen, onClose, crew, onShiftsChanged }: HandoverModalProps) {
+  const [handovers, setHandovers] = useState<HandoverItem[]>([])
+  const [currentUserId, setCurrentUserId] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  // Forma za novu primopredaju
+  const [draft, setDraft] = useState<HandoverDraft | null>(null)
+  const [incomingUserId, setIncomingUserId] = useState('auto')
+  const [requestNotes, setRequestNotes] = useState<Record<number, string>>({})
+  const [selectedRequests, setSelectedRequests] = useState<number[]>([])
+  const [guestNotes, setGuestNotes] = useState<{ guestId: number; note: string }[]>([])
+  const [guestId, setGuestId] = useState('')
+  const [guestNote, setGuestNote] = useState('')
+  const [tasks, setTasks] = useState('')
+  const [notes, setNotes] = useState('')
+  const [transferRequests, setTransferRequests] = useState(true)
+
+  const loadHandovers = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth('/api/handovers')
+      if (response.ok) {
+        const data = await response.json()
+        setHandovers(data.handovers)
+        setCurrentUserId(data.currentUserId)
+      }
+    } catch (error) {
+      console.error('Error loading handovers:', error)
+    }
+  }, [])
+
+  const loadDraft = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth('/api/handovers/draft')
+      if (response.ok) {
+        const data: HandoverDraft = await response.json()
+        setDraft(data)
+        setSelectedRequests(data.openRequests.map(request => request.requestId))
+      }
+    } catch (error) {
+      console.error('Error loading handover draft:', error)
+    }
+  }, [])
+
+  // Učitava se i dok je prozor zatvoren, da bi obaveštenja znala ko je prijavljen
+  useEffect(() => {
+    loadHandovers()
+  }, [isOpen, loadHandovers])
+
+  useEffect(() => {
+    if (isOpen) {
+      loadDraft()
+    }
+  }, [isOpen, loadDraft])
+
+  // SSE veza se zatvara kada se handler promeni, pa handler čita trenutno stanje iz ref-a
+  const latest = useRef({ currentUserId, isOpen, onShiftsChanged })
+  latest.current = { currentUserId, isOpen, onShiftsChanged }
+
+  // Obaveštenje stiže i kada je prozor zatvoren
+  const handleHandoverEvent = useCallback((event: HandoverEvent) => {
+    const { currentUserId, isOpen, onShiftsChanged } = latest.current
+    if (currentUserId !== null && event.recipients.includes(currentUserId)) {
+      toast({ title: "Shift handover", description: event.message })
+    }
+    if (event.status === 'acknowledged') {
+      onShiftsChanged?.()
+    }
+    if (isOpen) {
+      loadHandovers()
+    }
+  }, [loadHandovers])
+
+  useHandoverEvents(handleHandoverEvent)
+
+  const post = async (url: string, body: object, success: string) => {
+    setLoading(true)
+    try {
+      const response = await fetchWithAuth(url, { method: 'POST', body: JSON.stringify(body) })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+
+      toast({ title: success })
+      await loadHandovers()
+      return true
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      })
+      return false
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addGuestNote = () => {
+    setGuestNotes([...guestNotes.filter(item => item.guestId !== parseInt(guestId)), { guestId: parseInt(guestId), note: guestNote.trim() }])
+    setGuestId('')
+    setGuestNote('')
+  }
+
+  const submit = async () => {
+    const body = {
+      ...(incomingUserId !== 'auto' && { incomingUserId: parseInt(incomingUserId) }),
+      requests: selectedRequests.map(requestId => ({
+        requestId,
+        ...(requestNotes[requestId] && { note: requestNotes[requestId] }),
+      })),
+      guestNotes,
+      tasks: tasks.split('\n').map(task => task.trim()).filter(Boolean),
+      ...(notes && { notes }),
+      transferRequests,
+    }
+
+    if (await post('/api/handovers', body, 'Handover sent')) {
+      setRequestNotes({})
+      setGuestNotes([])
+      setTasks('')
+      setNotes('')
+      setIncomingUserId('auto')
+      loadDraft()
+    }
+  }
+
+  const acknowledge = async (id: number) => {
+    if (await post(`/api/handovers/${id}/acknowledge`, {}, 'Handover acknowledged')) {
+      onShiftsChanged?.()
+    }
+  }
+
+  const guestName = (id: number) => draft?.guests.find(guest => guest.id === id)?.name ?? `Guest #${id}`
+  const canSubmit = !!draft?.outgoingShift && (incomingUserId !== 'auto' || !!draft.incomingShift)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Shift Handover</DialogTitle>
+          <DialogDescription>
+            Hand over open requests, guest observations and pending tasks. The next shift starts once the incoming crew acknowledges.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="handovers">
+          <TabsList>
+            <TabsTrigger value="handovers">Handovers</TabsTrigger>
+            <TabsTrigger value="new">New Handover</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="handovers">
+            <div className="max-h-[55vh] space-y-2 overflow-y-auto">
+              {handovers.length === 0 && (
+                <p className="py-6 text-center text-sm text-muted-foreground">No handovers.</p>
+              )}
+              {handovers.map(handover => (
+                <div key={handover.id} className="space-y-2 rounded-lg border p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-sm font-medium">
+                      {handover.outgoingUser.name} → {handover.incomingUser.name}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        {format(new Date(handover.createdAt), 'MMM d HH:mm')}
+                      </span>
+                    </div>
+                    <Badge variant={handover.status === 'pending' ? 'secondary' : 'default'}>
+                      {handover.status === 'pending'
+                        ? 'Waiting for acknowledgement'
+                        : `Acknowledged ${handover.acknowledgedVia === 'watch' ? 'on watch' : 'on web'} ${format(new Date(handover.acknowledgedAt!), 'HH:mm')}`}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {handover.outgoingShift ? formatShift(handover.outgoingShift) : 'Shift removed'}
+                    {handover.incomingShift && ` → ${formatShift(handover.incomingShift)}`}
+                  </p>
+                  {handover.openRequests.length > 0 && (
+                    <div className="text-xs">
+                      <div className="font-medium">Open requests</div>
+                      <ul className="ml-4 list-disc">
+                        {handover.openRequests.map(request => (
+                          <li key={request.requestId}>
+                            #{request.requestId} {request.room}{request.priority !== 'normal' && ` (${request.priority})`}
+                            {request.note && ` — ${request.note}`}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {handover.guestNotes.length > 0 && (
+                    <div className="text-xs">
+                      <div className="font-medium">Guests</div>
+                      <ul className="ml-4 list-disc">
+                        {handover.guestNotes.map(note => (
+                          <li key={note.guestId}>{note.guestName}{note.room && ` (${note.room})`}: {note.note}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {handover.tasks.length > 0 && (
+                    <div className="text-xs">
+                      <div className="font-medium">Pending tasks</div>
+                      <ul className="ml-4 list-disc">
+                        {handover.tasks.map((task, index) => <li key={index}>{task}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                  {handover.notes && <p className="text-xs">{handover.notes}</p>}
+                  {handover.canAcknowledge && (
+                    <Button size="sm" disabled={loading} onClick={() => acknowledge(handover.id)}>
+                      <Check className="w-4 h-4 mr-1" /> Acknowledge
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="new" className="max-h-[60vh] space-y-4 overflow-y-auto">
+            {!draft?.outgoingShift ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">You have no shift in progress to hand over.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>My shift</Label>
+                    <p className="text-sm">{formatShift(draft.outgoingShift)}</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Hand over to</Label>
+                    <Select value={incomingUserId} onValueChange={setIncomingUserId}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">
+                          {draft.incomingShift && draft.incomingUser
+                            ? `${draft.incomingUser.name} (${formatShift(draft.incomingShift)})`
+                            : 'Next shift on my position (none planned)'}
+                        </SelectItem>
+                        {crew.filter(member => member.id !== String(currentUserId)).map(member => (
+                          <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Open requests</Label>
+                    <div className="flex items-center gap-2 text-sm">
+                      <Switch id="transfer-requests" checked={transferRequests} onCheckedChange={setTransferRequests} />
+                      <Label htmlFor="transfer-requests">Reassign on acknowledgement</Label>
+                    </div>
+                  </div>
+                  {draft.openRequests.length === 0 && <p className="text-xs text-muted-foreground">No open requests assigned to you.</p>}
+                  {draft.openRequests.map(request => (
+                    <div key={request.requestId} className="flex items-center gap-2">
+                      <Checkbox
+                        checked={selectedRequests.includes(request.requestId)}
+                        onCheckedChange={checked => setSelectedRequests(checked
+                          ? [...selectedRequests, request.requestId]
+                          : selectedRequests.filter(id => id !== request.requestId))}
+                      />
+                      <span className="w-48 shrink-0 text-sm">
+                        #{request.requestId} {request.room}{request.priority !== 'normal' && ` (${request.priority})`}
+                      </span>
+                      <Input
+                        placeholder="Note for the next shift"
+                        value={requestNotes[request.requestId] ?? ''}
+                        onChange={e => setRequestNotes({ ...requestNotes, [request.requestId]: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Guest observations</Label>
+                  {guestNotes.map(item => (
+                    <div key={item.guestId} className="flex items-center justify-between gap-2 text-sm">
+                      <span><span className="font-medium">{guestName(item.guestId)}:</span> {item.note}</span>
+                      <Button size="sm" variant="ghost" onClick={() => setGuestNotes(guestNotes.filter(note => note.guestId !== item.guestId))}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex gap-2">
+                    <Select value={guestId} onValueChange={setGuestId}>
+                      <SelectTrigger className="w-48"><SelectValue placeholder="Guest" /></SelectTrigger>
+                      <SelectContent>
+                        {draft.guests.map(guest => (
+                          <SelectItem key={guest.id} value={String(guest.id)}>
+                            {guest.name}{guest.room && ` (${guest.room})`}{guest.isVip && ' ★'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input placeholder="Observation" value={guestNote} onChange={e => setGuestNote(e.target.value)} />
+                    <Button size="sm" variant="outline" disabled={!guestId || !guestNote.trim()} onClick={addGuestNote}>
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="handover-tasks">Pending tasks (one per line)</Label>
+                  <Textarea id="handover-tasks" value={tasks} onChange={e => setTasks(e.target.value)} rows={3} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="handover-notes">Notes</Label>
+                  <Textarea id="handover-notes" value={notes} onChange={e => setNotes(e.target.value)} rows={2} />
+                </div>
+
+                <Button onClick={submit} disabled={loading || !canSubmit}>
+                  <Send className="w-4 h-4 mr-2" />
+                  Send Handover
+                </Button>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
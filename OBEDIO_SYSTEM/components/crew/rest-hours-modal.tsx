@@ -0,0 +1,223 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Download, FileSignature } from "lucide-react"
+import { format } from 'date-fns'
+import { fetchWithAuth } from '@/lib/fetchWithAuth'
+import { toast } from '@/components/ui/use-toast'
+import type { RestRecordView } from '@/lib/services/rest-hours-service'
+
+interface RestHoursModalProps {
+  isOpen: boolean
+  onClose: () => void
+  crew: { id: string; name: string }[]
+}
+
+interface RestHoursResponse extends RestRecordView {
+  canSign: boolean
+  canCountersign: boolean
+}
+
+const formatSignedAt = (value: string) => format(new Date(value), 'MMM d, yyyy HH:mm')
+
+export function RestHoursModal({ isOpen, onClose, crew }: RestHoursModalProps) {
+  const [crewId, setCrewId] = useState('')
+  const [month, setMonth] = useState(() => format(new Date(), 'yyyy-MM'))
+  const [record, setRecord] = useState<RestHoursResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!crewId && crew.length > 0) {
+      setCrewId(crew[0].id)
+    }
+  }, [crew, crewId])
+
+  const loadRecord = useCallback(async () => {
+    if (!crewId || !month) return
+
+    setLoading(true)
+    try {
+      const response = await fetchWithAuth(`/api/crew/${crewId}/rest-hours?month=${month}`)
+      setRecord(response.ok ? await response.json() : null)
+    } catch (error) {
+      console.error('Error loading rest hours:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [crewId, month])
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRecord()
+    }
+  }, [isOpen, loadRecord])
+
+  const sign = async (action: 'sign' | 'countersign') => {
+    setLoading(true)
+    try {
+      const response = await fetchWithAuth(`/api/crew/${crewId}/rest-hours/${action}`, {
+        method: 'POST',
+        body: JSON.stringify({ month })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign the record')
+      }
+
+      toast({ title: action === 'sign' ? "Record signed" : "Record countersigned" })
+      await loadRecord()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to sign the record',
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const signature = record?.signature
+  const exportUrl = (type: 'csv' | 'pdf') => `/api/crew/${crewId}/rest-hours/export?month=${month}&format=${type}`
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Hours of Rest</DialogTitle>
+          <DialogDescription>
+            Monthly record of hours of work and rest from completed shifts, checked against MLC 2006.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_180px_auto] items-end gap-4">
+            <div className="space-y-2">
+              <Label>Crew member</Label>
+              <Select value={crewId} onValueChange={setCrewId}>
+                <SelectTrigger><SelectValue placeholder="Crew member" /></SelectTrigger>
+                <SelectContent>
+                  {crew.map(member => <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rest-month">Month</Label>
+              <Input id="rest-month" type="month" value={month} onChange={e => setMonth(e.target.value)} />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild disabled={!record}>
+                <a href={exportUrl('csv')}>
+                  <Download className="w-4 h-4 mr-2" /> CSV
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" asChild disabled={!record}>
+                <a href={exportUrl('pdf')}>
+                  <Download className="w-4 h-4 mr-2" /> PDF
+                </a>
+              </Button>
+            </div>
+          </div>
+
+          {record && signature && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span>{record.sheet.totals.workHours}h work · {record.sheet.totals.restHours}h rest</span>
+              {record.sheet.totals.nonconformities > 0 ? (
+                <Badge variant="destructive">{record.sheet.totals.nonconformities} days with non-conformities</Badge>
+              ) : (
+                <Badge variant="secondary">No non-conformities</Badge>
+              )}
+              <Badge variant={signature.crewSignedAt ? 'default' : 'outline'}>
+                {signature.crewSignedAt ? `Signed ${formatSignedAt(signature.crewSignedAt)}` : 'Not signed'}
+              </Badge>
+              <Badge variant={signature.masterSignedAt ? 'default' : 'outline'}>
+                {signature.masterSignedAt
+                  ? `Countersigned by ${signature.masterSignedBy ?? 'master'} ${formatSignedAt(signature.masterSignedAt)}`
+                  : 'Not countersigned'}
+              </Badge>
+              {record.changedSinceSigned && (
+                <span className="text-orange-600">Shifts changed after signing — the record must be signed again.</span>
+              )}
+            </div>
+          )}
+
+          <div className="max-h-[50vh] overflow-y-auto rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Date</TableHead>
+                  <TableHead>Work (00–24)</TableHead>
+                  <TableHead>Work</TableHead>
+                  <TableHead>Rest</TableHead>
+                  <TableHead>Min 24h</TableHead>
+                  <TableHead>Min 7 days</TableHead>
+                  <TableHead>Comments</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!record ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      {loading ? 'Loading record…' : 'No record found.'}
+                    </TableCell>
+                  </TableRow>
+                ) : record.sheet.days.map(day => (
+                  <TableRow key={day.date} className={day.nonconformities.length > 0 ? 'bg-red-50' : undefined}>
+                    <TableCell>{format(new Date(`${day.date}T00:00:00`), 'EEE d')}</TableCell>
+                    <TableCell>
+                      <div className="relative h-3 w-48 rounded bg-gray-100">
+                        {day.work.map(interval => (
+                          <div
+                            key={interval.from}
+                            className="absolute h-3 rounded bg-gray-600"
+                            style={{ left: `${interval.from / 14.4}%`, width: `${(interval.to - interval.from) / 14.4}%` }}
+                          />
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{day.workHours}h</TableCell>
+                    <TableCell>{day.restHours}h</TableCell>
+                    <TableCell>{day.minRest24h}h</TableCell>
+                    <TableCell>{day.minRest7d}h</TableCell>
+                    <TableCell className="text-xs text-red-600">
+                      {day.nonconformities.map(item => item.message).join('; ')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
+            Close
+          </Button>
+          {record?.canSign && (
+            <Button type="button" onClick={() => sign('sign')} disabled={loading}>
+              <FileSignature className="w-4 h-4 mr-2" />
+              {signature?.crewSignedAt ? 'Sign Again' : 'Sign Record'}
+            </Button>
+          )}
+          {record?.canCountersign && (
+            <Button
+              type="button"
+              onClick={() => sign('countersign')}
+              disabled={loading || !signature?.crewSignedAt || !!signature?.masterSignedAt || record.changedSinceSigned}
+            >
+              <FileSignature className="w-4 h-4 mr-2" />
+              Countersign as Master
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,243 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, Trash2 } from "lucide-react"
+import { fetchWithAuth } from '@/lib/fetchWithAuth'
+import { toast } from '@/components/ui/use-toast'
+import { ConflictAlert } from '@/components/crew/conflict-alert'
+import type { Conflict } from '@/utils/conflict-detection'
+import type { RotationTemplate, UnfilledPosition } from '@/lib/services/roster-service'
+
+interface RosterGeneratorModalProps {
+  isOpen: boolean
+  onClose: () => void
+  lanes: { id: string; label: string }[]
+  onRosterSaved: () => void
+}
+
+interface PositionForm {
+  laneId: string
+  templateId: string
+  crew: number
+  department: string
+}
+
+interface RosterPreview {
+  saved: boolean
+  shifts: unknown[]
+  unfilled: UnfilledPosition[]
+  replacedShiftIds: number[]
+  conflicts: Conflict[]
+}
+
+const DEPARTMENTS = ['Deck', 'Engineering', 'Interior', 'Galley', 'Security']
+
+const nextMonday = () => {
+  const date = new Date()
+  date.setDate(date.getDate() + ((8 - date.getDay()) % 7 || 7))
+  return date.toISOString().slice(0, 10)
+}
+
+export function RosterGeneratorModal({ isOpen, onClose, lanes, onRosterSaved }: RosterGeneratorModalProps) {
+  const [templates, setTemplates] = useState<RotationTemplate[]>([])
+  const [startDate, setStartDate] = useState(nextMonday)
+  const [weeks, setWeeks] = useState(2)
+  const [replaceExisting, setReplaceExisting] = useState(true)
+  const [positions, setPositions] = useState<PositionForm[]>([])
+  const [preview, setPreview] = useState<RosterPreview | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen || templates.length > 0) return
+
+    fetchWithAuth('/api/shifts/roster')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!data) return
+        setTemplates(data.templates)
+        setPositions(lanes.map(lane => ({ laneId: lane.id, templateId: data.templates[0]?.id ?? '', crew: 2, department: 'none' })))
+      })
+      .catch(error => console.error('Error loading rotation templates:', error))
+  }, [isOpen, lanes, templates.length])
+
+  const updatePosition = (index: number, updates: Partial<PositionForm>) => {
+    setPositions(positions.map((position, i) => i === index ? { ...position, ...updates } : position))
+    setPreview(null)
+  }
+
+  const submit = async (dryRun: boolean, force = false) => {
+    setLoading(true)
+    try {
+      const response = await fetchWithAuth('/api/shifts/roster', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          startDate,
+          weeks,
+          replaceExisting,
+          dryRun,
+          force,
+          positions: positions.map(position => ({
+            laneId: position.laneId,
+            templateId: position.templateId,
+            crew: position.crew,
+            department: position.department === 'none' ? undefined : position.department,
+          })),
+        })
+      })
+      const data = await response.json()
+
+      if (response.status === 409) {
+        setPreview(prev => prev ? { ...prev, conflicts: data.conflicts } : prev)
+        toast({ title: "Roster not saved", description: "Resolve the rest-hour conflicts or save anyway", variant: "destructive" })
+        return
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate roster')
+      }
+
+      if (data.saved) {
+        toast({ title: "Roster saved", description: `${data.shifts.length} shifts created` })
+        setPreview(null)
+        onRosterSaved()
+        onClose()
+      } else {
+        setPreview(data)
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to generate roster',
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Generate Roster</DialogTitle>
+          <DialogDescription>
+            Build a multi-week schedule from rotation templates. Crew on leave are skipped and every shift is checked against MLC 2006 rest hours.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="roster-start">Start date</Label>
+              <Input id="roster-start" type="date" value={startDate} onChange={e => { setStartDate(e.target.value); setPreview(null) }} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="roster-weeks">Weeks</Label>
+              <Input
+                id="roster-weeks"
+                type="number"
+                min={1}
+                max={12}
+                value={weeks}
+                onChange={e => { setWeeks(parseInt(e.target.value) || 1); setPreview(null) }}
+              />
+            </div>
+            <div className="flex items-end gap-2 pb-2">
+              <Switch id="roster-replace" checked={replaceExisting} onCheckedChange={value => { setReplaceExisting(value); setPreview(null) }} />
+              <Label htmlFor="roster-replace">Replace existing shifts</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {positions.map((position, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1.5fr_80px_1fr_auto] items-center gap-2">
+                <Select value={position.laneId} onValueChange={value => updatePosition(index, { laneId: value })}>
+                  <SelectTrigger><SelectValue placeholder="Position" /></SelectTrigger>
+                  <SelectContent>
+                    {lanes.map(lane => <SelectItem key={lane.id} value={lane.id}>{lane.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Select value={position.templateId} onValueChange={value => updatePosition(index, { templateId: value })}>
+                  <SelectTrigger><SelectValue placeholder="Rotation" /></SelectTrigger>
+                  <SelectContent>
+                    {templates.map(template => <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={position.crew}
+                  onChange={e => updatePosition(index, { crew: parseInt(e.target.value) || 1 })}
+                  aria-label="Crew count"
+                />
+                <Select value={position.department} onValueChange={value => updatePosition(index, { department: value })}>
+                  <SelectTrigger><SelectValue placeholder="Department" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Any department</SelectItem>
+                    {DEPARTMENTS.map(department => <SelectItem key={department} value={department}>{department}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => { setPositions(positions.filter((_, i) => i !== index)); setPreview(null) }}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPositions([...positions, { laneId: lanes[0]?.id ?? '', templateId: templates[0]?.id ?? '', crew: 1, department: 'none' }])}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Position
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="space-y-3 rounded-lg border p-3 text-sm">
+              <p>
+                {preview.shifts.length} shifts
+                {preview.replacedShiftIds.length > 0 && `, replacing ${preview.replacedShiftIds.length} existing`}
+                {preview.conflicts.length === 0 && ' — no rest-hour conflicts'}
+              </p>
+              {preview.unfilled.map(item => (
+                <p key={item.laneId} className="text-orange-600">
+                  {lanes.find(lane => lane.id === item.laneId)?.label ?? item.laneId}: only {item.assigned} of {item.requested} eligible crew available
+                </p>
+              ))}
+              {preview.conflicts.length > 0 && <ConflictAlert conflicts={preview.conflicts} />}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button type="button" variant="outline" onClick={() => submit(true)} disabled={loading || positions.length === 0}>
+            Preview
+          </Button>
+          {preview && preview.conflicts.length > 0 ? (
+            <Button type="button" variant="destructive" onClick={() => submit(false, true)} disabled={loading}>
+              Save Anyway
+            </Button>
+          ) : (
+            <Button type="button" onClick={() => submit(false)} disabled={loading || positions.length === 0}>
+              Save Roster
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
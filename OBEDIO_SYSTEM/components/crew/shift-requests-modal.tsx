@@ -0,0 +1,350 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Check, Send, X } from "lucide-react"
+import { format } from 'date-fns'
+import { fetchWithAuth } from '@/lib/fetchWithAuth'
+import { toast } from '@/components/ui/use-toast'
+import { useShiftRequestEvents } from '@/hooks/useEventSource'
+import type { ShiftRequestView } from '@/lib/services/shift-request-service'
+import type { Conflict } from '@/utils/conflict-detection'
+import type { ShiftRequestEvent } from '@/lib/sseEmitter'
+
+interface ShiftRequestsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  crew: { id: string; name: string }[]
+  onShiftsChanged?: () => void
+}
+
+// Datumi stižu kao JSON stringovi
+type Serialized<T> = { [K in keyof T]: T[K] extends Date ? string : T[K] extends Date | null ? string | null : T[K] }
+
+interface ShiftRequestItem extends Omit<Serialized<ShiftRequestView>, 'shift' | 'colleagueShift'> {
+  shift: { id: number; startsAt: string; endsAt: string } | null
+  colleagueShift: { id: number; startsAt: string; endsAt: string } | null
+  canRespond: boolean
+  canDecide: boolean
+  canCancel: boolean
+}
+
+interface ShiftOption {
+  id: number
+  startsAt: string
+  endsAt: string
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  pending_colleague: 'Waiting for colleague',
+  pending_approval: 'Waiting for HOD',
+  approved: 'Approved',
+  declined: 'Declined by colleague',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+}
+
+const formatShift = (shift: { startsAt: string; endsAt: string }) =>
+  `${format(new Date(shift.startsAt), 'EEE MMM d HH:mm')}–${format(new Date(shift.endsAt), 'HH:mm')}`
+
+const describeRequest = (request: ShiftRequestItem) => request.type === 'swap'
+  ? `${request.requester.name} ↔ ${request.colleague?.name ?? '—'}: ${request.shift ? formatShift(request.shift) : 'shift removed'}` +
+    (request.colleagueShift ? ` for ${formatShift(request.colleagueShift)}` : '')
+  : `${request.requester.name} on leave ${format(new Date(request.startsAt!), 'MMM d')}–${format(new Date(request.endsAt!), 'MMM d, yyyy')}`
+
+export function ShiftRequestsModal({ isOpen, onClose, crew, onShiftsChanged }: ShiftRequestsModalProps) {
+  const [requests, setRequests] = useState<ShiftRequestItem[]>([])
+  const [currentUserId, setCurrentUserId] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [pendingConflicts, setPendingConflicts] = useState<{ id: number; conflicts: Conflict[] } | null>(null)
+
+  // Forma za novi zahtev
+  const [type, setType] = useState<'swap' | 'leave'>('swap')
+  const [myShifts, setMyShifts] = useState<ShiftOption[]>([])
+  const [colleagueShifts, setColleagueShifts] = useState<ShiftOption[]>([])
+  const [shiftId, setShiftId] = useState('')
+  const [colleagueId, setColleagueId] = useState('')
+  const [colleagueShiftId, setColleagueShiftId] = useState('none')
+  const [leaveFrom, setLeaveFrom] = useState('')
+  const [leaveTo, setLeaveTo] = useState('')
+  const [reason, setReason] = useState('')
+
+  const loadRequests = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth('/api/shifts/requests')
+      if (response.ok) {
+        const data = await response.json()
+        setRequests(data.requests)
+        setCurrentUserId(data.currentUserId)
+      }
+    } catch (error) {
+      console.error('Error loading shift requests:', error)
+    }
+  }, [])
+
+  const loadShifts = useCallback(async (userId: string | number) => {
+    const response = await fetchWithAuth(`/api/shifts?userId=${userId}&completed=false&startAfter=${new Date().toISOString()}`)
+    if (!response.ok) return []
+    const data = await response.json()
+    return (data.shifts as ShiftOption[]).sort((a, b) => a.startsAt.localeCompare(b.startsAt))
+  }, [])
+
+  // Učitava se i dok je prozor zatvoren, da bi obaveštenja znala ko je prijavljen
+  useEffect(() => {
+    loadRequests()
+  }, [isOpen, loadRequests])
+
+  useEffect(() => {
+    if (isOpen && currentUserId !== null) {
+      loadShifts(currentUserId).then(setMyShifts)
+    }
+  }, [isOpen, currentUserId, loadShifts])
+
+  useEffect(() => {
+    setColleagueShiftId('none')
+    if (colleagueId) {
+      loadShifts(colleagueId).then(setColleagueShifts)
+    } else {
+      setColleagueShifts([])
+    }
+  }, [colleagueId, loadShifts])
+
+  // SSE veza se zatvara kada se handler promeni, pa handler čita trenutno stanje iz ref-a
+  const latest = useRef({ currentUserId, isOpen, onShiftsChanged })
+  latest.current = { currentUserId, isOpen, onShiftsChanged }
+
+  // Obaveštenje stiže i kada je prozor zatvoren
+  const handleShiftRequestEvent = useCallback((event: ShiftRequestEvent) => {
+    const { currentUserId, isOpen, onShiftsChanged } = latest.current
+    if (currentUserId !== null && event.recipients.includes(currentUserId)) {
+      toast({ title: "Shift request", description: event.message })
+    }
+    if (event.status === 'approved') {
+      onShiftsChanged?.()
+    }
+    if (isOpen) {
+      loadRequests()
+    }
+  }, [loadRequests])
+
+  useShiftRequestEvents(handleShiftRequestEvent)
+
+  const post = async (url: string, body: object, success: string) => {
+    setLoading(true)
+    try {
+      const response = await fetchWithAuth(url, { method: 'POST', body: JSON.stringify(body) })
+      const data = await response.json()
+      if (response.status === 409 && data.conflicts) {
+        return data.conflicts as Conflict[]
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+
+      toast({ title: success })
+      await loadRequests()
+      return null
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      })
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const submit = async () => {
+    const body = type === 'swap'
+      ? {
+          type,
+          shiftId: parseInt(shiftId),
+          colleagueId: parseInt(colleagueId),
+          ...(colleagueShiftId !== 'none' && { colleagueShiftId: parseInt(colleagueShiftId) }),
+          ...(reason && { reason }),
+        }
+      : { type, startsAt: new Date(`${leaveFrom}T00:00:00`), endsAt: new Date(`${leaveTo}T23:59:59`), ...(reason && { reason }) }
+
+    await post('/api/shifts/requests', body, type === 'swap' ? 'Swap proposed' : 'Leave requested')
+    setShiftId('')
+    setColleagueId('')
+    setReason('')
+  }
+
+  const decide = async (id: number, approve: boolean, force = false) => {
+    const conflicts = await post(`/api/shifts/requests/${id}/decide`, { approve, force }, approve ? 'Request approved' : 'Request rejected')
+    setPendingConflicts(conflicts ? { id, conflicts } : null)
+    if (approve && !conflicts) {
+      onShiftsChanged?.()
+    }
+  }
+
+  const canSubmit = type === 'swap' ? !!shiftId && !!colleagueId : !!leaveFrom && !!leaveTo && leaveFrom <= leaveTo
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Shift Requests</DialogTitle>
+          <DialogDescription>
+            Propose a shift swap with a colleague or request leave. Swaps need the colleague&apos;s acceptance, then HOD approval.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="requests">
+          <TabsList>
+            <TabsTrigger value="requests">Requests</TabsTrigger>
+            <TabsTrigger value="new">New Request</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="requests">
+            <div className="max-h-[55vh] space-y-2 overflow-y-auto">
+              {requests.length === 0 && (
+                <p className="py-6 text-center text-sm text-muted-foreground">No shift requests.</p>
+              )}
+              {requests.map(request => (
+                <div key={request.id} className="space-y-2 rounded-lg border p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-sm font-medium">{describeRequest(request)}</div>
+                    <Badge variant={request.status === 'approved' ? 'default' : request.status.startsWith('pending') ? 'secondary' : 'outline'}>
+                      {STATUS_LABELS[request.status] ?? request.status}
+                    </Badge>
+                  </div>
+                  {request.reason && <p className="text-xs text-muted-foreground">{request.reason}</p>}
+                  {request.decisionNote && <p className="text-xs">HOD note: {request.decisionNote}</p>}
+                  {request.conflicts.length > 0 && request.status.startsWith('pending') && (
+                    <p className="text-xs text-orange-600">
+                      {request.conflicts.map(conflict => conflict.message).join('; ')}
+                    </p>
+                  )}
+                  {pendingConflicts?.id === request.id && (
+                    <div className="flex items-center justify-between gap-2 rounded bg-red-50 p-2 text-xs text-red-700">
+                      <span>{pendingConflicts.conflicts.map(conflict => conflict.message).join('; ')}</span>
+                      <Button size="sm" variant="destructive" disabled={loading} onClick={() => decide(request.id, true, true)}>
+                        Approve anyway
+                      </Button>
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    {request.canRespond && (
+                      <>
+                        <Button size="sm" disabled={loading}
+                          onClick={() => post(`/api/shifts/requests/${request.id}/respond`, { accept: true }, 'Swap accepted')}>
+                          <Check className="w-4 h-4 mr-1" /> Accept
+                        </Button>
+                        <Button size="sm" variant="outline" disabled={loading}
+                          onClick={() => post(`/api/shifts/requests/${request.id}/respond`, { accept: false }, 'Swap declined')}>
+                          <X className="w-4 h-4 mr-1" /> Decline
+                        </Button>
+                      </>
+                    )}
+                    {request.canDecide && (
+                      <>
+                        <Button size="sm" disabled={loading} onClick={() => decide(request.id, true)}>
+                          <Check className="w-4 h-4 mr-1" /> Approve
+                        </Button>
+                        <Button size="sm" variant="outline" disabled={loading} onClick={() => decide(request.id, false)}>
+                          <X className="w-4 h-4 mr-1" /> Reject
+                        </Button>
+                      </>
+                    )}
+                    {request.canCancel && (
+                      <Button size="sm" variant="ghost" disabled={loading}
+                        onClick={() => post(`/api/shifts/requests/${request.id}/cancel`, {}, 'Request withdrawn')}>
+                        Withdraw
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="new" className="space-y-4">
+            <div className="space-y-2">
+              <Label>Request type</Label>
+              <Select value={type} onValueChange={value => setType(value as 'swap' | 'leave')}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="swap">Shift swap</SelectItem>
+                  <SelectItem value="leave">Leave</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {type === 'swap' ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>My shift</Label>
+                  <Select value={shiftId} onValueChange={setShiftId}>
+                    <SelectTrigger><SelectValue placeholder="Select shift" /></SelectTrigger>
+                    <SelectContent>
+                      {myShifts.map(shift => <SelectItem key={shift.id} value={String(shift.id)}>{formatShift(shift)}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Colleague</Label>
+                  <Select value={colleagueId} onValueChange={setColleagueId}>
+                    <SelectTrigger><SelectValue placeholder="Select colleague" /></SelectTrigger>
+                    <SelectContent>
+                      {crew.filter(member => member.id !== String(currentUserId)).map(member => (
+                        <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2 space-y-2">
+                  <Label>In exchange for</Label>
+                  <Select value={colleagueShiftId} onValueChange={setColleagueShiftId} disabled={!colleagueId}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Nothing (colleague covers my shift)</SelectItem>
+                      {colleagueShifts.map(shift => <SelectItem key={shift.id} value={String(shift.id)}>{formatShift(shift)}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="leave-from">From</Label>
+                  <Input id="leave-from" type="date" value={leaveFrom} onChange={e => setLeaveFrom(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leave-to">To</Label>
+                  <Input id="leave-to" type="date" value={leaveTo} onChange={e => setLeaveTo(e.target.value)} />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="shift-request-reason">Reason</Label>
+              <Textarea id="shift-request-reason" value={reason} onChange={e => setReason(e.target.value)} rows={2} />
+            </div>
+
+            <Button onClick={submit} disabled={loading || !canSubmit}>
+              <Send className="w-4 h-4 mr-2" />
+              {type === 'swap' ? 'Propose Swap' : 'Request Leave'}
+            </Button>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,214 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { AlertTriangle, CalendarClock, RefreshCw } from 'lucide-react'
+import { format, formatDistanceToNow } from 'date-fns'
+import type { BatteryForecast, BatteryPlan, RateSource } from '@/lib/services/battery-service'
+import type { BatteryAlertEvent } from '@/lib/sseEmitter'
+import { useBatteryAlertEvents } from '@/hooks/useEventSource'
+import { toast } from '@/components/ui/use-toast'
+
+const SOURCE_LABELS: Record<RateSource, string> = {
+  device: 'measured',
+  model: 'model',
+  none: '',
+}
+
+const formatRate = (rate: number | null) => rate === null ? '—' : `${rate}%/day`
+
+const formatDepletion = (device: BatteryForecast) => {
+  if (device.projectedEmptyAt === null || device.daysUntilEmpty === null) {
+    return '—'
+  }
+  const date = format(new Date(device.projectedEmptyAt), 'MMM d, yyyy')
+  return device.daysUntilEmpty < 1
+    ? `${date} (${formatDistanceToNow(new Date(device.projectedEmptyAt))})`
+    : `${date} (${Math.round(device.daysUntilEmpty)} days)`
+}
+
+export function BatteryPlanning() {
+  const [plan, setPlan] = useState<BatteryPlan | null>(null)
+  const [beforeCharter, setBeforeCharter] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadPlan = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/devices/battery${beforeCharter ? '?replaceBeforeCharter=true' : ''}`)
+      if (response.ok) {
+        setPlan(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading battery plan:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [beforeCharter])
+
+  useEffect(() => {
+    loadPlan()
+  }, [loadPlan])
+
+  // SSE veza se zatvara kada se handler promeni, pa handler čita trenutni loadPlan iz ref-a
+  const latestLoadPlan = useRef(loadPlan)
+  latestLoadPlan.current = loadPlan
+
+  const handleBatteryAlert = useCallback((event: BatteryAlertEvent) => {
+    toast({
+      title: "Abnormal battery drain",
+      description: `${event.name || event.uid} is draining ${event.ratePerDay}%/day (battery ${event.level}%)`,
+      variant: "destructive"
+    })
+    latestLoadPlan.current()
+  }, [])
+
+  useBatteryAlertEvents(handleBatteryAlert)
+
+  const abnormal = plan?.devices.filter(device => device.abnormal) ?? []
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="replace-before-charter"
+            checked={beforeCharter}
+            onCheckedChange={setBeforeCharter}
+            disabled={!plan?.nextCharter}
+          />
+          <Label htmlFor="replace-before-charter">Replace before next charter</Label>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadPlan} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <CalendarClock className="h-4 w-4" />
+              Next charter
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm">
+            {plan?.nextCharter ? (
+              <p>
+                {plan.nextCharter.name}: {format(new Date(plan.nextCharter.startDate), 'MMM d')} – {format(new Date(plan.nextCharter.endDate), 'MMM d, yyyy')}
+                <span className="text-muted-foreground"> (arrives in {formatDistanceToNow(new Date(plan.nextCharter.startDate))})</span>
+              </p>
+            ) : (
+              <p className="text-muted-foreground">No upcoming charter or guest arrival.</p>
+            )}
+          </CardContent>
+        </Card>
+        <Card className={abnormal.length > 0 ? 'border-destructive/50' : undefined}>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <AlertTriangle className="h-4 w-4" />
+              Abnormal drain
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm">
+            {abnormal.length > 0 ? (
+              <p>
+                {abnormal.map(device => device.name || device.uid).join(', ')} — often firmware that does not go to sleep.
+              </p>
+            ) : (
+              <p className="text-muted-foreground">All devices drain within the expected range.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Device</TableHead>
+            <TableHead>Location</TableHead>
+            <TableHead>Battery</TableHead>
+            <TableHead>Drain</TableHead>
+            <TableHead>Expected</TableHead>
+            <TableHead>Projected Empty</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {!plan || plan.devices.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground">
+                {isLoading ? 'Loading battery plan…' : beforeCharter ? 'No batteries need replacing before the next charter.' : 'No devices found.'}
+              </TableCell>
+            </TableRow>
+          ) : plan.devices.map(device => (
+            <TableRow key={device.uid}>
+              <TableCell>
+                <div className="font-medium">{device.name || device.uid}</div>
+                <div className="text-xs text-muted-foreground">
+                  {device.type}{device.firmwareVersion ? ` · v${device.firmwareVersion}` : ''}
+                </div>
+              </TableCell>
+              <TableCell>{device.location ? `${device.location} (${device.deck})` : '—'}</TableCell>
+              <TableCell>{device.battery}%</TableCell>
+              <TableCell>
+                {formatRate(device.ratePerDay)}
+                {device.rateSource !== 'none' && (
+                  <span className="ml-1 text-xs text-muted-foreground">{SOURCE_LABELS[device.rateSource]}</span>
+                )}
+              </TableCell>
+              <TableCell>{formatRate(device.expectedRatePerDay)}</TableCell>
+              <TableCell>{formatDepletion(device)}</TableCell>
+              <TableCell className="space-x-1">
+                {device.abnormal && <Badge variant="destructive">Abnormal drain</Badge>}
+                {device.replaceBeforeCharter && <Badge variant="secondary">Replace before charter</Badge>}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {plan && plan.models.length > 0 && (
+        <div>
+          <h4 className="mb-2 font-medium">Discharge models</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Firmware</TableHead>
+                <TableHead>Devices</TableHead>
+                <TableHead>Median Drain</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.models.map(model => (
+                <TableRow key={`${model.type}-${model.firmwareVersion ?? 'all'}`}>
+                  <TableCell>{model.type}</TableCell>
+                  <TableCell>{model.firmwareVersion ?? 'All versions'}</TableCell>
+                  <TableCell>{model.devices}</TableCell>
+                  <TableCell>{formatRate(model.ratePerDay)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Drain is flagged as abnormal above {plan.thresholds.abnormalRatePerDay}%/day or {plan.thresholds.abnormalFactor}× the model. Batteries are due for replacement below {plan.thresholds.replaceLevel}%.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
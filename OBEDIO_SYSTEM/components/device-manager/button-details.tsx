@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { 
   Drawer, 
   DrawerClose, 
@@ -17,6 +17,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
 import { 
   Select, 
   SelectContent, 
@@ -44,6 +45,15 @@ import { BatteryIndicator } from '@/components/devices/battery-indicator'
 import { SignalIndicator } from '@/components/devices/signal-indicator'
 import { format, formatDistanceToNow } from 'date-fns'
 import { toast } from '@/components/ui/use-toast'
+import { useDeviceConfigEvents } from '@/hooks/useEventSource'
+import type { DeviceConfigEvent } from '@/lib/sseEmitter'
+import type {
+  ConfigState,
+  DeviceConfig,
+  DeviceConfigPatch,
+  InteractionAction,
+  InteractionType
+} from '@/lib/services/device-config-service'
 
 interface ButtonDevice {
   id: number
@@ -65,13 +75,38 @@ interface ButtonDetailsProps {
 }
 
 interface InteractionConfig {
-  type: string // 'single_press', 'double_press', 'long_press', 'touch'
+  type: InteractionType
   enabled: boolean
-  action: string // 'request', 'call', 'message', 'custom'
+  action: InteractionAction
   target?: string
   message?: string
 }
 
+interface DeviceConfigResponse {
+  deviceProfile: { version: number; config: DeviceConfigPatch } | null
+  baseConfig: DeviceConfig
+  config: DeviceConfig
+  hash: string
+  appliedHash: string | null
+  appliedAt: string | null
+  state: ConfigState
+}
+
+const CONFIG_STATE_LABELS: Record<ConfigState, { label: string; variant: 'secondary' | 'outline' | 'destructive' }> = {
+  synced: { label: 'Synced', variant: 'secondary' },
+  pending: { label: 'Waiting for device', variant: 'outline' },
+  drift: { label: 'Out of sync', variant: 'destructive' },
+}
+
+// Settings edited in this drawer; the rest of the device profile (e.g. LoRa) is kept as is
+const BUTTON_SETTINGS: string[] = ['interactions', 'shakeToCall', 'ledEnabled', 'vibrationEnabled']
+
+const otherSettings = (patch: DeviceConfigPatch = {}): DeviceConfigPatch =>
+  Object.fromEntries(Object.entries(patch).filter(([key]) => !BUTTON_SETTINGS.includes(key)))
+
+const toInteractions = (config: DeviceConfig): InteractionConfig[] =>
+  (Object.keys(config.interactions) as InteractionType[]).map(type => ({ type, ...config.interactions[type] }))
+
 export function ButtonDetails({ button, isOpen, onClose }: ButtonDetailsProps) {
   const [loading, setLoading] = useState(false)
   const [activeTab, setActiveTab] = useState('info')
@@ -84,6 +119,7 @@ export function ButtonDetails({ button, isOpen, onClose }: ButtonDetailsProps) {
   const [shakeToCall, setShakeToCall] = useState(true)
   const [ledEnabled, setLedEnabled] = useState(true)
   const [vibrationEnabled, setVibrationEnabled] = useState(true)
+  const [deviceConfig, setDeviceConfig] = useState<DeviceConfigResponse | null>(null)
   
   // Format dates for display
   const formatDateTime = (dateStr: string) => {
@@ -113,26 +149,62 @@ export function ButtonDetails({ button, isOpen, onClose }: ButtonDetailsProps) {
     }
   }
 
+  const applyDeviceConfig = (data: DeviceConfigResponse) => {
+    setDeviceConfig(data)
+    setInteractions(toInteractions(data.config))
+    setShakeToCall(data.config.shakeToCall)
+    setLedEnabled(data.config.ledEnabled)
+    setVibrationEnabled(data.config.vibrationEnabled)
+  }
+
+  // Load the configuration profile the button should be running
+  const loadConfiguration = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/devices/${button.id}/config`)
+      if (!response.ok) {
+        throw new Error('Error loading button configuration')
+      }
+      applyDeviceConfig(await response.json())
+    } catch (error) {
+      console.error('Error loading configuration:', error)
+    }
+  }, [button.id])
+
   // Load button configuration data
   useEffect(() => {
     if (isOpen) {
       getActivityHistory()
+      loadConfiguration()
     }
-  }, [isOpen])
+  }, [isOpen, loadConfiguration])
 
-  // Save button configuration
-  const saveConfiguration = async () => {
+  // Refresh the sync state when the button confirms (or rejects) a pushed profile
+  const handleConfigEvent = useCallback((event: DeviceConfigEvent) => {
+    if (event.deviceId === button.id) {
+      loadConfiguration()
+    }
+  }, [button.id, loadConfiguration])
+
+  useDeviceConfigEvents(handleConfigEvent)
+
+  // Save the device profile, keeping only the settings that differ from the device type profile
+  const saveDeviceProfile = async (config: DeviceConfigPatch, successMessage: string) => {
     setLoading(true)
     try {
-      // In a real application, this would save the configuration to an API
-      // For now, just simulate a delay and show success toast
-      setTimeout(() => {
-        toast({
-          title: 'Configuration saved',
-          description: `Button ${button.name} configuration has been updated.`,
-        })
-        setLoading(false)
-      }, 1000)
+      const response = await fetch(`/api/devices/${button.id}/config`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      applyDeviceConfig(data)
+      toast({
+        title: 'Configuration saved',
+        description: successMessage,
+      })
     } catch (error) {
       console.error('Error saving configuration:', error)
       toast({
@@ -140,10 +212,40 @@ export function ButtonDetails({ button, isOpen, onClose }: ButtonDetailsProps) {
         description: 'Failed to save button configuration.',
         variant: 'destructive',
       })
+    } finally {
       setLoading(false)
     }
   }
 
+  // Save button configuration
+  const saveConfiguration = async () => {
+    if (!deviceConfig) return
+
+    const base = deviceConfig.baseConfig
+    const patch = otherSettings(deviceConfig.deviceProfile?.config)
+
+    for (const { type, ...interaction } of interactions) {
+      const changed = (Object.keys(interaction) as (keyof typeof interaction)[])
+        .filter(key => interaction[key] !== base.interactions[type][key])
+      if (changed.length > 0) {
+        patch.interactions = {
+          ...patch.interactions,
+          [type]: Object.fromEntries(changed.map(key => [key, interaction[key]])),
+        }
+      }
+    }
+    if (shakeToCall !== base.shakeToCall) patch.shakeToCall = shakeToCall
+    if (ledEnabled !== base.ledEnabled) patch.ledEnabled = ledEnabled
+    if (vibrationEnabled !== base.vibrationEnabled) patch.vibrationEnabled = vibrationEnabled
+
+    await saveDeviceProfile(patch, `Button ${button.name} will receive the new configuration the next time it checks in.`)
+  }
+
+  // Drop the button's own interaction and feedback settings so it follows the device type profile
+  const resetToTypeProfile = async () => {
+    await saveDeviceProfile(otherSettings(deviceConfig?.deviceProfile?.config), `Button ${button.name} now follows the button type profile.`)
+  }
+
   // Test connection with button
   const testConnection = async () => {
     setLoading(true)
@@ -238,12 +340,19 @@ export function ButtonDetails({ button, isOpen, onClose }: ButtonDetailsProps) {
   }
 
   // Update action for an interaction
-  const updateInteractionAction = (type: string, action: string) => {
+  const updateInteractionAction = (type: string, action: InteractionAction) => {
     setInteractions(prev => prev.map(item => 
       item.type === type ? {...item, action} : item
     ))
   }
 
+  // Update call target or pre-recorded message for an interaction
+  const updateInteractionOption = (type: string, option: 'target' | 'message', value: string) => {
+    setInteractions(prev => prev.map(item =>
+      item.type === type ? {...item, [option]: value} : item
+    ))
+  }
+
   const getInteractionLabel = (type: string) => {
     switch (type) {
       case 'single_press': return 'Single Press'
@@ -354,6 +463,19 @@ export function ButtonDetails({ button, isOpen, onClose }: ButtonDetailsProps) {
                             <span className="text-sm text-muted-foreground">Firmware Version</span>
                             <span className="text-sm font-medium">v{button.firmwareVersion}</span>
                           </div>
+                          <div className="flex justify-between items-center px-3 py-2">
+                            <span className="text-sm text-muted-foreground">Configuration</span>
+                            {deviceConfig ? (
+                              <span className="flex items-center gap-2">
+                                <span className="font-mono text-xs text-muted-foreground">{deviceConfig.hash}</span>
+                                <Badge variant={CONFIG_STATE_LABELS[deviceConfig.state].variant}>
+                                  {CONFIG_STATE_LABELS[deviceConfig.state].label}
+                                </Badge>
+                              </span>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">—</span>
+                            )}
+                          </div>
                           <div className="flex justify-between px-3 py-2">
                             <span className="text-sm text-muted-foreground">Registered On</span>
                             <span className="text-sm font-medium">{formatDateTime(button.lastSeen)}</span>
@@ -399,7 +521,14 @@ export function ButtonDetails({ button, isOpen, onClose }: ButtonDetailsProps) {
               {/* Interactions Tab */}
               <TabsContent value="interactions" className="p-4 pt-2">
                 <div className="space-y-6">
-                  <h3 className="text-sm font-medium">Button Interaction Settings</h3>
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-medium">Button Interaction Settings</h3>
+                    {deviceConfig?.deviceProfile && (
+                      <Button variant="ghost" size="sm" disabled={loading} onClick={resetToTypeProfile}>
+                        Use Button Defaults
+                      </Button>
+                    )}
+                  </div>
                   
                   {/* Button Interaction Config */}
                   <div className="space-y-4">
@@ -421,7 +550,7 @@ export function ButtonDetails({ button, isOpen, onClose }: ButtonDetailsProps) {
                               <Label htmlFor={`action-${interaction.type}`}>Action</Label>
                               <Select 
                                 value={interaction.action}
-                                onValueChange={(value) => updateInteractionAction(interaction.type, value)}
+                                onValueChange={(value) => updateInteractionAction(interaction.type, value as InteractionAction)}
                               >
                                 <SelectTrigger id={`action-${interaction.type}`}>
                                   <SelectValue placeholder="Select an action" />
@@ -438,7 +567,10 @@ export function ButtonDetails({ button, isOpen, onClose }: ButtonDetailsProps) {
                             {interaction.action === 'call' && (
                               <div className="space-y-2">
                                 <Label htmlFor={`target-${interaction.type}`}>Call Target</Label>
-                                <Select defaultValue="closest">
+                                <Select
+                                  value={interaction.target || 'closest'}
+                                  onValueChange={(value) => updateInteractionOption(interaction.type, 'target', value)}
+                                >
                                   <SelectTrigger id={`target-${interaction.type}`}>
                                     <SelectValue placeholder="Select call target" />
                                   </SelectTrigger>
@@ -454,7 +586,10 @@ export function ButtonDetails({ button, isOpen, onClose }: ButtonDetailsProps) {
                             {interaction.action === 'message' && (
                               <div className="space-y-2">
                                 <Label htmlFor={`message-${interaction.type}`}>Pre-recorded Message</Label>
-                                <Select defaultValue="assistance">
+                                <Select
+                                  value={interaction.message || 'assistance'}
+                                  onValueChange={(value) => updateInteractionOption(interaction.type, 'message', value)}
+                                >
                                   <SelectTrigger id={`message-${interaction.type}`}>
                                     <SelectValue placeholder="Select message" />
                                   </SelectTrigger>
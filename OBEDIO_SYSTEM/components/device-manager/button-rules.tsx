@@ -0,0 +1,671 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { toast } from '@/components/ui/use-toast'
+import { FlaskConical, Pencil, Plus, RefreshCw, Trash2 } from 'lucide-react'
+import type { ButtonRuleView, RuleTrace } from '@/lib/services/button-rule-service'
+
+interface Option {
+  id: number
+  name: string
+}
+
+interface RuleOptions {
+  devices: Option[]
+  locations: Option[]
+  crew: Option[]
+}
+
+type RuleForm = Omit<ButtonRuleView, 'id' | 'createdBy' | 'createdAt' | 'updatedAt'>
+
+const ANY = 'any'
+
+const PATTERN_LABELS: Record<string, string> = {
+  any: 'Any press',
+  single: 'Single press',
+  double: 'Double press',
+  triple: 'Triple press',
+  long: 'Long press',
+}
+
+const PRESENCE_LABELS: Record<string, string> = {
+  any: 'Always',
+  present: 'Guest present',
+  absent: 'Cabin empty',
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  create_request: 'Create request',
+  call_crew: 'Call crew member',
+  call_department: 'Call department',
+  emergency: 'Trigger emergency',
+  toggle_dnd: 'Toggle DND',
+  webhook: 'Call webhook',
+}
+
+const DEPARTMENTS = ['Interior', 'Galley', 'Deck', 'Engineering']
+
+const EMPTY_RULE: RuleForm = {
+  name: '',
+  enabled: true,
+  position: 0,
+  deviceId: null,
+  locationId: null,
+  pressPattern: 'any',
+  timeFrom: null,
+  timeTo: null,
+  guestPresence: 'any',
+  action: 'create_request',
+  actionConfig: {},
+}
+
+const toForm = (rule: ButtonRuleView): RuleForm => ({
+  name: rule.name,
+  enabled: rule.enabled,
+  position: rule.position,
+  deviceId: rule.deviceId,
+  locationId: rule.locationId,
+  pressPattern: rule.pressPattern,
+  timeFrom: rule.timeFrom,
+  timeTo: rule.timeTo,
+  guestPresence: rule.guestPresence,
+  action: rule.action,
+  actionConfig: rule.actionConfig,
+})
+
+const describeScope = (rule: ButtonRuleView, options: RuleOptions) => {
+  const device = options.devices.find(option => option.id === rule.deviceId)
+  const location = options.locations.find(option => option.id === rule.locationId)
+  return [device?.name, location?.name].filter(Boolean).join(' · ') || 'All buttons'
+}
+
+const describeAction = (rule: ButtonRuleView, options: RuleOptions) => {
+  const { actionConfig } = rule
+  switch (rule.action) {
+    case 'call_crew':
+      return `Call ${options.crew.find(option => option.id === actionConfig.userId)?.name || 'crew member'}`
+    case 'call_department':
+      return `Call ${actionConfig.department}`
+    case 'webhook':
+      return `POST ${actionConfig.url}`
+    case 'create_request':
+      return [actionConfig.category, actionConfig.priority].filter(Boolean).join(', ') || ACTION_LABELS.create_request
+    default:
+      return ACTION_LABELS[rule.action]
+  }
+}
+
+export function ButtonRules() {
+  const [rules, setRules] = useState<ButtonRuleView[]>([])
+  const [options, setOptions] = useState<RuleOptions>({ devices: [], locations: [], crew: [] })
+  const [isLoading, setIsLoading] = useState(true)
+  const [editing, setEditing] = useState<ButtonRuleView | null>(null)
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [dryRunOpen, setDryRunOpen] = useState(false)
+
+  const loadRules = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/button-rules')
+      if (response.ok) {
+        setRules((await response.json()).rules)
+      }
+    } catch (error) {
+      console.error('Error loading button rules:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const loadOptions = useCallback(async () => {
+    try {
+      const [devicesResponse, locationsResponse, crewResponse] = await Promise.all([
+        fetch('/api/devices?type=BUTTON&limit=500'),
+        fetch('/api/locations'),
+        fetch('/api/crew'),
+      ])
+      const toOption = (item: { id: number; name: string | null; room?: string }) =>
+        ({ id: item.id, name: item.name || item.room || `#${item.id}` })
+
+      setOptions({
+        devices: devicesResponse.ok ? (await devicesResponse.json()).devices.map(toOption) : [],
+        locations: locationsResponse.ok ? (await locationsResponse.json()).map(toOption) : [],
+        crew: crewResponse.ok ? (await crewResponse.json()).crew.map(toOption) : [],
+      })
+    } catch (error) {
+      console.error('Error loading rule options:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRules()
+    loadOptions()
+  }, [loadRules, loadOptions])
+
+  const openEditor = (rule: ButtonRuleView | null) => {
+    setEditing(rule)
+    setEditorOpen(true)
+  }
+
+  const saveRule = async (rule: RuleForm) => {
+    try {
+      const response = await fetch(editing ? `/api/button-rules/${editing.id}` : '/api/button-rules', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rule),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      toast({ title: 'Rule saved', description: data.name })
+      setEditorOpen(false)
+      loadRules()
+    } catch (error) {
+      toast({
+        title: 'Could not save rule',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const toggleRule = async (rule: ButtonRuleView, enabled: boolean) => {
+    try {
+      const response = await fetch(`/api/button-rules/${rule.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...toForm(rule), enabled }),
+      })
+      if (!response.ok) {
+        throw new Error((await response.json()).error)
+      }
+      loadRules()
+    } catch (error) {
+      toast({
+        title: 'Could not update rule',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const deleteRule = async (rule: ButtonRuleView) => {
+    if (!confirm(`Delete rule "${rule.name}"?`)) {
+      return
+    }
+    try {
+      const response = await fetch(`/api/button-rules/${rule.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error((await response.json()).error)
+      }
+      loadRules()
+    } catch (error) {
+      toast({
+        title: 'Could not delete rule',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-xl font-semibold">Press Rules</h3>
+          <p className="text-sm text-muted-foreground">
+            Rules are checked top to bottom and the first match wins. Presses without a matching rule create a regular request.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={loadRules} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setDryRunOpen(true)}>
+            <FlaskConical className="mr-2 h-4 w-4" />
+            Test Press
+          </Button>
+          <Button size="sm" onClick={() => openEditor(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Rule
+          </Button>
+        </div>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>#</TableHead>
+            <TableHead>Name</TableHead>
+            <TableHead>Applies To</TableHead>
+            <TableHead>Press</TableHead>
+            <TableHead>When</TableHead>
+            <TableHead>Action</TableHead>
+            <TableHead>Enabled</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rules.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={8} className="text-center text-muted-foreground">
+                No rules yet - every press creates a regular request.
+              </TableCell>
+            </TableRow>
+          ) : rules.map(rule => (
+            <TableRow key={rule.id}>
+              <TableCell>{rule.position}</TableCell>
+              <TableCell className="font-medium">{rule.name}</TableCell>
+              <TableCell>{describeScope(rule, options)}</TableCell>
+              <TableCell>{PATTERN_LABELS[rule.pressPattern] || rule.pressPattern}</TableCell>
+              <TableCell>
+                {[rule.timeFrom && `${rule.timeFrom}–${rule.timeTo}`, rule.guestPresence !== 'any' && PRESENCE_LABELS[rule.guestPresence]]
+                  .filter(Boolean).join(' · ') || 'Always'}
+              </TableCell>
+              <TableCell>
+                <Badge variant={rule.action === 'emergency' ? 'destructive' : 'secondary'}>{ACTION_LABELS[rule.action]}</Badge>
+                <div className="text-xs text-muted-foreground mt-1 max-w-xs truncate">{describeAction(rule, options)}</div>
+              </TableCell>
+              <TableCell>
+                <Switch checked={rule.enabled} onCheckedChange={checked => toggleRule(rule, checked)} />
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                <Button variant="ghost" size="icon" onClick={() => openEditor(rule)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => deleteRule(rule)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <RuleEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        rule={editing}
+        options={options}
+        onSave={saveRule}
+      />
+      <DryRunDialog open={dryRunOpen} onOpenChange={setDryRunOpen} options={options} />
+    </div>
+  )
+}
+
+function RuleEditorDialog({
+  open,
+  onOpenChange,
+  rule,
+  options,
+  onSave,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  rule: ButtonRuleView | null
+  options: RuleOptions
+  onSave: (rule: RuleForm) => Promise<void>
+}) {
+  const [form, setForm] = useState<RuleForm>(EMPTY_RULE)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setForm(rule ? toForm(rule) : EMPTY_RULE)
+    }
+  }, [open, rule])
+
+  const update = (changes: Partial<RuleForm>) => setForm(prev => ({ ...prev, ...changes }))
+  const updateConfig = (changes: RuleForm['actionConfig']) =>
+    setForm(prev => ({ ...prev, actionConfig: { ...prev.actionConfig, ...changes } }))
+
+  // Konfiguracija akcije čuva samo polja koja izabrana akcija koristi
+  const changeAction = (action: string) => {
+    const { category, priority, userId, department, url } = form.actionConfig
+    const configByAction: Record<string, RuleForm['actionConfig']> = {
+      create_request: { category, priority },
+      call_crew: { userId, priority },
+      call_department: { department, priority },
+      webhook: { url },
+    }
+    update({ action, actionConfig: configByAction[action] || {} })
+  }
+
+  const save = async () => {
+    setIsSaving(true)
+    try {
+      await onSave(form)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const idValue = (id: number | null | undefined) => (id ? id.toString() : ANY)
+  const parseId = (value: string) => (value === ANY ? null : parseInt(value))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit Rule' : 'New Rule'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-4 gap-4">
+            <div className="col-span-3 space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input id="rule-name" value={form.name} onChange={event => update({ name: event.target.value })} placeholder="Night calls go to the night steward" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-position">Order</Label>
+              <Input id="rule-position" type="number" min={0} value={form.position} onChange={event => update({ position: parseInt(event.target.value) || 0 })} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Button</Label>
+              <Select value={idValue(form.deviceId)} onValueChange={value => update({ deviceId: parseId(value) })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any button</SelectItem>
+                  {options.devices.map(device => (
+                    <SelectItem key={device.id} value={device.id.toString()}>{device.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <Select value={idValue(form.locationId)} onValueChange={value => update({ locationId: parseId(value) })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any location</SelectItem>
+                  {options.locations.map(location => (
+                    <SelectItem key={location.id} value={location.id.toString()}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Press Pattern</Label>
+              <Select value={form.pressPattern} onValueChange={pressPattern => update({ pressPattern })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PATTERN_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Guest Presence</Label>
+              <Select value={form.guestPresence} onValueChange={guestPresence => update({ guestPresence })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PRESENCE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-from">From (optional)</Label>
+              <Input id="rule-from" type="time" value={form.timeFrom || ''} onChange={event => update({ timeFrom: event.target.value || null })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-to">To</Label>
+              <Input id="rule-to" type="time" value={form.timeTo || ''} onChange={event => update({ timeTo: event.target.value || null })} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={form.action} onValueChange={changeAction}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.action === 'call_crew' && (
+              <div className="space-y-2">
+                <Label>Crew Member</Label>
+                <Select value={idValue(form.actionConfig.userId)} onValueChange={value => updateConfig({ userId: parseId(value) ?? undefined })}>
+                  <SelectTrigger><SelectValue placeholder="Select crew member" /></SelectTrigger>
+                  <SelectContent>
+                    {options.crew.map(member => (
+                      <SelectItem key={member.id} value={member.id.toString()}>{member.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {form.action === 'call_department' && (
+              <div className="space-y-2">
+                <Label>Department</Label>
+                <Select value={form.actionConfig.department || ''} onValueChange={department => updateConfig({ department })}>
+                  <SelectTrigger><SelectValue placeholder="Select department" /></SelectTrigger>
+                  <SelectContent>
+                    {DEPARTMENTS.map(department => (
+                      <SelectItem key={department} value={department}>{department}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {form.action === 'create_request' && (
+              <div className="space-y-2">
+                <Label htmlFor="rule-category">Category (optional)</Label>
+                <Input
+                  id="rule-category"
+                  value={form.actionConfig.category || ''}
+                  onChange={event => updateConfig({ category: event.target.value || undefined })}
+                  placeholder="bar_service"
+                />
+              </div>
+            )}
+
+            {form.action === 'webhook' && (
+              <div className="space-y-2">
+                <Label htmlFor="rule-url">Webhook URL</Label>
+                <Input
+                  id="rule-url"
+                  value={form.actionConfig.url || ''}
+                  onChange={event => updateConfig({ url: event.target.value || undefined })}
+                  placeholder="https://"
+                />
+              </div>
+            )}
+          </div>
+
+          {['create_request', 'call_crew', 'call_department'].includes(form.action) && (
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select
+                value={form.actionConfig.priority || ANY}
+                onValueChange={value => updateConfig({ priority: value === ANY ? undefined : value as 'normal' | 'urgent' })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>From press type</SelectItem>
+                  <SelectItem value="normal">Normal</SelectItem>
+                  <SelectItem value="urgent">Urgent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Switch id="rule-enabled" checked={form.enabled} onCheckedChange={enabled => update({ enabled })} />
+            <Label htmlFor="rule-enabled">Enabled</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={save} disabled={!form.name || isSaving}>
+            {isSaving ? 'Saving…' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function DryRunDialog({
+  open,
+  onOpenChange,
+  options,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  options: RuleOptions
+}) {
+  const [deviceId, setDeviceId] = useState('')
+  const [pressType, setPressType] = useState('single')
+  const [time, setTime] = useState('')
+  const [guestPresent, setGuestPresent] = useState(ANY)
+  const [result, setResult] = useState<{ rule: ButtonRuleView | null; trace: RuleTrace[] } | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+
+  const run = async () => {
+    setIsRunning(true)
+    try {
+      const response = await fetch('/api/button-rules/dry-run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          deviceId: parseInt(deviceId),
+          pressType,
+          time: time || null,
+          guestPresent: guestPresent === ANY ? null : guestPresent === 'present',
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      setResult(data)
+    } catch (error) {
+      toast({
+        title: 'Dry run failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Test Press</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Button</Label>
+              <Select value={deviceId} onValueChange={setDeviceId}>
+                <SelectTrigger><SelectValue placeholder="Select button" /></SelectTrigger>
+                <SelectContent>
+                  {options.devices.map(device => (
+                    <SelectItem key={device.id} value={device.id.toString()}>{device.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Press</Label>
+              <Select value={pressType} onValueChange={setPressType}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PATTERN_LABELS).filter(([value]) => value !== 'any').map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dry-run-time">Time (empty = now)</Label>
+              <Input id="dry-run-time" type="time" value={time} onChange={event => setTime(event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Guest</Label>
+              <Select value={guestPresent} onValueChange={setGuestPresent}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Current occupancy</SelectItem>
+                  <SelectItem value="present">Guest present</SelectItem>
+                  <SelectItem value="absent">Cabin empty</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {result && (
+            <div className="space-y-2">
+              <p className="font-medium">
+                {result.rule
+                  ? `"${result.rule.name}" fires: ${ACTION_LABELS[result.rule.action]}`
+                  : 'No rule matches - a regular request would be created.'}
+              </p>
+              <ul className="text-sm space-y-1">
+                {result.trace.map(entry => (
+                  <li key={entry.ruleId} className={entry.matched ? 'text-green-600' : 'text-muted-foreground'}>
+                    {entry.matched ? '✓' : '✗'} {entry.name}{entry.reason ? ` - ${entry.reason}` : ''}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button onClick={run} disabled={!deviceId || isRunning}>
+            {isRunning ? 'Testing…' : 'Test'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,194 @@
+'use client'
+
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { RadioTower, RefreshCw } from 'lucide-react'
+import type {
+  CoverageQuality,
+  CoverageReport as CoverageReportData,
+  CoverageStats,
+  HourlyCoverage,
+  RecommendationReason
+} from '@/lib/services/coverage-service'
+
+const PERIODS = [1, 7, 14]
+
+const QUALITY_VARIANTS: Record<CoverageQuality, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  good: 'default',
+  fair: 'secondary',
+  poor: 'destructive',
+  no_data: 'outline',
+}
+
+const QUALITY_LABELS: Record<CoverageQuality, string> = {
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor',
+  no_data: 'No data',
+}
+
+const REASON_LABELS: Record<RecommendationReason, string> = {
+  weak_signal: 'weak signal',
+  packet_loss: 'missed heartbeats',
+  weak_signal_and_packet_loss: 'weak signal and missed heartbeats',
+}
+
+const formatRssi = (rssi: number | null) => rssi === null ? '—' : `${rssi} dBm`
+const formatLoss = (loss: number | null) => loss === null ? '—' : `${(loss * 100).toFixed(1)}%`
+const formatHour = (hour: HourlyCoverage | null) =>
+  hour === null ? '—' : `${String(hour.hour).padStart(2, '0')}:00 (${formatRssi(hour.medianRssi)}, ${formatLoss(hour.packetLoss)} loss)`
+
+const QualityBadge = ({ quality }: { quality: CoverageQuality }) => (
+  <Badge variant={QUALITY_VARIANTS[quality]}>{QUALITY_LABELS[quality]}</Badge>
+)
+
+const StatsCells = ({ stats, worstHour }: { stats: CoverageStats; worstHour: HourlyCoverage | null }) => (
+  <>
+    <TableCell>{formatRssi(stats.medianRssi)}</TableCell>
+    <TableCell>{formatLoss(stats.packetLoss)}</TableCell>
+    <TableCell>{formatHour(worstHour)}</TableCell>
+    <TableCell><QualityBadge quality={stats.quality} /></TableCell>
+  </>
+)
+
+export function CoverageReport() {
+  const [report, setReport] = useState<CoverageReportData | null>(null)
+  const [days, setDays] = useState('7')
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/devices/coverage?days=${days}`)
+      if (response.ok) {
+        setReport(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading coverage report:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(period => (
+              <SelectItem key={period} value={String(period)}>
+                Last {period === 1 ? '24 hours' : `${period} days`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={loadReport} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {report && report.recommendations.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2">
+          {report.recommendations.map(recommendation => (
+            <Card key={recommendation.deck} className="border-destructive/50">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <RadioTower className="h-4 w-4" />
+                  {recommendation.existingRepeater
+                    ? `Check repeater ${recommendation.existingRepeater} at ${recommendation.locationName}`
+                    : `Add a repeater near ${recommendation.locationName}`}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                <p>
+                  {recommendation.deck}: {REASON_LABELS[recommendation.reason]} ({formatRssi(recommendation.medianRssi)} median, {formatLoss(recommendation.packetLoss)} loss).
+                </p>
+                {recommendation.affectedLocations.length > 1 && (
+                  <p className="text-muted-foreground">
+                    Would also help: {recommendation.affectedLocations.filter(name => name !== recommendation.locationName).join(', ')}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Deck / Location</TableHead>
+            <TableHead>Devices</TableHead>
+            <TableHead>Median RSSI</TableHead>
+            <TableHead>Packet Loss</TableHead>
+            <TableHead>Worst Hour</TableHead>
+            <TableHead>Quality</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {!report || report.decks.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center text-muted-foreground">
+                {isLoading ? 'Loading coverage…' : 'No locations configured.'}
+              </TableCell>
+            </TableRow>
+          ) : report.decks.map(deck => (
+            <Fragment key={deck.deck}>
+              <TableRow className="bg-muted/50 font-medium">
+                <TableCell>
+                  {deck.deck}
+                  {deck.repeaters.length > 0 && (
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">
+                      Repeaters: {deck.repeaters.map(repeater => repeater.coverageArea
+                        ? `${repeater.name || repeater.uid} (${repeater.coverageArea})`
+                        : repeater.name || repeater.uid).join(', ')}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell>{deck.locations.reduce((sum, location) => sum + location.devices, 0)}</TableCell>
+                <StatsCells stats={deck} worstHour={deck.worstHour} />
+              </TableRow>
+              {deck.locations.map(location => (
+                <TableRow key={location.locationId}>
+                  <TableCell className="pl-8">{location.name}</TableCell>
+                  <TableCell>{location.devices}</TableCell>
+                  <StatsCells stats={location} worstHour={location.worstHour} />
+                </TableRow>
+              ))}
+            </Fragment>
+          ))}
+        </TableBody>
+      </Table>
+      {report && (
+        <p className="text-xs text-muted-foreground">
+          Poor below {report.thresholds.poorRssi} dBm or {formatLoss(report.thresholds.poorLoss)} missed heartbeats, fair below {report.thresholds.fairRssi} dBm or {formatLoss(report.thresholds.fairLoss)}. Hours are server time.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -4,12 +4,17 @@ import * as React from "react"
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
 import { Card, CardContent } from "@/components/ui/card"
 import { ButtonsList } from "./buttons-list"
+import { ButtonRules } from "./button-rules"
 import { SmartWatchesList } from "./smart-watches-list"
 import { RepeatersList } from "./repeaters-list"
 import { ServerDashboard } from "./server-dashboard"
 import { ServerSettings } from "./server-settings"
 import { ServerLogs } from "./server-logs"
 import { ServerActions } from "./server-actions"
+import { FirmwareManager } from "./firmware-manager"
+import { NetworkMap } from "./network-map"
+import { CoverageReport } from "./coverage-report"
+import { BatteryPlanning } from "./battery-planning"
 
 type DeviceManagerTabsProps = {
   className?: string
@@ -18,10 +23,13 @@ type DeviceManagerTabsProps = {
 export function DeviceManagerTabs({ className }: DeviceManagerTabsProps) {
   return (
     <Tabs defaultValue="buttons" className={className}>
-      <TabsList className="grid w-full grid-cols-4 mb-6">
+      <TabsList className="grid w-full grid-cols-7 mb-6">
         <TabsTrigger value="buttons">Buttons</TabsTrigger>
         <TabsTrigger value="smartwatches">Smart Watches</TabsTrigger>
         <TabsTrigger value="repeaters">Repeaters</TabsTrigger>
+        <TabsTrigger value="network">Network</TabsTrigger>
+        <TabsTrigger value="battery">Battery</TabsTrigger>
+        <TabsTrigger value="firmware">Firmware</TabsTrigger>
         <TabsTrigger value="server">Server</TabsTrigger>
       </TabsList>
       
@@ -36,6 +44,9 @@ export function DeviceManagerTabs({ className }: DeviceManagerTabsProps) {
               </p>
             </div>
             <ButtonsList />
+            <div className="mt-8">
+              <ButtonRules />
+            </div>
           </CardContent>
         </Card>
       </TabsContent>
@@ -70,6 +81,55 @@ export function DeviceManagerTabs({ className }: DeviceManagerTabsProps) {
         </Card>
       </TabsContent>
 
+      {/* Network Tab Content */}
+      <TabsContent value="network">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex flex-col space-y-4 mb-6">
+              <h2 className="text-2xl font-bold tracking-tight">Network</h2>
+              <p className="text-muted-foreground">
+                Live map of the LoRa mesh per deck, built from repeater reports, with weak links, single points of failure and orphaned buttons highlighted.
+              </p>
+            </div>
+            <NetworkMap />
+            <div className="mt-8">
+              <h3 className="text-xl font-semibold mb-4">Coverage</h3>
+              <CoverageReport />
+            </div>
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      {/* Battery Tab Content */}
+      <TabsContent value="battery">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex flex-col space-y-4 mb-6">
+              <h2 className="text-2xl font-bold tracking-tight">Battery</h2>
+              <p className="text-muted-foreground">
+                Plan battery replacements from each device&apos;s discharge history, projected against the next charter, and spot devices that drain abnormally fast.
+              </p>
+            </div>
+            <BatteryPlanning />
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      {/* Firmware Tab Content */}
+      <TabsContent value="firmware">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex flex-col space-y-4 mb-6">
+              <h2 className="text-2xl font-bold tracking-tight">Firmware</h2>
+              <p className="text-muted-foreground">
+                Upload firmware images and roll them out over the air in stages, with automatic pause when too many devices fail to update.
+              </p>
+            </div>
+            <FirmwareManager />
+          </CardContent>
+        </Card>
+      </TabsContent>
+
       {/* Server Tab Content */}
       <TabsContent value="server">
         <Card>
@@ -0,0 +1,560 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from '@/components/ui/use-toast'
+import { ChevronDown, ChevronRight, Pause, Play, Plus, RefreshCw, Upload, X } from 'lucide-react'
+import { useFirmwareUpdateEvents } from '@/hooks/useEventSource'
+import type { FirmwareUpdateEvent } from '@/lib/sseEmitter'
+
+interface FirmwareRelease {
+  id: number
+  version: string
+  model: string
+  deviceType: string
+  fileName: string
+  size: number
+  checksum: string
+  releaseNotes: string | null
+  createdAt: string
+}
+
+type UpdateCounts = Record<'pending' | 'offered' | 'downloading' | 'installing' | 'succeeded' | 'failed' | 'cancelled' | 'total', number>
+
+interface FirmwareCampaign {
+  id: number
+  name: string
+  status: string
+  stages: number[]
+  currentStage: number
+  failureThreshold: number
+  pausedReason: string | null
+  createdAt: string
+  release: { id: number; version: string; model: string; deviceType: string }
+  counts: UpdateCounts
+}
+
+interface DeviceUpdate {
+  id: number
+  status: string
+  progress: number
+  fromVersion: string | null
+  error: string | null
+  updatedAt: string
+  device: { id: number; uid: string; name: string | null; room: string; firmwareVersion: string | null }
+}
+
+const DEVICE_TYPE_LABELS: Record<string, string> = {
+  BUTTON: 'Button',
+  SMART_WATCH: 'Smart Watch',
+  REPEATER: 'Repeater',
+}
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  running: 'default',
+  succeeded: 'default',
+  paused: 'destructive',
+  failed: 'destructive',
+  completed: 'secondary',
+  cancelled: 'outline',
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`
+
+const StatusBadge = ({ status }: { status: string }) => (
+  <Badge variant={STATUS_VARIANTS[status] || 'outline'} className="capitalize">{status}</Badge>
+)
+
+export function FirmwareManager() {
+  const [releases, setReleases] = useState<FirmwareRelease[]>([])
+  const [campaigns, setCampaigns] = useState<FirmwareCampaign[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+  const [deviceUpdates, setDeviceUpdates] = useState<DeviceUpdate[]>([])
+  const [uploadOpen, setUploadOpen] = useState(false)
+  const [campaignOpen, setCampaignOpen] = useState(false)
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const [releasesResponse, campaignsResponse] = await Promise.all([
+        fetch('/api/firmware'),
+        fetch('/api/firmware/campaigns'),
+      ])
+      if (releasesResponse.ok) {
+        setReleases((await releasesResponse.json()).releases)
+      }
+      if (campaignsResponse.ok) {
+        setCampaigns((await campaignsResponse.json()).campaigns)
+      }
+    } catch (error) {
+      console.error('Error loading firmware data:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const loadCampaignDevices = useCallback(async (campaignId: number) => {
+    try {
+      const response = await fetch(`/api/firmware/campaigns/${campaignId}`)
+      if (response.ok) {
+        setDeviceUpdates((await response.json()).updates)
+      }
+    } catch (error) {
+      console.error('Error loading campaign devices:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  useEffect(() => {
+    if (expandedId !== null) {
+      loadCampaignDevices(expandedId)
+    }
+  }, [expandedId, loadCampaignDevices])
+
+  // Napredak ažuriranja stiže preko SSE - osvežavamo red uređaja i brojače kampanje
+  const handleFirmwareUpdate = useCallback((event: FirmwareUpdateEvent) => {
+    setDeviceUpdates(prev => prev.map(update =>
+      update.device.id === event.deviceId && event.campaignId === expandedId
+        ? { ...update, status: event.status, progress: event.progress, error: event.error }
+        : update
+    ))
+    if (event.status === 'succeeded' || event.status === 'failed') {
+      loadData()
+    }
+  }, [expandedId, loadData])
+
+  useFirmwareUpdateEvents(handleFirmwareUpdate)
+
+  const changeCampaign = async (campaign: FirmwareCampaign, action: 'start' | 'pause' | 'resume' | 'cancel') => {
+    try {
+      const response = await fetch(`/api/firmware/campaigns/${campaign.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      toast({ title: 'Campaign updated', description: `${campaign.name} is now ${data.status}.` })
+      loadData()
+    } catch (error) {
+      toast({
+        title: 'Could not update campaign',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={loadData} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Firmware registry */}
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold">Firmware Registry</h3>
+          <Button size="sm" onClick={() => setUploadOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Upload Firmware
+          </Button>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Version</TableHead>
+              <TableHead>Model</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Size</TableHead>
+              <TableHead>SHA-256</TableHead>
+              <TableHead>Release Notes</TableHead>
+              <TableHead>Uploaded</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {releases.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No firmware uploaded yet.
+                </TableCell>
+              </TableRow>
+            ) : releases.map(release => (
+              <TableRow key={release.id}>
+                <TableCell className="font-medium">{release.version}</TableCell>
+                <TableCell>{release.model}</TableCell>
+                <TableCell>{DEVICE_TYPE_LABELS[release.deviceType] || release.deviceType}</TableCell>
+                <TableCell>{formatSize(release.size)}</TableCell>
+                <TableCell className="font-mono text-xs" title={release.checksum}>{release.checksum.slice(0, 12)}…</TableCell>
+                <TableCell className="max-w-xs truncate" title={release.releaseNotes || ''}>{release.releaseNotes || '—'}</TableCell>
+                <TableCell>{formatDistanceToNow(new Date(release.createdAt), { addSuffix: true })}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* OTA campaigns */}
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold">Update Campaigns</h3>
+          <Button size="sm" onClick={() => setCampaignOpen(true)} disabled={releases.length === 0}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Campaign
+          </Button>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Campaign</TableHead>
+              <TableHead>Firmware</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Stage</TableHead>
+              <TableHead>Devices</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {campaigns.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No update campaigns.
+                </TableCell>
+              </TableRow>
+            ) : campaigns.map(campaign => (
+              <CampaignRows
+                key={campaign.id}
+                campaign={campaign}
+                expanded={expandedId === campaign.id}
+                deviceUpdates={expandedId === campaign.id ? deviceUpdates : []}
+                onToggle={() => setExpandedId(expandedId === campaign.id ? null : campaign.id)}
+                onAction={action => changeCampaign(campaign, action)}
+              />
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <UploadFirmwareDialog open={uploadOpen} onOpenChange={setUploadOpen} onUploaded={loadData} />
+      <NewCampaignDialog open={campaignOpen} onOpenChange={setCampaignOpen} releases={releases} onCreated={loadData} />
+    </div>
+  )
+}
+
+function CampaignRows({
+  campaign,
+  expanded,
+  deviceUpdates,
+  onToggle,
+  onAction,
+}: {
+  campaign: FirmwareCampaign
+  expanded: boolean
+  deviceUpdates: DeviceUpdate[]
+  onToggle: () => void
+  onAction: (action: 'start' | 'pause' | 'resume' | 'cancel') => void
+}) {
+  const { counts } = campaign
+  const done = counts.succeeded + counts.failed
+
+  return (
+    <>
+      <TableRow className="cursor-pointer" onClick={onToggle}>
+        <TableCell>{expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}</TableCell>
+        <TableCell className="font-medium">{campaign.name}</TableCell>
+        <TableCell>{campaign.release.model} {campaign.release.version}</TableCell>
+        <TableCell>
+          <StatusBadge status={campaign.status} />
+          {campaign.pausedReason && (
+            <div className="text-xs text-muted-foreground mt-1">{campaign.pausedReason}</div>
+          )}
+        </TableCell>
+        <TableCell>
+          {campaign.currentStage + 1}/{campaign.stages.length} ({campaign.stages[campaign.currentStage]}%)
+        </TableCell>
+        <TableCell className="min-w-[10rem]">
+          <Progress value={counts.total ? (done / counts.total) * 100 : 0} className="h-2" />
+          <div className="text-xs text-muted-foreground mt-1">
+            {counts.succeeded} ok · {counts.failed} failed · {counts.total} total
+          </div>
+        </TableCell>
+        <TableCell className="text-right space-x-1" onClick={event => event.stopPropagation()}>
+          {campaign.status === 'draft' && (
+            <Button size="sm" variant="outline" onClick={() => onAction('start')}><Play className="h-4 w-4" /></Button>
+          )}
+          {campaign.status === 'running' && (
+            <Button size="sm" variant="outline" onClick={() => onAction('pause')}><Pause className="h-4 w-4" /></Button>
+          )}
+          {campaign.status === 'paused' && (
+            <Button size="sm" variant="outline" onClick={() => onAction('resume')}><Play className="h-4 w-4" /></Button>
+          )}
+          {['draft', 'running', 'paused'].includes(campaign.status) && (
+            <Button size="sm" variant="outline" onClick={() => onAction('cancel')}><X className="h-4 w-4" /></Button>
+          )}
+        </TableCell>
+      </TableRow>
+      {expanded && (
+        <TableRow>
+          <TableCell colSpan={7} className="bg-muted/30">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Device</TableHead>
+                  <TableHead>Room</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deviceUpdates.map(update => (
+                  <TableRow key={update.id}>
+                    <TableCell>{update.device.name || update.device.uid}</TableCell>
+                    <TableCell>{update.device.room}</TableCell>
+                    <TableCell>{update.device.firmwareVersion || update.fromVersion || '—'}</TableCell>
+                    <TableCell><StatusBadge status={update.status} /></TableCell>
+                    <TableCell className="min-w-[8rem]"><Progress value={update.progress} className="h-2" /></TableCell>
+                    <TableCell className="text-xs text-red-600">{update.error || ''}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableCell>
+        </TableRow>
+      )}
+    </>
+  )
+}
+
+function UploadFirmwareDialog({
+  open,
+  onOpenChange,
+  onUploaded,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onUploaded: () => void
+}) {
+  const [file, setFile] = useState<File | null>(null)
+  const [version, setVersion] = useState('')
+  const [model, setModel] = useState('')
+  const [deviceType, setDeviceType] = useState('BUTTON')
+  const [checksum, setChecksum] = useState('')
+  const [releaseNotes, setReleaseNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const upload = async () => {
+    if (!file) return
+
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('version', version)
+    formData.append('model', model)
+    formData.append('deviceType', deviceType)
+    formData.append('checksum', checksum)
+    formData.append('releaseNotes', releaseNotes)
+
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/firmware', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      toast({ title: 'Firmware uploaded', description: `${data.model} ${data.version}` })
+      onOpenChange(false)
+      onUploaded()
+    } catch (error) {
+      toast({
+        title: 'Upload failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Upload Firmware</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="firmware-file">Binary</Label>
+            <Input id="firmware-file" type="file" accept=".bin" onChange={event => setFile(event.target.files?.[0] || null)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="firmware-version">Version</Label>
+              <Input id="firmware-version" value={version} onChange={event => setVersion(event.target.value)} placeholder="2.1.0" />
+            </div>
+            <div className="space-y-2">
+              <Label>Device Type</Label>
+              <Select value={deviceType} onValueChange={setDeviceType}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DEVICE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="firmware-model">Target Model</Label>
+            <Input id="firmware-model" value={model} onChange={event => setModel(event.target.value)} placeholder="OBEDIO-BTN-V3" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="firmware-checksum">SHA-256 (optional)</Label>
+            <Input id="firmware-checksum" value={checksum} onChange={event => setChecksum(event.target.value)} className="font-mono text-xs" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="firmware-notes">Release Notes</Label>
+            <Textarea id="firmware-notes" value={releaseNotes} onChange={event => setReleaseNotes(event.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={upload} disabled={!file || !version || !model || isSaving}>
+            {isSaving ? 'Uploading…' : 'Upload'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function NewCampaignDialog({
+  open,
+  onOpenChange,
+  releases,
+  onCreated,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  releases: FirmwareRelease[]
+  onCreated: () => void
+}) {
+  const [name, setName] = useState('')
+  const [releaseId, setReleaseId] = useState('')
+  const [stages, setStages] = useState('10, 50, 100')
+  const [failureThreshold, setFailureThreshold] = useState('20')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const create = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/firmware/campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          releaseId: parseInt(releaseId),
+          stages: stages.split(',').map(stage => parseInt(stage.trim())).filter(stage => !isNaN(stage)),
+          failureThreshold: parseInt(failureThreshold),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      toast({ title: 'Campaign created', description: `${data.updates.length} devices need this update.` })
+      onOpenChange(false)
+      onCreated()
+    } catch (error) {
+      toast({
+        title: 'Could not create campaign',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Update Campaign</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="campaign-name">Name</Label>
+            <Input id="campaign-name" value={name} onChange={event => setName(event.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Firmware</Label>
+            <Select value={releaseId} onValueChange={setReleaseId}>
+              <SelectTrigger><SelectValue placeholder="Select firmware" /></SelectTrigger>
+              <SelectContent>
+                {releases.map(release => (
+                  <SelectItem key={release.id} value={release.id.toString()}>
+                    {release.model} {release.version}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="campaign-stages">Rollout Stages (%)</Label>
+              <Input id="campaign-stages" value={stages} onChange={event => setStages(event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-threshold">Pause at Failure Rate (%)</Label>
+              <Input id="campaign-threshold" type="number" min={1} max={100} value={failureThreshold} onChange={event => setFailureThreshold(event.target.value)} />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={create} disabled={!name || !releaseId || isSaving}>
+            {isSaving ? 'Creating…' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
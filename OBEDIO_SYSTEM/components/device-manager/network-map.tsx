@@ -0,0 +1,351 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { RefreshCw } from 'lucide-react'
+import type { NetworkTopology, TopologyLink, TopologyNode } from '@/lib/services/topology-service'
+
+const REFRESH_INTERVAL_MS = 30000
+const MAP_WIDTH = 960
+const ROW_HEIGHT = 110
+const PADDING = 50
+
+const TYPE_LABELS: Record<string, string> = {
+  gateway: 'Server',
+  repeater: 'Repeater',
+  button: 'Button',
+  watch: 'Smart Watch',
+  sensor: 'Sensor',
+  generic: 'Unknown device',
+}
+
+const nodeLabel = (node: TopologyNode) => node.name || node.uid
+
+const formatLink = (link: TopologyLink) => {
+  const parts = [
+    link.rssi !== null ? `${link.rssi} dBm` : null,
+    link.snr !== null ? `SNR ${link.snr} dB` : null,
+    link.hopCount !== null ? `${link.hopCount} hop${link.hopCount === 1 ? '' : 's'}` : null,
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(' · ') : 'no signal data'
+}
+
+const linkClass = (link: TopologyLink) =>
+  link.stale ? 'stroke-muted-foreground' : link.weak ? 'stroke-red-500' : 'stroke-green-500'
+
+const nodeClass = (node: TopologyNode) => {
+  if (node.orphaned || (!node.reachable && node.type !== 'gateway')) return 'fill-red-500'
+  if (node.type === 'gateway') return 'fill-slate-700'
+  if (node.type === 'repeater') return 'fill-blue-500'
+  return node.registered ? 'fill-slate-400' : 'fill-slate-200'
+}
+
+/**
+ * Čvorovi izabrane palube, repetitori sa drugih paluba preko kojih su povezani i server
+ */
+function visibleGraph(topology: NetworkTopology, deck: string) {
+  if (deck === 'all') {
+    return { nodes: topology.nodes, links: topology.links }
+  }
+
+  const onDeck = new Set(topology.nodes.filter(node => node.deck === deck).map(node => node.uid))
+  const visible = new Set(onDeck)
+  for (const link of topology.links) {
+    if (onDeck.has(link.source)) visible.add(link.target)
+    if (onDeck.has(link.target)) visible.add(link.source)
+  }
+  // Put do servera ostaje vidljiv kroz repetitore na drugim palubama
+  for (const node of topology.nodes) {
+    if (node.type === 'gateway') visible.add(node.uid)
+  }
+
+  return {
+    nodes: topology.nodes.filter(node => visible.has(node.uid)),
+    links: topology.links.filter(link => visible.has(link.source) && visible.has(link.target)),
+  }
+}
+
+/**
+ * Raspored po redovima: server, repetitori po broju skokova, pa krajnji uređaji ispod svojih repetitora
+ */
+function layout(nodes: TopologyNode[], links: TopologyLink[]) {
+  const repeaterRows = new Map<number, TopologyNode[]>()
+  const devices: TopologyNode[] = []
+  let gateway: TopologyNode | null = null
+
+  for (const node of nodes) {
+    if (node.type === 'gateway') {
+      gateway = node
+    } else if (node.type === 'repeater') {
+      // Nedostupni repetitori idu u poslednji red repetitora
+      const row = node.hops ?? Number.MAX_SAFE_INTEGER
+      repeaterRows.set(row, [...(repeaterRows.get(row) ?? []), node])
+    } else {
+      devices.push(node)
+    }
+  }
+
+  const rows: TopologyNode[][] = []
+  if (gateway) rows.push([gateway])
+  Array.from(repeaterRows.keys()).sort((a, b) => a - b).forEach(row => {
+    rows.push(repeaterRows.get(row)!.sort((a, b) => a.uid.localeCompare(b.uid)))
+  })
+
+  const repeaterOrder = new Map(rows.flat().map((node, index) => [node.uid, index]))
+  const parentIndex = (device: TopologyNode) => {
+    const indexes = links
+      .filter(link => link.target === device.uid && !link.stale)
+      .map(link => repeaterOrder.get(link.source) ?? Number.MAX_SAFE_INTEGER)
+    return indexes.length > 0 ? Math.min(...indexes) : Number.MAX_SAFE_INTEGER
+  }
+  if (devices.length > 0) {
+    rows.push(devices.sort((a, b) => parentIndex(a) - parentIndex(b) || a.uid.localeCompare(b.uid)))
+  }
+
+  const positions = new Map<string, { x: number; y: number }>()
+  rows.forEach((row, rowIndex) => {
+    const step = (MAP_WIDTH - 2 * PADDING) / row.length
+    row.forEach((node, index) => {
+      positions.set(node.uid, { x: PADDING + step * (index + 0.5), y: PADDING + rowIndex * ROW_HEIGHT })
+    })
+  })
+
+  return { positions, height: PADDING * 2 + Math.max(rows.length - 1, 0) * ROW_HEIGHT }
+}
+
+export function NetworkMap() {
+  const [topology, setTopology] = useState<NetworkTopology | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [deck, setDeck] = useState('all')
+  const [selectedUid, setSelectedUid] = useState<string | null>(null)
+
+  const loadTopology = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/devices/topology')
+      if (response.ok) {
+        setTopology(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading network topology:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadTopology()
+    const timer = setInterval(loadTopology, REFRESH_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [loadTopology])
+
+  const graph = useMemo(() => topology ? visibleGraph(topology, deck) : { nodes: [], links: [] }, [topology, deck])
+  const { positions, height } = useMemo(() => layout(graph.nodes, graph.links), [graph])
+  const nodesByUid = useMemo(() => new Map((topology?.nodes ?? []).map(node => [node.uid, node])), [topology])
+
+  const selected = selectedUid ? nodesByUid.get(selectedUid) ?? null : null
+  const selectedLinks = selected
+    ? (topology?.links ?? []).filter(link => link.source === selected.uid || link.target === selected.uid)
+    : []
+
+  const weakLinks = graph.links.filter(link => link.weak)
+  const criticalRepeaters = graph.nodes.filter(node => node.singlePointOfFailure)
+  const orphans = graph.nodes.filter(node => node.orphaned)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Select value={deck} onValueChange={value => { setDeck(value); setSelectedUid(null) }}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Deck" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All decks</SelectItem>
+              {(topology?.decks ?? []).map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Badge variant="outline">{graph.nodes.filter(node => node.type === 'repeater').length} repeaters</Badge>
+          <Badge variant="outline">{graph.nodes.filter(node => node.type !== 'repeater' && node.type !== 'gateway').length} devices</Badge>
+          <Badge variant={weakLinks.length > 0 ? 'destructive' : 'secondary'}>{weakLinks.length} weak links</Badge>
+          <Badge variant={criticalRepeaters.length > 0 ? 'destructive' : 'secondary'}>{criticalRepeaters.length} single points of failure</Badge>
+          <Badge variant={orphans.length > 0 ? 'destructive' : 'secondary'}>{orphans.length} orphaned buttons</Badge>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadTopology} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+        <div className="rounded-md border bg-muted/20 overflow-x-auto">
+          {graph.nodes.length <= 1 ? (
+            <p className="p-8 text-center text-muted-foreground">
+              {isLoading ? 'Loading network…' : 'No repeater has reported its mesh links yet.'}
+            </p>
+          ) : (
+            <svg viewBox={`0 0 ${MAP_WIDTH} ${height}`} className="w-full min-w-[640px]" role="img" aria-label="LoRa network map">
+              {graph.links.map(link => {
+                const from = positions.get(link.source)
+                const to = positions.get(link.target)
+                if (!from || !to) return null
+                const highlighted = selectedUid === link.source || selectedUid === link.target
+                return (
+                  <line
+                    key={`${link.source}-${link.target}`}
+                    x1={from.x}
+                    y1={from.y}
+                    x2={to.x}
+                    y2={to.y}
+                    className={linkClass(link)}
+                    strokeWidth={highlighted ? 4 : 2}
+                    strokeDasharray={link.stale || link.kind === 'neighbor' ? '6 4' : undefined}
+                    opacity={selectedUid && !highlighted ? 0.25 : 1}
+                  >
+                    <title>{`${link.source} → ${link.target}: ${formatLink(link)}${link.stale ? ' (stale)' : ''}`}</title>
+                  </line>
+                )
+              })}
+              {graph.nodes.map(node => {
+                const position = positions.get(node.uid)
+                if (!position) return null
+                const radius = node.type === 'gateway' ? 18 : node.type === 'repeater' ? 14 : 9
+                const offDeck = deck !== 'all' && node.type !== 'gateway' && node.deck !== deck
+                return (
+                  <g
+                    key={node.uid}
+                    transform={`translate(${position.x}, ${position.y})`}
+                    className="cursor-pointer"
+                    opacity={offDeck ? 0.5 : 1}
+                    onClick={() => setSelectedUid(node.uid === selectedUid ? null : node.uid)}
+                  >
+                    <title>{`${nodeLabel(node)} (${TYPE_LABELS[node.type] || node.type})`}</title>
+                    {node.singlePointOfFailure && (
+                      <circle r={radius + 6} className="fill-none stroke-orange-500" strokeWidth={3} />
+                    )}
+                    <circle
+                      r={radius}
+                      className={`${nodeClass(node)} ${node.uid === selectedUid ? 'stroke-foreground' : 'stroke-background'}`}
+                      strokeWidth={2}
+                    />
+                    <text y={radius + 14} textAnchor="middle" className="fill-foreground text-[11px]">
+                      {nodeLabel(node).length > 16 ? `${nodeLabel(node).slice(0, 15)}…` : nodeLabel(node)}
+                    </text>
+                  </g>
+                )
+              })}
+            </svg>
+          )}
+          <div className="flex flex-wrap gap-4 border-t px-4 py-2 text-xs text-muted-foreground">
+            <span><span className="inline-block h-2 w-4 bg-green-500 align-middle" /> Good link</span>
+            <span><span className="inline-block h-2 w-4 bg-red-500 align-middle" /> Weak link (below {topology?.thresholds.weakRssi ?? -100} dBm or SNR {topology?.thresholds.weakSnr ?? -5} dB)</span>
+            <span>Dashed: stale link or repeater neighbor</span>
+            <span><span className="inline-block h-3 w-3 rounded-full border-2 border-orange-500 align-middle" /> Single point of failure</span>
+            <span><span className="inline-block h-3 w-3 rounded-full bg-red-500 align-middle" /> No path to server</span>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{selected ? nodeLabel(selected) : 'Node details'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {!selected ? (
+              <p className="text-muted-foreground">Select a repeater or device on the map to see its links.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{TYPE_LABELS[selected.type] || selected.type}</Badge>
+                  {!selected.registered && selected.type !== 'gateway' && <Badge variant="secondary">Not registered</Badge>}
+                  {selected.singlePointOfFailure && <Badge variant="destructive">Single point of failure</Badge>}
+                  {selected.orphaned && <Badge variant="destructive">Orphaned</Badge>}
+                </div>
+                <div className="grid grid-cols-2 gap-1">
+                  <span className="text-muted-foreground">UID</span>
+                  <span className="font-mono text-xs break-all">{selected.uid}</span>
+                  <span className="text-muted-foreground">Location</span>
+                  <span>{selected.location ? `${selected.location} (${selected.deck})` : '—'}</span>
+                  <span className="text-muted-foreground">Hops to server</span>
+                  <span>{selected.hops ?? 'No path'}</span>
+                  <span className="text-muted-foreground">Last seen</span>
+                  <span>{selected.lastSeen ? formatDistanceToNow(new Date(selected.lastSeen), { addSuffix: true }) : '—'}</span>
+                </div>
+                {selectedLinks.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="font-medium">Links</p>
+                    {selectedLinks.map(link => {
+                      const peer = link.source === selected.uid ? link.target : link.source
+                      return (
+                        <div key={`${link.source}-${link.target}`} className="flex justify-between gap-2">
+                          <button type="button" className="truncate text-left hover:underline" onClick={() => setSelectedUid(peer)}>
+                            {nodesByUid.get(peer) ? nodeLabel(nodesByUid.get(peer)!) : peer}
+                          </button>
+                          <span className={link.weak ? 'text-red-500' : link.stale ? 'text-muted-foreground' : ''}>
+                            {link.stale ? 'stale' : formatLink(link)}
+                          </span>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+                {selected.dependents.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="font-medium">Loses connection if this repeater fails</p>
+                    <p className="text-muted-foreground">
+                      {selected.dependents.map(uid => nodesByUid.get(uid) ? nodeLabel(nodesByUid.get(uid)!) : uid).join(', ')}
+                    </p>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {(weakLinks.length > 0 || criticalRepeaters.length > 0 || orphans.length > 0) && (
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader><CardTitle className="text-base">Weak Links</CardTitle></CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              {weakLinks.length === 0 ? <p className="text-muted-foreground">None</p> : weakLinks.map(link => (
+                <p key={`${link.source}-${link.target}`}>
+                  {link.source} → {link.target}: <span className="text-red-500">{formatLink(link)}</span>
+                </p>
+              ))}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader><CardTitle className="text-base">Single Points of Failure</CardTitle></CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              {criticalRepeaters.length === 0 ? <p className="text-muted-foreground">None</p> : criticalRepeaters.map(node => (
+                <p key={node.uid}>
+                  {nodeLabel(node)}: {node.dependents.length} device{node.dependents.length === 1 ? '' : 's'} depend on it
+                </p>
+              ))}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader><CardTitle className="text-base">Orphaned Buttons</CardTitle></CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              {orphans.length === 0 ? <p className="text-muted-foreground">None</p> : orphans.map(node => (
+                <p key={node.uid}>{nodeLabel(node)}{node.location ? ` — ${node.location}` : ''}</p>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -11,6 +11,29 @@ import { Button } from "@/components/ui/button"
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
 import { Separator } from "@/components/ui/separator"
 import { Badge } from "@/components/ui/badge"
+import { toast } from "@/components/ui/use-toast"
+import type { ConfigState, DeviceConfig, DeviceConfigPatch, LoraConfig } from "@/lib/services/device-config-service"
+import type { VoiceSettings } from "@/lib/services/voice-service"
+import type { TranslationSettings } from "@/lib/services/translation-service"
+
+interface TypeProfile {
+  deviceType: string
+  profile: { version: number; config: DeviceConfigPatch; createdAt: string } | null
+  config: DeviceConfig
+  devices: Record<ConfigState, number>
+}
+
+interface EngineInfo {
+  name: string
+  description: string
+  available: boolean
+}
+
+const DEVICE_TYPE_LABELS: Record<string, string> = {
+  BUTTON: "Buttons",
+  SMART_WATCH: "Smart Watches",
+  REPEATER: "Repeaters",
+}
 
 export function ServerSettings() {
   return (
@@ -29,55 +52,7 @@ export function ServerSettings() {
         {/* Network Settings */}
         <TabsContent value="network" className="space-y-6">
           {/* LoRa Settings */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center justify-between">
-                LoRa Network Settings
-                <Badge variant="outline">Advanced</Badge>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="frequency">Frequency (MHz)</Label>
-                  <Input id="frequency" defaultValue="915.0" />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="spreading-factor">Spreading Factor</Label>
-                  <Input id="spreading-factor" defaultValue="7" />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="bandwidth">Bandwidth (kHz)</Label>
-                  <Input id="bandwidth" defaultValue="125" />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="coding-rate">Coding Rate</Label>
-                  <Input id="coding-rate" defaultValue="5" />
-                </div>
-              </div>
-              
-              <Separator />
-              
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="adaptive-data-rate">Adaptive Data Rate</Label>
-                  <Switch id="adaptive-data-rate" defaultChecked />
-                </div>
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="channel-hopping">Channel Hopping</Label>
-                  <Switch id="channel-hopping" defaultChecked />
-                </div>
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="extended-range">Extended Range Mode</Label>
-                  <Switch id="extended-range" />
-                </div>
-              </div>
-              
-              <Separator />
-              
-              <Button>Save LoRa Settings</Button>
-            </CardContent>
-          </Card>
+          <LoraSettings />
 
           {/* Wi-Fi Settings */}
           <Card>
@@ -320,48 +295,8 @@ export function ServerSettings() {
 
         {/* Voice Processing Settings */}
         <TabsContent value="voice" className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>Voice Processing</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label>Voice Recognition Engine</Label>
-                <RadioGroup defaultValue="local-ai" className="flex flex-col space-y-1">
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="local-ai" id="local-ai" />
-                    <Label htmlFor="local-ai">Local AI Engine</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="cloud-api" id="cloud-api" />
-                    <Label htmlFor="cloud-api">Cloud API Service</Label>
-                  </div>
-                </RadioGroup>
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="language-primary">Primary Language</Label>
-                <Input id="language-primary" defaultValue="English (US)" />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="language-secondary">Secondary Languages (comma separated)</Label>
-                <Input id="language-secondary" defaultValue="Spanish, French, German" />
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <Label htmlFor="noise-reduction">Noise Reduction</Label>
-                <Switch id="noise-reduction" defaultChecked />
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <Label htmlFor="speaker-identification">Speaker Identification</Label>
-                <Switch id="speaker-identification" defaultChecked />
-              </div>
-              
-              <Button>Save Voice Settings</Button>
-            </CardContent>
-          </Card>
+          <VoiceProcessingSettings />
+          <TranslationSettingsCard />
         </TabsContent>
 
         {/* Other tabs would be implemented similarly */}
@@ -406,4 +341,384 @@ export function ServerSettings() {
       </Tabs>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// LoRa settings are part of the configuration profile of every device type and
+// reach the devices over MQTT (cmd/config)
+function LoraSettings() {
+  const [profiles, setProfiles] = React.useState<TypeProfile[]>([])
+  const [lora, setLora] = React.useState<LoraConfig | null>(null)
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  const loadProfiles = React.useCallback(async () => {
+    try {
+      const response = await fetch("/api/config-profiles")
+      if (!response.ok) {
+        throw new Error("Failed to load configuration profiles")
+      }
+      const data: { profiles: TypeProfile[] } = await response.json()
+      setProfiles(data.profiles)
+      setLora(data.profiles[0]?.config.lora || null)
+    } catch (error) {
+      console.error("Error loading configuration profiles:", error)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    loadProfiles()
+  }, [loadProfiles])
+
+  const updateLora = <K extends keyof LoraConfig>(key: K, value: LoraConfig[K]) => {
+    setLora(prev => (prev ? { ...prev, [key]: value } : prev))
+  }
+
+  const saveLora = async () => {
+    if (!lora) return
+
+    setIsSaving(true)
+    try {
+      for (const profile of profiles) {
+        const response = await fetch(`/api/config-profiles/${profile.deviceType}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            config: { ...profile.profile?.config, lora },
+            notes: "LoRa network settings",
+          }),
+        })
+        if (!response.ok) {
+          const data = await response.json()
+          throw new Error(data.error)
+        }
+      }
+      toast({
+        title: "LoRa settings saved",
+        description: "Devices will receive the new settings within a minute.",
+      })
+      loadProfiles()
+    } catch (error) {
+      toast({
+        title: "Could not save LoRa settings",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const numberInput = (id: string, label: string, key: "frequency" | "spreadingFactor" | "bandwidth" | "codingRate") => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        value={lora?.[key] ?? ""}
+        onChange={(event) => updateLora(key, parseFloat(event.target.value))}
+      />
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          LoRa Network Settings
+          <Badge variant="outline">Advanced</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {numberInput("frequency", "Frequency (MHz)", "frequency")}
+          {numberInput("spreading-factor", "Spreading Factor", "spreadingFactor")}
+          {numberInput("bandwidth", "Bandwidth (kHz)", "bandwidth")}
+          {numberInput("coding-rate", "Coding Rate", "codingRate")}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="adaptive-data-rate">Adaptive Data Rate</Label>
+            <Switch
+              id="adaptive-data-rate"
+              checked={lora?.adaptiveDataRate ?? false}
+              onCheckedChange={(checked) => updateLora("adaptiveDataRate", checked)}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="channel-hopping">Channel Hopping</Label>
+            <Switch
+              id="channel-hopping"
+              checked={lora?.channelHopping ?? false}
+              onCheckedChange={(checked) => updateLora("channelHopping", checked)}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="extended-range">Extended Range Mode</Label>
+            <Switch
+              id="extended-range"
+              checked={lora?.extendedRange ?? false}
+              onCheckedChange={(checked) => updateLora("extendedRange", checked)}
+            />
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Configuration drift per device type */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Device Configuration Status</p>
+          {profiles.map(profile => (
+            <div key={profile.deviceType} className="flex items-center justify-between text-sm">
+              <span>
+                {DEVICE_TYPE_LABELS[profile.deviceType] || profile.deviceType}
+                <span className="text-muted-foreground ml-2">
+                  {profile.profile ? `profile v${profile.profile.version}` : "factory defaults"}
+                </span>
+              </span>
+              <span className="space-x-1">
+                <Badge variant="secondary">{profile.devices.synced} synced</Badge>
+                {profile.devices.pending > 0 && <Badge variant="outline">{profile.devices.pending} pending</Badge>}
+                {profile.devices.drift > 0 && <Badge variant="destructive">{profile.devices.drift} drift</Badge>}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={saveLora} disabled={!lora || isSaving}>
+          {isSaving ? "Saving..." : "Save LoRa Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Voice messages from buttons are transcribed on the server with the selected engine
+function VoiceProcessingSettings() {
+  const [settings, setSettings] = React.useState<VoiceSettings | null>(null)
+  const [engines, setEngines] = React.useState<EngineInfo[]>([])
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  const loadSettings = React.useCallback(async () => {
+    try {
+      const response = await fetch("/api/voice/settings")
+      if (!response.ok) {
+        throw new Error("Failed to load voice settings")
+      }
+      const data: { settings: VoiceSettings; engines: EngineInfo[] } = await response.json()
+      setSettings(data.settings)
+      setEngines(data.engines)
+    } catch (error) {
+      console.error("Error loading voice settings:", error)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    loadSettings()
+  }, [loadSettings])
+
+  const update = <K extends keyof VoiceSettings>(key: K, value: VoiceSettings[K]) => {
+    setSettings(prev => (prev ? { ...prev, [key]: value } : prev))
+  }
+
+  const saveSettings = async () => {
+    if (!settings) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/voice/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error)
+      }
+      toast({
+        title: "Voice settings saved",
+        description: "New voice messages will use these settings.",
+      })
+      loadSettings()
+    } catch (error) {
+      toast({
+        title: "Could not save voice settings",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Voice Processing</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="voice-transcription">Transcribe Voice Messages</Label>
+          <Switch
+            id="voice-transcription"
+            checked={settings?.enabled ?? false}
+            onCheckedChange={(checked) => update("enabled", checked)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Voice Recognition Engine</Label>
+          <RadioGroup
+            value={settings?.engine}
+            onValueChange={(value) => update("engine", value)}
+            className="flex flex-col space-y-1"
+          >
+            {engines.map(engine => (
+              <div key={engine.name} className="flex items-center space-x-2">
+                <RadioGroupItem value={engine.name} id={`engine-${engine.name}`} />
+                <Label htmlFor={`engine-${engine.name}`}>{engine.description}</Label>
+                {!engine.available && <Badge variant="outline">Not installed</Badge>}
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="voice-language">Language (ISO code or auto)</Label>
+            <Input
+              id="voice-language"
+              value={settings?.language ?? ""}
+              onChange={(event) => update("language", event.target.value.trim().toLowerCase())}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="voice-max-duration">Max Duration to Transcribe (s)</Label>
+            <Input
+              id="voice-max-duration"
+              type="number"
+              value={settings?.maxDurationSeconds ?? ""}
+              onChange={(event) => update("maxDurationSeconds", parseInt(event.target.value, 10))}
+            />
+          </div>
+        </div>
+
+        <Button onClick={saveSettings} disabled={!settings || isSaving}>
+          {isSaving ? "Saving..." : "Save Voice Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Guest messages are translated to the language of the assigned crew member,
+// canned crew replies to the language of the guest
+function TranslationSettingsCard() {
+  const [settings, setSettings] = React.useState<TranslationSettings | null>(null)
+  const [translators, setTranslators] = React.useState<EngineInfo[]>([])
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  const loadSettings = React.useCallback(async () => {
+    try {
+      const response = await fetch("/api/translation/settings")
+      if (!response.ok) {
+        throw new Error("Failed to load translation settings")
+      }
+      const data: { settings: TranslationSettings; translators: EngineInfo[] } = await response.json()
+      setSettings(data.settings)
+      setTranslators(data.translators)
+    } catch (error) {
+      console.error("Error loading translation settings:", error)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    loadSettings()
+  }, [loadSettings])
+
+  const update = <K extends keyof TranslationSettings>(key: K, value: TranslationSettings[K]) => {
+    setSettings(prev => (prev ? { ...prev, [key]: value } : prev))
+  }
+
+  const saveSettings = async () => {
+    if (!settings) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/translation/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error)
+      }
+      toast({
+        title: "Translation settings saved",
+        description: "New guest messages and replies will use these settings.",
+      })
+      loadSettings()
+    } catch (error) {
+      toast({
+        title: "Could not save translation settings",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Translation</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="translation-enabled">Translate Guest Messages and Crew Replies</Label>
+          <Switch
+            id="translation-enabled"
+            checked={settings?.enabled ?? false}
+            onCheckedChange={(checked) => update("enabled", checked)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Translator</Label>
+          <RadioGroup
+            value={settings?.engine}
+            onValueChange={(value) => update("engine", value)}
+            className="flex flex-col space-y-1"
+          >
+            {translators.map(translator => (
+              <div key={translator.name} className="flex items-center space-x-2">
+                <RadioGroupItem value={translator.name} id={`translator-${translator.name}`} />
+                <Label htmlFor={`translator-${translator.name}`}>{translator.description}</Label>
+                {!translator.available && <Badge variant="outline">Not available</Badge>}
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="crew-language">Default Crew Language (ISO code)</Label>
+          <Input
+            id="crew-language"
+            value={settings?.crewLanguage ?? ""}
+            onChange={(event) => update("crewLanguage", event.target.value.trim().toLowerCase())}
+          />
+          <p className="text-xs text-muted-foreground">
+            Used for crew members without languages in their profile.
+          </p>
+        </div>
+
+        <Button onClick={saveSettings} disabled={!settings || isSaving}>
+          {isSaving ? "Saving..." : "Save Translation Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
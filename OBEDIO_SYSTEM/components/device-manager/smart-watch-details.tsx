@@ -125,6 +125,7 @@ export function SmartWatchDetails({ smartwatch, isOpen, onClose }: SmartWatchDet
   const [gpsEnabled, setGpsEnabled] = useState(false)
   const [powerSaveMode, setPowerSaveMode] = useState(false)
   const [loadingAssignment, setLoadingAssignment] = useState(false)
+  const [autoAssignPolicy, setAutoAssignPolicy] = useState('auto_dispatch')
   
   // Format dates for display
   const formatDateTime = (dateStr: string) => {
@@ -190,11 +191,60 @@ export function SmartWatchDetails({ smartwatch, isOpen, onClose }: SmartWatchDet
     }
   }
 
+  // Load auto-dispatch policy for this smartwatch
+  const loadAutoAssignPolicy = async () => {
+    try {
+      const response = await fetch(`/api/devices/${smartwatch.id}/auto-assign`)
+      if (!response.ok) {
+        throw new Error('Error loading auto-assign policy')
+      }
+      const data = await response.json()
+      setAutoAssignPolicy(data.policy)
+    } catch (error) {
+      console.error('Error loading auto-assign policy:', error)
+    }
+  }
+
+  // Save auto-dispatch policy - takes effect on the next dispatched request
+  const updateAutoAssignPolicy = async (policy: string) => {
+    const previousPolicy = autoAssignPolicy
+    setAutoAssignPolicy(policy)
+    try {
+      const response = await fetch(`/api/devices/${smartwatch.id}/auto-assign`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ policy }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Error saving auto-assign policy')
+      }
+
+      toast({
+        title: 'Assignment policy updated',
+        description: policy === 'auto_dispatch'
+          ? `${smartwatch.name} will receive automatically dispatched requests.`
+          : `${smartwatch.name} will only receive manually assigned requests.`,
+      })
+    } catch (error) {
+      console.error('Error saving auto-assign policy:', error)
+      setAutoAssignPolicy(previousPolicy)
+      toast({
+        title: 'Error',
+        description: 'Failed to update assignment policy.',
+        variant: 'destructive',
+      })
+    }
+  }
+
   // Load smartwatch configuration data
   useEffect(() => {
     if (isOpen) {
       getActivityHistory()
       loadCrewMembers()
+      loadAutoAssignPolicy()
     }
   }, [isOpen])
 
@@ -793,16 +843,18 @@ export function SmartWatchDetails({ smartwatch, isOpen, onClose }: SmartWatchDet
                     
                     <div className="space-y-2">
                       <Label htmlFor="auto-assign" className="text-sm">Auto-Assign Policy</Label>
-                      <Select defaultValue="manual">
+                      <Select value={autoAssignPolicy} onValueChange={updateAutoAssignPolicy}>
                         <SelectTrigger id="auto-assign" className="w-full">
                           <SelectValue placeholder="Select assignment policy" />
                         </SelectTrigger>
                         <SelectContent>
+                          <SelectItem value="auto_dispatch">Smart Auto-Dispatch</SelectItem>
                           <SelectItem value="manual">Manual Assignment Only</SelectItem>
-                          <SelectItem value="shift_start">Assign at Shift Start</SelectItem>
-                          <SelectItem value="role_based">Role-Based Auto Assignment</SelectItem>
                         </SelectContent>
                       </Select>
+                      <p className="text-xs text-muted-foreground">
+                        With auto-dispatch, new requests are offered to this watch when the wearer is on duty and the best available match.
+                      </p>
                     </div>
                   </div>
                 </div>
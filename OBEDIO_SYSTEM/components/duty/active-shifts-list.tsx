@@ -71,7 +71,7 @@ export function ActiveShiftsList({ shifts, availableUsers, onRefresh }: ActiveSh
         const newShift: Shift = {
           id: data.shiftId,
           userId: data.userId,
-          startTime: data.startTime,
+          startTime: data.startedAt,
           endTime: null,
           status: 'ACTIVE',
           user: {
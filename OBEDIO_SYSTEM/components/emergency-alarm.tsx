@@ -0,0 +1,102 @@
+'use client'
+
+import React from 'react'
+import Link from 'next/link'
+import { Siren, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useEventSource } from '@/hooks/useEventSource'
+import { SSE_EVENTS, EmergencyAlertEvent } from '@/lib/sseEmitter'
+
+const CATEGORY_LABELS: Record<string, string> = {
+  emergency_button: 'Taster za hitne slučajeve',
+  fall_detection: 'Detekcija pada',
+  manual: 'Prijavljeno iz aplikacije',
+}
+
+// Kratak alarmni ton preko WebAudio API-ja (bez audio fajlova)
+function playAlarm() {
+  try {
+    const AudioContextClass = window.AudioContext ||
+      (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+    if (!AudioContextClass) return
+
+    const context = new AudioContextClass()
+    for (let i = 0; i < 3; i++) {
+      const oscillator = context.createOscillator()
+      const gain = context.createGain()
+      oscillator.type = 'square'
+      oscillator.frequency.value = 880
+      gain.gain.value = 0.2
+      oscillator.connect(gain)
+      gain.connect(context.destination)
+      oscillator.start(context.currentTime + i * 0.4)
+      oscillator.stop(context.currentTime + i * 0.4 + 0.25)
+    }
+    setTimeout(() => context.close(), 1500)
+  } catch (error) {
+    console.error('Greška pri puštanju alarma:', error)
+  }
+}
+
+/**
+ * Globalni baner za hitne zahteve - prikazuje se na svim stranicama
+ * dok ga operater ne zatvori
+ */
+export function EmergencyAlarm() {
+  const [alerts, setAlerts] = React.useState<EmergencyAlertEvent[]>([])
+
+  useEventSource<EmergencyAlertEvent>(
+    SSE_EVENTS.EMERGENCY_ALERT,
+    (data: EmergencyAlertEvent) => {
+      setAlerts(prev =>
+        prev.some(alert => alert.requestId === data.requestId) ? prev : [data, ...prev]
+      )
+      playAlarm()
+    }
+  )
+
+  const dismiss = (requestId: number) => {
+    setAlerts(prev => prev.filter(alert => alert.requestId !== requestId))
+  }
+
+  if (alerts.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="sticky top-0 z-50">
+      {alerts.map(alert => (
+        <div
+          key={alert.requestId}
+          role="alert"
+          className="flex items-center gap-3 bg-red-600 px-4 py-3 text-white animate-pulse"
+        >
+          <Siren className="h-5 w-5 flex-shrink-0" />
+          <div className="flex-1">
+            <span className="font-semibold">HITAN POZIV: {alert.room}</span>
+            <span className="ml-2 text-sm opacity-90">
+              {CATEGORY_LABELS[alert.category] || alert.category}
+              {alert.deviceName ? ` · ${alert.deviceName}` : ''}
+              {' · '}
+              {new Date(alert.createdAt).toLocaleTimeString()}
+            </span>
+          </div>
+          <Button asChild size="sm" variant="secondary">
+            <Link href={`/requests/${alert.requestId}`} onClick={() => dismiss(alert.requestId)}>
+              Otvori zahtev #{alert.requestId}
+            </Link>
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="text-white hover:bg-red-700 hover:text-white"
+            onClick={() => dismiss(alert.requestId)}
+            aria-label="Zatvori alarm"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
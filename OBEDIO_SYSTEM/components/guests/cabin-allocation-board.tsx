@@ -0,0 +1,201 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { DndProvider, useDrag, useDrop } from "react-dnd"
+import { HTML5Backend } from "react-dnd-html5-backend"
+import { format } from "date-fns"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { BedDouble, Crown, Radio, Users } from "lucide-react"
+
+const GUEST_ITEM = "allocation-guest"
+
+export interface AllocationPlanGuest {
+  id: number
+  name: string
+  guestType: string
+  isVip: boolean
+  partySize: number
+  arrivalDate: string
+  departureDate: string
+  locationId: number | null
+}
+
+export interface AllocationPlanCabin {
+  id: number
+  name: string
+  deck: string
+  type: string
+  capacity: number
+  isActive: boolean
+  devices: { id: number; uid: string; name: string | null }[]
+}
+
+export interface AllocationConflict {
+  type: "unavailable" | "party_size" | "capacity" | "overlap"
+  locationId: number
+  guestIds: number[]
+  message: string
+}
+
+interface CabinAllocationBoardProps {
+  decks: { deck: string; cabins: AllocationPlanCabin[] }[]
+  guests: AllocationPlanGuest[]
+  conflicts: AllocationConflict[]
+  changedGuestIds: Set<number>
+  onMove: (guestId: number, locationId: number | null) => void
+}
+
+export const CONFLICT_LABELS: Record<AllocationConflict["type"], string> = {
+  unavailable: "Cabin not available for guests",
+  party_size: "Party larger than cabin",
+  capacity: "Over capacity",
+  overlap: "Overlapping stays",
+}
+
+const formatStay = (guest: AllocationPlanGuest) =>
+  `${format(new Date(guest.arrivalDate), "MMM dd")} – ${format(new Date(guest.departureDate), "MMM dd")}`
+
+function GuestChip({ guest, changed, conflicted }: { guest: AllocationPlanGuest; changed: boolean; conflicted: boolean }) {
+  const [{ isDragging }, drag] = useDrag(() => ({
+    type: GUEST_ITEM,
+    item: { id: guest.id },
+    collect: (monitor) => ({
+      isDragging: !!monitor.isDragging(),
+    }),
+  }), [guest.id])
+
+  return (
+    <div
+      ref={(node) => { drag(node) }}
+      className={`rounded-md border p-2 text-sm bg-card cursor-move transition-colors hover:border-primary
+        ${isDragging ? "opacity-50 border-dashed" : ""}
+        ${conflicted ? "border-red-400" : changed ? "border-blue-400" : ""}`}
+    >
+      <div className="flex items-center gap-1 font-medium">
+        {guest.isVip && <Crown className="h-3 w-3 text-amber-500" />}
+        {guest.name}
+      </div>
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span>{guest.guestType}</span>
+        <span className="flex items-center gap-0.5">
+          <Users className="h-3 w-3" />
+          {guest.partySize}
+        </span>
+        <span>{formatStay(guest)}</span>
+      </div>
+    </div>
+  )
+}
+
+function DropZone({
+  locationId,
+  onMove,
+  className,
+  children,
+}: {
+  locationId: number | null
+  onMove: (guestId: number, locationId: number | null) => void
+  className: string
+  children: ReactNode
+}) {
+  const [{ isOver }, drop] = useDrop(() => ({
+    accept: GUEST_ITEM,
+    drop: (item: { id: number }) => onMove(item.id, locationId),
+    collect: (monitor) => ({
+      isOver: !!monitor.isOver(),
+    }),
+  }), [locationId, onMove])
+
+  return (
+    <div ref={(node) => { drop(node) }} className={`${className} ${isOver ? "ring-2 ring-primary" : ""}`}>
+      {children}
+    </div>
+  )
+}
+
+export function CabinAllocationBoard({ decks, guests, conflicts, changedGuestIds, onMove }: CabinAllocationBoardProps) {
+  const conflictedGuestIds = new Set(conflicts.flatMap((conflict) => conflict.guestIds))
+  const unassigned = guests.filter((guest) => guest.locationId === null)
+
+  const renderGuests = (list: AllocationPlanGuest[]) =>
+    list.map((guest) => (
+      <GuestChip
+        key={guest.id}
+        guest={guest}
+        changed={changedGuestIds.has(guest.id)}
+        conflicted={conflictedGuestIds.has(guest.id)}
+      />
+    ))
+
+  return (
+    <DndProvider backend={HTML5Backend}>
+      <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Unassigned ({unassigned.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DropZone locationId={null} onMove={onMove} className="min-h-[120px] space-y-2 rounded-md">
+              {unassigned.length === 0 ? (
+                <p className="text-sm text-muted-foreground">All guests have a cabin.</p>
+              ) : (
+                renderGuests(unassigned)
+              )}
+            </DropZone>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          {decks.map(({ deck, cabins }) => (
+            <div key={deck}>
+              <h2 className="mb-2 text-lg font-semibold">{deck}</h2>
+              <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+                {cabins.map((cabin) => {
+                  const occupants = guests.filter((guest) => guest.locationId === cabin.id)
+                  const cabinConflicts = conflicts.filter((conflict) => conflict.locationId === cabin.id)
+                  return (
+                    <DropZone
+                      key={cabin.id}
+                      locationId={cabin.id}
+                      onMove={onMove}
+                      className={`rounded-lg border p-3 space-y-2 ${
+                        cabinConflicts.length > 0 ? "border-red-400 bg-red-50" : ""
+                      } ${!cabin.isActive ? "opacity-60" : ""}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center gap-1 font-medium">
+                          <BedDouble className="h-4 w-4" />
+                          {cabin.name}
+                        </span>
+                        <Badge variant="outline">
+                          {occupants.reduce((sum, guest) => sum + guest.partySize, 0)}/{cabin.capacity}
+                        </Badge>
+                      </div>
+                      {cabin.devices.length > 0 && (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Radio className="h-3 w-3" />
+                          {cabin.devices.map((device) => device.name || device.uid).join(", ")}
+                        </div>
+                      )}
+                      {renderGuests(occupants)}
+                      {cabinConflicts.map((conflict, index) => (
+                        <p key={`${conflict.type}-${index}`} className="text-xs text-red-600">
+                          {CONFLICT_LABELS[conflict.type]}:{" "}
+                          {conflict.guestIds
+                            .map((id) => guests.find((guest) => guest.id === id)?.name)
+                            .filter(Boolean)
+                            .join(", ")}
+                        </p>
+                      ))}
+                    </DropZone>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </DndProvider>
+  )
+}
@@ -149,8 +149,7 @@ export function GuestDetailPanel({
       const response = await fetch('/api/upload', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-auth-bypass': 'true'
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ image: imageDataUrl })
       })
@@ -1,12 +1,13 @@
 "use client"
 
 import { useState } from "react"
+import Link from "next/link"
 import { format } from "date-fns"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-import { Calendar, Crown, ChevronDown, ChevronUp, UserPlus } from "lucide-react"
+import { Anchor, Calendar, Crown, ChevronDown, ChevronUp, FileText, Lock, MapPin, UserPlus } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 
 export interface UpcomingGuest {
@@ -19,17 +20,34 @@ export interface UpcomingGuest {
   departureDate: string | Date
   notes?: string | null
   broker?: string | null
+  status?: string
 }
 
-interface UpcomingGuestsSectionProps {
+export interface CharterTimelineEntry {
+  id: number
+  name: string
+  startDate: string
+  endDate: string
+  status: "upcoming" | "active" | "closed"
+  broker: string | null
+  principalGuest: { id: number; name: string } | null
+  itinerary: { port: string; arrival: string; departure?: string | null }[]
   guests: UpcomingGuest[]
+}
+
+interface UpcomingGuestsSectionProps {
+  charters: CharterTimelineEntry[]
   onConfirmArrival: (guest: UpcomingGuest) => void
+  onCloseCharter: (charter: CharterTimelineEntry) => void
 }
 
-export function UpcomingGuestsSection({ guests, onConfirmArrival }: UpcomingGuestsSectionProps) {
+const formatDate = (date: string | Date) =>
+  format(date instanceof Date ? date : new Date(date), "MMM dd, yyyy")
+
+export function UpcomingGuestsSection({ charters, onConfirmArrival, onCloseCharter }: UpcomingGuestsSectionProps) {
   const [isExpanded, setIsExpanded] = useState(true)
 
-  if (guests.length === 0) {
+  if (charters.length === 0) {
     return null
   }
 
@@ -39,7 +57,7 @@ export function UpcomingGuestsSection({ guests, onConfirmArrival }: UpcomingGues
         <div className="flex justify-between items-center">
           <CardTitle className="text-lg flex items-center gap-2">
             <Calendar className="h-5 w-5" />
-            Upcoming Guests
+            Charters
           </CardTitle>
           <Button variant="ghost" size="sm" onClick={() => setIsExpanded(!isExpanded)}>
             {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
@@ -56,75 +74,113 @@ export function UpcomingGuestsSection({ guests, onConfirmArrival }: UpcomingGues
             className="overflow-hidden"
           >
             <CardContent>
-              <div className="space-y-3">
-                {guests.map((guest) => (
-                  <div
-                    key={guest.id}
-                    className="p-3 border border-dashed rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors"
-                  >
-                    <div className="flex justify-between items-start">
-                      <div className="flex items-center gap-3">
-                        <Avatar className="h-10 w-10 opacity-70">
-                          <AvatarImage
-                            src={`/abstract-geometric-shapes.png?key=${guest.id}&height=40&width=40&query=${guest.name
-                              .split(" ")
-                              .map((n) => n[0])
-                              .join("")}`}
-                            className="object-cover object-center"
-                          />
-                          <AvatarFallback>
-                            {guest.name
-                              .split(" ")
-                              .map((n) => n[0])
-                              .join("")}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div>
-                          <div className="flex items-center gap-2">
-                            <span className="font-medium">{guest.name}</span>
-                            {guest.isVip && (
-                              <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">
-                                <Crown className="h-3 w-3 mr-1" />
-                                VIP
-                              </Badge>
-                            )}
-                            <Badge variant="outline">{guest.guestType}</Badge>
-                          </div>
-                          <div className="text-sm text-muted-foreground">
-                            Planned Room: {guest.plannedRoom || "Not assigned"}
-                          </div>
+              <ol className="relative border-l border-muted-foreground/20 ml-2 space-y-6">
+                {charters.map((charter) => (
+                  <li key={charter.id} className="ml-4">
+                    <span
+                      className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                        charter.status === "active" ? "bg-green-500" : "bg-blue-400"
+                      }`}
+                    />
+                    <div className="flex flex-wrap justify-between items-start gap-2">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold">{charter.name}</span>
+                          <Badge
+                            variant="outline"
+                            className={charter.status === "active" ? "bg-green-100 text-green-800" : "bg-blue-100 text-blue-800"}
+                          >
+                            {charter.status === "active" ? "On board" : "Upcoming"}
+                          </Badge>
                         </div>
+                        <div className="text-sm text-muted-foreground">
+                          {formatDate(charter.startDate)} – {formatDate(charter.endDate)}
+                          {charter.principalGuest && <> · Principal: {charter.principalGuest.name}</>}
+                          {charter.broker && <> · Broker: {charter.broker}</>}
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="ghost" asChild>
+                          <Link href={`/guests/charters/${charter.id}`}>
+                            <FileText className="h-4 w-4 mr-1" />
+                            Report
+                          </Link>
+                        </Button>
+                        {charter.status === "active" && (
+                          <Button size="sm" variant="outline" onClick={() => onCloseCharter(charter)}>
+                            <Lock className="h-4 w-4 mr-1" />
+                            Close Charter
+                          </Button>
+                        )}
                       </div>
-                      <Button size="sm" variant="outline" className="ml-2" onClick={() => onConfirmArrival(guest)}>
-                        <UserPlus className="h-4 w-4 mr-1" />
-                        Confirm Arrival
-                      </Button>
                     </div>
-                    <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
-                      <div>
-                        <div className="text-xs text-muted-foreground">Arrival</div>
-                        <div className="text-sm">
-                          {format(
-                            guest.arrivalDate instanceof Date ? guest.arrivalDate : new Date(guest.arrivalDate),
-                            "MMM dd, yyyy"
-                          )}
-                        </div>
+
+                    {charter.itinerary.length > 0 && (
+                      <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                        <Anchor className="h-3 w-3" />
+                        {charter.itinerary.map((stop, index) => (
+                          <span key={`${stop.port}-${index}`} className="flex items-center gap-1">
+                            {index > 0 && <span>→</span>}
+                            <MapPin className="h-3 w-3" />
+                            {stop.port} ({format(new Date(stop.arrival), "MMM dd")})
+                          </span>
+                        ))}
                       </div>
-                      <div>
-                        <div className="text-xs text-muted-foreground">Departure</div>
-                        <div className="text-sm">
-                          {format(
-                            guest.departureDate instanceof Date ? guest.departureDate : new Date(guest.departureDate),
-                            "MMM dd, yyyy"
-                          )}
+                    )}
+
+                    <div className="mt-3 space-y-2">
+                      {charter.guests.map((guest) => (
+                        <div
+                          key={guest.id}
+                          className="p-3 border border-dashed rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors"
+                        >
+                          <div className="flex justify-between items-start">
+                            <div className="flex items-center gap-3">
+                              <Avatar className="h-10 w-10 opacity-70">
+                                <AvatarImage
+                                  src={`/abstract-geometric-shapes.png?key=${guest.id}&height=40&width=40&query=${guest.name
+                                    .split(" ")
+                                    .map((n) => n[0])
+                                    .join("")}`}
+                                  className="object-cover object-center"
+                                />
+                                <AvatarFallback>
+                                  {guest.name
+                                    .split(" ")
+                                    .map((n) => n[0])
+                                    .join("")}
+                                </AvatarFallback>
+                              </Avatar>
+                              <div>
+                                <div className="flex items-center gap-2">
+                                  <span className="font-medium">{guest.name}</span>
+                                  {guest.isVip && (
+                                    <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">
+                                      <Crown className="h-3 w-3 mr-1" />
+                                      VIP
+                                    </Badge>
+                                  )}
+                                  <Badge variant="outline">{guest.guestType}</Badge>
+                                </div>
+                                <div className="text-sm text-muted-foreground">
+                                  Planned Room: {guest.plannedRoom || "Not assigned"}
+                                </div>
+                              </div>
+                            </div>
+                            {guest.status !== "Checked-In" && (
+                              <Button size="sm" variant="outline" className="ml-2" onClick={() => onConfirmArrival(guest)}>
+                                <UserPlus className="h-4 w-4 mr-1" />
+                                Confirm Arrival
+                              </Button>
+                            )}
+                          </div>
+                          {guest.notes && <div className="mt-2 text-sm italic text-muted-foreground">"{guest.notes}"</div>}
                         </div>
-                      </div>
+                      ))}
                     </div>
-                    {guest.notes && <div className="mt-2 text-sm italic text-muted-foreground">"{guest.notes}"</div>}
-                    {guest.broker && <div className="mt-1 text-xs text-muted-foreground">Broker: {guest.broker}</div>}
-                  </div>
+                  </li>
                 ))}
-              </div>
+              </ol>
             </CardContent>
           </motion.div>
         )}
@@ -19,9 +19,12 @@ import {
   Wifi,
   WifiOff,
   Battery,
-  BatteryLow
+  BatteryLow,
+  BellOff
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { useEventSource } from '@/hooks/useEventSource'
+import { SSE_EVENTS, DndChangedEvent } from '@/lib/sseEmitter'
 
 interface Device {
   id: string
@@ -46,6 +49,7 @@ interface Location {
   floor?: string
   devices: Device[]
   guests?: Guest[]
+  dndActive?: boolean
 }
 
 interface RoomCardProps {
@@ -54,6 +58,15 @@ interface RoomCardProps {
 
 export function RoomCard({ location }: RoomCardProps) {
   const [isExpanded, setIsExpanded] = useState(false)
+  const [dndActive, setDndActive] = useState(location.dndActive || false)
+
+  // Keep DND state live as guests toggle do-not-disturb
+  useEventSource<DndChangedEvent>(
+    SSE_EVENTS.DND_CHANGED,
+    (data: DndChangedEvent) => {
+      setDndActive(data.locations.some(dnd => String(dnd.locationId) === String(location.id)))
+    }
+  )
 
   // Calculate location status
   const hasLowBattery = location.devices.some(d => d.battery < 20)
@@ -146,6 +159,12 @@ export function RoomCard({ location }: RoomCardProps) {
 
         {/* Status badges */}
         <div className="flex flex-wrap gap-2 mt-3">
+          {dndActive && (
+            <Badge variant="outline" className="text-xs bg-red-100 text-red-700 border-red-200">
+              <BellOff className="h-3 w-3 mr-1" />
+              Do Not Disturb
+            </Badge>
+          )}
           {hasOfflineDevices && (
             <Badge variant="destructive" className="text-xs">
               <WifiOff className="h-3 w-3 mr-1" />
@@ -0,0 +1,70 @@
+import React from 'react'
+import { AlertTriangle, Crown, Languages, Wine } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import type { GuestContext } from '@/lib/services/guest-context-service'
+
+interface GuestContextProps {
+  guests: GuestContext[]
+  compact?: boolean
+}
+
+/**
+ * Gosti iz kabine sa preferencama - u tabeli jedan red, na detaljima zahteva puna kartica
+ */
+export function GuestContextInfo({ guests, compact = false }: GuestContextProps) {
+  if (guests.length === 0) {
+    return null
+  }
+
+  if (compact) {
+    return (
+      <div className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+        {guests.map(guest => (
+          <div key={guest.guestId} className="flex items-center gap-1">
+            {guest.isVip && <Crown className="h-3 w-3 text-amber-500" />}
+            <span className="font-medium text-foreground">{guest.name}</span>
+            {guest.summary && <span>· {guest.summary}</span>}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {guests.map(guest => (
+        <div key={guest.guestId} className="rounded-md border p-3 text-sm">
+          <div className="flex items-center gap-2 font-medium">
+            {guest.name}
+            {guest.isVip && (
+              <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-300">
+                <Crown className="mr-1 h-3 w-3" /> VIP
+              </Badge>
+            )}
+          </div>
+          <div className="mt-2 grid gap-1 text-muted-foreground">
+            {(guest.drinks.length > 0 || guest.food.length > 0) && (
+              <div className="flex items-center gap-1">
+                <Wine className="h-3.5 w-3.5" />
+                {[...guest.drinks, ...guest.food].join(', ')}
+              </div>
+            )}
+            {guest.allergies.length > 0 && (
+              <div className="flex items-center gap-1 text-red-600">
+                <AlertTriangle className="h-3.5 w-3.5" />
+                Alergije: {guest.allergies.join(', ')}
+              </div>
+            )}
+            {guest.languages.length > 0 && (
+              <div className="flex items-center gap-1">
+                <Languages className="h-3.5 w-3.5" />
+                {guest.languages.join(', ')}
+              </div>
+            )}
+            {guest.notes && <p className="whitespace-pre-line">{guest.notes}</p>}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+import React, { useState } from 'react'
+import { Languages, Send } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { toast } from '@/components/ui/use-toast'
+import { CANNED_REPLIES } from '@/lib/translation/canned-replies'
+
+export interface CrewReplyInfo {
+  id: number
+  replyKey: string
+  text: string
+  translatedText: string
+  language: string
+  status: string
+  error: string | null
+  createdAt: string
+  user: { id: number; name: string } | null
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Šalje se',
+  sent: 'Prikazano u kabini',
+  failed: 'Nije poslato',
+}
+
+/**
+ * Poruka gosta sa prevodom na jezik posade
+ */
+export function GuestMessage({ transcript, transcriptLanguage, translatedTranscript, translationLanguage }: {
+  transcript: string
+  transcriptLanguage: string | null
+  translatedTranscript: string | null
+  translationLanguage: string | null
+}) {
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="whitespace-pre-line">
+        „{transcript}“
+        {transcriptLanguage && <span className="ml-1 text-xs text-muted-foreground">({transcriptLanguage})</span>}
+      </p>
+      {translatedTranscript && (
+        <p className="flex items-start gap-1 whitespace-pre-line text-muted-foreground">
+          <Languages className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          <span>
+            {translatedTranscript}
+            {translationLanguage && <span className="ml-1 text-xs">({translationLanguage})</span>}
+          </span>
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Gotovi odgovori gostu - stižu na uređaj u kabini prevedeni na jezik gosta
+ */
+export function GuestReplies({ requestId, replies, onSent }: {
+  requestId: number
+  replies: CrewReplyInfo[]
+  onSent: () => void
+}) {
+  const [sending, setSending] = useState<string | null>(null)
+
+  const sendReply = async (reply: string) => {
+    setSending(reply)
+    try {
+      const response = await fetch(`/api/requests/${requestId}/reply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reply }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error)
+      }
+      onSent()
+    } catch (error) {
+      toast({
+        title: 'Odgovor nije poslat',
+        description: error instanceof Error ? error.message : 'Nepoznata greška',
+        variant: 'destructive',
+      })
+    } finally {
+      setSending(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {CANNED_REPLIES.map(reply => (
+          <Button
+            key={reply.key}
+            variant="outline"
+            size="sm"
+            disabled={sending !== null}
+            onClick={() => sendReply(reply.key)}
+          >
+            <Send className="mr-1 h-3.5 w-3.5" /> {reply.text}
+          </Button>
+        ))}
+      </div>
+
+      {replies.length > 0 && (
+        <div className="space-y-2 text-sm">
+          {replies.map(reply => (
+            <div key={reply.id} className="rounded-md border p-3">
+              <div className="flex items-center gap-2 text-muted-foreground">
+                {new Date(reply.createdAt).toLocaleTimeString()}
+                {reply.user && <span>· {reply.user.name}</span>}
+                <Badge variant={reply.status === 'failed' ? 'destructive' : 'outline'} className="ml-auto">
+                  {STATUS_LABELS[reply.status] || reply.status}
+                </Badge>
+              </div>
+              <p className="mt-1 font-medium">
+                {reply.translatedText}
+                <span className="ml-1 text-xs text-muted-foreground">({reply.language})</span>
+              </p>
+              {reply.translatedText !== reply.text && <p className="text-muted-foreground">{reply.text}</p>}
+              {reply.error && <p className="text-xs text-red-600">{reply.error}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
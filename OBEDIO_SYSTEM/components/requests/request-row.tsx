@@ -3,11 +3,32 @@ import { formatDistanceToNow } from 'date-fns'
 import { sr } from 'date-fns/locale'
 import { TableCell, TableRow } from '@/components/ui/table'
 import { Button } from '@/components/ui/button'
-import { Check, X, AlertCircle, Clock, User } from 'lucide-react'
+import { Check, X, AlertCircle, AlertTriangle, Clock, Siren, User } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/components/ui/use-toast'
 import { useRouter } from 'next/navigation'
 import { Request } from './request-table'
+import { PriorityService } from '@/lib/services/priority-service'
+import { GuestContextInfo } from './guest-context'
+
+// Nazivi kategorija zahteva za prikaz
+const CATEGORY_LABELS: Record<string, string> = {
+  double_press: 'Dupli pritisak',
+  long_press: 'Dugi pritisak',
+  emergency_button: 'Taster za hitne slučajeve',
+  fall_detection: 'Detekcija pada',
+  manual: 'Ručno kreiran',
+}
 
 interface RequestRowProps {
   request: Request
@@ -17,9 +38,12 @@ interface RequestRowProps {
 export function RequestRow({ request, onRefresh }: RequestRowProps) {
   const { toast } = useToast()
   const router = useRouter()
+  const [incidentDialogOpen, setIncidentDialogOpen] = React.useState(false)
+  const [incidentNote, setIncidentNote] = React.useState('')
+  const isEmergency = PriorityService.isEmergency(request.priority)
   
   // Formatiranje vremena
-  const formattedTime = formatDistanceToNow(new Date(request.timestamp), {
+  const formattedTime = formatDistanceToNow(new Date(request.createdAt), {
     addSuffix: true,
     locale: sr
   })
@@ -60,6 +84,27 @@ export function RequestRow({ request, onRefresh }: RequestRowProps) {
     }
   }
 
+  // Badge prioriteta - prikazuje se samo za hitne i urgentne zahteve
+  const getPriorityBadge = () => {
+    const categoryLabel = request.category ? CATEGORY_LABELS[request.category] : undefined
+
+    if (isEmergency) {
+      return (
+        <Badge variant="outline" className="ml-1 bg-red-600 text-white border-red-700">
+          <Siren className="mr-1 h-3 w-3" /> HITNO{categoryLabel ? ` · ${categoryLabel}` : ''}
+        </Badge>
+      )
+    }
+    if (request.priority === 'urgent') {
+      return (
+        <Badge variant="outline" className="ml-1 bg-amber-100 text-amber-800 border-amber-300">
+          <AlertCircle className="mr-1 h-3 w-3" /> Urgentno{categoryLabel ? ` · ${categoryLabel}` : ''}
+        </Badge>
+      )
+    }
+    return null
+  }
+
   // Prihvatanje zahteva - dodela sebi
   const handleAccept = async () => {
     try {
@@ -89,17 +134,28 @@ export function RequestRow({ request, onRefresh }: RequestRowProps) {
     }
   }
   
-  // Označavanje zahteva kao završenog
+  // Označavanje zahteva kao završenog.
+  // Hitni zahtevi se zatvaraju tek kada se unese beleška o incidentu.
   const handleComplete = async () => {
+    if (isEmergency && !incidentNote.trim()) {
+      setIncidentDialogOpen(true)
+      return
+    }
+
     try {
       const response = await fetch(`/api/requests/${request.id}/complete`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isEmergency ? { incidentNote: incidentNote.trim() } : {}),
       })
       
       if (!response.ok) {
         throw new Error('Nije moguće završiti zahtev')
       }
       
+      setIncidentDialogOpen(false)
+      setIncidentNote('')
+      
       toast({
         title: 'Zahtev završen',
         description: `Zahtev #${request.id} je označen kao završen.`,
@@ -119,19 +175,38 @@ export function RequestRow({ request, onRefresh }: RequestRowProps) {
   }
   
   return (
-    <TableRow>
-      <TableCell className="font-medium">#{request.id}</TableCell>
-      <TableCell>{getStatusBadge()}</TableCell>
+    <TableRow className={isEmergency && request.status !== 'COMPLETED' ? 'bg-red-50' : undefined}>
+      <TableCell className="font-medium">
+        <button
+          type="button"
+          className="hover:underline"
+          onClick={() => router.push(`/requests/${request.id}`)}
+        >
+          #{request.id}
+        </button>
+      </TableCell>
+      <TableCell>
+        {getStatusBadge()}
+        {request.status === 'PENDING' && !!request.escalationLevel && (
+          <Badge variant="outline" className="ml-1 bg-orange-100 text-orange-800 border-orange-300">
+            <AlertTriangle className="mr-1 h-3 w-3" /> Eskalirano ({request.escalationLevel})
+          </Badge>
+        )}
+        {getPriorityBadge()}
+      </TableCell>
       <TableCell>{request.device.name}</TableCell>
-      <TableCell>{request.device.room}</TableCell>
-      <TableCell title={new Date(request.timestamp).toLocaleString()}>
+      <TableCell>
+        {request.device.room}
+        <GuestContextInfo guests={request.guestContext || []} compact />
+      </TableCell>
+      <TableCell title={new Date(request.createdAt).toLocaleString()}>
         {formattedTime}
       </TableCell>
       <TableCell>
-        {request.assignedUser ? (
+        {request.assignee ? (
           <span className="flex items-center">
             <User className="mr-1 h-3 w-3" />
-            {request.assignedUser.name}
+            {request.assignee.name}
           </span>
         ) : (
           <span className="text-muted-foreground">-</span>
@@ -150,6 +225,34 @@ export function RequestRow({ request, onRefresh }: RequestRowProps) {
             Završi
           </Button>
         )}
+        <Dialog open={incidentDialogOpen} onOpenChange={setIncidentDialogOpen}>
+          <DialogContent className="text-left">
+            <DialogHeader>
+              <DialogTitle>Beleška o incidentu</DialogTitle>
+              <DialogDescription>
+                Zahtev #{request.id} je hitan. Opišite šta se dogodilo i kako je rešeno pre zatvaranja.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor={`incident-note-${request.id}`}>Beleška</Label>
+              <Textarea
+                id={`incident-note-${request.id}`}
+                value={incidentNote}
+                onChange={(e) => setIncidentNote(e.target.value)}
+                rows={4}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIncidentDialogOpen(false)}>
+                Odustani
+              </Button>
+              <Button onClick={handleComplete} disabled={!incidentNote.trim()}>
+                <Check className="mr-1 h-4 w-4" />
+                Zatvori incident
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </TableCell>
     </TableRow>
   )
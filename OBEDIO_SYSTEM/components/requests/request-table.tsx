@@ -11,20 +11,27 @@ import {
 import { Button } from '@/components/ui/button'
 import { RequestRow } from './request-row'
 import { useEventSource } from '@/hooks/useEventSource'
-import { SSE_EVENTS } from '@/lib/sseEmitter'
+import { SSE_EVENTS, RequestEscalatedEvent } from '@/lib/sseEmitter'
+import { PriorityService } from '@/lib/services/priority-service'
+import type { GuestContext } from '@/lib/services/guest-context-service'
 
 export type Request = {
   id: number
   deviceId: number
-  timestamp: string
+  createdAt: string
   status: string
   assignedTo: number | null
+  escalationLevel?: number
+  priority?: string
+  category?: string
+  incidentNote?: string | null
+  guestContext?: GuestContext[]
   device: {
     id: number
     name: string
     room: string
   }
-  assignedUser?: {
+  assignee?: {
     id: number
     name: string
   } | null
@@ -54,8 +61,11 @@ export function RequestTable({ requests, onRefresh, filterStatus }: RequestTable
         id: data.requestId,
         deviceId: data.deviceId,
         status: 'PENDING',
-        timestamp: data.timestamp,
+        createdAt: data.timestamp,
         assignedTo: null,
+        priority: data.priority,
+        category: data.category,
+        guestContext: data.guests,
         device: {
           id: data.deviceId,
           name: data.deviceName,
@@ -78,7 +88,7 @@ export function RequestTable({ requests, onRefresh, filterStatus }: RequestTable
                 ...req,
                 status: data.status,
                 assignedTo: data.assignedTo,
-                assignedUser: data.assignedName ? {
+                assignee: data.assignedName ? {
                   id: data.assignedTo,
                   name: data.assignedName
                 } : null
@@ -89,9 +99,22 @@ export function RequestTable({ requests, onRefresh, filterStatus }: RequestTable
     }
   )
 
-  // Sortiraj po vremenu, najnoviji prvi
+  useEventSource<RequestEscalatedEvent>(
+    SSE_EVENTS.REQUEST_ESCALATED,
+    (data: RequestEscalatedEvent) => {
+      // Označite zahtev koji je eskaliran jer ga niko nije preuzeo
+      setRequestList(prevList =>
+        prevList.map(req =>
+          req.id === data.requestId ? { ...req, escalationLevel: data.level } : req
+        )
+      )
+    }
+  )
+
+  // Sortiraj po prioritetu (hitni na vrhu), pa po vremenu, najnoviji prvi
   const sortedRequests = [...filteredRequests].sort(
-    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    (a, b) => PriorityService.rank(b.priority) - PriorityService.rank(a.priority) ||
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   )
 
   // Ako nema zahteva, prikaži poruku
@@ -0,0 +1,112 @@
+import React from 'react'
+import { format } from 'date-fns'
+import { sr } from 'date-fns/locale'
+import {
+  AlertTriangle,
+  ArrowRightLeft,
+  Bell,
+  Send,
+  CheckCircle,
+  PlusCircle,
+  UserCheck,
+  UserX,
+  Watch,
+  XCircle,
+} from 'lucide-react'
+
+export type RequestHistoryEntry = {
+  id: number
+  type: 'CREATED' | 'DELIVERED' | 'DISPATCHED' | 'ACCEPTED' | 'DECLINED' | 'TRANSFERRED' | 'ESCALATED' | 'COMPLETED' | 'CANCELLED'
+  createdAt: string
+  actor: { id: number; name: string } | null
+  fromUser: { id: number; name: string } | null
+  toUser: { id: number; name: string } | null
+  reason: string | null
+  metadata: Record<string, unknown> | null
+}
+
+interface RequestTimelineProps {
+  history: RequestHistoryEntry[]
+}
+
+// Ikonica i boja za svaki tip događaja
+const EVENT_STYLES: Record<RequestHistoryEntry['type'], { icon: React.ElementType; className: string }> = {
+  CREATED: { icon: PlusCircle, className: 'text-blue-600 bg-blue-50' },
+  DELIVERED: { icon: Watch, className: 'text-slate-600 bg-slate-50' },
+  DISPATCHED: { icon: Send, className: 'text-sky-600 bg-sky-50' },
+  ACCEPTED: { icon: UserCheck, className: 'text-amber-600 bg-amber-50' },
+  DECLINED: { icon: UserX, className: 'text-rose-600 bg-rose-50' },
+  TRANSFERRED: { icon: ArrowRightLeft, className: 'text-purple-600 bg-purple-50' },
+  ESCALATED: { icon: AlertTriangle, className: 'text-orange-600 bg-orange-50' },
+  COMPLETED: { icon: CheckCircle, className: 'text-green-600 bg-green-50' },
+  CANCELLED: { icon: XCircle, className: 'text-red-600 bg-red-50' },
+}
+
+// Opis događaja na srpskom
+function describeEvent(entry: RequestHistoryEntry): string {
+  const actor = entry.actor?.name
+  const from = entry.fromUser?.name
+  const to = entry.toUser?.name
+
+  switch (entry.type) {
+    case 'CREATED':
+      return entry.metadata?.source === 'button'
+        ? 'Zahtev kreiran pritiskom na dugme'
+        : `Zahtev kreiran${actor ? ` (${actor})` : ''}`
+    case 'DELIVERED':
+      return `Isporučeno na sat${to ? `: ${to}` : ''}`
+    case 'DISPATCHED':
+      return `Automatski dodeljeno: ${to || 'nepoznat korisnik'}`
+    case 'ACCEPTED':
+      return `Zahtev prihvatio/la ${to || actor || 'nepoznat korisnik'}`
+    case 'DECLINED':
+      return entry.metadata?.expired
+        ? `Bez odgovora: ${from || 'nepoznat korisnik'}`
+        : `Odbio/la: ${from || 'nepoznat korisnik'}`
+    case 'TRANSFERRED':
+      return `Prebačeno${from ? ` sa ${from}` : ''} na ${to || 'nepoznat korisnik'}${actor ? ` (${actor})` : ''}`
+    case 'ESCALATED':
+      return `Eskalirano na nivo ${entry.metadata?.level ?? '?'}`
+    case 'COMPLETED':
+      return `Zahtev završen${actor ? ` (${actor})` : ''}`
+    case 'CANCELLED':
+      return `Zahtev otkazan${actor ? ` (${actor})` : ''}`
+    default:
+      return entry.type
+  }
+}
+
+export function RequestTimeline({ history }: RequestTimelineProps) {
+  if (history.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Bell className="mx-auto h-8 w-8 mb-2 opacity-50" />
+        Nema zabeleženih događaja za ovaj zahtev.
+      </div>
+    )
+  }
+
+  return (
+    <ol className="relative border-l border-muted ml-4">
+      {history.map(entry => {
+        const style = EVENT_STYLES[entry.type] || EVENT_STYLES.CREATED
+        const Icon = style.icon
+
+        return (
+          <li key={entry.id} className="mb-6 ml-6">
+            <span className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ${style.className}`}>
+              <Icon className="h-3.5 w-3.5" />
+            </span>
+            <p className="text-sm font-medium">{describeEvent(entry)}</p>
+            <time className="text-xs text-muted-foreground">
+              {format(new Date(entry.createdAt), 'dd.MM.yyyy HH:mm:ss', { locale: sr })}
+            </time>
+            {entry.reason && (
+              <p className="mt-1 text-sm text-muted-foreground">Razlog: {entry.reason}</p>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
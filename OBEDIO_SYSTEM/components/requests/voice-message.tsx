@@ -0,0 +1,63 @@
+import React from 'react'
+import { AlertTriangle, Loader2, Mic } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+
+export interface VoiceRecordingInfo {
+  id: number
+  voiceUrl: string
+  format: string
+  durationMs: number | null
+  status: string
+  transcript: string | null
+  language: string | null
+  engine: string | null
+  error: string | null
+  createdAt: string
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  stored: 'Sačuvano',
+  transcribing: 'Transkripcija u toku',
+  transcribed: 'Transkribovano',
+  failed: 'Transkripcija nije uspela',
+}
+
+/**
+ * Glasovne poruke gosta uz zahtev - plejer i transkript
+ */
+export function VoiceMessages({ recordings }: { recordings: VoiceRecordingInfo[] }) {
+  if (recordings.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-3">
+      {recordings.map(recording => (
+        <div key={recording.id} className="rounded-md border p-3 text-sm">
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Mic className="h-3.5 w-3.5" />
+            {new Date(recording.createdAt).toLocaleTimeString()}
+            {recording.durationMs && <span>· {Math.round(recording.durationMs / 1000)} s</span>}
+            <Badge variant="outline" className="ml-auto">
+              {recording.status === 'transcribing' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+              {STATUS_LABELS[recording.status] || recording.status}
+            </Badge>
+          </div>
+          <audio controls preload="none" src={recording.voiceUrl} className="mt-2 w-full" />
+          {recording.transcript && (
+            <p className="mt-2 whitespace-pre-line">
+              „{recording.transcript}“
+              {recording.language && <span className="ml-1 text-xs text-muted-foreground">({recording.language})</span>}
+            </p>
+          )}
+          {recording.status === 'failed' && recording.error && (
+            <div className="mt-2 flex items-center gap-1 text-red-600">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              {recording.error}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
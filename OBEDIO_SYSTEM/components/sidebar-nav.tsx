@@ -18,6 +18,7 @@ import {
   ChevronLeft,
   ChevronRight,
   Wifi,
+  BarChart3,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -87,6 +88,11 @@ export function SidebarNav() {
       href: '/service-requests',
       icon: <Bell className="h-5 w-5" />,
     },
+    {
+      title: 'Analytics',
+      href: '/analytics',
+      icon: <BarChart3 className="h-5 w-5" />,
+    },
     {
       title: 'Logs',
       href: '/logs',
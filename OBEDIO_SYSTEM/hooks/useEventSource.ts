@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { SSE_EVENTS } from '@/lib/sseEmitter'
+import { SSE_EVENTS, RequestEscalatedEvent, FirmwareUpdateEvent, DeviceConfigEvent, RequestVoiceEvent, RequestTranslationEvent, RequestReplyEvent, BatteryAlertEvent, ShiftRequestEvent, ShiftUpdateEvent, DutyAlertEvent, HandoverEvent } from '@/lib/sseEmitter'
 
 interface EventSourceHookOptions {
   retry?: boolean
@@ -146,3 +146,47 @@ export function useSystemStatusEvents(handler: (data: any) => void, options?: Ev
 export function useDeviceAddedEvents(handler: (data: any) => void, options?: EventSourceHookOptions) {
   return useEventSource(SSE_EVENTS.DEVICE_ADDED, handler, options)
 }
+
+export function useRequestEscalatedEvents(handler: (data: RequestEscalatedEvent) => void, options?: EventSourceHookOptions) {
+  return useEventSource(SSE_EVENTS.REQUEST_ESCALATED, handler, options)
+}
+
+export function useFirmwareUpdateEvents(handler: (data: FirmwareUpdateEvent) => void, options?: EventSourceHookOptions) {
+  return useEventSource(SSE_EVENTS.FIRMWARE_UPDATE, handler, options)
+}
+
+export function useDeviceConfigEvents(handler: (data: DeviceConfigEvent) => void, options?: EventSourceHookOptions) {
+  return useEventSource(SSE_EVENTS.DEVICE_CONFIG, handler, options)
+}
+
+export function useRequestVoiceEvents(handler: (data: RequestVoiceEvent) => void, options?: EventSourceHookOptions) {
+  return useEventSource(SSE_EVENTS.REQUEST_VOICE, handler, options)
+}
+
+export function useRequestTranslationEvents(handler: (data: RequestTranslationEvent) => void, options?: EventSourceHookOptions) {
+  return useEventSource(SSE_EVENTS.REQUEST_TRANSLATION, handler, options)
+}
+
+export function useRequestReplyEvents(handler: (data: RequestReplyEvent) => void, options?: EventSourceHookOptions) {
+  return useEventSource(SSE_EVENTS.REQUEST_REPLY, handler, options)
+}
+
+export function useShiftRequestEvents(handler: (data: ShiftRequestEvent) => void, options?: EventSourceHookOptions) {
+  return useEventSource(SSE_EVENTS.SHIFT_REQUEST, handler, options)
+}
+
+export function useShiftUpdateEvents(handler: (data: ShiftUpdateEvent) => void, options?: EventSourceHookOptions) {
+  return useEventSource(SSE_EVENTS.SHIFT_UPDATE, handler, options)
+}
+
+export function useBatteryAlertEvents(handler: (data: BatteryAlertEvent) => void, options?: EventSourceHookOptions) {
+  return useEventSource(SSE_EVENTS.BATTERY_ALERT, handler, options)
+}
+
+export function useDutyAlertEvents(handler: (data: DutyAlertEvent) => void, options?: EventSourceHookOptions) {
+  return useEventSource(SSE_EVENTS.DUTY_ALERT, handler, options)
+}
+
+export function useHandoverEvents(handler: (data: HandoverEvent) => void, options?: EventSourceHookOptions) {
+  return useEventSource(SSE_EVENTS.HANDOVER, handler, options)
+}
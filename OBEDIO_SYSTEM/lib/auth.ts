@@ -1,7 +1,31 @@
-import { createHash } from 'crypto'
+import { createHash, timingSafeEqual } from 'crypto'
 import jwt from 'jsonwebtoken'
 import { cookies } from 'next/headers'
 import { headers } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { can, resolveRole, Permission, Role } from '@/lib/permissions'
+
+// Sesija iz JWT tokena (payload koji postavlja /api/auth/login)
+export interface Session {
+  id: number
+  name: string
+  email: string | null
+  role: string
+  accessRole?: string | null
+}
+
+// Lokalni razvoj bez prijave - samo uz AUTH_DEV_BYPASS=true i nikad u produkciji
+export function isAuthBypassEnabled(): boolean {
+  return process.env.AUTH_DEV_BYPASS === 'true' && process.env.NODE_ENV !== 'production'
+}
+
+const DEV_SESSION: Session = {
+  id: 1,
+  name: 'Admin User',
+  email: 'admin@obedio.com',
+  role: 'ADMIN',
+  accessRole: 'admin'
+}
 
 // Simple password hashing function
 export async function hash(password: string): Promise<string> {
@@ -41,7 +65,7 @@ export function verifyJWT(token: string): any {
 }
 
 // Auth - podrška za cookie i localStorage autentikaciju
-export function getSessionCookie() {
+export function getSessionCookie(): Session | null {
   try {
     // Prvo pokuša dohvatiti token iz cookie-a
     const cookieStore = cookies()
@@ -62,14 +86,8 @@ export function getSessionCookie() {
       if (verifiedToken) return verifiedToken
     }
     
-    // Ako nema validnog tokena nigde, dodajemo fallback za razvoj
-    // VAŽNO: Ukloniti u produkciji
-    return {
-      id: 1,
-      name: 'Admin User',
-      email: 'admin@obedio.com',
-      role: 'ADMIN'
-    }
+    // Bez validnog tokena nema sesije, osim u eksplicitnom razvojnom režimu
+    return isAuthBypassEnabled() ? DEV_SESSION : null
   } catch (error) {
     console.error('Error getting session:', error)
     return null
@@ -83,9 +101,48 @@ export async function isAuthenticated(): Promise<boolean> {
 }
 
 // Role-based access
-export async function hasRole(roles: string[]): Promise<boolean> {
+export async function hasRole(roles: Role[]): Promise<boolean> {
+  const role = resolveRole(getSessionCookie())
+  return role !== null && roles.includes(role)
+}
+
+/**
+ * Provera dozvole na početku route handlera.
+ * Bez sesije vraća 401, bez dozvole 403; inače sesiju korisnika.
+ */
+export function authorize(permission: Permission):
+  | { session: Session; response: null }
+  | { session: null; response: NextResponse } {
   const session = getSessionCookie()
-  if (!session) return false
-  
-  return roles.includes(session.role)
+  if (!session) {
+    return { session: null, response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+
+  if (!can(resolveRole(session), permission)) {
+    return {
+      session: null,
+      response: NextResponse.json({ error: "Nemate dozvolu za ovu akciju", permission }, { status: 403 })
+    }
+  }
+
+  return { session, response: null }
+}
+
+// Header sa tajnom uređaja (repetitori nemaju korisničku sesiju)
+export const DEVICE_TOKEN_HEADER = 'x-device-token'
+
+/**
+ * Provera uređaja koji API poziva bez prijave (npr. repetitor koji otprema snimak).
+ * Tajna je DEVICE_API_TOKEN; bez podešene tajne uređaji nemaju pristup.
+ */
+export function isDeviceAuthorized(): boolean {
+  const expected = process.env.DEVICE_API_TOKEN
+  const token = headers().get(DEVICE_TOKEN_HEADER)
+  if (!expected || !token) {
+    return false
+  }
+
+  // Poređenje heševa iste dužine u konstantnom vremenu
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  return timingSafeEqual(digest(token), digest(expected))
 }
@@ -1,14 +1,13 @@
 /**
  * Pomoćna funkcija za fetch sa autentikacijom
  * Dodaje token iz localStorage ili cookieja u Authorization header
- * Automatski dodaje x-auth-bypass u development okruženju za jednostavnije testiranje
+ * Rad bez prijave u razvoju uključuje se na serveru (AUTH_DEV_BYPASS), ne headerom
  */
 export async function fetchWithAuth(
   url: string,
   options: RequestInit = {}
 ): Promise<Response> {
   try {
-    // U development okruženju: obavezno postavi x-auth-bypass na true
     // Proveri da li smo u development modu na siguran način za client i server
     const isDevelopment = typeof window !== 'undefined'
       ? (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1')
@@ -18,8 +17,7 @@ export async function fetchWithAuth(
     // Pripremi dodatne headere
     const existingHeaders = options.headers as Record<string, string> || {};
     const customHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'x-auth-bypass': 'true' // U development modu uvek preskačemo autentikaciju
+      'Content-Type': 'application/json'
     };
     
     // Osnovna podešavanja za fetch
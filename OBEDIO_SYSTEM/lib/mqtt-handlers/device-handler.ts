@@ -28,8 +28,8 @@ export async function handleDeviceStatus(deviceId: string, payload: any) {
     const updatedDevice = await prisma.device.update({
       where: { id: device.id },
       data: {
-        battery: payload.battery || device.battery,
-        signalStrength: payload.signal || device.signalStrength,
+        battery: payload.battery ?? device.battery,
+        signal: payload.signal || device.signal,
         lastSeen: new Date()
       }
     })
@@ -39,7 +39,7 @@ export async function handleDeviceStatus(deviceId: string, payload: any) {
       deviceId: updatedDevice.id,
       uid: updatedDevice.uid,
       battery: updatedDevice.battery,
-      signal: updatedDevice.signalStrength,
+      signal: updatedDevice.signal,
       lastSeen: updatedDevice.lastSeen.toISOString()
     })
 
@@ -116,7 +116,7 @@ export async function upsertDevice(uid: string, payload: any) {
         type: payload.type || 'BUTTON',
         isActive: true,
         battery: payload.battery || 100,
-        signalStrength: payload.signal || 100,
+        signal: payload.signal || 100,
         lastSeen: new Date()
       }
     })
@@ -1,9 +1,18 @@
 import { PrismaClient } from '@prisma/client'
 import { emitter, SSE_EVENTS } from '@/lib/sseEmitter'
+import { RequestHistoryService, REQUEST_EVENT_TYPES } from '@/lib/services/request-history-service'
+import { PriorityService } from '@/lib/services/priority-service'
+import { WatchService } from '@/lib/services/watch-service'
+import { GuestContextService } from '@/lib/services/guest-context-service'
+import { ButtonRuleService } from '@/lib/services/button-rule-service'
+import { TranslationService } from '@/lib/services/translation-service'
 
 // Kreiraj Prisma klijenta
 const prisma = new PrismaClient()
 
+// Isti hitan slučaj stiže i na press i na emergency topic - spajamo ih u jedan zahtev
+const EMERGENCY_DEDUPE_WINDOW_MS = 60 * 1000
+
 /**
  * Kreira novi zahtev za servis kada je pritisnuto dugme
  */
@@ -14,6 +23,14 @@ export async function handleButtonPress(deviceId: string, payload: any) {
       return
     }
 
+    // Tip pritiska određuje kategoriju i prioritet zahteva.
+    // Hitan pritisak je uvek hitan slučaj - pravila dugmadi ga ne mogu preusmeriti.
+    const pressType = payload.pressType || payload.press_type
+    const classification = PriorityService.classifyPress(pressType)
+    if (PriorityService.isEmergency(classification.priority)) {
+      return handleEmergency(deviceId, { ...payload, alert_type: 'button_emergency' })
+    }
+
     // Pronaći uređaj u bazi
     const device = await prisma.device.findUnique({
       where: { uid: deviceId }
@@ -36,13 +53,54 @@ export async function handleButtonPress(deviceId: string, payload: any) {
       data: { lastSeen: new Date() }
     })
 
+    // Gosti iz kabine - posada unapred zna kome ide i šta voli
+    const guests = await GuestContextService.forLocation(device.locationId)
+
+    // Pravilo dugmeta može pritisak usmeriti na drugu akciju (bez pravila - podrazumevani zahtev)
+    const rule = await ButtonRuleService.match({
+      deviceId: device.id,
+      locationId: device.locationId,
+      pressPattern: ButtonRuleService.normalizePattern(pressType),
+      minuteOfDay: ButtonRuleService.minuteOfDay(new Date()),
+      guestPresent: guests.length > 0,
+    })
+
+    if (rule?.action === 'emergency') {
+      console.log(`Pravilo "${rule.name}" pokreće hitan slučaj sa uređaja ${device.name}`)
+      return handleEmergency(deviceId, { ...payload, alert_type: 'button_emergency' })
+    }
+
+    if (rule?.action === 'toggle_dnd') {
+      const dndActive = await ButtonRuleService.toggleDnd(device.locationId)
+      console.log(`Pravilo "${rule.name}": DND za ${device.room} je ${dndActive ? 'uključen' : dndActive === false ? 'isključen' : 'nepromenjen'}`)
+      return
+    }
+
+    if (rule?.action === 'webhook') {
+      await ButtonRuleService.callWebhook(rule, {
+        deviceUid: deviceId,
+        deviceName: device.name,
+        room: device.room,
+        pressType: pressType || 'single',
+        guestPresent: guests.length > 0,
+        timestamp: new Date().toISOString(),
+      })
+      return
+    }
+
+    // Poziv određenog člana posade ide direktno njemu, mimo automatske dodele
+    const assignedTo = rule?.action === 'call_crew' ? rule.actionConfig.userId ?? null : null
+
     // Kreiramo novi zahtev
     const newRequest = await prisma.request.create({
       data: {
         deviceId: device.id,
         status: 'PENDING',
-        timestamp: new Date(),
-        notes: payload.notes || '',
+        priority: rule?.actionConfig.priority || classification.priority,
+        category: rule?.actionConfig.category || classification.category,
+        guestContext: GuestContextService.serialize(guests),
+        assignedTo,
+        department: rule?.action === 'call_department' ? rule.actionConfig.department : null,
       },
       include: {
         device: {
@@ -54,13 +112,33 @@ export async function handleButtonPress(deviceId: string, payload: any) {
       }
     })
 
+    // Beležimo nastanak zahteva u istoriji
+    await RequestHistoryService.record(newRequest.id, REQUEST_EVENT_TYPES.CREATED, {
+      toUserId: assignedTo,
+      metadata: { source: 'button', deviceUid: deviceId, pressType, ruleId: rule?.id ?? null }
+    })
+
+    if (assignedTo) {
+      await WatchService.notifyUsers([assignedTo], {
+        type: 'service_request',
+        requestId: newRequest.id,
+        requestDetails: {
+          deviceName: device.name,
+          room: device.room,
+        }
+      })
+    }
+
     // Emitujemo SSE događaj za novi zahtev
     emitter.emitEvent(SSE_EVENTS.NEW_REQUEST, {
       requestId: newRequest.id,
       deviceId: device.id,
       deviceName: device.name,
       room: device.room,
-      timestamp: newRequest.timestamp.toISOString(),
+      timestamp: newRequest.createdAt.toISOString(),
+      priority: newRequest.priority,
+      category: newRequest.category,
+      guests,
     })
 
     console.log(`Kreiran novi zahtev ID: ${newRequest.id} od uređaja ${device.name} u prostoriji ${device.room}`)
@@ -71,6 +149,116 @@ export async function handleButtonPress(deviceId: string, payload: any) {
   }
 }
 
+/**
+ * Kreira hitan zahtev (dugme za hitne slučajeve ili detekcija pada sa sata).
+ * Hitan zahtev preskače red, alarmira sve satove i dashboard.
+ */
+export async function handleEmergency(deviceId: string, payload: { alert_type?: string }) {
+  try {
+    if (!deviceId) {
+      console.error('Nedostaje deviceId u MQTT poruci')
+      return
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { uid: deviceId }
+    })
+
+    if (!device) {
+      console.warn(`Nepoznat uređaj sa ID-om ${deviceId}`)
+      return
+    }
+
+    // Hitan slučaj se ne ignoriše ni sa neaktivnog uređaja, samo se beleži
+    if (!device.isActive) {
+      console.warn(`Hitan poziv sa neaktivnog uređaja ${device.name} (ID: ${device.id})`)
+    }
+
+    const now = new Date()
+    const existingEmergency = await prisma.request.findFirst({
+      where: {
+        deviceId: device.id,
+        priority: 'emergency',
+        status: { in: ['PENDING', 'IN_PROGRESS'] },
+        createdAt: { gte: new Date(now.getTime() - EMERGENCY_DEDUPE_WINDOW_MS) }
+      }
+    })
+
+    if (existingEmergency) {
+      console.log(`Hitan poziv sa uređaja ${device.name} već postoji kao zahtev ${existingEmergency.id}`)
+      return existingEmergency
+    }
+
+    await prisma.device.update({
+      where: { id: device.id },
+      data: { lastSeen: now }
+    })
+
+    const classification = PriorityService.classifyEmergency(payload.alert_type)
+    const guests = await GuestContextService.forLocation(device.locationId)
+    const newRequest = await prisma.request.create({
+      data: {
+        deviceId: device.id,
+        status: 'PENDING',
+        priority: classification.priority,
+        category: classification.category,
+        guestContext: GuestContextService.serialize(guests),
+      }
+    })
+
+    await RequestHistoryService.record(newRequest.id, REQUEST_EVENT_TYPES.CREATED, {
+      metadata: { source: 'emergency', deviceUid: deviceId, alertType: payload.alert_type || null }
+    })
+
+    emitter.emitEvent(SSE_EVENTS.NEW_REQUEST, {
+      requestId: newRequest.id,
+      deviceId: device.id,
+      deviceName: device.name,
+      room: device.room,
+      timestamp: newRequest.createdAt.toISOString(),
+      priority: newRequest.priority,
+      category: newRequest.category,
+      guests,
+    })
+
+    await raiseEmergencyAlarm(newRequest, device)
+
+    console.warn(`HITAN ZAHTEV ${newRequest.id} (${newRequest.category}) od uređaja ${device.name} u prostoriji ${device.room}`)
+    return newRequest
+  } catch (error) {
+    console.error('Greška pri kreiranju hitnog zahteva:', error)
+    throw error
+  }
+}
+
+/**
+ * Alarmira dashboard i sve satove za hitan zahtev,
+ * bez obzira na smenu i automatsku dodelu
+ */
+export async function raiseEmergencyAlarm(
+  request: { id: number; category: string; createdAt: Date },
+  device: { id: number; name: string | null; room: string }
+) {
+  emitter.emitEvent(SSE_EVENTS.EMERGENCY_ALERT, {
+    requestId: request.id,
+    deviceId: device.id,
+    deviceName: device.name,
+    room: device.room,
+    category: request.category,
+    createdAt: request.createdAt.toISOString(),
+  })
+
+  await WatchService.broadcast({
+    type: 'emergency_alarm',
+    requestId: request.id,
+    category: request.category,
+    requestDetails: {
+      deviceName: device.name,
+      room: device.room,
+    }
+  })
+}
+
 /**
  * Prihvata zahtev i dodeljuje ga korisniku
  */
@@ -117,7 +305,7 @@ export async function assignRequest(requestId: number, userId: number) {
             room: true,
           }
         },
-        assignedUser: {
+        assignee: {
           select: {
             id: true,
             name: true,
@@ -126,6 +314,17 @@ export async function assignRequest(requestId: number, userId: number) {
       }
     })
 
+    await RequestHistoryService.record(requestId, REQUEST_EVENT_TYPES.ACCEPTED, {
+      actorId: userId,
+      fromUserId: request.assignedTo,
+      toUserId: userId,
+    })
+
+    // Prevod poruke gosta prati jezik novog člana posade
+    if (request.assignedTo !== userId) {
+      await TranslationService.translateRequest(requestId)
+    }
+
     // Emitujemo SSE događaj za ažuriranje zahteva
     emitter.emitEvent(SSE_EVENTS.REQUEST_UPDATE, {
       requestId: updatedRequest.id,
@@ -134,8 +333,8 @@ export async function assignRequest(requestId: number, userId: number) {
       room: updatedRequest.device.room,
       status: updatedRequest.status,
       assignedTo: updatedRequest.assignedTo,
-      assignedName: updatedRequest.assignedUser?.name || null,
-      timestamp: updatedRequest.timestamp.toISOString(),
+      assignedName: updatedRequest.assignee?.name || null,
+      timestamp: updatedRequest.createdAt.toISOString(),
       updatedAt: new Date().toISOString(),
     })
 
@@ -150,7 +349,7 @@ export async function assignRequest(requestId: number, userId: number) {
 /**
  * Završava zahtev
  */
-export async function completeRequest(requestId: number) {
+export async function completeRequest(requestId: number, actorId?: number, incidentNote?: string) {
   try {
     // Provera da li zahtev postoji
     const request = await prisma.request.findUnique({
@@ -169,11 +368,17 @@ export async function completeRequest(requestId: number) {
       throw new Error(`Zahtev sa ID ${requestId} nije pronađen`)
     }
 
+    const closureError = PriorityService.validateClosure(request.priority, incidentNote)
+    if (closureError) {
+      throw new Error(closureError)
+    }
+
     // Ažuriranje statusa zahteva
     const updatedRequest = await prisma.request.update({
       where: { id: requestId },
       data: {
         status: 'COMPLETED',
+        ...(incidentNote && { incidentNote }),
       },
       include: {
         device: {
@@ -183,7 +388,7 @@ export async function completeRequest(requestId: number) {
             room: true,
           }
         },
-        assignedUser: {
+        assignee: {
           select: {
             id: true,
             name: true,
@@ -192,6 +397,11 @@ export async function completeRequest(requestId: number) {
       }
     })
 
+    await RequestHistoryService.record(requestId, REQUEST_EVENT_TYPES.COMPLETED, {
+      actorId: actorId ?? updatedRequest.assignedTo,
+      reason: incidentNote,
+    })
+
     // Emitujemo SSE događaj za ažuriranje zahteva
     emitter.emitEvent(SSE_EVENTS.REQUEST_UPDATE, {
       requestId: updatedRequest.id,
@@ -200,8 +410,8 @@ export async function completeRequest(requestId: number) {
       room: updatedRequest.device.room,
       status: updatedRequest.status,
       assignedTo: updatedRequest.assignedTo,
-      assignedName: updatedRequest.assignedUser?.name || null,
-      timestamp: updatedRequest.timestamp.toISOString(),
+      assignedName: updatedRequest.assignee?.name || null,
+      timestamp: updatedRequest.createdAt.toISOString(),
       updatedAt: new Date().toISOString(),
     })
 
@@ -0,0 +1,281 @@
+import { PrismaClient } from '@prisma/client'
+import { DispatchService } from '@/lib/services/dispatch-service'
+import { TranslationService } from '@/lib/services/translation-service'
+import { completeRequest } from '@/lib/mqtt-handlers/request-handler'
+import { DutyService } from '@/lib/services/duty-service'
+import { HandoverService, HANDOVER_STATUSES } from '@/lib/services/handover-service'
+
+// Kreiraj Prisma klijenta
+const prisma = new PrismaClient()
+
+const CREW_STATUSES = ['available', 'busy', 'break', 'offline']
+
+// Polja koja satovi šalju u porukama (vidi lib/virtual-devices/smartwatch.ts)
+type WatchPayload = {
+  requestId?: number | string
+  crewId?: number
+  reason?: string
+  completionNotes?: string
+  reply?: string
+  status?: string
+  locationId?: number
+  room?: string
+  worn?: boolean
+  handoverId?: number | string
+}
+
+/**
+ * Pronalazi člana posade kome je sat dodeljen
+ */
+async function resolveWatchUser(deviceId: string, payload: WatchPayload): Promise<number | null> {
+  const device = await prisma.device.findUnique({
+    where: { uid: deviceId },
+    select: { id: true, type: true, assignedToUserId: true }
+  })
+
+  if (!device) {
+    console.warn(`Nepoznat uređaj sa ID-om ${deviceId}`)
+    return null
+  }
+
+  if (device.type !== 'SMART_WATCH') {
+    console.warn(`Uređaj ${deviceId} nije sat, poruka se ignoriše`)
+    return null
+  }
+
+  const userId = device.assignedToUserId ?? (typeof payload.crewId === 'number' ? payload.crewId : null)
+  if (!userId) {
+    console.warn(`Sat ${deviceId} nije dodeljen članu posade`)
+  }
+  return userId
+}
+
+/**
+ * Prihvatanje zahteva sa sata
+ */
+export async function handleWatchRequestAccept(deviceId: string, payload: WatchPayload) {
+  try {
+    const requestId = Number(payload.requestId)
+    if (!requestId) {
+      console.error('Nedostaje requestId u poruci za prihvatanje')
+      return
+    }
+
+    const userId = await resolveWatchUser(deviceId, payload)
+    if (!userId) return
+
+    return await DispatchService.handleAccept(requestId, userId)
+  } catch (error) {
+    console.error('Greška pri prihvatanju zahteva sa sata:', error)
+    throw error
+  }
+}
+
+/**
+ * Odbijanje zahteva sa sata - zahtev se nudi sledećem kandidatu
+ */
+export async function handleWatchRequestDecline(deviceId: string, payload: WatchPayload) {
+  try {
+    const requestId = Number(payload.requestId)
+    if (!requestId) {
+      console.error('Nedostaje requestId u poruci za odbijanje')
+      return
+    }
+
+    const userId = await resolveWatchUser(deviceId, payload)
+    if (!userId) return
+
+    return await DispatchService.handleDecline(requestId, userId, payload.reason)
+  } catch (error) {
+    console.error('Greška pri odbijanju zahteva sa sata:', error)
+    throw error
+  }
+}
+
+/**
+ * Završavanje zahteva sa sata. Za hitne zahteve completionNotes je beleška o incidentu.
+ */
+export async function handleWatchRequestComplete(deviceId: string, payload: WatchPayload) {
+  try {
+    const requestId = Number(payload.requestId)
+    if (!requestId) {
+      console.error('Nedostaje requestId u poruci za završavanje')
+      return
+    }
+
+    const userId = await resolveWatchUser(deviceId, payload)
+    if (!userId) return
+
+    return await completeRequest(requestId, userId, payload.completionNotes)
+  } catch (error) {
+    console.error('Greška pri završavanju zahteva sa sata:', error)
+    throw error
+  }
+}
+
+/**
+ * Gotov odgovor gostu izabran na satu - prikazuje se u kabini na jeziku gosta
+ */
+export async function handleWatchRequestReply(deviceId: string, payload: WatchPayload) {
+  try {
+    const requestId = Number(payload.requestId)
+    if (!requestId || !payload.reply) {
+      console.error('Nedostaje requestId ili odgovor u poruci za odgovor gostu')
+      return
+    }
+
+    const userId = await resolveWatchUser(deviceId, payload)
+    if (!userId) return
+
+    const reply = await TranslationService.sendReply(requestId, payload.reply, userId)
+    if (!reply) {
+      console.warn(`Odgovor ${payload.reply} za zahtev ${requestId} nije poslat (nepoznat zahtev ili odgovor)`)
+    }
+    return reply
+  } catch (error) {
+    console.error('Greška pri slanju odgovora gostu sa sata:', error)
+    throw error
+  }
+}
+
+/**
+ * Ažurira status člana posade (available, busy, break, offline)
+ */
+export async function handleWatchCrewStatus(deviceId: string, payload: WatchPayload) {
+  try {
+    if (!payload.status || !CREW_STATUSES.includes(payload.status)) {
+      console.warn(`Nepoznat status posade: ${payload.status}`)
+      return
+    }
+
+    const userId = await resolveWatchUser(deviceId, payload)
+    if (!userId) return
+
+    return await prisma.user.update({
+      where: { id: userId },
+      data: { crewStatus: payload.status }
+    })
+  } catch (error) {
+    console.error('Greška pri ažuriranju statusa posade:', error)
+    throw error
+  }
+}
+
+/**
+ * Beleži poslednju poznatu lokaciju člana posade.
+ * Sat šalje locationId ili naziv prostorije; same GPS koordinate se na brodu ne koriste.
+ */
+export async function handleWatchLocation(deviceId: string, payload: WatchPayload) {
+  try {
+    let location = null
+    if (typeof payload.locationId === 'number') {
+      location = await prisma.location.findUnique({ where: { id: payload.locationId } })
+    } else if (typeof payload.room === 'string') {
+      location = await prisma.location.findFirst({ where: { name: payload.room } })
+    }
+
+    if (!location) {
+      return
+    }
+
+    const userId = await resolveWatchUser(deviceId, payload)
+    if (!userId) return
+
+    return await prisma.user.update({
+      where: { id: userId },
+      data: { lastLocationId: location.id, lastLocationAt: new Date() }
+    })
+  } catch (error) {
+    console.error('Greška pri ažuriranju lokacije posade:', error)
+    throw error
+  }
+}
+
+/**
+ * Sat stavljen na ruku ili skinut; nošenje sata potvrđuje početak planirane smene
+ */
+export async function handleWatchWorn(deviceId: string, payload: WatchPayload) {
+  try {
+    if (typeof payload.worn !== 'boolean') {
+      console.warn('Nedostaje worn u poruci sa sata')
+      return
+    }
+
+    const userId = await resolveWatchUser(deviceId, payload)
+    if (!userId) return
+
+    return await DutyService.setWatchWorn(userId, payload.worn)
+  } catch (error) {
+    console.error('Greška pri obradi nošenja sata:', error)
+    throw error
+  }
+}
+
+/**
+ * "Start watch" na satu - započinje planiranu smenu
+ */
+export async function handleWatchDutyStart(deviceId: string, payload: WatchPayload) {
+  try {
+    const userId = await resolveWatchUser(deviceId, payload)
+    if (!userId) return
+
+    const shift = await DutyService.confirmFromWatch(userId, 'tap')
+    if (!shift) {
+      console.warn(`Smena člana posade ${userId} nije započeta (nema planirane smene ili primopredaja čeka potvrdu)`)
+    }
+    return shift
+  } catch (error) {
+    console.error('Greška pri započinjanju smene sa sata:', error)
+    throw error
+  }
+}
+
+/**
+ * "End watch" na satu - završava smenu u toku
+ */
+export async function handleWatchDutyEnd(deviceId: string, payload: WatchPayload) {
+  try {
+    const userId = await resolveWatchUser(deviceId, payload)
+    if (!userId) return
+
+    if (!(await DutyService.getLiveShift(userId))) {
+      console.warn(`Član posade ${userId} nema smenu u toku`)
+      return null
+    }
+    return await DutyService.endShift(userId)
+  } catch (error) {
+    console.error('Greška pri završavanju smene sa sata:', error)
+    throw error
+  }
+}
+
+/**
+ * Potvrda primopredaje na satu - dolazeća smena počinje posle potvrde
+ */
+export async function handleWatchHandoverAck(deviceId: string, payload: WatchPayload) {
+  try {
+    const handoverId = Number(payload.handoverId)
+    if (!Number.isInteger(handoverId)) {
+      console.warn('Nedostaje handoverId u poruci sa sata')
+      return
+    }
+
+    const userId = await resolveWatchUser(deviceId, payload)
+    if (!userId) return
+
+    const handover = await HandoverService.get(handoverId)
+    if (!handover || handover.incomingUserId !== userId) {
+      console.warn(`Primopredaja ${handoverId} nije upućena članu posade ${userId}`)
+      return null
+    }
+    if (handover.status !== HANDOVER_STATUSES.PENDING) {
+      console.warn(`Primopredaja ${handoverId} je već potvrđena`)
+      return null
+    }
+
+    return await HandoverService.acknowledge(handoverId, 'watch')
+  } catch (error) {
+    console.error('Greška pri potvrdi primopredaje sa sata:', error)
+    throw error
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Minimalan PDF (1.4) za štampane izveštaje - tekst, linije i pravougaonici
+ * sa standardnim Helvetica fontovima, bez spoljnih biblioteka.
+ * Koordinate su u tačkama (1/72 inča) sa početkom u gornjem levom uglu strane.
+ */
+
+export interface PdfTextOptions {
+  size?: number
+  bold?: boolean
+  // Poravnanje u odnosu na x (širina teksta se procenjuje)
+  align?: 'left' | 'center' | 'right'
+}
+
+// A4 položeno
+export const A4_LANDSCAPE = { width: 842, height: 595 }
+
+// Znakovi van Latin-1 koje WinAnsi ipak ima
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  'Š': 0x8a, 'š': 0x9a, 'Ž': 0x8e, 'ž': 0x9e, 'Œ': 0x8c, 'œ': 0x9c,
+  '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '€': 0x80,
+}
+
+// Slova bez dijakritika u WinAnsi (npr. č, ć) se zamenjuju osnovnim slovom
+const toWinAnsi = (text: string) => Array.from(text).map(char => {
+  const code = WIN_ANSI_EXTRA[char] ?? char.charCodeAt(0)
+  if (code >= 0x20 && code < 0x7f) {
+    return char === '(' || char === ')' || char === '\\' ? `\\${char}` : char
+  }
+  if (code < 0x100 && (code >= 0xa0 || WIN_ANSI_EXTRA[char] !== undefined)) {
+    return `\\${code.toString(8).padStart(3, '0')}`
+  }
+  const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+  if (base.length === 1 && base.charCodeAt(0) < 0x7f) {
+    return base
+  }
+  return char === 'đ' ? 'd' : char === 'Đ' ? 'D' : '?'
+}).join('')
+
+const format = (value: number) => String(Math.round(value * 100) / 100)
+
+export class PdfDocument {
+  private pages: string[][] = []
+
+  constructor(readonly width = A4_LANDSCAPE.width, readonly height = A4_LANDSCAPE.height) {
+    this.addPage()
+  }
+
+  addPage() {
+    this.pages.push([])
+    return this
+  }
+
+  private get content() {
+    return this.pages[this.pages.length - 1]
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}) {
+    const size = options.size ?? 8
+    // Prosečna širina Helvetica znaka je oko pola visine fonta
+    const width = text.length * size * (options.bold ? 0.55 : 0.5)
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x
+    const font = options.bold ? 'F2' : 'F1'
+
+    this.content.push(`BT /${font} ${format(size)} Tf ${format(left)} ${format(this.height - y - size)} Td (${toWinAnsi(text)}) Tj ET`)
+    return this
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5) {
+    this.content.push(`${format(lineWidth)} w ${format(x1)} ${format(this.height - y1)} m ${format(x2)} ${format(this.height - y2)} l S`)
+    return this
+  }
+
+  // gray: 0 crno, 1 belo; bez gray se crta samo okvir
+  rect(x: number, y: number, width: number, height: number, gray?: number) {
+    const box = `${format(x)} ${format(this.height - y - height)} ${format(width)} ${format(height)} re`
+    this.content.push(gray === undefined ? `0.5 w ${box} S` : `${format(gray)} g ${box} f 0 g`)
+    return this
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = []
+    const pageIds = this.pages.map((_, index) => 5 + index * 2)
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+
+    this.pages.forEach((page, index) => {
+      const stream = page.join('\n')
+      objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+    })
+
+    // Tabela pomeraja (xref) traži tačan položaj svakog objekta u bajtovima
+    let pdf = '%PDF-1.4\n'
+    const offsets: number[] = []
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(pdf, 'latin1')
+      pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`
+    }
+
+    const xref = Buffer.byteLength(pdf, 'latin1')
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+    for (let id = 1; id < objects.length; id++) {
+      pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+    }
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+    return Buffer.from(pdf, 'latin1')
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Uloge i dozvole posade - jedino mesto gde se definiše ko šta sme u API-ju.
+ * Rute traže dozvolu (authorize u lib/auth.ts), nikad ulogu direktno.
+ */
+
+export const ROLES = [
+  'admin',
+  'captain',
+  'chief_stew',
+  'stew',
+  'engineer',
+  'deckhand',
+  'management',
+] as const
+
+export type Role = (typeof ROLES)[number]
+
+export const PERMISSIONS = [
+  'requests:read',
+  'requests:handle',
+  'requests:manage',
+  'guests:read',
+  'guests:write',
+  'charters:manage',
+  'crew:read',
+  'crew:write',
+  'crew:status',
+  'shifts:read',
+  'shifts:write',
+  'rest:countersign',
+  'locations:read',
+  'locations:write',
+  'devices:read',
+  'devices:write',
+  'firmware:manage',
+  'provisioning:manage',
+  'provisioning:delete',
+  'mqtt:read',
+  'mqtt:write',
+  'escalation:manage',
+  'analytics:read',
+  'system:read',
+  'users:read',
+  'events:read',
+  'uploads:write',
+  'simulator:manage',
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+// Dozvole zajedničke celoj posadi (prijem i rad na zahtevima, pregled rasporeda)
+const CREW_BASE: Permission[] = [
+  'requests:read',
+  'requests:handle',
+  'crew:read',
+  'crew:status',
+  'shifts:read',
+  'locations:read',
+  'devices:read',
+  'users:read',
+  'events:read',
+]
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  captain: [
+    ...CREW_BASE,
+    'requests:manage',
+    'guests:read',
+    'guests:write',
+    'charters:manage',
+    'crew:write',
+    'shifts:write',
+    'rest:countersign',
+    'locations:write',
+    'mqtt:read',
+    'escalation:manage',
+    'analytics:read',
+    'system:read',
+    'uploads:write',
+  ],
+  chief_stew: [
+    ...CREW_BASE,
+    'requests:manage',
+    'guests:read',
+    'guests:write',
+    'charters:manage',
+    'shifts:write',
+    'escalation:manage',
+    'analytics:read',
+    'system:read',
+    'uploads:write',
+  ],
+  stew: [
+    ...CREW_BASE,
+    'guests:read',
+  ],
+  engineer: [
+    ...CREW_BASE,
+    'locations:write',
+    'devices:write',
+    'firmware:manage',
+    'provisioning:manage',
+    'mqtt:read',
+    'mqtt:write',
+    'analytics:read',
+    'system:read',
+    'simulator:manage',
+  ],
+  deckhand: CREW_BASE,
+  // Menadžment (vlasnik, kompanija) - samo čitanje
+  management: PERMISSIONS.filter(permission => permission.endsWith(':read')),
+}
+
+// Pozicije iz User.role (npr. "Chief Stewardess", "Bosun") -> uloga; redosled je bitan
+const POSITION_ROLES: [RegExp, Role][] = [
+  [/^admin/i, 'admin'],
+  [/captain/i, 'captain'],
+  [/chief stew|head of interior|purser/i, 'chief_stew'],
+  [/engineer|\beto\b/i, 'engineer'],
+  [/stew|butler|interior|chef|cook|^crew$/i, 'stew'],
+  [/deck|bosun|officer|mate|tender/i, 'deckhand'],
+  [/management|manager|owner|read.?only/i, 'management'],
+]
+
+const isRole = (value: string): value is Role => (ROLES as readonly string[]).includes(value)
+
+/**
+ * Uloga korisnika: eksplicitna accessRole ima prednost, inače se izvodi iz pozicije.
+ * Nepoznata pozicija nema ulogu (i nema pristup).
+ */
+export function resolveRole(user: { role?: string | null; accessRole?: string | null } | null | undefined): Role | null {
+  if (!user) return null
+
+  if (user.accessRole && isRole(user.accessRole)) {
+    return user.accessRole
+  }
+
+  const position = user.role?.trim()
+  if (!position) return null
+  if (isRole(position)) return position
+
+  return POSITION_ROLES.find(([pattern]) => pattern.test(position))?.[1] ?? null
+}
+
+export function can(role: Role | null, permission: Permission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission)
+}
@@ -0,0 +1,283 @@
+import { PrismaClient } from '@prisma/client'
+import { REQUEST_EVENT_TYPES } from '@/lib/services/request-history-service'
+
+// Dimenzije po kojima se grupišu vremena odziva
+export const ANALYTICS_DIMENSIONS = ['crew', 'department', 'deck', 'location', 'device', 'hour', 'guest'] as const
+
+export type AnalyticsDimension = (typeof ANALYTICS_DIMENSIONS)[number]
+
+export interface DurationStats {
+  count: number
+  avg: number | null
+  p50: number | null
+  p90: number | null
+  p99: number | null
+}
+
+export interface ResponseTimeGroup {
+  key: string
+  label: string
+  requests: number
+  timeToAccept: DurationStats
+  timeToComplete: DurationStats
+}
+
+export interface ResponseTimeReport {
+  from: string
+  to: string
+  overall: ResponseTimeGroup
+  groups: Partial<Record<AnalyticsDimension, ResponseTimeGroup[]>>
+}
+
+// Jedan zahtev sveden na ono što je potrebno za analitiku
+export type RequestSample = {
+  createdAt: Date
+  acceptSeconds: number | null
+  completeSeconds: number | null
+  keys: Record<AnalyticsDimension, { key: string; label: string }[]>
+}
+
+type RequestRow = {
+  id: number
+  status: string
+  createdAt: Date
+  updatedAt: Date
+  assignee: { id: number; name: string; department: string | null } | null
+  device: {
+    id: number
+    name: string | null
+    room: string
+    locationRef: {
+      id: number
+      name: string
+      deck: string
+      guests: { id: number; name: string; arrivalDate: Date; departureDate: Date }[]
+    } | null
+  }
+  events: { type: string; createdAt: Date }[]
+}
+
+const UNKNOWN = { key: 'unknown', label: 'Nepoznato' }
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis za analitiku vremena odziva na zahteve (SLA izveštaji)
+ */
+export class AnalyticsService {
+  /**
+   * Percentil metodom najbližeg ranga nad sortiranim nizom
+   */
+  static percentile(sorted: number[], p: number): number | null {
+    if (sorted.length === 0) {
+      return null
+    }
+    const rank = Math.ceil((p / 100) * sorted.length)
+    return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1]
+  }
+
+  /**
+   * Sažima listu trajanja (u sekundama) u prosek i percentile
+   */
+  static summarize(values: number[]): DurationStats {
+    const sorted = [...values].sort((a, b) => a - b)
+    const avg = sorted.length > 0
+      ? Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length)
+      : null
+
+    return {
+      count: sorted.length,
+      avg,
+      p50: AnalyticsService.percentile(sorted, 50),
+      p90: AnalyticsService.percentile(sorted, 90),
+      p99: AnalyticsService.percentile(sorted, 99),
+    }
+  }
+
+  /**
+   * Pretvara zahtev sa istorijom u uzorak za analitiku.
+   * Vreme prihvatanja i završetka se čita iz istorije zahteva; za završene zahteve
+   * bez COMPLETED događaja (stariji podaci) koristi se updatedAt kao aproksimacija.
+   */
+  static toSample(request: RequestRow): RequestSample {
+    const firstEvent = (type: string) =>
+      request.events
+        .filter(event => event.type === type)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0]
+
+    const secondsSinceCreated = (date: Date) =>
+      Math.max(0, Math.round((date.getTime() - request.createdAt.getTime()) / 1000))
+
+    const accepted = firstEvent(REQUEST_EVENT_TYPES.ACCEPTED)
+    const completed = firstEvent(REQUEST_EVENT_TYPES.COMPLETED)
+    const completedAt = completed?.createdAt || (request.status === 'COMPLETED' ? request.updatedAt : null)
+
+    const location = request.device.locationRef
+    // Gost kome se pripisuje zahtev je onaj koji je boravio u kabini u trenutku poziva
+    const guests = (location?.guests || []).filter(guest =>
+      guest.arrivalDate <= request.createdAt && guest.departureDate >= request.createdAt
+    )
+    const hour = request.createdAt.getHours()
+
+    return {
+      createdAt: request.createdAt,
+      acceptSeconds: accepted ? secondsSinceCreated(accepted.createdAt) : null,
+      completeSeconds: completedAt ? secondsSinceCreated(completedAt) : null,
+      keys: {
+        crew: [request.assignee
+          ? { key: String(request.assignee.id), label: request.assignee.name }
+          : { key: 'unassigned', label: 'Nedodeljeno' }],
+        department: [request.assignee?.department
+          ? { key: request.assignee.department, label: request.assignee.department }
+          : UNKNOWN],
+        deck: [location ? { key: location.deck, label: location.deck } : UNKNOWN],
+        location: [location
+          ? { key: String(location.id), label: location.name }
+          : { key: `room:${request.device.room}`, label: request.device.room }],
+        device: [{ key: String(request.device.id), label: request.device.name || request.device.room }],
+        hour: [{ key: String(hour), label: `${String(hour).padStart(2, '0')}:00` }],
+        guest: guests.length > 0
+          ? guests.map(guest => ({ key: String(guest.id), label: guest.name }))
+          : [{ key: 'none', label: 'Bez gosta' }],
+      },
+    }
+  }
+
+  /**
+   * Grupiše uzorke po dimenziji i računa statistiku za svaku grupu
+   */
+  static groupSamples(samples: RequestSample[], dimension: AnalyticsDimension): ResponseTimeGroup[] {
+    const buckets = new Map<string, { label: string; samples: RequestSample[] }>()
+
+    for (const sample of samples) {
+      for (const { key, label } of sample.keys[dimension]) {
+        const bucket = buckets.get(key) || { label, samples: [] }
+        bucket.samples.push(sample)
+        buckets.set(key, bucket)
+      }
+    }
+
+    const groups = Array.from(buckets.entries()).map(([key, bucket]) =>
+      AnalyticsService.buildGroup(key, bucket.label, bucket.samples)
+    )
+
+    // Sati se prikazuju hronološki, ostalo po broju zahteva
+    return dimension === 'hour'
+      ? groups.sort((a, b) => Number(a.key) - Number(b.key))
+      : groups.sort((a, b) => b.requests - a.requests)
+  }
+
+  static buildGroup(key: string, label: string, samples: RequestSample[]): ResponseTimeGroup {
+    return {
+      key,
+      label,
+      requests: samples.length,
+      timeToAccept: AnalyticsService.summarize(
+        samples.map(sample => sample.acceptSeconds).filter((value): value is number => value !== null)
+      ),
+      timeToComplete: AnalyticsService.summarize(
+        samples.map(sample => sample.completeSeconds).filter((value): value is number => value !== null)
+      ),
+    }
+  }
+
+  /**
+   * Izveštaj o vremenima odziva za zahteve kreirane u datom periodu
+   */
+  static async getResponseTimes(
+    from: Date,
+    to: Date,
+    dimensions: readonly AnalyticsDimension[] = ANALYTICS_DIMENSIONS
+  ): Promise<ResponseTimeReport> {
+    try {
+      const requests = await prisma.request.findMany({
+        where: {
+          createdAt: { gte: from, lte: to },
+          status: { not: 'CANCELLED' },
+        },
+        select: {
+          id: true,
+          status: true,
+          createdAt: true,
+          updatedAt: true,
+          assignee: {
+            select: { id: true, name: true, department: true }
+          },
+          device: {
+            select: {
+              id: true,
+              name: true,
+              room: true,
+              locationRef: {
+                select: {
+                  id: true,
+                  name: true,
+                  deck: true,
+                  guests: {
+                    select: { id: true, name: true, arrivalDate: true, departureDate: true }
+                  }
+                }
+              }
+            }
+          },
+          events: {
+            where: { type: { in: [REQUEST_EVENT_TYPES.ACCEPTED, REQUEST_EVENT_TYPES.COMPLETED] } },
+            select: { type: true, createdAt: true }
+          }
+        }
+      })
+
+      const samples = (requests as RequestRow[]).map(AnalyticsService.toSample)
+
+      const groups: ResponseTimeReport['groups'] = {}
+      for (const dimension of dimensions) {
+        groups[dimension] = AnalyticsService.groupSamples(samples, dimension)
+      }
+
+      return {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        overall: AnalyticsService.buildGroup('all', 'Ukupno', samples),
+        groups,
+      }
+    } catch (error) {
+      console.error('Greška pri računanju vremena odziva:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Izvozi izveštaj u CSV (jedan red po grupi, trajanja u sekundama)
+   */
+  static toCsv(report: ResponseTimeReport): string {
+    const header = [
+      'dimension', 'key', 'label', 'requests',
+      'accept_count', 'accept_avg', 'accept_p50', 'accept_p90', 'accept_p99',
+      'complete_count', 'complete_avg', 'complete_p50', 'complete_p90', 'complete_p99',
+    ]
+
+    const escape = (value: string | number | null) => {
+      if (value === null) return ''
+      const text = String(value)
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }
+
+    const row = (dimension: string, group: ResponseTimeGroup) => [
+      dimension, group.key, group.label, group.requests,
+      group.timeToAccept.count, group.timeToAccept.avg, group.timeToAccept.p50,
+      group.timeToAccept.p90, group.timeToAccept.p99,
+      group.timeToComplete.count, group.timeToComplete.avg, group.timeToComplete.p50,
+      group.timeToComplete.p90, group.timeToComplete.p99,
+    ].map(escape).join(',')
+
+    const lines = [header.join(','), row('overall', report.overall)]
+    for (const [dimension, groups] of Object.entries(report.groups)) {
+      for (const group of groups || []) {
+        lines.push(row(dimension, group))
+      }
+    }
+
+    return lines.join('\n') + '\n'
+  }
+}
@@ -0,0 +1,468 @@
+import { PrismaClient } from '@prisma/client'
+import type { StatusPayload } from '@obedio/mqtt-contract'
+import { AnalyticsService } from '@/lib/services/analytics-service'
+import { emitter, SSE_EVENTS, BatteryAlertEvent } from '@/lib/sseEmitter'
+import { WatchService } from '@/lib/services/watch-service'
+
+export type RateSource = 'device' | 'model' | 'none'
+
+export interface BatteryPoint {
+  level: number
+  firmwareVersion?: string | null
+  recordedAt: Date
+}
+
+// Medijana pražnjenja za tip uređaja i firmware; firmwareVersion null je model za ceo tip
+export interface DischargeModel {
+  type: string
+  firmwareVersion: string | null
+  devices: number
+  ratePerDay: number
+}
+
+// Sledeći čarter ili, kada čarter nije unet, prvi najavljeni dolazak gosta
+export interface NextCharter {
+  charterId: number | null
+  name: string
+  startDate: string
+  endDate: string
+}
+
+export interface BatteryForecast {
+  deviceId: number
+  uid: string
+  name: string | null
+  type: string
+  firmwareVersion: string | null
+  location: string | null
+  deck: string | null
+  battery: number
+  lastSeen: string
+  // Pražnjenje u % dnevno: izmereno na uređaju ili procenjeno iz modela
+  ratePerDay: number | null
+  rateSource: RateSource
+  expectedRatePerDay: number | null
+  daysUntilEmpty: number | null
+  projectedEmptyAt: string | null
+  replaceBeforeCharter: boolean
+  abnormal: boolean
+  alertId: number | null
+}
+
+export interface BatteryPlan {
+  generatedAt: string
+  nextCharter: NextCharter | null
+  thresholds: { replaceLevel: number; abnormalFactor: number; abnormalRatePerDay: number }
+  models: DischargeModel[]
+  devices: BatteryForecast[]
+}
+
+export interface BatteryPlanInput {
+  devices: {
+    id: number
+    uid: string
+    name: string | null
+    type: string
+    firmwareVersion: string | null
+    battery: number
+    lastSeen: Date
+    locationRef: { name: string; deck: string } | null
+  }[]
+  readings: (BatteryPoint & { deviceUid: string })[]
+  alerts: { id: number; deviceUid: string }[]
+  nextCharter: { charterId: number | null; name: string; startDate: Date; endDate: Date } | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RETENTION_DAYS = parseInt(process.env.BATTERY_RETENTION_DAYS || '180', 10)
+// Koliko dana istorije ulazi u procenu pražnjenja
+const HISTORY_DAYS = parseInt(process.env.BATTERY_HISTORY_DAYS || '60', 10)
+// Nepromenjen nivo se upisuje najviše jednom u ovom intervalu
+const SAMPLE_INTERVAL_MS = parseInt(process.env.BATTERY_SAMPLE_INTERVAL_MS || '3600000', 10)
+// Skok nivoa od ovoliko procenata znači zamenjenu ili napunjenu bateriju
+const RECHARGE_JUMP = parseInt(process.env.BATTERY_RECHARGE_JUMP || '10', 10)
+// Najmanji pad nivoa (ili jedan dan merenja) pre nego što se pražnjenje računa
+const MIN_DROP = parseInt(process.env.BATTERY_MIN_DROP || '5', 10)
+// Ispod ovog nivoa bateriju treba zameniti (isti prag kao "low battery" u statistici uređaja)
+const REPLACE_LEVEL = parseInt(process.env.BATTERY_REPLACE_LEVEL || '20', 10)
+const ABNORMAL_FACTOR = parseFloat(process.env.BATTERY_ABNORMAL_FACTOR || '3')
+const ABNORMAL_RATE_PER_DAY = parseFloat(process.env.BATTERY_ABNORMAL_RATE_PER_DAY || '10')
+const MODEL_INTERVAL_MS = parseInt(process.env.BATTERY_MODEL_INTERVAL_MS || '3600000', 10)
+// Odeljenje čiji satovi dobijaju upozorenje o neuobičajenom pražnjenju
+const ALERT_DEPARTMENT = process.env.BATTERY_ALERT_DEPARTMENT || 'Engineering'
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals
+
+const modelKey = (type: string, firmwareVersion: string | null) => `${type}|${firmwareVersion ?? ''}`
+
+/**
+ * Servis za istoriju baterija, procenu pražnjenja i plan zamene baterija
+ */
+export class BatteryService {
+  private static timer: NodeJS.Timeout | null = null
+  // Modeli pražnjenja za proveru neuobičajenog pražnjenja u mqttBridge procesu
+  private static models: DischargeModel[] = []
+
+  /**
+   * Pokreće osvežavanje modela pražnjenja i brisanje stare istorije (u mqttBridge procesu)
+   */
+  static start(intervalMs: number = MODEL_INTERVAL_MS) {
+    if (BatteryService.timer) {
+      return
+    }
+
+    const refresh = () => {
+      BatteryService.refresh().catch(error => {
+        console.error('Greška pri osvežavanju modela pražnjenja baterija:', error)
+      })
+    }
+    BatteryService.timer = setInterval(refresh, intervalMs)
+    refresh()
+    console.log('Praćenje baterija pokrenuto')
+  }
+
+  static stop() {
+    if (BatteryService.timer) {
+      clearInterval(BatteryService.timer)
+      BatteryService.timer = null
+    }
+  }
+
+  static async refresh(now: Date = new Date()) {
+    await prisma.batteryReading.deleteMany({
+      where: { recordedAt: { lt: new Date(now.getTime() - RETENTION_DAYS * DAY_MS) } }
+    })
+    BatteryService.models = (await BatteryService.getPlan(now)).models
+  }
+
+  /**
+   * Čuva nivo baterije iz status poruke i proverava da li se uređaj prazni neuobičajeno brzo
+   */
+  static async recordStatus(deviceUid: string, payload: StatusPayload, now: Date = new Date()) {
+    if (typeof payload.battery !== 'number') {
+      return
+    }
+
+    try {
+      const device = await prisma.device.findUnique({
+        where: { uid: deviceUid },
+        select: { id: true, name: true, type: true, firmwareVersion: true }
+      })
+      if (!device) {
+        return
+      }
+
+      const level = Math.max(0, Math.min(100, Math.round(payload.battery)))
+      const firmwareVersion = payload.firmwareVersion ?? device.firmwareVersion
+      const last = await prisma.batteryReading.findFirst({
+        where: { deviceUid },
+        orderBy: { recordedAt: 'desc' }
+      })
+
+      if (
+        last &&
+        last.level === level &&
+        last.firmwareVersion === firmwareVersion &&
+        now.getTime() - last.recordedAt.getTime() < SAMPLE_INTERVAL_MS
+      ) {
+        return
+      }
+
+      await prisma.batteryReading.create({
+        data: { deviceUid, level, firmwareVersion, recordedAt: now }
+      })
+
+      if (last && level >= last.level + RECHARGE_JUMP) {
+        // Nova baterija zatvara upozorenje o pražnjenju
+        await prisma.batteryAlert.updateMany({
+          where: { deviceUid, resolvedAt: null },
+          data: { resolvedAt: now }
+        })
+      } else if (last && level < last.level) {
+        await BatteryService.checkDrain({ ...device, firmwareVersion }, deviceUid, level, now)
+      }
+    } catch (error) {
+      console.error('Greška pri čuvanju nivoa baterije:', error)
+    }
+  }
+
+  /**
+   * Pražnjenje u % dnevno (nagib linearne regresije) od poslednje zamene baterije ili promene firmware-a;
+   * null dok nema dovoljno merenja
+   */
+  static dischargeRate(points: BatteryPoint[]): number | null {
+    const sorted = [...points].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+    let start = 0
+    for (let index = 1; index < sorted.length; index++) {
+      const previous = sorted[index - 1]
+      const current = sorted[index]
+      const firmwareChanged = !!previous.firmwareVersion && !!current.firmwareVersion &&
+        previous.firmwareVersion !== current.firmwareVersion
+      if (current.level >= previous.level + RECHARGE_JUMP || firmwareChanged) {
+        start = index
+      }
+    }
+
+    const segment = sorted.slice(start)
+    if (segment.length < 2) {
+      return null
+    }
+
+    const first = segment[0].recordedAt.getTime()
+    const span = segment[segment.length - 1].recordedAt.getTime() - first
+    const drop = Math.max(...segment.map(point => point.level)) - segment[segment.length - 1].level
+    if (span <= 0 || (drop < MIN_DROP && span < DAY_MS)) {
+      return null
+    }
+
+    const xs = segment.map(point => (point.recordedAt.getTime() - first) / DAY_MS)
+    const ys = segment.map(point => point.level)
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length
+    let covariance = 0
+    let variance = 0
+    xs.forEach((x, index) => {
+      covariance += (x - meanX) * (ys[index] - meanY)
+      variance += (x - meanX) ** 2
+    })
+
+    return round(Math.max(0, -covariance / variance), 2)
+  }
+
+  /**
+   * Medijana pražnjenja po tipu i firmware-u, i po celom tipu uređaja
+   */
+  static buildModels(rates: { type: string; firmwareVersion: string | null; ratePerDay: number }[]): DischargeModel[] {
+    const groups = new Map<string, { type: string; firmwareVersion: string | null; rates: number[] }>()
+    const add = (type: string, firmwareVersion: string | null, rate: number) => {
+      const key = modelKey(type, firmwareVersion)
+      const group = groups.get(key) ?? { type, firmwareVersion, rates: [] }
+      group.rates.push(rate)
+      groups.set(key, group)
+    }
+
+    for (const rate of rates) {
+      add(rate.type, null, rate.ratePerDay)
+      if (rate.firmwareVersion) {
+        add(rate.type, rate.firmwareVersion, rate.ratePerDay)
+      }
+    }
+
+    return Array.from(groups.values())
+      .map(group => ({
+        type: group.type,
+        firmwareVersion: group.firmwareVersion,
+        devices: group.rates.length,
+        ratePerDay: AnalyticsService.percentile([...group.rates].sort((a, b) => a - b), 50) ?? 0,
+      }))
+      .sort((a, b) => a.type.localeCompare(b.type) || (a.firmwareVersion ?? '').localeCompare(b.firmwareVersion ?? ''))
+  }
+
+  /**
+   * Očekivano pražnjenje uređaja: model za njegov firmware kada ga dele bar dva uređaja, inače model tipa
+   */
+  static expectedRate(models: DischargeModel[], type: string, firmwareVersion: string | null): number | null {
+    const firmwareModel = firmwareVersion
+      ? models.find(model => model.type === type && model.firmwareVersion === firmwareVersion && model.devices > 1)
+      : undefined
+    const typeModel = models.find(model => model.type === type && model.firmwareVersion === null)
+    return (firmwareModel ?? typeModel)?.ratePerDay ?? null
+  }
+
+  static isAbnormal(ratePerDay: number, expectedRatePerDay: number | null): boolean {
+    return ratePerDay >= ABNORMAL_RATE_PER_DAY ||
+      (expectedRatePerDay !== null && expectedRatePerDay > 0 && ratePerDay >= expectedRatePerDay * ABNORMAL_FACTOR)
+  }
+
+  /**
+   * Plan zamene baterija sortiran po projektovanom datumu pražnjenja
+   */
+  static async getPlan(now: Date = new Date()): Promise<BatteryPlan> {
+    try {
+      const [devices, readings, alerts, nextCharter] = await Promise.all([
+        prisma.device.findMany({
+          where: { isActive: true },
+          select: {
+            id: true, uid: true, name: true, type: true, firmwareVersion: true, battery: true, lastSeen: true,
+            locationRef: { select: { name: true, deck: true } }
+          }
+        }),
+        prisma.batteryReading.findMany({
+          where: { recordedAt: { gte: new Date(now.getTime() - HISTORY_DAYS * DAY_MS) } },
+          select: { deviceUid: true, level: true, firmwareVersion: true, recordedAt: true },
+          orderBy: { recordedAt: 'asc' }
+        }),
+        prisma.batteryAlert.findMany({
+          where: { resolvedAt: null },
+          select: { id: true, deviceUid: true }
+        }),
+        BatteryService.findNextCharter(now),
+      ])
+
+      return BatteryService.buildPlan({ devices, readings, alerts, nextCharter }, now)
+    } catch (error) {
+      console.error('Greška pri izradi plana zamene baterija:', error)
+      throw error
+    }
+  }
+
+  static buildPlan(input: BatteryPlanInput, now: Date = new Date()): BatteryPlan {
+    const pointsByDevice = new Map<string, BatteryPoint[]>()
+    for (const reading of input.readings) {
+      const points = pointsByDevice.get(reading.deviceUid) ?? []
+      points.push(reading)
+      pointsByDevice.set(reading.deviceUid, points)
+    }
+
+    const rates = new Map<string, number>()
+    for (const device of input.devices) {
+      const rate = BatteryService.dischargeRate(pointsByDevice.get(device.uid) ?? [])
+      if (rate !== null) {
+        rates.set(device.uid, rate)
+      }
+    }
+
+    const models = BatteryService.buildModels(input.devices
+      .filter(device => rates.has(device.uid))
+      .map(device => ({ type: device.type, firmwareVersion: device.firmwareVersion, ratePerDay: rates.get(device.uid)! })))
+
+    const charterEnd = input.nextCharter?.endDate.getTime() ?? null
+
+    const forecasts: BatteryForecast[] = input.devices.map(device => {
+      const expectedRatePerDay = BatteryService.expectedRate(models, device.type, device.firmwareVersion)
+      const measured = rates.get(device.uid)
+      const ratePerDay = measured ?? expectedRatePerDay
+      const rateSource: RateSource = measured !== undefined ? 'device' : expectedRatePerDay !== null ? 'model' : 'none'
+      const daysUntilEmpty = ratePerDay ? round(device.battery / ratePerDay, 1) : null
+      const alert = input.alerts.find(item => item.deviceUid === device.uid)
+
+      // Nivo za zamenu pada pre kraja sledećeg čartera
+      const replaceBeforeCharter = charterEnd !== null && (
+        device.battery <= REPLACE_LEVEL ||
+        (!!ratePerDay && now.getTime() + ((device.battery - REPLACE_LEVEL) / ratePerDay) * DAY_MS <= charterEnd)
+      )
+
+      return {
+        deviceId: device.id,
+        uid: device.uid,
+        name: device.name,
+        type: device.type,
+        firmwareVersion: device.firmwareVersion,
+        location: device.locationRef?.name ?? null,
+        deck: device.locationRef?.deck ?? null,
+        battery: device.battery,
+        lastSeen: device.lastSeen.toISOString(),
+        ratePerDay,
+        rateSource,
+        expectedRatePerDay,
+        daysUntilEmpty,
+        projectedEmptyAt: daysUntilEmpty !== null ? new Date(now.getTime() + daysUntilEmpty * DAY_MS).toISOString() : null,
+        replaceBeforeCharter,
+        abnormal: !!alert || (measured !== undefined && BatteryService.isAbnormal(measured, expectedRatePerDay)),
+        alertId: alert?.id ?? null,
+      }
+    })
+
+    // Najranije pražnjenje prvo; uređaji bez procene na kraju, po nivou baterije
+    forecasts.sort((a, b) =>
+      (a.daysUntilEmpty ?? Infinity) - (b.daysUntilEmpty ?? Infinity) || a.battery - b.battery
+    )
+
+    return {
+      generatedAt: now.toISOString(),
+      nextCharter: input.nextCharter && {
+        charterId: input.nextCharter.charterId,
+        name: input.nextCharter.name,
+        startDate: input.nextCharter.startDate.toISOString(),
+        endDate: input.nextCharter.endDate.toISOString(),
+      },
+      thresholds: { replaceLevel: REPLACE_LEVEL, abnormalFactor: ABNORMAL_FACTOR, abnormalRatePerDay: ABNORMAL_RATE_PER_DAY },
+      models,
+      devices: forecasts,
+    }
+  }
+
+  /**
+   * Sledeći čarter koji nije zatvoren; bez njega prvi najavljeni dolazak gosta
+   */
+  private static async findNextCharter(now: Date): Promise<BatteryPlanInput['nextCharter']> {
+    const charter = await prisma.charter.findFirst({
+      where: { status: { not: 'closed' }, startDate: { gt: now } },
+      orderBy: { startDate: 'asc' },
+      select: { id: true, name: true, startDate: true, endDate: true }
+    })
+    if (charter) {
+      return { charterId: charter.id, name: charter.name, startDate: charter.startDate, endDate: charter.endDate }
+    }
+
+    const guest = await prisma.guest.findFirst({
+      where: { arrivalDate: { gt: now }, archivedAt: null },
+      orderBy: { arrivalDate: 'asc' },
+      select: { name: true, arrivalDate: true, departureDate: true }
+    })
+    return guest
+      ? { charterId: null, name: guest.name, startDate: guest.arrivalDate, endDate: guest.departureDate }
+      : null
+  }
+
+  /**
+   * Upozorava posadu kada se uređaj prazni neuobičajeno brzo; jedno otvoreno upozorenje po uređaju
+   */
+  private static async checkDrain(
+    device: { id: number; name: string | null; type: string; firmwareVersion: string | null },
+    deviceUid: string,
+    level: number,
+    now: Date
+  ) {
+    const open = await prisma.batteryAlert.findFirst({ where: { deviceUid, resolvedAt: null } })
+    if (open) {
+      return
+    }
+
+    const points = await prisma.batteryReading.findMany({
+      where: { deviceUid, recordedAt: { gte: new Date(now.getTime() - HISTORY_DAYS * DAY_MS) } },
+      select: { level: true, firmwareVersion: true, recordedAt: true },
+      orderBy: { recordedAt: 'asc' }
+    })
+    const ratePerDay = BatteryService.dischargeRate(points)
+    const expectedRatePerDay = BatteryService.expectedRate(BatteryService.models, device.type, device.firmwareVersion)
+    if (ratePerDay === null || !BatteryService.isAbnormal(ratePerDay, expectedRatePerDay)) {
+      return
+    }
+
+    const alert = await prisma.batteryAlert.create({
+      data: { deviceUid, level, ratePerDay, expectedRatePerDay, createdAt: now }
+    })
+
+    const event: BatteryAlertEvent = {
+      alertId: alert.id,
+      deviceId: device.id,
+      uid: deviceUid,
+      name: device.name,
+      level,
+      ratePerDay,
+      expectedRatePerDay,
+      createdAt: now.toISOString(),
+    }
+    emitter.emitEvent(SSE_EVENTS.BATTERY_ALERT, event)
+
+    // Satovi odeljenja zaduženog za uređaje (checkDrain radi u mqttBridge procesu)
+    const crew = await prisma.user.findMany({ where: { onLeave: false }, select: { id: true, department: true } })
+    const recipients = crew
+      .filter(user => user.department?.toLowerCase() === ALERT_DEPARTMENT.toLowerCase())
+      .map(user => user.id)
+    await WatchService.notifyUsers(recipients, {
+      type: 'battery_alert',
+      alertId: alert.id,
+      deviceUid,
+      level,
+      ratePerDay,
+      message: `${device.name || deviceUid} is draining ${ratePerDay}%/day (battery ${level}%)`,
+    })
+    console.warn(`Uređaj ${deviceUid} se prazni ${ratePerDay}% dnevno (očekivano ${expectedRatePerDay ?? '?'}%)`)
+  }
+}
@@ -0,0 +1,389 @@
+import { PrismaClient } from '@prisma/client'
+import type { ButtonRule } from '@prisma/client'
+import { z } from 'zod'
+import { DndService } from '@/lib/services/dnd-service'
+import { REQUEST_PRIORITIES } from '@/lib/services/priority-service'
+
+export const PRESS_PATTERNS = ['any', 'single', 'double', 'triple', 'long'] as const
+export const GUEST_PRESENCE = ['any', 'present', 'absent'] as const
+export const RULE_ACTIONS = [
+  'create_request',
+  'call_crew',
+  'call_department',
+  'emergency',
+  'toggle_dnd',
+  'webhook',
+] as const
+
+export type PressPattern = (typeof PRESS_PATTERNS)[number]
+export type GuestPresence = (typeof GUEST_PRESENCE)[number]
+export type RuleAction = (typeof RULE_ACTIONS)[number]
+
+// Parametri akcije; koja polja se koriste zavisi od akcije
+export interface RuleActionConfig {
+  category?: string
+  priority?: (typeof REQUEST_PRIORITIES)[number]
+  userId?: number
+  department?: string
+  url?: string
+}
+
+export type ButtonRuleView = Omit<ButtonRule, 'actionConfig'> & { actionConfig: RuleActionConfig }
+
+// Okolnosti pritiska prema kojima se bira pravilo
+export interface RuleContext {
+  deviceId: number
+  locationId: number | null
+  pressPattern: Exclude<PressPattern, 'any'>
+  minuteOfDay: number
+  guestPresent: boolean
+}
+
+export interface RuleTrace {
+  ruleId: number
+  name: string
+  matched: boolean
+  reason: string | null
+}
+
+export interface RuleEvaluation {
+  rule: ButtonRuleView | null
+  trace: RuleTrace[]
+}
+
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.BUTTON_RULE_WEBHOOK_TIMEOUT_MS || '5000', 10)
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+// Validacija pravila iz API-ja
+export const buttonRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean().default(true),
+  position: z.number().int().min(0).default(0),
+  deviceId: z.number().int().positive().nullable().default(null),
+  locationId: z.number().int().positive().nullable().default(null),
+  pressPattern: z.enum(PRESS_PATTERNS).default('any'),
+  timeFrom: z.string().regex(TIME_PATTERN).nullable().default(null),
+  timeTo: z.string().regex(TIME_PATTERN).nullable().default(null),
+  guestPresence: z.enum(GUEST_PRESENCE).default('any'),
+  action: z.enum(RULE_ACTIONS),
+  actionConfig: z.object({
+    category: z.string().regex(/^[a-z_]+$/).max(50).optional(),
+    priority: z.enum(REQUEST_PRIORITIES).optional(),
+    userId: z.number().int().positive().optional(),
+    department: z.string().trim().min(1).max(50).optional(),
+    url: z.string().url().refine(url => /^https?:\/\//.test(url), 'Dozvoljen je samo http(s) URL').optional(),
+  }).strict().default({}),
+}).superRefine((rule, ctx) => {
+  if ((rule.timeFrom === null) !== (rule.timeTo === null)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['timeTo'], message: 'Vremenski prozor zahteva početak i kraj' })
+  }
+  if (rule.action === 'call_crew' && !rule.actionConfig.userId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['actionConfig', 'userId'], message: 'Izaberite člana posade' })
+  }
+  if (rule.action === 'call_department' && !rule.actionConfig.department) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['actionConfig', 'department'], message: 'Izaberite odeljenje' })
+  }
+  if (rule.action === 'webhook' && !rule.actionConfig.url) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['actionConfig', 'url'], message: 'Unesite URL webhook-a' })
+  }
+})
+
+export type ButtonRuleInput = z.infer<typeof buttonRuleSchema>
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis za pravila koja pritisak dugmeta (način pritiska, doba dana, prisustvo gosta)
+ * usmeravaju na akciju umesto podrazumevanog zahteva
+ */
+export class ButtonRuleService {
+  /**
+   * Svodi tip pritiska iz MQTT poruke (short, single, double, triple, long) na obrazac pravila
+   */
+  static normalizePattern(pressType?: string | null): RuleContext['pressPattern'] {
+    switch (pressType) {
+      case 'double':
+      case 'triple':
+      case 'long':
+        return pressType
+      default:
+        return 'single'
+    }
+  }
+
+  static minuteOfDay(date: Date): number {
+    return date.getHours() * 60 + date.getMinutes()
+  }
+
+  static parseTime(value: string): number {
+    const [hours, minutes] = value.split(':').map(Number)
+    return hours * 60 + minutes
+  }
+
+  /**
+   * Da li je trenutak u prozoru pravila; prozor koji prelazi ponoć (22:00-06:00) je dozvoljen
+   */
+  static inTimeWindow(rule: Pick<ButtonRule, 'timeFrom' | 'timeTo'>, minuteOfDay: number): boolean {
+    if (!rule.timeFrom || !rule.timeTo) {
+      return true
+    }
+
+    const from = ButtonRuleService.parseTime(rule.timeFrom)
+    const to = ButtonRuleService.parseTime(rule.timeTo)
+    return from <= to
+      ? minuteOfDay >= from && minuteOfDay < to
+      : minuteOfDay >= from || minuteOfDay < to
+  }
+
+  /**
+   * Razlog zbog kog pravilo ne odgovara pritisku, ili null ako odgovara
+   */
+  static mismatch(rule: ButtonRuleView, context: RuleContext): string | null {
+    if (!rule.enabled) {
+      return 'Pravilo je isključeno'
+    }
+    if (rule.deviceId !== null && rule.deviceId !== context.deviceId) {
+      return 'Drugi uređaj'
+    }
+    if (rule.locationId !== null && rule.locationId !== context.locationId) {
+      return 'Druga lokacija'
+    }
+    if (rule.pressPattern !== 'any' && rule.pressPattern !== context.pressPattern) {
+      return `Pritisak ${context.pressPattern}, pravilo traži ${rule.pressPattern}`
+    }
+    if (!ButtonRuleService.inTimeWindow(rule, context.minuteOfDay)) {
+      return `Van vremenskog prozora ${rule.timeFrom}-${rule.timeTo}`
+    }
+    if (rule.guestPresence === 'present' && !context.guestPresent) {
+      return 'Gost nije prisutan'
+    }
+    if (rule.guestPresence === 'absent' && context.guestPresent) {
+      return 'Gost je prisutan'
+    }
+    return null
+  }
+
+  /**
+   * Bira prvo pravilo (po poziciji) koje odgovara pritisku
+   */
+  static evaluate(rules: ButtonRuleView[], context: RuleContext): RuleEvaluation {
+    const trace: RuleTrace[] = []
+    let matched: ButtonRuleView | null = null
+
+    for (const rule of rules) {
+      if (matched) {
+        trace.push({ ruleId: rule.id, name: rule.name, matched: false, reason: `Prednost ima pravilo "${matched.name}"` })
+        continue
+      }
+
+      const reason = ButtonRuleService.mismatch(rule, context)
+      trace.push({ ruleId: rule.id, name: rule.name, matched: reason === null, reason })
+      if (reason === null) {
+        matched = rule
+      }
+    }
+
+    return { rule: matched, trace }
+  }
+
+  /**
+   * Sva pravila redom kojim se proveravaju
+   */
+  static async list(): Promise<ButtonRuleView[]> {
+    try {
+      const rules = await prisma.buttonRule.findMany({
+        orderBy: [{ position: 'asc' }, { id: 'asc' }]
+      })
+      return rules.map(ButtonRuleService.parseRule)
+    } catch (error) {
+      console.error('Greška pri dohvatanju pravila dugmadi:', error)
+      throw error
+    }
+  }
+
+  static async create(input: ButtonRuleInput, userId?: number | null): Promise<ButtonRuleView> {
+    const rule = await prisma.buttonRule.create({
+      data: {
+        ...input,
+        actionConfig: JSON.stringify(input.actionConfig),
+        createdBy: userId ?? null,
+      }
+    })
+    return ButtonRuleService.parseRule(rule)
+  }
+
+  /**
+   * @returns Izmenjeno pravilo ili null ako ne postoji
+   */
+  static async update(id: number, input: ButtonRuleInput): Promise<ButtonRuleView | null> {
+    const existing = await prisma.buttonRule.findUnique({ where: { id } })
+    if (!existing) {
+      return null
+    }
+
+    const rule = await prisma.buttonRule.update({
+      where: { id },
+      data: { ...input, actionConfig: JSON.stringify(input.actionConfig) }
+    })
+    return ButtonRuleService.parseRule(rule)
+  }
+
+  /**
+   * @returns false ako pravilo ne postoji
+   */
+  static async remove(id: number): Promise<boolean> {
+    const existing = await prisma.buttonRule.findUnique({ where: { id } })
+    if (!existing) {
+      return false
+    }
+
+    await prisma.buttonRule.delete({ where: { id } })
+    return true
+  }
+
+  /**
+   * Pravilo koje se izvršava za pritisak dugmeta
+   */
+  static async match(context: RuleContext): Promise<ButtonRuleView | null> {
+    const rules = await prisma.buttonRule.findMany({
+      where: { enabled: true },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }]
+    })
+    return ButtonRuleService.evaluate(rules.map(ButtonRuleService.parseRule), context).rule
+  }
+
+  /**
+   * Proba bez izvršavanja: koje bi pravilo odgovorilo na pritisak, i zašto ostala ne odgovaraju.
+   * Bez guestPresent koristi trenutne goste sa lokacije uređaja.
+   * @returns null ako uređaj ne postoji
+   */
+  static async dryRun(input: {
+    deviceId: number
+    pressType: string
+    time?: string | null
+    guestPresent?: boolean | null
+  }, now: Date = new Date()) {
+    const device = await prisma.device.findUnique({
+      where: { id: input.deviceId },
+      select: { id: true, locationId: true }
+    })
+
+    if (!device) {
+      return null
+    }
+
+    let guestPresent = input.guestPresent
+    if (guestPresent === undefined || guestPresent === null) {
+      guestPresent = device.locationId !== null && await prisma.guest.count({
+        where: {
+          locationId: device.locationId,
+          status: { notIn: ['Checked Out', 'Checked-Out'] },
+          arrivalDate: { lte: now },
+          departureDate: { gte: now },
+        }
+      }) > 0
+    }
+
+    const context: RuleContext = {
+      deviceId: device.id,
+      locationId: device.locationId,
+      pressPattern: ButtonRuleService.normalizePattern(input.pressType),
+      minuteOfDay: input.time ? ButtonRuleService.parseTime(input.time) : ButtonRuleService.minuteOfDay(now),
+      guestPresent,
+    }
+
+    return { context, ...ButtonRuleService.evaluate(await ButtonRuleService.list(), context) }
+  }
+
+  /**
+   * Uključuje/isključuje DND kabine preko preferenci gostiju koji u njoj borave
+   * (DND stanje se izvodi iz preferenci, vidi dnd-service)
+   * @returns Novo DND stanje ili null ako u kabini nema gostiju
+   */
+  static async toggleDnd(locationId: number | null, now: Date = new Date()): Promise<boolean | null> {
+    if (!locationId) {
+      return null
+    }
+
+    try {
+      const guests = await prisma.guest.findMany({
+        where: {
+          locationId,
+          status: { notIn: ['Checked Out', 'Checked-Out'] },
+          archivedAt: null,
+          arrivalDate: { lte: now },
+          departureDate: { gte: now },
+        },
+        select: { id: true, preferences: true }
+      })
+
+      if (guests.length === 0) {
+        console.warn(`DND pravilo: na lokaciji ${locationId} nema gostiju`)
+        return null
+      }
+
+      const active = (await DndService.getActive(now)).some(location => location.locationId === locationId)
+      const dndActive = !active
+
+      for (const guest of guests) {
+        let preferences: Record<string, unknown> = {}
+        try {
+          preferences = guest.preferences ? JSON.parse(guest.preferences) : {}
+        } catch {
+          // Neispravne preference zamenjujemo samo DND poljima
+        }
+
+        // Dugme u kabini uključuje DND za samu kabinu
+        await prisma.guest.update({
+          where: { id: guest.id },
+          data: { preferences: JSON.stringify({ ...preferences, dndActive, ...(dndActive && { dndLocations: [] }) }) }
+        })
+      }
+
+      await DndService.sync(now)
+      return dndActive
+    } catch (error) {
+      console.error('Greška pri promeni DND-a iz pravila dugmeta:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Šalje pritisak na spoljni sistem (POST JSON). Greška webhook-a se samo loguje.
+   * @returns true ako je webhook odgovorio uspešno
+   */
+  static async callWebhook(rule: ButtonRuleView, body: Record<string, unknown>): Promise<boolean> {
+    if (!rule.actionConfig.url) {
+      return false
+    }
+
+    try {
+      const response = await fetch(rule.actionConfig.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ruleId: rule.id, ruleName: rule.name, ...body }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      })
+
+      if (!response.ok) {
+        console.warn(`Webhook pravila "${rule.name}" vratio je status ${response.status}`)
+      }
+      return response.ok
+    } catch (error) {
+      console.error(`Greška pri pozivu webhook-a pravila "${rule.name}":`, error)
+      return false
+    }
+  }
+
+  private static parseRule(rule: ButtonRule): ButtonRuleView {
+    let actionConfig: RuleActionConfig = {}
+    try {
+      actionConfig = rule.actionConfig ? JSON.parse(rule.actionConfig) : {}
+    } catch {
+      console.error(`Neispravna konfiguracija akcije pravila ${rule.id}`)
+    }
+    return { ...rule, actionConfig }
+  }
+}
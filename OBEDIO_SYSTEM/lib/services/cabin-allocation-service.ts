@@ -0,0 +1,344 @@
+import { PrismaClient } from '@prisma/client'
+import { DndService } from '@/lib/services/dnd-service'
+
+// Tipovi lokacija u koje se smeštaju gosti
+export const GUEST_CABIN_TYPES = ['cabin', 'suite']
+
+export type AllocationConflictType = 'unavailable' | 'party_size' | 'capacity' | 'overlap'
+
+export interface AllocationConflict {
+  type: AllocationConflictType
+  locationId: number
+  guestIds: number[]
+  message: string
+}
+
+export interface AllocationChange {
+  guestId: number
+  locationId: number | null
+}
+
+export interface AllocationGuest {
+  id: number
+  name: string
+  guestType: string
+  isVip: boolean
+  partySize: number
+  arrivalDate: Date
+  departureDate: Date
+  locationId: number | null
+  charterId: number | null
+  preferences: string | null
+}
+
+export interface AllocationCabin {
+  id: number
+  name: string
+  deck: string
+  type: string
+  capacity: number
+  isActive: boolean
+}
+
+type CabinPreferences = {
+  preferredCabin?: string
+  preferredDeck?: string
+}
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+const staysOverlap = (a: AllocationGuest, b: AllocationGuest) =>
+  a.arrivalDate < b.departureDate && b.arrivalDate < a.departureDate
+
+const parseCabinPreferences = (preferences: string | null): CabinPreferences => {
+  if (!preferences) return {}
+  try {
+    const parsed = JSON.parse(preferences)
+    return {
+      preferredCabin: typeof parsed.preferredCabin === 'string' ? parsed.preferredCabin : undefined,
+      preferredDeck: typeof parsed.preferredDeck === 'string' ? parsed.preferredDeck : undefined,
+    }
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Servis za raspored gostiju po kabinama: provera kapaciteta, preklapanja boravaka i predlozi
+ */
+export class CabinAllocationService {
+  /**
+   * Proverava raspored (Guest.locationId) i vraća sve konflikte
+   */
+  static validate(guests: AllocationGuest[], cabins: AllocationCabin[]): AllocationConflict[] {
+    const conflicts: AllocationConflict[] = []
+    const cabinsById = new Map(cabins.map(cabin => [cabin.id, cabin]))
+
+    for (const cabin of cabins) {
+      const occupants = guests.filter(guest => guest.locationId === cabin.id)
+      if (occupants.length === 0) continue
+
+      if (!cabin.isActive || !GUEST_CABIN_TYPES.includes(cabin.type)) {
+        conflicts.push({
+          type: 'unavailable',
+          locationId: cabin.id,
+          guestIds: occupants.map(guest => guest.id),
+          message: `${cabin.name} nije dostupna za goste`,
+        })
+        continue
+      }
+
+      for (const guest of occupants) {
+        if (guest.partySize > cabin.capacity) {
+          conflicts.push({
+            type: 'party_size',
+            locationId: cabin.id,
+            guestIds: [guest.id],
+            message: `${guest.name} (${guest.partySize} osoba) premašuje kapacitet kabine ${cabin.name} (${cabin.capacity})`,
+          })
+        }
+      }
+
+      // Odvojene rezervacije (različit čarter ili gosti bez čartera) ne dele kabinu
+      for (let i = 0; i < occupants.length; i++) {
+        for (let j = i + 1; j < occupants.length; j++) {
+          const a = occupants[i]
+          const b = occupants[j]
+          const sameParty = a.charterId !== null && a.charterId === b.charterId
+          if (!sameParty && staysOverlap(a, b)) {
+            conflicts.push({
+              type: 'overlap',
+              locationId: cabin.id,
+              guestIds: [a.id, b.id],
+              message: `${a.name} i ${b.name} imaju preklopljene boravke u kabini ${cabin.name}`,
+            })
+          }
+        }
+      }
+
+      // Najveća istovremena popunjenost - proverava se na svakom dolasku
+      for (const guest of occupants) {
+        const present = occupants.filter(other =>
+          other.arrivalDate <= guest.arrivalDate && guest.arrivalDate < other.departureDate
+        )
+        const persons = present.reduce((sum, other) => sum + other.partySize, 0)
+        if (present.length > 1 && persons > cabin.capacity) {
+          conflicts.push({
+            type: 'capacity',
+            locationId: cabin.id,
+            guestIds: present.map(other => other.id),
+            message: `${cabin.name}: ${persons} osoba, kapacitet ${cabin.capacity}`,
+          })
+          break
+        }
+      }
+    }
+
+    for (const guest of guests) {
+      if (guest.locationId !== null && !cabinsById.has(guest.locationId)) {
+        conflicts.push({
+          type: 'unavailable',
+          locationId: guest.locationId,
+          guestIds: [guest.id],
+          message: `Lokacija ${guest.locationId} nije kabina za goste`,
+        })
+      }
+    }
+
+    return conflicts
+  }
+
+  /**
+   * Redosled kabina za gosta: željena kabina/paluba, Owner u master suite, VIP u suite
+   */
+  static rankCabins(guest: AllocationGuest, cabins: AllocationCabin[]): AllocationCabin[] {
+    const preferences = parseCabinPreferences(guest.preferences)
+
+    const score = (cabin: AllocationCabin) => {
+      const name = cabin.name.toLowerCase()
+      const isMaster = name.includes('master')
+      const isSuite = isMaster || name.includes('suite') || name.includes('vip') || cabin.type === 'suite'
+      let value = 0
+
+      if (preferences.preferredCabin && preferences.preferredCabin === cabin.name) value += 100
+      if (preferences.preferredDeck && preferences.preferredDeck === cabin.deck) value += 20
+
+      if (guest.guestType === 'Owner') {
+        value += isMaster ? 50 : isSuite ? 10 : 0
+      } else if (guest.isVip) {
+        value += isMaster ? -5 : isSuite ? 30 : 0
+      } else {
+        // Obični gosti ne zauzimaju suite (a master suite najkasnije) dok ima drugih kabina
+        value += isMaster ? -20 : isSuite ? -10 : 0
+      }
+
+      // Najmanja kabina koja prima celu grupu
+      return value - Math.max(0, cabin.capacity - guest.partySize)
+    }
+
+    return cabins
+      .filter(cabin => cabin.isActive && GUEST_CABIN_TYPES.includes(cabin.type) && cabin.capacity >= guest.partySize)
+      .sort((a, b) => score(b) - score(a) || a.name.localeCompare(b.name))
+  }
+
+  /**
+   * Predlaže kabine za goste bez kabine, ne dirajući postojeći raspored
+   */
+  static suggest(guests: AllocationGuest[], cabins: AllocationCabin[]): AllocationChange[] {
+    const typeOrder = (guest: AllocationGuest) => guest.guestType === 'Owner' ? 0 : guest.isVip ? 1 : 2
+    const placed = guests.filter(guest => guest.locationId !== null)
+    const pending = guests
+      .filter(guest => guest.locationId === null)
+      .sort((a, b) => typeOrder(a) - typeOrder(b) || b.partySize - a.partySize || a.id - b.id)
+
+    const suggestions: AllocationChange[] = []
+
+    for (const guest of pending) {
+      const cabin = CabinAllocationService.rankCabins(guest, cabins).find(candidate => {
+        const trial = [...placed.filter(other => other.locationId === candidate.id), { ...guest, locationId: candidate.id }]
+        return CabinAllocationService.validate(trial, [candidate]).length === 0
+      })
+
+      if (cabin) {
+        placed.push({ ...guest, locationId: cabin.id })
+        suggestions.push({ guestId: guest.id, locationId: cabin.id })
+      }
+    }
+
+    return suggestions
+  }
+
+  private static async load(from: Date, to: Date) {
+    const [cabins, guests] = await Promise.all([
+      prisma.location.findMany({
+        where: { type: { in: GUEST_CABIN_TYPES } },
+        include: {
+          devices: {
+            where: { type: 'BUTTON' },
+            select: { id: true, uid: true, name: true }
+          }
+        },
+        orderBy: [{ deck: 'asc' }, { name: 'asc' }]
+      }),
+      prisma.guest.findMany({
+        where: {
+          archivedAt: null,
+          status: { notIn: ['Checked Out', 'Checked-Out'] },
+          arrivalDate: { lt: to },
+          departureDate: { gt: from },
+        },
+        select: {
+          id: true, name: true, guestType: true, isVip: true, partySize: true,
+          arrivalDate: true, departureDate: true, locationId: true, charterId: true, preferences: true,
+        },
+        orderBy: { arrivalDate: 'asc' }
+      })
+    ])
+
+    return { cabins, guests }
+  }
+
+  /**
+   * Plan kabina po palubama za period, sa konfliktima i (opciono) predlozima
+   */
+  static async getPlan(from: Date, to: Date, withSuggestions: boolean = false) {
+    try {
+      const { cabins, guests } = await CabinAllocationService.load(from, to)
+
+      const decks = Array.from(new Set(cabins.map(cabin => cabin.deck))).map(deck => ({
+        deck,
+        cabins: cabins
+          .filter(cabin => cabin.deck === deck)
+          .map(cabin => ({
+            ...cabin,
+            guests: guests.filter(guest => guest.locationId === cabin.id),
+          })),
+      }))
+
+      return {
+        from,
+        to,
+        decks,
+        unassigned: guests.filter(guest => guest.locationId === null),
+        conflicts: CabinAllocationService.validate(guests, cabins),
+        suggestions: withSuggestions ? CabinAllocationService.suggest(guests, cabins) : [],
+      }
+    } catch (error) {
+      console.error('Greška pri dohvatanju plana kabina:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Primena izmena rasporeda. Ako posle izmena postoje konflikti za pomerene goste,
+   * ništa se ne upisuje (osim kad je force). Gosti koji nisu na brodu u periodu plana
+   * vraćaju se u unknownGuestIds i tada se ništa ne upisuje ni sa force.
+   * Vraća i dugmad koja sada pripadaju gostima.
+   */
+  static async apply(
+    changes: AllocationChange[],
+    from: Date,
+    to: Date,
+    options: { force?: boolean; dryRun?: boolean } = {}
+  ) {
+    try {
+      const { cabins, guests } = await CabinAllocationService.load(from, to)
+      const loadedIds = new Set(guests.map(guest => guest.id))
+      const unknownGuestIds = changes.map(change => change.guestId).filter(id => !loadedIds.has(id))
+      if (unknownGuestIds.length > 0) {
+        return { applied: false, conflicts: [], buttons: [], unknownGuestIds }
+      }
+
+      const changedIds = new Set(changes.map(change => change.guestId))
+      const targets = new Map(changes.map(change => [change.guestId, change.locationId]))
+
+      const proposed = guests.map(guest =>
+        targets.has(guest.id) ? { ...guest, locationId: targets.get(guest.id) ?? null } : guest
+      )
+      const conflicts = CabinAllocationService.validate(proposed, cabins)
+        .filter(conflict => conflict.guestIds.some(id => changedIds.has(id)))
+
+      if (options.dryRun || (conflicts.length > 0 && !options.force)) {
+        return { applied: false, conflicts, buttons: [], unknownGuestIds }
+      }
+
+      const cabinsById = new Map(cabins.map(cabin => [cabin.id, cabin]))
+      const moved = proposed.filter(guest => changedIds.has(guest.id))
+
+      await prisma.$transaction(moved.map(guest =>
+        prisma.guest.update({
+          where: { id: guest.id },
+          data: {
+            locationId: guest.locationId,
+            room: guest.locationId !== null ? cabinsById.get(guest.locationId)?.name ?? null : null,
+          }
+        })
+      ))
+
+      // Dugmad su vezana za lokaciju - DND LED i zadaci prate goste u novu kabinu;
+      // raspored je već upisan, pa se neuspela sinhronizacija samo beleži
+      try {
+        await DndService.sync()
+      } catch (error) {
+        console.error('Greška pri sinhronizaciji DND stanja posle izmene rasporeda:', error)
+      }
+
+      console.log(`Raspored kabina ažuriran za ${moved.length} gostiju`)
+
+      return {
+        applied: true,
+        conflicts,
+        unknownGuestIds,
+        buttons: moved.map(guest => ({
+          guestId: guest.id,
+          locationId: guest.locationId,
+          devices: guest.locationId !== null ? cabinsById.get(guest.locationId)?.devices ?? [] : [],
+        })),
+      }
+    } catch (error) {
+      console.error('Greška pri primeni rasporeda kabina:', error)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,384 @@
+import { PrismaClient } from '@prisma/client'
+import { AnalyticsService, DurationStats } from '@/lib/services/analytics-service'
+import { GuestContextService } from '@/lib/services/guest-context-service'
+import { REQUEST_EVENT_TYPES } from '@/lib/services/request-history-service'
+
+export const CHARTER_STATUSES = ['upcoming', 'active', 'closed'] as const
+
+export type CharterStatus = (typeof CHARTER_STATUSES)[number]
+
+export interface ItineraryStop {
+  port: string
+  arrival: string
+  departure?: string | null
+}
+
+export interface CabinAssignment {
+  guestId: number
+  locationId: number
+}
+
+export interface CharterInput {
+  name: string
+  startDate: Date
+  endDate: Date
+  principalGuestId?: number | null
+  broker?: string | null
+  guestIds?: number[]
+  cabinPlan?: CabinAssignment[]
+  itinerary?: ItineraryStop[]
+  notes?: string | null
+}
+
+export interface CharterReport {
+  charterId: number
+  name: string
+  startDate: string
+  endDate: string
+  generatedAt: string
+  totals: {
+    requests: number
+    emergencies: number
+    timeToAccept: DurationStats
+    timeToComplete: DurationStats
+  }
+  guests: {
+    guestId: number
+    name: string
+    isVip: boolean
+    requests: number
+    preferences: string
+    allergies: string[]
+    notes: string | null
+  }[]
+  incidents: {
+    requestId: number
+    category: string
+    room: string
+    createdAt: string
+    incidentNote: string | null
+  }[]
+  itinerary: ItineraryStop[]
+}
+
+type ReportRequestRow = {
+  id: number
+  createdAt: Date
+  priority: string
+  category: string
+  incidentNote: string | null
+  guestContext: string | null
+  device: { room: string; locationId: number | null }
+  events: { type: string; createdAt: Date }[]
+}
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+const parseJsonList = <T>(raw: string | null): T[] => {
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed as T[] : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Servis za čartere (putovanja): gosti, plan kabina, itinerer i završni izveštaj
+ */
+export class CharterService {
+  static parseItinerary(raw: string | null): ItineraryStop[] {
+    return parseJsonList<ItineraryStop>(raw)
+  }
+
+  static parseCabinPlan(raw: string | null): CabinAssignment[] {
+    return parseJsonList<CabinAssignment>(raw)
+  }
+
+  /**
+   * Status čartera prema datumima; zatvoren čarter ostaje zatvoren
+   */
+  static resolveStatus(charter: { status: string; startDate: Date }, now: Date = new Date()): CharterStatus {
+    if (charter.status === 'closed') {
+      return 'closed'
+    }
+    return charter.startDate > now ? 'upcoming' : 'active'
+  }
+
+  /**
+   * Raspoređuje goste po kabinama iz plana (Guest.locationId i naziv kabine)
+   */
+  private static async applyCabinPlan(cabinPlan: CabinAssignment[]) {
+    if (cabinPlan.length === 0) {
+      return
+    }
+
+    const locations = await prisma.location.findMany({
+      where: { id: { in: cabinPlan.map(assignment => assignment.locationId) } },
+      select: { id: true, name: true }
+    })
+    const namesById = new Map(locations.map(location => [location.id, location.name]))
+
+    await prisma.$transaction(cabinPlan.map(assignment =>
+      prisma.guest.update({
+        where: { id: assignment.guestId },
+        data: {
+          locationId: assignment.locationId,
+          room: namesById.get(assignment.locationId) ?? null,
+        }
+      })
+    ))
+  }
+
+  static async create(input: CharterInput) {
+    try {
+      const guestIds = Array.from(new Set([
+        ...(input.guestIds || []),
+        ...(input.principalGuestId ? [input.principalGuestId] : []),
+      ]))
+
+      const charter = await prisma.charter.create({
+        data: {
+          name: input.name,
+          startDate: input.startDate,
+          endDate: input.endDate,
+          status: CharterService.resolveStatus({ status: 'upcoming', startDate: input.startDate }),
+          principalGuestId: input.principalGuestId ?? null,
+          broker: input.broker ?? null,
+          cabinPlan: input.cabinPlan ? JSON.stringify(input.cabinPlan) : null,
+          itinerary: input.itinerary ? JSON.stringify(input.itinerary) : null,
+          notes: input.notes ?? null,
+          guests: { connect: guestIds.map(id => ({ id })) },
+        }
+      })
+
+      await CharterService.applyCabinPlan(input.cabinPlan || [])
+
+      return charter
+    } catch (error) {
+      console.error('Greška pri kreiranju čartera:', error)
+      throw error
+    }
+  }
+
+  static async update(charterId: number, input: Partial<CharterInput>) {
+    try {
+      const charter = await prisma.charter.update({
+        where: { id: charterId },
+        data: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.startDate !== undefined && { startDate: input.startDate }),
+          ...(input.endDate !== undefined && { endDate: input.endDate }),
+          ...(input.principalGuestId !== undefined && { principalGuestId: input.principalGuestId }),
+          ...(input.broker !== undefined && { broker: input.broker }),
+          ...(input.cabinPlan !== undefined && { cabinPlan: JSON.stringify(input.cabinPlan) }),
+          ...(input.itinerary !== undefined && { itinerary: JSON.stringify(input.itinerary) }),
+          ...(input.notes !== undefined && { notes: input.notes }),
+          ...(input.guestIds !== undefined && { guests: { set: input.guestIds.map(id => ({ id })) } }),
+        }
+      })
+
+      await CharterService.applyCabinPlan(input.cabinPlan || [])
+
+      return charter
+    } catch (error) {
+      console.error('Greška pri ažuriranju čartera:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Čarteri koji nisu zatvoreni, hronološki - za vremensku liniju na stranici gostiju
+   */
+  static async getTimeline(now: Date = new Date()) {
+    try {
+      const charters = await prisma.charter.findMany({
+        where: { status: { not: 'closed' } },
+        include: {
+          guests: {
+            select: {
+              id: true, name: true, isVip: true, guestType: true, status: true,
+              room: true, notes: true, arrivalDate: true, departureDate: true,
+            },
+            orderBy: [{ isVip: 'desc' }, { name: 'asc' }]
+          },
+          principalGuest: { select: { id: true, name: true } }
+        },
+        orderBy: { startDate: 'asc' }
+      })
+
+      return charters.map(charter => ({
+        ...charter,
+        status: CharterService.resolveStatus(charter, now),
+        cabinPlan: CharterService.parseCabinPlan(charter.cabinPlan),
+        itinerary: CharterService.parseItinerary(charter.itinerary),
+        report: undefined,
+      }))
+    } catch (error) {
+      console.error('Greška pri dohvatanju čartera:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Sklapa izveštaj čartera iz zahteva nastalih tokom putovanja u kabinama gostiju
+   */
+  static buildReport(
+    charter: { id: number; name: string; startDate: Date; endDate: Date; itinerary: string | null },
+    guests: { id: number; name: string; isVip: boolean; notes: string | null; preferences: string | null; languagesSpoken: string | null; locationId: number | null }[],
+    requests: ReportRequestRow[],
+    cabinPlan: CabinAssignment[],
+    now: Date = new Date()
+  ): CharterReport {
+    const requestsPerGuest = new Map<number, number>()
+    const guestsByLocation = new Map<number, number[]>()
+    for (const guest of guests) {
+      const locationId = cabinPlan.find(assignment => assignment.guestId === guest.id)?.locationId ?? guest.locationId
+      if (locationId) {
+        guestsByLocation.set(locationId, [...(guestsByLocation.get(locationId) || []), guest.id])
+      }
+    }
+
+    const acceptSeconds: number[] = []
+    const completeSeconds: number[] = []
+
+    for (const request of requests) {
+      // Gosti iz snimka konteksta u trenutku poziva, inače prema planu kabina
+      const snapshot = GuestContextService.parse(request.guestContext).map(context => context.guestId)
+      const attributed = snapshot.length > 0
+        ? snapshot
+        : (request.device.locationId ? guestsByLocation.get(request.device.locationId) || [] : [])
+      for (const guestId of attributed) {
+        requestsPerGuest.set(guestId, (requestsPerGuest.get(guestId) || 0) + 1)
+      }
+
+      const firstEvent = (type: string) => request.events
+        .filter(event => event.type === type)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0]
+      const accepted = firstEvent(REQUEST_EVENT_TYPES.ACCEPTED)
+      const completed = firstEvent(REQUEST_EVENT_TYPES.COMPLETED)
+      if (accepted) {
+        acceptSeconds.push(Math.round((accepted.createdAt.getTime() - request.createdAt.getTime()) / 1000))
+      }
+      if (completed) {
+        completeSeconds.push(Math.round((completed.createdAt.getTime() - request.createdAt.getTime()) / 1000))
+      }
+    }
+
+    const emergencies = requests.filter(request => request.priority === 'emergency')
+
+    return {
+      charterId: charter.id,
+      name: charter.name,
+      startDate: charter.startDate.toISOString(),
+      endDate: charter.endDate.toISOString(),
+      generatedAt: now.toISOString(),
+      totals: {
+        requests: requests.length,
+        emergencies: emergencies.length,
+        timeToAccept: AnalyticsService.summarize(acceptSeconds),
+        timeToComplete: AnalyticsService.summarize(completeSeconds),
+      },
+      guests: guests.map(guest => {
+        const context = GuestContextService.fromGuest(guest)
+        return {
+          guestId: guest.id,
+          name: guest.name,
+          isVip: guest.isVip,
+          requests: requestsPerGuest.get(guest.id) || 0,
+          preferences: context.summary,
+          allergies: context.allergies,
+          notes: context.notes,
+        }
+      }),
+      incidents: emergencies.map(request => ({
+        requestId: request.id,
+        category: request.category,
+        room: request.device.room,
+        createdAt: request.createdAt.toISOString(),
+        incidentNote: request.incidentNote,
+      })),
+      itinerary: CharterService.parseItinerary(charter.itinerary),
+    }
+  }
+
+  static async generateReport(charterId: number, now: Date = new Date()): Promise<CharterReport | null> {
+    try {
+      const charter = await prisma.charter.findUnique({
+        where: { id: charterId },
+        include: {
+          guests: {
+            select: {
+              id: true, name: true, isVip: true, notes: true,
+              preferences: true, languagesSpoken: true, locationId: true,
+            }
+          }
+        }
+      })
+
+      if (!charter) {
+        return null
+      }
+
+      const cabinPlan = CharterService.parseCabinPlan(charter.cabinPlan)
+      const locationIds = Array.from(new Set([
+        ...cabinPlan.map(assignment => assignment.locationId),
+        ...charter.guests.map(guest => guest.locationId).filter((id): id is number => id !== null),
+      ]))
+
+      const requests = locationIds.length > 0
+        ? await prisma.request.findMany({
+            where: {
+              createdAt: { gte: charter.startDate, lte: charter.endDate },
+              device: { locationId: { in: locationIds } },
+            },
+            select: {
+              id: true, createdAt: true, priority: true, category: true,
+              incidentNote: true, guestContext: true,
+              device: { select: { room: true, locationId: true } },
+              events: {
+                where: { type: { in: [REQUEST_EVENT_TYPES.ACCEPTED, REQUEST_EVENT_TYPES.COMPLETED] } },
+                select: { type: true, createdAt: true }
+              }
+            }
+          })
+        : []
+
+      return CharterService.buildReport(charter, charter.guests, requests, cabinPlan, now)
+    } catch (error) {
+      console.error('Greška pri generisanju izveštaja čartera:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Zatvara čarter: čuva završni izveštaj i arhivira goste (oslobađa kabine)
+   */
+  static async close(charterId: number, now: Date = new Date()): Promise<CharterReport | null> {
+    try {
+      const report = await CharterService.generateReport(charterId, now)
+      if (!report) {
+        return null
+      }
+
+      await prisma.$transaction([
+        prisma.charter.update({
+          where: { id: charterId },
+          data: { status: 'closed', closedAt: now, report: JSON.stringify(report) }
+        }),
+        prisma.guest.updateMany({
+          where: { charterId },
+          data: { status: 'Archived', archivedAt: now, locationId: null, room: null }
+        })
+      ])
+
+      console.log(`Čarter ${charterId} zatvoren, arhivirano ${report.guests.length} gostiju`)
+      return report
+    } catch (error) {
+      console.error('Greška pri zatvaranju čartera:', error)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,451 @@
+import { PrismaClient } from '@prisma/client'
+import type { StatusPayload } from '@obedio/mqtt-contract'
+import { AnalyticsService } from '@/lib/services/analytics-service'
+
+export type CoverageQuality = 'good' | 'fair' | 'poor' | 'no_data'
+
+export interface CoverageStats {
+  samples: number
+  medianRssi: number | null
+  // Udeo heartbeat poruka koje nisu stigle (0-1); null kada nema heartbeat-a
+  packetLoss: number | null
+  quality: CoverageQuality
+}
+
+export interface HourlyCoverage extends CoverageStats {
+  // Sat u danu po vremenu servera (0-23)
+  hour: number
+}
+
+export interface LocationCoverage extends CoverageStats {
+  locationId: number
+  name: string
+  deck: string
+  devices: number
+  worstHour: HourlyCoverage | null
+}
+
+export interface DeckRepeater {
+  uid: string
+  name: string | null
+  location: string
+  coverageArea: string | null
+}
+
+export interface DeckCoverage extends CoverageStats {
+  deck: string
+  worstHour: HourlyCoverage | null
+  locations: LocationCoverage[]
+  repeaters: DeckRepeater[]
+}
+
+export type RecommendationReason = 'weak_signal' | 'packet_loss' | 'weak_signal_and_packet_loss'
+
+export interface RepeaterRecommendation {
+  deck: string
+  // Lokacija sa najlošijom pokrivenošću - predlog mesta za novi repetitor
+  locationId: number
+  locationName: string
+  medianRssi: number | null
+  packetLoss: number | null
+  reason: RecommendationReason
+  // Lokacije na istoj palubi kojima bi repetitor pomogao
+  affectedLocations: string[]
+  // Repetitor koji već stoji na predloženoj lokaciji - prvo njega treba proveriti
+  existingRepeater: string | null
+}
+
+export interface CoverageReport {
+  from: string
+  to: string
+  days: number
+  thresholds: { fairRssi: number; poorRssi: number; fairLoss: number; poorLoss: number; heartbeatIntervalMs: number }
+  decks: DeckCoverage[]
+  recommendations: RepeaterRecommendation[]
+}
+
+export interface CoverageInput {
+  locations: { id: number; name: string; deck: string }[]
+  devices: { uid: string; name: string | null; type: string; locationId: number | null; coverageArea: string | null }[]
+  samples: { deviceUid: string; rssi: number; recordedAt: Date }[]
+  heartbeats: { deviceUid: string; hour: Date; received: number }[]
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export const COVERAGE_DEFAULT_DAYS = 7
+export const COVERAGE_RETENTION_DAYS = parseInt(process.env.COVERAGE_RETENTION_DAYS || '14', 10)
+
+// Uređaji šalju heartbeat na 30 sekundi (vidi lib/virtual-devices/base.ts)
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.COVERAGE_HEARTBEAT_INTERVAL_MS || '30000', 10)
+const FAIR_RSSI = parseInt(process.env.COVERAGE_FAIR_RSSI || '-90', 10)
+const POOR_RSSI = parseInt(process.env.COVERAGE_POOR_RSSI || '-100', 10)
+const FAIR_LOSS = parseFloat(process.env.COVERAGE_FAIR_LOSS || '0.05')
+const POOR_LOSS = parseFloat(process.env.COVERAGE_POOR_LOSS || '0.2')
+const PRUNE_INTERVAL_MS = parseInt(process.env.COVERAGE_PRUNE_INTERVAL_MS || '3600000', 10)
+
+// Satovi se kreću po brodu, a repetitori su infrastruktura - pokrivenost lokacije mere ostali uređaji
+const EXCLUDED_DEVICE_TYPES = ['REPEATER', 'SMART_WATCH']
+
+const QUALITY_RANK: Record<CoverageQuality, number> = { no_data: 0, good: 1, fair: 2, poor: 3 }
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Jačina signala u procentima (firmware bez RSSI očitavanja) preračunata u dBm:
+ * 0% = -120 dBm (granica prijema LoRa), 100% = -40 dBm
+ */
+export function signalToRssi(percent: number): number {
+  const clamped = Math.max(0, Math.min(100, percent))
+  return Math.round(-120 + clamped * 0.8)
+}
+
+const hourStart = (date: Date) => new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS)
+
+// Zbir primljenih i očekivanih heartbeat poruka
+interface LossTotals {
+  received: number
+  expected: number
+}
+
+/**
+ * Sabira očitavanja jedne grupe (lokacija, paluba ili sat u danu)
+ */
+class CoverageAccumulator {
+  readonly rssi: number[] = []
+  readonly loss: LossTotals = { received: 0, expected: 0 }
+
+  add(other: CoverageAccumulator) {
+    for (const value of other.rssi) {
+      this.rssi.push(value)
+    }
+    this.loss.received += other.loss.received
+    this.loss.expected += other.loss.expected
+  }
+
+  stats(): CoverageStats {
+    const medianRssi = AnalyticsService.percentile([...this.rssi].sort((a, b) => a - b), 50)
+    const packetLoss = this.loss.expected > 0
+      ? Math.round(Math.max(0, 1 - this.loss.received / this.loss.expected) * 1000) / 1000
+      : null
+    return { samples: this.rssi.length, medianRssi, packetLoss, quality: CoverageService.quality(medianRssi, packetLoss) }
+  }
+}
+
+class HourlyAccumulator {
+  readonly total = new CoverageAccumulator()
+  readonly hours = Array.from({ length: 24 }, () => new CoverageAccumulator())
+
+  add(other: HourlyAccumulator) {
+    this.total.add(other.total)
+    other.hours.forEach((hour, index) => this.hours[index].add(hour))
+  }
+
+  /**
+   * Sat u danu sa najlošijom pokrivenošću: prvo po kvalitetu, pa po RSSI i gubitku paketa
+   */
+  worstHour(): HourlyCoverage | null {
+    const hours = this.hours
+      .map((accumulator, hour) => ({ hour, ...accumulator.stats() }))
+      .filter(hour => hour.quality !== 'no_data')
+
+    hours.sort((a, b) =>
+      QUALITY_RANK[b.quality] - QUALITY_RANK[a.quality] ||
+      (a.medianRssi ?? 0) - (b.medianRssi ?? 0) ||
+      (b.packetLoss ?? 0) - (a.packetLoss ?? 0)
+    )
+    return hours[0] ?? null
+  }
+}
+
+/**
+ * Servis za istoriju signala uređaja i analizu pokrivenosti LoRa mreže po lokacijama i palubama
+ */
+export class CoverageService {
+  private static timer: NodeJS.Timeout | null = null
+
+  /**
+   * Pokreće brisanje starih očitavanja (u mqttBridge procesu)
+   */
+  static start(intervalMs: number = PRUNE_INTERVAL_MS) {
+    if (CoverageService.timer) {
+      return
+    }
+
+    CoverageService.timer = setInterval(() => {
+      CoverageService.prune().catch(error => {
+        console.error('Greška pri brisanju starih očitavanja signala:', error)
+      })
+    }, intervalMs)
+    console.log(`Istorija signala pokrenuta (čuva se ${COVERAGE_RETENTION_DAYS} dana)`)
+  }
+
+  static stop() {
+    if (CoverageService.timer) {
+      clearInterval(CoverageService.timer)
+      CoverageService.timer = null
+    }
+  }
+
+  /**
+   * Kvalitet pokrivenosti prema medijani RSSI i procenjenom gubitku paketa
+   */
+  static quality(medianRssi: number | null, packetLoss: number | null): CoverageQuality {
+    if (medianRssi === null && packetLoss === null) {
+      return 'no_data'
+    }
+    if ((medianRssi !== null && medianRssi < POOR_RSSI) || (packetLoss !== null && packetLoss >= POOR_LOSS)) {
+      return 'poor'
+    }
+    if ((medianRssi !== null && medianRssi < FAIR_RSSI) || (packetLoss !== null && packetLoss >= FAIR_LOSS)) {
+      return 'fair'
+    }
+    return 'good'
+  }
+
+  /**
+   * Čuva očitavanje signala uređaja ili veze repetitora
+   */
+  static async recordSignal(deviceUid: string, rssi: number, snr?: number | null, repeaterUid?: string | null, now: Date = new Date()) {
+    await prisma.signalSample.create({
+      data: {
+        deviceUid,
+        repeaterUid: repeaterUid ?? null,
+        rssi: Math.round(rssi),
+        snr: snr ?? null,
+        recordedAt: now,
+      }
+    })
+  }
+
+  /**
+   * Signal iz status poruke uređaja - pozitivna vrednost je u procentima, negativna u dBm
+   */
+  static async recordStatus(deviceUid: string, payload: StatusPayload, now: Date = new Date()) {
+    if (typeof payload.signal !== 'number') {
+      return
+    }
+    const rssi = payload.signal < 0 ? payload.signal : signalToRssi(payload.signal)
+    await CoverageService.recordSignal(deviceUid, rssi, null, null, now)
+  }
+
+  static async recordHeartbeat(deviceUid: string, now: Date = new Date()) {
+    const hour = hourStart(now)
+    await prisma.heartbeatCount.upsert({
+      where: { deviceUid_hour: { deviceUid, hour } },
+      create: { deviceUid, hour, received: 1 },
+      update: { received: { increment: 1 } },
+    })
+  }
+
+  /**
+   * Briše očitavanja starija od COVERAGE_RETENTION_DAYS
+   */
+  static async prune(now: Date = new Date()) {
+    const before = new Date(now.getTime() - COVERAGE_RETENTION_DAYS * DAY_MS)
+    await prisma.signalSample.deleteMany({ where: { recordedAt: { lt: before } } })
+    await prisma.heartbeatCount.deleteMany({ where: { hour: { lt: before } } })
+  }
+
+  /**
+   * Izveštaj o pokrivenosti za poslednjih `days` dana
+   */
+  static async getReport(days: number = COVERAGE_DEFAULT_DAYS, now: Date = new Date()): Promise<CoverageReport> {
+    try {
+      const from = new Date(now.getTime() - days * DAY_MS)
+      const [locations, devices, samples, heartbeats] = await Promise.all([
+        prisma.location.findMany({
+          where: { isActive: true },
+          select: { id: true, name: true, deck: true },
+          orderBy: [{ deck: 'asc' }, { name: 'asc' }]
+        }),
+        prisma.device.findMany({
+          where: { isActive: true, locationId: { not: null } },
+          select: { uid: true, name: true, type: true, locationId: true, coverageArea: true }
+        }),
+        prisma.signalSample.findMany({
+          where: { recordedAt: { gte: from } },
+          select: { deviceUid: true, rssi: true, recordedAt: true }
+        }),
+        prisma.heartbeatCount.findMany({
+          where: { hour: { gte: hourStart(from) } },
+          select: { deviceUid: true, hour: true, received: true }
+        }),
+      ])
+
+      return CoverageService.buildReport({ locations, devices, samples, heartbeats }, days, now)
+    } catch (error) {
+      console.error('Greška pri izradi izveštaja o pokrivenosti:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Računa pokrivenost po lokacijama i palubama i predlaže mesta za nove repetitore
+   */
+  static buildReport(input: CoverageInput, days: number, now: Date = new Date()): CoverageReport {
+    const from = new Date(now.getTime() - days * DAY_MS)
+    const locationByDevice = new Map<string, number>()
+    for (const device of input.devices) {
+      if (device.locationId !== null && !EXCLUDED_DEVICE_TYPES.includes(device.type)) {
+        locationByDevice.set(device.uid, device.locationId)
+      }
+    }
+
+    const accumulators = new Map<number, HourlyAccumulator>()
+    const accumulatorFor = (locationId: number) => {
+      const existing = accumulators.get(locationId)
+      if (existing) {
+        return existing
+      }
+      const created = new HourlyAccumulator()
+      accumulators.set(locationId, created)
+      return created
+    }
+
+    for (const sample of input.samples) {
+      const locationId = locationByDevice.get(sample.deviceUid)
+      if (locationId === undefined) {
+        continue
+      }
+      const accumulator = accumulatorFor(locationId)
+      accumulator.total.rssi.push(sample.rssi)
+      accumulator.hours[sample.recordedAt.getHours()].rssi.push(sample.rssi)
+    }
+
+    CoverageService.addPacketLoss(input.heartbeats, locationByDevice, accumulatorFor, now)
+
+    const devicesPerLocation = new Map<number, number>()
+    locationByDevice.forEach(locationId => {
+      devicesPerLocation.set(locationId, (devicesPerLocation.get(locationId) ?? 0) + 1)
+    })
+
+    const deckNames = Array.from(new Set(input.locations.map(location => location.deck))).sort()
+    const decks: DeckCoverage[] = deckNames.map(deck => {
+      const deckAccumulator = new HourlyAccumulator()
+      const locations = input.locations
+        .filter(location => location.deck === deck)
+        .map(location => {
+          const accumulator = accumulators.get(location.id) ?? new HourlyAccumulator()
+          deckAccumulator.add(accumulator)
+          return {
+            locationId: location.id,
+            name: location.name,
+            deck,
+            devices: devicesPerLocation.get(location.id) ?? 0,
+            ...accumulator.total.stats(),
+            worstHour: accumulator.worstHour(),
+          }
+        })
+
+      const locationIds = new Set(locations.map(location => location.locationId))
+      const repeaters = input.devices
+        .filter(device => device.type === 'REPEATER' && device.locationId !== null && locationIds.has(device.locationId))
+        .map(device => ({
+          uid: device.uid,
+          name: device.name,
+          location: locations.find(location => location.locationId === device.locationId)!.name,
+          coverageArea: device.coverageArea,
+        }))
+
+      return { deck, ...deckAccumulator.total.stats(), worstHour: deckAccumulator.worstHour(), locations, repeaters }
+    })
+
+    return {
+      from: from.toISOString(),
+      to: now.toISOString(),
+      days,
+      thresholds: {
+        fairRssi: FAIR_RSSI,
+        poorRssi: POOR_RSSI,
+        fairLoss: FAIR_LOSS,
+        poorLoss: POOR_LOSS,
+        heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS,
+      },
+      decks,
+      recommendations: CoverageService.recommend(decks, input.devices),
+    }
+  }
+
+  /**
+   * Očekivani heartbeat-i se računaju za svaki završen sat od prvog do poslednjeg sata u kome
+   * se uređaj javio, pa isključen uređaj (prazna baterija, skinut sa zida) ne kvari procenu.
+   */
+  private static addPacketLoss(
+    heartbeats: CoverageInput['heartbeats'],
+    locationByDevice: Map<string, number>,
+    accumulatorFor: (locationId: number) => HourlyAccumulator,
+    now: Date
+  ) {
+    const currentHour = hourStart(now).getTime()
+    const expectedPerHour = HOUR_MS / HEARTBEAT_INTERVAL_MS
+    const byDevice = new Map<string, Map<number, number>>()
+
+    for (const heartbeat of heartbeats) {
+      const hour = heartbeat.hour.getTime()
+      if (!locationByDevice.has(heartbeat.deviceUid) || hour >= currentHour) {
+        continue
+      }
+      const hours = byDevice.get(heartbeat.deviceUid) ?? new Map<number, number>()
+      hours.set(hour, (hours.get(hour) ?? 0) + heartbeat.received)
+      byDevice.set(heartbeat.deviceUid, hours)
+    }
+
+    byDevice.forEach((hours, deviceUid) => {
+      const accumulator = accumulatorFor(locationByDevice.get(deviceUid)!)
+      const times = Array.from(hours.keys())
+      const first = Math.min(...times)
+      const last = Math.max(...times)
+
+      for (let hour = first; hour <= last; hour += HOUR_MS) {
+        // Više heartbeat-a od očekivanog (npr. posle restarta) ne sme da sakrije gubitke u drugim satima
+        const received = Math.min(hours.get(hour) ?? 0, expectedPerHour)
+        const hourOfDay = new Date(hour).getHours()
+        accumulator.total.loss.received += received
+        accumulator.total.loss.expected += expectedPerHour
+        accumulator.hours[hourOfDay].loss.received += received
+        accumulator.hours[hourOfDay].loss.expected += expectedPerHour
+      }
+    })
+  }
+
+  /**
+   * Jedan predlog po palubi sa lošom pokrivenošću: novi repetitor na najlošijoj lokaciji,
+   * koji pomaže i ostalim lokacijama na palubi sa slabim signalom
+   */
+  private static recommend(decks: DeckCoverage[], devices: CoverageInput['devices']): RepeaterRecommendation[] {
+    const recommendations: RepeaterRecommendation[] = []
+
+    for (const deck of decks) {
+      const poor = deck.locations
+        .filter(location => location.quality === 'poor')
+        .sort((a, b) => (a.medianRssi ?? 0) - (b.medianRssi ?? 0) || (b.packetLoss ?? 0) - (a.packetLoss ?? 0))
+      if (poor.length === 0) {
+        continue
+      }
+
+      const worst = poor[0]
+      const weakSignal = worst.medianRssi !== null && worst.medianRssi < POOR_RSSI
+      const packetLoss = worst.packetLoss !== null && worst.packetLoss >= POOR_LOSS
+      const existingRepeater = devices.find(device => device.type === 'REPEATER' && device.locationId === worst.locationId)
+
+      recommendations.push({
+        deck: deck.deck,
+        locationId: worst.locationId,
+        locationName: worst.name,
+        medianRssi: worst.medianRssi,
+        packetLoss: worst.packetLoss,
+        reason: weakSignal && packetLoss ? 'weak_signal_and_packet_loss' : weakSignal ? 'weak_signal' : 'packet_loss',
+        affectedLocations: deck.locations
+          .filter(location => location.quality === 'poor' || location.quality === 'fair')
+          .map(location => location.name),
+        existingRepeater: existingRepeater?.uid ?? null,
+      })
+    }
+
+    // Najlošije pokrivene palube prve
+    return recommendations.sort((a, b) => (a.medianRssi ?? 0) - (b.medianRssi ?? 0))
+  }
+}
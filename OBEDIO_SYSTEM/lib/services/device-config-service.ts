@@ -0,0 +1,492 @@
+import { PrismaClient } from '@prisma/client'
+import type { DeviceConfigProfile } from '@prisma/client'
+import { createHash } from 'crypto'
+import { z } from 'zod'
+import { emitter, SSE_EVENTS, DeviceConfigEvent } from '@/lib/sseEmitter'
+import type { MqttPublisher } from '@/lib/services/watch-service'
+import { ConfigAppliedPayload, DEVICE_ACTIONS, legacyTopic } from '@obedio/mqtt-contract'
+
+export const CONFIG_DEVICE_TYPES = ['BUTTON', 'SMART_WATCH', 'REPEATER'] as const
+export const INTERACTION_TYPES = ['single_press', 'double_press', 'long_press', 'touch'] as const
+export const INTERACTION_ACTIONS = ['request', 'call', 'message', 'custom'] as const
+
+export type ConfigDeviceType = (typeof CONFIG_DEVICE_TYPES)[number]
+export type InteractionType = (typeof INTERACTION_TYPES)[number]
+export type InteractionAction = (typeof INTERACTION_ACTIONS)[number]
+
+// synced - uređaj je potvrdio važeći profil, pending - profil je poslat i čeka potvrdu,
+// drift - uređaj radi sa drugačijom konfiguracijom
+export type ConfigState = 'synced' | 'pending' | 'drift'
+
+export interface InteractionConfig {
+  enabled: boolean
+  action: InteractionAction
+  target?: string
+  message?: string
+}
+
+export interface LoraConfig {
+  frequency: number
+  spreadingFactor: number
+  bandwidth: number
+  codingRate: number
+  adaptiveDataRate: boolean
+  channelHopping: boolean
+  extendedRange: boolean
+}
+
+export interface DeviceConfig {
+  interactions: Record<InteractionType, InteractionConfig>
+  shakeToCall: boolean
+  ledEnabled: boolean
+  vibrationEnabled: boolean
+  lora: LoraConfig
+}
+
+// Profil čuva samo polja koja menja; ostalo nasleđuje od profila tipa i podrazumevanih vrednosti
+export interface DeviceConfigPatch {
+  interactions?: Partial<Record<InteractionType, Partial<InteractionConfig>>>
+  shakeToCall?: boolean
+  ledEnabled?: boolean
+  vibrationEnabled?: boolean
+  lora?: Partial<LoraConfig>
+}
+
+export type ConfigProfileScope = { deviceType: string } | { deviceId: number }
+
+// Validacija profila iz API-ja (profil tipa i profil uređaja)
+const interactionSchema = z.object({
+  enabled: z.boolean().optional(),
+  action: z.enum(INTERACTION_ACTIONS).optional(),
+  target: z.string().max(100).optional(),
+  message: z.string().max(100).optional(),
+}).strict().optional()
+
+export const configPatchSchema = z.object({
+  interactions: z.object({
+    single_press: interactionSchema,
+    double_press: interactionSchema,
+    long_press: interactionSchema,
+    touch: interactionSchema,
+  }).strict().optional(),
+  shakeToCall: z.boolean().optional(),
+  ledEnabled: z.boolean().optional(),
+  vibrationEnabled: z.boolean().optional(),
+  lora: z.object({
+    frequency: z.number().min(137).max(1020).optional(),
+    spreadingFactor: z.number().int().min(6).max(12).optional(),
+    bandwidth: z.number().positive().optional(),
+    codingRate: z.number().int().min(5).max(8).optional(),
+    adaptiveDataRate: z.boolean().optional(),
+    channelHopping: z.boolean().optional(),
+    extendedRange: z.boolean().optional(),
+  }).strict().optional(),
+}).strict()
+
+export type ConfigProfile = Omit<DeviceConfigProfile, 'config'> & { config: DeviceConfigPatch }
+
+// Fabričke vrednosti, iste kao na firmware-u dugmeta
+export const DEFAULT_DEVICE_CONFIG: DeviceConfig = {
+  interactions: {
+    single_press: { enabled: true, action: 'request' },
+    double_press: { enabled: true, action: 'call' },
+    long_press: { enabled: false, action: 'message' },
+    touch: { enabled: false, action: 'custom' },
+  },
+  shakeToCall: true,
+  ledEnabled: true,
+  vibrationEnabled: true,
+  lora: {
+    frequency: 915.0,
+    spreadingFactor: 7,
+    bandwidth: 125,
+    codingRate: 5,
+    adaptiveDataRate: true,
+    channelHopping: true,
+    extendedRange: false,
+  },
+}
+
+type ConfigDeviceRow = {
+  id: number
+  uid: string
+  type: string
+  lastSeen: Date
+  appliedConfigHash: string | null
+  pushedConfigHash: string | null
+  configPushedAt: Date | null
+}
+
+const SYNC_INTERVAL_MS = parseInt(process.env.CONFIG_SYNC_INTERVAL_MS || '30000')
+// Profil koji uređaj nije potvrdio šalje se ponovo posle ovog vremena
+const RESEND_AFTER_MS = parseInt(process.env.CONFIG_RESEND_AFTER_MS || '300000')
+// Uređaj je na mreži ako se javio u poslednjih 5 minuta (isto kao statistika sistema)
+const ONLINE_WINDOW_MS = 5 * 60 * 1000
+
+const DEVICE_COLUMNS = {
+  id: true,
+  uid: true,
+  type: true,
+  lastSeen: true,
+  appliedConfigHash: true,
+  pushedConfigHash: true,
+  configPushedAt: true,
+} as const
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis za profile konfiguracije uređaja (mapiranje pritisaka dugmeta, LED/vibracija, LoRa).
+ * Profili su verzionisani u bazi; MQTT bridge (start/sync) šalje važeći profil na `cmd/config`
+ * uređajima koji ga nisu potvrdili, a uređaji odgovaraju hash-om na `config/applied`.
+ */
+export class DeviceConfigService {
+  private static publisher: MqttPublisher | null = null
+  private static timer: NodeJS.Timeout | null = null
+
+  /**
+   * Postavlja MQTT publisher za slanje profila
+   */
+  static setPublisher(publisher: MqttPublisher | null) {
+    DeviceConfigService.publisher = publisher
+  }
+
+  /**
+   * Pokreće periodično slanje profila uređajima koji odstupaju
+   */
+  static start(intervalMs: number = SYNC_INTERVAL_MS) {
+    if (DeviceConfigService.timer) {
+      return
+    }
+
+    DeviceConfigService.timer = setInterval(() => {
+      DeviceConfigService.sync().catch(error => {
+        console.error('Greška pri slanju konfiguracije uređajima:', error)
+      })
+    }, intervalMs)
+
+    console.log(`Slanje konfiguracije uređajima pokrenuto (na svakih ${intervalMs}ms)`)
+  }
+
+  static stop() {
+    if (DeviceConfigService.timer) {
+      clearInterval(DeviceConfigService.timer)
+      DeviceConfigService.timer = null
+    }
+  }
+
+  /**
+   * Spaja podrazumevane vrednosti, profil tipa i profil uređaja (kasniji imaju prednost)
+   */
+  static resolve(...patches: (DeviceConfigPatch | null | undefined)[]): DeviceConfig {
+    return patches.reduce<DeviceConfig>((config, patch) => {
+      if (!patch) {
+        return config
+      }
+
+      const interactions = { ...config.interactions }
+      for (const type of INTERACTION_TYPES) {
+        if (patch.interactions?.[type]) {
+          interactions[type] = { ...interactions[type], ...patch.interactions[type] }
+        }
+      }
+
+      return {
+        interactions,
+        shakeToCall: patch.shakeToCall ?? config.shakeToCall,
+        ledEnabled: patch.ledEnabled ?? config.ledEnabled,
+        vibrationEnabled: patch.vibrationEnabled ?? config.vibrationEnabled,
+        lora: { ...config.lora, ...patch.lora },
+      }
+    }, DEFAULT_DEVICE_CONFIG)
+  }
+
+  /**
+   * Kratak hash konfiguracije (prvih 16 znakova SHA-256 nad JSON-om sa sortiranim ključevima).
+   * Isti hash uređaj vraća na `config/applied`.
+   */
+  static hash(config: DeviceConfig): string {
+    const canonical = (value: unknown): unknown => {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return Object.fromEntries(
+          Object.keys(value).sort().map(key => [key, canonical((value as Record<string, unknown>)[key])])
+        )
+      }
+      return value
+    }
+
+    return createHash('sha256').update(JSON.stringify(canonical(config))).digest('hex').slice(0, 16)
+  }
+
+  static configState(device: Pick<ConfigDeviceRow, 'appliedConfigHash' | 'pushedConfigHash'>, hash: string): ConfigState {
+    if (device.appliedConfigHash === hash) {
+      return 'synced'
+    }
+    return device.pushedConfigHash === hash ? 'pending' : 'drift'
+  }
+
+  /**
+   * Poslednje verzije profila po tipu uređaja sa brojem uređaja po stanju sinhronizacije
+   */
+  static async listTypeProfiles() {
+    try {
+      const [typeProfiles, devices] = await Promise.all([
+        DeviceConfigService.latestTypeProfiles(),
+        prisma.device.findMany({
+          where: { isActive: true, type: { in: [...CONFIG_DEVICE_TYPES] } },
+          select: DEVICE_COLUMNS,
+        }),
+      ])
+      const deviceProfiles = await DeviceConfigService.latestDeviceProfiles(devices.map(device => device.id))
+
+      return CONFIG_DEVICE_TYPES.map(type => {
+        const profile = typeProfiles.get(type) || null
+        const counts: Record<ConfigState, number> = { synced: 0, pending: 0, drift: 0 }
+
+        for (const device of devices.filter(device => device.type === type)) {
+          const hash = DeviceConfigService.hash(
+            DeviceConfigService.resolve(profile?.config, deviceProfiles.get(device.id)?.config)
+          )
+          counts[DeviceConfigService.configState(device, hash)]++
+        }
+
+        return {
+          deviceType: type,
+          profile,
+          config: DeviceConfigService.resolve(profile?.config),
+          devices: counts,
+        }
+      })
+    } catch (error) {
+      console.error('Greška pri dohvatanju profila konfiguracije:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Sve verzije profila tipa ili uređaja, najnovija prva
+   */
+  static async getHistory(scope: ConfigProfileScope) {
+    try {
+      const versions = await prisma.deviceConfigProfile.findMany({
+        where: 'deviceId' in scope ? { deviceId: scope.deviceId } : { deviceType: scope.deviceType },
+        orderBy: { version: 'desc' },
+      })
+
+      return versions.map(DeviceConfigService.parseProfile)
+    } catch (error) {
+      console.error('Greška pri dohvatanju istorije profila konfiguracije:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Čuva novu verziju profila. Uređaji dobijaju promenu pri sledećoj sinhronizaciji bridge-a.
+   */
+  static async saveProfile(scope: ConfigProfileScope, config: DeviceConfigPatch, notes?: string | null, createdBy?: number) {
+    try {
+      const where = 'deviceId' in scope ? { deviceId: scope.deviceId } : { deviceType: scope.deviceType }
+      const latest = await prisma.deviceConfigProfile.findFirst({
+        where,
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      })
+
+      const profile = await prisma.deviceConfigProfile.create({
+        data: {
+          ...where,
+          version: (latest?.version || 0) + 1,
+          config: JSON.stringify(config),
+          notes: notes || null,
+          createdBy: createdBy || null,
+        },
+      })
+
+      return DeviceConfigService.parseProfile(profile)
+    } catch (error) {
+      console.error('Greška pri čuvanju profila konfiguracije:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Važeća konfiguracija uređaja, profili od kojih je nastala i stanje sinhronizacije
+   */
+  static async getDeviceConfig(deviceId: number) {
+    try {
+      const device = await prisma.device.findUnique({
+        where: { id: deviceId },
+        select: { ...DEVICE_COLUMNS, configAppliedAt: true },
+      })
+
+      if (!device) {
+        return null
+      }
+
+      const [typeProfile, deviceProfile] = await Promise.all([
+        DeviceConfigService.latestTypeProfiles([device.type]).then(profiles => profiles.get(device.type) || null),
+        DeviceConfigService.latestDeviceProfiles([device.id]).then(profiles => profiles.get(device.id) || null),
+      ])
+
+      const config = DeviceConfigService.resolve(typeProfile?.config, deviceProfile?.config)
+      const hash = DeviceConfigService.hash(config)
+
+      return {
+        deviceId: device.id,
+        uid: device.uid,
+        typeProfile,
+        deviceProfile,
+        // Konfiguracija koju bi uređaj imao bez sopstvenog profila
+        baseConfig: DeviceConfigService.resolve(typeProfile?.config),
+        config,
+        hash,
+        appliedHash: device.appliedConfigHash,
+        appliedAt: device.configAppliedAt,
+        pushedAt: device.configPushedAt,
+        state: DeviceConfigService.configState(device, hash),
+      }
+    } catch (error) {
+      console.error('Greška pri dohvatanju konfiguracije uređaja:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Šalje važeći profil uređajima na mreži koji ga nisu potvrdili.
+   * Isti profil se ponovo šalje tek posle RESEND_AFTER_MS.
+   */
+  static async sync(now: Date = new Date()) {
+    const publisher = DeviceConfigService.publisher
+    if (!publisher) {
+      return 0
+    }
+
+    try {
+      const devices = await prisma.device.findMany({
+        where: {
+          isActive: true,
+          type: { in: [...CONFIG_DEVICE_TYPES] },
+          lastSeen: { gte: new Date(now.getTime() - ONLINE_WINDOW_MS) },
+        },
+        select: DEVICE_COLUMNS,
+      })
+
+      const typeProfiles = await DeviceConfigService.latestTypeProfiles()
+      const deviceProfiles = await DeviceConfigService.latestDeviceProfiles(devices.map(device => device.id))
+      let pushed = 0
+
+      for (const device of devices) {
+        const config = DeviceConfigService.resolve(
+          typeProfiles.get(device.type)?.config,
+          deviceProfiles.get(device.id)?.config
+        )
+        const hash = DeviceConfigService.hash(config)
+
+        if (device.appliedConfigHash === hash) {
+          continue
+        }
+
+        const recentlyPushed = device.pushedConfigHash === hash && device.configPushedAt &&
+          now.getTime() - device.configPushedAt.getTime() < RESEND_AFTER_MS
+        if (recentlyPushed) {
+          continue
+        }
+
+        publisher(legacyTopic(device.uid, DEVICE_ACTIONS.CONFIG), {
+          hash,
+          config,
+          timestamp: now.toISOString(),
+        })
+
+        await prisma.device.update({
+          where: { id: device.id },
+          data: { pushedConfigHash: hash, configPushedAt: now },
+        })
+
+        DeviceConfigService.notify({ deviceId: device.id, uid: device.uid, hash, state: 'pending', error: null })
+        pushed++
+      }
+
+      return pushed
+    } catch (error) {
+      console.error('Greška pri slanju konfiguracije uređajima:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Obrada potvrde uređaja (config/applied)
+   */
+  static async handleApplied(uid: string, payload: ConfigAppliedPayload) {
+    try {
+      const device = await prisma.device.findUnique({ where: { uid }, select: DEVICE_COLUMNS })
+      if (!device) {
+        console.warn(`Potvrda konfiguracije od nepoznatog uređaja ${uid}`)
+        return
+      }
+
+      // Uređaj je odbio profil - zadržavamo staru potvrdu, a ponovno slanje ide posle RESEND_AFTER_MS
+      if (payload.error || !payload.hash) {
+        console.warn(`Uređaj ${uid} nije primenio konfiguraciju: ${payload.error || 'nedostaje hash'}`)
+        DeviceConfigService.notify({
+          deviceId: device.id,
+          uid,
+          hash: payload.hash || null,
+          state: 'drift',
+          error: payload.error || 'Nedostaje hash konfiguracije',
+        })
+        return
+      }
+
+      await prisma.device.update({
+        where: { id: device.id },
+        data: { appliedConfigHash: payload.hash, configAppliedAt: new Date() },
+      })
+
+      const state = payload.hash === device.pushedConfigHash ? 'synced' : 'drift'
+      DeviceConfigService.notify({ deviceId: device.id, uid, hash: payload.hash, state, error: null })
+    } catch (error) {
+      console.error('Greška pri obradi potvrde konfiguracije:', error)
+      throw error
+    }
+  }
+
+  private static parseProfile(profile: DeviceConfigProfile): ConfigProfile {
+    return { ...profile, config: JSON.parse(profile.config) as DeviceConfigPatch }
+  }
+
+  private static async latestTypeProfiles(types: string[] = [...CONFIG_DEVICE_TYPES]) {
+    const profiles = await prisma.deviceConfigProfile.findMany({
+      where: { deviceType: { in: types } },
+      orderBy: { version: 'desc' },
+    })
+
+    const latest = new Map<string, ConfigProfile>()
+    for (const profile of profiles) {
+      if (profile.deviceType && !latest.has(profile.deviceType)) {
+        latest.set(profile.deviceType, DeviceConfigService.parseProfile(profile))
+      }
+    }
+    return latest
+  }
+
+  private static async latestDeviceProfiles(deviceIds: number[]) {
+    const profiles = await prisma.deviceConfigProfile.findMany({
+      where: { deviceId: { in: deviceIds } },
+      orderBy: { version: 'desc' },
+    })
+
+    const latest = new Map<number, ConfigProfile>()
+    for (const profile of profiles) {
+      if (profile.deviceId && !latest.has(profile.deviceId)) {
+        latest.set(profile.deviceId, DeviceConfigService.parseProfile(profile))
+      }
+    }
+    return latest
+  }
+
+  private static notify(event: DeviceConfigEvent) {
+    emitter.emitEvent(SSE_EVENTS.DEVICE_CONFIG, event)
+  }
+}
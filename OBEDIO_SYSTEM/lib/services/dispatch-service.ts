@@ -0,0 +1,449 @@
+import { PrismaClient } from '@prisma/client'
+import { emitter, SSE_EVENTS } from '@/lib/sseEmitter'
+import { WatchService } from '@/lib/services/watch-service'
+import { RequestHistoryService, REQUEST_EVENT_TYPES } from '@/lib/services/request-history-service'
+import { PriorityService } from '@/lib/services/priority-service'
+import { TranslationService } from '@/lib/services/translation-service'
+import { assignRequest } from '@/lib/mqtt-handlers/request-handler'
+
+export type CrewStatus = 'available' | 'busy' | 'break' | 'offline'
+
+export interface DispatchCandidate {
+  userId: number
+  name: string
+  department: string | null
+  crewStatus: string | null
+  workloadHours: number
+  openRequests: number
+  locationId: number | null
+  deck: string | null
+}
+
+export interface DispatchTarget {
+  department: string
+  locationId: number | null
+  deck: string | null
+}
+
+export interface RankedCandidate {
+  candidate: DispatchCandidate
+  score: number
+}
+
+// Težine za bodovanje kandidata - veći skor znači bolji kandidat
+export const DISPATCH_WEIGHTS = {
+  departmentMatch: 50,
+  status: { available: 30, busy: 0, break: -40 } as Record<string, number>,
+  perOpenRequest: -15,
+  perWorkloadHour: -2,
+  sameLocation: 20,
+  sameDeck: 10,
+}
+
+// Odeljenje zaduženo za lokaciju kada Location.responsibleDepartment nije postavljen
+export const DEFAULT_DEPARTMENT_BY_LOCATION_TYPE: Record<string, string> = {
+  cabin: 'Interior',
+  public: 'Interior',
+  crew: 'Interior',
+  service: 'Galley',
+  technical: 'Engineering',
+}
+
+const OFFER_TIMEOUT_MS = parseInt(process.env.DISPATCH_OFFER_TIMEOUT_MS || '30000')
+const SWEEP_INTERVAL_MS = parseInt(process.env.DISPATCH_SWEEP_INTERVAL_MS || '5000')
+
+// Lokacija sa sata starija od ovoga se ne uzima u obzir
+const LOCATION_STALE_MS = 15 * 60 * 1000
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis za automatsku dodelu novih zahteva najpogodnijem članu posade na dužnosti.
+ * Zahtev se nudi jednom kandidatu na sat; ako ga odbije ili ne odgovori na vreme,
+ * nudi se sledećem. Kada kandidata više nema, zahtev ostaje eskalacijama.
+ */
+export class DispatchService {
+  private static timer: NodeJS.Timeout | null = null
+  private static sweeping = false
+
+  /**
+   * Pokreće periodičnu obradu isteklih ponuda i nedodeljenih zahteva
+   */
+  static start(intervalMs: number = SWEEP_INTERVAL_MS) {
+    if (DispatchService.timer) {
+      return
+    }
+
+    if (process.env.AUTO_DISPATCH_ENABLED === 'false') {
+      console.log('Auto-dispatch je isključen (AUTO_DISPATCH_ENABLED=false)')
+      return
+    }
+
+    DispatchService.timer = setInterval(() => {
+      DispatchService.sweep().catch(error => {
+        console.error('Greška pri automatskoj dodeli zahteva:', error)
+      })
+    }, intervalMs)
+
+    console.log(`Auto-dispatch pokrenut (provera na svakih ${intervalMs}ms)`)
+  }
+
+  /**
+   * Zaustavlja periodičnu obradu
+   */
+  static stop() {
+    if (DispatchService.timer) {
+      clearInterval(DispatchService.timer)
+      DispatchService.timer = null
+    }
+  }
+
+  /**
+   * Određuje odeljenje zaduženo za lokaciju
+   */
+  static resolveDepartment(location: { type: string; responsibleDepartment: string | null } | null): string {
+    if (location?.responsibleDepartment) {
+      return location.responsibleDepartment
+    }
+    return DEFAULT_DEPARTMENT_BY_LOCATION_TYPE[location?.type || ''] || 'Interior'
+  }
+
+  /**
+   * Boduje kandidata za zahtev na datoj lokaciji
+   */
+  static scoreCandidate(candidate: DispatchCandidate, target: DispatchTarget): number {
+    let score = 0
+
+    if (candidate.department === target.department) {
+      score += DISPATCH_WEIGHTS.departmentMatch
+    }
+
+    score += DISPATCH_WEIGHTS.status[candidate.crewStatus || 'available'] ?? 0
+    score += candidate.openRequests * DISPATCH_WEIGHTS.perOpenRequest
+    score += candidate.workloadHours * DISPATCH_WEIGHTS.perWorkloadHour
+
+    if (target.locationId && candidate.locationId === target.locationId) {
+      score += DISPATCH_WEIGHTS.sameLocation
+    } else if (target.deck && candidate.deck === target.deck) {
+      score += DISPATCH_WEIGHTS.sameDeck
+    }
+
+    return score
+  }
+
+  /**
+   * Rangira kandidate od najboljeg ka najlošijem.
+   * Članovi posade koji su offline ili su već dobili ponudu za ovaj zahtev se preskaču.
+   */
+  static rankCandidates(
+    candidates: DispatchCandidate[],
+    target: DispatchTarget,
+    excludeUserIds: number[] = []
+  ): RankedCandidate[] {
+    return candidates
+      .filter(candidate => candidate.crewStatus !== 'offline')
+      .filter(candidate => !excludeUserIds.includes(candidate.userId))
+      .map(candidate => ({ candidate, score: DispatchService.scoreCandidate(candidate, target) }))
+      .sort((a, b) =>
+        b.score - a.score ||
+        a.candidate.openRequests - b.candidate.openRequests ||
+        a.candidate.userId - b.candidate.userId
+      )
+  }
+
+  /**
+   * Vraća članove posade na dužnosti koji nose sat sa uključenom automatskom dodelom
+   */
+  static async getCandidates(now: Date = new Date()): Promise<DispatchCandidate[]> {
+    const users = await prisma.user.findMany({
+      where: {
+        onLeave: false,
+        // Samo posada čija je smena stvarno u toku (vidi DutyService)
+        shifts: { some: { startedAt: { not: null }, endedAt: null } },
+        devices: {
+          some: { type: 'SMART_WATCH', isActive: true, autoAssignPolicy: 'auto_dispatch' }
+        }
+      },
+      select: {
+        id: true,
+        name: true,
+        department: true,
+        crewStatus: true,
+        workloadHours: true,
+        lastLocationAt: true,
+        lastLocation: { select: { id: true, deck: true } },
+        _count: {
+          select: { requests: { where: { status: { in: ['PENDING', 'IN_PROGRESS'] } } } }
+        }
+      }
+    })
+
+    return users.map(user => {
+      const locationFresh = !!user.lastLocationAt &&
+        now.getTime() - user.lastLocationAt.getTime() < LOCATION_STALE_MS
+
+      return {
+        userId: user.id,
+        name: user.name,
+        department: user.department,
+        crewStatus: user.crewStatus,
+        workloadHours: user.workloadHours || 0,
+        openRequests: user._count.requests,
+        locationId: locationFresh ? user.lastLocation?.id || null : null,
+        deck: locationFresh ? user.lastLocation?.deck || null : null,
+      }
+    })
+  }
+
+  /**
+   * Nudi zahtev najboljem sledećem kandidatu
+   * @returns Kreirana ponuda ili null ako zahtev nije dodeljen
+   */
+  static async dispatch(requestId: number, now: Date = new Date()) {
+    try {
+      const request = await prisma.request.findUnique({
+        where: { id: requestId },
+        include: {
+          device: {
+            select: {
+              name: true,
+              room: true,
+              locationRef: {
+                select: { id: true, type: true, deck: true, responsibleDepartment: true }
+              }
+            }
+          },
+          dispatchOffers: {
+            select: { userId: true, status: true }
+          }
+        }
+      })
+
+      if (!request || request.status !== 'PENDING') {
+        return null
+      }
+
+      // Hitni zahtevi se ne nude pojedinačno - alarm ide na sve satove
+      if (PriorityService.isEmergency(request.priority)) {
+        return null
+      }
+
+      // Ponuda je već u toku
+      if (request.dispatchOffers.some(offer => offer.status === 'PENDING')) {
+        return null
+      }
+
+      const location = request.device.locationRef
+      const target: DispatchTarget = {
+        // Pravilo dugmeta može uputiti zahtev određenom odeljenju
+        department: request.department || DispatchService.resolveDepartment(location),
+        locationId: location?.id || null,
+        deck: location?.deck || null,
+      }
+
+      const candidates = await DispatchService.getCandidates(now)
+      const ranked = DispatchService.rankCandidates(
+        candidates,
+        target,
+        request.dispatchOffers.map(offer => offer.userId)
+      )
+
+      if (ranked.length === 0) {
+        console.warn(`Nema slobodnih kandidata za zahtev ${requestId}, prepušteno eskalaciji`)
+        return null
+      }
+
+      const best = ranked[0]
+      const expiresAt = new Date(now.getTime() + OFFER_TIMEOUT_MS)
+
+      const [offer] = await prisma.$transaction([
+        prisma.dispatchOffer.create({
+          data: {
+            requestId,
+            userId: best.candidate.userId,
+            score: best.score,
+            offeredAt: now,
+            expiresAt,
+          }
+        }),
+        prisma.request.update({
+          where: { id: requestId },
+          data: { assignedTo: best.candidate.userId }
+        })
+      ])
+
+      await RequestHistoryService.record(requestId, REQUEST_EVENT_TYPES.DISPATCHED, {
+        toUserId: best.candidate.userId,
+        metadata: { offerId: offer.id, score: best.score, candidates: ranked.length }
+      })
+
+      // Poruka gosta na jeziku člana posade kome se zahtev nudi
+      const translation = await TranslationService.translateRequest(requestId)
+
+      await WatchService.notifyUsers([best.candidate.userId], {
+        type: 'dispatch_offer',
+        requestId,
+        offerId: offer.id,
+        expiresAt: expiresAt.toISOString(),
+        actions: ['accept', 'decline'],
+        requestDetails: {
+          deviceName: request.device.name,
+          room: request.device.room,
+          transcript: request.transcript,
+          translatedTranscript: translation?.translatedTranscript ?? null,
+          translationLanguage: translation?.translationLanguage ?? null,
+        }
+      })
+
+      emitter.emitEvent(SSE_EVENTS.REQUEST_UPDATE, {
+        requestId,
+        deviceId: request.deviceId,
+        deviceName: request.device.name,
+        room: request.device.room,
+        status: request.status,
+        assignedTo: best.candidate.userId,
+        assignedName: best.candidate.name,
+        updatedAt: now.toISOString(),
+      })
+
+      console.log(`Zahtev ${requestId} ponuđen korisniku ${best.candidate.name} (skor ${best.score})`)
+      return offer
+    } catch (error) {
+      console.error(`Greška pri automatskoj dodeli zahteva ${requestId}:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * Član posade je prihvatio zahtev sa sata
+   */
+  static async handleAccept(requestId: number, userId: number, now: Date = new Date()) {
+    const request = await prisma.request.findUnique({
+      where: { id: requestId },
+      select: { status: true }
+    })
+
+    if (!request || request.status !== 'PENDING') {
+      console.warn(`Zahtev ${requestId} više nije na čekanju, prihvatanje se ignoriše`)
+      return null
+    }
+
+    await prisma.dispatchOffer.updateMany({
+      where: { requestId, userId, status: 'PENDING' },
+      data: { status: 'ACCEPTED', respondedAt: now }
+    })
+
+    // Ostale otvorene ponude za isti zahtev više ne važe
+    await prisma.dispatchOffer.updateMany({
+      where: { requestId, status: 'PENDING' },
+      data: { status: 'CANCELLED', respondedAt: now }
+    })
+
+    return assignRequest(requestId, userId)
+  }
+
+  /**
+   * Član posade je odbio zahtev - nudi se sledećem kandidatu
+   */
+  static async handleDecline(requestId: number, userId: number, reason?: string, now: Date = new Date()) {
+    const offer = await prisma.dispatchOffer.findFirst({
+      where: { requestId, userId, status: 'PENDING' }
+    })
+
+    if (!offer) {
+      console.warn(`Nema otvorene ponude za zahtev ${requestId} i korisnika ${userId}`)
+      return null
+    }
+
+    await DispatchService.closeOffer(offer, 'DECLINED', now, reason)
+    return DispatchService.dispatch(requestId, now)
+  }
+
+  /**
+   * Zatvara ponudu i vraća zahtev u nedodeljene da bi ga preuzeo sledeći kandidat
+   */
+  private static async closeOffer(
+    offer: { id: number; requestId: number; userId: number },
+    status: 'DECLINED' | 'EXPIRED',
+    now: Date,
+    reason?: string
+  ) {
+    await prisma.$transaction([
+      prisma.dispatchOffer.update({
+        where: { id: offer.id },
+        data: { status, reason: reason || null, respondedAt: now }
+      }),
+      prisma.request.updateMany({
+        where: { id: offer.requestId, status: 'PENDING', assignedTo: offer.userId },
+        data: { assignedTo: null }
+      })
+    ])
+
+    await RequestHistoryService.record(offer.requestId, REQUEST_EVENT_TYPES.DECLINED, {
+      actorId: status === 'DECLINED' ? offer.userId : null,
+      fromUserId: offer.userId,
+      reason,
+      metadata: { offerId: offer.id, expired: status === 'EXPIRED' }
+    })
+  }
+
+  /**
+   * Obrađuje istekle ponude i dodeljuje zahteve koji još nisu ponuđeni nikome
+   */
+  static async sweep(now: Date = new Date()): Promise<void> {
+    // Sprečava preklapanje ako prethodna obrada još traje
+    if (DispatchService.sweeping) {
+      return
+    }
+    DispatchService.sweeping = true
+
+    try {
+      const expiredOffers = await prisma.dispatchOffer.findMany({
+        where: { status: 'PENDING', expiresAt: { lte: now } },
+        include: { request: { select: { status: true, assignedTo: true } } }
+      })
+
+      for (const offer of expiredOffers) {
+        try {
+          // Zahtev je u međuvremenu preuzet ili zatvoren drugim putem
+          if (offer.request.status !== 'PENDING' || offer.request.assignedTo !== offer.userId) {
+            await prisma.dispatchOffer.update({
+              where: { id: offer.id },
+              data: { status: 'CANCELLED', respondedAt: now }
+            })
+            continue
+          }
+
+          await DispatchService.closeOffer(offer, 'EXPIRED', now)
+          await DispatchService.dispatch(offer.requestId, now)
+        } catch (error) {
+          // Jedna neispravna ponuda ne sme da zaustavi obradu ostalih
+          console.error(`Greška pri obradi istekle ponude ${offer.id}:`, error)
+        }
+      }
+
+      // Zahtevi kreirani mimo MQTT-a (npr. iz web aplikacije)
+      const undispatched = await prisma.request.findMany({
+        where: {
+          status: 'PENDING',
+          assignedTo: null,
+          priority: { not: 'emergency' },
+          dispatchOffers: { none: {} }
+        },
+        select: { id: true, priority: true, createdAt: true }
+      })
+
+      // Hitniji zahtevi dobijaju kandidate pre ostalih
+      for (const request of undispatched.sort(PriorityService.compare)) {
+        try {
+          await DispatchService.dispatch(request.id, now)
+        } catch {
+          // dispatch() beleži grešku; jedan neispravan zahtev ne sme da zaustavi dodelu ostalih
+        }
+      }
+    } finally {
+      DispatchService.sweeping = false
+    }
+  }
+}
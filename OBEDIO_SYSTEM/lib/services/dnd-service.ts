@@ -0,0 +1,294 @@
+import { PrismaClient } from '@prisma/client'
+import { emitter, SSE_EVENTS } from '@/lib/sseEmitter'
+import type { MqttPublisher } from '@/lib/services/watch-service'
+import { DEVICE_ACTIONS, legacyTopic } from '@obedio/mqtt-contract'
+
+// Tipovi zadataka koji se ne obavljaju dok gost ne želi da bude uznemiravan
+export const DND_SUPPRESSED_TASK_TYPES = ['cleaning', 'turndown']
+
+export interface DndPreferences {
+  dndActive: boolean
+  dndLocations: string[]
+}
+
+export interface DndLocation {
+  locationId: number
+  name: string
+  deck: string
+  guestNames: string[]
+}
+
+type LocationRow = { id: number; name: string; deck: string }
+
+type GuestRow = {
+  name: string
+  room: string | null
+  locationId: number | null
+  preferences: string | null
+}
+
+const SYNC_INTERVAL_MS = parseInt(process.env.DND_SYNC_INTERVAL_MS || '30000')
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis za "ne uznemiravaj" (DND) stanje kabina.
+ * Stanje se izvodi iz preferenci gostiju koji su trenutno na brodu.
+ */
+export class DndService {
+  private static publisher: MqttPublisher | null = null
+  private static timer: NodeJS.Timeout | null = null
+  // Poslednje poznato DND stanje po lokaciji (za LED komande i SSE)
+  private static knownState: Map<number, boolean> | null = null
+
+  /**
+   * Postavlja MQTT publisher za LED komande na dugmadima
+   */
+  static setPublisher(publisher: MqttPublisher | null) {
+    DndService.publisher = publisher
+  }
+
+  /**
+   * Pokreće periodičnu sinhronizaciju (odlasci gostiju, promene iz drugih procesa)
+   */
+  static start(intervalMs: number = SYNC_INTERVAL_MS) {
+    if (DndService.timer) {
+      return
+    }
+
+    DndService.timer = setInterval(() => {
+      DndService.sync().catch(error => {
+        console.error('Greška pri sinhronizaciji DND stanja:', error)
+      })
+    }, intervalMs)
+
+    console.log(`DND sinhronizacija pokrenuta (na svakih ${intervalMs}ms)`)
+  }
+
+  static stop() {
+    if (DndService.timer) {
+      clearInterval(DndService.timer)
+      DndService.timer = null
+    }
+  }
+
+  /**
+   * Čita DND deo preferenci gosta (JSON string iz baze)
+   */
+  static parsePreferences(preferences: string | null): DndPreferences {
+    if (!preferences) {
+      return { dndActive: false, dndLocations: [] }
+    }
+
+    try {
+      const parsed = JSON.parse(preferences)
+      return {
+        dndActive: parsed.dndActive === true,
+        dndLocations: Array.isArray(parsed.dndLocations) ? parsed.dndLocations.map(String) : [],
+      }
+    } catch {
+      return { dndActive: false, dndLocations: [] }
+    }
+  }
+
+  /**
+   * Određuje lokacije pod DND-om. Ako gost nije izabrao lokacije (dndLocations),
+   * DND važi za njegovu kabinu.
+   */
+  static resolveDndLocations(guests: GuestRow[], locations: LocationRow[]): DndLocation[] {
+    const byName = new Map(locations.map(location => [location.name.toLowerCase(), location]))
+    const byId = new Map(locations.map(location => [location.id, location]))
+    const result = new Map<number, DndLocation>()
+
+    for (const guest of guests) {
+      const { dndActive, dndLocations } = DndService.parsePreferences(guest.preferences)
+      if (!dndActive) {
+        continue
+      }
+
+      const targets: LocationRow[] = []
+      if (dndLocations.length > 0) {
+        for (const name of dndLocations) {
+          const location = byName.get(name.toLowerCase())
+          if (location) targets.push(location)
+        }
+      } else {
+        const cabin = (guest.locationId && byId.get(guest.locationId)) ||
+          (guest.room && byName.get(guest.room.toLowerCase()))
+        if (cabin) targets.push(cabin)
+      }
+
+      for (const location of targets) {
+        const entry = result.get(location.id) ||
+          { locationId: location.id, name: location.name, deck: location.deck, guestNames: [] }
+        entry.guestNames.push(guest.name)
+        result.set(location.id, entry)
+      }
+    }
+
+    return Array.from(result.values())
+  }
+
+  /**
+   * Vraća sve lokacije koje su trenutno pod DND-om
+   */
+  static async getActive(now: Date = new Date()): Promise<DndLocation[]> {
+    try {
+      const [guests, locations] = await Promise.all([
+        prisma.guest.findMany({
+          where: {
+            status: { notIn: ['Checked Out', 'Checked-Out'] },
+            archivedAt: null,
+            arrivalDate: { lte: now },
+            departureDate: { gte: now },
+            preferences: { not: null },
+          },
+          select: { name: true, room: true, locationId: true, preferences: true }
+        }),
+        prisma.location.findMany({
+          select: { id: true, name: true, deck: true }
+        })
+      ])
+
+      return DndService.resolveDndLocations(guests, locations)
+    } catch (error) {
+      console.error('Greška pri dohvatanju DND stanja:', error)
+      throw error
+    }
+  }
+
+  static isTaskSuppressed(taskType: string, dndActive: boolean): boolean {
+    return dndActive && DND_SUPPRESSED_TASK_TYPES.includes(taskType.toLowerCase())
+  }
+
+  /**
+   * DND kabine koje se tiču zahteva: lokacija sa koje je zahtev poslat,
+   * i kabine na istoj palubi koje se pominju u transkriptu zahteva
+   */
+  static findMentioned(
+    request: { locationId: number | null; deck: string | null; transcript: string | null },
+    active: DndLocation[]
+  ): DndLocation[] {
+    const transcript = request.transcript?.toLowerCase() || ''
+
+    return active.filter(location =>
+      location.locationId === request.locationId ||
+      (location.deck === request.deck && transcript.includes(location.name.toLowerCase()))
+    )
+  }
+
+  /**
+   * DND kontekst zahteva za prikaz na satovima posade
+   */
+  static async getRequestDnd(requestId: number): Promise<DndLocation[]> {
+    const request = await prisma.request.findUnique({
+      where: { id: requestId },
+      select: {
+        transcript: true,
+        device: {
+          select: { locationRef: { select: { id: true, deck: true } } }
+        }
+      }
+    })
+
+    if (!request) {
+      return []
+    }
+
+    const location = request.device.locationRef
+    return DndService.findMentioned({
+      locationId: location?.id ?? null,
+      deck: location?.deck ?? null,
+      transcript: request.transcript,
+    }, await DndService.getActive())
+  }
+
+  /**
+   * Usklađuje sistem sa trenutnim DND stanjem:
+   * - zadaci čišćenja i turndown-a za DND kabine se suspenduju (i vraćaju kad DND prestane)
+   * - dugmad sa uključenim dndLedEnabled dobijaju LED komandu
+   * - dashboard dobija SSE događaj kada se stanje promeni
+   * @returns Lokacije pod DND-om
+   */
+  static async sync(now: Date = new Date()): Promise<DndLocation[]> {
+    try {
+      const active = await DndService.getActive(now)
+      const activeNames = active.map(location => location.name)
+
+      await prisma.$transaction([
+        prisma.serviceRequest.updateMany({
+          where: { room: { in: activeNames }, type: { in: DND_SUPPRESSED_TASK_TYPES }, status: 'pending' },
+          data: { status: 'suppressed' }
+        }),
+        prisma.serviceRequest.updateMany({
+          where: { room: { notIn: activeNames }, status: 'suppressed' },
+          data: { status: 'pending' }
+        })
+      ])
+
+      const activeIds = new Set(active.map(location => location.locationId))
+      const previous = DndService.knownState
+      DndService.knownState = new Map(Array.from(activeIds).map(locationId => [locationId, true]))
+
+      // Lokacije kojima se stanje promenilo od poslednje sinhronizacije.
+      // Bez prethodnog stanja (prvo pokretanje) šaljemo stanje svim lokacijama.
+      const changed = new Map<number, boolean>()
+      if (previous) {
+        for (const [locationId, wasActive] of Array.from(previous.entries())) {
+          if (wasActive && !activeIds.has(locationId)) changed.set(locationId, false)
+        }
+        for (const locationId of Array.from(activeIds)) {
+          if (!previous.get(locationId)) changed.set(locationId, true)
+        }
+      } else {
+        const locations = await prisma.location.findMany({ select: { id: true } })
+        for (const location of locations) {
+          changed.set(location.id, activeIds.has(location.id))
+        }
+      }
+
+      if (!previous || changed.size > 0) {
+        emitter.emitEvent(SSE_EVENTS.DND_CHANGED, {
+          locations: active,
+          timestamp: now.toISOString(),
+        })
+      }
+
+      await DndService.publishLeds(changed)
+
+      return active
+    } catch (error) {
+      console.error('Greška pri sinhronizaciji DND stanja:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Šalje LED komandu dugmadima na lokacijama kojima se promenilo DND stanje
+   */
+  private static async publishLeds(updates: Map<number, boolean>) {
+    if (updates.size === 0 || !DndService.publisher) {
+      return
+    }
+
+    const devices = await prisma.device.findMany({
+      where: {
+        locationId: { in: Array.from(updates.keys()) },
+        dndLedEnabled: true,
+        isActive: true,
+      },
+      select: { uid: true, locationId: true }
+    })
+
+    for (const device of devices) {
+      const dnd = device.locationId !== null && updates.get(device.locationId) === true
+      DndService.publisher(legacyTopic(device.uid, DEVICE_ACTIONS.COMMAND), {
+        command: 'set_led',
+        led: 'dnd',
+        state: dnd ? 'on' : 'off',
+        timestamp: new Date().toISOString(),
+      })
+    }
+  }
+}
@@ -1,54 +1,50 @@
 import { PrismaClient } from '@prisma/client'
-import { emitter, SSE_EVENTS } from '@/lib/sseEmitter'
+import { emitter, SSE_EVENTS, ShiftUpdateEvent, DutyAlertEvent } from '@/lib/sseEmitter'
+import { RequestHistoryService, REQUEST_EVENT_TYPES } from '@/lib/services/request-history-service'
+import { ShiftRequestService } from '@/lib/services/shift-request-service'
+import { WatchService } from '@/lib/services/watch-service'
 
 // Definisanje tipova koje koristimo
 type User = {
   id: number
   name: string
-  email: string
+  email: string | null
   role: string
 }
 
-// Definisanje Prisma shift tipa za bolju interoperabilnost
-type PrismaShift = {
-  id: number
-  userId: number
-  startTime: Date
-  endTime: Date | null
-  status: string
-  user?: {
-    id: number
-    name: string
-    email: string
-    role: string
-    [key: string]: any
-  }
-  [key: string]: any
-}
-
+// Smena sa stvarnim početkom i krajem
 type Shift = {
   id: number
   userId: number
-  startTime: Date
-  endTime: Date | null
-  status: 'ACTIVE' | 'COMPLETED' | 'CANCELED'
-  user?: User
+  laneId: string | null
+  startsAt: Date
+  endsAt: Date
+  startedAt: Date | null
+  endedAt: Date | null
+  startSource: string | null
+  completed: boolean
+  missed: boolean
+  user: User & { department: string | null }
 }
 
-type Request = {
-  id: number
-  deviceId: number
-  status: string
-  timestamp: Date
-  assignedTo: number | null
-  notes: string | null
-  device?: {
-    id: number
-    name: string
-    room: string
-  }
-  assignedUser?: User | null
-}
+// Kako je potvrđen početak smene: sat stavljen na ruku, "start watch" na satu ili web
+export const DUTY_SOURCES = ['worn', 'tap', 'web'] as const
+
+export type DutySource = (typeof DUTY_SOURCES)[number]
+
+// Smena se može potvrditi ovoliko pre planiranog početka
+const CONFIRM_EARLY_MS = parseInt(process.env.DUTY_CONFIRM_EARLY_MS || '1800000', 10)
+// Posle ovoliko od planiranog početka bez potvrde šef odeljenja dobija upozorenje
+const LATE_GRACE_MS = parseInt(process.env.DUTY_LATE_GRACE_MS || '600000', 10)
+// Smena u toku se automatski završava ovoliko posle planiranog kraja
+const END_GRACE_MS = parseInt(process.env.DUTY_END_GRACE_MS || '900000', 10)
+// Trajanje smene koja se započne sa weba bez plana
+const UNSCHEDULED_SHIFT_MS = parseInt(process.env.DUTY_UNSCHEDULED_SHIFT_HOURS || '8', 10) * 60 * 60 * 1000
+const SWEEP_INTERVAL_MS = parseInt(process.env.DUTY_SWEEP_INTERVAL_MS || '60000', 10)
+
+const SHIFT_INCLUDE = {
+  user: { select: { id: true, name: true, email: true, role: true, department: true } }
+} as const
 
 // Kreiranje Prisma klijenta
 const prisma = new PrismaClient()
@@ -57,121 +53,324 @@ const prisma = new PrismaClient()
  * Klasa za upravljanje smenama i dužnostima članova posade
  */
 export class DutyService {
+  private static timer: NodeJS.Timeout | null = null
+
   /**
-   * Započinje novu smenu za korisnika
+   * Pokreće raspoređivač smena (u mqttBridge procesu, zbog obaveštenja na satove)
    */
-  static async startShift(userId: number): Promise<Shift> {
+  static start(intervalMs: number = SWEEP_INTERVAL_MS) {
+    if (DutyService.timer) {
+      return
+    }
+
+    const sweep = () => {
+      DutyService.sweep().catch(error => {
+        console.error('Greška pri obradi planiranih smena:', error)
+      })
+    }
+    DutyService.timer = setInterval(sweep, intervalMs)
+    sweep()
+    console.log('Raspoređivač smena pokrenut')
+  }
+
+  static stop() {
+    if (DutyService.timer) {
+      clearInterval(DutyService.timer)
+      DutyService.timer = null
+    }
+  }
+
+  /**
+   * Smena je u toku od potvrđenog početka do završetka
+   */
+  static isLive(shift: { startedAt: Date | null; endedAt: Date | null }): boolean {
+    return shift.startedAt !== null && shift.endedAt === null
+  }
+
+  static async getLiveShift(userId: number): Promise<Shift | null> {
+    return prisma.shift.findFirst({
+      where: { userId, startedAt: { not: null }, endedAt: null },
+      include: SHIFT_INCLUDE
+    })
+  }
+
+  /**
+   * Planirana smena koju član posade sada može da potvrdi
+   */
+  static async getPlannedShift(userId: number, now: Date = new Date()): Promise<Shift | null> {
+    return prisma.shift.findFirst({
+      where: {
+        userId,
+        startedAt: null,
+        completed: false,
+        missed: false,
+        startsAt: { lte: new Date(now.getTime() + CONFIRM_EARLY_MS) },
+        endsAt: { gt: now }
+      },
+      orderBy: { startsAt: 'asc' },
+      include: SHIFT_INCLUDE
+    })
+  }
+
+  /**
+   * Započinje planiranu smenu korisnika; sa weba se bez plana pravi nova smena
+   */
+  static async startShift(userId: number, source: DutySource = 'web', now: Date = new Date()): Promise<Shift> {
     try {
       // Proveriti da li korisnik postoji
       const user = await prisma.user.findUnique({
         where: { id: userId }
       })
-      
+
       if (!user) {
         throw new Error(`Korisnik sa ID ${userId} nije pronađen`)
       }
-      
+
       // Proveriti da li korisnik već ima aktivnu smenu
-      const activeShift = await prisma.shift.findFirst({
-        where: {
-          userId,
-          status: 'ACTIVE'
-        }
-      })
-      
-      if (activeShift) {
+      if (await DutyService.getLiveShift(userId)) {
         throw new Error(`Korisnik ${user.name} već ima aktivnu smenu`)
       }
-      
-      // Kreirati novu smenu
-      const newShift = await prisma.shift.create({
-        data: {
-          userId,
-          startTime: new Date(),
-          status: 'ACTIVE',
-        },
-        include: {
-          user: true
-        }
-      })
-      
-      // Emitovati SSE događaj
-      emitter.emitEvent(SSE_EVENTS.SHIFT_UPDATE, {
-        shiftId: newShift.id,
-        userId: newShift.userId,
-        userName: newShift.user.name,
-        status: newShift.status,
-        startTime: newShift.startTime.toISOString(),
-        endTime: null,
-        action: 'STARTED'
-      })
-      
-      return newShift
+
+      const planned = await DutyService.getPlannedShift(userId, now)
+      if (!planned && source !== 'web') {
+        throw new Error(`Korisnik ${user.name} nema planiranu smenu`)
+      }
+      if (planned && await DutyService.hasPendingHandover(userId, planned.id)) {
+        throw new Error(`Korisnik ${user.name} mora da potvrdi primopredaju pre početka smene`)
+      }
+
+      const shift = planned
+        ? await prisma.shift.update({
+            where: { id: planned.id },
+            data: { startedAt: now, startSource: source },
+            include: SHIFT_INCLUDE
+          })
+        : await prisma.shift.create({
+            data: {
+              userId,
+              startsAt: now,
+              endsAt: new Date(now.getTime() + UNSCHEDULED_SHIFT_MS),
+              startedAt: now,
+              startSource: source,
+            },
+            include: SHIFT_INCLUDE
+          })
+
+      await prisma.user.update({ where: { id: userId }, data: { status: 'on_duty' } })
+      DutyService.emitUpdate(shift, 'STARTED')
+
+      return shift
     } catch (error) {
       console.error('Greška pri započinjanju smene:', error)
       throw error
     }
   }
-  
+
   /**
    * Završava aktivnu smenu korisnika
    */
-  static async endShift(userId: number): Promise<Shift> {
+  static async endShift(userId: number, now: Date = new Date()): Promise<Shift> {
     try {
       // Proveriti da li korisnik postoji
       const user = await prisma.user.findUnique({
         where: { id: userId }
       })
-      
+
       if (!user) {
         throw new Error(`Korisnik sa ID ${userId} nije pronađen`)
       }
-      
+
       // Naći aktivnu smenu korisnika
-      const activeShift = await prisma.shift.findFirst({
-        where: {
-          userId,
-          status: 'ACTIVE'
-        },
-        include: {
-          user: true
-        }
-      })
-      
+      const activeShift = await DutyService.getLiveShift(userId)
       if (!activeShift) {
         throw new Error(`Korisnik ${user.name} nema aktivnu smenu`)
       }
-      
-      // Završiti smenu
-      const endedShift = await prisma.shift.update({
-        where: { id: activeShift.id },
-        data: {
-          endTime: new Date(),
-          status: 'COMPLETED'
-        },
-        include: {
-          user: true
-        }
-      })
-      
-      // Emitovati SSE događaj
-      emitter.emitEvent(SSE_EVENTS.SHIFT_UPDATE, {
-        shiftId: endedShift.id,
-        userId: endedShift.userId,
-        userName: endedShift.user.name,
-        status: endedShift.status,
-        startTime: endedShift.startTime.toISOString(),
-        endTime: endedShift.endTime?.toISOString() || null,
-        action: 'ENDED'
-      })
-      
-      return endedShift
+
+      return await DutyService.finishShift(activeShift, now)
     } catch (error) {
       console.error('Greška pri završavanju smene:', error)
       throw error
     }
   }
-  
+
+  /**
+   * Smena ne počinje dok dolazeći član posade ne potvrdi primopredaju (vidi handover-service)
+   */
+  static async hasPendingHandover(userId: number, shiftId: number): Promise<boolean> {
+    const pending = await prisma.handover.count({
+      where: {
+        incomingUserId: userId,
+        status: 'pending',
+        OR: [{ incomingShiftId: shiftId }, { incomingShiftId: null }]
+      }
+    })
+    return pending > 0
+  }
+
+  private static async finishShift(shift: Shift, endedAt: Date): Promise<Shift> {
+    const endedShift = await prisma.shift.update({
+      where: { id: shift.id },
+      data: { endedAt, completed: true },
+      include: SHIFT_INCLUDE
+    })
+
+    await prisma.user.update({ where: { id: shift.userId }, data: { status: 'off_duty' } })
+    DutyService.emitUpdate(endedShift, 'ENDED')
+
+    return endedShift
+  }
+
+  /**
+   * Potvrda sa sata: stavljen na ruku ili "start watch"; bez planirane smene se samo beleži
+   */
+  static async confirmFromWatch(userId: number, source: 'worn' | 'tap', now: Date = new Date()): Promise<Shift | null> {
+    if (await DutyService.getLiveShift(userId)) {
+      return null
+    }
+
+    const planned = await DutyService.getPlannedShift(userId, now)
+    // Sat stavljen pre početka ne započinje smenu ranije - raspoređivač je započinje u planirano vreme
+    if (!planned || (source === 'worn' && planned.startsAt > now)) {
+      return null
+    }
+    // Primopredaja još nije potvrđena - ponovo se šalje na sat
+    if (await DutyService.hasPendingHandover(userId, planned.id)) {
+      await prisma.handover.updateMany({
+        where: { incomingUserId: userId, status: 'pending' },
+        data: { watchNotified: false }
+      })
+      return null
+    }
+
+    return DutyService.startShift(userId, source, now)
+  }
+
+  static async setWatchWorn(userId: number, worn: boolean, now: Date = new Date()): Promise<Shift | null> {
+    await prisma.user.update({ where: { id: userId }, data: { watchWornAt: worn ? now : null } })
+    return worn ? DutyService.confirmFromWatch(userId, 'worn', now) : null
+  }
+
+  /**
+   * Jedan prolaz raspoređivača: započinje smene posade koja nosi sat, završava istekle,
+   * upozorava šefa odeljenja na kašnjenje i propuštene smene; greška u jednoj smeni ne zaustavlja ostale
+   */
+  static async sweep(now: Date = new Date()) {
+    // Smene u toku posle planiranog kraja
+    const expired = await prisma.shift.findMany({
+      where: { startedAt: { not: null }, endedAt: null, endsAt: { lte: new Date(now.getTime() - END_GRACE_MS) } },
+      include: SHIFT_INCLUDE
+    })
+    let ended = 0
+    for (const shift of expired) {
+      try {
+        await DutyService.finishShift(shift, shift.endsAt)
+        ended++
+        console.log(`Smena ${shift.id} (${shift.user.name}) automatski završena`)
+      } catch (error) {
+        console.error(`Greška pri automatskom završavanju smene ${shift.id}:`, error)
+      }
+    }
+
+    // Planirane smene koje su počele; sat na ruci je potvrda
+    const due = await prisma.shift.findMany({
+      where: { startedAt: null, completed: false, missed: false, startsAt: { lte: now }, endsAt: { gt: now } },
+      include: { user: { select: { ...SHIFT_INCLUDE.user.select, watchWornAt: true } } },
+      orderBy: { startsAt: 'asc' }
+    })
+    let started = 0
+    for (const shift of due) {
+      try {
+        // Član posade je još u prethodnoj smeni
+        if (await DutyService.getLiveShift(shift.userId)) {
+          continue
+        }
+        if (shift.user.watchWornAt && !await DutyService.hasPendingHandover(shift.userId, shift.id)) {
+          await DutyService.startShift(shift.userId, 'worn', now)
+          started++
+        } else if (!shift.lateAlertedAt && now.getTime() - shift.startsAt.getTime() >= LATE_GRACE_MS) {
+          await DutyService.alertLate(shift, now)
+        }
+      } catch (error) {
+        console.error(`Greška pri obradi planirane smene ${shift.id}:`, error)
+      }
+    }
+
+    // Planirane smene koje nisu potvrđene do kraja
+    const missed = await prisma.shift.findMany({
+      where: { startedAt: null, completed: false, missed: false, endsAt: { lte: now } },
+      include: SHIFT_INCLUDE
+    })
+    let markedMissed = 0
+    for (const shift of missed) {
+      try {
+        const updated = await prisma.shift.update({ where: { id: shift.id }, data: { missed: true }, include: SHIFT_INCLUDE })
+        markedMissed++
+        DutyService.emitUpdate(updated, 'MISSED')
+        await DutyService.alertMissed(shift)
+      } catch (error) {
+        console.error(`Greška pri označavanju propuštene smene ${shift.id}:`, error)
+      }
+    }
+
+    return { started, ended, missed: markedMissed }
+  }
+
+  /**
+   * Upozorenje šefu odeljenja (web i sat); pozicija je nepokrivena ako na njoj niko nije u smeni
+   */
+  static async alertLate(shift: Shift, now: Date = new Date()): Promise<DutyAlertEvent> {
+    const covered = shift.laneId !== null && await prisma.shift.count({
+      where: { laneId: shift.laneId, userId: { not: shift.userId }, startedAt: { not: null }, endedAt: null }
+    }) > 0
+    const type = shift.laneId !== null && !covered ? 'uncovered' : 'late'
+
+    const minutes = Math.round((now.getTime() - shift.startsAt.getTime()) / 60000)
+    const message = type === 'uncovered'
+      ? `${shift.laneId} is uncovered: ${shift.user.name} has not started the shift (${minutes} min late)`
+      : `${shift.user.name} has not started the shift (${minutes} min late)`
+
+    await prisma.shift.update({ where: { id: shift.id }, data: { lateAlertedAt: now } })
+
+    const event = await DutyService.alertHeads(shift, type, message)
+    console.warn(`Kašnjenje na smenu ${shift.id}: ${message}`)
+
+    return event
+  }
+
+  /**
+   * Upozorenje šefu odeljenja da smena nije potvrđena do planiranog kraja
+   */
+  static async alertMissed(shift: Shift): Promise<DutyAlertEvent> {
+    const message = shift.laneId !== null
+      ? `${shift.user.name} missed the ${shift.laneId} shift`
+      : `${shift.user.name} missed the shift`
+
+    const event = await DutyService.alertHeads(shift, 'missed', message)
+    console.warn(`Smena ${shift.id} nije potvrđena: ${message}`)
+
+    return event
+  }
+
+  private static async alertHeads(shift: Shift, type: DutyAlertEvent['type'], message: string): Promise<DutyAlertEvent> {
+    const heads = await ShiftRequestService.headsOfDepartment(shift.user.department)
+    const recipients = heads.filter(id => id !== shift.userId)
+
+    const event: DutyAlertEvent = {
+      shiftId: shift.id,
+      userId: shift.userId,
+      userName: shift.user.name,
+      laneId: shift.laneId,
+      type,
+      recipients,
+      message,
+      startsAt: shift.startsAt.toISOString(),
+    }
+    emitter.emitEvent(SSE_EVENTS.DUTY_ALERT, event)
+    await WatchService.notifyUsers(recipients, { type: 'duty_alert', shiftId: shift.id, alert: type, message })
+
+    return event
+  }
+
   /**
    * Dobija trenutno aktivne korisnike (one sa aktivnim smenama)
    */
@@ -179,62 +378,67 @@ export class DutyService {
     try {
       // Naći sve aktivne smene
       const activeShifts = await prisma.shift.findMany({
-        where: { status: 'ACTIVE' },
-        include: { user: true }
+        where: { startedAt: { not: null }, endedAt: null },
+        include: SHIFT_INCLUDE
       })
-      
-      // Izdvojiti korisnike iz aktivnih smena i filtrirati one sa undefined user
-      return activeShifts
-        .filter((shift: PrismaShift) => shift.user !== undefined && shift.user !== null)
-        .map((shift: PrismaShift) => ({
-          id: shift.user!.id,
-          name: shift.user!.name,
-          email: shift.user!.email,
-          role: shift.user!.role
-        }))
+
+      return activeShifts.map(shift => ({
+        id: shift.user.id,
+        name: shift.user.name,
+        email: shift.user.email,
+        role: shift.user.role
+      }))
     } catch (error) {
       console.error('Greška pri dohvatanju aktivnih korisnika:', error)
       throw error
     }
   }
-  
+
   /**
    * Vraća istoriju smena za korisnika
    */
   static async getUserShiftHistory(userId: number, limit: number = 10): Promise<Shift[]> {
     try {
-      const shifts = await prisma.shift.findMany({
+      return await prisma.shift.findMany({
         where: { userId },
-        orderBy: { startTime: 'desc' },
+        orderBy: { startsAt: 'desc' },
         take: limit,
-        include: { user: true }
+        include: SHIFT_INCLUDE
       })
-      
-      // Prilagoditi vraćene rezultate našem tipu Shift
-      return shifts.map((shift: PrismaShift) => ({
-        id: shift.id,
-        userId: shift.userId,
-        startTime: shift.startTime,
-        endTime: shift.endTime,
-        status: shift.status as 'ACTIVE' | 'COMPLETED' | 'CANCELED',
-        user: shift.user ? {
-          id: shift.user.id,
-          name: shift.user.name,
-          email: shift.user.email,
-          role: shift.user.role
-        } : undefined
-      }))
     } catch (error) {
       console.error('Greška pri dohvatanju istorije smena:', error)
       throw error
     }
   }
-  
+
+  private static emitUpdate(shift: Shift, action: ShiftUpdateEvent['action']) {
+    const event: ShiftUpdateEvent = {
+      shiftId: shift.id,
+      userId: shift.userId,
+      userName: shift.user.name,
+      laneId: shift.laneId,
+      action,
+      source: shift.startSource,
+      startsAt: shift.startsAt.toISOString(),
+      endsAt: shift.endsAt.toISOString(),
+      startedAt: shift.startedAt?.toISOString() || null,
+      endedAt: shift.endedAt?.toISOString() || null,
+    }
+    emitter.emitEvent(SSE_EVENTS.SHIFT_UPDATE, event)
+  }
+
   /**
    * Prebacuje sve otvorene zahteve sa jednog korisnika na drugog
-   * Korisno pri kraju smene
+   * Korisno pri kraju smene; requestIds ograničava prebacivanje na navedene zahteve (primopredaja)
    */
-  static async transferAllRequests(fromUserId: number, toUserId: number, notes: string = ''): Promise<number> {
+  static async transferAllRequests(
+    fromUserId: number,
+    toUserId: number,
+    notes: string = '',
+    actorId: number | null = null,
+    requestIds?: number[],
+    metadata: Record<string, unknown> = {}
+  ): Promise<number> {
     try {
       // Provera da li korisnici postoje
       const fromUser = await prisma.user.findUnique({
@@ -253,7 +457,8 @@ export class DutyService {
       const openRequests = await prisma.request.findMany({
         where: {
           assignedTo: fromUserId,
-          status: 'IN_PROGRESS'
+          status: 'IN_PROGRESS',
+          ...(requestIds ? { id: { in: requestIds } } : {})
         },
         include: {
           device: true
@@ -264,26 +469,27 @@ export class DutyService {
         return 0 // Nema zahteva za prebacivanje
       }
       
-      const transferNote = `${new Date().toISOString()} - Mass transfer from ${fromUser.name} to ${toUser.name}${notes ? ': ' + notes : ''}`
-      
-      // Prebaciti svaki zahtev
+      // Prebaciti svaki zahtev; napomena o prebacivanju beleži se u istoriji zahteva
       for (const request of openRequests) {
-        const updatedNotes = request.notes
-          ? `${request.notes}\n${transferNote}`
-          : transferNote
-        
         const updatedRequest = await prisma.request.update({
           where: { id: request.id },
           data: {
-            assignedTo: toUserId,
-            notes: updatedNotes
+            assignedTo: toUserId
           },
           include: {
             device: true,
-            assignedUser: true
+            assignee: true
           }
         })
         
+        await RequestHistoryService.record(request.id, REQUEST_EVENT_TYPES.TRANSFERRED, {
+          actorId,
+          fromUserId,
+          toUserId,
+          reason: notes,
+          metadata: { bulkTransfer: true, ...metadata }
+        })
+        
         // Emitovati SSE događaj za svaki prebačeni zahtev
         emitter.emitEvent(SSE_EVENTS.REQUEST_UPDATE, {
           requestId: updatedRequest.id,
@@ -292,8 +498,8 @@ export class DutyService {
           room: updatedRequest.device.room,
           status: updatedRequest.status,
           assignedTo: updatedRequest.assignedTo,
-          assignedName: updatedRequest.assignedUser?.name || null,
-          timestamp: updatedRequest.timestamp.toISOString(),
+          assignedName: updatedRequest.assignee?.name || null,
+          timestamp: updatedRequest.createdAt.toISOString(),
           updatedAt: new Date().toISOString(),
           transferredBy: fromUser.name,
           transferredTo: toUser.name,
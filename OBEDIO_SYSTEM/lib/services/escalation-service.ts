@@ -0,0 +1,356 @@
+import { PrismaClient } from '@prisma/client'
+import { emitter, SSE_EVENTS, RequestEscalatedEvent } from '@/lib/sseEmitter'
+import { WatchService } from '@/lib/services/watch-service'
+import { RequestHistoryService, REQUEST_EVENT_TYPES } from '@/lib/services/request-history-service'
+
+// Kome se zahtev prosleđuje na datom nivou eskalacije
+export type EscalationTarget = 'ASSIGNED_CREW' | 'DEPARTMENT_ON_DUTY' | 'ROLES'
+
+export interface EscalationTier {
+  afterSeconds: number
+  target: EscalationTarget
+  department?: string
+  roles?: string[]
+}
+
+type EscalationPolicyRow = {
+  id: number
+  locationType: string | null
+  vipOnly: boolean
+  tiers: string
+}
+
+type PendingRequest = {
+  id: number
+  deviceId: number
+  createdAt: Date
+  assignedTo: number | null
+  escalationLevel: number
+  device: {
+    id: number
+    name: string | null
+    room: string
+    locationRef: {
+      type: string
+      guests: { isVip: boolean; assignedCrew: string | null; status: string }[]
+    } | null
+  }
+}
+
+// Podrazumevani nivoi kada nijedna polisa iz baze ne odgovara zahtevu
+export const DEFAULT_ESCALATION_TIERS: EscalationTier[] = [
+  { afterSeconds: 60, target: 'ASSIGNED_CREW' },
+  { afterSeconds: 120, target: 'DEPARTMENT_ON_DUTY', department: 'Interior' },
+  { afterSeconds: 300, target: 'ROLES', roles: ['Chief Stewardess', 'Captain', 'First Officer'] },
+]
+
+const ESCALATION_TARGETS: EscalationTarget[] = ['ASSIGNED_CREW', 'DEPARTMENT_ON_DUTY', 'ROLES']
+
+const SWEEP_INTERVAL_MS = parseInt(process.env.ESCALATION_SWEEP_INTERVAL_MS || '10000')
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis koji eskalira zahteve koje niko nije preuzeo u zadatom roku
+ */
+export class EscalationService {
+  private static timer: NodeJS.Timeout | null = null
+  private static sweeping = false
+
+  /**
+   * Pokreće periodičnu proveru zahteva na čekanju
+   */
+  static start(intervalMs: number = SWEEP_INTERVAL_MS) {
+    if (EscalationService.timer) {
+      return
+    }
+
+    EscalationService.timer = setInterval(() => {
+      EscalationService.sweep().catch(error => {
+        console.error('Greška pri proveri eskalacija:', error)
+      })
+    }, intervalMs)
+
+    console.log(`Escalation engine pokrenut (provera na svakih ${intervalMs}ms)`)
+  }
+
+  /**
+   * Zaustavlja periodičnu proveru
+   */
+  static stop() {
+    if (EscalationService.timer) {
+      clearInterval(EscalationService.timer)
+      EscalationService.timer = null
+    }
+  }
+
+  /**
+   * Parsira i validira JSON listu nivoa eskalacije.
+   * Nivoi se vraćaju sortirani po vremenu okidanja.
+   */
+  static parseTiers(raw: string): EscalationTier[] {
+    const parsed: unknown = JSON.parse(raw)
+
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      throw new Error('Polisa eskalacije mora imati bar jedan nivo')
+    }
+
+    const tiers = parsed.map((item, index) => {
+      const tier = item as EscalationTier
+      if (typeof tier.afterSeconds !== 'number' || tier.afterSeconds <= 0) {
+        throw new Error(`Nivo ${index + 1}: afterSeconds mora biti pozitivan broj`)
+      }
+      if (!ESCALATION_TARGETS.includes(tier.target)) {
+        throw new Error(`Nivo ${index + 1}: nepoznat target ${tier.target}`)
+      }
+      if (tier.target === 'ROLES' && (!Array.isArray(tier.roles) || tier.roles.length === 0)) {
+        throw new Error(`Nivo ${index + 1}: ROLES target zahteva listu uloga`)
+      }
+      return tier
+    })
+
+    return tiers.sort((a, b) => a.afterSeconds - b.afterSeconds)
+  }
+
+  /**
+   * Vraća sledeći nivo eskalacije ako je njegov rok istekao, inače null.
+   * Nivoi su 1-indeksirani: escalationLevel 0 znači da zahtev još nije eskaliran.
+   */
+  static getDueTier(
+    tiers: EscalationTier[],
+    createdAt: Date,
+    escalationLevel: number,
+    now: Date = new Date()
+  ): { level: number; tier: EscalationTier } | null {
+    const next = tiers[escalationLevel]
+    if (!next) {
+      return null
+    }
+
+    const elapsedSeconds = (now.getTime() - createdAt.getTime()) / 1000
+    if (elapsedSeconds < next.afterSeconds) {
+      return null
+    }
+
+    return { level: escalationLevel + 1, tier: next }
+  }
+
+  /**
+   * Bira polisu za zahtev: VIP polise imaju prednost, zatim polise za tip lokacije,
+   * pa opšte polise. Ako nijedna ne odgovara, koriste se podrazumevani nivoi.
+   */
+  static selectPolicy(
+    policies: EscalationPolicyRow[],
+    locationType: string | null,
+    isVip: boolean
+  ): { policyId: number | null; tiers: EscalationTier[] } {
+    const matching = policies
+      .filter(policy => !policy.vipOnly || isVip)
+      .filter(policy => !policy.locationType || policy.locationType === locationType)
+      .sort((a, b) => {
+        if (a.vipOnly !== b.vipOnly) return a.vipOnly ? -1 : 1
+        if (!!a.locationType !== !!b.locationType) return a.locationType ? -1 : 1
+        return a.id - b.id
+      })
+
+    for (const policy of matching) {
+      try {
+        return { policyId: policy.id, tiers: EscalationService.parseTiers(policy.tiers) }
+      } catch (error) {
+        console.warn(`Preskačem neispravnu polisu eskalacije ${policy.id}:`, error)
+      }
+    }
+
+    return { policyId: null, tiers: DEFAULT_ESCALATION_TIERS }
+  }
+
+  /**
+   * Proverava sve zahteve na čekanju i eskalira one kojima je istekao rok
+   * @returns Broj eskaliranih zahteva
+   */
+  static async sweep(now: Date = new Date()): Promise<number> {
+    // Sprečava preklapanje ako prethodna provera još traje
+    if (EscalationService.sweeping) {
+      return 0
+    }
+    EscalationService.sweeping = true
+
+    try {
+      const [pendingRequests, policies] = await Promise.all([
+        prisma.request.findMany({
+          where: { status: 'PENDING' },
+          include: {
+            device: {
+              select: {
+                id: true,
+                name: true,
+                room: true,
+                locationRef: {
+                  select: {
+                    type: true,
+                    guests: {
+                      select: { isVip: true, assignedCrew: true, status: true }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }),
+        prisma.escalationPolicy.findMany({
+          where: { isActive: true }
+        })
+      ])
+
+      let escalated = 0
+
+      for (const request of pendingRequests as PendingRequest[]) {
+        const location = request.device.locationRef
+        const isVip = !!location?.guests.some(guest => guest.isVip && guest.status === 'Checked-In')
+        const { policyId, tiers } = EscalationService.selectPolicy(
+          policies,
+          location?.type || null,
+          isVip
+        )
+
+        const due = EscalationService.getDueTier(tiers, request.createdAt, request.escalationLevel, now)
+        if (!due) {
+          continue
+        }
+
+        try {
+          await EscalationService.escalate(request, due.level, due.tier, policyId, now)
+          escalated++
+        } catch {
+          // escalate() beleži grešku; jedan neispravan zahtev ne sme da zaustavi eskalaciju ostalih
+        }
+      }
+
+      return escalated
+    } finally {
+      EscalationService.sweeping = false
+    }
+  }
+
+  /**
+   * Određuje korisnike kojima se šalje zahtev na datom nivou
+   */
+  static async resolveRecipients(request: PendingRequest, tier: EscalationTier): Promise<number[]> {
+    switch (tier.target) {
+      case 'ASSIGNED_CREW': {
+        if (request.assignedTo) {
+          return [request.assignedTo]
+        }
+
+        // Zahtev još nema izvršioca - koristimo posadu dodeljenu gostima u kabini
+        const crewNames = (request.device.locationRef?.guests || [])
+          .filter(guest => guest.status === 'Checked-In' && guest.assignedCrew)
+          .map(guest => guest.assignedCrew as string)
+
+        if (crewNames.length === 0) {
+          return []
+        }
+
+        const users = await prisma.user.findMany({
+          where: { name: { in: crewNames }, onLeave: false },
+          select: { id: true }
+        })
+        return users.map((user: { id: number }) => user.id)
+      }
+
+      case 'DEPARTMENT_ON_DUTY': {
+        const users = await prisma.user.findMany({
+          where: {
+            department: tier.department || 'Interior',
+            status: 'on_duty',
+            onLeave: false
+          },
+          select: { id: true }
+        })
+        return users.map((user: { id: number }) => user.id)
+      }
+
+      case 'ROLES': {
+        const users = await prisma.user.findMany({
+          where: { role: { in: tier.roles || [] }, onLeave: false },
+          select: { id: true }
+        })
+        return users.map((user: { id: number }) => user.id)
+      }
+
+      default:
+        return []
+    }
+  }
+
+  /**
+   * Beleži eskalaciju na zahtevu, šalje notifikacije na satove i emituje SSE događaj
+   */
+  static async escalate(
+    request: PendingRequest,
+    level: number,
+    tier: EscalationTier,
+    policyId: number | null,
+    now: Date = new Date()
+  ) {
+    try {
+      const recipients = await EscalationService.resolveRecipients(request, tier)
+
+      await prisma.$transaction([
+        prisma.requestEscalation.create({
+          data: {
+            requestId: request.id,
+            level,
+            target: tier.target,
+            recipients: JSON.stringify(recipients),
+            policyId
+          }
+        }),
+        prisma.request.update({
+          where: { id: request.id },
+          data: {
+            escalationLevel: level,
+            lastEscalatedAt: now
+          }
+        })
+      ])
+
+      await RequestHistoryService.record(request.id, REQUEST_EVENT_TYPES.ESCALATED, {
+        metadata: { level, target: tier.target, recipients, policyId }
+      })
+
+      await WatchService.notifyUsers(recipients, {
+        type: 'service_request',
+        requestId: request.id,
+        escalationLevel: level,
+        requestDetails: {
+          deviceName: request.device.name,
+          room: request.device.room,
+          waitingSeconds: Math.round((now.getTime() - request.createdAt.getTime()) / 1000)
+        }
+      })
+
+      const event: RequestEscalatedEvent = {
+        requestId: request.id,
+        deviceId: request.deviceId,
+        deviceName: request.device.name,
+        room: request.device.room,
+        level,
+        target: tier.target,
+        recipients,
+        escalatedAt: now.toISOString()
+      }
+      emitter.emitEvent(SSE_EVENTS.REQUEST_ESCALATED, event)
+
+      if (recipients.length === 0) {
+        console.warn(`Eskalacija zahteva ${request.id} na nivo ${level} (${tier.target}) nema primaoca`)
+      } else {
+        console.log(`Zahtev ${request.id} eskaliran na nivo ${level} (${tier.target}), primaoci: ${recipients.join(', ')}`)
+      }
+    } catch (error) {
+      console.error(`Greška pri eskalaciji zahteva ${request.id}:`, error)
+      throw error
+    }
+  }
+}
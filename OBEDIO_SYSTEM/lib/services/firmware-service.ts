@@ -0,0 +1,576 @@
+import { PrismaClient } from '@prisma/client'
+import { createHash } from 'crypto'
+import { mkdir, open, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { emitter, SSE_EVENTS, FirmwareUpdateEvent } from '@/lib/sseEmitter'
+import type { MqttPublisher } from '@/lib/services/watch-service'
+import {
+  DEVICE_ACTIONS,
+  OtaChunkRequestPayload,
+  OtaProgressPayload,
+  legacyTopic
+} from '@obedio/mqtt-contract'
+
+export const CAMPAIGN_STATUSES = ['draft', 'running', 'paused', 'completed', 'cancelled'] as const
+export const UPDATE_STATUSES = ['pending', 'offered', 'downloading', 'installing', 'succeeded', 'failed', 'cancelled'] as const
+export const FIRMWARE_DEVICE_TYPES = ['BUTTON', 'SMART_WATCH', 'REPEATER'] as const
+
+export type CampaignStatus = (typeof CAMPAIGN_STATUSES)[number]
+export type UpdateStatus = (typeof UPDATE_STATUSES)[number]
+export type CampaignAction = 'start' | 'pause' | 'resume' | 'cancel'
+
+// Ažuriranja koja su ponuđena uređaju i još nisu završena
+const IN_FLIGHT_STATUSES: UpdateStatus[] = ['offered', 'downloading', 'installing']
+
+// Dozvoljeni prelazi stanja kampanje
+const CAMPAIGN_TRANSITIONS: Record<CampaignAction, { from: CampaignStatus[]; to: CampaignStatus }> = {
+  start: { from: ['draft'], to: 'running' },
+  pause: { from: ['running'], to: 'paused' },
+  resume: { from: ['paused'], to: 'running' },
+  cancel: { from: ['draft', 'running', 'paused'], to: 'cancelled' },
+}
+
+export interface FirmwareReleaseInput {
+  version: string
+  model: string
+  deviceType: string
+  fileName: string
+  data: Buffer
+  releaseNotes?: string | null
+}
+
+export interface CampaignTargetGroup {
+  locationIds?: number[]
+  deviceIds?: number[]
+}
+
+export interface FirmwareCampaignInput {
+  name: string
+  releaseId: number
+  targetGroup?: CampaignTargetGroup | null
+  stages: number[]
+  failureThreshold: number
+}
+
+export type UpdateCounts = Record<UpdateStatus, number> & { total: number }
+
+type CampaignRow = {
+  id: number
+  status: string
+  stages: string
+  currentStage: number
+  failureThreshold: number
+  release: { id: number; version: string; size: number; checksum: string }
+  updates: {
+    id: number
+    status: string
+    device: { id: number; uid: string; lastSeen: Date; firmwareVersion: string | null }
+  }[]
+}
+
+const FIRMWARE_DIR = process.env.FIRMWARE_DIR || join(process.cwd(), 'data', 'firmware')
+const CHUNK_SIZE = parseInt(process.env.OTA_CHUNK_SIZE || '4096')
+const TICK_INTERVAL_MS = parseInt(process.env.OTA_TICK_INTERVAL_MS || '15000')
+// Ažuriranje bez ikakve poruke uređaja posle ovog vremena smatra se neuspelim
+const UPDATE_TIMEOUT_MS = parseInt(process.env.OTA_UPDATE_TIMEOUT_MS || '600000')
+// Uređaj je na mreži ako se javio u poslednjih 5 minuta (isto kao statistika sistema)
+const ONLINE_WINDOW_MS = 5 * 60 * 1000
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis za OTA ažuriranje firmware-a: registar firmware-a, kampanje sa postepenim
+ * uvođenjem i prenos fajla uređajima u delovima preko MQTT-a.
+ * Kampanje pokreće MQTT bridge (start/tick); API samo menja njihovo stanje u bazi.
+ */
+export class FirmwareService {
+  private static publisher: MqttPublisher | null = null
+  private static timer: NodeJS.Timeout | null = null
+
+  /**
+   * Postavlja MQTT publisher za ponude i delove firmware-a
+   */
+  static setPublisher(publisher: MqttPublisher | null) {
+    FirmwareService.publisher = publisher
+  }
+
+  /**
+   * Pokreće periodičnu obradu kampanja
+   */
+  static start(intervalMs: number = TICK_INTERVAL_MS) {
+    if (FirmwareService.timer) {
+      return
+    }
+
+    FirmwareService.timer = setInterval(() => {
+      FirmwareService.tick().catch(error => {
+        console.error('Greška pri obradi OTA kampanja:', error)
+      })
+    }, intervalMs)
+
+    console.log(`OTA kampanje pokrenute (provera na svakih ${intervalMs}ms)`)
+  }
+
+  static stop() {
+    if (FirmwareService.timer) {
+      clearInterval(FirmwareService.timer)
+      FirmwareService.timer = null
+    }
+  }
+
+  /**
+   * SHA-256 checksum firmware fajla (hex)
+   */
+  static checksum(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex')
+  }
+
+  static canTransition(status: string, action: CampaignAction): boolean {
+    return (CAMPAIGN_TRANSITIONS[action].from as string[]).includes(status)
+  }
+
+  /**
+   * Broj uređaja koji treba da dobiju ažuriranje do kraja faze
+   */
+  static stageTarget(total: number, percent: number): number {
+    return Math.min(total, Math.ceil((total * percent) / 100))
+  }
+
+  static summarize(updates: { status: string }[]): UpdateCounts {
+    const counts = Object.fromEntries(UPDATE_STATUSES.map(status => [status, 0])) as UpdateCounts
+    counts.total = updates.length
+
+    for (const update of updates) {
+      if (update.status in counts) {
+        counts[update.status as UpdateStatus]++
+      }
+    }
+
+    return counts
+  }
+
+  /**
+   * Da li procenat neuspelih među ponuđenim ažuriranjima dostiže prag za pauzu
+   */
+  static exceedsFailureThreshold(counts: UpdateCounts, threshold: number): boolean {
+    const attempted = counts.total - counts.pending - counts.cancelled
+    if (attempted === 0 || counts.failed === 0) {
+      return false
+    }
+
+    return (counts.failed / attempted) * 100 >= threshold
+  }
+
+  /**
+   * Čuva firmware fajl i upisuje ga u registar
+   */
+  static async createRelease(input: FirmwareReleaseInput) {
+    try {
+      const checksum = FirmwareService.checksum(input.data)
+
+      await mkdir(FIRMWARE_DIR, { recursive: true })
+      await writeFile(join(FIRMWARE_DIR, `${checksum}.bin`), input.data)
+
+      return await prisma.firmwareRelease.create({
+        data: {
+          version: input.version,
+          model: input.model,
+          deviceType: input.deviceType,
+          fileName: input.fileName,
+          size: input.data.length,
+          checksum,
+          releaseNotes: input.releaseNotes ?? null,
+        }
+      })
+    } catch (error) {
+      console.error('Greška pri čuvanju firmware-a:', error)
+      throw error
+    }
+  }
+
+  static async listReleases() {
+    try {
+      return await prisma.firmwareRelease.findMany({
+        orderBy: { createdAt: 'desc' },
+        include: { _count: { select: { campaigns: true } } }
+      })
+    } catch (error) {
+      console.error('Greška pri dohvatanju firmware registra:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Kreira kampanju za sve uređaje modela iz ciljne grupe kojima ažuriranje treba.
+   * Uređaji koji već imaju tu verziju ili su u drugoj aktivnoj kampanji se preskaču.
+   */
+  static async createCampaign(input: FirmwareCampaignInput) {
+    try {
+      const release = await prisma.firmwareRelease.findUnique({ where: { id: input.releaseId } })
+      if (!release) {
+        return null
+      }
+
+      const devices = await prisma.device.findMany({
+        where: {
+          isActive: true,
+          type: release.deviceType,
+          model: release.model,
+          ...(input.targetGroup?.locationIds?.length ? { locationId: { in: input.targetGroup.locationIds } } : {}),
+          ...(input.targetGroup?.deviceIds?.length ? { id: { in: input.targetGroup.deviceIds } } : {}),
+          // Poređenje sa NULL u SQL-u nije tačno, pa uređaji bez verzije idu posebno
+          OR: [{ firmwareVersion: null }, { firmwareVersion: { not: release.version } }],
+          firmwareUpdates: {
+            none: {
+              status: { in: ['pending', ...IN_FLIGHT_STATUSES] },
+              campaign: { status: { in: ['draft', 'running', 'paused'] } }
+            }
+          }
+        },
+        select: { id: true, firmwareVersion: true },
+        orderBy: { id: 'asc' }
+      })
+
+      return await prisma.firmwareCampaign.create({
+        data: {
+          name: input.name,
+          releaseId: release.id,
+          targetGroup: input.targetGroup ? JSON.stringify(input.targetGroup) : null,
+          stages: JSON.stringify(input.stages),
+          failureThreshold: input.failureThreshold,
+          updates: {
+            create: devices.map(device => ({ deviceId: device.id, fromVersion: device.firmwareVersion }))
+          }
+        },
+        include: { release: true, updates: true }
+      })
+    } catch (error) {
+      console.error('Greška pri kreiranju OTA kampanje:', error)
+      throw error
+    }
+  }
+
+  static async listCampaigns() {
+    try {
+      const campaigns = await prisma.firmwareCampaign.findMany({
+        orderBy: { createdAt: 'desc' },
+        include: {
+          release: { select: { id: true, version: true, model: true, deviceType: true } },
+          updates: { select: { status: true } }
+        }
+      })
+
+      return campaigns.map(({ updates, ...campaign }) => ({
+        ...campaign,
+        stages: JSON.parse(campaign.stages) as number[],
+        targetGroup: campaign.targetGroup ? JSON.parse(campaign.targetGroup) as CampaignTargetGroup : null,
+        counts: FirmwareService.summarize(updates),
+      }))
+    } catch (error) {
+      console.error('Greška pri dohvatanju OTA kampanja:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Kampanja sa stanjem ažuriranja po uređaju
+   */
+  static async getCampaign(id: number) {
+    try {
+      const campaign = await prisma.firmwareCampaign.findUnique({
+        where: { id },
+        include: {
+          release: true,
+          updates: {
+            orderBy: { deviceId: 'asc' },
+            include: { device: { select: { id: true, uid: true, name: true, room: true, firmwareVersion: true } } }
+          }
+        }
+      })
+
+      if (!campaign) {
+        return null
+      }
+
+      return {
+        ...campaign,
+        stages: JSON.parse(campaign.stages) as number[],
+        targetGroup: campaign.targetGroup ? JSON.parse(campaign.targetGroup) as CampaignTargetGroup : null,
+        counts: FirmwareService.summarize(campaign.updates),
+      }
+    } catch (error) {
+      console.error('Greška pri dohvatanju OTA kampanje:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Istorija ažuriranja firmware-a jednog uređaja
+   */
+  static async getDeviceUpdates(deviceId: number) {
+    try {
+      return await prisma.firmwareUpdate.findMany({
+        where: { deviceId },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          campaign: {
+            select: { id: true, name: true, status: true, release: { select: { version: true } } }
+          }
+        }
+      })
+    } catch (error) {
+      console.error('Greška pri dohvatanju ažuriranja uređaja:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Menja stanje kampanje (start, pauza, nastavak, otkazivanje).
+   * Ponude uređajima šalje bridge pri sledećoj proveri.
+   */
+  static async transition(id: number, action: CampaignAction, reason?: string) {
+    try {
+      const to = CAMPAIGN_TRANSITIONS[action].to
+
+      if (action === 'cancel') {
+        await prisma.firmwareUpdate.updateMany({
+          where: { campaignId: id, status: 'pending' },
+          data: { status: 'cancelled' }
+        })
+      }
+
+      return await prisma.firmwareCampaign.update({
+        where: { id },
+        data: {
+          status: to,
+          pausedReason: action === 'pause' ? reason ?? null : null,
+          ...(action === 'start' ? { startedAt: new Date() } : {}),
+          ...(action === 'cancel' ? { completedAt: new Date() } : {}),
+        }
+      })
+    } catch (error) {
+      console.error('Greška pri promeni stanja OTA kampanje:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Periodična obrada: neuspeh zaglavljenih ažuriranja i napredovanje aktivnih kampanja
+   */
+  static async tick(now: Date = new Date()) {
+    if (!FirmwareService.publisher) {
+      return
+    }
+
+    await prisma.firmwareUpdate.updateMany({
+      where: {
+        status: { in: IN_FLIGHT_STATUSES },
+        updatedAt: { lt: new Date(now.getTime() - UPDATE_TIMEOUT_MS) }
+      },
+      data: { status: 'failed', error: 'Uređaj se nije javio u predviđenom roku', completedAt: now }
+    })
+
+    const campaigns = await prisma.firmwareCampaign.findMany({
+      where: { status: 'running' },
+      select: { id: true }
+    })
+
+    for (const campaign of campaigns) {
+      await FirmwareService.advance(campaign.id, now)
+    }
+  }
+
+  /**
+   * Nudi ažuriranje uređajima tekuće faze, prelazi u sledeću fazu kada se tekuća završi
+   * i pauzira kampanju kada procenat neuspelih pređe prag.
+   */
+  static async advance(campaignId: number, now: Date = new Date()) {
+    const publisher = FirmwareService.publisher
+    if (!publisher) {
+      return
+    }
+
+    const campaign: CampaignRow | null = await prisma.firmwareCampaign.findUnique({
+      where: { id: campaignId },
+      include: {
+        release: true,
+        updates: {
+          orderBy: { deviceId: 'asc' },
+          include: { device: { select: { id: true, uid: true, lastSeen: true, firmwareVersion: true } } }
+        }
+      }
+    })
+
+    if (!campaign || campaign.status !== 'running') {
+      return
+    }
+
+    const counts = FirmwareService.summarize(campaign.updates)
+
+    if (FirmwareService.exceedsFailureThreshold(counts, campaign.failureThreshold)) {
+      await FirmwareService.transition(campaign.id, 'pause',
+        `Neuspelo ${counts.failed} od ${counts.total - counts.pending - counts.cancelled} ažuriranja (prag ${campaign.failureThreshold}%)`)
+      console.warn(`OTA kampanja ${campaign.id} pauzirana zbog neuspelih ažuriranja`)
+      return
+    }
+
+    const stages: number[] = JSON.parse(campaign.stages)
+    const attempted = counts.total - counts.pending - counts.cancelled
+    const inFlight = IN_FLIGHT_STATUSES.reduce((sum, status) => sum + counts[status], 0)
+    let stage = campaign.currentStage
+    let target = FirmwareService.stageTarget(counts.total, stages[stage])
+
+    // Sledeća faza počinje tek kada su sva ažuriranja tekuće faze završena
+    if (attempted >= target && inFlight === 0) {
+      if (stage < stages.length - 1) {
+        stage++
+        target = FirmwareService.stageTarget(counts.total, stages[stage])
+        await prisma.firmwareCampaign.update({ where: { id: campaign.id }, data: { currentStage: stage } })
+      } else if (counts.pending === 0) {
+        await prisma.firmwareCampaign.update({
+          where: { id: campaign.id },
+          data: { status: 'completed', completedAt: now }
+        })
+        return
+      }
+    }
+
+    // Ponuda ide samo uređajima na mreži; ostali čekaju sledeću proveru
+    const onlineSince = now.getTime() - ONLINE_WINDOW_MS
+    const candidates = campaign.updates
+      .filter(update => update.status === 'pending' && update.device.lastSeen.getTime() >= onlineSince)
+      .slice(0, Math.max(0, target - attempted))
+
+    for (const update of candidates) {
+      publisher(legacyTopic(update.device.uid, DEVICE_ACTIONS.OTA_OFFER), {
+        campaignId: campaign.id,
+        version: campaign.release.version,
+        size: campaign.release.size,
+        checksum: campaign.release.checksum,
+        chunkSize: CHUNK_SIZE,
+        totalChunks: Math.ceil(campaign.release.size / CHUNK_SIZE),
+        timestamp: now.toISOString(),
+      })
+
+      await prisma.firmwareUpdate.update({
+        where: { id: update.id },
+        data: {
+          status: 'offered',
+          stage,
+          progress: 0,
+          offeredAt: now,
+          fromVersion: update.device.firmwareVersion,
+        }
+      })
+
+      FirmwareService.notify(campaign.id, update.device.id, update.device.uid, 'offered', 0, null)
+    }
+  }
+
+  /**
+   * Šalje uređaju traženi deo firmware fajla
+   */
+  static async handleChunkRequest(uid: string, payload: OtaChunkRequestPayload) {
+    const publisher = FirmwareService.publisher
+    if (!publisher) {
+      return
+    }
+
+    try {
+      const update = await FirmwareService.findUpdate(uid, payload.campaignId)
+      if (!update || !['offered', 'downloading'].includes(update.status)) {
+        console.warn(`Odbijen zahtev za deo firmware-a: ${uid}, kampanja ${payload.campaignId}`)
+        return
+      }
+
+      const release = update.campaign.release
+      const totalChunks = Math.ceil(release.size / CHUNK_SIZE)
+      if (!Number.isInteger(payload.index) || payload.index < 0 || payload.index >= totalChunks) {
+        return
+      }
+
+      const file = await open(join(FIRMWARE_DIR, `${release.checksum}.bin`), 'r')
+      try {
+        const buffer = Buffer.alloc(CHUNK_SIZE)
+        const { bytesRead } = await file.read(buffer, 0, CHUNK_SIZE, payload.index * CHUNK_SIZE)
+
+        publisher(legacyTopic(uid, DEVICE_ACTIONS.OTA_CHUNK), {
+          campaignId: payload.campaignId,
+          index: payload.index,
+          totalChunks,
+          data: buffer.subarray(0, bytesRead).toString('base64'),
+        })
+      } finally {
+        await file.close()
+      }
+
+      if (update.status === 'offered') {
+        await prisma.firmwareUpdate.update({ where: { id: update.id }, data: { status: 'downloading' } })
+      }
+    } catch (error) {
+      console.error('Greška pri slanju dela firmware-a:', error)
+    }
+  }
+
+  /**
+   * Obrađuje izveštaj uređaja o toku ažuriranja
+   */
+  static async handleProgress(uid: string, payload: OtaProgressPayload) {
+    try {
+      const update = await FirmwareService.findUpdate(uid, payload.campaignId)
+      if (!update || !IN_FLIGHT_STATUSES.includes(update.status as UpdateStatus)) {
+        return
+      }
+
+      const finished = payload.status === 'succeeded' || payload.status === 'failed'
+      const progress = payload.status === 'succeeded'
+        ? 100
+        : Math.max(0, Math.min(100, Math.round(payload.progress ?? update.progress)))
+      const error = payload.status === 'failed' ? payload.error || 'Ažuriranje nije uspelo' : null
+
+      await prisma.firmwareUpdate.update({
+        where: { id: update.id },
+        data: {
+          status: payload.status,
+          progress,
+          error,
+          ...(finished ? { completedAt: new Date() } : {}),
+        }
+      })
+
+      if (payload.status === 'succeeded') {
+        await prisma.device.update({
+          where: { id: update.deviceId },
+          data: { firmwareVersion: payload.version || update.campaign.release.version }
+        })
+      }
+
+      FirmwareService.notify(update.campaignId, update.deviceId, uid, payload.status, progress, error)
+
+      // Neuspeh odmah proverava prag (pauza ne čeka sledeću periodičnu proveru)
+      if (finished) {
+        await FirmwareService.advance(update.campaignId)
+      }
+    } catch (error) {
+      console.error('Greška pri obradi toka OTA ažuriranja:', error)
+    }
+  }
+
+  private static async findUpdate(uid: string, campaignId: number) {
+    const device = await prisma.device.findUnique({ where: { uid }, select: { id: true } })
+    if (!device || !Number.isInteger(campaignId)) {
+      return null
+    }
+
+    return prisma.firmwareUpdate.findUnique({
+      where: { campaignId_deviceId: { campaignId, deviceId: device.id } },
+      include: { campaign: { include: { release: true } } }
+    })
+  }
+
+  private static notify(campaignId: number, deviceId: number, uid: string, status: UpdateStatus, progress: number, error: string | null) {
+    const event: FirmwareUpdateEvent = { campaignId, deviceId, uid, status, progress, error }
+    emitter.emitEvent(SSE_EVENTS.FIRMWARE_UPDATE, event)
+  }
+}
@@ -0,0 +1,126 @@
+import { PrismaClient } from '@prisma/client'
+
+// Sažet kontekst gosta koji posada vidi uz zahtev (na satu i na dashboard-u)
+export interface GuestContext {
+  guestId: number
+  name: string
+  isVip: boolean
+  drinks: string[]
+  food: string[]
+  allergies: string[]
+  languages: string[]
+  notes: string | null
+  summary: string
+}
+
+type GuestRow = {
+  id: number
+  name: string
+  isVip: boolean
+  notes: string | null
+  preferences: string | null
+  languagesSpoken: string | null
+}
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+const parseList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(String).filter(item => item.trim() !== '') : []
+
+const parseJson = (raw: string | null): unknown => {
+  if (!raw) return null
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Servis koji uz zahtev prilaže kontekst gostiju iz kabine (preference, alergije, jezici)
+ */
+export class GuestContextService {
+  /**
+   * Kratak opis za mali ekran sata, npr. "G&T, no ice · alergija: nuts"
+   */
+  static summarize(context: Omit<GuestContext, 'summary'>): string {
+    const parts = [...context.drinks, ...context.food]
+    if (context.allergies.length > 0) {
+      parts.push(`alergija: ${context.allergies.join(', ')}`)
+    }
+    return parts.join(' · ')
+  }
+
+  static fromGuest(guest: GuestRow): GuestContext {
+    const preferences = (parseJson(guest.preferences) || {}) as Record<string, unknown>
+    const notes = [guest.notes, typeof preferences.notes === 'string' ? preferences.notes : null]
+      .filter(Boolean)
+      .join('\n')
+
+    const context = {
+      guestId: guest.id,
+      name: guest.name,
+      isVip: guest.isVip,
+      drinks: parseList(preferences.drinks),
+      food: parseList(preferences.food),
+      allergies: parseList(preferences.allergies),
+      languages: parseList(parseJson(guest.languagesSpoken)),
+      notes: notes || null,
+    }
+
+    return { ...context, summary: GuestContextService.summarize(context) }
+  }
+
+  /**
+   * Gosti koji trenutno borave na lokaciji (VIP gosti prvi)
+   */
+  static async forLocation(locationId: number | null, now: Date = new Date()): Promise<GuestContext[]> {
+    if (!locationId) {
+      return []
+    }
+
+    try {
+      const guests = await prisma.guest.findMany({
+        where: {
+          locationId,
+          status: { notIn: ['Checked Out', 'Checked-Out'] },
+          arrivalDate: { lte: now },
+          departureDate: { gte: now },
+        },
+        select: { id: true, name: true, isVip: true, notes: true, preferences: true, languagesSpoken: true },
+        orderBy: [{ isVip: 'desc' }, { name: 'asc' }]
+      })
+
+      return guests.map(GuestContextService.fromGuest)
+    } catch (error) {
+      // Zahtev se kreira i bez konteksta gosta
+      console.error('Greška pri dohvatanju konteksta gostiju:', error)
+      return []
+    }
+  }
+
+  /**
+   * Čita kontekst sačuvan uz zahtev (JSON snimak u trenutku poziva)
+   */
+  static parse(raw: string | null): GuestContext[] {
+    const parsed = parseJson(raw)
+    return Array.isArray(parsed) ? parsed as GuestContext[] : []
+  }
+
+  static serialize(context: GuestContext[]): string | null {
+    return context.length > 0 ? JSON.stringify(context) : null
+  }
+
+  /**
+   * Kontekst gostiju sačuvan uz zahtev
+   */
+  static async getForRequest(requestId: number): Promise<GuestContext[]> {
+    const request = await prisma.request.findUnique({
+      where: { id: requestId },
+      select: { guestContext: true }
+    })
+
+    return GuestContextService.parse(request?.guestContext ?? null)
+  }
+}
@@ -93,11 +93,7 @@ export const GuestService = {
    */
   async getAllGuests(): Promise<Guest[]> {
     try {
-      const response = await fetch('/api/guests', {
-        headers: {
-          'x-auth-bypass': 'true'
-        }
-      })
+      const response = await fetch('/api/guests')
       
       if (!response.ok) {
         throw new Error('Failed to fetch guests')
@@ -130,8 +126,7 @@ export const GuestService = {
       const response = await fetch('/api/guests', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-auth-bypass': 'true'
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify(formattedData)
       })
@@ -170,8 +165,7 @@ export const GuestService = {
       const response = await fetch('/api/guests', {
         method: 'PATCH',
         headers: {
-          'Content-Type': 'application/json',
-          'x-auth-bypass': 'true'
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify(formattedData)
       })
@@ -196,9 +190,6 @@ export const GuestService = {
     try {
       const response = await fetch(`/api/guests?id=${id}`, {
         method: 'DELETE',
-        headers: {
-          'x-auth-bypass': 'true'
-        }
       })
       
       if (!response.ok) {
@@ -219,8 +210,7 @@ export const GuestService = {
       const response = await fetch('/api/upload', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-auth-bypass': 'true'
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ 
           image: imageData,
@@ -0,0 +1,456 @@
+import { PrismaClient } from '@prisma/client'
+import { emitter, SSE_EVENTS, HandoverEvent } from '@/lib/sseEmitter'
+import { DutyService } from '@/lib/services/duty-service'
+import { WatchService } from '@/lib/services/watch-service'
+
+export const HANDOVER_STATUSES = {
+  PENDING: 'pending',
+  ACKNOWLEDGED: 'acknowledged',
+} as const
+
+export type HandoverStatus = (typeof HANDOVER_STATUSES)[keyof typeof HANDOVER_STATUSES]
+
+// Gde je dolazeći član posade potvrdio primopredaju
+export const HANDOVER_CHANNELS = ['web', 'watch'] as const
+
+export type HandoverChannel = (typeof HANDOVER_CHANNELS)[number]
+
+export interface HandoverInput {
+  // Bez navedene smene i člana posade primopredaja ide sledećoj smeni na istoj poziciji
+  incomingShiftId?: number
+  incomingUserId?: number
+  requests: { requestId: number; note?: string }[]
+  guestNotes: { guestId: number; note: string }[]
+  tasks: string[]
+  notes?: string
+  transferRequests?: boolean
+}
+
+// Snimak zahteva u trenutku predaje
+export interface HandoverRequestNote {
+  requestId: number
+  room: string
+  deviceName: string | null
+  status: string
+  priority: string
+  note: string | null
+}
+
+export interface HandoverGuestNote {
+  guestId: number
+  guestName: string
+  room: string | null
+  note: string
+}
+
+type HandoverShift = {
+  id: number
+  userId: number
+  laneId: string | null
+  startsAt: Date
+  endsAt: Date
+  startedAt: Date | null
+  endedAt: Date | null
+}
+
+type HandoverRow = {
+  id: number
+  outgoingUserId: number
+  incomingUserId: number
+  outgoingShiftId: number | null
+  incomingShiftId: number | null
+  openRequests: string
+  guestNotes: string
+  tasks: string
+  notes: string | null
+  transferRequests: boolean
+  status: string
+  acknowledgedAt: Date | null
+  acknowledgedVia: string | null
+  createdAt: Date
+  outgoingUser: { id: number; name: string }
+  incomingUser: { id: number; name: string }
+  outgoingShift: HandoverShift | null
+  incomingShift: HandoverShift | null
+}
+
+export type HandoverView = Omit<HandoverRow, 'openRequests' | 'guestNotes' | 'tasks'> & {
+  openRequests: HandoverRequestNote[]
+  guestNotes: HandoverGuestNote[]
+  tasks: string[]
+}
+
+// Ishod kreiranja primopredaje
+export type HandoverResult =
+  | { outcome: 'invalid'; error: string }
+  | { outcome: 'created'; handover: HandoverView }
+
+// Zahtevi koje odlazeća posada još drži; samo oni u toku se prebacuju pri potvrdi
+const OPEN_REQUEST_STATUSES = ['PENDING', 'IN_PROGRESS']
+// Primopredaja je moguća još ovoliko posle kraja smene, a dolazeća smena se traži ovoliko posle kraja odlazeće
+const HANDOVER_WINDOW_MS = parseInt(process.env.HANDOVER_WINDOW_MS || '7200000', 10)
+const SWEEP_INTERVAL_MS = parseInt(process.env.HANDOVER_SWEEP_INTERVAL_MS || '15000', 10)
+
+const SHIFT_SELECT = {
+  id: true, userId: true, laneId: true, startsAt: true, endsAt: true, startedAt: true, endedAt: true
+} as const
+
+const HANDOVER_INCLUDE = {
+  outgoingUser: { select: { id: true, name: true } },
+  incomingUser: { select: { id: true, name: true } },
+  outgoingShift: { select: SHIFT_SELECT },
+  incomingShift: { select: SHIFT_SELECT },
+} as const
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis za primopredaju smene: odlazeća posada predaje otvorene zahteve, zapažanja o gostima
+ * i zadatke, a dolazeća smena počinje tek posle potvrde (web ili sat)
+ */
+export class HandoverService {
+  private static timer: NodeJS.Timeout | null = null
+
+  /**
+   * Pokreće slanje primopredaja na satove (u mqttBridge procesu)
+   */
+  static start(intervalMs: number = SWEEP_INTERVAL_MS) {
+    if (HandoverService.timer) {
+      return
+    }
+
+    const sweep = () => {
+      HandoverService.deliverPending().catch(error => {
+        console.error('Greška pri slanju primopredaja na satove:', error)
+      })
+    }
+    HandoverService.timer = setInterval(sweep, intervalMs)
+    sweep()
+    console.log('Slanje primopredaja smene pokrenuto')
+  }
+
+  static stop() {
+    if (HandoverService.timer) {
+      clearInterval(HandoverService.timer)
+      HandoverService.timer = null
+    }
+  }
+
+  /**
+   * Smena koju korisnik predaje: smena u toku ili nedavno završena
+   */
+  static async getOutgoingShift(userId: number, now: Date = new Date()): Promise<HandoverShift | null> {
+    return prisma.shift.findFirst({
+      where: {
+        userId,
+        startedAt: { not: null },
+        OR: [{ endedAt: null }, { endedAt: { gte: new Date(now.getTime() - HANDOVER_WINDOW_MS) } }]
+      },
+      orderBy: { startedAt: 'desc' },
+      select: SHIFT_SELECT
+    })
+  }
+
+  /**
+   * Dolazeća smena: navedena, sledeća smena navedenog člana posade ili sledeća smena na istoj poziciji
+   */
+  static async getIncomingShift(
+    outgoing: HandoverShift,
+    input: Pick<HandoverInput, 'incomingShiftId' | 'incomingUserId'>,
+    now: Date = new Date()
+  ): Promise<HandoverShift | null> {
+    const planned = { startedAt: null, completed: false, missed: false, endsAt: { gt: now } }
+
+    if (input.incomingShiftId) {
+      return prisma.shift.findFirst({ where: { id: input.incomingShiftId, ...planned }, select: SHIFT_SELECT })
+    }
+    if (input.incomingUserId) {
+      return prisma.shift.findFirst({
+        where: { userId: input.incomingUserId, ...planned },
+        orderBy: { startsAt: 'asc' },
+        select: SHIFT_SELECT
+      })
+    }
+    if (!outgoing.laneId) {
+      return null
+    }
+    return prisma.shift.findFirst({
+      where: {
+        laneId: outgoing.laneId,
+        userId: { not: outgoing.userId },
+        startsAt: { lte: new Date(outgoing.endsAt.getTime() + HANDOVER_WINDOW_MS) },
+        ...planned
+      },
+      orderBy: { startsAt: 'asc' },
+      select: SHIFT_SELECT
+    })
+  }
+
+  /**
+   * Predlog za formu: smene, otvoreni zahtevi korisnika i gosti na brodu
+   */
+  static async draft(userId: number, now: Date = new Date()) {
+    const outgoingShift = await HandoverService.getOutgoingShift(userId, now)
+    const [incomingShift, openRequests, guests] = await Promise.all([
+      outgoingShift ? HandoverService.getIncomingShift(outgoingShift, {}, now) : Promise.resolve(null),
+      prisma.request.findMany({
+        where: { assignedTo: userId, status: { in: OPEN_REQUEST_STATUSES } },
+        include: { device: { select: { name: true, room: true } } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.guest.findMany({
+        where: { status: 'Checked-In', archivedAt: null },
+        select: { id: true, name: true, room: true, isVip: true },
+        orderBy: { name: 'asc' }
+      }),
+    ])
+    const incomingUser = incomingShift
+      ? await prisma.user.findUnique({ where: { id: incomingShift.userId }, select: { id: true, name: true } })
+      : null
+
+    return {
+      outgoingShift,
+      incomingShift,
+      incomingUser,
+      openRequests: openRequests.map(request => ({
+        requestId: request.id,
+        room: request.device.room,
+        deviceName: request.device.name,
+        status: request.status,
+        priority: request.priority,
+        createdAt: request.createdAt,
+      })),
+      guests,
+    }
+  }
+
+  /**
+   * Proverava i snima primopredaju; zahtevi i gosti se snimaju kakvi su u trenutku predaje
+   */
+  static async create(input: HandoverInput, outgoingUserId: number, now: Date = new Date()): Promise<HandoverResult> {
+    try {
+      const outgoingShift = await HandoverService.getOutgoingShift(outgoingUserId, now)
+      if (!outgoingShift) {
+        return { outcome: 'invalid', error: 'Nema smene u toku za primopredaju' }
+      }
+
+      const incomingShift = await HandoverService.getIncomingShift(outgoingShift, input, now)
+      const incomingUserId = input.incomingUserId ?? incomingShift?.userId
+      if (!incomingUserId) {
+        return { outcome: 'invalid', error: 'Dolazeća smena nije pronađena' }
+      }
+      if (incomingUserId === outgoingUserId || (incomingShift && incomingShift.userId !== incomingUserId)) {
+        return { outcome: 'invalid', error: 'Dolazeća smena ne pripada navedenom članu posade' }
+      }
+
+      const requestIds = input.requests.map(item => item.requestId)
+      const guestIds = input.guestNotes.map(item => item.guestId)
+      const [incomingUser, pending, requests, guests] = await Promise.all([
+        prisma.user.findUnique({ where: { id: incomingUserId }, select: { id: true } }),
+        prisma.handover.count({ where: { outgoingShiftId: outgoingShift.id, status: HANDOVER_STATUSES.PENDING } }),
+        prisma.request.findMany({
+          where: { id: { in: requestIds }, assignedTo: outgoingUserId, status: { in: OPEN_REQUEST_STATUSES } },
+          include: { device: { select: { name: true, room: true } } }
+        }),
+        prisma.guest.findMany({ where: { id: { in: guestIds } }, select: { id: true, name: true, room: true } }),
+      ])
+
+      if (!incomingUser) {
+        return { outcome: 'invalid', error: 'Dolazeći član posade nije pronađen' }
+      }
+      if (pending > 0) {
+        return { outcome: 'invalid', error: 'Primopredaja za ovu smenu već čeka potvrdu' }
+      }
+      if (requests.length !== new Set(requestIds).size) {
+        return { outcome: 'invalid', error: 'Predati se mogu samo otvoreni zahtevi dodeljeni odlazećem članu posade' }
+      }
+      if (guests.length !== new Set(guestIds).size) {
+        return { outcome: 'invalid', error: 'Gost nije pronađen' }
+      }
+
+      const openRequests: HandoverRequestNote[] = requests.map(request => ({
+        requestId: request.id,
+        room: request.device.room,
+        deviceName: request.device.name,
+        status: request.status,
+        priority: request.priority,
+        note: input.requests.find(item => item.requestId === request.id)?.note || null,
+      }))
+      const guestNotes: HandoverGuestNote[] = input.guestNotes.map(item => {
+        const guest = guests.find(row => row.id === item.guestId)!
+        return { guestId: guest.id, guestName: guest.name, room: guest.room, note: item.note }
+      })
+
+      const handover = await prisma.handover.create({
+        data: {
+          outgoingUserId,
+          incomingUserId,
+          outgoingShiftId: outgoingShift.id,
+          incomingShiftId: incomingShift?.id ?? null,
+          openRequests: JSON.stringify(openRequests),
+          guestNotes: JSON.stringify(guestNotes),
+          tasks: JSON.stringify(input.tasks),
+          notes: input.notes || null,
+          transferRequests: input.transferRequests ?? true,
+        },
+        include: HANDOVER_INCLUDE
+      })
+
+      return { outcome: 'created', handover: HandoverService.notify(handover) }
+    } catch (error) {
+      console.error('Greška pri kreiranju primopredaje:', error)
+      throw error
+    }
+  }
+
+  static async get(id: number): Promise<HandoverView | null> {
+    const handover = await prisma.handover.findUnique({ where: { id }, include: HANDOVER_INCLUDE })
+    return handover ? HandoverService.toView(handover) : null
+  }
+
+  /**
+   * Potvrda dolazećeg člana posade: zahtevi u toku prelaze na njega, a planirana smena
+   * počinje ako je u prozoru za potvrdu (inače je započinje sat ili raspoređivač)
+   */
+  static async acknowledge(id: number, via: HandoverChannel, now: Date = new Date()) {
+    try {
+      const handover = await prisma.handover.update({
+        where: { id },
+        data: {
+          status: HANDOVER_STATUSES.ACKNOWLEDGED,
+          acknowledgedAt: now,
+          acknowledgedVia: via,
+          watchNotified: false,
+        },
+        include: HANDOVER_INCLUDE
+      })
+      const view = HandoverService.notify(handover)
+
+      let transferred = 0
+      if (handover.transferRequests && view.openRequests.length > 0) {
+        transferred = await DutyService.transferAllRequests(
+          handover.outgoingUserId,
+          handover.incomingUserId,
+          `Handover #${handover.id}`,
+          handover.incomingUserId,
+          view.openRequests.map(request => request.requestId),
+          { handoverId: handover.id }
+        )
+      }
+
+      const shift = await HandoverService.startIncomingShift(handover, via, now)
+
+      return { handover: view, transferred, shift }
+    } catch (error) {
+      console.error('Greška pri potvrdi primopredaje:', error)
+      throw error
+    }
+  }
+
+  private static async startIncomingShift(handover: HandoverRow, via: HandoverChannel, now: Date) {
+    const userId = handover.incomingUserId
+    if (await DutyService.getLiveShift(userId)) {
+      return null
+    }
+
+    const planned = await DutyService.getPlannedShift(userId, now)
+    if (!planned || (handover.incomingShiftId !== null && planned.id !== handover.incomingShiftId)) {
+      return null
+    }
+
+    try {
+      return await DutyService.startShift(userId, via === 'watch' ? 'tap' : 'web', now)
+    } catch (error) {
+      // Potvrda ostaje; smena se može započeti kasnije (npr. čeka se druga primopredaja)
+      console.error('Smena posle primopredaje nije započeta:', error)
+      return null
+    }
+  }
+
+  /**
+   * Primopredaje koje korisnik predaje ili prima, odnosno arhiva za jednu smenu
+   */
+  static async listFor(userId: number, shiftId?: number) {
+    const handovers = await prisma.handover.findMany({
+      where: shiftId
+        ? { OR: [{ outgoingShiftId: shiftId }, { incomingShiftId: shiftId }] }
+        : { OR: [{ outgoingUserId: userId }, { incomingUserId: userId }] },
+      include: HANDOVER_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: 100
+    })
+
+    return handovers.map(handover => ({
+      ...HandoverService.toView(handover),
+      canAcknowledge: handover.status === HANDOVER_STATUSES.PENDING && handover.incomingUserId === userId,
+    }))
+  }
+
+  /**
+   * Šalje na satove nove primopredaje (dolazećem) i potvrde (odlazećem)
+   */
+  static async deliverPending() {
+    const pending = await prisma.handover.findMany({
+      where: { watchNotified: false },
+      include: HANDOVER_INCLUDE,
+      orderBy: { updatedAt: 'asc' }
+    })
+
+    for (const handover of pending) {
+      const view = HandoverService.toView(handover)
+      await WatchService.notifyUsers(HandoverService.recipientsFor(handover), {
+        type: 'handover',
+        handoverId: handover.id,
+        status: handover.status,
+        openRequests: view.openRequests.length,
+        guestNotes: view.guestNotes.length,
+        tasks: view.tasks.length,
+        message: HandoverService.describe(view),
+      })
+      await prisma.handover.update({ where: { id: handover.id }, data: { watchNotified: true } })
+    }
+  }
+
+  static recipientsFor(handover: { status: string; outgoingUserId: number; incomingUserId: number }): number[] {
+    return handover.status === HANDOVER_STATUSES.PENDING ? [handover.incomingUserId] : [handover.outgoingUserId]
+  }
+
+  static describe(handover: HandoverView): string {
+    if (handover.status === HANDOVER_STATUSES.ACKNOWLEDGED) {
+      return `${handover.incomingUser.name} acknowledged your handover`
+    }
+
+    const count = (n: number, label: string) => `${n} ${label}${n === 1 ? '' : 's'}`
+    return `Handover from ${handover.outgoingUser.name}: ${count(handover.openRequests.length, 'open request')}, ` +
+      `${count(handover.guestNotes.length, 'guest note')}, ${count(handover.tasks.length, 'task')}`
+  }
+
+  private static toView(handover: HandoverRow): HandoverView {
+    return {
+      ...handover,
+      openRequests: JSON.parse(handover.openRequests),
+      guestNotes: JSON.parse(handover.guestNotes),
+      tasks: JSON.parse(handover.tasks),
+    }
+  }
+
+  // Web dobija SSE odmah, satovi preko mqttBridge-a
+  private static notify(handover: HandoverRow): HandoverView {
+    const view = HandoverService.toView(handover)
+    const event: HandoverEvent = {
+      handoverId: handover.id,
+      status: handover.status,
+      outgoingUserId: handover.outgoingUserId,
+      incomingUserId: handover.incomingUserId,
+      outgoingShiftId: handover.outgoingShiftId,
+      incomingShiftId: handover.incomingShiftId,
+      recipients: HandoverService.recipientsFor(handover),
+      message: HandoverService.describe(view),
+      updatedAt: new Date().toISOString(),
+    }
+    emitter.emitEvent(SSE_EVENTS.HANDOVER, event)
+
+    return view
+  }
+}
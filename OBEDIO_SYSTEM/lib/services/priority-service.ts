@@ -0,0 +1,105 @@
+// Nivoi prioriteta zahteva, od najnižeg ka najvišem
+export const REQUEST_PRIORITIES = ['normal', 'urgent', 'emergency'] as const
+
+export type RequestPriority = (typeof REQUEST_PRIORITIES)[number]
+
+// Kategorije zahteva prema načinu na koji je poziv nastao
+export const REQUEST_CATEGORIES = {
+  SINGLE_PRESS: 'single_press',
+  DOUBLE_PRESS: 'double_press',
+  LONG_PRESS: 'long_press',
+  EMERGENCY_BUTTON: 'emergency_button',
+  FALL_DETECTION: 'fall_detection',
+  MANUAL: 'manual',
+} as const
+
+export type RequestCategory = (typeof REQUEST_CATEGORIES)[keyof typeof REQUEST_CATEGORIES]
+
+// Podrazumevani prioritet za svaku kategoriju
+export const CATEGORY_PRIORITY: Record<RequestCategory, RequestPriority> = {
+  single_press: 'normal',
+  double_press: 'urgent',
+  long_press: 'urgent',
+  emergency_button: 'emergency',
+  fall_detection: 'emergency',
+  manual: 'normal',
+}
+
+export interface RequestClassification {
+  category: RequestCategory
+  priority: RequestPriority
+}
+
+/**
+ * Servis za klasifikaciju zahteva po prioritetu i kategoriji
+ */
+export class PriorityService {
+  /**
+   * Klasifikuje pritisak dugmeta prema tipu pritiska iz MQTT poruke
+   * (pressType ili press_type: single, double, long, emergency)
+   */
+  static classifyPress(pressType?: string | null): RequestClassification {
+    let category: RequestCategory
+    switch (pressType) {
+      case 'double':
+        category = REQUEST_CATEGORIES.DOUBLE_PRESS
+        break
+      case 'long':
+        category = REQUEST_CATEGORIES.LONG_PRESS
+        break
+      case 'emergency':
+        category = REQUEST_CATEGORIES.EMERGENCY_BUTTON
+        break
+      default:
+        category = REQUEST_CATEGORIES.SINGLE_PRESS
+    }
+
+    return { category, priority: CATEGORY_PRIORITY[category] }
+  }
+
+  /**
+   * Klasifikuje poruku sa emergency topic-a (alert_type: button_emergency, fall_detection)
+   */
+  static classifyEmergency(alertType?: string | null): RequestClassification {
+    const category = alertType === 'fall_detection'
+      ? REQUEST_CATEGORIES.FALL_DETECTION
+      : REQUEST_CATEGORIES.EMERGENCY_BUTTON
+
+    return { category, priority: 'emergency' }
+  }
+
+  static isEmergency(priority: string | null | undefined): boolean {
+    return priority === 'emergency'
+  }
+
+  /**
+   * Rang prioriteta - veći broj znači hitnije
+   */
+  static rank(priority: string | null | undefined): number {
+    const index = REQUEST_PRIORITIES.indexOf(priority as RequestPriority)
+    return index === -1 ? 0 : index
+  }
+
+  /**
+   * Poredi zahteve za red čekanja: hitniji prvi, pa stariji pre novijih
+   */
+  static compare(
+    a: { priority: string; createdAt: Date | string },
+    b: { priority: string; createdAt: Date | string }
+  ): number {
+    return PriorityService.rank(b.priority) - PriorityService.rank(a.priority) ||
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  }
+
+  /**
+   * Proverava da li zahtev može biti zatvoren (završen ili otkazan).
+   * Hitni zahtevi se ne mogu zatvoriti bez beleške o incidentu.
+   * @returns Poruka greške ili null ako je zatvaranje dozvoljeno
+   */
+  static validateClosure(priority: string, incidentNote?: string | null): string | null {
+    if (PriorityService.isEmergency(priority) && !incidentNote?.trim()) {
+      return 'Hitan zahtev se ne može zatvoriti bez beleške o incidentu'
+    }
+    return null
+  }
+}
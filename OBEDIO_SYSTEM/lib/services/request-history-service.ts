@@ -0,0 +1,109 @@
+import { PrismaClient } from '@prisma/client'
+
+// Tipovi događaja u životnom ciklusu zahteva
+export const REQUEST_EVENT_TYPES = {
+  CREATED: 'CREATED',
+  DELIVERED: 'DELIVERED',
+  DISPATCHED: 'DISPATCHED',
+  ACCEPTED: 'ACCEPTED',
+  DECLINED: 'DECLINED',
+  TRANSFERRED: 'TRANSFERRED',
+  ESCALATED: 'ESCALATED',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED',
+} as const
+
+export type RequestEventType = (typeof REQUEST_EVENT_TYPES)[keyof typeof REQUEST_EVENT_TYPES]
+
+export interface RecordEventOptions {
+  actorId?: number | null
+  fromUserId?: number | null
+  toUserId?: number | null
+  reason?: string | null
+  metadata?: Record<string, unknown>
+}
+
+export interface RequestHistoryEntry {
+  id: number
+  type: RequestEventType
+  createdAt: string
+  actor: { id: number; name: string } | null
+  fromUser: { id: number; name: string } | null
+  toUser: { id: number; name: string } | null
+  reason: string | null
+  metadata: Record<string, unknown> | null
+}
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis za vođenje istorije zahteva
+ */
+export class RequestHistoryService {
+  /**
+   * Beleži događaj na zahtevu.
+   * Greška pri upisu istorije se loguje, ali ne prekida glavnu akciju.
+   */
+  static async record(requestId: number, type: RequestEventType, options: RecordEventOptions = {}) {
+    try {
+      return await prisma.requestEvent.create({
+        data: {
+          requestId,
+          type,
+          actorId: options.actorId ?? null,
+          fromUserId: options.fromUserId ?? null,
+          toUserId: options.toUserId ?? null,
+          reason: options.reason || null,
+          metadata: options.metadata ? JSON.stringify(options.metadata) : null,
+        }
+      })
+    } catch (error) {
+      console.error(`Greška pri upisu događaja ${type} za zahtev ${requestId}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Vraća hronološku istoriju zahteva sa imenima korisnika
+   */
+  static async getHistory(requestId: number): Promise<RequestHistoryEntry[]> {
+    try {
+      const events = await prisma.requestEvent.findMany({
+        where: { requestId },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      })
+
+      // Jednim upitom dohvatamo sve korisnike koji se pojavljuju u istoriji
+      const userIds = new Set<number>()
+      for (const event of events) {
+        if (event.actorId) userIds.add(event.actorId)
+        if (event.fromUserId) userIds.add(event.fromUserId)
+        if (event.toUserId) userIds.add(event.toUserId)
+      }
+
+      const users = userIds.size > 0
+        ? await prisma.user.findMany({
+            where: { id: { in: Array.from(userIds) } },
+            select: { id: true, name: true }
+          })
+        : []
+      const usersById = new Map(users.map(user => [user.id, user]))
+      const lookup = (id: number | null) => (id ? usersById.get(id) || null : null)
+
+      return events.map(event => ({
+        id: event.id,
+        type: event.type as RequestEventType,
+        createdAt: event.createdAt.toISOString(),
+        actor: lookup(event.actorId),
+        fromUser: lookup(event.fromUserId),
+        toUser: lookup(event.toUserId),
+        reason: event.reason,
+        metadata: event.metadata ? JSON.parse(event.metadata) : null,
+      }))
+    } catch (error) {
+      console.error('Greška pri dohvatanju istorije zahteva:', error)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,459 @@
+import { PrismaClient } from '@prisma/client'
+import { format } from 'date-fns'
+import { MLC_MIN_REST_24H, MLC_MIN_REST_7D } from '@/utils/conflict-detection'
+import { PdfDocument } from '@/lib/pdf'
+
+export type RestNonconformityType = 'rest_24h' | 'rest_7d' | 'rest_periods'
+
+export interface RestNonconformity {
+  type: RestNonconformityType
+  message: string
+}
+
+export interface RestDay {
+  // YYYY-MM-DD, vreme broda
+  date: string
+  // Periodi rada u danu, u minutama od ponoći
+  work: { from: number; to: number }[]
+  workHours: number
+  restHours: number
+  // Najmanje odmora u bilo kojih 24 sata / 7 dana koji se završavaju tog dana
+  minRest24h: number
+  minRest7d: number
+  nonconformities: RestNonconformity[]
+}
+
+export interface VesselInfo {
+  name: string
+  imoNumber: string
+  flag: string
+}
+
+export interface RestSheet {
+  userId: number
+  name: string
+  position: string
+  department: string | null
+  month: string
+  vessel: VesselInfo
+  days: RestDay[]
+  totals: { workHours: number; restHours: number; nonconformities: number }
+}
+
+export interface RestSignature {
+  crewSignedAt: string | null
+  masterSignedAt: string | null
+  masterSignedBy: string | null
+}
+
+export interface RestRecordView {
+  // Potpisana tabela je snimak u trenutku potpisa posade; inače se računa iz smena
+  sheet: RestSheet
+  signature: RestSignature
+  // Smene su promenjene posle potpisa - posada treba ponovo da potpiše
+  changedSinceSigned: boolean
+}
+
+export interface RestCrewMember {
+  id: number
+  name: string
+  role: string
+  department: string | null
+}
+
+export interface WorkPeriod {
+  startsAt: Date
+  endsAt: Date
+}
+
+export const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+const MINUTE_MS = 60 * 1000
+const DAY_MINUTES = 24 * 60
+const WEEK_MINUTES = 7 * DAY_MINUTES
+// Odmor se deli na najviše dva perioda, od kojih jedan traje bar 6 sati (MLC A2.3.6)
+const MIN_REST_PERIOD_HOURS = 6
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+const round = (hours: number) => Math.round(hours * 10) / 10
+
+const vessel = (): VesselInfo => ({
+  name: process.env.VESSEL_NAME || '',
+  imoNumber: process.env.VESSEL_IMO_NUMBER || '',
+  flag: process.env.VESSEL_FLAG || '',
+})
+
+/**
+ * Servis za mesečnu evidenciju sati rada i odmora posade (MLC 2006 / STCW)
+ */
+export class RestHoursService {
+  static monthRange(month: string) {
+    const [year, monthNumber] = month.split('-').map(part => parseInt(part, 10))
+    return { start: new Date(year, monthNumber - 1, 1), end: new Date(year, monthNumber, 1) }
+  }
+
+  static currentMonth(now: Date = new Date()): string {
+    return format(now, 'yyyy-MM')
+  }
+
+  /**
+   * Računa mesečnu tabelu iz odrađenih smena; smene do 7 dana pre meseca ulaze u proveru odmora
+   */
+  static buildSheet(member: RestCrewMember, month: string, periods: WorkPeriod[], info: VesselInfo = vessel()): RestSheet {
+    const { start, end } = RestHoursService.monthRange(month)
+    const origin = start.getTime() - WEEK_MINUTES * MINUTE_MS
+    const index = (date: Date) => Math.round((date.getTime() - origin) / MINUTE_MS)
+    const length = index(end)
+
+    // Minut po minut: 1 = rad
+    const work = new Uint8Array(length)
+    for (const period of periods) {
+      const from = Math.max(0, Math.floor((period.startsAt.getTime() - origin) / MINUTE_MS))
+      const to = Math.min(length, Math.ceil((period.endsAt.getTime() - origin) / MINUTE_MS))
+      work.fill(1, from, Math.max(from, to))
+    }
+
+    const sums = new Int32Array(length + 1)
+    const boundaries: number[] = []
+    for (let i = 0; i < length; i++) {
+      sums[i + 1] = sums[i] + work[i]
+      if (i > 0 && work[i] !== work[i - 1]) {
+        boundaries.push(i)
+      }
+    }
+    const worked = (from: number, to: number) => sums[to] - sums[from]
+
+    // Dva najduža perioda odmora u 24 sata pre kraja; kraći prekidi ne ulaze u minimum.
+    // Prozor sa manje od 10 sati odmora je već prijavljen kao rest_24h
+    const restSplitOk = (windowEnd: number) => {
+      if (DAY_MINUTES - worked(windowEnd - DAY_MINUTES, windowEnd) < MLC_MIN_REST_24H * 60) {
+        return true
+      }
+      const rests: number[] = []
+      let run = 0
+      for (let i = windowEnd - DAY_MINUTES; i < windowEnd; i++) {
+        if (work[i] === 0) {
+          run++
+        } else if (run > 0) {
+          rests.push(run)
+          run = 0
+        }
+      }
+      if (run > 0) {
+        rests.push(run)
+      }
+      const [longest = 0, second = 0] = rests.sort((a, b) => b - a)
+      return longest >= MIN_REST_PERIOD_HOURS * 60 && longest + second >= MLC_MIN_REST_24H * 60
+    }
+
+    const days: RestDay[] = []
+    for (let date = new Date(start); date < end; date.setDate(date.getDate() + 1)) {
+      const next = new Date(date)
+      next.setDate(next.getDate() + 1)
+      const dayStart = index(date)
+      const dayEnd = index(next)
+
+      const intervals: { from: number; to: number }[] = []
+      for (let i = dayStart; i < dayEnd; i++) {
+        if (work[i] === 1 && (i === dayStart || work[i - 1] === 0)) {
+          intervals.push({ from: i - dayStart, to: i - dayStart + 1 })
+        } else if (work[i] === 1) {
+          intervals[intervals.length - 1].to = i - dayStart + 1
+        }
+      }
+
+      // Najmanje odmora ima prozor koji se završava krajem rada, pa se manjak beleži
+      // na dan kada je rad završen, a ne i narednog dana
+      let minRest24h = DAY_MINUTES - worked(dayEnd - DAY_MINUTES, dayEnd)
+      let minRest7d = WEEK_MINUTES - worked(dayEnd - WEEK_MINUTES, dayEnd)
+      for (const interval of intervals) {
+        const windowEnd = dayStart + interval.to
+        minRest24h = Math.min(minRest24h, DAY_MINUTES - worked(windowEnd - DAY_MINUTES, windowEnd))
+        minRest7d = Math.min(minRest7d, WEEK_MINUTES - worked(windowEnd - WEEK_MINUTES, windowEnd))
+      }
+
+      const nonconformities: RestNonconformity[] = []
+      if (minRest24h < MLC_MIN_REST_24H * 60) {
+        nonconformities.push({
+          type: 'rest_24h',
+          message: `Only ${round(minRest24h / 60)}h rest in a 24-hour period (minimum ${MLC_MIN_REST_24H}h)`
+        })
+      } else {
+        // Raspodela odmora se menja samo na granicama rada, pa su dovoljni ti krajevi prozora
+        const windowEnds = [dayEnd, ...boundaries, ...boundaries.map(boundary => boundary + DAY_MINUTES)]
+          .filter(windowEnd => windowEnd > dayStart && windowEnd <= dayEnd)
+        if (!windowEnds.every(restSplitOk)) {
+          nonconformities.push({
+            type: 'rest_periods',
+            message: `Rest divided into more than two periods or none of at least ${MIN_REST_PERIOD_HOURS}h`
+          })
+        }
+      }
+      if (minRest7d < MLC_MIN_REST_7D * 60) {
+        nonconformities.push({
+          type: 'rest_7d',
+          message: `Only ${round(minRest7d / 60)}h rest in a 7-day period (minimum ${MLC_MIN_REST_7D}h)`
+        })
+      }
+
+      const workHours = round(worked(dayStart, dayEnd) / 60)
+      days.push({
+        date: format(date, 'yyyy-MM-dd'),
+        work: intervals,
+        workHours,
+        restHours: round((dayEnd - dayStart) / 60 - workHours),
+        minRest24h: round(minRest24h / 60),
+        minRest7d: round(minRest7d / 60),
+        nonconformities,
+      })
+    }
+
+    return {
+      userId: member.id,
+      name: member.name,
+      position: member.role,
+      department: member.department,
+      month,
+      vessel: info,
+      days,
+      totals: {
+        workHours: round(days.reduce((sum, day) => sum + day.workHours, 0)),
+        restHours: round(days.reduce((sum, day) => sum + day.restHours, 0)),
+        nonconformities: days.filter(day => day.nonconformities.length > 0).length,
+      },
+    }
+  }
+
+  private static async load(userId: number, month: string) {
+    const { start, end } = RestHoursService.monthRange(month)
+
+    const [member, shifts, record] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, name: true, role: true, department: true }
+      }),
+      prisma.shift.findMany({
+        where: {
+          userId,
+          completed: true,
+          startsAt: { lt: end },
+          endsAt: { gt: new Date(start.getTime() - WEEK_MINUTES * MINUTE_MS) }
+        },
+        select: { startsAt: true, endsAt: true }
+      }),
+      prisma.restRecord.findUnique({ where: { userId_month: { userId, month } } }),
+    ])
+
+    return member ? { live: RestHoursService.buildSheet(member, month, shifts), record } : null
+  }
+
+  /**
+   * Mesečna tabela sa potpisima; null ako član posade ne postoji
+   */
+  static async getRecord(userId: number, month: string): Promise<RestRecordView | null> {
+    try {
+      const loaded = await RestHoursService.load(userId, month)
+      if (!loaded) {
+        return null
+      }
+
+      const { live, record } = loaded
+      const signed: RestSheet | null = record?.crewSignedAt && record.sheet ? JSON.parse(record.sheet) : null
+      const master = record?.masterSignedById
+        ? await prisma.user.findUnique({ where: { id: record.masterSignedById }, select: { name: true } })
+        : null
+
+      return {
+        sheet: signed ?? live,
+        signature: {
+          crewSignedAt: record?.crewSignedAt?.toISOString() ?? null,
+          masterSignedAt: record?.masterSignedAt?.toISOString() ?? null,
+          masterSignedBy: master?.name ?? null,
+        },
+        changedSinceSigned: signed !== null && JSON.stringify(signed.days) !== JSON.stringify(live.days),
+      }
+    } catch (error) {
+      console.error('Greška pri učitavanju evidencije odmora:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Potpis posade čuva trenutnu tabelu; ponovni potpis poništava potpis zapovednika
+   */
+  static async sign(userId: number, month: string, now: Date = new Date()): Promise<RestRecordView | null> {
+    try {
+      const loaded = await RestHoursService.load(userId, month)
+      if (!loaded) {
+        return null
+      }
+
+      const sheet = JSON.stringify(loaded.live)
+      await prisma.restRecord.upsert({
+        where: { userId_month: { userId, month } },
+        create: { userId, month, sheet, crewSignedAt: now },
+        update: { sheet, crewSignedAt: now, masterSignedAt: null, masterSignedById: null }
+      })
+
+      console.log(`Evidencija odmora ${month} potpisana (član posade ${userId})`)
+      return {
+        sheet: loaded.live,
+        signature: { crewSignedAt: now.toISOString(), masterSignedAt: null, masterSignedBy: null },
+        changedSinceSigned: false,
+      }
+    } catch (error) {
+      console.error('Greška pri potpisivanju evidencije odmora:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Supotpis zapovednika na tabelu koju je posada već potpisala
+   */
+  static async countersign(userId: number, month: string, masterId: number, now: Date = new Date()) {
+    try {
+      await prisma.restRecord.update({
+        where: { userId_month: { userId, month } },
+        data: { masterSignedAt: now, masterSignedById: masterId }
+      })
+
+      console.log(`Evidencija odmora ${month} člana posade ${userId} supotpisana`)
+      return RestHoursService.getRecord(userId, month)
+    } catch (error) {
+      console.error('Greška pri supotpisivanju evidencije odmora:', error)
+      throw error
+    }
+  }
+
+  // Rad po polučasovima, kao u tabeli ILO/IMO (X = rad u bar delu polučasa)
+  static halfHourSlots(day: RestDay): boolean[] {
+    return Array.from({ length: 48 }, (_, slot) =>
+      day.work.some(interval => interval.from < (slot + 1) * 30 && interval.to > slot * 30))
+  }
+
+  static toCsv(view: RestRecordView): string {
+    const { sheet, signature } = view
+
+    const escape = (value: string | number | null) => {
+      if (value === null) return ''
+      const text = String(value)
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }
+
+    const slots = Array.from({ length: 48 }, (_, slot) =>
+      `${String(Math.floor(slot / 2)).padStart(2, '0')}:${slot % 2 === 0 ? '00' : '30'}`)
+
+    const lines = [
+      ['Name of ship', sheet.vessel.name],
+      ['IMO number', sheet.vessel.imoNumber],
+      ['Flag of ship', sheet.vessel.flag],
+      ['Seafarer', sheet.name],
+      ['Position/rank', sheet.position],
+      ['Month', sheet.month],
+      [],
+      ['Date', ...slots, 'Hours of work', 'Hours of rest in 24-hour period', 'Minimum rest in any 24 hours', 'Minimum rest in any 7 days', 'Comments'],
+      ...sheet.days.map(day => [
+        day.date,
+        ...RestHoursService.halfHourSlots(day).map(working => working ? 'X' : ''),
+        day.workHours,
+        day.restHours,
+        day.minRest24h,
+        day.minRest7d,
+        day.nonconformities.map(item => item.message).join('; '),
+      ]),
+      ['Total', ...slots.map(() => ''), sheet.totals.workHours, sheet.totals.restHours],
+      [],
+      ['Seafarer signed', signature.crewSignedAt],
+      ['Master signed', signature.masterSignedAt, signature.masterSignedBy],
+    ]
+
+    return lines.map(line => line.map(escape).join(',')).join('\n') + '\n'
+  }
+
+  /**
+   * PDF u rasporedu tabele ILO/IMO (A4 položeno): 48 polučasova po danu i kolone odmora
+   */
+  static toPdf(view: RestRecordView): Buffer {
+    const { sheet, signature } = view
+    const pdf = new PdfDocument()
+    const left = 30
+    const cell = 11
+    const gridLeft = left + 24
+    const columns = [gridLeft + 48 * cell, gridLeft + 48 * cell + 32, gridLeft + 48 * cell + 72, gridLeft + 48 * cell + 112]
+    const right = pdf.width - left
+    const rowHeight = 12
+    const top = 96
+    const signedAt = (value: string | null) => value ? format(new Date(value), 'dd.MM.yyyy HH:mm') : ''
+
+    pdf.text(pdf.width / 2, 24, 'RECORD OF HOURS OF REST', { size: 12, bold: true, align: 'center' })
+    pdf.text(pdf.width / 2, 40, 'Maritime Labour Convention, 2006 and STCW Convention', { size: 7, align: 'center' })
+    pdf.text(left, 56, `Name of ship: ${sheet.vessel.name}`, { size: 8 })
+    pdf.text(left + 260, 56, `IMO number: ${sheet.vessel.imoNumber}`, { size: 8 })
+    pdf.text(left + 440, 56, `Flag of ship: ${sheet.vessel.flag}`, { size: 8 })
+    pdf.text(left, 70, `Seafarer: ${sheet.name}`, { size: 8 })
+    pdf.text(left + 260, 70, `Position/rank: ${sheet.position}`, { size: 8 })
+    pdf.text(left + 440, 70, `Month and year: ${format(RestHoursService.monthRange(sheet.month).start, 'MMMM yyyy')}`, { size: 8 })
+
+    // Zaglavlje tabele
+    const headerHeight = 18
+    pdf.rect(left, top - headerHeight, right - left, headerHeight, 0.9)
+    pdf.text(left + 2, top - 12, 'Date', { size: 6, bold: true })
+    for (let hour = 0; hour < 24; hour++) {
+      pdf.text(gridLeft + hour * 2 * cell + cell, top - 12, String(hour), { size: 5.5, align: 'center' })
+    }
+    pdf.text(columns[0] + 2, top - 15, 'Work', { size: 5.5, bold: true })
+    pdf.text(columns[1] + 2, top - 15, 'Rest 24h', { size: 5.5, bold: true })
+    pdf.text(columns[1] + 2, top - 8, 'period', { size: 5.5 })
+    pdf.text(columns[2] + 2, top - 15, 'Rest any', { size: 5.5, bold: true })
+    pdf.text(columns[2] + 2, top - 8, '7 days', { size: 5.5 })
+    pdf.text(columns[3] + 2, top - 15, 'Comments', { size: 5.5, bold: true })
+
+    sheet.days.forEach((day, row) => {
+      const y = top + row * rowHeight
+      if (day.nonconformities.length > 0) {
+        pdf.rect(left, y, right - left, rowHeight, 0.95)
+      }
+      // Rad se crta u razmeri, bez zaokruživanja na polučas
+      for (const interval of day.work) {
+        pdf.rect(gridLeft + interval.from / 30 * cell, y + 2, (interval.to - interval.from) / 30 * cell, rowHeight - 4, 0.35)
+      }
+      pdf.text(left + 2, y + 3, day.date.slice(8), { size: 6 })
+      pdf.text(columns[1] - 3, y + 3, String(day.workHours), { size: 6, align: 'right' })
+      pdf.text(columns[2] - 3, y + 3, String(day.restHours), { size: 6, align: 'right' })
+      pdf.text(columns[3] - 3, y + 3, String(day.minRest7d), { size: 6, align: 'right' })
+      const comment = day.nonconformities.map(item => item.type === 'rest_24h'
+        ? `<${MLC_MIN_REST_24H}h in 24h (${day.minRest24h}h)`
+        : item.type === 'rest_7d'
+          ? `<${MLC_MIN_REST_7D}h in 7 days`
+          : 'Rest split').join(', ')
+      pdf.text(columns[3] + 2, y + 3, comment, { size: 5 })
+    })
+
+    // Mreža tabele
+    const bottom = top + sheet.days.length * rowHeight
+    for (let row = 0; row <= sheet.days.length; row++) {
+      pdf.line(left, top + row * rowHeight, right, top + row * rowHeight, 0.3)
+    }
+    pdf.line(left, top - headerHeight, right, top - headerHeight)
+    for (let slot = 0; slot <= 48; slot++) {
+      pdf.line(gridLeft + slot * cell, top - (slot % 2 === 0 ? headerHeight : 4), gridLeft + slot * cell, bottom, slot % 2 === 0 ? 0.4 : 0.15)
+    }
+    for (const x of [left, ...columns, right]) {
+      pdf.line(x, top - headerHeight, x, bottom)
+    }
+
+    pdf.text(left + 2, bottom + 4, `Total hours of work: ${sheet.totals.workHours}   Total hours of rest: ${sheet.totals.restHours}   ` +
+      `Days with non-conformities: ${sheet.totals.nonconformities}`, { size: 7, bold: true })
+
+    const signatureTop = bottom + 32
+    pdf.line(left, signatureTop, left + 240, signatureTop)
+    pdf.text(left, signatureTop + 3, `Signature of seafarer${signature.crewSignedAt ? ` (signed ${signedAt(signature.crewSignedAt)})` : ''}`, { size: 7 })
+    pdf.line(left + 380, signatureTop, left + 620, signatureTop)
+    pdf.text(left + 380, signatureTop + 3, `Signature of master${signature.masterSignedAt ? ` ${signature.masterSignedBy ?? ''} (signed ${signedAt(signature.masterSignedAt)})` : ''}`, { size: 7 })
+    pdf.text(left, signatureTop + 18, 'I agree that this record is an accurate reflection of the hours of rest of the seafarer concerned.', { size: 6 })
+
+    return pdf.toBuffer()
+  }
+}
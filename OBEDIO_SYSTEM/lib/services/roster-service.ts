@@ -0,0 +1,334 @@
+import { PrismaClient } from '@prisma/client'
+import {
+  Assignment,
+  Conflict,
+  detectCrewOverlapConflicts,
+  detectRestHourConflicts
+} from '@/utils/conflict-detection'
+
+// Smena u danu rotacije u lokalnom vremenu ('HH:mm'); kraj pre početka znači sledeći dan
+export interface RotationShift {
+  start: string
+  end: string
+}
+
+export interface RotationTemplate {
+  id: string
+  name: string
+  description: string
+  // Ciklus rotacije po danima; prazan dan je slobodan dan
+  days: RotationShift[][]
+  // Pomeranje smena za svakog sledećeg člana posade (straže), u satima
+  staggerHours?: number
+}
+
+export const ROTATION_TEMPLATES: RotationTemplate[] = [
+  {
+    id: 'two_on_one_off',
+    name: '2-on/1-off',
+    description: 'Two 12-hour day watches, then a day off',
+    days: [
+      [{ start: '07:00', end: '19:00' }],
+      [{ start: '07:00', end: '19:00' }],
+      [],
+    ],
+  },
+  {
+    id: 'split_shift',
+    name: 'Split shift',
+    description: 'Morning and evening service with an afternoon break, one day off a week',
+    days: [
+      ...Array.from({ length: 6 }, () => [{ start: '07:00', end: '11:00' }, { start: '17:00', end: '23:00' }]),
+      [],
+    ],
+  },
+  {
+    id: 'watch_4_on_8_off',
+    name: '4-on/8-off watch',
+    description: 'Two four-hour watches a day, twelve hours apart; each crew member takes the next watch',
+    days: [[{ start: '00:00', end: '04:00' }, { start: '12:00', end: '16:00' }]],
+    staggerHours: 4,
+  },
+  {
+    id: 'day_work',
+    name: 'Day work',
+    description: 'Nine hours a day, five days a week',
+    days: [
+      ...Array.from({ length: 5 }, () => [{ start: '08:00', end: '17:00' }]),
+      [],
+      [],
+    ],
+  },
+]
+
+export interface RosterPosition {
+  laneId: string
+  templateId: string
+  // Broj članova posade koji se smenjuju na poziciji
+  crew: number
+  department?: string
+  // Član posade mora imati sve navedene veštine
+  skills?: string[]
+}
+
+export interface RosterInput {
+  name?: string
+  startDate: Date
+  weeks: number
+  positions: RosterPosition[]
+  // Brišu se nezavršene smene izabrane posade od početka rasporeda
+  replaceExisting?: boolean
+}
+
+export interface RosterCrew {
+  id: number
+  name: string
+  department: string | null
+  skills: string | null
+  onLeave: boolean
+  workloadHours: number | null
+}
+
+export interface ExistingShift {
+  id: number
+  userId: number
+  laneId: string | null
+  startsAt: Date
+  endsAt: Date
+  completed: boolean
+}
+
+export interface PlannedShift {
+  userId: number
+  name: string
+  laneId: string
+  startsAt: Date
+  endsAt: Date
+}
+
+export interface UnfilledPosition {
+  laneId: string
+  requested: number
+  assigned: number
+}
+
+export interface RosterPlan {
+  startsAt: Date
+  endsAt: Date
+  shifts: PlannedShift[]
+  unfilled: UnfilledPosition[]
+  replacedShiftIds: number[]
+  conflicts: Conflict[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Smene pre početka rasporeda koje ulaze u proveru odmora (prozor od 7 dana)
+const REST_LOOKBACK_MS = 7 * DAY_MS
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10))
+  return hours * 60 + minutes
+}
+
+/**
+ * Servis za generisanje rasporeda dežurstava iz šablona rotacije uz proveru odmora po MLC 2006
+ */
+export class RosterService {
+  static getTemplate(templateId: string): RotationTemplate | undefined {
+    return ROTATION_TEMPLATES.find(template => template.id === templateId)
+  }
+
+  static parseSkills(raw: string | null): string[] {
+    if (!raw) {
+      return []
+    }
+    try {
+      const skills = JSON.parse(raw)
+      return Array.isArray(skills) ? skills.map(skill => String(skill).toLowerCase()) : []
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * Da li član posade može da pokriva poziciju (nije na odsustvu, odeljenje i veštine)
+   */
+  static isEligible(member: RosterCrew, position: RosterPosition): boolean {
+    if (member.onLeave) {
+      return false
+    }
+    if (position.department && member.department?.toLowerCase() !== position.department.toLowerCase()) {
+      return false
+    }
+    const skills = RosterService.parseSkills(member.skills)
+    return (position.skills ?? []).every(skill => skills.includes(skill.toLowerCase()))
+  }
+
+  /**
+   * Smene jednog člana posade za ceo raspored; dayOffset pomera ciklus da se posada smenjuje
+   */
+  static expand(template: RotationTemplate, start: Date, days: number, dayOffset: number, hourOffset: number) {
+    const shifts: { startsAt: Date; endsAt: Date }[] = []
+
+    for (let day = 0; day < days; day++) {
+      const date = new Date(start)
+      date.setDate(date.getDate() + day)
+
+      for (const shift of template.days[(day + dayOffset) % template.days.length]) {
+        const startMinutes = toMinutes(shift.start) + hourOffset * 60
+        let endMinutes = toMinutes(shift.end) + hourOffset * 60
+        if (endMinutes <= startMinutes) {
+          endMinutes += 24 * 60
+        }
+
+        const startsAt = new Date(date)
+        startsAt.setMinutes(startMinutes)
+        const endsAt = new Date(date)
+        endsAt.setMinutes(endMinutes)
+        shifts.push({ startsAt, endsAt })
+      }
+    }
+
+    return shifts
+  }
+
+  /**
+   * Sklapa raspored i proverava ga zajedno sa postojećim smenama posade
+   */
+  static build(input: RosterInput, crew: RosterCrew[], existing: ExistingShift[]): RosterPlan {
+    const startsAt = new Date(input.startDate)
+    startsAt.setHours(0, 0, 0, 0)
+    const days = input.weeks * 7
+    const endsAt = new Date(startsAt)
+    endsAt.setDate(endsAt.getDate() + days)
+
+    const used = new Set<number>()
+    const shifts: PlannedShift[] = []
+    const unfilled: UnfilledPosition[] = []
+
+    for (const position of input.positions) {
+      const template = RosterService.getTemplate(position.templateId)
+      if (!template) {
+        throw new Error(`Nepoznat šablon rotacije: ${position.templateId}`)
+      }
+
+      // Prednost imaju članovi posade sa najmanje sati rada
+      const chosen = crew
+        .filter(member => !used.has(member.id) && RosterService.isEligible(member, position))
+        .sort((a, b) => (a.workloadHours ?? 0) - (b.workloadHours ?? 0) || a.name.localeCompare(b.name))
+        .slice(0, position.crew)
+
+      if (chosen.length < position.crew) {
+        unfilled.push({ laneId: position.laneId, requested: position.crew, assigned: chosen.length })
+      }
+
+      chosen.forEach((member, index) => {
+        used.add(member.id)
+        const dayOffset = Math.floor(index * template.days.length / position.crew) % template.days.length
+        const hourOffset = ((template.staggerHours ?? 0) * index) % 24
+
+        for (const shift of RosterService.expand(template, startsAt, days, dayOffset, hourOffset)) {
+          shifts.push({ userId: member.id, name: member.name, laneId: position.laneId, ...shift })
+        }
+      })
+    }
+
+    const replacedShiftIds = input.replaceExisting
+      ? existing
+        .filter(shift => used.has(shift.userId) && !shift.completed && shift.startsAt >= startsAt)
+        .map(shift => shift.id)
+      : []
+
+    const names = new Map(crew.map(member => [member.id, member.name]))
+    const assignments: Assignment[] = [
+      ...shifts.map((shift, index) => ({
+        id: `planned-${index}`,
+        crewId: String(shift.userId),
+        laneId: shift.laneId,
+        start: shift.startsAt.toISOString(),
+        end: shift.endsAt.toISOString(),
+        status: 'duty' as const,
+        name: shift.name,
+      })),
+      ...existing
+        .filter(shift => used.has(shift.userId) && !replacedShiftIds.includes(shift.id))
+        .map(shift => ({
+          id: String(shift.id),
+          crewId: String(shift.userId),
+          laneId: shift.laneId ?? '',
+          start: shift.startsAt.toISOString(),
+          end: shift.endsAt.toISOString(),
+          status: 'duty' as const,
+          name: names.get(shift.userId),
+        })),
+    ]
+
+    // Prijavljuju se samo konflikti u kojima učestvuje nova smena
+    const conflicts = [
+      ...detectCrewOverlapConflicts(assignments),
+      ...detectRestHourConflicts(assignments),
+    ].filter(conflict => conflict.affectedItems.assignments?.some(id => id.startsWith('planned-')))
+
+    return { startsAt, endsAt, shifts, unfilled, replacedShiftIds, conflicts }
+  }
+
+  /**
+   * Generiše raspored; bez dryRun i bez konflikata (ili uz force) čuva ga kao Shift redove
+   */
+  static async generate(
+    input: RosterInput,
+    options: { dryRun?: boolean; force?: boolean; createdById?: number } = {}
+  ) {
+    try {
+      const from = new Date(input.startDate)
+      from.setHours(0, 0, 0, 0)
+      const to = new Date(from.getTime() + (input.weeks * 7 + 1) * DAY_MS)
+
+      const [crew, existing] = await Promise.all([
+        prisma.user.findMany({
+          select: { id: true, name: true, department: true, skills: true, onLeave: true, workloadHours: true }
+        }),
+        prisma.shift.findMany({
+          where: { startsAt: { lt: to }, endsAt: { gt: new Date(from.getTime() - REST_LOOKBACK_MS) } },
+          select: { id: true, userId: true, laneId: true, startsAt: true, endsAt: true, completed: true }
+        }),
+      ])
+
+      const plan = RosterService.build(input, crew, existing)
+
+      if (options.dryRun || (plan.conflicts.length > 0 && !options.force)) {
+        return { saved: false, rosterId: null, ...plan }
+      }
+
+      const [, roster] = await prisma.$transaction([
+        prisma.shift.deleteMany({ where: { id: { in: plan.replacedShiftIds } } }),
+        prisma.roster.create({
+          data: {
+            name: input.name || `Roster ${plan.startsAt.toISOString().slice(0, 10)}`,
+            startsAt: plan.startsAt,
+            endsAt: plan.endsAt,
+            positions: JSON.stringify(input.positions),
+            createdById: options.createdById ?? null,
+            shifts: {
+              create: plan.shifts.map(shift => ({
+                userId: shift.userId,
+                laneId: shift.laneId,
+                startsAt: shift.startsAt,
+                endsAt: shift.endsAt,
+              }))
+            }
+          }
+        }),
+      ])
+
+      console.log(`Raspored ${roster.id} sačuvan: ${plan.shifts.length} smena`)
+      return { saved: true, rosterId: roster.id, ...plan }
+    } catch (error) {
+      console.error('Greška pri generisanju rasporeda:', error)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { PrismaClient } from '@prisma/client'
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis za podešavanja sistema koja se menjaju iz aplikacije (server settings).
+ * Vrednost se čuva kao JSON; polja koja nedostaju uzimaju se iz podrazumevanih vrednosti.
+ */
+export class SettingsService {
+  static async get<T extends object>(key: string, defaults: T): Promise<T> {
+    try {
+      const setting = await prisma.systemSetting.findUnique({ where: { key } })
+      if (!setting) {
+        return defaults
+      }
+
+      return { ...defaults, ...JSON.parse(setting.value) }
+    } catch (error) {
+      console.error(`Greška pri čitanju podešavanja ${key}:`, error)
+      return defaults
+    }
+  }
+
+  static async save<T extends object>(key: string, value: T, userId?: number | null): Promise<T> {
+    try {
+      const json = JSON.stringify(value)
+      await prisma.systemSetting.upsert({
+        where: { key },
+        create: { key, value: json, updatedBy: userId ?? null },
+        update: { value: json, updatedBy: userId ?? null }
+      })
+      return value
+    } catch (error) {
+      console.error(`Greška pri čuvanju podešavanja ${key}:`, error)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,667 @@
+import { PrismaClient } from '@prisma/client'
+import { format } from 'date-fns'
+import { emitter, SSE_EVENTS, ShiftRequestEvent } from '@/lib/sseEmitter'
+import { WatchService } from '@/lib/services/watch-service'
+import { can, resolveRole } from '@/lib/permissions'
+import { Assignment, Conflict, detectAllConflicts } from '@/utils/conflict-detection'
+
+export const SHIFT_REQUEST_TYPES = ['swap', 'leave'] as const
+
+export type ShiftRequestType = (typeof SHIFT_REQUEST_TYPES)[number]
+
+export const SHIFT_REQUEST_STATUSES = {
+  PENDING_COLLEAGUE: 'pending_colleague',
+  PENDING_APPROVAL: 'pending_approval',
+  APPROVED: 'approved',
+  DECLINED: 'declined',
+  REJECTED: 'rejected',
+  CANCELLED: 'cancelled',
+} as const
+
+export type ShiftRequestStatus = (typeof SHIFT_REQUEST_STATUSES)[keyof typeof SHIFT_REQUEST_STATUSES]
+
+export type ShiftRequestInput =
+  | { type: 'swap'; shiftId: number; colleagueId: number; colleagueShiftId?: number; reason?: string }
+  | { type: 'leave'; startsAt: Date; endsAt: Date; reason?: string }
+
+export interface ShiftRow {
+  id: number
+  userId: number
+  laneId: string | null
+  startsAt: Date
+  endsAt: Date
+  completed: boolean
+}
+
+export interface SwapProposal {
+  requesterId: number
+  colleagueId: number
+  shiftId: number
+  colleagueShiftId: number | null
+}
+
+export interface DepartmentMember {
+  role: string
+  accessRole?: string | null
+  department: string | null
+}
+
+type ShiftChangeRequestRow = {
+  id: number
+  type: string
+  status: string
+  requesterId: number
+  shiftId: number | null
+  colleagueId: number | null
+  colleagueShiftId: number | null
+  startsAt: Date | null
+  endsAt: Date | null
+  reason: string | null
+  conflicts: string | null
+  colleagueRespondedAt: Date | null
+  decidedById: number | null
+  decidedAt: Date | null
+  decisionNote: string | null
+  createdAt: Date
+  requester: { id: number; name: string; department: string | null }
+  colleague: { id: number; name: string } | null
+  shift: ShiftRow | null
+  colleagueShift: ShiftRow | null
+}
+
+export type ShiftRequestView = Omit<ShiftChangeRequestRow, 'conflicts'> & {
+  conflicts: Conflict[]
+}
+
+// Ishod odluke šefa odeljenja
+export type ShiftRequestDecision =
+  | { outcome: 'stale' }
+  | { outcome: 'conflicts'; conflicts: Conflict[] }
+  | { outcome: 'decided'; request: ShiftRequestView }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Smene oko zamene koje ulaze u proveru odmora (prozor od 7 dana)
+const REST_LOOKBACK_MS = 7 * DAY_MS
+const SWEEP_INTERVAL_MS = parseInt(process.env.SHIFT_REQUEST_SWEEP_INTERVAL_MS || '15000', 10)
+
+const PENDING_STATUSES: string[] = [SHIFT_REQUEST_STATUSES.PENDING_COLLEAGUE, SHIFT_REQUEST_STATUSES.PENDING_APPROVAL]
+
+// Pozicije iz User.role koje vode odeljenje; uloga (npr. engineer, deckhand) nema shifts:write
+const HEAD_POSITIONS = /chief|head of|bosun|purser/i
+
+const REQUEST_INCLUDE = {
+  requester: { select: { id: true, name: true, department: true } },
+  colleague: { select: { id: true, name: true } },
+  shift: true,
+  colleagueShift: true,
+} as const
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+const formatShift = (shift: { startsAt: Date; endsAt: Date } | null) =>
+  shift ? `${format(shift.startsAt, 'MMM d HH:mm')}–${format(shift.endsAt, 'HH:mm')}` : 'a shift'
+
+/**
+ * Servis za zamenu smena i odsustvo: predlog posade, prihvatanje kolege i odobrenje šefa odeljenja
+ */
+export class ShiftRequestService {
+  private static timer: NodeJS.Timeout | null = null
+
+  /**
+   * Pokreće slanje obaveštenja na satove i uključivanje odsustva (u mqttBridge procesu)
+   */
+  static start(intervalMs: number = SWEEP_INTERVAL_MS) {
+    if (ShiftRequestService.timer) {
+      return
+    }
+
+    const sweep = () => {
+      ShiftRequestService.sweep().catch(error => {
+        console.error('Greška pri obradi zahteva za smene:', error)
+      })
+    }
+    ShiftRequestService.timer = setInterval(sweep, intervalMs)
+    sweep()
+    console.log('Obrada zahteva za zamenu smena i odsustvo pokrenuta')
+  }
+
+  static stop() {
+    if (ShiftRequestService.timer) {
+      clearInterval(ShiftRequestService.timer)
+      ShiftRequestService.timer = null
+    }
+  }
+
+  static async sweep(now: Date = new Date()) {
+    await ShiftRequestService.deliverPending()
+    await ShiftRequestService.applyLeave(now)
+  }
+
+  /**
+   * Šef odeljenja pripada odeljenju i sme da menja smene (shifts:write) ili ima poziciju šefa
+   * (npr. Chief Engineer, Bosun) bez obzira na ulogu; zapovednik odobrava za ceo brod
+   */
+  static isHeadOfDepartment(user: DepartmentMember, department: string | null): boolean {
+    const role = resolveRole(user)
+    if (!role || role === 'management') {
+      return false
+    }
+    if (role === 'admin' || role === 'captain') {
+      return true
+    }
+    if (!department || user.department?.toLowerCase() !== department.toLowerCase()) {
+      return false
+    }
+    return can(role, 'shifts:write') || HEAD_POSITIONS.test(user.role)
+  }
+
+  /**
+   * Ko odobrava zahteve odeljenja: šefovi tog odeljenja, a ako ih nema, zapovednik
+   */
+  static async headsOfDepartment(department: string | null): Promise<number[]> {
+    const users = await prisma.user.findMany({
+      where: { onLeave: false },
+      select: { id: true, role: true, accessRole: true, department: true }
+    })
+
+    const heads = users.filter(user => ShiftRequestService.isHeadOfDepartment(user, department))
+    const own = heads.filter(user => !!department && user.department?.toLowerCase() === department.toLowerCase())
+    return (own.length > 0 ? own : heads).map(user => user.id)
+  }
+
+  /**
+   * Konflikti posle zamene; prijavljuju se samo oni u kojima učestvuje zamenjena smena
+   */
+  static swapConflicts(shifts: ShiftRow[], swap: SwapProposal, names: Map<number, string>): Conflict[] {
+    const owners = new Map<number, number>([[swap.shiftId, swap.colleagueId]])
+    if (swap.colleagueShiftId !== null) {
+      owners.set(swap.colleagueShiftId, swap.requesterId)
+    }
+
+    const assignments: Assignment[] = shifts.map(shift => {
+      const userId = owners.get(shift.id) ?? shift.userId
+      return {
+        id: String(shift.id),
+        crewId: String(userId),
+        laneId: shift.laneId ?? '',
+        start: shift.startsAt.toISOString(),
+        end: shift.endsAt.toISOString(),
+        status: 'duty' as const,
+        name: names.get(userId),
+      }
+    })
+    if (assignments.length === 0) {
+      return []
+    }
+
+    const window = {
+      start: new Date(Math.min(...shifts.map(shift => shift.startsAt.getTime()))).toISOString(),
+      end: new Date(Math.max(...shifts.map(shift => shift.endsAt.getTime()))).toISOString(),
+    }
+
+    // Bez ciljeva popunjenosti pozicija proveravaju se preklapanja i odmor
+    return detectAllConflicts(assignments, [], window)
+      .filter(conflict => conflict.affectedItems.assignments?.some(id => owners.has(Number(id))))
+  }
+
+  /**
+   * Proverava zamenu nad trenutnim smenama oba člana posade; stale ako smene više nisu njihove
+   */
+  static async checkSwap(swap: SwapProposal): Promise<{ stale: boolean; conflicts: Conflict[] }> {
+    const ids = swap.colleagueShiftId !== null ? [swap.shiftId, swap.colleagueShiftId] : [swap.shiftId]
+    const swapped = await prisma.shift.findMany({ where: { id: { in: ids } } })
+
+    const shift = swapped.find(item => item.id === swap.shiftId)
+    const colleagueShift = swapped.find(item => item.id === swap.colleagueShiftId)
+    if (!shift || shift.userId !== swap.requesterId || shift.completed ||
+      (swap.colleagueShiftId !== null && (!colleagueShift || colleagueShift.userId !== swap.colleagueId || colleagueShift.completed))) {
+      return { stale: true, conflicts: [] }
+    }
+
+    const from = new Date(Math.min(...swapped.map(item => item.startsAt.getTime())) - REST_LOOKBACK_MS)
+    const to = new Date(Math.max(...swapped.map(item => item.endsAt.getTime())) + REST_LOOKBACK_MS)
+    const [shifts, users] = await Promise.all([
+      prisma.shift.findMany({
+        where: { userId: { in: [swap.requesterId, swap.colleagueId] }, startsAt: { lt: to }, endsAt: { gt: from } },
+        select: { id: true, userId: true, laneId: true, startsAt: true, endsAt: true, completed: true }
+      }),
+      prisma.user.findMany({
+        where: { id: { in: [swap.requesterId, swap.colleagueId] } },
+        select: { id: true, name: true }
+      }),
+    ])
+
+    const names = new Map(users.map(user => [user.id, user.name]))
+    return { stale: false, conflicts: ShiftRequestService.swapConflicts(shifts, swap, names) }
+  }
+
+  /**
+   * Nezavršene smene člana posade tokom odsustva - oslobađaju se kada se odsustvo odobri
+   */
+  static async leaveShifts(userId: number, startsAt: Date, endsAt: Date) {
+    return prisma.shift.findMany({
+      where: { userId, completed: false, startsAt: { lt: endsAt }, endsAt: { gt: startsAt } },
+      select: { id: true, userId: true, laneId: true, startsAt: true, endsAt: true, completed: true },
+      orderBy: { startsAt: 'asc' }
+    })
+  }
+
+  /**
+   * Proverava predlog pre čuvanja; vraća poruku greške ili null
+   */
+  static async validate(input: ShiftRequestInput, requesterId: number, now: Date = new Date()): Promise<string | null> {
+    if (input.type === 'leave') {
+      if (input.endsAt <= input.startsAt) {
+        return 'Kraj odsustva mora biti posle početka'
+      }
+      if (input.endsAt <= now) {
+        return 'Odsustvo se ne može tražiti za prošli period'
+      }
+      const overlapping = await prisma.shiftChangeRequest.count({
+        where: {
+          requesterId,
+          type: 'leave',
+          status: { in: [...PENDING_STATUSES, SHIFT_REQUEST_STATUSES.APPROVED] },
+          startsAt: { lt: input.endsAt },
+          endsAt: { gt: input.startsAt },
+        }
+      })
+      return overlapping > 0 ? 'Već postoji zahtev za odsustvo u ovom periodu' : null
+    }
+
+    if (input.colleagueId === requesterId) {
+      return 'Smena se ne može zameniti sa samim sobom'
+    }
+
+    const [shift, colleague, colleagueShift, pending] = await Promise.all([
+      prisma.shift.findUnique({ where: { id: input.shiftId } }),
+      prisma.user.findUnique({ where: { id: input.colleagueId }, select: { id: true, onLeave: true } }),
+      input.colleagueShiftId ? prisma.shift.findUnique({ where: { id: input.colleagueShiftId } }) : Promise.resolve(null),
+      prisma.shiftChangeRequest.count({ where: { shiftId: input.shiftId, status: { in: PENDING_STATUSES } } }),
+    ])
+
+    if (!shift || shift.userId !== requesterId) {
+      return 'Smena ne pripada članu posade koji traži zamenu'
+    }
+    if (shift.completed || shift.startsAt <= now) {
+      return 'Zameniti se mogu samo buduće smene'
+    }
+    if (!colleague) {
+      return 'Kolega nije pronađen'
+    }
+    if (colleague.onLeave) {
+      return 'Kolega je na odsustvu'
+    }
+    if (input.colleagueShiftId && (!colleagueShift || colleagueShift.userId !== input.colleagueId ||
+      colleagueShift.completed || colleagueShift.startsAt <= now)) {
+      return 'Smena kolege nije pronađena ili je već počela'
+    }
+    if (pending > 0) {
+      return 'Za ovu smenu već postoji zahtev za zamenu'
+    }
+    return null
+  }
+
+  /**
+   * Čuva predlog: zamena čeka kolegu, odsustvo ide pravo šefu odeljenja
+   */
+  static async propose(input: ShiftRequestInput, requesterId: number): Promise<ShiftRequestView> {
+    try {
+      const conflicts = input.type === 'swap'
+        ? (await ShiftRequestService.checkSwap({
+            requesterId,
+            colleagueId: input.colleagueId,
+            shiftId: input.shiftId,
+            colleagueShiftId: input.colleagueShiftId ?? null,
+          })).conflicts
+        : []
+
+      const request = await prisma.shiftChangeRequest.create({
+        data: input.type === 'swap'
+          ? {
+              type: 'swap',
+              status: SHIFT_REQUEST_STATUSES.PENDING_COLLEAGUE,
+              requesterId,
+              shiftId: input.shiftId,
+              colleagueId: input.colleagueId,
+              colleagueShiftId: input.colleagueShiftId ?? null,
+              reason: input.reason ?? null,
+              conflicts: JSON.stringify(conflicts),
+            }
+          : {
+              type: 'leave',
+              status: SHIFT_REQUEST_STATUSES.PENDING_APPROVAL,
+              requesterId,
+              startsAt: input.startsAt,
+              endsAt: input.endsAt,
+              reason: input.reason ?? null,
+              conflicts: JSON.stringify(conflicts),
+            },
+        include: REQUEST_INCLUDE
+      })
+
+      console.log(`Zahtev za ${request.type === 'swap' ? 'zamenu smene' : 'odsustvo'} ${request.id} od člana posade ${requesterId}`)
+      return await ShiftRequestService.notify(request)
+    } catch (error) {
+      console.error('Greška pri kreiranju zahteva za smenu:', error)
+      throw error
+    }
+  }
+
+  static async get(id: number): Promise<ShiftRequestView | null> {
+    const request = await prisma.shiftChangeRequest.findUnique({ where: { id }, include: REQUEST_INCLUDE })
+    return request ? ShiftRequestService.toView(request) : null
+  }
+
+  /**
+   * Odgovor kolege na predloženu zamenu
+   */
+  static async respond(id: number, accept: boolean, now: Date = new Date()): Promise<ShiftRequestView> {
+    try {
+      const current = await prisma.shiftChangeRequest.findUniqueOrThrow({ where: { id } })
+      const conflicts = accept && current.shiftId !== null && current.colleagueId !== null
+        ? (await ShiftRequestService.checkSwap({
+            requesterId: current.requesterId,
+            colleagueId: current.colleagueId,
+            shiftId: current.shiftId,
+            colleagueShiftId: current.colleagueShiftId,
+          })).conflicts
+        : null
+
+      const request = await prisma.shiftChangeRequest.update({
+        where: { id },
+        data: {
+          status: accept ? SHIFT_REQUEST_STATUSES.PENDING_APPROVAL : SHIFT_REQUEST_STATUSES.DECLINED,
+          colleagueRespondedAt: now,
+          watchNotified: false,
+          ...(conflicts && { conflicts: JSON.stringify(conflicts) }),
+        },
+        include: REQUEST_INCLUDE
+      })
+
+      return await ShiftRequestService.notify(request)
+    } catch (error) {
+      console.error('Greška pri odgovoru na zamenu smene:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Da li član posade sme da odluči o zahtevu (šef odeljenja predlagača, ne za sopstveni zahtev)
+   */
+  static async canDecide(userId: number, request: ShiftRequestView): Promise<boolean> {
+    if (request.requesterId === userId) {
+      return false
+    }
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, accessRole: true, department: true }
+    })
+    return !!user && ShiftRequestService.isHeadOfDepartment(user, request.requester.department)
+  }
+
+  /**
+   * Odluka šefa odeljenja; odobrenje ponovo proverava konflikte i bez force se ne primenjuje uz konflikte
+   */
+  static async decide(
+    id: number,
+    approverId: number,
+    approve: boolean,
+    options: { force?: boolean; note?: string; now?: Date } = {}
+  ): Promise<ShiftRequestDecision> {
+    const now = options.now ?? new Date()
+
+    try {
+      const current = await prisma.shiftChangeRequest.findUniqueOrThrow({ where: { id } })
+      const decided = {
+        decidedById: approverId,
+        decidedAt: now,
+        decisionNote: options.note ?? null,
+        watchNotified: false,
+      }
+
+      if (!approve) {
+        const request = await prisma.shiftChangeRequest.update({
+          where: { id },
+          data: { status: SHIFT_REQUEST_STATUSES.REJECTED, ...decided },
+          include: REQUEST_INCLUDE
+        })
+        return { outcome: 'decided', request: await ShiftRequestService.notify(request) }
+      }
+
+      if (current.type === 'swap' && current.shiftId !== null && current.colleagueId !== null) {
+        const swap = {
+          requesterId: current.requesterId,
+          colleagueId: current.colleagueId,
+          shiftId: current.shiftId,
+          colleagueShiftId: current.colleagueShiftId,
+        }
+        const check = await ShiftRequestService.checkSwap(swap)
+        if (check.stale) {
+          return { outcome: 'stale' }
+        }
+        if (check.conflicts.length > 0 && !options.force) {
+          await prisma.shiftChangeRequest.update({ where: { id }, data: { conflicts: JSON.stringify(check.conflicts) } })
+          return { outcome: 'conflicts', conflicts: check.conflicts }
+        }
+
+        const [, , request] = await prisma.$transaction([
+          prisma.shift.update({ where: { id: swap.shiftId }, data: { userId: swap.colleagueId } }),
+          swap.colleagueShiftId !== null
+            ? prisma.shift.update({ where: { id: swap.colleagueShiftId }, data: { userId: swap.requesterId } })
+            : prisma.shift.findUnique({ where: { id: swap.shiftId } }),
+          prisma.shiftChangeRequest.update({
+            where: { id },
+            data: { status: SHIFT_REQUEST_STATUSES.APPROVED, conflicts: JSON.stringify(check.conflicts), ...decided },
+            include: REQUEST_INCLUDE
+          }),
+        ])
+
+        console.log(`Zamena smene ${swap.shiftId} odobrena (${swap.requesterId} ↔ ${swap.colleagueId})`)
+        return { outcome: 'decided', request: await ShiftRequestService.notify(request) }
+      }
+
+      if (!current.startsAt || !current.endsAt) {
+        return { outcome: 'stale' }
+      }
+
+      // Smene tokom odsustva se oslobađaju da bi se videlo koja pozicija ostaje nepokrivena
+      const released = await ShiftRequestService.leaveShifts(current.requesterId, current.startsAt, current.endsAt)
+      const [, request] = await prisma.$transaction([
+        prisma.shift.deleteMany({ where: { id: { in: released.map(shift => shift.id) } } }),
+        prisma.shiftChangeRequest.update({
+          where: { id },
+          data: { status: SHIFT_REQUEST_STATUSES.APPROVED, ...decided },
+          include: REQUEST_INCLUDE
+        }),
+      ])
+
+      console.log(`Odsustvo ${id} odobreno, oslobođeno smena: ${released.length}`)
+      await ShiftRequestService.applyLeave(now)
+      return { outcome: 'decided', request: await ShiftRequestService.notify(request) }
+    } catch (error) {
+      console.error('Greška pri odlučivanju o zahtevu za smenu:', error)
+      throw error
+    }
+  }
+
+  static async cancel(id: number): Promise<ShiftRequestView> {
+    try {
+      const request = await prisma.shiftChangeRequest.update({
+        where: { id },
+        data: { status: SHIFT_REQUEST_STATUSES.CANCELLED, watchNotified: false },
+        include: REQUEST_INCLUDE
+      })
+      return await ShiftRequestService.notify(request)
+    } catch (error) {
+      console.error('Greška pri otkazivanju zahteva za smenu:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Zahtevi koje član posade vidi: svoji, oni u kojima je kolega i, za šefa odeljenja, zahtevi odeljenja
+   */
+  static async listFor(userId: number) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true, accessRole: true, department: true }
+    })
+    if (!user) {
+      return []
+    }
+
+    const role = resolveRole(user)
+    const own = [{ requesterId: userId }, { colleagueId: userId }]
+    const where = role === 'admin' || role === 'captain'
+      ? {}
+      : user.department && ShiftRequestService.isHeadOfDepartment(user, user.department)
+        ? { OR: [...own, { requester: { department: user.department } }] }
+        : { OR: own }
+
+    const requests = await prisma.shiftChangeRequest.findMany({
+      where,
+      include: REQUEST_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: 100
+    })
+
+    return requests.map(request => {
+      const view = ShiftRequestService.toView(request)
+      const pending = PENDING_STATUSES.includes(request.status)
+      return {
+        ...view,
+        canRespond: request.status === SHIFT_REQUEST_STATUSES.PENDING_COLLEAGUE && request.colleagueId === userId,
+        canDecide: request.status === SHIFT_REQUEST_STATUSES.PENDING_APPROVAL && request.requesterId !== userId &&
+          ShiftRequestService.isHeadOfDepartment(user, request.requester.department),
+        canCancel: pending && request.requesterId === userId,
+      }
+    })
+  }
+
+  /**
+   * Uključuje User.onLeave na početku odobrenog odsustva i isključuje ga na kraju
+   */
+  static async applyLeave(now: Date = new Date()) {
+    const approved = { type: 'leave', status: SHIFT_REQUEST_STATUSES.APPROVED }
+    const [starting, ending] = await Promise.all([
+      prisma.shiftChangeRequest.findMany({
+        where: { ...approved, leaveAppliedAt: null, startsAt: { lte: now }, endsAt: { gt: now } },
+        select: { id: true, requesterId: true }
+      }),
+      prisma.shiftChangeRequest.findMany({
+        where: { ...approved, leaveEndedAt: null, endsAt: { lte: now } },
+        select: { id: true, requesterId: true, leaveAppliedAt: true }
+      }),
+    ])
+
+    for (const leave of starting) {
+      await prisma.$transaction([
+        prisma.user.update({ where: { id: leave.requesterId }, data: { onLeave: true } }),
+        prisma.shiftChangeRequest.update({ where: { id: leave.id }, data: { leaveAppliedAt: now } }),
+      ])
+      console.log(`Član posade ${leave.requesterId} je na odsustvu (zahtev ${leave.id})`)
+    }
+
+    for (const leave of ending) {
+      // Drugo odsustvo koje je u toku zadržava onLeave
+      const ongoing = await prisma.shiftChangeRequest.count({
+        where: { ...approved, requesterId: leave.requesterId, id: { not: leave.id }, startsAt: { lte: now }, endsAt: { gt: now } }
+      })
+      const returns = leave.leaveAppliedAt !== null && ongoing === 0
+
+      await prisma.$transaction([
+        ...(returns ? [prisma.user.update({ where: { id: leave.requesterId }, data: { onLeave: false } })] : []),
+        prisma.shiftChangeRequest.update({ where: { id: leave.id }, data: { leaveEndedAt: now } }),
+      ])
+      if (returns) {
+        console.log(`Član posade ${leave.requesterId} se vratio sa odsustva (zahtev ${leave.id})`)
+      }
+    }
+
+    return { started: starting.length, ended: ending.length }
+  }
+
+  /**
+   * Šalje promene statusa na satove; u API procesu nema MQTT klijenta pa ovo radi mqttBridge
+   */
+  static async deliverPending() {
+    const pending = await prisma.shiftChangeRequest.findMany({
+      where: { watchNotified: false },
+      include: REQUEST_INCLUDE,
+      orderBy: { updatedAt: 'asc' }
+    })
+
+    for (const request of pending) {
+      const recipients = await ShiftRequestService.recipientsFor(request)
+      await WatchService.notifyUsers(recipients, {
+        type: 'shift_request',
+        shiftRequestId: request.id,
+        status: request.status,
+        message: ShiftRequestService.describe(request),
+      })
+      await prisma.shiftChangeRequest.update({ where: { id: request.id }, data: { watchNotified: true } })
+    }
+  }
+
+  /**
+   * Kome se javlja promena: kolegi predlog, šefu odeljenja zahtev za odobrenje, predlagaču i kolegi odluka
+   */
+  static async recipientsFor(request: ShiftChangeRequestRow): Promise<number[]> {
+    switch (request.status) {
+      case SHIFT_REQUEST_STATUSES.PENDING_COLLEAGUE:
+      case SHIFT_REQUEST_STATUSES.CANCELLED:
+        return request.colleagueId !== null ? [request.colleagueId] : []
+      case SHIFT_REQUEST_STATUSES.PENDING_APPROVAL:
+        return ShiftRequestService.headsOfDepartment(request.requester.department)
+      case SHIFT_REQUEST_STATUSES.DECLINED:
+        return [request.requesterId]
+      default:
+        return [request.requesterId, ...(request.colleagueId !== null ? [request.colleagueId] : [])]
+    }
+  }
+
+  static describe(request: ShiftChangeRequestRow): string {
+    const requester = request.requester.name
+    const subject = request.type === 'swap'
+      ? `shift swap ${formatShift(request.shift)}${request.colleagueShift ? ` for ${formatShift(request.colleagueShift)}` : ''}`
+      : `leave ${request.startsAt ? format(request.startsAt, 'MMM d') : ''}–${request.endsAt ? format(request.endsAt, 'MMM d') : ''}`
+
+    switch (request.status) {
+      case SHIFT_REQUEST_STATUSES.PENDING_COLLEAGUE:
+        return `${requester} proposes a ${subject}`
+      case SHIFT_REQUEST_STATUSES.PENDING_APPROVAL:
+        return `${requester} requests ${subject}${request.colleague ? ` with ${request.colleague.name}` : ''} - approval needed`
+      case SHIFT_REQUEST_STATUSES.DECLINED:
+        return `${request.colleague?.name ?? 'Colleague'} declined the ${subject}`
+      case SHIFT_REQUEST_STATUSES.APPROVED:
+        return `Approved: ${subject} (${requester})`
+      case SHIFT_REQUEST_STATUSES.REJECTED:
+        return `Rejected: ${subject} (${requester})`
+      default:
+        return `${requester} cancelled the ${subject}`
+    }
+  }
+
+  private static toView(request: ShiftChangeRequestRow): ShiftRequestView {
+    return { ...request, conflicts: request.conflicts ? JSON.parse(request.conflicts) : [] }
+  }
+
+  // Web dobija SSE odmah, satovi preko mqttBridge-a
+  private static async notify(request: ShiftChangeRequestRow): Promise<ShiftRequestView> {
+    const event: ShiftRequestEvent = {
+      requestId: request.id,
+      type: request.type,
+      status: request.status,
+      requesterId: request.requesterId,
+      colleagueId: request.colleagueId,
+      recipients: await ShiftRequestService.recipientsFor(request),
+      message: ShiftRequestService.describe(request),
+      updatedAt: new Date().toISOString(),
+    }
+    emitter.emitEvent(SSE_EVENTS.SHIFT_REQUEST, event)
+
+    return ShiftRequestService.toView(request)
+  }
+}
@@ -0,0 +1,410 @@
+import { PrismaClient } from '@prisma/client'
+import type { MeshLink } from '@prisma/client'
+import { toDeviceType } from '@obedio/mqtt-contract'
+import { CoverageService, signalToRssi } from '@/lib/services/coverage-service'
+import type {
+  DeviceType,
+  MeshDeparturePayload,
+  MeshDeviceConnectedPayload,
+  MeshDeviceDisconnectedPayload,
+  MeshPayload,
+  MeshRelayPayload,
+  MeshScanResultsPayload
+} from '@obedio/mqtt-contract'
+
+// Čvor koji predstavlja server - repetitor bez nadređenog repetitora je direktno vezan za njega
+export const GATEWAY_NODE = 'gateway'
+
+export type MeshLinkKind = 'device' | 'uplink' | 'neighbor'
+
+export interface TopologyNode {
+  uid: string
+  deviceId: number | null
+  name: string | null
+  type: DeviceType | 'gateway'
+  deck: string | null
+  location: string | null
+  // Uređaj koji repetitor čuje, a nije u bazi
+  registered: boolean
+  lastSeen: string | null
+  // Broj skokova do servera (null = nema vezu sa serverom)
+  hops: number | null
+  reachable: boolean
+  // Repetitor čiji bi kvar ostavio druge uređaje bez veze sa serverom
+  singlePointOfFailure: boolean
+  dependents: string[]
+  // Aktivno dugme koje nijedan repetitor ne čuje
+  orphaned: boolean
+}
+
+export interface TopologyLink {
+  source: string
+  target: string
+  kind: MeshLinkKind
+  rssi: number | null
+  snr: number | null
+  hopCount: number | null
+  lastSeen: string
+  weak: boolean
+  // Veza koju repetitor nije potvrdio duže od TOPOLOGY_LINK_TTL_MS
+  stale: boolean
+}
+
+export interface NetworkTopology {
+  generatedAt: string
+  thresholds: { weakRssi: number; weakSnr: number; linkTtlMs: number }
+  decks: string[]
+  nodes: TopologyNode[]
+  links: TopologyLink[]
+  weakLinks: number
+  singlePointsOfFailure: string[]
+  orphans: string[]
+}
+
+export interface TopologyDevice {
+  id: number
+  uid: string
+  name: string | null
+  type: string
+  isActive: boolean
+  lastSeen: Date
+  locationRef: { name: string; deck: string } | null
+}
+
+interface LinkReading {
+  rssi?: number
+  snr?: number
+  signalStrength?: number
+  hopCount?: number
+}
+
+const WEAK_RSSI = parseInt(process.env.TOPOLOGY_WEAK_RSSI || '-100', 10)
+const WEAK_SNR = parseFloat(process.env.TOPOLOGY_WEAK_SNR || '-5')
+// Repetitori šalju mesh stanje na 2 minuta - veza bez potvrde 10 minuta se ne računa
+const LINK_TTL_MS = parseInt(process.env.TOPOLOGY_LINK_TTL_MS || '600000', 10)
+const LINK_RETENTION_MS = parseInt(process.env.TOPOLOGY_LINK_RETENTION_MS || '86400000', 10)
+const PRUNE_INTERVAL_MS = parseInt(process.env.TOPOLOGY_PRUNE_INTERVAL_MS || '3600000', 10)
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis koji iz mesh poruka repetitora gradi graf LoRa mreže
+ * (repetitori, krajnji uređaji i radio veze između njih)
+ */
+export class TopologyService {
+  private static timer: NodeJS.Timeout | null = null
+
+  /**
+   * Pokreće brisanje davno viđenih veza (u mqttBridge procesu)
+   */
+  static start(intervalMs: number = PRUNE_INTERVAL_MS) {
+    if (TopologyService.timer) {
+      return
+    }
+
+    TopologyService.timer = setInterval(() => {
+      TopologyService.prune().catch(error => {
+        console.error('Greška pri brisanju starih mesh veza:', error)
+      })
+    }, intervalMs)
+    console.log(`Praćenje mesh topologije pokrenuto (čišćenje na ${intervalMs / 1000}s)`)
+  }
+
+  static stop() {
+    if (TopologyService.timer) {
+      clearInterval(TopologyService.timer)
+      TopologyService.timer = null
+    }
+  }
+
+  /**
+   * Mesh stanje repetitora (`mesh`) zamenjuje sve njegove prethodno prijavljene veze
+   */
+  static async handleMesh(repeaterUid: string, payload: MeshPayload, now: Date = new Date()) {
+    try {
+      const devices = (payload.connectedDevices ?? []).filter(neighbor => neighbor?.deviceId)
+      for (const neighbor of devices) {
+        await TopologyService.saveLink(repeaterUid, neighbor.deviceId, 'device', neighbor, now)
+      }
+      if (payload.connectedDevices) {
+        await TopologyService.removeOtherLinks(repeaterUid, 'device', devices.map(neighbor => neighbor.deviceId))
+      }
+
+      const parents = (payload.parentNodes ?? []).filter(Boolean)
+      const uplinks = parents.length > 0 ? parents : [GATEWAY_NODE]
+      for (const parent of uplinks) {
+        await TopologyService.saveLink(repeaterUid, parent, 'uplink', {}, now)
+      }
+      await TopologyService.removeOtherLinks(repeaterUid, 'uplink', uplinks)
+
+      await prisma.device.updateMany({
+        where: { uid: repeaterUid },
+        data: { connectedDevices: devices.length, lastSeen: now }
+      })
+    } catch (error) {
+      console.error(`Greška pri obradi mesh stanja repetitora ${repeaterUid}:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * Repetitor napušta mrežu (`mesh/departure`) - brišu se sve veze koje je prijavio
+   */
+  static async handleDeparture(repeaterUid: string, _payload: MeshDeparturePayload) {
+    await prisma.meshLink.deleteMany({ where: { sourceUid: repeaterUid } })
+  }
+
+  /**
+   * Drugi repetitori u dometu iz rezultata skeniranja (`scan_results`)
+   */
+  static async handleScanResults(repeaterUid: string, payload: MeshScanResultsPayload, now: Date = new Date()) {
+    if (!payload.neighbors) {
+      return
+    }
+
+    const neighbors = payload.neighbors.filter(neighbor => neighbor?.deviceId && neighbor.deviceId !== repeaterUid)
+    for (const neighbor of neighbors) {
+      await TopologyService.saveLink(repeaterUid, neighbor.deviceId, 'neighbor', neighbor, now)
+    }
+    await TopologyService.removeOtherLinks(repeaterUid, 'neighbor', neighbors.map(neighbor => neighbor.deviceId))
+  }
+
+  static async handleDeviceConnected(repeaterUid: string, payload: MeshDeviceConnectedPayload, now: Date = new Date()) {
+    if (!payload.device?.uid) {
+      return
+    }
+    await TopologyService.saveLink(repeaterUid, payload.device.uid, 'device', payload.device, now)
+  }
+
+  static async handleDeviceDisconnected(repeaterUid: string, payload: MeshDeviceDisconnectedPayload) {
+    if (!payload.deviceUid) {
+      return
+    }
+    await prisma.meshLink.deleteMany({
+      where: { sourceUid: repeaterUid, targetUid: payload.deviceUid, kind: 'device' }
+    })
+  }
+
+  /**
+   * Prosleđena poruka (`relay`) potvrđuje vezu i donosi svež RSSI
+   */
+  static async handleRelay(repeaterUid: string, payload: MeshRelayPayload, now: Date = new Date()) {
+    if (!payload.from || payload.from === repeaterUid) {
+      return
+    }
+    await TopologyService.saveLink(repeaterUid, payload.from, 'device', payload, now)
+  }
+
+  /**
+   * Briše veze koje nijedan repetitor nije potvrdio duže od TOPOLOGY_LINK_RETENTION_MS
+   */
+  static async prune(now: Date = new Date()): Promise<number> {
+    const { count } = await prisma.meshLink.deleteMany({
+      where: { lastSeen: { lt: new Date(now.getTime() - LINK_RETENTION_MS) } }
+    })
+    return count
+  }
+
+  /**
+   * Trenutni graf mreže sa slabim vezama, kritičnim repetitorima i dugmadima bez veze
+   */
+  static async getTopology(now: Date = new Date()): Promise<NetworkTopology> {
+    try {
+      const [devices, links] = await Promise.all([
+        prisma.device.findMany({
+          select: {
+            id: true,
+            uid: true,
+            name: true,
+            type: true,
+            isActive: true,
+            lastSeen: true,
+            locationRef: { select: { name: true, deck: true } },
+          }
+        }),
+        prisma.meshLink.findMany({ orderBy: [{ sourceUid: 'asc' }, { targetUid: 'asc' }] }),
+      ])
+
+      return TopologyService.buildTopology(devices, links, now)
+    } catch (error) {
+      console.error('Greška pri dohvatanju mesh topologije:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Gradi graf iz uređaja u bazi i prijavljenih veza. Veze se posmatraju kao neusmerene;
+   * računaju se samo one koje nisu zastarele.
+   */
+  static buildTopology(devices: TopologyDevice[], meshLinks: MeshLink[], now: Date = new Date()): NetworkTopology {
+    const linkedUids = new Set(meshLinks.flatMap(link => [link.sourceUid, link.targetUid]))
+    const nodes = new Map<string, TopologyNode>()
+
+    const addNode = (uid: string, fields: Partial<TopologyNode>) => {
+      nodes.set(uid, {
+        uid,
+        deviceId: null,
+        name: null,
+        type: 'generic',
+        deck: null,
+        location: null,
+        registered: false,
+        lastSeen: null,
+        hops: null,
+        reachable: false,
+        singlePointOfFailure: false,
+        dependents: [],
+        orphaned: false,
+        ...fields,
+      })
+    }
+
+    addNode(GATEWAY_NODE, { name: 'Server', type: 'gateway', registered: true })
+
+    // Neaktivni uređaji se prikazuju samo dok ih neki repetitor i dalje čuje
+    for (const device of devices) {
+      if (!device.isActive && !linkedUids.has(device.uid)) {
+        continue
+      }
+      addNode(device.uid, {
+        deviceId: device.id,
+        name: device.name,
+        type: toDeviceType(device.type),
+        deck: device.locationRef?.deck ?? null,
+        location: device.locationRef?.name ?? null,
+        registered: device.isActive,
+        lastSeen: device.lastSeen.toISOString(),
+      })
+    }
+
+    const links: TopologyLink[] = meshLinks.map(link => {
+      const stale = now.getTime() - link.lastSeen.getTime() > LINK_TTL_MS
+      const weak = !stale && (
+        (link.rssi !== null && link.rssi < WEAK_RSSI) ||
+        (link.snr !== null && link.snr < WEAK_SNR)
+      )
+      return {
+        source: link.sourceUid,
+        target: link.targetUid,
+        kind: link.kind as MeshLinkKind,
+        rssi: link.rssi,
+        snr: link.snr,
+        hopCount: link.hopCount,
+        lastSeen: link.lastSeen.toISOString(),
+        weak,
+        stale,
+      }
+    })
+
+    // Nepoznati čvorovi: izvor veze je uvek repetitor, kao i cilj uplink/neighbor veze
+    for (const link of links) {
+      if (!nodes.has(link.source)) {
+        addNode(link.source, { type: 'repeater' })
+      }
+      if (!nodes.has(link.target)) {
+        addNode(link.target, { type: link.kind === 'device' ? 'generic' : 'repeater' })
+      }
+    }
+
+    const adjacency = new Map<string, string[]>()
+    for (const link of links) {
+      if (link.stale) {
+        continue
+      }
+      adjacency.set(link.source, [...(adjacency.get(link.source) ?? []), link.target])
+      adjacency.set(link.target, [...(adjacency.get(link.target) ?? []), link.source])
+    }
+
+    const reachable = TopologyService.distances(adjacency)
+    reachable.forEach((hops, uid) => {
+      const node = nodes.get(uid)
+      if (node) {
+        node.hops = hops
+        node.reachable = true
+      }
+    })
+
+    const nodeList = Array.from(nodes.values())
+
+    // Repetitor je kritičan ako bez njega neki drugi čvor više ne stiže do servera
+    for (const node of nodeList) {
+      if (node.type !== 'repeater' || !node.reachable) {
+        continue
+      }
+      const without = TopologyService.distances(adjacency, node.uid)
+      node.dependents = Array.from(reachable.keys()).filter(uid => uid !== node.uid && !without.has(uid))
+      node.singlePointOfFailure = node.dependents.length > 0
+    }
+
+    for (const node of nodeList) {
+      node.orphaned = node.type === 'button' && node.registered && !node.reachable
+    }
+
+    const decks = Array.from(new Set(nodeList.map(node => node.deck).filter((deck): deck is string => !!deck))).sort()
+
+    return {
+      generatedAt: now.toISOString(),
+      thresholds: { weakRssi: WEAK_RSSI, weakSnr: WEAK_SNR, linkTtlMs: LINK_TTL_MS },
+      decks,
+      nodes: nodeList,
+      links,
+      weakLinks: links.filter(link => link.weak).length,
+      singlePointsOfFailure: nodeList.filter(node => node.singlePointOfFailure).map(node => node.uid),
+      orphans: nodeList.filter(node => node.orphaned).map(node => node.uid),
+    }
+  }
+
+  /**
+   * Broj skokova od servera do svakog dostupnog čvora (BFS), opciono bez jednog čvora
+   */
+  private static distances(adjacency: Map<string, string[]>, excluded?: string): Map<string, number> {
+    const result = new Map<string, number>([[GATEWAY_NODE, 0]])
+    const queue = [GATEWAY_NODE]
+
+    while (queue.length > 0) {
+      const current = queue.shift()!
+      const hops = result.get(current)!
+      for (const next of adjacency.get(current) ?? []) {
+        if (next === excluded || result.has(next)) {
+          continue
+        }
+        result.set(next, hops + 1)
+        queue.push(next)
+      }
+    }
+
+    return result
+  }
+
+  private static async saveLink(sourceUid: string, targetUid: string, kind: MeshLinkKind, reading: LinkReading, now: Date) {
+    const rssi = reading.rssi ?? (reading.signalStrength !== undefined ? signalToRssi(reading.signalStrength) : undefined)
+    // Vrednosti koje poruka ne nosi ostaju iz prethodnog očitavanja
+    const data = {
+      kind,
+      rssi: rssi !== undefined ? Math.round(rssi) : undefined,
+      snr: reading.snr,
+      hopCount: reading.hopCount,
+      lastSeen: now,
+    }
+
+    const link = await prisma.meshLink.upsert({
+      where: { sourceUid_targetUid: { sourceUid, targetUid } },
+      create: { sourceUid, targetUid, ...data },
+      update: data,
+    })
+
+    // Istorija signala za analizu pokrivenosti
+    if (kind === 'device' && data.rssi !== undefined) {
+      await CoverageService.recordSignal(targetUid, data.rssi, reading.snr, sourceUid, now)
+    }
+
+    return link
+  }
+
+  private static async removeOtherLinks(sourceUid: string, kind: MeshLinkKind, keep: string[]) {
+    await prisma.meshLink.deleteMany({
+      where: { sourceUid, kind, targetUid: { notIn: keep } }
+    })
+  }
+}
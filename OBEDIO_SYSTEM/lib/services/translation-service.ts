@@ -0,0 +1,350 @@
+import { PrismaClient } from '@prisma/client'
+import type { CrewReply } from '@prisma/client'
+import { z } from 'zod'
+import { emitter, SSE_EVENTS, RequestReplyEvent, RequestTranslationEvent } from '@/lib/sseEmitter'
+import { SettingsService } from '@/lib/services/settings-service'
+import { GuestContextService } from '@/lib/services/guest-context-service'
+import type { MqttPublisher } from '@/lib/services/watch-service'
+import { getTranslator, toLanguageCode } from '@/lib/translation/translator'
+import { CANNED_REPLY_LANGUAGE, findCannedReply } from '@/lib/translation/canned-replies'
+import { DEVICE_ACTIONS, legacyTopic } from '@obedio/mqtt-contract'
+
+export interface TranslationSettings {
+  enabled: boolean
+  engine: string
+  // Jezik posade kada član posade nema upisane jezike
+  crewLanguage: string
+}
+
+export const DEFAULT_TRANSLATION_SETTINGS: TranslationSettings = {
+  enabled: true,
+  engine: 'dictionary',
+  crewLanguage: 'en',
+}
+
+export const translationSettingsSchema = z.object({
+  enabled: z.boolean(),
+  engine: z.string().min(1).max(50),
+  crewLanguage: z.string().regex(/^[a-z]{2}$/),
+}).strict()
+
+export interface RequestTranslation {
+  translatedTranscript: string
+  translationLanguage: string
+}
+
+const SETTINGS_KEY = 'translation'
+const DELIVERY_INTERVAL_MS = parseInt(process.env.TRANSLATION_REPLY_INTERVAL_MS || '5000', 10)
+// Odgovor koji nije stigao do kabine u ovom roku više nema smisla prikazati
+const REPLY_EXPIRY_MS = parseInt(process.env.TRANSLATION_REPLY_EXPIRY_MS || '600000', 10)
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis za prevod poruka gostiju na jezik posade i gotovih odgovora posade na jezik gosta
+ */
+export class TranslationService {
+  private static publisher: MqttPublisher | null = null
+  private static timer: NodeJS.Timeout | null = null
+
+  /**
+   * Postavlja MQTT publisher za prikaz odgovora na uređaju u kabini
+   */
+  static setPublisher(publisher: MqttPublisher | null) {
+    TranslationService.publisher = publisher
+  }
+
+  /**
+   * Pokreće slanje odgovora koje je posada poslala sa dashboard-a (u mqttBridge procesu)
+   */
+  static start(intervalMs: number = DELIVERY_INTERVAL_MS) {
+    if (TranslationService.timer) {
+      return
+    }
+
+    TranslationService.timer = setInterval(() => {
+      TranslationService.deliverPending().catch(error => {
+        console.error('Greška pri slanju odgovora gostima:', error)
+      })
+    }, intervalMs)
+    console.log(`Slanje odgovora gostima pokrenuto (provera na ${intervalMs / 1000}s)`)
+  }
+
+  static stop() {
+    if (TranslationService.timer) {
+      clearInterval(TranslationService.timer)
+      TranslationService.timer = null
+    }
+  }
+
+  static async getSettings(): Promise<TranslationSettings> {
+    return SettingsService.get(SETTINGS_KEY, DEFAULT_TRANSLATION_SETTINGS)
+  }
+
+  static async saveSettings(settings: TranslationSettings, userId?: number | null): Promise<TranslationSettings> {
+    return SettingsService.save(SETTINGS_KEY, settings, userId)
+  }
+
+  /**
+   * Prvi poznat jezik iz JSON liste jezika člana posade
+   */
+  static parseLanguage(raw: string | null): string | null {
+    if (!raw) {
+      return null
+    }
+
+    try {
+      const languages = JSON.parse(raw)
+      if (!Array.isArray(languages)) {
+        return null
+      }
+      return languages.map(language => toLanguageCode(String(language))).find(Boolean) || null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Jezik gosta iz konteksta sačuvanog uz zahtev (VIP gosti su prvi)
+   */
+  static guestLanguage(guestContext: string | null): string | null {
+    const languages = GuestContextService.parse(guestContext).flatMap(guest => guest.languages)
+    return languages.map(language => toLanguageCode(language)).find(Boolean) || null
+  }
+
+  /**
+   * Prevodi transkript zahteva na jezik dodeljenog člana posade.
+   * Greška u prevodu ne sme da zaustavi zahtev - tada vraća null.
+   */
+  static async translateRequest(requestId: number): Promise<RequestTranslation | null> {
+    try {
+      const settings = await TranslationService.getSettings()
+      if (!settings.enabled) {
+        return null
+      }
+
+      const request = await prisma.request.findUnique({
+        where: { id: requestId },
+        select: {
+          transcript: true,
+          transcriptLanguage: true,
+          translatedTranscript: true,
+          translationLanguage: true,
+          guestContext: true,
+          assignee: { select: { languages: true } },
+        }
+      })
+      if (!request?.transcript) {
+        return null
+      }
+
+      const target = TranslationService.parseLanguage(request.assignee?.languages ?? null) || settings.crewLanguage
+      if (request.translatedTranscript && request.translationLanguage === target) {
+        return { translatedTranscript: request.translatedTranscript, translationLanguage: target }
+      }
+
+      const source = toLanguageCode(request.transcriptLanguage) || TranslationService.guestLanguage(request.guestContext)
+      if (source === target) {
+        if (request.translatedTranscript) {
+          await prisma.request.update({
+            where: { id: requestId },
+            data: { translatedTranscript: null, translationLanguage: null }
+          })
+        }
+        return null
+      }
+
+      const translator = getTranslator(settings.engine)
+      if (!translator) {
+        console.warn(`Nepoznat translator ${settings.engine}`)
+        return null
+      }
+
+      const result = await translator.translate({ text: request.transcript, from: source || 'auto', to: target })
+      const transcriptLanguage = source || result.from
+      // Prepoznat jezik je isti kao jezik posade - prevod nije potreban
+      if (transcriptLanguage === target) {
+        return null
+      }
+
+      await prisma.request.update({
+        where: { id: requestId },
+        data: { transcriptLanguage, translatedTranscript: result.text, translationLanguage: target }
+      })
+
+      const event: RequestTranslationEvent = {
+        requestId,
+        transcript: request.transcript,
+        transcriptLanguage,
+        translatedTranscript: result.text,
+        translationLanguage: target,
+      }
+      emitter.emitEvent(SSE_EVENTS.REQUEST_TRANSLATION, event)
+
+      return { translatedTranscript: result.text, translationLanguage: target }
+    } catch (error) {
+      console.error(`Greška pri prevodu zahteva ${requestId}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Šalje gotov odgovor gostu, preveden na jezik gosta.
+   * Kada prevod ne uspe, gost dobija odgovor na engleskom.
+   * @returns null ako zahtev ili odgovor ne postoje
+   */
+  static async sendReply(requestId: number, replyKey: string, userId?: number | null): Promise<CrewReply | null> {
+    const canned = findCannedReply(replyKey)
+    if (!canned) {
+      return null
+    }
+
+    try {
+      const request = await prisma.request.findUnique({
+        where: { id: requestId },
+        select: { id: true, guestContext: true }
+      })
+      if (!request) {
+        return null
+      }
+
+      const settings = await TranslationService.getSettings()
+      const language = TranslationService.guestLanguage(request.guestContext) || CANNED_REPLY_LANGUAGE
+      const translator = settings.enabled ? getTranslator(settings.engine) : null
+
+      let translatedText: string = canned.text
+      let engine: string | null = null
+      let error: string | null = null
+      if (language !== CANNED_REPLY_LANGUAGE && translator) {
+        try {
+          const result = await translator.translate({ text: canned.text, from: CANNED_REPLY_LANGUAGE, to: language })
+          translatedText = result.text
+          engine = translator.name
+        } catch (translationError) {
+          error = translationError instanceof Error ? translationError.message : String(translationError)
+        }
+      }
+
+      const reply = await prisma.crewReply.create({
+        data: {
+          requestId,
+          userId: userId ?? null,
+          replyKey: canned.key,
+          text: canned.text,
+          // Bez prevoda gost dobija odgovor na jeziku posade
+          language: engine ? language : CANNED_REPLY_LANGUAGE,
+          translatedText,
+          engine,
+          error,
+        }
+      })
+
+      TranslationService.notify(reply)
+
+      // U API procesu nema MQTT klijenta - odgovor šalje mqttBridge
+      if (TranslationService.publisher) {
+        return await TranslationService.deliver(reply)
+      }
+      return reply
+    } catch (error) {
+      console.error('Greška pri slanju odgovora gostu:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Šalje odgovore koji još nisu prikazani u kabini; zastareli se označavaju kao neuspeli
+   */
+  static async deliverPending(now: Date = new Date()) {
+    if (!TranslationService.publisher) {
+      return
+    }
+
+    const pending = await prisma.crewReply.findMany({
+      where: { status: 'pending' },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    for (const reply of pending) {
+      if (now.getTime() - reply.createdAt.getTime() > REPLY_EXPIRY_MS) {
+        const expired = await prisma.crewReply.update({
+          where: { id: reply.id },
+          data: { status: 'failed', error: 'Odgovor nije stigao do kabine na vreme' }
+        })
+        TranslationService.notify(expired)
+        continue
+      }
+
+      await TranslationService.deliver(reply, now)
+    }
+  }
+
+  /**
+   * Odgovori poslati uz zahtev (najnoviji prvi)
+   */
+  static async getReplies(requestId: number) {
+    return prisma.crewReply.findMany({
+      where: { requestId },
+      orderBy: { createdAt: 'desc' },
+      include: { user: { select: { id: true, name: true } } }
+    })
+  }
+
+  /**
+   * Prikazuje odgovor na uređajima u kabini iz koje je stigao zahtev (bez satova i repetitora)
+   */
+  private static async deliver(reply: CrewReply, now: Date = new Date()): Promise<CrewReply> {
+    const request = await prisma.request.findUnique({
+      where: { id: reply.requestId },
+      select: { device: { select: { id: true, uid: true, locationId: true } } }
+    })
+    if (!request || !TranslationService.publisher) {
+      return reply
+    }
+
+    const { device } = request
+    const devices = device.locationId
+      ? await prisma.device.findMany({
+          where: {
+            locationId: device.locationId,
+            isActive: true,
+            type: { notIn: ['SMART_WATCH', 'REPEATER'] },
+          },
+          select: { uid: true }
+        })
+      : [{ uid: device.uid }]
+
+    for (const target of devices) {
+      TranslationService.publisher(legacyTopic(target.uid, DEVICE_ACTIONS.COMMAND), {
+        command: 'show_message',
+        params: {
+          requestId: reply.requestId,
+          replyId: reply.id,
+          text: reply.translatedText,
+          language: reply.language,
+        },
+        timestamp: now.toISOString(),
+      })
+    }
+
+    const sent = await prisma.crewReply.update({
+      where: { id: reply.id },
+      data: { status: 'sent', sentAt: now }
+    })
+    TranslationService.notify(sent)
+    return sent
+  }
+
+  private static notify(reply: CrewReply) {
+    const event: RequestReplyEvent = {
+      requestId: reply.requestId,
+      replyId: reply.id,
+      status: reply.status,
+      text: reply.text,
+      translatedText: reply.translatedText,
+      language: reply.language,
+    }
+    emitter.emitEvent(SSE_EVENTS.REQUEST_REPLY, event)
+  }
+}
@@ -0,0 +1,477 @@
+import { PrismaClient } from '@prisma/client'
+import type { VoiceRecording } from '@prisma/client'
+import { mkdir, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { z } from 'zod'
+import { emitter, SSE_EVENTS, RequestVoiceEvent } from '@/lib/sseEmitter'
+import { SettingsService } from '@/lib/services/settings-service'
+import { WatchService } from '@/lib/services/watch-service'
+import { TranslationService } from '@/lib/services/translation-service'
+import { handleButtonPress } from '@/lib/mqtt-handlers/request-handler'
+import { getTranscriptionEngine } from '@/lib/voice/transcription'
+import type { VoiceChunkPayload, VoicePayload } from '@obedio/mqtt-contract'
+
+export const VOICE_FORMATS = ['wav', 'opus', 'pcm16'] as const
+
+export type VoiceFormat = (typeof VOICE_FORMATS)[number]
+
+export interface VoiceSettings {
+  enabled: boolean
+  engine: string
+  // Jezik govora ('auto' = engine ga prepoznaje)
+  language: string
+  // Duži snimci se čuvaju, ali se ne transkribuju
+  maxDurationSeconds: number
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  enabled: true,
+  engine: 'whisper_local',
+  language: 'auto',
+  maxDurationSeconds: 60,
+}
+
+export const voiceSettingsSchema = z.object({
+  enabled: z.boolean(),
+  engine: z.string().min(1).max(50),
+  language: z.string().regex(/^(auto|[a-z]{2})$/),
+  maxDurationSeconds: z.number().int().min(5).max(600),
+}).strict()
+
+// Snimak koji stiže u delovima preko MQTT-a
+interface Assembly {
+  deviceUid: string
+  recordingId: string
+  totalChunks: number
+  chunks: Map<number, Buffer>
+  size: number
+  format: VoiceFormat
+  sampleRate: number | null
+  durationMs: number | null
+  lastChunkAt: number
+}
+
+export interface VoiceIngestInput {
+  deviceUid: string
+  recordingId: string
+  source: 'mqtt' | 'upload'
+  format: VoiceFormat
+  sampleRate: number | null
+  durationMs: number | null
+  data: Buffer
+  requestId?: number | null
+}
+
+const SETTINGS_KEY = 'voice'
+const VOICE_DIR = process.env.VOICE_DIR || join(process.cwd(), 'data', 'voice')
+export const VOICE_MAX_BYTES = parseInt(process.env.VOICE_MAX_BYTES || String(5 * 1024 * 1024), 10)
+const ASSEMBLY_TIMEOUT_MS = parseInt(process.env.VOICE_ASSEMBLY_TIMEOUT_MS || '30000', 10)
+// Poruka se prilaže poslednjem otvorenom zahtevu sa dugmeta, ako je nastao u ovom periodu
+const ATTACH_WINDOW_MS = parseInt(process.env.VOICE_ATTACH_WINDOW_MS || '120000', 10)
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis za glasovne poruke sa dugmadi: sklapa snimak iz MQTT delova (ili prima HTTP upload),
+ * čuva ga, prilaže zahtevu i transkribuje izabranim engine-om
+ */
+export class VoiceService {
+  private static assemblies = new Map<string, Assembly>()
+  private static timer: NodeJS.Timeout | null = null
+
+  /**
+   * Pokreće čišćenje nedovršenih snimaka (u mqttBridge procesu)
+   */
+  static start(intervalMs: number = ASSEMBLY_TIMEOUT_MS) {
+    if (VoiceService.timer) {
+      return
+    }
+
+    VoiceService.timer = setInterval(() => VoiceService.sweep(), intervalMs)
+    console.log(`Sklapanje glasovnih poruka pokrenuto (čišćenje na ${intervalMs / 1000}s)`)
+  }
+
+  static stop() {
+    if (VoiceService.timer) {
+      clearInterval(VoiceService.timer)
+      VoiceService.timer = null
+    }
+    VoiceService.assemblies.clear()
+  }
+
+  static async getSettings(): Promise<VoiceSettings> {
+    return SettingsService.get(SETTINGS_KEY, DEFAULT_VOICE_SETTINGS)
+  }
+
+  static async saveSettings(settings: VoiceSettings, userId?: number | null): Promise<VoiceSettings> {
+    return SettingsService.save(SETTINGS_KEY, settings, userId)
+  }
+
+  static voiceUrl(recordingId: number): string {
+    return `/api/voice/${recordingId}`
+  }
+
+  static filePath(recording: Pick<VoiceRecording, 'fileName'>): string {
+    return join(VOICE_DIR, recording.fileName)
+  }
+
+  /**
+   * Sirov PCM (16 bit, mono) pakuje u WAV da bi se mogao pustiti u pregledaču i transkribovati
+   */
+  static pcm16ToWav(pcm: Buffer, sampleRate: number): Buffer {
+    const header = Buffer.alloc(44)
+    header.write('RIFF', 0)
+    header.writeUInt32LE(36 + pcm.length, 4)
+    header.write('WAVE', 8)
+    header.write('fmt ', 12)
+    header.writeUInt32LE(16, 16)
+    header.writeUInt16LE(1, 20)
+    header.writeUInt16LE(1, 22)
+    header.writeUInt32LE(sampleRate, 24)
+    header.writeUInt32LE(sampleRate * 2, 28)
+    header.writeUInt16LE(2, 32)
+    header.writeUInt16LE(16, 34)
+    header.write('data', 36)
+    header.writeUInt32LE(pcm.length, 40)
+    return Buffer.concat([header, pcm])
+  }
+
+  /**
+   * Prima deo snimka sa MQTT-a. Kada stignu svi delovi, snimak se čuva.
+   * @returns Zahtev kreiran za poruku (kada je nije bilo čemu priložiti), inače undefined
+   */
+  static async handleChunk(deviceUid: string, payload: VoiceChunkPayload, now: number = Date.now()) {
+    const { recordingId, index, totalChunks } = payload
+    if (!recordingId || !Number.isInteger(index) || !Number.isInteger(totalChunks) ||
+        index < 0 || index >= totalChunks || typeof payload.data !== 'string') {
+      console.warn(`Neispravan deo glasovne poruke sa uređaja ${deviceUid}`)
+      return
+    }
+
+    const key = `${deviceUid}:${recordingId}`
+    let assembly = VoiceService.assemblies.get(key)
+    if (!assembly) {
+      assembly = {
+        deviceUid,
+        recordingId,
+        totalChunks,
+        chunks: new Map(),
+        size: 0,
+        format: VOICE_FORMATS.includes(payload.format as VoiceFormat) ? payload.format as VoiceFormat : 'wav',
+        sampleRate: payload.sampleRate ?? null,
+        durationMs: payload.durationMs ?? null,
+        lastChunkAt: now,
+      }
+      VoiceService.assemblies.set(key, assembly)
+    }
+
+    assembly.lastChunkAt = now
+    // Ponovljeni deo (uređaj ga je poslao još jednom) ne menja snimak
+    if (assembly.chunks.has(index)) {
+      return
+    }
+
+    const data = Buffer.from(payload.data, 'base64')
+    assembly.chunks.set(index, data)
+    assembly.size += data.length
+
+    if (assembly.size > VOICE_MAX_BYTES) {
+      console.warn(`Glasovna poruka ${recordingId} sa uređaja ${deviceUid} je prevelika, odbačena`)
+      VoiceService.assemblies.delete(key)
+      return
+    }
+
+    if (assembly.chunks.size < assembly.totalChunks) {
+      return
+    }
+
+    VoiceService.assemblies.delete(key)
+    const parts = assembly.chunks
+    const chunks = Array.from({ length: assembly.totalChunks }, (_, i) => parts.get(i) as Buffer)
+
+    const result = await VoiceService.ingest({
+      deviceUid,
+      recordingId,
+      source: 'mqtt',
+      format: assembly.format,
+      sampleRate: assembly.sampleRate,
+      durationMs: assembly.durationMs,
+      data: Buffer.concat(chunks),
+    })
+    return result?.createdRequest
+  }
+
+  /**
+   * Odbacuje snimke kojima delovi nisu stigli na vreme
+   */
+  static sweep(now: number = Date.now()) {
+    for (const [key, assembly] of Array.from(VoiceService.assemblies.entries())) {
+      if (now - assembly.lastChunkAt >= ASSEMBLY_TIMEOUT_MS) {
+        console.warn(`Glasovna poruka ${assembly.recordingId} sa uređaja ${assembly.deviceUid} nije stigla cela ` +
+          `(${assembly.chunks.size}/${assembly.totalChunks} delova), odbačena`)
+        VoiceService.assemblies.delete(key)
+      }
+    }
+  }
+
+  static pendingAssemblies(): number {
+    return VoiceService.assemblies.size
+  }
+
+  /**
+   * Čuva snimak, prilaže ga zahtevu i pokreće transkripciju u pozadini.
+   * Bez otvorenog zahteva sa uređaja, poruka pravi novi zahtev kao dugi pritisak.
+   * @returns null ako uređaj nije poznat
+   */
+  static async ingest(input: VoiceIngestInput) {
+    try {
+      const device = await prisma.device.findUnique({ where: { uid: input.deviceUid } })
+      if (!device) {
+        console.warn(`Glasovna poruka sa nepoznatog uređaja ${input.deviceUid}`)
+        return null
+      }
+
+      let data = input.data
+      let format: string = input.format
+      if (input.format === 'pcm16') {
+        data = VoiceService.pcm16ToWav(input.data, input.sampleRate || 16000)
+        format = 'wav'
+      }
+
+      const fileName = `${device.id}-${input.recordingId.replace(/[^A-Za-z0-9_-]/g, '_')}.${format}`
+      await mkdir(VOICE_DIR, { recursive: true })
+      await writeFile(join(VOICE_DIR, fileName), data)
+
+      const openRequestId = input.requestId ?? await VoiceService.findOpenRequest(device.id)
+      const createdRequest = openRequestId
+        ? undefined
+        : await handleButtonPress(device.uid, { pressType: 'long', notes: 'Glasovna poruka' })
+      const requestId = openRequestId ?? createdRequest?.id ?? null
+
+      const recording = await prisma.voiceRecording.upsert({
+        where: { deviceId_recordingId: { deviceId: device.id, recordingId: input.recordingId } },
+        create: {
+          deviceId: device.id,
+          requestId,
+          recordingId: input.recordingId,
+          source: input.source,
+          format,
+          sampleRate: input.sampleRate,
+          durationMs: input.durationMs,
+          size: data.length,
+          fileName,
+        },
+        update: {
+          requestId,
+          format,
+          size: data.length,
+          fileName,
+          status: 'stored',
+          error: null,
+        }
+      })
+
+      if (requestId) {
+        await prisma.request.update({
+          where: { id: requestId },
+          data: { voiceUrl: VoiceService.voiceUrl(recording.id) }
+        })
+        VoiceService.notify(requestId, recording)
+      }
+
+      console.log(`Glasovna poruka ${input.recordingId} sa uređaja ${device.uid} sačuvana (${data.length} B)` +
+        (requestId ? `, zahtev ${requestId}` : ''))
+
+      // Transkripcija može da traje - ne zadržava prijem poruke
+      VoiceService.transcribe(recording.id).catch(error => {
+        console.error(`Greška pri transkripciji glasovne poruke ${recording.id}:`, error)
+      })
+
+      return { recording, createdRequest }
+    } catch (error) {
+      console.error('Greška pri čuvanju glasovne poruke:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Transkribuje snimak engine-om iz podešavanja i upisuje transkript u zahtev
+   */
+  static async transcribe(recordingId: number) {
+    const recording = await prisma.voiceRecording.findUnique({ where: { id: recordingId } })
+    if (!recording) {
+      return null
+    }
+
+    const settings = await VoiceService.getSettings()
+    if (!settings.enabled) {
+      return recording
+    }
+
+    if (recording.durationMs && recording.durationMs > settings.maxDurationSeconds * 1000) {
+      return VoiceService.finish(recording, { status: 'failed', error: 'Snimak je duži od dozvoljenog za transkripciju' })
+    }
+
+    const engine = getTranscriptionEngine(settings.engine)
+    if (!engine) {
+      return VoiceService.finish(recording, { status: 'failed', error: `Nepoznat engine ${settings.engine}` })
+    }
+
+    await prisma.voiceRecording.update({
+      where: { id: recording.id },
+      data: { status: 'transcribing', engine: engine.name }
+    })
+
+    try {
+      const result = await engine.transcribe({
+        filePath: VoiceService.filePath(recording),
+        format: recording.format,
+        sampleRate: recording.sampleRate,
+        language: settings.language,
+      })
+
+      return VoiceService.finish(recording, {
+        status: 'transcribed',
+        transcript: result.text,
+        language: result.language,
+        engine: engine.name,
+      })
+    } catch (error) {
+      return VoiceService.finish(recording, {
+        status: 'failed',
+        engine: engine.name,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  /**
+   * Uređaj koji sam prepoznaje govor šalje samo transkript (voice topic)
+   */
+  static async handleTranscript(deviceUid: string, payload: VoicePayload) {
+    if (!payload.transcript) {
+      return
+    }
+
+    const device = await prisma.device.findUnique({ where: { uid: deviceUid } })
+    if (!device) {
+      return
+    }
+
+    const requestId = await VoiceService.findOpenRequest(device.id)
+    if (!requestId) {
+      console.warn(`Transkript sa uređaja ${deviceUid} nema otvoren zahtev`)
+      return
+    }
+
+    await prisma.request.update({
+      where: { id: requestId },
+      data: { transcript: payload.transcript, transcriptLanguage: payload.language || null }
+    })
+    await VoiceService.notifyCrew(requestId, payload.transcript, null)
+
+    const event: RequestVoiceEvent = {
+      requestId,
+      recordingId: null,
+      voiceUrl: null,
+      status: 'transcribed',
+      transcript: payload.transcript,
+      language: payload.language || null,
+    }
+    emitter.emitEvent(SSE_EVENTS.REQUEST_VOICE, event)
+  }
+
+  /**
+   * Snimci priloženi zahtevu (najnoviji prvi)
+   */
+  static async getForRequest(requestId: number) {
+    const recordings = await prisma.voiceRecording.findMany({
+      where: { requestId },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return recordings.map(recording => ({
+      id: recording.id,
+      voiceUrl: VoiceService.voiceUrl(recording.id),
+      format: recording.format,
+      durationMs: recording.durationMs,
+      status: recording.status,
+      transcript: recording.transcript,
+      language: recording.language,
+      engine: recording.engine,
+      error: recording.error,
+      createdAt: recording.createdAt,
+    }))
+  }
+
+  private static async findOpenRequest(deviceId: number): Promise<number | null> {
+    const request = await prisma.request.findFirst({
+      where: {
+        deviceId,
+        status: { in: ['PENDING', 'IN_PROGRESS'] },
+        createdAt: { gte: new Date(Date.now() - ATTACH_WINDOW_MS) }
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true }
+    })
+    return request?.id ?? null
+  }
+
+  private static async finish(
+    recording: VoiceRecording,
+    data: { status: string; transcript?: string; language?: string | null; engine?: string; error?: string }
+  ) {
+    const updated = await prisma.voiceRecording.update({
+      where: { id: recording.id },
+      data: { ...data, transcribedAt: new Date() }
+    })
+
+    if (updated.requestId) {
+      if (data.transcript) {
+        await prisma.request.update({
+          where: { id: updated.requestId },
+          data: { transcript: data.transcript, transcriptLanguage: data.language ?? null }
+        })
+        await VoiceService.notifyCrew(updated.requestId, data.transcript, VoiceService.voiceUrl(updated.id))
+      }
+      VoiceService.notify(updated.requestId, updated)
+    }
+
+    return updated
+  }
+
+  /**
+   * Transkript (i prevod na jezik člana posade) stiže na sat člana posade kome je zahtev dodeljen
+   */
+  private static async notifyCrew(requestId: number, transcript: string, voiceUrl: string | null) {
+    const translation = await TranslationService.translateRequest(requestId)
+    const request = await prisma.request.findUnique({
+      where: { id: requestId },
+      select: { assignedTo: true }
+    })
+
+    if (request?.assignedTo) {
+      await WatchService.notifyUsers([request.assignedTo], {
+        type: 'voice_message',
+        requestId,
+        transcript,
+        translatedTranscript: translation?.translatedTranscript ?? null,
+        translationLanguage: translation?.translationLanguage ?? null,
+        voiceUrl,
+      })
+    }
+  }
+
+  private static notify(requestId: number, recording: VoiceRecording) {
+    const event: RequestVoiceEvent = {
+      requestId,
+      recordingId: recording.id,
+      voiceUrl: VoiceService.voiceUrl(recording.id),
+      status: recording.status,
+      transcript: recording.transcript,
+      language: recording.language,
+    }
+    emitter.emitEvent(SSE_EVENTS.REQUEST_VOICE, event)
+  }
+}
@@ -0,0 +1,115 @@
+import { PrismaClient } from '@prisma/client'
+import { RequestHistoryService, REQUEST_EVENT_TYPES } from '@/lib/services/request-history-service'
+import { DndService } from '@/lib/services/dnd-service'
+import { GuestContextService } from '@/lib/services/guest-context-service'
+import { DEVICE_ACTIONS, legacyTopic } from '@obedio/mqtt-contract'
+
+// Funkcija kojom servis objavljuje poruke na MQTT (postavlja je mqttBridge)
+export type MqttPublisher = (topic: string, payload: Record<string, unknown>) => void
+
+export interface WatchNotification {
+  type: string
+  requestId?: number
+  [key: string]: unknown
+}
+
+// Kreiranje Prisma klijenta
+const prisma = new PrismaClient()
+
+/**
+ * Servis za slanje notifikacija na satove članova posade
+ */
+export class WatchService {
+  private static publisher: MqttPublisher | null = null
+
+  /**
+   * Postavlja MQTT publisher. Bez njega se notifikacije samo loguju.
+   */
+  static setPublisher(publisher: MqttPublisher | null) {
+    WatchService.publisher = publisher
+  }
+
+  /**
+   * Šalje notifikaciju na sve aktivne satove dodeljene datim korisnicima
+   * @returns UID-ovi satova na koje je notifikacija poslata
+   */
+  static async notifyUsers(userIds: number[], notification: WatchNotification): Promise<string[]> {
+    if (userIds.length === 0) {
+      return []
+    }
+
+    try {
+      const watches = await prisma.device.findMany({
+        where: {
+          type: 'SMART_WATCH',
+          isActive: true,
+          assignedToUserId: { in: userIds }
+        },
+        select: { uid: true, assignedToUserId: true }
+      })
+
+      return await WatchService.publishToWatches(watches, notification)
+    } catch (error) {
+      console.error('Greška pri slanju notifikacije na satove:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Šalje notifikaciju na sve aktivne satove (npr. alarm za hitan slučaj)
+   * @returns UID-ovi satova na koje je notifikacija poslata
+   */
+  static async broadcast(notification: WatchNotification): Promise<string[]> {
+    try {
+      const watches = await prisma.device.findMany({
+        where: { type: 'SMART_WATCH', isActive: true },
+        select: { uid: true, assignedToUserId: true }
+      })
+
+      return await WatchService.publishToWatches(watches, notification)
+    } catch (error) {
+      console.error('Greška pri slanju notifikacije na sve satove:', error)
+      throw error
+    }
+  }
+
+  private static async publishToWatches(
+    watches: { uid: string; assignedToUserId: number | null }[],
+    notification: WatchNotification
+  ): Promise<string[]> {
+    if (!WatchService.publisher) {
+      console.warn(`MQTT publisher nije postavljen, notifikacija ${notification.type} nije poslata`)
+      return []
+    }
+
+    // Sat prikazuje DND oznaku ako se zahtev tiče kabine u kojoj gost ne želi da bude uznemiravan
+    const dnd = notification.requestId
+      ? (await DndService.getRequestDnd(notification.requestId).catch(() => []))
+          .map(location => ({ locationId: location.locationId, name: location.name }))
+      : []
+
+    // Gosti iz kabine sa preferencama ("G&T, no ice · alergija: nuts")
+    const guests = notification.requestId
+      ? await GuestContextService.getForRequest(notification.requestId).catch(() => [])
+      : []
+
+    for (const watch of watches) {
+      WatchService.publisher(legacyTopic(watch.uid, DEVICE_ACTIONS.NOTIFICATION), {
+        ...notification,
+        ...(dnd.length > 0 && { dnd }),
+        ...(guests.length > 0 && { guests }),
+        crewId: watch.assignedToUserId,
+        timestamp: new Date().toISOString()
+      })
+
+      if (notification.requestId) {
+        await RequestHistoryService.record(notification.requestId, REQUEST_EVENT_TYPES.DELIVERED, {
+          toUserId: watch.assignedToUserId,
+          metadata: { watchUid: watch.uid, notificationType: notification.type }
+        })
+      }
+    }
+
+    return watches.map(watch => watch.uid)
+  }
+}
@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events'
+import type { GuestContext } from '@/lib/services/guest-context-service'
 
 // Create a singleton event emitter
 class SSEEmitter extends EventEmitter {
@@ -35,6 +36,18 @@ export const SSE_EVENTS = {
   DEVICE_ADDED: 'device_added',
   REQUEST_UPDATE: 'request_update',
   SHIFT_UPDATE: 'shift_update',
+  REQUEST_ESCALATED: 'request_escalated',
+  EMERGENCY_ALERT: 'emergency_alert',
+  DND_CHANGED: 'dnd_changed',
+  FIRMWARE_UPDATE: 'firmware_update',
+  DEVICE_CONFIG: 'device_config',
+  REQUEST_VOICE: 'request_voice',
+  REQUEST_TRANSLATION: 'request_translation',
+  REQUEST_REPLY: 'request_reply',
+  BATTERY_ALERT: 'battery_alert',
+  SHIFT_REQUEST: 'shift_request',
+  DUTY_ALERT: 'duty_alert',
+  HANDOVER: 'handover',
 }
 
 // Event payload types
@@ -52,6 +65,29 @@ export interface NewRequestEvent {
   deviceName: string
   room: string
   timestamp: string
+  priority?: string
+  category?: string
+  guests?: GuestContext[]
+}
+
+export interface RequestEscalatedEvent {
+  requestId: number
+  deviceId: number
+  deviceName: string | null
+  room: string
+  level: number
+  target: string
+  recipients: number[]
+  escalatedAt: string
+}
+
+export interface EmergencyAlertEvent {
+  requestId: number
+  deviceId: number
+  deviceName: string | null
+  room: string
+  category: string
+  createdAt: string
 }
 
 export interface SystemStatusEvent {
@@ -67,3 +103,116 @@ export interface DeviceAddedEvent {
   name: string
   room: string
 }
+
+export interface DndChangedEvent {
+  locations: { locationId: number; name: string; deck: string; guestNames: string[] }[]
+  timestamp: string
+}
+
+export interface FirmwareUpdateEvent {
+  campaignId: number
+  deviceId: number
+  uid: string
+  status: string
+  progress: number
+  error: string | null
+}
+
+export interface DeviceConfigEvent {
+  deviceId: number
+  uid: string
+  hash: string | null
+  state: string
+  error: string | null
+}
+
+export interface RequestVoiceEvent {
+  requestId: number
+  // null kada je uređaj poslao samo transkript, bez snimka
+  recordingId: number | null
+  voiceUrl: string | null
+  status: string
+  transcript: string | null
+  language: string | null
+}
+
+export interface RequestTranslationEvent {
+  requestId: number
+  transcript: string
+  transcriptLanguage: string | null
+  translatedTranscript: string
+  translationLanguage: string
+}
+
+// Odgovor posade gostu (status: pending, sent, failed)
+export interface RequestReplyEvent {
+  requestId: number
+  replyId: number
+  status: string
+  text: string
+  translatedText: string
+  language: string
+}
+
+// Uređaj se prazni neuobičajeno brzo (pražnjenje u % dnevno)
+export interface BatteryAlertEvent {
+  alertId: number
+  deviceId: number
+  uid: string
+  name: string | null
+  level: number
+  ratePerDay: number
+  expectedRatePerDay: number | null
+  createdAt: string
+}
+
+// Promena statusa zahteva za zamenu smene ili odsustvo; recipients su članovi posade koje treba obavestiti
+export interface ShiftRequestEvent {
+  requestId: number
+  type: string
+  status: string
+  requesterId: number
+  colleagueId: number | null
+  recipients: number[]
+  message: string
+  updatedAt: string
+}
+
+// Stvarni početak ili kraj smene (DutyService); MISSED = planirana smena nije potvrđena do kraja
+export interface ShiftUpdateEvent {
+  shiftId: number
+  userId: number
+  userName: string
+  laneId: string | null
+  action: 'STARTED' | 'ENDED' | 'MISSED'
+  source: string | null
+  startsAt: string
+  endsAt: string
+  startedAt: string | null
+  endedAt: string | null
+}
+
+// Član posade kasni na smenu; uncovered = niko drugi ne pokriva poziciju, missed = smena nije potvrđena do kraja
+export interface DutyAlertEvent {
+  shiftId: number
+  userId: number
+  userName: string
+  laneId: string | null
+  type: 'late' | 'uncovered' | 'missed'
+  recipients: number[]
+  message: string
+  startsAt: string
+}
+
+// Nova ili potvrđena primopredaja smene (HandoverService)
+export interface HandoverEvent {
+  handoverId: number
+  status: string
+  outgoingUserId: number
+  incomingUserId: number
+  outgoingShiftId: number | null
+  incomingShiftId: number | null
+  recipients: number[]
+  message: string
+  updatedAt: string
+}
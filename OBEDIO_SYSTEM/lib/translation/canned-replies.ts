@@ -0,0 +1,20 @@
+// Gotovi kratki odgovori koje posada šalje gostu (sa dashboard-a ili sata).
+// Tekst je na engleskom; gost ga dobija preveden na svoj jezik.
+export const CANNED_REPLIES = [
+  { key: 'on_my_way', text: 'On my way' },
+  { key: 'few_minutes', text: 'I will be with you in a few minutes' },
+  { key: 'please_wait', text: 'Please wait a moment' },
+  { key: 'received', text: 'Your request has been received' },
+  { key: 'completed', text: 'Your request has been completed' },
+] as const
+
+export type CannedReplyKey = (typeof CANNED_REPLIES)[number]['key']
+
+export const CANNED_REPLY_KEYS = CANNED_REPLIES.map(reply => reply.key) as [CannedReplyKey, ...CannedReplyKey[]]
+
+// Jezik na kome su napisani gotovi odgovori
+export const CANNED_REPLY_LANGUAGE = 'en'
+
+export function findCannedReply(key: string) {
+  return CANNED_REPLIES.find(reply => reply.key === key) || null
+}
@@ -0,0 +1,285 @@
+import { readFile } from 'fs/promises'
+
+export interface TranslationInput {
+  text: string
+  // Jezik izvornog teksta ('auto' = translator ga prepoznaje)
+  from: string
+  to: string
+}
+
+export interface TranslationResult {
+  text: string
+  // Prepoznat jezik izvornog teksta (null ako translator ne zna)
+  from: string | null
+}
+
+/**
+ * Translator za poruke gostiju i odgovore posade. Novi translator se dodaje
+ * implementacijom ovog interfejsa i registerTranslator().
+ */
+export interface Translator {
+  readonly name: string
+  readonly description: string
+  // Da li translator može da radi na ovom serveru (npr. postoji rečnik ili lokalni model)
+  isAvailable(): Promise<boolean>
+  translate(input: TranslationInput): Promise<TranslationResult>
+}
+
+// Posada i gosti jezike upisuju punim imenom ("Spanish"), engine-i koriste ISO kodove
+const LANGUAGE_CODES: Record<string, string> = {
+  arabic: 'ar',
+  chinese: 'zh',
+  croatian: 'hr',
+  dutch: 'nl',
+  english: 'en',
+  french: 'fr',
+  german: 'de',
+  greek: 'el',
+  italian: 'it',
+  japanese: 'ja',
+  mandarin: 'zh',
+  portuguese: 'pt',
+  russian: 'ru',
+  serbian: 'sr',
+  spanish: 'es',
+  swedish: 'sv',
+  turkish: 'tr',
+}
+
+/**
+ * ISO kod jezika iz imena ("Spanish") ili koda ("es"); null za nepoznat jezik
+ */
+export function toLanguageCode(language: string | null | undefined): string | null {
+  const value = language?.trim().toLowerCase()
+  if (!value) {
+    return null
+  }
+  if (/^[a-z]{2}$/.test(value)) {
+    return value
+  }
+  return LANGUAGE_CODES[value] || null
+}
+
+// Unos u rečniku: isti izraz na više jezika, npr. { en: 'towel', es: 'toalla' }
+type DictionaryEntry = Record<string, string>
+
+// Gotovi odgovori posade (lib/translation/canned-replies.ts) i najčešće reči iz zahteva gostiju
+const BUILT_IN_ENTRIES: DictionaryEntry[] = [
+  { en: 'On my way', es: 'Voy en camino', fr: "J'arrive", de: 'Ich bin unterwegs', it: 'Sto arrivando', hr: 'Stižem', ru: 'Уже иду' },
+  {
+    en: 'I will be with you in a few minutes',
+    es: 'Estaré con usted en unos minutos',
+    fr: 'Je serai avec vous dans quelques minutes',
+    de: 'Ich bin in wenigen Minuten bei Ihnen',
+    it: 'Sarò da lei tra pochi minuti',
+    hr: 'Bit ću kod vas za nekoliko minuta',
+    ru: 'Буду у вас через несколько минут',
+  },
+  {
+    en: 'Please wait a moment',
+    es: 'Por favor, espere un momento',
+    fr: 'Veuillez patienter un instant',
+    de: 'Bitte warten Sie einen Moment',
+    it: 'Attenda un momento, per favore',
+    hr: 'Molim vas, pričekajte trenutak',
+    ru: 'Пожалуйста, подождите минуту',
+  },
+  {
+    en: 'Your request has been received',
+    es: 'Hemos recibido su solicitud',
+    fr: 'Votre demande a bien été reçue',
+    de: 'Ihre Anfrage ist eingegangen',
+    it: 'La sua richiesta è stata ricevuta',
+    hr: 'Vaš zahtjev je zaprimljen',
+    ru: 'Ваш запрос получен',
+  },
+  {
+    en: 'Your request has been completed',
+    es: 'Su solicitud ha sido atendida',
+    fr: 'Votre demande a été traitée',
+    de: 'Ihre Anfrage wurde erledigt',
+    it: 'La sua richiesta è stata completata',
+    hr: 'Vaš zahtjev je izvršen',
+    ru: 'Ваш запрос выполнен',
+  },
+  { en: 'towel', es: 'toalla', fr: 'serviette', de: 'handtuch', it: 'asciugamano', hr: 'ručnik', ru: 'полотенце' },
+  { en: 'towels', es: 'toallas', fr: 'serviettes', de: 'handtücher', it: 'asciugamani', hr: 'ručnici', ru: 'полотенца' },
+  { en: 'water', es: 'agua', fr: 'eau', de: 'wasser', it: 'acqua', hr: 'voda', ru: 'вода' },
+  { en: 'ice', es: 'hielo', fr: 'glace', de: 'eis', it: 'ghiaccio', hr: 'led', ru: 'лёд' },
+  { en: 'coffee', es: 'café', fr: 'café', de: 'kaffee', it: 'caffè', hr: 'kava', ru: 'кофе' },
+  { en: 'tea', es: 'té', fr: 'thé', de: 'tee', it: 'tè', hr: 'čaj', ru: 'чай' },
+  { en: 'please', es: 'por favor', fr: "s'il vous plaît", de: 'bitte', it: 'per favore', hr: 'molim', ru: 'пожалуйста' },
+  { en: 'help', es: 'ayuda', fr: 'aide', de: 'hilfe', it: 'aiuto', hr: 'pomoć', ru: 'помощь' },
+  { en: 'doctor', es: 'médico', fr: 'médecin', de: 'arzt', it: 'medico', hr: 'liječnik', ru: 'врач' },
+  { en: 'more', es: 'más', fr: 'plus', de: 'mehr', it: 'più', hr: 'još', ru: 'ещё' },
+  { en: 'cold', es: 'frío', fr: 'froid', de: 'kalt', it: 'freddo', hr: 'hladno', ru: 'холодно' },
+  { en: 'hot', es: 'caliente', fr: 'chaud', de: 'heiß', it: 'caldo', hr: 'vruće', ru: 'жарко' },
+]
+
+const DICTIONARY_FILE = process.env.TRANSLATION_DICTIONARY_FILE || 'data/translation/dictionary.json'
+const LOCAL_MODEL_URL = process.env.TRANSLATION_LOCAL_URL || ''
+const LOCAL_MODEL_TIMEOUT_MS = parseInt(process.env.TRANSLATION_TIMEOUT_MS || '10000', 10)
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[.,!?;:"()¡¿«»„“”]/g, ' ').replace(/\s+/g, ' ').trim()
+
+/**
+ * Offline rečnik - prevodi cele izraze, a ostalo reč po reč.
+ * Ugrađeni unosi se dopunjuju iz JSON fajla (TRANSLATION_DICTIONARY_FILE, { "entries": [...] }).
+ */
+export class DictionaryTranslator implements Translator {
+  readonly name = 'dictionary'
+  readonly description = 'Offline phrase dictionary'
+
+  private entries: DictionaryEntry[] | null = null
+
+  constructor(private readonly file: string | null = DICTIONARY_FILE) {}
+
+  async isAvailable(): Promise<boolean> {
+    return true
+  }
+
+  async translate(input: TranslationInput): Promise<TranslationResult> {
+    const entries = await this.load()
+    const phrase = normalize(input.text)
+
+    // Ceo izraz iz rečnika
+    for (const entry of entries) {
+      const from = this.matchLanguage(entry, phrase, input.from)
+      if (from && entry[input.to]) {
+        return { text: entry[input.to], from }
+      }
+    }
+
+    // Reč po reč - nepoznate reči ostaju u originalu
+    let translated = 0
+    let detected: string | null = input.from === 'auto' ? null : input.from
+    const words = phrase.split(' ').map(word => {
+      for (const entry of entries) {
+        const from = this.matchLanguage(entry, word, detected || 'auto')
+        if (from && entry[input.to]) {
+          translated++
+          detected = from
+          return entry[input.to]
+        }
+      }
+      return word
+    })
+
+    if (translated === 0) {
+      throw new Error(`Rečnik nema prevod za "${input.text}"`)
+    }
+
+    return { text: words.join(' '), from: detected }
+  }
+
+  private matchLanguage(entry: DictionaryEntry, text: string, from: string): string | null {
+    if (from !== 'auto') {
+      return entry[from] && normalize(entry[from]) === text ? from : null
+    }
+    const match = Object.entries(entry).find(([, value]) => normalize(value) === text)
+    return match ? match[0] : null
+  }
+
+  private async load(): Promise<DictionaryEntry[]> {
+    if (this.entries) {
+      return this.entries
+    }
+
+    let extra: DictionaryEntry[] = []
+    if (this.file) {
+      try {
+        const parsed = JSON.parse(await readFile(this.file, 'utf8'))
+        extra = Array.isArray(parsed?.entries) ? parsed.entries : []
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`Greška pri čitanju rečnika ${this.file}:`, error)
+        }
+      }
+    }
+
+    // Unosi iz fajla imaju prednost nad ugrađenim
+    this.entries = [...extra, ...BUILT_IN_ENTRIES]
+    return this.entries
+  }
+}
+
+/**
+ * Lokalni model za prevođenje na serveru broda (LibreTranslate API), bez interneta
+ */
+export class LocalModelTranslator implements Translator {
+  readonly name = 'local_model'
+  readonly description = 'Local translation model on the ship server'
+
+  constructor(private readonly url: string = LOCAL_MODEL_URL) {}
+
+  async isAvailable(): Promise<boolean> {
+    if (!this.url) {
+      return false
+    }
+
+    try {
+      const response = await fetch(`${this.url}/languages`, { signal: AbortSignal.timeout(2000) })
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+
+  async translate(input: TranslationInput): Promise<TranslationResult> {
+    if (!this.url) {
+      throw new Error('TRANSLATION_LOCAL_URL nije podešen')
+    }
+
+    const response = await fetch(`${this.url}/translate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ q: input.text, source: input.from, target: input.to, format: 'text' }),
+      signal: AbortSignal.timeout(LOCAL_MODEL_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Lokalni model je vratio status ${response.status}`)
+    }
+
+    const data = await response.json() as { translatedText: string; detectedLanguage?: { language: string } }
+    return {
+      text: data.translatedText,
+      from: input.from === 'auto' ? data.detectedLanguage?.language ?? null : input.from,
+    }
+  }
+}
+
+/**
+ * Translator za testove i razvoj - tekst samo označi ciljnim jezikom
+ */
+export class StubTranslator implements Translator {
+  readonly name = 'stub'
+  readonly description = 'Marks text with the target language (tests and development)'
+
+  async isAvailable(): Promise<boolean> {
+    return true
+  }
+
+  async translate(input: TranslationInput): Promise<TranslationResult> {
+    return { text: `[${input.to}] ${input.text}`, from: input.from === 'auto' ? null : input.from }
+  }
+}
+
+const translators = new Map<string, Translator>()
+
+export function registerTranslator(translator: Translator) {
+  translators.set(translator.name, translator)
+}
+
+export function getTranslator(name: string): Translator | null {
+  return translators.get(name) || null
+}
+
+export function listTranslators(): Translator[] {
+  return Array.from(translators.values())
+}
+
+registerTranslator(new DictionaryTranslator())
+registerTranslator(new LocalModelTranslator())
+registerTranslator(new StubTranslator())
@@ -1,5 +1,6 @@
 import mqtt, { MqttClient } from 'mqtt';
 import { EventEmitter } from 'events';
+import { DEVICE_ACTIONS, legacyTopic } from '@obedio/mqtt-contract';
 
 export interface VirtualDeviceConfig {
   uid?: string;
@@ -139,7 +140,7 @@ export abstract class VirtualDevice extends EventEmitter {
   }
 
   protected sendHeartbeat(): void {
-    const topic = `obedio/device/${this.config.uid}/heartbeat`;
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.HEARTBEAT);
     const payload = {
       timestamp: new Date().toISOString(),
       isVirtual: true
@@ -156,7 +157,7 @@ export abstract class VirtualDevice extends EventEmitter {
   }
 
   publishStatus(): void {
-    const topic = `obedio/device/${this.config.uid}/status`;
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.STATUS);
     const payload = {
       battery: Math.round(this.batteryLevel),
       signal: Math.round(this.signalStrength),
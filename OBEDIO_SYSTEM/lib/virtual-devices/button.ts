@@ -1,4 +1,5 @@
 import { VirtualDevice, VirtualDeviceConfig } from './base';
+import { DEVICE_ACTIONS, legacyTopic } from '@obedio/mqtt-contract';
 
 export interface ButtonPressOptions {
   voiceMessage?: string;
@@ -26,7 +27,7 @@ export class VirtualSmartButton extends VirtualDevice {
     this.pressCount++;
     this.lastPressTime = Date.now();
 
-    const topic = `obedio/device/${this.config.uid}/press`;
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.PRESS);
     const payload = {
       pressType: options?.longPress ? 'long' : 'short',
       emergency: options?.emergency || false,
@@ -58,7 +59,7 @@ export class VirtualSmartButton extends VirtualDevice {
   private simulateVoiceRecording(transcript: string): void {
     // Simulate a delay for voice processing
     setTimeout(() => {
-      const voiceTopic = `obedio/device/${this.config.uid}/voice`;
+      const voiceTopic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.VOICE);
       const voicePayload = {
         transcript,
         duration: Math.max(1, transcript.length * 0.1), // Rough estimate
@@ -111,22 +111,23 @@ export class FailureSimulator {
    */
   private simulateBatteryDrain(device: VirtualDevice, scenario: FailureScenario): void {
     const targetLevel = scenario.parameters?.targetLevel || 0;
-    const drainRate = scenario.parameters?.drainRate || 1; // % per second
+    const drainRate = scenario.parameters?.drainRate || 1; // % per step
+    const interval = scenario.parameters?.interval || 1000; // ms between steps
     
     if (scenario.parameters?.instant) {
       device.simulateBatteryDrain(true, targetLevel);
     } else {
-      const interval = setInterval(() => {
+      const timer = setInterval(() => {
         const currentBattery = device.getStatus().battery;
         if (currentBattery <= targetLevel) {
-          clearInterval(interval);
+          clearInterval(timer);
           this.activeFailures.delete(`${(device as any).config.uid}-battery_drain`);
           return;
         }
         device.simulateBatteryDrain(true, currentBattery - drainRate);
-      }, 1000);
+      }, interval);
 
-      this.activeFailures.set(`${(device as any).config.uid}-battery_drain`, interval);
+      this.activeFailures.set(`${(device as any).config.uid}-battery_drain`, timer);
     }
   }
 
@@ -362,6 +363,17 @@ export const PREDEFINED_SCENARIOS: FailureScenario[] = [
       drainRate: 2
     }
   },
+  {
+    id: 'stuck_on_firmware',
+    name: 'Stuck-on Firmware',
+    description: 'Simulates firmware that never sleeps, draining the battery far faster than other devices',
+    failureType: 'battery_drain',
+    parameters: {
+      targetLevel: 0,
+      drainRate: 1,
+      interval: 60000
+    }
+  },
   {
     id: 'poor_signal_area',
     name: 'Poor Signal Area',
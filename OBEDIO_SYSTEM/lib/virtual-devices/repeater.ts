@@ -1,4 +1,5 @@
 import { VirtualDevice, VirtualDeviceConfig } from './base';
+import { legacyTopic } from '@obedio/mqtt-contract';
 
 export interface RepeaterStats {
   messagesRelayed: number;
@@ -61,7 +62,7 @@ export class VirtualRepeater extends VirtualDevice {
       const relay = this.relayQueue.shift();
       if (!relay) return;
 
-      const topic = `obedio/repeater/${this.config.uid}/relay`;
+      const topic = legacyTopic(this.config.uid!, 'relay', 'repeater');
       const payload = {
         ...relay,
         rssi: this.calculateRSSI(fromDevice),
@@ -99,7 +100,7 @@ export class VirtualRepeater extends VirtualDevice {
     this.connectedDevices.set(deviceUid, device);
     this.stats.devicesConnected = this.connectedDevices.size;
 
-    const topic = `obedio/repeater/${this.config.uid}/device/connected`;
+    const topic = legacyTopic(this.config.uid!, 'device/connected', 'repeater');
     const payload = {
       device,
       totalDevices: this.stats.devicesConnected,
@@ -123,7 +124,7 @@ export class VirtualRepeater extends VirtualDevice {
     this.connectedDevices.delete(deviceUid);
     this.stats.devicesConnected = this.connectedDevices.size;
 
-    const topic = `obedio/repeater/${this.config.uid}/device/disconnected`;
+    const topic = legacyTopic(this.config.uid!, 'device/disconnected', 'repeater');
     const payload = {
       deviceUid,
       totalDevices: this.stats.devicesConnected,
@@ -145,7 +146,7 @@ export class VirtualRepeater extends VirtualDevice {
     this.repeaterSignalStrength = Math.max(-100, Math.min(-30, strength)); // Clamp between -100 and -30 dBm
     this.stats.signalStrength = this.repeaterSignalStrength;
 
-    const topic = `obedio/repeater/${this.config.uid}/signal`;
+    const topic = legacyTopic(this.config.uid!, 'signal', 'repeater');
     const payload = {
       signalStrength: this.repeaterSignalStrength,
       previousStrength,
@@ -174,7 +175,7 @@ export class VirtualRepeater extends VirtualDevice {
     // Apply interference
     this.updateSignalStrength(this.repeaterSignalStrength + interference[severity]);
 
-    const topic = `obedio/repeater/${this.config.uid}/interference`;
+    const topic = legacyTopic(this.config.uid!, 'interference', 'repeater');
     const payload = {
       severity,
       duration,
@@ -221,7 +222,7 @@ export class VirtualRepeater extends VirtualDevice {
       }
     }, 100); // Every 100ms
 
-    const topic = `obedio/repeater/${this.config.uid}/congestion`;
+    const topic = legacyTopic(this.config.uid!, 'congestion', 'repeater');
     const payload = {
       messageCount,
       duration,
@@ -291,7 +292,7 @@ export class VirtualRepeater extends VirtualDevice {
     staleDevices.forEach(uid => this.unregisterDevice(uid));
 
     if (staleDevices.length > 0) {
-      const topic = `obedio/repeater/${this.config.uid}/cleanup`;
+      const topic = legacyTopic(this.config.uid!, 'cleanup', 'repeater');
       const payload = {
         removedDevices: staleDevices,
         timestamp: new Date().toISOString(),
@@ -307,7 +308,7 @@ export class VirtualRepeater extends VirtualDevice {
    * Simulate mesh network formation
    */
   simulateMeshNetwork(otherRepeaters: string[]): void {
-    const topic = `obedio/repeater/${this.config.uid}/mesh`;
+    const topic = legacyTopic(this.config.uid!, 'mesh', 'repeater');
     const payload = {
       meshId: `MESH_${Date.now()}`,
       repeaters: [this.config.uid, ...otherRepeaters],
@@ -340,7 +341,7 @@ export class VirtualRepeater extends VirtualDevice {
    * Simulate firmware update
    */
   simulateFirmwareUpdate(version: string, duration: number = 30000): void {
-    const topic = `obedio/repeater/${this.config.uid}/firmware/update`;
+    const topic = legacyTopic(this.config.uid!, 'firmware/update', 'repeater');
     const startPayload = {
       currentVersion: this.firmwareVersion,
       targetVersion: version,
@@ -1,4 +1,5 @@
 import { VirtualDevice, VirtualDeviceConfig } from './base';
+import { DEVICE_ACTIONS, legacyTopic } from '@obedio/mqtt-contract';
 
 export interface Location {
   lat: number;
@@ -28,7 +29,7 @@ export class VirtualSmartwatch extends VirtualDevice {
    */
   assignToCrew(crewId: number): void {
     this.assignedCrewId = crewId;
-    const topic = `obedio/device/${this.config.uid}/assign`;
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.ASSIGN);
     const payload = {
       crewId,
       timestamp: new Date().toISOString(),
@@ -48,7 +49,7 @@ export class VirtualSmartwatch extends VirtualDevice {
     const previousStatus = this.crewStatus;
     this.crewStatus = status;
     
-    const topic = `obedio/device/${this.config.uid}/crew/status`;
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.CREW_STATUS);
     const payload = {
       crewId: this.assignedCrewId,
       status,
@@ -65,6 +66,60 @@ export class VirtualSmartwatch extends VirtualDevice {
     this.lastActivityTime = Date.now();
   }
 
+  /**
+   * Put the watch on or take it off - wearing it confirms the start of a planned shift
+   */
+  setWorn(worn: boolean): void {
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.WORN);
+    const payload = {
+      crewId: this.assignedCrewId,
+      worn,
+      timestamp: new Date().toISOString(),
+      isVirtual: true
+    };
+
+    this.publish(topic, payload);
+    this.eventRecorder.record('worn_change', payload);
+    this.emit('worn', payload);
+  }
+
+  /**
+   * Tap "Start watch" / "End watch"
+   */
+  tapDuty(action: 'start' | 'end'): void {
+    const topic = legacyTopic(this.config.uid!, action === 'start' ? DEVICE_ACTIONS.DUTY_START : DEVICE_ACTIONS.DUTY_END);
+    const payload = {
+      crewId: this.assignedCrewId,
+      timestamp: new Date().toISOString(),
+      isVirtual: true
+    };
+
+    this.publish(topic, payload);
+    this.eventRecorder.record(`duty_${action}`, payload);
+    this.emit('duty', { ...payload, action });
+
+    this.lastActivityTime = Date.now();
+  }
+
+  /**
+   * Acknowledge a shift handover from the outgoing crew
+   */
+  acknowledgeHandover(handoverId: number): void {
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.HANDOVER_ACK);
+    const payload = {
+      crewId: this.assignedCrewId,
+      handoverId,
+      timestamp: new Date().toISOString(),
+      isVirtual: true
+    };
+
+    this.publish(topic, payload);
+    this.eventRecorder.record('handover_ack', payload);
+    this.emit('handover_ack', payload);
+
+    this.lastActivityTime = Date.now();
+  }
+
   /**
    * Update crew member location
    */
@@ -72,7 +127,7 @@ export class VirtualSmartwatch extends VirtualDevice {
     const previousLocation = { ...this.currentLocation };
     this.currentLocation = location;
     
-    const topic = `obedio/device/${this.config.uid}/location`;
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.LOCATION);
     const payload = {
       ...location,
       crewId: this.assignedCrewId,
@@ -99,7 +154,7 @@ export class VirtualSmartwatch extends VirtualDevice {
 
     this.activeRequests.push(requestId);
     
-    const topic = `obedio/device/${this.config.uid}/notification`;
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.NOTIFICATION);
     const payload = {
       type: 'service_request',
       requestId,
@@ -135,7 +190,7 @@ export class VirtualSmartwatch extends VirtualDevice {
       return;
     }
 
-    const topic = `obedio/device/${this.config.uid}/request/accept`;
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.REQUEST_ACCEPT);
     const payload = {
       requestId,
       crewId: this.assignedCrewId,
@@ -157,7 +212,7 @@ export class VirtualSmartwatch extends VirtualDevice {
    * Decline a service request
    */
   declineRequest(requestId: number, reason?: string): void {
-    const topic = `obedio/device/${this.config.uid}/request/decline`;
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.REQUEST_DECLINE);
     const payload = {
       requestId,
       crewId: this.assignedCrewId,
@@ -183,7 +238,7 @@ export class VirtualSmartwatch extends VirtualDevice {
       return;
     }
 
-    const topic = `obedio/device/${this.config.uid}/request/complete`;
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.REQUEST_COMPLETE);
     const payload = {
       requestId,
       crewId: this.assignedCrewId,
@@ -211,7 +266,7 @@ export class VirtualSmartwatch extends VirtualDevice {
    * Send SOS/Emergency signal
    */
   sendSOS(message?: string): void {
-    const topic = `obedio/device/${this.config.uid}/sos`;
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.SOS);
     const payload = {
       crewId: this.assignedCrewId,
       location: this.currentLocation,
@@ -341,7 +396,7 @@ export class VirtualSmartwatch extends VirtualDevice {
    * Simulate fall detection
    */
   simulateFall(): void {
-    const topic = `obedio/device/${this.config.uid}/fall`;
+    const topic = legacyTopic(this.config.uid!, DEVICE_ACTIONS.FALL);
     const payload = {
       crewId: this.assignedCrewId,
       location: this.currentLocation,
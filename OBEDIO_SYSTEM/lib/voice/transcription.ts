@@ -0,0 +1,104 @@
+import { execFile } from 'child_process'
+import { access } from 'fs/promises'
+import { promisify } from 'util'
+
+const execFileAsync = promisify(execFile)
+
+export interface TranscriptionInput {
+  filePath: string
+  format: string
+  sampleRate: number | null
+  // Jezik govora ('auto' = engine ga prepoznaje)
+  language: string
+}
+
+export interface TranscriptionResult {
+  text: string
+  language: string | null
+}
+
+/**
+ * Engine za pretvaranje glasovne poruke u tekst. Novi engine se dodaje
+ * implementacijom ovog interfejsa i registerTranscriptionEngine().
+ */
+export interface TranscriptionEngine {
+  readonly name: string
+  readonly description: string
+  // Da li engine može da radi na ovom serveru (npr. postoji model)
+  isAvailable(): Promise<boolean>
+  transcribe(input: TranscriptionInput): Promise<TranscriptionResult>
+}
+
+const WHISPER_BIN = process.env.VOICE_WHISPER_BIN || 'whisper-cli'
+const WHISPER_MODEL = process.env.VOICE_WHISPER_MODEL || 'models/ggml-base.bin'
+const WHISPER_TIMEOUT_MS = parseInt(process.env.VOICE_TRANSCRIBE_TIMEOUT_MS || '120000', 10)
+
+/**
+ * Lokalni whisper.cpp - radi bez interneta, na serveru broda.
+ * Očekuje WAV snimak; whisper.cpp sam prevodi uzorkovanje na 16 kHz.
+ */
+export class WhisperLocalEngine implements TranscriptionEngine {
+  readonly name = 'whisper_local'
+  readonly description = 'Offline whisper.cpp on the ship server'
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await access(WHISPER_MODEL)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async transcribe(input: TranscriptionInput): Promise<TranscriptionResult> {
+    if (input.format !== 'wav') {
+      throw new Error(`Lokalni engine ne podržava format ${input.format}`)
+    }
+
+    const { stdout } = await execFileAsync(
+      WHISPER_BIN,
+      ['-m', WHISPER_MODEL, '-f', input.filePath, '-l', input.language, '--no-timestamps', '--no-prints'],
+      { timeout: WHISPER_TIMEOUT_MS }
+    )
+
+    return {
+      text: stdout.replace(/\s+/g, ' ').trim(),
+      language: input.language === 'auto' ? null : input.language,
+    }
+  }
+}
+
+/**
+ * Engine za testove i razvoj bez modela - vraća unapred zadat tekst
+ */
+export class StubTranscriptionEngine implements TranscriptionEngine {
+  readonly name = 'stub'
+  readonly description = 'Fixed transcript for tests and development'
+
+  constructor(private readonly text: string = process.env.VOICE_STUB_TRANSCRIPT || 'Test voice message') {}
+
+  async isAvailable(): Promise<boolean> {
+    return true
+  }
+
+  async transcribe(input: TranscriptionInput): Promise<TranscriptionResult> {
+    return { text: this.text, language: input.language === 'auto' ? null : input.language }
+  }
+}
+
+const engines = new Map<string, TranscriptionEngine>()
+
+export function registerTranscriptionEngine(engine: TranscriptionEngine) {
+  engines.set(engine.name, engine)
+}
+
+export function getTranscriptionEngine(name: string): TranscriptionEngine | null {
+  return engines.get(name) || null
+}
+
+export function listTranscriptionEngines(): TranscriptionEngine[] {
+  return Array.from(engines.values())
+}
+
+registerTranscriptionEngine(new WhisperLocalEngine())
+registerTranscriptionEngine(new StubTranscriptionEngine())
@@ -1,6 +1,12 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
-import { verifyJWT } from '@/lib/auth'
+import { verifyJWT, isAuthBypassEnabled, DEVICE_TOKEN_HEADER } from '@/lib/auth'
+
+// API putanje dostupne bez prijave
+const publicApiPaths = ['/api/auth/login', '/api/auth/logout']
+
+// API putanje koje uređaji pozivaju sa tajnom uređaja umesto prijave (tajnu proverava route handler)
+const deviceApiPaths = ['/api/voice']
 
 export function middleware(request: NextRequest) {
   // PRIVREMENO: Zaobići autentikaciju za potrebe debugovanja i razvoja
@@ -21,15 +27,24 @@ export function middleware(request: NextRequest) {
     '/tokens'      // PRIVREMENO - dozvoliti direktan pristup tokens stranici
   ]
   
-  // Assets i API putanje koje ne zahtevaju autentikaciju
+  // Assets ne zahtevaju autentikaciju
   if (
     request.nextUrl.pathname.startsWith('/_next') ||
-    request.nextUrl.pathname.includes('/api/') ||
     request.nextUrl.pathname.startsWith('/favicon.ico')
   ) {
     return NextResponse.next()
   }
 
+  // API: bez tokena nema pristupa; uloge i dozvole proverava svaki route handler (authorize)
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    const hasToken = request.cookies.has('authToken') || request.headers.has('x-auth-token')
+    const isDeviceCall = request.headers.has(DEVICE_TOKEN_HEADER) && deviceApiPaths.includes(request.nextUrl.pathname)
+    if (hasToken || isDeviceCall || isAuthBypassEnabled() || publicApiPaths.includes(request.nextUrl.pathname)) {
+      return NextResponse.next()
+    }
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
   // Provera da li je putanja javna
   const isPublicPath = publicPaths.some(path => 
     request.nextUrl.pathname === path || request.nextUrl.pathname.startsWith(`${path}/`)
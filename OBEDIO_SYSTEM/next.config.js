@@ -2,6 +2,10 @@
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
+  experimental: {
+    // Deljeni MQTT ugovor (../shared/mqtt-contract) je van ovog projekta
+    externalDir: true,
+  },
 }
 
 module.exports = nextConfig
@@ -7,24 +7,97 @@ import {
   upsertDevice
 } from '../lib/mqtt-handlers/device-handler'
 import {
-  handleButtonPress
+  handleButtonPress,
+  handleEmergency
 } from '../lib/mqtt-handlers/request-handler'
 import {
   handleProvisionRequest
 } from '../lib/mqtt-handlers/provision-handler'
+import {
+  handleWatchRequestAccept,
+  handleWatchRequestDecline,
+  handleWatchRequestComplete,
+  handleWatchRequestReply,
+  handleWatchCrewStatus,
+  handleWatchLocation,
+  handleWatchWorn,
+  handleWatchDutyStart,
+  handleWatchDutyEnd,
+  handleWatchHandoverAck
+} from '../lib/mqtt-handlers/watch-handler'
+import { WatchService } from '../lib/services/watch-service'
+import { EscalationService } from '../lib/services/escalation-service'
+import { DutyService } from '../lib/services/duty-service'
+import { DispatchService } from '../lib/services/dispatch-service'
+import { DndService } from '../lib/services/dnd-service'
+import { FirmwareService } from '../lib/services/firmware-service'
+import { DeviceConfigService } from '../lib/services/device-config-service'
+import { VoiceService } from '../lib/services/voice-service'
+import { TranslationService } from '../lib/services/translation-service'
+import { TopologyService } from '../lib/services/topology-service'
+import { CoverageService } from '../lib/services/coverage-service'
+import { BatteryService } from '../lib/services/battery-service'
+import { ShiftRequestService } from '../lib/services/shift-request-service'
+import { HandoverService } from '../lib/services/handover-service'
+import {
+  DEVICE_ACTIONS,
+  DeviceTopic,
+  MemoryDeviceDirectory,
+  SUBSCRIPTIONS,
+  TopicTranslator,
+  deviceSubscriptions,
+  legacyTopic,
+  parseTopic,
+  readPayload,
+  toDeviceType,
+  toTopicSegment,
+  topicMatches
+} from '@obedio/mqtt-contract'
 
 // Initialize Prisma client
 const prisma = new PrismaClient()
 
 // MQTT Topics
 const TOPICS = {
-  BUTTON_PRESS: 'obedio/device/+/press',
-  BUTTON_STATUS: 'obedio/device/+/status',
-  DEVICE_HEARTBEAT: 'obedio/device/+/heartbeat',
-  SYSTEM: 'obedio/system/#',
-  PROVISION: 'obedio/provision/request'
+  BUTTON_PRESS: legacyTopic('+', DEVICE_ACTIONS.PRESS),
+  BUTTON_STATUS: legacyTopic('+', DEVICE_ACTIONS.STATUS),
+  DEVICE_HEARTBEAT: legacyTopic('+', DEVICE_ACTIONS.HEARTBEAT),
+  WATCH_ACCEPT: legacyTopic('+', DEVICE_ACTIONS.REQUEST_ACCEPT),
+  WATCH_DECLINE: legacyTopic('+', DEVICE_ACTIONS.REQUEST_DECLINE),
+  WATCH_COMPLETE: legacyTopic('+', DEVICE_ACTIONS.REQUEST_COMPLETE),
+  WATCH_REPLY: legacyTopic('+', DEVICE_ACTIONS.REQUEST_REPLY),
+  EMERGENCY: legacyTopic('+', DEVICE_ACTIONS.EMERGENCY),
+  WATCH_CREW_STATUS: legacyTopic('+', DEVICE_ACTIONS.CREW_STATUS),
+  WATCH_LOCATION: legacyTopic('+', DEVICE_ACTIONS.LOCATION),
+  WATCH_WORN: legacyTopic('+', DEVICE_ACTIONS.WORN),
+  WATCH_DUTY_START: legacyTopic('+', DEVICE_ACTIONS.DUTY_START),
+  WATCH_DUTY_END: legacyTopic('+', DEVICE_ACTIONS.DUTY_END),
+  WATCH_HANDOVER_ACK: legacyTopic('+', DEVICE_ACTIONS.HANDOVER_ACK),
+  OTA_CHUNK_REQUEST: legacyTopic('+', DEVICE_ACTIONS.OTA_CHUNK_REQUEST),
+  OTA_PROGRESS: legacyTopic('+', DEVICE_ACTIONS.OTA_PROGRESS),
+  CONFIG_APPLIED: legacyTopic('+', DEVICE_ACTIONS.CONFIG_APPLIED),
+  VOICE: legacyTopic('+', DEVICE_ACTIONS.VOICE),
+  VOICE_CHUNK: legacyTopic('+', DEVICE_ACTIONS.VOICE_CHUNK),
+  MESH: legacyTopic('+', DEVICE_ACTIONS.MESH, 'repeater'),
+  MESH_DEPARTURE: legacyTopic('+', DEVICE_ACTIONS.MESH_DEPARTURE, 'repeater'),
+  MESH_SCAN_RESULTS: legacyTopic('+', DEVICE_ACTIONS.MESH_SCAN_RESULTS, 'repeater'),
+  MESH_DEVICE_CONNECTED: legacyTopic('+', DEVICE_ACTIONS.MESH_DEVICE_CONNECTED, 'repeater'),
+  MESH_DEVICE_DISCONNECTED: legacyTopic('+', DEVICE_ACTIONS.MESH_DEVICE_DISCONNECTED, 'repeater'),
+  MESH_RELAY: legacyTopic('+', DEVICE_ACTIONS.MESH_RELAY, 'repeater'),
+  SYSTEM: SUBSCRIPTIONS.SYSTEM,
+  PROVISION: SUBSCRIPTIONS.PROVISION
 }
 
+// Prevod između legacy (obedio/device/{uid}/...) i hijerarhijskih (obedio/{site}/{room}/{type}/{id}/...) topica
+const TOPIC_TRANSLATION_ENABLED = process.env.MQTT_TOPIC_TRANSLATION !== 'false'
+const MQTT_SITE = process.env.MQTT_SITE || 'yacht'
+// Široke pretplate pokrivaju sve topice uređaja iz TOPICS; hijerarhijski topici samo za ovaj site,
+// jer bi obedio/+/+/+/+/# preklopio legacy i sistemske topice i broker bi slao duplikate
+const TRANSLATION_TOPICS = deviceSubscriptions(toTopicSegment(MQTT_SITE))
+
+const deviceDirectory = new MemoryDeviceDirectory({ site: MQTT_SITE })
+const topicTranslator = new TopicTranslator(deviceDirectory)
+
 // MQTT connection parameters
 const MQTT_HOST = process.env.MQTT_HOST || 'mqtt://localhost:1883'
 const MQTT_OPTIONS = {
@@ -43,7 +116,8 @@ client.on('connect', () => {
   console.log('Connected to MQTT broker')
   
   // Subscribe to all relevant topics
-  Object.values(TOPICS).forEach(topic => {
+  const topics = TOPIC_TRANSLATION_ENABLED ? TRANSLATION_TOPICS : Object.values(TOPICS)
+  topics.forEach(topic => {
     client.subscribe(topic, (err) => {
       if (!err) {
         console.log(`Subscribed to ${topic}`)
@@ -52,6 +126,63 @@ client.on('connect', () => {
       }
     })
   })
+
+  // Notifikacije na satove posade idu preko istog MQTT klijenta
+  WatchService.setPublisher((topic, payload) => {
+    client.publish(topic, JSON.stringify(payload), { qos: 1 })
+  })
+
+  // DND stanje kabina se prikazuje na LED-u dugmadi
+  DndService.setPublisher((topic, payload) => {
+    client.publish(topic, JSON.stringify(payload), { qos: 1 })
+  })
+  DndService.sync().catch(error => {
+    console.error('Greška pri početnoj sinhronizaciji DND stanja:', error)
+  })
+  DndService.start()
+
+  // OTA kampanje: ponude i delovi firmware-a idu preko istog MQTT klijenta
+  FirmwareService.setPublisher((topic, payload) => {
+    client.publish(topic, JSON.stringify(payload), { qos: 1 })
+  })
+  FirmwareService.start()
+
+  // Profili konfiguracije se šalju uređajima koji ih nisu potvrdili
+  DeviceConfigService.setPublisher((topic, payload) => {
+    client.publish(topic, JSON.stringify(payload), { qos: 1 })
+  })
+  DeviceConfigService.start()
+
+  // Glasovne poruke stižu u delovima; nedovršeni snimci se odbacuju
+  VoiceService.start()
+
+  // Odgovori posade se prikazuju na uređaju u kabini na jeziku gosta
+  TranslationService.setPublisher((topic, payload) => {
+    client.publish(topic, JSON.stringify(payload), { qos: 1 })
+  })
+  TranslationService.start()
+
+  // Čišćenje starih veza u mesh topologiji i stare istorije signala
+  TopologyService.start()
+  CoverageService.start()
+
+  // Modeli pražnjenja baterija po tipu uređaja i firmware-u
+  BatteryService.start()
+
+  // Obaveštenja o zameni smena na satovima i uključivanje odobrenog odsustva
+  ShiftRequestService.start()
+
+  // Stvarni početak i kraj smena iz rasporeda, uz potvrdu sa sata
+  DutyService.start()
+
+  // Primopredaje smene na satovima (dolazeća posada potvrđuje na satu)
+  HandoverService.start()
+
+  // Pokreni eskalaciju zahteva koje niko nije preuzeo
+  EscalationService.start()
+
+  // Pokreni automatsku dodelu zahteva posadi
+  DispatchService.start()
 })
 
 client.on('error', (error) => {
@@ -63,32 +194,141 @@ client.on('close', () => {
 })
 
 // Handle incoming messages
-client.on('message', async (topic, message) => {
+client.on('message', async (topic, message, packet) => {
   console.log(`Received message on ${topic}: ${message.toString()}`)
   
   try {
     // Parse message as JSON
     const payload = JSON.parse(message.toString())
-    
+    const address = parseTopic(topic)
+
+    // Uređaji sa drugom šemom topica dobijaju kopiju poruke u šemi koju koristi druga strana
+    if (TOPIC_TRANSLATION_ENABLED && address) {
+      await translateMessage(address, topic, payload, packet)
+    }
+
+    // Hijerarhijske poruke obrađujemo tek kada stignu prevedene na legacy topic
+    if (address?.scheme === 'hierarchical') {
+      return
+    }
+
     // Extract device ID from topic
-    const deviceIdMatch = topic.match(/obedio\/device\/([^\/]+)\//)
-    const deviceId = deviceIdMatch ? deviceIdMatch[1] : null
+    const deviceId = address?.scheme === 'legacy' && address.kind === 'device' ? address.uid : null
+    const repeaterId = address?.scheme === 'legacy' && address.kind === 'repeater' ? address.uid : null
     
     // Handle different topic patterns
-    if (topic.match(TOPICS.BUTTON_PRESS.replace('+', '.*'))) {
+    if (topicMatches(TOPICS.WATCH_ACCEPT, topic)) {
+      if (deviceId) {
+        await handleWatchRequestAccept(deviceId, payload)
+      }
+    } else if (topicMatches(TOPICS.WATCH_DECLINE, topic)) {
+      if (deviceId) {
+        await handleWatchRequestDecline(deviceId, payload)
+      }
+    } else if (topicMatches(TOPICS.WATCH_COMPLETE, topic)) {
+      if (deviceId) {
+        await handleWatchRequestComplete(deviceId, payload)
+      }
+    } else if (topicMatches(TOPICS.WATCH_REPLY, topic)) {
+      if (deviceId) {
+        await handleWatchRequestReply(deviceId, payload)
+      }
+    } else if (topicMatches(TOPICS.EMERGENCY, topic)) {
+      // Dugme za hitne slučajeve ili detekcija pada sa sata
+      if (deviceId) {
+        await handleEmergency(deviceId, payload)
+      }
+    } else if (topicMatches(TOPICS.WATCH_CREW_STATUS, topic)) {
+      if (deviceId) {
+        await handleWatchCrewStatus(deviceId, payload)
+      }
+    } else if (topicMatches(TOPICS.WATCH_LOCATION, topic)) {
+      if (deviceId) {
+        await handleWatchLocation(deviceId, payload)
+      }
+    } else if (topicMatches(TOPICS.WATCH_WORN, topic)) {
+      if (deviceId) {
+        await handleWatchWorn(deviceId, payload)
+      }
+    } else if (topicMatches(TOPICS.WATCH_DUTY_START, topic)) {
+      if (deviceId) {
+        await handleWatchDutyStart(deviceId, payload)
+      }
+    } else if (topicMatches(TOPICS.WATCH_DUTY_END, topic)) {
+      if (deviceId) {
+        await handleWatchDutyEnd(deviceId, payload)
+      }
+    } else if (topicMatches(TOPICS.WATCH_HANDOVER_ACK, topic)) {
+      if (deviceId) {
+        await handleWatchHandoverAck(deviceId, payload)
+      }
+    } else if (topicMatches(TOPICS.OTA_CHUNK_REQUEST, topic)) {
+      if (deviceId) {
+        await FirmwareService.handleChunkRequest(deviceId, readPayload(DEVICE_ACTIONS.OTA_CHUNK_REQUEST, payload))
+      }
+    } else if (topicMatches(TOPICS.OTA_PROGRESS, topic)) {
+      if (deviceId) {
+        await FirmwareService.handleProgress(deviceId, readPayload(DEVICE_ACTIONS.OTA_PROGRESS, payload))
+      }
+    } else if (topicMatches(TOPICS.CONFIG_APPLIED, topic)) {
+      if (deviceId) {
+        await DeviceConfigService.handleApplied(deviceId, readPayload(DEVICE_ACTIONS.CONFIG_APPLIED, payload))
+      }
+    } else if (topicMatches(TOPICS.BUTTON_PRESS, topic)) {
       // Koristimo importovanu funkciju iz request-handler-a
       if (deviceId) {
-        await handleButtonPress(deviceId, payload)
+        await dispatchNewRequest(await handleButtonPress(deviceId, payload))
       }
-    } else if (topic.match(TOPICS.BUTTON_STATUS.replace('+', '.*'))) {
+    } else if (topicMatches(TOPICS.VOICE_CHUNK, topic)) {
+      // Glasovna poruka bez prethodnog pritiska pravi novi zahtev
+      if (deviceId) {
+        await dispatchNewRequest(await VoiceService.handleChunk(deviceId, readPayload(DEVICE_ACTIONS.VOICE_CHUNK, payload)))
+      }
+    } else if (topicMatches(TOPICS.VOICE, topic)) {
+      // Uređaj koji sam prepoznaje govor šalje samo transkript
+      if (deviceId) {
+        await VoiceService.handleTranscript(deviceId, readPayload(DEVICE_ACTIONS.VOICE, payload))
+      }
+    } else if (topicMatches(TOPICS.BUTTON_STATUS, topic)) {
       // Koristimo importovanu funkciju iz device-handler-a
       if (deviceId) {
         await handleDeviceStatus(deviceId, payload)
+        const status = readPayload(DEVICE_ACTIONS.STATUS, payload)
+        await CoverageService.recordStatus(deviceId, status)
+        // Istorija baterije za plan zamene i upozorenje o brzom pražnjenju
+        await BatteryService.recordStatus(deviceId, status)
       }
-    } else if (topic.match(TOPICS.DEVICE_HEARTBEAT.replace('+', '.*'))) {
+    } else if (topicMatches(TOPICS.DEVICE_HEARTBEAT, topic)) {
       // Koristimo importovanu funkciju iz device-handler-a
       if (deviceId) {
         await handleDeviceHeartbeat(deviceId)
+        // Izostali heartbeat-i su procena izgubljenih paketa za analizu pokrivenosti
+        await CoverageService.recordHeartbeat(deviceId)
+      }
+    } else if (topicMatches(TOPICS.MESH, topic)) {
+      // Mesh stanje repetitora - uređaji koje čuje i repetitori preko kojih šalje
+      if (repeaterId) {
+        await TopologyService.handleMesh(repeaterId, readPayload(DEVICE_ACTIONS.MESH, payload))
+      }
+    } else if (topicMatches(TOPICS.MESH_DEPARTURE, topic)) {
+      if (repeaterId) {
+        await TopologyService.handleDeparture(repeaterId, readPayload(DEVICE_ACTIONS.MESH_DEPARTURE, payload))
+      }
+    } else if (topicMatches(TOPICS.MESH_SCAN_RESULTS, topic)) {
+      if (repeaterId) {
+        await TopologyService.handleScanResults(repeaterId, readPayload(DEVICE_ACTIONS.MESH_SCAN_RESULTS, payload))
+      }
+    } else if (topicMatches(TOPICS.MESH_DEVICE_CONNECTED, topic)) {
+      if (repeaterId) {
+        await TopologyService.handleDeviceConnected(repeaterId, readPayload(DEVICE_ACTIONS.MESH_DEVICE_CONNECTED, payload))
+      }
+    } else if (topicMatches(TOPICS.MESH_DEVICE_DISCONNECTED, topic)) {
+      if (repeaterId) {
+        await TopologyService.handleDeviceDisconnected(repeaterId, readPayload(DEVICE_ACTIONS.MESH_DEVICE_DISCONNECTED, payload))
+      }
+    } else if (topicMatches(TOPICS.MESH_RELAY, topic)) {
+      if (repeaterId) {
+        await TopologyService.handleRelay(repeaterId, readPayload(DEVICE_ACTIONS.MESH_RELAY, payload))
       }
     } else if (topic === TOPICS.PROVISION) {
       // Obradi provisioning zahtev
@@ -100,7 +340,7 @@ client.on('message', async (topic, message) => {
         client.publish(responseTopic, JSON.stringify(result))
         console.log(`Published provision response to ${responseTopic}:`, result)
       }
-    } else if (topic.match(TOPICS.SYSTEM.replace('#', '.*'))) {
+    } else if (topicMatches(TOPICS.SYSTEM, topic)) {
       await handleSystemMessage(topic, payload)
     }
   } catch (error) {
@@ -108,6 +348,44 @@ client.on('message', async (topic, message) => {
   }
 })
 
+/**
+ * Novi zahtev odmah nudimo najpogodnijem članu posade,
+ * osim ako ga je pravilo dugmeta već uputilo određenom članu
+ */
+async function dispatchNewRequest(newRequest: { id: number; assignedTo: number | null } | null | undefined) {
+  if (newRequest && !newRequest.assignedTo && process.env.AUTO_DISPATCH_ENABLED !== 'false') {
+    await DispatchService.dispatch(newRequest.id)
+  }
+}
+
+/**
+ * Objavljuje kopiju poruke uređaja u drugoj šemi topica
+ */
+async function translateMessage(address: DeviceTopic, topic: string, payload: unknown, packet: mqtt.IPublishPacket) {
+  // Legacy uređaje smeštamo u hijerarhiju prema sobi i tipu iz baze
+  if (address.scheme === 'legacy' && !deviceDirectory.has(address.uid)) {
+    const device = await prisma.device.findUnique({ where: { uid: address.uid } })
+    if (device) {
+      deviceDirectory.remember(device.uid, {
+        site: toTopicSegment(MQTT_SITE),
+        room: toTopicSegment(device.room),
+        type: toDeviceType(device.type),
+        id: device.uid
+      })
+    }
+  }
+
+  const translated = topicTranslator.translate(topic, payload)
+  if (!translated) {
+    return
+  }
+
+  client.publish(translated.topic, JSON.stringify(translated.payload), {
+    qos: packet.qos,
+    retain: packet.retain
+  })
+}
+
 // Napomena: Handler funkcija je uklonjena odavde i prebačena u lib/mqtt-handlers/request-handler.ts
 
 // Napomena: Handler funkcija je uklonjena odavde i prebačena u lib/mqtt-handlers/device-handler.ts
@@ -157,6 +435,19 @@ async function handleSystemMessage(topic: string, payload: any) {
 // Handle process termination
 process.on('SIGINT', () => {
   console.log('MQTT Bridge shutting down...')
+  EscalationService.stop()
+  DispatchService.stop()
+  DndService.stop()
+  FirmwareService.stop()
+  DeviceConfigService.stop()
+  VoiceService.stop()
+  TranslationService.stop()
+  TopologyService.stop()
+  CoverageService.stop()
+  BatteryService.stop()
+  ShiftRequestService.stop()
+  DutyService.stop()
+  HandoverService.stop()
   client.end()
   prisma.$disconnect()
   process.exit(0)
@@ -164,6 +455,19 @@ process.on('SIGINT', () => {
 
 process.on('SIGTERM', () => {
   console.log('MQTT Bridge shutting down...')
+  EscalationService.stop()
+  DispatchService.stop()
+  DndService.stop()
+  FirmwareService.stop()
+  DeviceConfigService.stop()
+  VoiceService.stop()
+  TranslationService.stop()
+  TopologyService.stop()
+  CoverageService.stop()
+  BatteryService.stop()
+  ShiftRequestService.stop()
+  DutyService.stop()
+  HandoverService.stop()
   client.end()
   prisma.$disconnect()
   process.exit(0)
@@ -0,0 +1,236 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { PrismaClient, Prisma } from '@prisma/client'
+import { signJWT } from '@/lib/auth'
+import { emitter } from '@/lib/sseEmitter'
+import { GET as getRequest, PUT as updateRequest, DELETE as cancelRequest } from '@/app/api/requests/[id]/route'
+import { POST as transferRequest } from '@/app/api/requests/[id]/transfer/route'
+import { POST as completeRequest } from '@/app/api/requests/[id]/complete/route'
+import { GET as listRequests, POST as createRequest } from '@/app/api/requests/route'
+import { WatchService } from '@/lib/services/watch-service'
+
+const auth = vi.hoisted(() => ({ token: undefined as string | undefined }))
+
+// Token iz cookie-a kao u pravom zahtevu
+vi.mock('next/headers', () => ({
+  cookies: () => ({
+    get: (name: string) => (name === 'authToken' && auth.token ? { name, value: auth.token } : undefined),
+    set: vi.fn(),
+    delete: vi.fn(),
+  }),
+  headers: () => new Headers(),
+}))
+
+// Mock za slanje na satove
+vi.mock('@/lib/services/watch-service', () => ({
+  WatchService: {
+    notifyUsers: vi.fn().mockResolvedValue([]),
+    broadcast: vi.fn().mockResolvedValue(undefined)
+  }
+}))
+
+// Mock za Prisma klijenta; Prisma namespace ostaje pravi zbog modela iz šeme
+vi.mock('@prisma/client', async importOriginal => {
+  const delegate = () => ({
+    findUnique: vi.fn(),
+    findMany: vi.fn().mockResolvedValue([]),
+    count: vi.fn().mockResolvedValue(0),
+    create: vi.fn(),
+    update: vi.fn()
+  })
+  const mockPrismaClient = {
+    request: delegate(),
+    device: delegate(),
+    user: delegate(),
+    requestEvent: delegate(),
+    voiceRecording: delegate(),
+    crewReply: delegate(),
+    guest: delegate(),
+    $disconnect: vi.fn()
+  }
+
+  return {
+    ...await importOriginal<typeof import('@prisma/client')>(),
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+type QueryArgs = Record<string, unknown>
+
+const modelFields = (model: string) =>
+  new Map(Prisma.dmmf.datamodel.models.find(entry => entry.name === model)!.fields.map(field => [field.name, field]))
+
+// Polja upita kojih nema u šemi - prava Prisma bi takav upit odbila
+const unknownFields = (model: string, args: QueryArgs = {}, path: string = model): string[] => {
+  const fields = modelFields(model)
+  return ['where', 'select', 'include', 'data', 'orderBy'].flatMap(key => {
+    const value = args[key]
+    if (!value || typeof value !== 'object') return []
+
+    return (Array.isArray(value) ? value : [value]).flatMap(Object.entries).flatMap(([name, nested]) => {
+      if (key === 'where' && ['AND', 'OR', 'NOT'].includes(name)) return []
+      const field = fields.get(name)
+      if (!field) return [`${path}.${key}.${name}`]
+      return field.kind === 'object' && (key === 'select' || key === 'include') && nested && typeof nested === 'object'
+        ? unknownFields(field.type, nested as QueryArgs, `${path}.${name}`)
+        : []
+    })
+  })
+}
+
+const invalidQueries = (client: Record<string, unknown>) =>
+  Object.entries(client)
+    .filter(([name]) => !name.startsWith('$'))
+    .flatMap(([name, methods]) => Object.values(methods as Record<string, { mock: { calls: [QueryArgs?][] } }>)
+      .flatMap(method => method.mock.calls.flatMap(([args]) => unknownFields(name[0].toUpperCase() + name.slice(1), args))))
+
+const call = (method: string, path: string, body?: object) =>
+  new NextRequest(`http://localhost/api/requests${path && '/'}${path}`, {
+    method,
+    ...(body && { body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } })
+  })
+
+const REQUEST = {
+  id: 10,
+  deviceId: 3,
+  status: 'IN_PROGRESS',
+  assignedTo: 4,
+  priority: 'normal',
+  category: 'single_press',
+  incidentNote: null,
+  guestContext: null,
+  createdAt: new Date('2025-09-10T09:00:00Z'),
+  device: { id: 3, name: 'Master Suite Button', room: 'Master Suite', type: 'BUTTON', battery: 80, signal: 70, lastSeen: new Date('2025-09-10T09:00:00Z') },
+  assignee: { id: 4, name: 'Ana', email: null },
+  escalations: [],
+}
+
+describe('request routes', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+    auth.token = signJWT({ id: 1, name: 'Captain', email: null, role: 'Captain', accessRole: 'admin' })
+    vi.spyOn(emitter, 'emitEvent')
+  })
+
+  it('should list active requests newest first with emergencies on top', async () => {
+    prisma.request.count.mockResolvedValue(2)
+    prisma.request.findMany.mockResolvedValue([REQUEST, { ...REQUEST, id: 11, priority: 'emergency' }])
+
+    const response = await listRequests(call('GET', '?status=active&priority=emergency'))
+
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body.requests.map((item: { id: number }) => item.id)).toEqual([11, 10])
+    expect(prisma.request.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: { in: ['PENDING', 'IN_PROGRESS'] }, priority: 'emergency' },
+      orderBy: { createdAt: 'desc' }
+    }))
+    expect(invalidQueries(prisma)).toEqual([])
+  })
+
+  it('should create an emergency request from the web and raise the alarm', async () => {
+    prisma.device.findUnique.mockResolvedValue({ id: 3, name: 'Master Suite Button', room: 'Master Suite', locationId: null })
+    prisma.request.create.mockResolvedValue({ ...REQUEST, status: 'PENDING', assignedTo: null, priority: 'emergency', category: 'manual' })
+
+    const response = await createRequest(call('POST', '', { deviceId: 3, priority: 'emergency', notes: 'Guest fell on deck' }))
+
+    expect(response.status).toBe(201)
+    expect(prisma.requestEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ requestId: 10, type: 'CREATED', reason: 'Guest fell on deck' })
+    })
+    expect(emitter.emitEvent).toHaveBeenCalledWith('emergency_alert', expect.objectContaining({ requestId: 10 }))
+    expect(WatchService.broadcast).toHaveBeenCalledWith(expect.objectContaining({ type: 'emergency_alarm', requestId: 10 }))
+    expect(invalidQueries(prisma)).toEqual([])
+  })
+
+  it('should complete an emergency request only with an incident note', async () => {
+    prisma.request.findUnique.mockResolvedValue({ ...REQUEST, priority: 'emergency' })
+    prisma.request.update.mockResolvedValue({ ...REQUEST, status: 'COMPLETED', priority: 'emergency', incidentNote: 'Guest treated' })
+
+    const rejected = await completeRequest(call('POST', '10/complete', {}), { params: { id: '10' } })
+    const completed = await completeRequest(call('POST', '10/complete', { incidentNote: 'Guest treated' }), { params: { id: '10' } })
+
+    expect(rejected.status).toBe(400)
+    expect(completed.status).toBe(200)
+    expect(prisma.request.update).toHaveBeenCalledTimes(1)
+    expect(prisma.requestEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ requestId: 10, type: 'COMPLETED', reason: 'Guest treated' })
+    })
+    expect(emitter.emitEvent).toHaveBeenCalledWith('request_update', expect.objectContaining({
+      requestId: 10,
+      status: 'COMPLETED',
+      assignedName: 'Ana'
+    }))
+    expect(invalidQueries(prisma)).toEqual([])
+  })
+
+  it('should return the request details with the assignee and device signal', async () => {
+    prisma.request.findUnique.mockResolvedValue(REQUEST)
+
+    const response = await getRequest(call('GET', '10'), { params: { id: '10' } })
+
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body.assignee).toEqual({ id: 4, name: 'Ana', email: null })
+    expect(body.device.signal).toBe(70)
+    expect(invalidQueries(prisma)).toEqual([])
+  })
+
+  it('should record the note in the history instead of writing it to the request', async () => {
+    prisma.request.findUnique.mockResolvedValue({ ...REQUEST, status: 'PENDING' })
+    prisma.request.update.mockResolvedValue({ ...REQUEST, status: 'CANCELLED' })
+
+    const response = await updateRequest(
+      call('PUT', '10', { status: 'CANCELLED', notes: 'Guest left the cabin' }),
+      { params: { id: '10' } }
+    )
+
+    expect(response.status).toBe(200)
+    expect(prisma.request.update).toHaveBeenCalledWith(expect.objectContaining({ data: { status: 'CANCELLED' } }))
+    expect(prisma.requestEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ requestId: 10, type: 'CANCELLED', reason: 'Guest left the cabin' })
+    })
+    expect(invalidQueries(prisma)).toEqual([])
+  })
+
+  it('should cancel the request and report its creation time', async () => {
+    prisma.request.findUnique.mockResolvedValue(REQUEST)
+    prisma.request.update.mockResolvedValue({ ...REQUEST, status: 'CANCELLED', assignedTo: null })
+
+    const response = await cancelRequest(call('DELETE', '10'), { params: { id: '10' } })
+
+    expect(response.status).toBe(200)
+    expect(emitter.emitEvent).toHaveBeenCalledWith('request_update', expect.objectContaining({
+      requestId: 10,
+      status: 'CANCELLED',
+      timestamp: '2025-09-10T09:00:00.000Z'
+    }))
+    expect(invalidQueries(prisma)).toEqual([])
+  })
+
+  it('should transfer the request and record it in the history', async () => {
+    prisma.request.findUnique.mockResolvedValue(REQUEST)
+    prisma.user.findUnique.mockResolvedValue({ id: 5, name: 'Marko' })
+    prisma.request.update.mockResolvedValue({ ...REQUEST, assignedTo: 5, assignee: { id: 5, name: 'Marko', email: null } })
+
+    const response = await transferRequest(
+      call('POST', '10/transfer', { targetUserId: 5, notes: 'End of shift' }),
+      { params: { id: '10' } }
+    )
+
+    expect(response.status).toBe(200)
+    expect(prisma.requestEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ requestId: 10, type: 'TRANSFERRED', fromUserId: 4, toUserId: 5, reason: 'End of shift' })
+    })
+    expect(emitter.emitEvent).toHaveBeenCalledWith('request_update', expect.objectContaining({
+      requestId: 10,
+      assignedName: 'Marko',
+      transferredTo: 'Marko'
+    }))
+    expect(invalidQueries(prisma)).toEqual([])
+  })
+})
@@ -0,0 +1,166 @@
+// @vitest-environment node
+/// <reference types="vite/client" />
+import { describe, it, expect, vi, beforeAll } from 'vitest'
+import { NextRequest } from 'next/server'
+import { signJWT } from '@/lib/auth'
+import { ROLES, ROLE_PERMISSIONS, Permission } from '@/lib/permissions'
+
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+type Handler = (request: NextRequest, context: { params: Record<string, string> }) => Promise<Response>
+
+const auth = vi.hoisted(() => ({ token: undefined as string | undefined }))
+
+// Token iz cookie-a kao u pravom zahtevu
+vi.mock('next/headers', () => ({
+  cookies: () => ({
+    get: (name: string) => (name === 'authToken' && auth.token ? { name, value: auth.token } : undefined),
+    set: vi.fn(),
+    delete: vi.fn(),
+  }),
+  headers: () => new Headers(),
+}))
+
+// Mock za Prisma klijenta - rute se odbijaju pre pristupa bazi
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => new Proxy({}, { get: () => new Proxy({}, { get: () => vi.fn() }) })),
+}))
+
+// Dozvola koju svaka API ruta traži, po metodi
+const ROUTE_PERMISSIONS: Record<string, Partial<Record<Method, Permission>>> = {
+  'analytics/response-times': { GET: 'analytics:read' },
+  'assignments': { GET: 'shifts:read', POST: 'shifts:write', PUT: 'shifts:write', DELETE: 'shifts:write' },
+  'button-rules': { GET: 'devices:read', POST: 'devices:write' },
+  'button-rules/[id]': { PUT: 'devices:write', DELETE: 'devices:write' },
+  'button-rules/dry-run': { POST: 'devices:read' },
+  'charters': { GET: 'guests:read', POST: 'charters:manage' },
+  'charters/[id]': { GET: 'guests:read', PUT: 'charters:manage' },
+  'charters/[id]/close': { POST: 'charters:manage' },
+  'charters/[id]/report': { GET: 'guests:read' },
+  'config-profiles': { GET: 'devices:read' },
+  'config-profiles/[type]': { GET: 'devices:read', PUT: 'devices:write' },
+  'crew': { GET: 'crew:read', POST: 'crew:write' },
+  'crew/[id]': { GET: 'crew:read', PUT: 'crew:write' },
+  'crew/[id]/rest-hours': { GET: 'shifts:read' },
+  'crew/[id]/rest-hours/countersign': { POST: 'rest:countersign' },
+  'crew/[id]/rest-hours/export': { GET: 'shifts:read' },
+  'crew/[id]/rest-hours/sign': { POST: 'shifts:read' },
+  'crew/[id]/status': { PUT: 'crew:status' },
+  'crew/avatar': { POST: 'crew:write' },
+  'devices': { GET: 'devices:read', POST: 'devices:write' },
+  'devices/[id]/auto-assign': { GET: 'devices:read', PUT: 'devices:write' },
+  'devices/[id]/config': { GET: 'devices:read', PUT: 'devices:write' },
+  'devices/[id]/dnd-led': { GET: 'devices:read', PUT: 'devices:write' },
+  'devices/[id]/firmware': { GET: 'devices:read' },
+  'devices/battery': { GET: 'devices:read' },
+  'devices/coverage': { GET: 'devices:read' },
+  'devices/stats': { GET: 'devices:read' },
+  'devices/topology': { GET: 'devices:read' },
+  'escalation/policies': { GET: 'requests:read', POST: 'escalation:manage' },
+  'escalation/policies/[id]': { PUT: 'escalation:manage', DELETE: 'escalation:manage' },
+  'events/stream': { GET: 'events:read' },
+  'firmware': { GET: 'devices:read', POST: 'firmware:manage' },
+  'firmware/campaigns': { GET: 'devices:read', POST: 'firmware:manage' },
+  'firmware/campaigns/[id]': { GET: 'devices:read', PUT: 'firmware:manage' },
+  'guests': { GET: 'guests:read', POST: 'guests:write', PATCH: 'guests:write', DELETE: 'guests:write' },
+  'guests/allocation': { GET: 'guests:read', POST: 'guests:write' },
+  'handovers': { GET: 'shifts:read', POST: 'shifts:read' },
+  'handovers/[id]/acknowledge': { POST: 'shifts:read' },
+  'handovers/draft': { GET: 'shifts:read' },
+  'locations': { GET: 'locations:read', POST: 'locations:write' },
+  'locations/[id]': { GET: 'locations:read', PUT: 'locations:write', DELETE: 'locations:write' },
+  'mock/status': { GET: 'system:read' },
+  'mqtt/devices': { GET: 'mqtt:read', POST: 'mqtt:write' },
+  'mqtt/health': { GET: 'mqtt:read' },
+  'mqtt/provision': { POST: 'provisioning:manage' },
+  'mqtt/security': { GET: 'mqtt:read', POST: 'mqtt:write' },
+  'mqtt/traffic': { GET: 'mqtt:read' },
+  'mqtt/ws': { GET: 'mqtt:read' },
+  'provision/request': { POST: 'provisioning:manage' },
+  'provision/token/[id]/cancel': { POST: 'provisioning:manage' },
+  'provision/tokens': { GET: 'provisioning:manage' },
+  'provision/tokens/[id]/delete': { POST: 'provisioning:delete' },
+  'provision/tokens/history': { GET: 'provisioning:manage' },
+  'requests': { GET: 'requests:read', POST: 'requests:handle' },
+  'requests/[id]': { GET: 'requests:read', PUT: 'requests:handle', DELETE: 'requests:manage' },
+  'requests/[id]/accept': { POST: 'requests:handle' },
+  'requests/[id]/complete': { POST: 'requests:handle' },
+  'requests/[id]/history': { GET: 'requests:read' },
+  'requests/[id]/reply': { POST: 'requests:handle' },
+  'requests/[id]/transfer': { POST: 'requests:handle' },
+  'shifts': { GET: 'shifts:read', POST: 'shifts:write' },
+  'shifts/[id]': { GET: 'shifts:read', PATCH: 'shifts:write' },
+  'shifts/assign': { POST: 'shifts:write' },
+  'shifts/delete': { POST: 'shifts:write' },
+  'shifts/requests': { GET: 'shifts:read', POST: 'shifts:read' },
+  'shifts/requests/[id]/cancel': { POST: 'shifts:read' },
+  'shifts/requests/[id]/decide': { POST: 'shifts:read' },
+  'shifts/requests/[id]/respond': { POST: 'shifts:read' },
+  'shifts/roster': { GET: 'shifts:read', POST: 'shifts:write' },
+  'system/status': { GET: 'system:read' },
+  'translation/settings': { GET: 'devices:read', PUT: 'devices:write' },
+  'upload': { POST: 'uploads:write' },
+  'users': { GET: 'users:read' },
+  'voice': { POST: 'uploads:write' },
+  'voice/[id]': { GET: 'requests:read' },
+  'voice/settings': { GET: 'devices:read', PUT: 'devices:write' },
+  'virtual-devices': { GET: 'simulator:manage', POST: 'simulator:manage', DELETE: 'simulator:manage' },
+  'virtual-devices/[uid]': { GET: 'simulator:manage', PATCH: 'simulator:manage', DELETE: 'simulator:manage' },
+  'virtual-devices/[uid]/action': { POST: 'simulator:manage' },
+}
+
+// Rute dostupne bez prijave
+const PUBLIC_ROUTES = ['auth/login', 'auth/logout']
+
+const routeModules = import.meta.glob('../../../../app/api/**/route.ts')
+const routeSources = import.meta.glob('../../../../app/api/**/route.ts', { query: '?raw', import: 'default', eager: true }) as Record<string, string>
+
+const routeName = (path: string) => path.replace(/^.*\/app\/api\//, '').replace(/\/route\.ts$/, '')
+
+const call = async (route: string, method: Method) => {
+  const path = Object.keys(routeModules).find(key => routeName(key) === route)!
+  const handlers = await routeModules[path]() as Partial<Record<Method, Handler>>
+  const request = new NextRequest(`http://localhost/api/${route.replace(/\[(\w+)\]/g, '1')}`, { method })
+  return handlers[method]!(request, { params: { id: '1', uid: '1' } })
+}
+
+describe('API route permissions', () => {
+  beforeAll(() => {
+    delete process.env.AUTH_DEV_BYPASS
+  })
+
+  it('should declare a permission for every route handler', () => {
+    const declared = Object.fromEntries(Object.entries(routeSources)
+      .map(([path, source]) => [
+        routeName(path),
+        Array.from(source.matchAll(/^export async function (GET|POST|PUT|PATCH|DELETE)\b/gm), match => match[1]).sort(),
+      ])
+      .filter(([route]) => !PUBLIC_ROUTES.includes(route as string)))
+
+    const expected = Object.fromEntries(Object.entries(ROUTE_PERMISSIONS)
+      .map(([route, methods]) => [route, Object.keys(methods).sort()]))
+
+    expect(declared).toEqual(expected)
+  })
+
+  for (const [route, methods] of Object.entries(ROUTE_PERMISSIONS)) {
+    for (const [method, permission] of Object.entries(methods) as [Method, Permission][]) {
+      const deniedRoles = ROLES.filter(role => !ROLE_PERMISSIONS[role].includes(permission))
+
+      it(`${method} /api/${route} should require a session`, async () => {
+        auth.token = undefined
+        const response = await call(route, method)
+        expect(response.status).toBe(401)
+      })
+
+      if (deniedRoles.length > 0) {
+        it(`${method} /api/${route} should deny ${deniedRoles.join(', ')}`, async () => {
+          for (const role of deniedRoles) {
+            auth.token = signJWT({ id: 1, name: 'Test', email: null, role: 'Visitor', accessRole: role })
+            const response = await call(route, method)
+            expect(response.status, role).toBe(403)
+          }
+        })
+      }
+    }
+  }
+})
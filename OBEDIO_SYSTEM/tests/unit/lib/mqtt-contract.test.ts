@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MemoryDeviceDirectory,
+  TopicTranslator,
+  deviceSubscriptions,
+  hierarchicalTopic,
+  legacyTopic,
+  parseTopic,
+  readPayload,
+  toDeviceType,
+  toTopicSegment,
+  topicMatches,
+} from '@obedio/mqtt-contract'
+
+describe('MQTT contract', () => {
+  describe('parseTopic', () => {
+    it('should parse legacy device and repeater topics', () => {
+      expect(parseTopic('obedio/device/BTN-001/request/accept')).toEqual({
+        scheme: 'legacy',
+        kind: 'device',
+        uid: 'BTN-001',
+        action: 'request/accept',
+      })
+      expect(parseTopic('obedio/repeater/RPT-1/mesh')).toMatchObject({ scheme: 'legacy', kind: 'repeater', uid: 'RPT-1' })
+    })
+
+    it('should parse hierarchical topics', () => {
+      expect(parseTopic('obedio/yacht/master-suite/button/BTN-001/cmd/reset')).toEqual({
+        scheme: 'hierarchical',
+        site: 'yacht',
+        room: 'master-suite',
+        type: 'button',
+        id: 'BTN-001',
+        action: 'cmd/reset',
+      })
+    })
+
+    it('should ignore system, provisioning and unknown topics', () => {
+      expect(parseTopic('obedio/system/api/status')).toBeNull()
+      expect(parseTopic('obedio/provision/request')).toBeNull()
+      expect(parseTopic('obedio/yacht-1/system/provision/request')).toBeNull()
+      expect(parseTopic('obedio/yacht/system/security/acl/update')).toBeNull()
+      expect(parseTopic('obedio/yacht/cabin/toaster/T-1/status')).toBeNull()
+      expect(parseTopic('other/device/BTN-001/press')).toBeNull()
+    })
+
+    it('should round-trip built topics', () => {
+      const address = { site: 'yacht', room: 'cabin-2', type: 'watch' as const, id: 'W-7' }
+      expect(parseTopic(hierarchicalTopic(address, 'crew/status'))).toEqual({ scheme: 'hierarchical', ...address, action: 'crew/status' })
+      expect(parseTopic(legacyTopic('W-7', 'crew/status'))).toMatchObject({ uid: 'W-7', action: 'crew/status' })
+    })
+  })
+
+  describe('builders', () => {
+    it('should reject wildcards and reserved site names', () => {
+      expect(() => legacyTopic('a/b', 'press')).toThrow()
+      expect(() => hierarchicalTopic({ site: 'device', room: 'cabin', type: 'button', id: 'B' }, 'press')).toThrow()
+      expect(() => hierarchicalTopic({ site: 'yacht', room: '#', type: 'button', id: 'B' }, 'press')).toThrow()
+      expect(legacyTopic('+', 'press')).toBe('obedio/device/+/press')
+    })
+
+    it('should normalize device types and room names', () => {
+      expect(toDeviceType('SMART_WATCH')).toBe('watch')
+      expect(toDeviceType('BUTTON')).toBe('button')
+      expect(toDeviceType('OBEDIO_PROVISION')).toBe('generic')
+      expect(toTopicSegment('Master Suite')).toBe('master-suite')
+      expect(toTopicSegment('  ')).toBe('unassigned')
+    })
+  })
+
+  describe('topicMatches', () => {
+    it('should follow MQTT wildcard rules', () => {
+      expect(topicMatches('obedio/device/+/status', 'obedio/device/W-1/status')).toBe(true)
+      expect(topicMatches('obedio/device/+/status', 'obedio/device/W-1/crew/status')).toBe(false)
+      expect(topicMatches('obedio/system/#', 'obedio/system')).toBe(true)
+      expect(topicMatches('obedio/+/+/+/+/#', 'obedio/yacht/cabin/button/B-1/press')).toBe(true)
+      expect(topicMatches('obedio/device/+', 'obedio/device/B-1/press')).toBe(false)
+    })
+  })
+
+  describe('deviceSubscriptions', () => {
+    it('should match every device, system and provisioning topic exactly once', () => {
+      const filters = deviceSubscriptions('yacht')
+      const topics = [
+        'obedio/device/W-1/request/accept',
+        'obedio/device/B-1/voice/chunk',
+        'obedio/device/B-1/ota/chunk/request',
+        'obedio/repeater/R-1/device/connected',
+        'obedio/yacht/master-suite/button/B-1/press',
+        'obedio/yacht/crew-mess/watch/W-1/request/accept',
+        'obedio/system/a/b/c',
+        'obedio/provision/request',
+      ]
+
+      for (const topic of topics) {
+        expect(filters.filter(filter => topicMatches(filter, topic)), topic).toHaveLength(1)
+      }
+      expect(filters.some(filter => topicMatches(filter, 'obedio/marina/cabin/button/B-1/press'))).toBe(false)
+    })
+
+    it('should reject reserved site names', () => {
+      expect(() => deviceSubscriptions('device')).toThrow('reserved')
+      expect(() => deviceSubscriptions('+')).toThrow('Invalid MQTT topic segment')
+    })
+  })
+
+  describe('readPayload', () => {
+    it('should read snake_case command acks as the camelCase contract', () => {
+      const ack = readPayload('command/ack', { command_id: 'cmd_1', status: 'error', error: 'busy', result: { queue_depth: 2 } })
+
+      expect(ack).toEqual({ commandId: 'cmd_1', status: 'error', error: 'busy', result: { queue_depth: 2 } })
+      expect(readPayload('command/ack', 'ok')).toEqual({})
+    })
+  })
+
+  describe('TopicTranslator', () => {
+    it('should map a hierarchical message to the legacy scheme with camelCase keys', () => {
+      const translator = new TopicTranslator(new MemoryDeviceDirectory({ site: 'yacht' }))
+
+      const result = translator.translate('obedio/yacht/cabin-2/button/BTN-2/press', {
+        device_id: 'BTN-2',
+        press_type: 'long',
+        metadata: { raw_value: 1 },
+      })
+
+      expect(result?.topic).toBe('obedio/device/BTN-2/press')
+      expect(result?.payload).toEqual({
+        deviceId: 'BTN-2',
+        pressType: 'long',
+        metadata: { raw_value: 1 },
+        _bridge: 'hierarchical',
+      })
+    })
+
+    it('should place legacy devices at the address learned from hierarchical traffic', () => {
+      const translator = new TopicTranslator(new MemoryDeviceDirectory({ site: 'yacht' }))
+      translator.translate('obedio/yacht/cabin-2/watch/W-1/heartbeat', {})
+
+      const result = translator.translate('obedio/device/W-1/request/accept', { requestId: 5 })
+
+      expect(result?.topic).toBe('obedio/yacht/cabin-2/watch/W-1/request/accept')
+      expect(result?.payload).toEqual({ request_id: 5, _bridge: 'legacy' })
+    })
+
+    it('should fall back to the default site for unknown legacy devices', () => {
+      const translator = new TopicTranslator(new MemoryDeviceDirectory({ site: 'Lady M' }))
+
+      expect(translator.translate('obedio/device/BTN-9/press', {})?.topic).toBe('obedio/lady-m/unassigned/generic/BTN-9/press')
+      expect(translator.translate('obedio/repeater/R-1/mesh', {})?.topic).toBe('obedio/lady-m/unassigned/repeater/R-1/mesh')
+    })
+
+    it('should map hierarchical repeaters back to legacy repeater topics', () => {
+      const translator = new TopicTranslator(new MemoryDeviceDirectory({ site: 'yacht' }))
+
+      expect(translator.translate('obedio/yacht/bridge/repeater/R-1/mesh', {})?.topic).toBe('obedio/repeater/R-1/mesh')
+    })
+
+    it('should not translate bridged, non-object or non-device messages', () => {
+      const translator = new TopicTranslator(new MemoryDeviceDirectory({ site: 'yacht' }))
+
+      expect(translator.translate('obedio/device/B-1/press', { _bridge: 'hierarchical' })).toBeNull()
+      expect(translator.translate('obedio/device/B-1/press', 'ping')).toBeNull()
+      expect(translator.translate('obedio/system/api/status', {})).toBeNull()
+    })
+  })
+})
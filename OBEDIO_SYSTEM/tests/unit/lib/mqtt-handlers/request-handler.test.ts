@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient, Prisma } from '@prisma/client'
+import { handleButtonPress, assignRequest, completeRequest } from '@/lib/mqtt-handlers/request-handler'
+
+// Mock za emitter
+vi.mock('@/lib/sseEmitter', () => ({
+  emitter: {
+    emitEvent: vi.fn()
+  },
+  SSE_EVENTS: {
+    NEW_REQUEST: 'new_request',
+    REQUEST_UPDATE: 'request_update'
+  }
+}))
+
+// Mock za istoriju zahteva
+vi.mock('@/lib/services/request-history-service', () => ({
+  RequestHistoryService: {
+    record: vi.fn().mockResolvedValue(null)
+  },
+  REQUEST_EVENT_TYPES: {
+    CREATED: 'CREATED',
+    ACCEPTED: 'ACCEPTED',
+    COMPLETED: 'COMPLETED'
+  }
+}))
+
+// Mock za slanje na satove
+vi.mock('@/lib/services/watch-service', () => ({
+  WatchService: {
+    notifyUsers: vi.fn().mockResolvedValue([])
+  }
+}))
+
+// Mock za goste iz kabine
+vi.mock('@/lib/services/guest-context-service', () => ({
+  GuestContextService: {
+    forLocation: vi.fn().mockResolvedValue([]),
+    serialize: vi.fn().mockReturnValue(null)
+  }
+}))
+
+// Mock za pravila dugmadi
+vi.mock('@/lib/services/button-rule-service', () => ({
+  ButtonRuleService: {
+    match: vi.fn().mockResolvedValue(null),
+    normalizePattern: vi.fn().mockReturnValue('single'),
+    minuteOfDay: vi.fn().mockReturnValue(600)
+  }
+}))
+
+// Mock za prevod
+vi.mock('@/lib/services/translation-service', () => ({
+  TranslationService: {
+    translateRequest: vi.fn().mockResolvedValue(null)
+  }
+}))
+
+// Mock za Prisma klijenta; Prisma namespace ostaje pravi zbog liste polja iz šeme
+vi.mock('@prisma/client', async importOriginal => {
+  const mockPrismaClient = {
+    device: {
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    user: {
+      findUnique: vi.fn()
+    },
+    request: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    ...await importOriginal<typeof import('@prisma/client')>(),
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const REQUEST_FIELDS = Object.values(Prisma.RequestScalarFieldEnum) as string[]
+const REQUEST_RELATIONS = ['assignee', 'device', 'escalations', 'events', 'dispatchOffers', 'voiceRecordings', 'crewReplies']
+
+const DEVICE = { id: 3, uid: 'BTN-1', name: 'Master Suite Button', room: 'Master Suite', isActive: true, locationId: 2 }
+
+const REQUEST = {
+  id: 10,
+  deviceId: 3,
+  status: 'PENDING',
+  assignedTo: 4,
+  priority: 'normal',
+  category: 'single_press',
+  createdAt: new Date(2025, 8, 10, 9),
+  device: { id: 3, name: 'Master Suite Button', room: 'Master Suite' },
+  assignee: { id: 4, name: 'Ana' },
+}
+
+describe('request-handler', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  it('should create the request only with fields from the schema', async () => {
+    prisma.device.findUnique.mockResolvedValue(DEVICE)
+    prisma.request.create.mockResolvedValue(REQUEST)
+
+    await handleButtonPress('BTN-1', { pressType: 'single', notes: 'ignored' })
+
+    const { data, include } = prisma.request.create.mock.calls[0][0]
+    expect(Object.keys(data).filter(field => !REQUEST_FIELDS.includes(field))).toEqual([])
+    expect(Object.keys(include).filter(relation => !REQUEST_RELATIONS.includes(relation))).toEqual([])
+  })
+
+  it('should include only schema relations when accepting and completing', async () => {
+    prisma.request.findUnique.mockResolvedValue(REQUEST)
+    prisma.user.findUnique.mockResolvedValue({ id: 4, name: 'Ana' })
+    prisma.request.update.mockResolvedValue(REQUEST)
+
+    await assignRequest(10, 4)
+    await completeRequest(10, 4)
+
+    for (const [{ include }] of prisma.request.update.mock.calls) {
+      expect(Object.keys(include).filter((relation: string) => !REQUEST_RELATIONS.includes(relation))).toEqual([])
+    }
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { can, resolveRole, ROLE_PERMISSIONS } from '@/lib/permissions'
+
+describe('permissions', () => {
+  describe('resolveRole', () => {
+    it('should map crew positions to roles', () => {
+      expect(resolveRole({ role: 'Captain' })).toBe('captain')
+      expect(resolveRole({ role: 'Chief Stewardess' })).toBe('chief_stew')
+      expect(resolveRole({ role: 'Second Stewardess' })).toBe('stew')
+      expect(resolveRole({ role: 'Chief Engineer' })).toBe('engineer')
+      expect(resolveRole({ role: 'Bosun' })).toBe('deckhand')
+      expect(resolveRole({ role: 'ADMIN' })).toBe('admin')
+      expect(resolveRole({ role: 'CREW' })).toBe('stew')
+    })
+
+    it('should prefer an explicit access role', () => {
+      expect(resolveRole({ role: 'Deckhand', accessRole: 'management' })).toBe('management')
+      expect(resolveRole({ role: 'Deckhand', accessRole: 'superuser' })).toBe('deckhand')
+    })
+
+    it('should give unknown positions no role', () => {
+      expect(resolveRole({ role: 'Visitor' })).toBeNull()
+      expect(resolveRole({ role: '' })).toBeNull()
+      expect(resolveRole(null)).toBeNull()
+    })
+  })
+
+  describe('can', () => {
+    it('should keep management read-only', () => {
+      expect(ROLE_PERMISSIONS.management.every(permission => permission.endsWith(':read'))).toBe(true)
+      expect(can('management', 'guests:read')).toBe(true)
+      expect(can('management', 'guests:write')).toBe(false)
+    })
+
+    it('should restrict provisioning to engineering', () => {
+      expect(can('engineer', 'provisioning:manage')).toBe(true)
+      expect(can('captain', 'provisioning:manage')).toBe(false)
+      expect(can('engineer', 'provisioning:delete')).toBe(false)
+      expect(can('admin', 'provisioning:delete')).toBe(true)
+    })
+
+    it('should deny everything without a role', () => {
+      expect(can(null, 'requests:read')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AnalyticsService } from '@/lib/services/analytics-service'
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => ({
+    request: {
+      findMany: vi.fn()
+    }
+  }))
+}))
+
+const baseRequest = {
+  id: 1,
+  status: 'COMPLETED',
+  createdAt: new Date('2025-06-01T12:00:00Z'),
+  updatedAt: new Date('2025-06-01T12:20:00Z'),
+  assignee: { id: 3, name: 'Ana', department: 'Interior' },
+  device: {
+    id: 9,
+    name: 'Master Button',
+    room: 'Master Suite',
+    locationRef: {
+      id: 2,
+      name: 'Master Suite',
+      deck: 'Main Deck',
+      guests: [
+        {
+          id: 5,
+          name: 'Mr. Smith',
+          arrivalDate: new Date('2025-05-30T00:00:00Z'),
+          departureDate: new Date('2025-06-05T00:00:00Z')
+        },
+        {
+          id: 6,
+          name: 'Previous Guest',
+          arrivalDate: new Date('2025-05-01T00:00:00Z'),
+          departureDate: new Date('2025-05-10T00:00:00Z')
+        }
+      ]
+    }
+  },
+  events: [
+    { type: 'COMPLETED', createdAt: new Date('2025-06-01T12:10:00Z') },
+    { type: 'ACCEPTED', createdAt: new Date('2025-06-01T12:00:45Z') }
+  ]
+}
+
+describe('AnalyticsService', () => {
+  describe('summarize', () => {
+    it('should compute nearest-rank percentiles', () => {
+      const values = Array.from({ length: 100 }, (_, index) => index + 1)
+      expect(AnalyticsService.summarize(values)).toEqual({
+        count: 100,
+        avg: 51,
+        p50: 50,
+        p90: 90,
+        p99: 99
+      })
+    })
+
+    it('should return nulls for an empty list', () => {
+      expect(AnalyticsService.summarize([])).toEqual({
+        count: 0,
+        avg: null,
+        p50: null,
+        p90: null,
+        p99: null
+      })
+    })
+  })
+
+  describe('toSample', () => {
+    it('should read accept and complete times from request events', () => {
+      const sample = AnalyticsService.toSample(baseRequest)
+
+      expect(sample.acceptSeconds).toBe(45)
+      expect(sample.completeSeconds).toBe(600)
+      expect(sample.keys.department).toEqual([{ key: 'Interior', label: 'Interior' }])
+      expect(sample.keys.deck).toEqual([{ key: 'Main Deck', label: 'Main Deck' }])
+    })
+
+    it('should attribute the request only to guests staying at the time', () => {
+      const sample = AnalyticsService.toSample(baseRequest)
+      expect(sample.keys.guest).toEqual([{ key: '5', label: 'Mr. Smith' }])
+    })
+
+    it('should fall back to updatedAt for completed requests without history', () => {
+      const sample = AnalyticsService.toSample({ ...baseRequest, events: [] })
+
+      expect(sample.acceptSeconds).toBeNull()
+      expect(sample.completeSeconds).toBe(1200)
+    })
+  })
+
+  describe('groupSamples', () => {
+    it('should group samples by crew member', () => {
+      const samples = [
+        AnalyticsService.toSample(baseRequest),
+        AnalyticsService.toSample({ ...baseRequest, id: 2, assignee: null, events: [] })
+      ]
+
+      const groups = AnalyticsService.groupSamples(samples, 'crew')
+
+      expect(groups.map(group => group.label)).toEqual(['Ana', 'Nedodeljeno'])
+      expect(groups[0].timeToAccept.p50).toBe(45)
+    })
+  })
+
+  describe('toCsv', () => {
+    it('should escape labels containing commas', () => {
+      const group = AnalyticsService.buildGroup('7', 'Deck, aft', [AnalyticsService.toSample(baseRequest)])
+      const csv = AnalyticsService.toCsv({
+        from: '2025-06-01T00:00:00.000Z',
+        to: '2025-06-02T00:00:00.000Z',
+        overall: group,
+        groups: { location: [group] }
+      })
+
+      const lines = csv.trim().split('\n')
+      expect(lines).toHaveLength(3)
+      expect(lines[2]).toBe('location,7,"Deck, aft",1,1,45,45,45,45,1,600,600,600,600')
+    })
+  })
+})
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { BatteryService } from '@/lib/services/battery-service'
+import type { BatteryPlanInput } from '@/lib/services/battery-service'
+import { emitter } from '@/lib/sseEmitter'
+import { WatchService } from '@/lib/services/watch-service'
+
+// Mock za emitter
+vi.mock('@/lib/sseEmitter', () => ({
+  emitter: {
+    emitEvent: vi.fn()
+  },
+  SSE_EVENTS: {
+    BATTERY_ALERT: 'battery_alert'
+  }
+}))
+
+// Mock za slanje na satove
+vi.mock('@/lib/services/watch-service', () => ({
+  WatchService: {
+    notifyUsers: vi.fn().mockResolvedValue([])
+  }
+}))
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    device: {
+      findUnique: vi.fn(),
+      findMany: vi.fn()
+    },
+    batteryReading: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    batteryAlert: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn()
+    },
+    user: {
+      findMany: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const NOW = new Date('2025-09-01T12:00:00Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS)
+
+// Jedno merenje dnevno, poslednje danas
+const series = (deviceUid: string, levels: number[], firmwareVersion: string | null = '1.0') =>
+  levels.map((level, index) => ({ deviceUid, level, firmwareVersion, recordedAt: daysAgo(levels.length - 1 - index) }))
+
+const device = (uid: string, battery: number, firmwareVersion = '1.0'): BatteryPlanInput['devices'][number] => ({
+  id: parseInt(uid.slice(-1), 10),
+  uid,
+  name: null,
+  type: 'BUTTON',
+  firmwareVersion,
+  battery,
+  lastSeen: NOW,
+  locationRef: { name: `${uid} cabin`, deck: 'Main Deck' },
+})
+
+describe('BatteryService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('dischargeRate', () => {
+    it('should fit the discharge rate in percent per day', () => {
+      expect(BatteryService.dischargeRate(series('BTN-1', [100, 99, 98, 97, 96, 95]))).toBe(1)
+    })
+
+    it('should only use readings since the battery was replaced', () => {
+      expect(BatteryService.dischargeRate(series('BTN-1', [40, 30, 20, 95, 93, 91]))).toBe(2)
+    })
+
+    it('should wait for enough readings before estimating', () => {
+      expect(BatteryService.dischargeRate([])).toBeNull()
+      // Pad od 1% za sat vremena je šum, ne trend
+      expect(BatteryService.dischargeRate([
+        { level: 80, recordedAt: new Date(NOW.getTime() - HOUR_MS) },
+        { level: 79, recordedAt: NOW },
+      ])).toBeNull()
+    })
+  })
+
+  describe('buildPlan', () => {
+    const input: BatteryPlanInput = {
+      devices: [device('BTN-1', 90), device('BTN-2', 80), device('BTN-3', 30), device('BTN-4', 60, '1.1')],
+      readings: [
+        ...series('BTN-1', [92, 91, 90]),
+        ...series('BTN-2', [84, 82, 80]),
+        ...series('BTN-4', [76, 68, 60], '1.1'),
+      ],
+      alerts: [],
+      nextCharter: { charterId: 3, name: 'Summer charter', startDate: daysAgo(-10), endDate: daysAgo(-20) },
+    }
+
+    it('should project depletion and sort devices by projected date', () => {
+      const plan = BatteryService.buildPlan(input, NOW)
+
+      expect(plan.devices.map(item => item.uid)).toEqual(['BTN-4', 'BTN-3', 'BTN-2', 'BTN-1'])
+      expect(plan.devices[0]).toMatchObject({ ratePerDay: 8, rateSource: 'device', daysUntilEmpty: 7.5 })
+      // Bez istorije se koristi model za isti tip i firmware
+      expect(plan.devices[1]).toMatchObject({ ratePerDay: 1, rateSource: 'model', daysUntilEmpty: 30 })
+      expect(plan.devices[1].projectedEmptyAt).toBe(daysAgo(-30).toISOString())
+      expect(plan.models).toEqual([
+        { type: 'BUTTON', firmwareVersion: null, devices: 3, ratePerDay: 2 },
+        { type: 'BUTTON', firmwareVersion: '1.0', devices: 2, ratePerDay: 1 },
+        { type: 'BUTTON', firmwareVersion: '1.1', devices: 1, ratePerDay: 8 },
+      ])
+    })
+
+    it('should flag batteries that fall below the replace level before the next charter ends', () => {
+      const plan = BatteryService.buildPlan(input, NOW)
+
+      expect(plan.devices.filter(item => item.replaceBeforeCharter).map(item => item.uid)).toEqual(['BTN-4', 'BTN-3'])
+      expect(BatteryService.buildPlan({ ...input, nextCharter: null }, NOW).devices.some(item => item.replaceBeforeCharter)).toBe(false)
+    })
+
+    it('should flag devices draining much faster than their type', () => {
+      const plan = BatteryService.buildPlan(input, NOW)
+
+      // Jedini uređaj sa firmware-om 1.1 se poredi sa modelom za ceo tip
+      expect(plan.devices.find(item => item.uid === 'BTN-4')).toMatchObject({ abnormal: true, expectedRatePerDay: 2 })
+      expect(plan.devices.filter(item => item.abnormal)).toHaveLength(1)
+    })
+  })
+
+  describe('recordStatus', () => {
+    beforeEach(() => {
+      prisma.device.findUnique.mockResolvedValue({ id: 4, name: 'Master cabin', type: 'BUTTON', firmwareVersion: '1.1' })
+    })
+
+    it('should skip an unchanged level within the sample interval', async () => {
+      prisma.batteryReading.findFirst.mockResolvedValue({ level: 80, firmwareVersion: '1.1', recordedAt: new Date(NOW.getTime() - 10 * 60 * 1000) })
+
+      await BatteryService.recordStatus('BTN-4', { battery: 80 }, NOW)
+
+      expect(prisma.batteryReading.create).not.toHaveBeenCalled()
+    })
+
+    it('should resolve open alerts when the battery is replaced', async () => {
+      prisma.batteryReading.findFirst.mockResolvedValue({ level: 12, firmwareVersion: '1.1', recordedAt: daysAgo(1) })
+
+      await BatteryService.recordStatus('BTN-4', { battery: 100 }, NOW)
+
+      expect(prisma.batteryReading.create).toHaveBeenCalledWith({
+        data: { deviceUid: 'BTN-4', level: 100, firmwareVersion: '1.1', recordedAt: NOW }
+      })
+      expect(prisma.batteryAlert.updateMany).toHaveBeenCalledWith({
+        where: { deviceUid: 'BTN-4', resolvedAt: null },
+        data: { resolvedAt: NOW }
+      })
+    })
+
+    it('should alert once when a device drains abnormally fast', async () => {
+      prisma.batteryReading.findFirst.mockResolvedValue({ level: 50, firmwareVersion: '1.1', recordedAt: new Date(NOW.getTime() - HOUR_MS) })
+      prisma.batteryAlert.findFirst.mockResolvedValue(null)
+      prisma.batteryReading.findMany.mockResolvedValue([
+        { level: 60, firmwareVersion: '1.1', recordedAt: new Date(NOW.getTime() - 2 * HOUR_MS) },
+        { level: 50, firmwareVersion: '1.1', recordedAt: new Date(NOW.getTime() - HOUR_MS) },
+        { level: 40, firmwareVersion: '1.1', recordedAt: NOW },
+      ])
+      prisma.batteryAlert.create.mockResolvedValue({ id: 7 })
+      prisma.user.findMany.mockResolvedValue([
+        { id: 2, department: 'Engineering' },
+        { id: 3, department: 'Interior' },
+      ])
+
+      await BatteryService.recordStatus('BTN-4', { battery: 40 }, NOW)
+
+      expect(prisma.batteryAlert.create).toHaveBeenCalledWith({
+        data: { deviceUid: 'BTN-4', level: 40, ratePerDay: 240, expectedRatePerDay: null, createdAt: NOW }
+      })
+      expect(emitter.emitEvent).toHaveBeenCalledWith('battery_alert', expect.objectContaining({
+        alertId: 7, deviceId: 4, uid: 'BTN-4', ratePerDay: 240
+      }))
+      expect(WatchService.notifyUsers).toHaveBeenCalledWith([2], expect.objectContaining({
+        type: 'battery_alert', alertId: 7, deviceUid: 'BTN-4'
+      }))
+
+      // Otvoreno upozorenje se ne ponavlja
+      vi.clearAllMocks()
+      prisma.batteryAlert.findFirst.mockResolvedValue({ id: 7 })
+      await BatteryService.recordStatus('BTN-4', { battery: 30 }, NOW)
+      expect(prisma.batteryAlert.create).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { ButtonRuleService, ButtonRuleView, RuleContext, buttonRuleSchema } from '@/lib/services/button-rule-service'
+import { DndService } from '@/lib/services/dnd-service'
+
+// Mock za DND servis
+vi.mock('@/lib/services/dnd-service', () => ({
+  DndService: {
+    getActive: vi.fn(),
+    sync: vi.fn()
+  }
+}))
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    buttonRule: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn()
+    },
+    device: {
+      findUnique: vi.fn()
+    },
+    guest: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const NOW = new Date('2025-09-01T12:00:00Z')
+
+const rule = (id: number, overrides: Partial<ButtonRuleView> = {}): ButtonRuleView => ({
+  id,
+  name: `Pravilo ${id}`,
+  enabled: true,
+  position: id,
+  deviceId: null,
+  locationId: null,
+  pressPattern: 'any',
+  timeFrom: null,
+  timeTo: null,
+  guestPresence: 'any',
+  action: 'create_request',
+  actionConfig: {},
+  createdBy: null,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides
+})
+
+const context = (overrides: Partial<RuleContext> = {}): RuleContext => ({
+  deviceId: 1,
+  locationId: 10,
+  pressPattern: 'single',
+  minuteOfDay: 12 * 60,
+  guestPresent: true,
+  ...overrides
+})
+
+describe('ButtonRuleService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('evaluate', () => {
+    it('should map press types from the device to rule patterns', () => {
+      expect(ButtonRuleService.normalizePattern('short')).toBe('single')
+      expect(ButtonRuleService.normalizePattern(undefined)).toBe('single')
+      expect(ButtonRuleService.normalizePattern('triple')).toBe('triple')
+      expect(ButtonRuleService.normalizePattern('long')).toBe('long')
+    })
+
+    it('should pick the first matching rule in order', () => {
+      const result = ButtonRuleService.evaluate([
+        rule(1, { pressPattern: 'double' }),
+        rule(2, { locationId: 10 }),
+        rule(3)
+      ], context())
+
+      expect(result.rule?.id).toBe(2)
+      expect(result.trace.map(entry => entry.matched)).toEqual([false, true, false])
+      expect(result.trace[0].reason).toContain('double')
+      expect(result.trace[2].reason).toContain('Pravilo 2')
+    })
+
+    it('should respect device scope, guest presence and disabled rules', () => {
+      const rules = [
+        rule(1, { enabled: false }),
+        rule(2, { deviceId: 2 }),
+        rule(3, { guestPresence: 'absent' }),
+        rule(4, { guestPresence: 'present', action: 'toggle_dnd' })
+      ]
+
+      expect(ButtonRuleService.evaluate(rules, context()).rule?.id).toBe(4)
+      expect(ButtonRuleService.evaluate(rules, context({ guestPresent: false })).rule?.id).toBe(3)
+    })
+
+    it('should handle time windows that cross midnight', () => {
+      const night = { timeFrom: '22:00', timeTo: '06:00' }
+
+      expect(ButtonRuleService.inTimeWindow(night, 23 * 60)).toBe(true)
+      expect(ButtonRuleService.inTimeWindow(night, 5 * 60 + 59)).toBe(true)
+      expect(ButtonRuleService.inTimeWindow(night, 6 * 60)).toBe(false)
+      expect(ButtonRuleService.inTimeWindow({ timeFrom: '08:00', timeTo: '12:00' }, 12 * 60)).toBe(false)
+      expect(ButtonRuleService.inTimeWindow({ timeFrom: null, timeTo: null }, 0)).toBe(true)
+    })
+  })
+
+  describe('buttonRuleSchema', () => {
+    it('should require the target of the action', () => {
+      expect(buttonRuleSchema.safeParse({ name: 'Stjuard', action: 'call_crew' }).success).toBe(false)
+      expect(buttonRuleSchema.safeParse({ name: 'Stjuard', action: 'call_crew', actionConfig: { userId: 3 } }).success).toBe(true)
+      expect(buttonRuleSchema.safeParse({ name: 'Hook', action: 'webhook', actionConfig: { url: 'ftp://example.com' } }).success).toBe(false)
+    })
+
+    it('should require both ends of a time window', () => {
+      expect(buttonRuleSchema.safeParse({ name: 'Noć', action: 'emergency', timeFrom: '22:00' }).success).toBe(false)
+    })
+  })
+
+  describe('dryRun', () => {
+    it('should use current cabin occupancy when guest presence is not given', async () => {
+      prisma.device.findUnique.mockResolvedValue({ id: 1, locationId: 10 })
+      prisma.guest.count.mockResolvedValue(0)
+      prisma.buttonRule.findMany.mockResolvedValue([
+        { ...rule(1, { guestPresence: 'present' }), actionConfig: null },
+        { ...rule(2, { guestPresence: 'absent', action: 'webhook' }), actionConfig: JSON.stringify({ url: 'https://example.com' }) }
+      ])
+
+      const result = await ButtonRuleService.dryRun({ deviceId: 1, pressType: 'short', time: '23:30' }, NOW)
+
+      expect(result?.context).toEqual(context({ guestPresent: false, minuteOfDay: 23 * 60 + 30 }))
+      expect(result?.rule?.id).toBe(2)
+      expect(result?.rule?.actionConfig).toEqual({ url: 'https://example.com' })
+    })
+
+    it('should return null for an unknown device', async () => {
+      prisma.device.findUnique.mockResolvedValue(null)
+
+      expect(await ButtonRuleService.dryRun({ deviceId: 99, pressType: 'single' }, NOW)).toBeNull()
+    })
+  })
+
+  describe('toggleDnd', () => {
+    it('should turn DND on for the cabin through guest preferences', async () => {
+      prisma.guest.findMany.mockResolvedValue([{ id: 5, preferences: JSON.stringify({ drinks: ['Espresso'], dndLocations: ['Sun Deck'] }) }])
+      vi.mocked(DndService.getActive).mockResolvedValue([])
+
+      const dndActive = await ButtonRuleService.toggleDnd(10, NOW)
+
+      expect(dndActive).toBe(true)
+      expect(prisma.guest.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { preferences: JSON.stringify({ drinks: ['Espresso'], dndLocations: [], dndActive: true }) }
+      })
+      expect(DndService.sync).toHaveBeenCalledWith(NOW)
+    })
+
+    it('should turn DND off when the cabin is already under DND', async () => {
+      prisma.guest.findMany.mockResolvedValue([{ id: 5, preferences: JSON.stringify({ dndActive: true }) }])
+      vi.mocked(DndService.getActive).mockResolvedValue([{ locationId: 10, name: 'Master', deck: 'Main', guestNames: ['Gost'] }])
+
+      expect(await ButtonRuleService.toggleDnd(10, NOW)).toBe(false)
+      expect(prisma.guest.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { preferences: JSON.stringify({ dndActive: false }) }
+      })
+    })
+
+    it('should leave DND unchanged in an empty cabin', async () => {
+      prisma.guest.findMany.mockResolvedValue([])
+
+      expect(await ButtonRuleService.toggleDnd(10, NOW)).toBeNull()
+      expect(DndService.sync).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { CabinAllocationService, AllocationCabin, AllocationGuest } from '@/lib/services/cabin-allocation-service'
+import { DndService } from '@/lib/services/dnd-service'
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    location: {
+      findMany: vi.fn()
+    },
+    guest: {
+      findMany: vi.fn(),
+      update: vi.fn()
+    },
+    $transaction: vi.fn(),
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+vi.mock('@/lib/services/dnd-service', () => ({
+  DndService: {
+    sync: vi.fn()
+  }
+}))
+
+const cabins: AllocationCabin[] = [
+  { id: 1, name: 'Master Suite', deck: 'Main Deck', type: 'cabin', capacity: 2, isActive: true },
+  { id: 2, name: 'VIP Suite 1', deck: 'Main Deck', type: 'cabin', capacity: 2, isActive: true },
+  { id: 3, name: 'Guest Cabin 1', deck: 'Upper Deck', type: 'cabin', capacity: 2, isActive: true },
+]
+
+const guest = (id: number, overrides: Partial<AllocationGuest> = {}): AllocationGuest => ({
+  id,
+  name: `Guest ${id}`,
+  guestType: 'Guest',
+  isVip: false,
+  partySize: 1,
+  arrivalDate: new Date('2025-06-01T12:00:00Z'),
+  departureDate: new Date('2025-06-08T12:00:00Z'),
+  locationId: null,
+  charterId: null,
+  preferences: null,
+  ...overrides,
+})
+
+describe('CabinAllocationService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('validate', () => {
+    it('should flag parties larger than the cabin', () => {
+      const conflicts = CabinAllocationService.validate([guest(1, { locationId: 3, partySize: 3 })], cabins)
+
+      expect(conflicts.map(conflict => conflict.type)).toEqual(['party_size'])
+    })
+
+    it('should flag overlapping stays of separate bookings', () => {
+      const conflicts = CabinAllocationService.validate([
+        guest(1, { locationId: 3 }),
+        guest(2, { locationId: 3, arrivalDate: new Date('2025-06-05T12:00:00Z'), departureDate: new Date('2025-06-10T12:00:00Z') }),
+      ], cabins)
+
+      expect(conflicts).toEqual([expect.objectContaining({ type: 'overlap', locationId: 3, guestIds: [1, 2] })])
+    })
+
+    it('should let one charter party share a cabin up to its capacity', () => {
+      const shared = [guest(1, { locationId: 3, charterId: 7 }), guest(2, { locationId: 3, charterId: 7 })]
+      expect(CabinAllocationService.validate(shared, cabins)).toEqual([])
+
+      const crowded = [...shared, guest(3, { locationId: 3, charterId: 7 })]
+      expect(CabinAllocationService.validate(crowded, cabins)).toEqual([
+        expect.objectContaining({ type: 'capacity', locationId: 3, guestIds: [1, 2, 3] })
+      ])
+    })
+
+    it('should allow back-to-back stays in the same cabin', () => {
+      const conflicts = CabinAllocationService.validate([
+        guest(1, { locationId: 3 }),
+        guest(2, { locationId: 3, arrivalDate: new Date('2025-06-08T12:00:00Z'), departureDate: new Date('2025-06-12T12:00:00Z') }),
+      ], cabins)
+
+      expect(conflicts).toEqual([])
+    })
+  })
+
+  describe('suggest', () => {
+    it('should put the owner in the master suite and VIPs in suites', () => {
+      const suggestions = CabinAllocationService.suggest([
+        guest(1),
+        guest(2, { isVip: true }),
+        guest(3, { guestType: 'Owner', isVip: true }),
+      ], cabins)
+
+      expect(suggestions).toEqual([
+        { guestId: 3, locationId: 1 },
+        { guestId: 2, locationId: 2 },
+        { guestId: 1, locationId: 3 },
+      ])
+    })
+
+    it('should honour a preferred cabin and skip occupied cabins', () => {
+      const suggestions = CabinAllocationService.suggest([
+        guest(1, { locationId: 3 }),
+        guest(2, { preferences: JSON.stringify({ preferredCabin: 'Guest Cabin 1' }) }),
+      ], cabins)
+
+      expect(suggestions).toEqual([{ guestId: 2, locationId: 2 }])
+    })
+  })
+
+  describe('apply', () => {
+    const from = new Date('2025-06-01T00:00:00Z')
+    const to = new Date('2025-06-15T00:00:00Z')
+
+    beforeEach(() => {
+      prisma.location.findMany.mockResolvedValue(cabins.map(cabin => ({
+        ...cabin,
+        devices: [{ id: 10 + cabin.id, uid: `BTN-${cabin.id}`, name: null }]
+      })))
+    })
+
+    it('should not write conflicting changes', async () => {
+      prisma.guest.findMany.mockResolvedValueOnce([guest(1, { locationId: 3 }), guest(2)])
+
+      const result = await CabinAllocationService.apply([{ guestId: 2, locationId: 3 }], from, to)
+
+      expect(result.applied).toBe(false)
+      expect(result.conflicts[0].type).toBe('overlap')
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should not write changes for guests outside the plan period, even when forced', async () => {
+      prisma.guest.findMany.mockResolvedValueOnce([guest(1, { locationId: 3 }), guest(2)])
+
+      const result = await CabinAllocationService.apply(
+        [{ guestId: 2, locationId: 2 }, { guestId: 99, locationId: 2 }], from, to, { force: true }
+      )
+
+      expect(result.applied).toBe(false)
+      expect(result.unknownGuestIds).toEqual([99])
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should move guests and report the call buttons now mapped to them', async () => {
+      prisma.guest.findMany.mockResolvedValueOnce([guest(1, { locationId: 3 }), guest(2)])
+
+      const result = await CabinAllocationService.apply([{ guestId: 2, locationId: 2 }], from, to)
+
+      expect(result.applied).toBe(true)
+      expect(prisma.guest.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { locationId: 2, room: 'VIP Suite 1' }
+      })
+      expect(result.buttons).toEqual([
+        { guestId: 2, locationId: 2, devices: [{ id: 12, uid: 'BTN-2', name: null }] }
+      ])
+      expect(DndService.sync).toHaveBeenCalled()
+    })
+  })
+})
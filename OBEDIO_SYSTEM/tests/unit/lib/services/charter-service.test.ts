@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { CharterService } from '@/lib/services/charter-service'
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    charter: {
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    guest: {
+      updateMany: vi.fn()
+    },
+    request: {
+      findMany: vi.fn()
+    },
+    $transaction: vi.fn(),
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const charter = {
+  id: 1,
+  name: 'Adriatic June',
+  startDate: new Date('2025-06-01T12:00:00Z'),
+  endDate: new Date('2025-06-08T12:00:00Z'),
+  itinerary: JSON.stringify([{ port: 'Split', arrival: '2025-06-01' }]),
+  cabinPlan: JSON.stringify([{ guestId: 3, locationId: 10 }]),
+}
+
+const guests = [
+  { id: 3, name: 'James Smith', isVip: true, notes: null, preferences: null, languagesSpoken: null, locationId: 10 },
+  { id: 4, name: 'Ana Smith', isVip: false, notes: null, preferences: null, languagesSpoken: null, locationId: 11 },
+]
+
+const request = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  createdAt: new Date('2025-06-02T10:00:00Z'),
+  priority: 'normal',
+  category: 'service',
+  incidentNote: null,
+  guestContext: null,
+  device: { room: 'Master Cabin', locationId: 10 },
+  events: [],
+  ...overrides,
+})
+
+describe('CharterService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('resolveStatus', () => {
+    it('should derive status from dates and keep closed charters closed', () => {
+      const now = new Date('2025-06-03T00:00:00Z')
+
+      expect(CharterService.resolveStatus({ status: 'upcoming', startDate: new Date('2025-06-10') }, now)).toBe('upcoming')
+      expect(CharterService.resolveStatus({ status: 'upcoming', startDate: charter.startDate }, now)).toBe('active')
+      expect(CharterService.resolveStatus({ status: 'closed', startDate: charter.startDate }, now)).toBe('closed')
+    })
+  })
+
+  describe('buildReport', () => {
+    it('should attribute requests by guest snapshot, falling back to the cabin plan', () => {
+      const report = CharterService.buildReport(charter, guests, [
+        request(1, {
+          guestContext: JSON.stringify([{ guestId: 4, name: 'Ana Smith' }]),
+          events: [
+            { type: 'ACCEPTED', createdAt: new Date('2025-06-02T10:01:00Z') },
+            { type: 'COMPLETED', createdAt: new Date('2025-06-02T10:05:00Z') },
+          ],
+        }),
+        request(2, { priority: 'emergency', category: 'medical', incidentNote: 'Minor cut' }),
+      ], [{ guestId: 3, locationId: 10 }])
+
+      expect(report.totals.requests).toBe(2)
+      expect(report.totals.emergencies).toBe(1)
+      expect(report.totals.timeToAccept.avg).toBe(60)
+      expect(report.totals.timeToComplete.avg).toBe(300)
+      expect(report.guests.map(guest => [guest.guestId, guest.requests])).toEqual([[3, 1], [4, 1]])
+      expect(report.incidents).toEqual([{
+        requestId: 2,
+        category: 'medical',
+        room: 'Master Cabin',
+        createdAt: '2025-06-02T10:00:00.000Z',
+        incidentNote: 'Minor cut',
+      }])
+      expect(report.itinerary).toEqual([{ port: 'Split', arrival: '2025-06-01' }])
+    })
+  })
+
+  describe('close', () => {
+    it('should store the final report and archive charter guests', async () => {
+      const now = new Date('2025-06-08T13:00:00Z')
+      prisma.charter.findUnique.mockResolvedValueOnce({ ...charter, guests })
+      prisma.request.findMany.mockResolvedValueOnce([request(1)])
+
+      const report = await CharterService.close(1, now)
+
+      expect(report?.totals.requests).toBe(1)
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1)
+      expect(prisma.charter.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { status: 'closed', closedAt: now, report: JSON.stringify(report) }
+      })
+      expect(prisma.guest.updateMany).toHaveBeenCalledWith({
+        where: { charterId: 1 },
+        data: { status: 'Archived', archivedAt: now, locationId: null, room: null }
+      })
+    })
+
+    it('should return null for unknown charters', async () => {
+      prisma.charter.findUnique.mockResolvedValueOnce(null)
+
+      expect(await CharterService.close(99)).toBeNull()
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { CoverageService, signalToRssi } from '@/lib/services/coverage-service'
+import type { CoverageInput } from '@/lib/services/coverage-service'
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    signalSample: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    heartbeatCount: {
+      upsert: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    location: {
+      findMany: vi.fn()
+    },
+    device: {
+      findMany: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+// Lokalno vreme, jer se najlošiji sat računa po vremenu servera
+const NOW = new Date(2025, 8, 1, 12, 30)
+const at = (hour: number, minute = 0) => new Date(2025, 8, 1, hour, minute)
+
+const input = (overrides: Partial<CoverageInput> = {}): CoverageInput => ({
+  locations: [
+    { id: 1, name: 'Master Cabin', deck: 'Main Deck' },
+    { id: 2, name: 'VIP Cabin', deck: 'Main Deck' },
+    { id: 3, name: 'Crew Mess', deck: 'Lower Deck' },
+  ],
+  devices: [
+    { uid: 'BTN-1', name: null, type: 'BUTTON', locationId: 1, coverageArea: null },
+    { uid: 'BTN-2', name: null, type: 'BUTTON', locationId: 2, coverageArea: null },
+    { uid: 'BTN-3', name: null, type: 'BUTTON', locationId: 3, coverageArea: null },
+    { uid: 'REP-1', name: 'Main repeater', type: 'REPEATER', locationId: 1, coverageArea: 'Main Deck aft' },
+  ],
+  samples: [],
+  heartbeats: [],
+  ...overrides,
+})
+
+describe('CoverageService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('recordStatus', () => {
+    it('should convert percent signal to dBm and keep negative values as RSSI', async () => {
+      await CoverageService.recordStatus('BTN-1', { signal: 50 }, NOW)
+      await CoverageService.recordStatus('BTN-1', { signal: -95 }, NOW)
+      await CoverageService.recordStatus('BTN-1', {}, NOW)
+
+      expect(prisma.signalSample.create).toHaveBeenCalledTimes(2)
+      expect(prisma.signalSample.create.mock.calls[0][0].data).toEqual({
+        deviceUid: 'BTN-1', repeaterUid: null, rssi: signalToRssi(50), snr: null, recordedAt: NOW
+      })
+      expect(prisma.signalSample.create.mock.calls[1][0].data).toMatchObject({ rssi: -95 })
+    })
+  })
+
+  describe('recordHeartbeat', () => {
+    it('should count heartbeats per device and hour', async () => {
+      await CoverageService.recordHeartbeat('BTN-1', NOW)
+
+      expect(prisma.heartbeatCount.upsert).toHaveBeenCalledWith({
+        where: { deviceUid_hour: { deviceUid: 'BTN-1', hour: at(12) } },
+        create: { deviceUid: 'BTN-1', hour: at(12), received: 1 },
+        update: { received: { increment: 1 } },
+      })
+    })
+  })
+
+  describe('buildReport', () => {
+    it('should compute median RSSI, packet loss and the worst hour per location and deck', () => {
+      const report = CoverageService.buildReport(input({
+        samples: [
+          { deviceUid: 'BTN-1', rssi: -70, recordedAt: at(9) },
+          { deviceUid: 'BTN-1', rssi: -80, recordedAt: at(10) },
+          { deviceUid: 'BTN-1', rssi: -75, recordedAt: at(10, 30) },
+          // Repetitor ne meri pokrivenost lokacije
+          { deviceUid: 'REP-1', rssi: -40, recordedAt: at(9) },
+          { deviceUid: 'BTN-2', rssi: -105, recordedAt: at(11) },
+          { deviceUid: 'BTN-2', rssi: -108, recordedAt: at(11, 15) },
+          { deviceUid: 'BTN-2', rssi: -101, recordedAt: at(11, 30) },
+        ],
+        heartbeats: [
+          { deviceUid: 'BTN-1', hour: at(9), received: 120 },
+          // Sat 10 bez ijednog heartbeat-a
+          { deviceUid: 'BTN-1', hour: at(11), received: 60 },
+          // Tekući sat još nije završen
+          { deviceUid: 'BTN-1', hour: at(12), received: 10 },
+        ],
+      }), 1, NOW)
+
+      const mainDeck = report.decks.find(deck => deck.deck === 'Main Deck')!
+      const master = mainDeck.locations.find(location => location.locationId === 1)!
+      expect(master).toMatchObject({ devices: 1, samples: 3, medianRssi: -75, packetLoss: 0.5, quality: 'poor' })
+      expect(master.worstHour).toMatchObject({ hour: 10, packetLoss: 1, quality: 'poor' })
+
+      const vip = mainDeck.locations.find(location => location.locationId === 2)!
+      expect(vip).toMatchObject({ medianRssi: -105, packetLoss: null, quality: 'poor' })
+      expect(mainDeck.repeaters).toEqual([
+        { uid: 'REP-1', name: 'Main repeater', location: 'Master Cabin', coverageArea: 'Main Deck aft' }
+      ])
+      expect(mainDeck.samples).toBe(6)
+
+      expect(report.decks.find(deck => deck.deck === 'Lower Deck')).toMatchObject({ quality: 'no_data', worstHour: null })
+    })
+
+    it('should recommend a repeater at the worst location of each poorly covered deck', () => {
+      const report = CoverageService.buildReport(input({
+        samples: [
+          { deviceUid: 'BTN-1', rssi: -95, recordedAt: at(9) },
+          { deviceUid: 'BTN-2', rssi: -110, recordedAt: at(9) },
+          { deviceUid: 'BTN-3', rssi: -60, recordedAt: at(9) },
+        ],
+      }), 7, NOW)
+
+      expect(report.recommendations).toEqual([{
+        deck: 'Main Deck',
+        locationId: 2,
+        locationName: 'VIP Cabin',
+        medianRssi: -110,
+        packetLoss: null,
+        reason: 'weak_signal',
+        affectedLocations: ['Master Cabin', 'VIP Cabin'],
+        existingRepeater: null,
+      }])
+    })
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { DeviceConfigService, DEFAULT_DEVICE_CONFIG } from '@/lib/services/device-config-service'
+import { emitter } from '@/lib/sseEmitter'
+
+// Mock za emitter
+vi.mock('@/lib/sseEmitter', () => ({
+  emitter: {
+    emitEvent: vi.fn()
+  },
+  SSE_EVENTS: {
+    DEVICE_CONFIG: 'device_config'
+  }
+}))
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    deviceConfigProfile: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn()
+    },
+    device: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const NOW = new Date('2025-09-01T12:00:00Z')
+
+const device = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  uid: `BTN-${id}`,
+  type: 'BUTTON',
+  lastSeen: NOW,
+  appliedConfigHash: null,
+  pushedConfigHash: null,
+  configPushedAt: null,
+  ...overrides
+})
+
+const profile = (overrides: Record<string, unknown>) => ({
+  id: 1,
+  deviceType: null,
+  deviceId: null,
+  version: 1,
+  notes: null,
+  createdBy: null,
+  createdAt: NOW,
+  ...overrides
+})
+
+describe('DeviceConfigService', () => {
+  let prisma: any
+  let publisher: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+    publisher = vi.fn()
+    DeviceConfigService.setPublisher(publisher)
+  })
+
+  describe('resolve', () => {
+    it('should layer the device profile over the type profile and defaults', () => {
+      const config = DeviceConfigService.resolve(
+        { interactions: { double_press: { action: 'message' } }, lora: { spreadingFactor: 9 } },
+        { interactions: { double_press: { enabled: false } }, ledEnabled: false }
+      )
+
+      expect(config.interactions.double_press).toEqual({ enabled: false, action: 'message' })
+      expect(config.interactions.single_press).toEqual(DEFAULT_DEVICE_CONFIG.interactions.single_press)
+      expect(config.lora).toEqual({ ...DEFAULT_DEVICE_CONFIG.lora, spreadingFactor: 9 })
+      expect(config.ledEnabled).toBe(false)
+      expect(config.vibrationEnabled).toBe(true)
+    })
+
+    it('should hash equal configurations the same regardless of key order', () => {
+      const config = DeviceConfigService.resolve()
+      const reordered = { ...config, lora: { ...config.lora } }
+      const { ledEnabled, ...rest } = reordered
+
+      expect(DeviceConfigService.hash({ ledEnabled, ...rest })).toBe(DeviceConfigService.hash(config))
+      expect(DeviceConfigService.hash(DeviceConfigService.resolve({ ledEnabled: false }))).not.toBe(DeviceConfigService.hash(config))
+    })
+
+    it('should report drift against the applied and pushed hashes', () => {
+      expect(DeviceConfigService.configState({ appliedConfigHash: 'a', pushedConfigHash: 'a' }, 'a')).toBe('synced')
+      expect(DeviceConfigService.configState({ appliedConfigHash: 'a', pushedConfigHash: 'b' }, 'b')).toBe('pending')
+      expect(DeviceConfigService.configState({ appliedConfigHash: 'a', pushedConfigHash: 'a' }, 'b')).toBe('drift')
+    })
+  })
+
+  describe('saveProfile', () => {
+    it('should store a new version after the latest one', async () => {
+      prisma.deviceConfigProfile.findFirst.mockResolvedValue({ version: 3 })
+      prisma.deviceConfigProfile.create.mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(profile(data)))
+
+      const saved = await DeviceConfigService.saveProfile({ deviceType: 'BUTTON' }, { shakeToCall: false }, 'Bez trešenja', 5)
+
+      expect(prisma.deviceConfigProfile.create).toHaveBeenCalledWith({
+        data: {
+          deviceType: 'BUTTON',
+          version: 4,
+          config: JSON.stringify({ shakeToCall: false }),
+          notes: 'Bez trešenja',
+          createdBy: 5
+        }
+      })
+      expect(saved.config).toEqual({ shakeToCall: false })
+    })
+  })
+
+  describe('sync', () => {
+    const typeProfile = profile({ deviceType: 'BUTTON', config: JSON.stringify({ ledEnabled: false }) })
+    const expectedHash = DeviceConfigService.hash(DeviceConfigService.resolve({ ledEnabled: false }))
+
+    beforeEach(() => {
+      prisma.deviceConfigProfile.findMany.mockImplementation(({ where }: { where: { deviceType?: unknown } }) =>
+        Promise.resolve(where.deviceType ? [typeProfile] : [])
+      )
+    })
+
+    it('should push the resolved profile to devices that have not applied it', async () => {
+      prisma.device.findMany.mockResolvedValue([device(1), device(2, { appliedConfigHash: expectedHash })])
+
+      const pushed = await DeviceConfigService.sync(NOW)
+
+      expect(pushed).toBe(1)
+      expect(publisher).toHaveBeenCalledWith('obedio/device/BTN-1/cmd/config', expect.objectContaining({
+        hash: expectedHash,
+        config: expect.objectContaining({ ledEnabled: false })
+      }))
+      expect(prisma.device.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { pushedConfigHash: expectedHash, configPushedAt: NOW }
+      })
+      expect(emitter.emitEvent).toHaveBeenCalledWith('device_config', expect.objectContaining({ uid: 'BTN-1', state: 'pending' }))
+    })
+
+    it('should wait before pushing the same profile again', async () => {
+      prisma.device.findMany.mockResolvedValue([
+        device(1, { pushedConfigHash: expectedHash, configPushedAt: new Date(NOW.getTime() - 60 * 1000) }),
+        device(2, { pushedConfigHash: expectedHash, configPushedAt: new Date(NOW.getTime() - 10 * 60 * 1000) })
+      ])
+
+      await DeviceConfigService.sync(NOW)
+
+      expect(publisher).toHaveBeenCalledTimes(1)
+      expect(publisher).toHaveBeenCalledWith('obedio/device/BTN-2/cmd/config', expect.anything())
+    })
+
+    it('should not push anything without an MQTT publisher', async () => {
+      DeviceConfigService.setPublisher(null)
+
+      await DeviceConfigService.sync(NOW)
+
+      expect(prisma.device.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('handleApplied', () => {
+    it('should record the hash the device applied', async () => {
+      prisma.device.findUnique.mockResolvedValue(device(1, { pushedConfigHash: 'abc' }))
+
+      await DeviceConfigService.handleApplied('BTN-1', { hash: 'abc' })
+
+      expect(prisma.device.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { appliedConfigHash: 'abc', configAppliedAt: expect.any(Date) }
+      })
+      expect(emitter.emitEvent).toHaveBeenCalledWith('device_config', expect.objectContaining({ state: 'synced' }))
+    })
+
+    it('should keep the previous hash when the device rejects the profile', async () => {
+      prisma.device.findUnique.mockResolvedValue(device(1, { pushedConfigHash: 'abc' }))
+
+      await DeviceConfigService.handleApplied('BTN-1', { hash: 'abc', error: 'Unsupported spreading factor' })
+
+      expect(prisma.device.update).not.toHaveBeenCalled()
+      expect(emitter.emitEvent).toHaveBeenCalledWith('device_config', expect.objectContaining({
+        state: 'drift',
+        error: 'Unsupported spreading factor'
+      }))
+    })
+  })
+})
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { DispatchService, DispatchCandidate } from '@/lib/services/dispatch-service'
+import { WatchService } from '@/lib/services/watch-service'
+import { assignRequest } from '@/lib/mqtt-handlers/request-handler'
+
+// Mock za emitter
+vi.mock('@/lib/sseEmitter', () => ({
+  emitter: {
+    emitEvent: vi.fn()
+  },
+  SSE_EVENTS: {
+    REQUEST_UPDATE: 'request_update'
+  }
+}))
+
+// Mock za slanje na satove
+vi.mock('@/lib/services/watch-service', () => ({
+  WatchService: {
+    notifyUsers: vi.fn().mockResolvedValue([])
+  }
+}))
+
+// Mock za prevod poruke gosta
+vi.mock('@/lib/services/translation-service', () => ({
+  TranslationService: {
+    translateRequest: vi.fn().mockResolvedValue(null)
+  }
+}))
+
+// Mock za istoriju zahteva
+vi.mock('@/lib/services/request-history-service', () => ({
+  RequestHistoryService: {
+    record: vi.fn().mockResolvedValue(null)
+  },
+  REQUEST_EVENT_TYPES: {
+    DISPATCHED: 'DISPATCHED',
+    DECLINED: 'DECLINED'
+  }
+}))
+
+// Mock za dodelu zahteva
+vi.mock('@/lib/mqtt-handlers/request-handler', () => ({
+  assignRequest: vi.fn().mockResolvedValue({ id: 1 })
+}))
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    request: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    },
+    user: {
+      findMany: vi.fn()
+    },
+    dispatchOffer: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn()
+    },
+    $transaction: vi.fn(),
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const candidate = (overrides: Partial<DispatchCandidate>): DispatchCandidate => ({
+  userId: 1,
+  name: 'Crew',
+  department: 'Interior',
+  crewStatus: 'available',
+  workloadHours: 0,
+  openRequests: 0,
+  locationId: null,
+  deck: null,
+  ...overrides
+})
+
+const target = { department: 'Interior', locationId: 10, deck: 'Main Deck' }
+
+describe('DispatchService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('resolveDepartment', () => {
+    it('should prefer the department configured on the location', () => {
+      expect(DispatchService.resolveDepartment({ type: 'cabin', responsibleDepartment: 'Deck' })).toBe('Deck')
+    })
+
+    it('should fall back to the location type mapping', () => {
+      expect(DispatchService.resolveDepartment({ type: 'technical', responsibleDepartment: null })).toBe('Engineering')
+      expect(DispatchService.resolveDepartment(null)).toBe('Interior')
+    })
+  })
+
+  describe('rankCandidates', () => {
+    it('should prefer the responsible department over a closer crew member', () => {
+      const ranked = DispatchService.rankCandidates([
+        candidate({ userId: 1, department: 'Deck', locationId: 10, deck: 'Main Deck' }),
+        candidate({ userId: 2, department: 'Interior' })
+      ], target)
+
+      expect(ranked.map(item => item.candidate.userId)).toEqual([2, 1])
+    })
+
+    it('should penalize open requests, workload and breaks', () => {
+      const ranked = DispatchService.rankCandidates([
+        candidate({ userId: 1, openRequests: 2 }),
+        candidate({ userId: 2, crewStatus: 'break' }),
+        candidate({ userId: 3, workloadHours: 4 })
+      ], target)
+
+      expect(ranked.map(item => item.candidate.userId)).toEqual([3, 1, 2])
+    })
+
+    it('should skip offline crew and crew that already got an offer', () => {
+      const ranked = DispatchService.rankCandidates([
+        candidate({ userId: 1, crewStatus: 'offline' }),
+        candidate({ userId: 2 }),
+        candidate({ userId: 3 })
+      ], target, [2])
+
+      expect(ranked.map(item => item.candidate.userId)).toEqual([3])
+    })
+  })
+
+  describe('dispatch', () => {
+    const pendingRequest = {
+      id: 7,
+      deviceId: 3,
+      status: 'PENDING',
+      priority: 'normal',
+      device: {
+        name: 'Master Button',
+        room: 'Master Suite',
+        locationRef: { id: 10, type: 'cabin', deck: 'Main Deck', responsibleDepartment: null }
+      },
+      dispatchOffers: [{ userId: 4, status: 'DECLINED' }]
+    }
+
+    it('should offer the request to the best candidate not yet asked', async () => {
+      const now = new Date('2025-06-01T12:00:00Z')
+      prisma.request.findUnique.mockResolvedValueOnce(pendingRequest)
+      prisma.user.findMany.mockResolvedValueOnce([
+        {
+          id: 4, name: 'Ana', department: 'Interior', crewStatus: 'available', workloadHours: 0,
+          lastLocationAt: null, lastLocation: null, _count: { requests: 0 }
+        },
+        {
+          id: 5, name: 'Marko', department: 'Interior', crewStatus: 'available', workloadHours: 2,
+          lastLocationAt: now, lastLocation: { id: 10, deck: 'Main Deck' }, _count: { requests: 1 }
+        }
+      ])
+      prisma.$transaction.mockResolvedValueOnce([{ id: 12 }, {}])
+
+      const offer = await DispatchService.dispatch(7, now)
+
+      expect(offer).toEqual({ id: 12 })
+      expect(prisma.dispatchOffer.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ requestId: 7, userId: 5 })
+      })
+      expect(WatchService.notifyUsers).toHaveBeenCalledWith([5], expect.objectContaining({
+        type: 'dispatch_offer',
+        requestId: 7,
+        offerId: 12
+      }))
+    })
+
+    it('should leave the request to escalation when no candidate is left', async () => {
+      prisma.request.findUnique.mockResolvedValueOnce(pendingRequest)
+      prisma.user.findMany.mockResolvedValueOnce([
+        {
+          id: 4, name: 'Ana', department: 'Interior', crewStatus: 'available', workloadHours: 0,
+          lastLocationAt: null, lastLocation: null, _count: { requests: 0 }
+        }
+      ])
+      vi.spyOn(console, 'warn').mockImplementationOnce(() => {})
+
+      const offer = await DispatchService.dispatch(7)
+
+      expect(offer).toBeNull()
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should not dispatch emergency requests to a single crew member', async () => {
+      prisma.request.findUnique.mockResolvedValueOnce({ ...pendingRequest, priority: 'emergency' })
+
+      const offer = await DispatchService.dispatch(7)
+
+      expect(offer).toBeNull()
+      expect(prisma.user.findMany).not.toHaveBeenCalled()
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('sweep', () => {
+    it('should keep dispatching other requests when one of them fails', async () => {
+      const now = new Date('2025-06-01T12:00:00Z')
+      prisma.dispatchOffer.findMany.mockResolvedValueOnce([
+        { id: 20, requestId: 6, userId: 4, request: { status: 'COMPLETED', assignedTo: 4 } }
+      ])
+      prisma.request.findMany.mockResolvedValueOnce([
+        { id: 7, priority: 'normal', createdAt: now },
+        { id: 8, priority: 'normal', createdAt: now }
+      ])
+      prisma.dispatchOffer.update.mockRejectedValueOnce(new Error('Database is locked'))
+      const dispatch = vi.spyOn(DispatchService, 'dispatch')
+        .mockRejectedValueOnce(new Error('Device removed'))
+        .mockResolvedValueOnce(null)
+      vi.spyOn(console, 'error').mockImplementationOnce(() => {})
+
+      await DispatchService.sweep(now)
+
+      expect(dispatch).toHaveBeenCalledTimes(2)
+      expect(dispatch).toHaveBeenLastCalledWith(8, now)
+      dispatch.mockRestore()
+    })
+  })
+
+  describe('handleAccept', () => {
+    it('should close the offer and assign the request', async () => {
+      prisma.request.findUnique.mockResolvedValueOnce({ status: 'PENDING' })
+
+      await DispatchService.handleAccept(7, 5)
+
+      expect(prisma.dispatchOffer.updateMany).toHaveBeenCalledWith({
+        where: { requestId: 7, userId: 5, status: 'PENDING' },
+        data: { status: 'ACCEPTED', respondedAt: expect.any(Date) }
+      })
+      expect(assignRequest).toHaveBeenCalledWith(7, 5)
+    })
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { DndService } from '@/lib/services/dnd-service'
+import { emitter } from '@/lib/sseEmitter'
+
+// Mock za emitter
+vi.mock('@/lib/sseEmitter', () => ({
+  emitter: {
+    emitEvent: vi.fn()
+  },
+  SSE_EVENTS: {
+    DND_CHANGED: 'dnd_changed'
+  }
+}))
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    guest: {
+      findMany: vi.fn()
+    },
+    location: {
+      findMany: vi.fn()
+    },
+    device: {
+      findMany: vi.fn()
+    },
+    request: {
+      findUnique: vi.fn()
+    },
+    serviceRequest: {
+      updateMany: vi.fn()
+    },
+    $transaction: vi.fn(),
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const LOCATIONS = [
+  { id: 1, name: 'Master Suite', deck: 'Main Deck' },
+  { id: 2, name: 'VIP Cabin', deck: 'Main Deck' },
+  { id: 3, name: 'Sky Lounge', deck: 'Upper Deck' },
+]
+
+describe('DndService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('resolveDndLocations', () => {
+    it('should apply DND to the guest cabin when no locations are selected', () => {
+      const result = DndService.resolveDndLocations([
+        { name: 'Ana', room: null, locationId: 2, preferences: JSON.stringify({ dndActive: true }) }
+      ], LOCATIONS)
+
+      expect(result).toEqual([{ locationId: 2, name: 'VIP Cabin', deck: 'Main Deck', guestNames: ['Ana'] }])
+    })
+
+    it('should use dndLocations by name and ignore guests without DND', () => {
+      const result = DndService.resolveDndLocations([
+        {
+          name: 'Ana', room: 'VIP Cabin', locationId: 2,
+          preferences: JSON.stringify({ dndActive: true, dndLocations: ['master suite', 'Sky Lounge'] })
+        },
+        { name: 'Marko', room: null, locationId: 1, preferences: JSON.stringify({ dndActive: false }) },
+        { name: 'Ivan', room: null, locationId: 1, preferences: 'not json' }
+      ], LOCATIONS)
+
+      expect(result.map(location => location.locationId)).toEqual([1, 3])
+    })
+  })
+
+  describe('findMentioned', () => {
+    const active = [
+      { locationId: 1, name: 'Master Suite', deck: 'Main Deck', guestNames: ['Ana'] },
+      { locationId: 3, name: 'Sky Lounge', deck: 'Upper Deck', guestNames: ['Ana'] },
+    ]
+
+    it('should include DND cabins on the same deck mentioned in the transcript', () => {
+      const result = DndService.findMentioned(
+        { locationId: 2, deck: 'Main Deck', transcript: 'Please bring towels, quietly - Master Suite is sleeping' },
+        active
+      )
+
+      expect(result.map(location => location.locationId)).toEqual([1])
+    })
+
+    it('should ignore mentions from other decks', () => {
+      const result = DndService.findMentioned(
+        { locationId: 2, deck: 'Main Deck', transcript: 'Is the sky lounge free?' },
+        active
+      )
+
+      expect(result).toEqual([])
+    })
+  })
+
+  describe('isTaskSuppressed', () => {
+    it('should suppress cleaning and turndown only while DND is active', () => {
+      expect(DndService.isTaskSuppressed('Turndown', true)).toBe(true)
+      expect(DndService.isTaskSuppressed('cleaning', false)).toBe(false)
+      expect(DndService.isTaskSuppressed('drinks', true)).toBe(false)
+    })
+  })
+
+  describe('sync', () => {
+    it('should suppress tasks, notify the dashboard and switch LEDs on changed cabins', async () => {
+      const publisher = vi.fn()
+      DndService.setPublisher(publisher)
+
+      // Prvo pokretanje: šalje stanje svim lokacijama
+      prisma.guest.findMany.mockResolvedValueOnce([])
+      prisma.location.findMany.mockResolvedValueOnce(LOCATIONS).mockResolvedValueOnce(LOCATIONS)
+      prisma.device.findMany.mockResolvedValueOnce([])
+      await DndService.sync()
+
+      // Gost u VIP kabini uključuje DND
+      prisma.guest.findMany.mockResolvedValueOnce([
+        { name: 'Ana', room: null, locationId: 2, preferences: JSON.stringify({ dndActive: true }) }
+      ])
+      prisma.location.findMany.mockResolvedValueOnce(LOCATIONS)
+      prisma.device.findMany.mockResolvedValueOnce([{ uid: 'BTN-VIP', locationId: 2 }])
+
+      const active = await DndService.sync()
+
+      expect(active.map(location => location.locationId)).toEqual([2])
+      expect(prisma.serviceRequest.updateMany).toHaveBeenCalledWith({
+        where: { room: { in: ['VIP Cabin'] }, type: { in: ['cleaning', 'turndown'] }, status: 'pending' },
+        data: { status: 'suppressed' }
+      })
+      expect(prisma.device.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        where: { locationId: { in: [2] }, dndLedEnabled: true, isActive: true }
+      }))
+      expect(publisher).toHaveBeenLastCalledWith('obedio/device/BTN-VIP/command', expect.objectContaining({
+        command: 'set_led',
+        led: 'dnd',
+        state: 'on'
+      }))
+      expect(emitter.emitEvent).toHaveBeenLastCalledWith('dnd_changed', expect.objectContaining({
+        locations: active
+      }))
+
+      DndService.setPublisher(null)
+    })
+  })
+})
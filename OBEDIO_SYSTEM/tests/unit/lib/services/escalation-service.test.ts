@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { EscalationService, DEFAULT_ESCALATION_TIERS } from '@/lib/services/escalation-service'
+import { emitter } from '@/lib/sseEmitter'
+import { RequestHistoryService } from '@/lib/services/request-history-service'
+
+// Mock za emitter
+vi.mock('@/lib/sseEmitter', () => ({
+  emitter: {
+    emitEvent: vi.fn()
+  },
+  SSE_EVENTS: {
+    REQUEST_ESCALATED: 'request_escalated'
+  }
+}))
+
+// Mock za slanje na satove
+vi.mock('@/lib/services/watch-service', () => ({
+  WatchService: {
+    notifyUsers: vi.fn().mockResolvedValue([])
+  }
+}))
+
+// Mock za istoriju zahteva
+vi.mock('@/lib/services/request-history-service', () => ({
+  RequestHistoryService: {
+    record: vi.fn().mockResolvedValue(null)
+  },
+  REQUEST_EVENT_TYPES: {
+    ESCALATED: 'ESCALATED'
+  }
+}))
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    request: {
+      findMany: vi.fn(),
+      update: vi.fn()
+    },
+    escalationPolicy: {
+      findMany: vi.fn()
+    },
+    requestEscalation: {
+      create: vi.fn()
+    },
+    user: {
+      findMany: vi.fn()
+    },
+    $transaction: vi.fn(),
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+describe('EscalationService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('parseTiers', () => {
+    it('should sort tiers by afterSeconds', () => {
+      const tiers = EscalationService.parseTiers(JSON.stringify([
+        { afterSeconds: 300, target: 'ROLES', roles: ['Captain'] },
+        { afterSeconds: 60, target: 'ASSIGNED_CREW' }
+      ]))
+
+      expect(tiers.map(tier => tier.afterSeconds)).toEqual([60, 300])
+    })
+
+    it('should reject ROLES tier without roles', () => {
+      expect(() => EscalationService.parseTiers(JSON.stringify([
+        { afterSeconds: 60, target: 'ROLES' }
+      ]))).toThrow('ROLES target zahteva listu uloga')
+    })
+
+    it('should reject an empty tier list', () => {
+      expect(() => EscalationService.parseTiers('[]')).toThrow()
+    })
+  })
+
+  describe('getDueTier', () => {
+    const createdAt = new Date('2025-06-01T12:00:00Z')
+
+    it('should return null before the first deadline', () => {
+      const now = new Date('2025-06-01T12:00:59Z')
+      expect(EscalationService.getDueTier(DEFAULT_ESCALATION_TIERS, createdAt, 0, now)).toBeNull()
+    })
+
+    it('should return the next tier once its deadline has passed', () => {
+      const now = new Date('2025-06-01T12:02:05Z')
+      const due = EscalationService.getDueTier(DEFAULT_ESCALATION_TIERS, createdAt, 1, now)
+
+      expect(due).toEqual({ level: 2, tier: DEFAULT_ESCALATION_TIERS[1] })
+    })
+
+    it('should return null when all tiers are exhausted', () => {
+      const now = new Date('2025-06-01T13:00:00Z')
+      expect(EscalationService.getDueTier(DEFAULT_ESCALATION_TIERS, createdAt, 3, now)).toBeNull()
+    })
+  })
+
+  describe('selectPolicy', () => {
+    const vipPolicy = {
+      id: 1,
+      locationType: null,
+      vipOnly: true,
+      tiers: JSON.stringify([{ afterSeconds: 30, target: 'ASSIGNED_CREW' }])
+    }
+    const cabinPolicy = {
+      id: 2,
+      locationType: 'cabin',
+      vipOnly: false,
+      tiers: JSON.stringify([{ afterSeconds: 90, target: 'ASSIGNED_CREW' }])
+    }
+
+    it('should prefer VIP policy for VIP guests', () => {
+      const result = EscalationService.selectPolicy([cabinPolicy, vipPolicy], 'cabin', true)
+      expect(result.policyId).toBe(1)
+    })
+
+    it('should use location type policy for regular guests', () => {
+      const result = EscalationService.selectPolicy([cabinPolicy, vipPolicy], 'cabin', false)
+      expect(result.policyId).toBe(2)
+    })
+
+    it('should fall back to default tiers', () => {
+      const result = EscalationService.selectPolicy([cabinPolicy], 'public', false)
+      expect(result).toEqual({ policyId: null, tiers: DEFAULT_ESCALATION_TIERS })
+    })
+  })
+
+  describe('sweep', () => {
+    it('should escalate overdue pending requests to the department on duty', async () => {
+      const now = new Date('2025-06-01T12:02:30Z')
+      const pendingRequest = {
+        id: 7,
+        deviceId: 3,
+        createdAt: new Date('2025-06-01T12:00:00Z'),
+        assignedTo: null,
+        escalationLevel: 1,
+        device: { id: 3, name: 'Master Button', room: 'Master Suite', locationRef: null }
+      }
+
+      prisma.request.findMany.mockResolvedValueOnce([pendingRequest])
+      prisma.escalationPolicy.findMany.mockResolvedValueOnce([])
+      prisma.user.findMany.mockResolvedValueOnce([{ id: 4 }, { id: 6 }])
+      prisma.$transaction.mockResolvedValueOnce([])
+
+      const escalated = await EscalationService.sweep(now)
+
+      expect(escalated).toBe(1)
+      expect(prisma.user.findMany).toHaveBeenCalledWith({
+        where: { department: 'Interior', status: 'on_duty', onLeave: false },
+        select: { id: true }
+      })
+      expect(prisma.requestEscalation.create).toHaveBeenCalledWith({
+        data: {
+          requestId: 7,
+          level: 2,
+          target: 'DEPARTMENT_ON_DUTY',
+          recipients: JSON.stringify([4, 6]),
+          policyId: null
+        }
+      })
+      expect(RequestHistoryService.record).toHaveBeenCalledWith(7, 'ESCALATED', {
+        metadata: { level: 2, target: 'DEPARTMENT_ON_DUTY', recipients: [4, 6], policyId: null }
+      })
+      expect(emitter.emitEvent).toHaveBeenCalledWith('request_escalated', expect.objectContaining({
+        requestId: 7,
+        level: 2,
+        recipients: [4, 6]
+      }))
+    })
+
+    it('should not escalate requests that are not yet due', async () => {
+      prisma.request.findMany.mockResolvedValueOnce([{
+        id: 8,
+        deviceId: 3,
+        createdAt: new Date('2025-06-01T12:00:00Z'),
+        assignedTo: null,
+        escalationLevel: 0,
+        device: { id: 3, name: 'Master Button', room: 'Master Suite', locationRef: null }
+      }])
+      prisma.escalationPolicy.findMany.mockResolvedValueOnce([])
+
+      const escalated = await EscalationService.sweep(new Date('2025-06-01T12:00:30Z'))
+
+      expect(escalated).toBe(0)
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+      expect(emitter.emitEvent).not.toHaveBeenCalled()
+    })
+
+    it('should keep escalating other requests when one of them fails', async () => {
+      const overdue = (id: number) => ({
+        id,
+        deviceId: 3,
+        createdAt: new Date('2025-06-01T12:00:00Z'),
+        assignedTo: null,
+        escalationLevel: 1,
+        device: { id: 3, name: 'Master Button', room: 'Master Suite', locationRef: null }
+      })
+
+      prisma.request.findMany.mockResolvedValueOnce([overdue(7), overdue(8)])
+      prisma.escalationPolicy.findMany.mockResolvedValueOnce([])
+      prisma.user.findMany.mockResolvedValue([{ id: 4 }])
+      prisma.$transaction
+        .mockRejectedValueOnce(new Error('Device removed'))
+        .mockResolvedValueOnce([])
+
+      const escalated = await EscalationService.sweep(new Date('2025-06-01T12:02:30Z'))
+
+      expect(escalated).toBe(1)
+      expect(emitter.emitEvent).toHaveBeenCalledWith('request_escalated', expect.objectContaining({ requestId: 8 }))
+    })
+  })
+})
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { FirmwareService } from '@/lib/services/firmware-service'
+import { emitter } from '@/lib/sseEmitter'
+
+// Mock za emitter
+vi.mock('@/lib/sseEmitter', () => ({
+  emitter: {
+    emitEvent: vi.fn()
+  },
+  SSE_EVENTS: {
+    FIRMWARE_UPDATE: 'firmware_update'
+  }
+}))
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    firmwareRelease: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn()
+    },
+    firmwareCampaign: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn()
+    },
+    firmwareUpdate: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    },
+    device: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const NOW = new Date('2025-09-01T12:00:00Z')
+const RELEASE = { id: 1, version: '2.0.0', size: 10000, checksum: 'a'.repeat(64) }
+
+const update = (id: number, status: string, online = true) => ({
+  id,
+  status,
+  device: {
+    id,
+    uid: `BTN-${id}`,
+    lastSeen: new Date(NOW.getTime() - (online ? 60 * 1000 : 60 * 60 * 1000)),
+    firmwareVersion: '1.0.0'
+  }
+})
+
+const campaign = (updates: ReturnType<typeof update>[], overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  status: 'running',
+  stages: JSON.stringify([10, 50, 100]),
+  currentStage: 0,
+  failureThreshold: 20,
+  release: RELEASE,
+  updates,
+  ...overrides
+})
+
+describe('FirmwareService', () => {
+  let prisma: any
+  let publisher: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+    publisher = vi.fn()
+    FirmwareService.setPublisher(publisher)
+  })
+
+  describe('rollout math', () => {
+    it('should round stage targets up and cap them at the device count', () => {
+      expect(FirmwareService.stageTarget(20, 10)).toBe(2)
+      expect(FirmwareService.stageTarget(3, 10)).toBe(1)
+      expect(FirmwareService.stageTarget(3, 100)).toBe(3)
+    })
+
+    it('should measure the failure rate against offered updates only', () => {
+      const counts = FirmwareService.summarize([
+        { status: 'failed' },
+        { status: 'succeeded' },
+        { status: 'succeeded' },
+        { status: 'succeeded' },
+        { status: 'succeeded' },
+        { status: 'pending' },
+        { status: 'pending' },
+      ])
+
+      expect(counts.failed).toBe(1)
+      expect(FirmwareService.exceedsFailureThreshold(counts, 20)).toBe(true)
+      expect(FirmwareService.exceedsFailureThreshold(counts, 25)).toBe(false)
+      expect(FirmwareService.exceedsFailureThreshold(FirmwareService.summarize([{ status: 'pending' }]), 1)).toBe(false)
+    })
+
+    it('should only allow valid campaign transitions', () => {
+      expect(FirmwareService.canTransition('draft', 'start')).toBe(true)
+      expect(FirmwareService.canTransition('running', 'resume')).toBe(false)
+      expect(FirmwareService.canTransition('completed', 'cancel')).toBe(false)
+    })
+  })
+
+  describe('advance', () => {
+    it('should offer the first stage to online devices only', async () => {
+      const updates = Array.from({ length: 20 }, (_, i) => update(i + 1, 'pending', i !== 0))
+      prisma.firmwareCampaign.findUnique.mockResolvedValue(campaign(updates))
+
+      await FirmwareService.advance(7, NOW)
+
+      // 10% od 20 uređaja = 2; prvi uređaj nije na mreži
+      expect(publisher).toHaveBeenCalledTimes(2)
+      expect(publisher).toHaveBeenCalledWith('obedio/device/BTN-2/ota/offer', expect.objectContaining({
+        campaignId: 7,
+        version: '2.0.0',
+        checksum: RELEASE.checksum,
+        totalChunks: 3
+      }))
+      expect(prisma.firmwareUpdate.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: expect.objectContaining({ status: 'offered', stage: 0, offeredAt: NOW })
+      })
+      expect(emitter.emitEvent).toHaveBeenCalledWith('firmware_update', expect.objectContaining({ uid: 'BTN-2', status: 'offered' }))
+    })
+
+    it('should move to the next stage once the current one has finished', async () => {
+      const updates = [update(1, 'succeeded'), ...Array.from({ length: 9 }, (_, i) => update(i + 2, 'pending'))]
+      prisma.firmwareCampaign.findUnique.mockResolvedValue(campaign(updates))
+
+      await FirmwareService.advance(7, NOW)
+
+      expect(prisma.firmwareCampaign.update).toHaveBeenCalledWith({ where: { id: 7 }, data: { currentStage: 1 } })
+      // 50% od 10 = 5, jedan je već ažuriran
+      expect(publisher).toHaveBeenCalledTimes(4)
+    })
+
+    it('should wait while updates of the current stage are in flight', async () => {
+      const updates = [update(1, 'downloading'), ...Array.from({ length: 9 }, (_, i) => update(i + 2, 'pending'))]
+      prisma.firmwareCampaign.findUnique.mockResolvedValue(campaign(updates))
+
+      await FirmwareService.advance(7, NOW)
+
+      expect(prisma.firmwareCampaign.update).not.toHaveBeenCalled()
+      expect(publisher).not.toHaveBeenCalled()
+    })
+
+    it('should pause the campaign when failures reach the threshold', async () => {
+      const updates = [update(1, 'failed'), update(2, 'succeeded'), update(3, 'pending')]
+      prisma.firmwareCampaign.findUnique.mockResolvedValue(campaign(updates, { currentStage: 1 }))
+
+      await FirmwareService.advance(7, NOW)
+
+      expect(prisma.firmwareCampaign.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ status: 'paused', pausedReason: expect.stringContaining('prag 20%') })
+      })
+      expect(publisher).not.toHaveBeenCalled()
+    })
+
+    it('should complete the campaign when every device has finished', async () => {
+      prisma.firmwareCampaign.findUnique.mockResolvedValue(campaign(
+        [update(1, 'succeeded'), update(2, 'succeeded')],
+        { currentStage: 2 }
+      ))
+
+      await FirmwareService.advance(7, NOW)
+
+      expect(prisma.firmwareCampaign.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { status: 'completed', completedAt: NOW }
+      })
+    })
+
+    it('should not offer anything without an MQTT publisher', async () => {
+      FirmwareService.setPublisher(null)
+
+      await FirmwareService.advance(7, NOW)
+
+      expect(prisma.firmwareCampaign.findUnique).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('handleProgress', () => {
+    const inFlight = (status: string) => ({
+      id: 3,
+      campaignId: 7,
+      deviceId: 12,
+      status,
+      progress: 40,
+      campaign: { release: RELEASE }
+    })
+
+    beforeEach(() => {
+      prisma.device.findUnique.mockResolvedValue({ id: 12 })
+    })
+
+    it('should record the new firmware version when the device reports success', async () => {
+      prisma.firmwareUpdate.findUnique.mockResolvedValue(inFlight('installing'))
+
+      await FirmwareService.handleProgress('BTN-12', { campaignId: 7, status: 'succeeded' })
+
+      expect(prisma.firmwareUpdate.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: expect.objectContaining({ status: 'succeeded', progress: 100, error: null })
+      })
+      expect(prisma.device.update).toHaveBeenCalledWith({ where: { id: 12 }, data: { firmwareVersion: '2.0.0' } })
+      // Završeno ažuriranje odmah proverava kampanju
+      expect(prisma.firmwareCampaign.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 7 } }))
+    })
+
+    it('should keep the device error on failure', async () => {
+      prisma.firmwareUpdate.findUnique.mockResolvedValue(inFlight('downloading'))
+
+      await FirmwareService.handleProgress('BTN-12', { campaignId: 7, status: 'failed', error: 'Checksum mismatch' })
+
+      expect(prisma.firmwareUpdate.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: expect.objectContaining({ status: 'failed', error: 'Checksum mismatch' })
+      })
+      expect(prisma.device.update).not.toHaveBeenCalled()
+    })
+
+    it('should ignore reports for updates that are not in flight', async () => {
+      prisma.firmwareUpdate.findUnique.mockResolvedValue(inFlight('cancelled'))
+
+      await FirmwareService.handleProgress('BTN-12', { campaignId: 7, status: 'downloading', progress: 50 })
+
+      expect(prisma.firmwareUpdate.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { GuestContextService } from '@/lib/services/guest-context-service'
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    guest: {
+      findMany: vi.fn()
+    },
+    request: {
+      findUnique: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+describe('GuestContextService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('fromGuest', () => {
+    it('should build a compact context from stored preferences', () => {
+      const context = GuestContextService.fromGuest({
+        id: 3,
+        name: 'James Smith',
+        isVip: true,
+        notes: 'Prefers to be addressed as Mr. Smith',
+        preferences: JSON.stringify({
+          drinks: ['G&T, no ice'],
+          food: [],
+          allergies: ['nuts'],
+          roomTemperature: 21,
+        }),
+        languagesSpoken: JSON.stringify(['English', 'French']),
+      })
+
+      expect(context).toEqual({
+        guestId: 3,
+        name: 'James Smith',
+        isVip: true,
+        drinks: ['G&T, no ice'],
+        food: [],
+        allergies: ['nuts'],
+        languages: ['English', 'French'],
+        notes: 'Prefers to be addressed as Mr. Smith',
+        summary: 'G&T, no ice · alergija: nuts',
+      })
+    })
+
+    it('should tolerate missing or malformed JSON', () => {
+      const context = GuestContextService.fromGuest({
+        id: 4, name: 'Ana', isVip: false, notes: null, preferences: '{broken', languagesSpoken: null
+      })
+
+      expect(context.drinks).toEqual([])
+      expect(context.languages).toEqual([])
+      expect(context.summary).toBe('')
+    })
+  })
+
+  describe('forLocation', () => {
+    it('should return no context for devices without a location', async () => {
+      expect(await GuestContextService.forLocation(null)).toEqual([])
+      expect(prisma.guest.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should look up guests currently staying in the location', async () => {
+      const now = new Date('2025-06-01T12:00:00Z')
+      prisma.guest.findMany.mockResolvedValueOnce([
+        { id: 3, name: 'James Smith', isVip: true, notes: null, preferences: null, languagesSpoken: null }
+      ])
+
+      const guests = await GuestContextService.forLocation(10, now)
+
+      expect(guests.map(guest => guest.guestId)).toEqual([3])
+      expect(prisma.guest.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          locationId: 10,
+          status: { notIn: ['Checked Out', 'Checked-Out'] },
+          arrivalDate: { lte: now },
+          departureDate: { gte: now },
+        }
+      }))
+    })
+  })
+})
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { HandoverService } from '@/lib/services/handover-service'
+import { emitter } from '@/lib/sseEmitter'
+import { WatchService } from '@/lib/services/watch-service'
+import { DutyService } from '@/lib/services/duty-service'
+
+// Mock za emitter
+vi.mock('@/lib/sseEmitter', () => ({
+  emitter: {
+    emitEvent: vi.fn()
+  },
+  SSE_EVENTS: {
+    HANDOVER: 'handover'
+  }
+}))
+
+// Mock za slanje na satove
+vi.mock('@/lib/services/watch-service', () => ({
+  WatchService: {
+    notifyUsers: vi.fn().mockResolvedValue([])
+  }
+}))
+
+// Mock za smene
+vi.mock('@/lib/services/duty-service', () => ({
+  DutyService: {
+    transferAllRequests: vi.fn().mockResolvedValue(1),
+    getLiveShift: vi.fn().mockResolvedValue(null),
+    getPlannedShift: vi.fn(),
+    startShift: vi.fn()
+  }
+}))
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    shift: {
+      findFirst: vi.fn()
+    },
+    user: {
+      findUnique: vi.fn()
+    },
+    request: {
+      findMany: vi.fn()
+    },
+    guest: {
+      findMany: vi.fn()
+    },
+    handover: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const at = (hour: number, minute: number = 0) => new Date(2025, 8, 10, hour, minute)
+
+const shiftRow = (id: number, userId: number, from: number, to: number, startedAt: Date | null = null) => ({
+  id, userId, laneId: 'service', startsAt: at(from), endsAt: at(to), startedAt, endedAt: null
+})
+
+const REQUEST = {
+  id: 40,
+  status: 'IN_PROGRESS',
+  priority: 'urgent',
+  device: { name: 'Master Suite Button', room: 'Master Suite' }
+}
+
+const handoverRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 5,
+  outgoingUserId: 3,
+  incomingUserId: 4,
+  outgoingShiftId: 1,
+  incomingShiftId: 2,
+  openRequests: JSON.stringify([{ requestId: 40, room: 'Master Suite', deviceName: 'Master Suite Button', status: 'IN_PROGRESS', priority: 'urgent', note: 'Champagne on ice' }]),
+  guestNotes: JSON.stringify([{ guestId: 9, guestName: 'Mr. Smith', room: 'Master Suite', note: 'Allergic to nuts' }]),
+  tasks: JSON.stringify(['Restock the aft deck bar']),
+  notes: null,
+  transferRequests: true,
+  status: 'pending',
+  acknowledgedAt: null,
+  acknowledgedVia: null,
+  createdAt: at(15, 50),
+  outgoingUser: { id: 3, name: 'Ana' },
+  incomingUser: { id: 4, name: 'Marko' },
+  outgoingShift: shiftRow(1, 3, 8, 16, at(8)),
+  incomingShift: shiftRow(2, 4, 16, 24),
+  ...overrides,
+})
+
+describe('HandoverService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('create', () => {
+    const now = at(15, 50)
+
+    it('should reject a handover without a shift in progress', async () => {
+      prisma.shift.findFirst.mockResolvedValue(null)
+
+      const result = await HandoverService.create({ requests: [], guestNotes: [], tasks: [] }, 3, now)
+
+      expect(result).toEqual({ outcome: 'invalid', error: 'Nema smene u toku za primopredaju' })
+      expect(prisma.handover.create).not.toHaveBeenCalled()
+    })
+
+    it('should hand over to the next shift on the same position with a snapshot of requests and guests', async () => {
+      prisma.shift.findFirst
+        .mockResolvedValueOnce(shiftRow(1, 3, 8, 16, at(8)))
+        .mockResolvedValueOnce(shiftRow(2, 4, 16, 24))
+      prisma.user.findUnique.mockResolvedValue({ id: 4 })
+      prisma.handover.count.mockResolvedValue(0)
+      prisma.request.findMany.mockResolvedValue([REQUEST])
+      prisma.guest.findMany.mockResolvedValue([{ id: 9, name: 'Mr. Smith', room: 'Master Suite' }])
+      prisma.handover.create.mockResolvedValue(handoverRow())
+
+      const result = await HandoverService.create({
+        requests: [{ requestId: 40, note: 'Champagne on ice' }],
+        guestNotes: [{ guestId: 9, note: 'Allergic to nuts' }],
+        tasks: ['Restock the aft deck bar'],
+      }, 3, now)
+
+      expect(result.outcome).toBe('created')
+      expect(prisma.shift.findFirst).toHaveBeenLastCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ laneId: 'service', userId: { not: 3 }, startedAt: null })
+      }))
+      expect(prisma.handover.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          outgoingUserId: 3,
+          incomingUserId: 4,
+          outgoingShiftId: 1,
+          incomingShiftId: 2,
+          openRequests: handoverRow().openRequests,
+          guestNotes: handoverRow().guestNotes,
+          transferRequests: true,
+        })
+      }))
+      expect(emitter.emitEvent).toHaveBeenCalledWith('handover', expect.objectContaining({
+        handoverId: 5,
+        status: 'pending',
+        recipients: [4],
+      }))
+    })
+
+    it('should reject requests that are not open and assigned to the outgoing crew', async () => {
+      prisma.shift.findFirst
+        .mockResolvedValueOnce(shiftRow(1, 3, 8, 16, at(8)))
+        .mockResolvedValueOnce(shiftRow(2, 4, 16, 24))
+      prisma.user.findUnique.mockResolvedValue({ id: 4 })
+      prisma.handover.count.mockResolvedValue(0)
+      prisma.request.findMany.mockResolvedValue([])
+      prisma.guest.findMany.mockResolvedValue([])
+
+      const result = await HandoverService.create({ requests: [{ requestId: 41 }], guestNotes: [], tasks: [] }, 3, now)
+
+      expect(result).toEqual({
+        outcome: 'invalid',
+        error: 'Predati se mogu samo otvoreni zahtevi dodeljeni odlazećem članu posade'
+      })
+    })
+  })
+
+  describe('acknowledge', () => {
+    const now = at(15, 55)
+
+    it('should transfer the listed requests and start the incoming shift', async () => {
+      prisma.handover.update.mockResolvedValue(handoverRow({ status: 'acknowledged', acknowledgedAt: now, acknowledgedVia: 'web' }))
+      vi.mocked(DutyService.getPlannedShift).mockResolvedValue(shiftRow(2, 4, 16, 24) as never)
+      vi.mocked(DutyService.startShift).mockResolvedValue(shiftRow(2, 4, 16, 24, now) as never)
+
+      const result = await HandoverService.acknowledge(5, 'web', now)
+
+      expect(prisma.handover.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 5 },
+        data: { status: 'acknowledged', acknowledgedAt: now, acknowledgedVia: 'web', watchNotified: false }
+      }))
+      expect(DutyService.transferAllRequests).toHaveBeenCalledWith(3, 4, 'Handover #5', 4, [40], { handoverId: 5 })
+      expect(DutyService.startShift).toHaveBeenCalledWith(4, 'web', now)
+      expect(result.transferred).toBe(1)
+      expect(emitter.emitEvent).toHaveBeenCalledWith('handover', expect.objectContaining({
+        status: 'acknowledged',
+        recipients: [3],
+      }))
+    })
+
+    it('should not start a different planned shift than the one handed over', async () => {
+      prisma.handover.update.mockResolvedValue(handoverRow({ status: 'acknowledged', transferRequests: false }))
+      vi.mocked(DutyService.getPlannedShift).mockResolvedValue(shiftRow(8, 4, 12, 20) as never)
+
+      const result = await HandoverService.acknowledge(5, 'watch', now)
+
+      expect(DutyService.transferAllRequests).not.toHaveBeenCalled()
+      expect(DutyService.startShift).not.toHaveBeenCalled()
+      expect(result.shift).toBeNull()
+    })
+  })
+
+  describe('deliverPending', () => {
+    it('should send the handover summary to the incoming crew and mark it delivered', async () => {
+      prisma.handover.findMany.mockResolvedValue([handoverRow()])
+
+      await HandoverService.deliverPending()
+
+      expect(WatchService.notifyUsers).toHaveBeenCalledWith([4], {
+        type: 'handover',
+        handoverId: 5,
+        status: 'pending',
+        openRequests: 1,
+        guestNotes: 1,
+        tasks: 1,
+        message: 'Handover from Ana: 1 open request, 1 guest note, 1 task',
+      })
+      expect(prisma.handover.update).toHaveBeenCalledWith({ where: { id: 5 }, data: { watchNotified: true } })
+    })
+  })
+})
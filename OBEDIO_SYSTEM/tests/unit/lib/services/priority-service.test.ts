@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { PriorityService } from '@/lib/services/priority-service'
+
+describe('PriorityService', () => {
+  describe('classifyPress', () => {
+    it('should treat a single press as a normal request', () => {
+      expect(PriorityService.classifyPress('single')).toEqual({ category: 'single_press', priority: 'normal' })
+    })
+
+    it('should default to a single press when press type is missing', () => {
+      expect(PriorityService.classifyPress(undefined)).toEqual({ category: 'single_press', priority: 'normal' })
+    })
+
+    it('should escalate double and long presses to urgent', () => {
+      expect(PriorityService.classifyPress('double').priority).toBe('urgent')
+      expect(PriorityService.classifyPress('long')).toEqual({ category: 'long_press', priority: 'urgent' })
+    })
+
+    it('should classify the emergency press as emergency', () => {
+      expect(PriorityService.classifyPress('emergency')).toEqual({ category: 'emergency_button', priority: 'emergency' })
+    })
+  })
+
+  describe('classifyEmergency', () => {
+    it('should recognise fall detection alerts', () => {
+      expect(PriorityService.classifyEmergency('fall_detection')).toEqual({ category: 'fall_detection', priority: 'emergency' })
+    })
+
+    it('should fall back to the emergency button category', () => {
+      expect(PriorityService.classifyEmergency(null).category).toBe('emergency_button')
+    })
+  })
+
+  describe('compare', () => {
+    it('should order by priority first, then oldest first', () => {
+      const requests = [
+        { id: 1, priority: 'normal', createdAt: new Date('2025-06-01T12:00:00Z') },
+        { id: 2, priority: 'emergency', createdAt: new Date('2025-06-01T12:05:00Z') },
+        { id: 3, priority: 'urgent', createdAt: new Date('2025-06-01T12:03:00Z') },
+        { id: 4, priority: 'urgent', createdAt: new Date('2025-06-01T12:01:00Z') },
+      ]
+
+      expect(requests.sort(PriorityService.compare).map(request => request.id)).toEqual([2, 4, 3, 1])
+    })
+  })
+
+  describe('validateClosure', () => {
+    it('should require an incident note for emergency requests', () => {
+      expect(PriorityService.validateClosure('emergency', '   ')).toBe(
+        'Hitan zahtev se ne može zatvoriti bez beleške o incidentu'
+      )
+      expect(PriorityService.validateClosure('emergency', 'Gost se okliznuo, pružena prva pomoć')).toBeNull()
+    })
+
+    it('should not require a note for normal requests', () => {
+      expect(PriorityService.validateClosure('normal')).toBeNull()
+    })
+  })
+})
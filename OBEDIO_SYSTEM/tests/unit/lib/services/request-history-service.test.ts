@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { RequestHistoryService, REQUEST_EVENT_TYPES } from '@/lib/services/request-history-service'
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    requestEvent: {
+      create: vi.fn(),
+      findMany: vi.fn()
+    },
+    user: {
+      findMany: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+describe('RequestHistoryService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('record', () => {
+    it('should store the event with serialized metadata', async () => {
+      prisma.requestEvent.create.mockResolvedValueOnce({ id: 1 })
+
+      await RequestHistoryService.record(5, REQUEST_EVENT_TYPES.TRANSFERRED, {
+        actorId: 2,
+        fromUserId: 3,
+        toUserId: 4,
+        reason: 'Kraj smene',
+        metadata: { bulkTransfer: true }
+      })
+
+      expect(prisma.requestEvent.create).toHaveBeenCalledWith({
+        data: {
+          requestId: 5,
+          type: 'TRANSFERRED',
+          actorId: 2,
+          fromUserId: 3,
+          toUserId: 4,
+          reason: 'Kraj smene',
+          metadata: JSON.stringify({ bulkTransfer: true })
+        }
+      })
+    })
+
+    it('should not throw when writing the event fails', async () => {
+      vi.spyOn(console, 'error').mockImplementationOnce(() => {})
+      prisma.requestEvent.create.mockRejectedValueOnce(new Error('DB error'))
+
+      await expect(
+        RequestHistoryService.record(5, REQUEST_EVENT_TYPES.CREATED)
+      ).resolves.toBeNull()
+    })
+  })
+
+  describe('getHistory', () => {
+    it('should resolve user names and parse metadata', async () => {
+      prisma.requestEvent.findMany.mockResolvedValueOnce([
+        {
+          id: 1,
+          requestId: 5,
+          type: 'CREATED',
+          actorId: null,
+          fromUserId: null,
+          toUserId: null,
+          reason: null,
+          metadata: JSON.stringify({ source: 'button' }),
+          createdAt: new Date('2025-06-01T12:00:00Z')
+        },
+        {
+          id: 2,
+          requestId: 5,
+          type: 'ACCEPTED',
+          actorId: 3,
+          fromUserId: null,
+          toUserId: 3,
+          reason: null,
+          metadata: null,
+          createdAt: new Date('2025-06-01T12:01:00Z')
+        }
+      ])
+      prisma.user.findMany.mockResolvedValueOnce([{ id: 3, name: 'Ana' }])
+
+      const history = await RequestHistoryService.getHistory(5)
+
+      expect(prisma.user.findMany).toHaveBeenCalledWith({
+        where: { id: { in: [3] } },
+        select: { id: true, name: true }
+      })
+      expect(history).toEqual([
+        {
+          id: 1,
+          type: 'CREATED',
+          createdAt: '2025-06-01T12:00:00.000Z',
+          actor: null,
+          fromUser: null,
+          toUser: null,
+          reason: null,
+          metadata: { source: 'button' }
+        },
+        {
+          id: 2,
+          type: 'ACCEPTED',
+          createdAt: '2025-06-01T12:01:00.000Z',
+          actor: { id: 3, name: 'Ana' },
+          fromUser: null,
+          toUser: { id: 3, name: 'Ana' },
+          reason: null,
+          metadata: null
+        }
+      ])
+    })
+  })
+})
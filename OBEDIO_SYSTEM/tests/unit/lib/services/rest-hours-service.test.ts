@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { RestHoursService } from '@/lib/services/rest-hours-service'
+import type { RestCrewMember, WorkPeriod } from '@/lib/services/rest-hours-service'
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    user: {
+      findUnique: vi.fn()
+    },
+    shift: {
+      findMany: vi.fn()
+    },
+    restRecord: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+// Lokalno vreme, jer se tabela vodi u vremenu broda
+const at = (day: number, hour: number) => new Date(2025, 8, day, hour)
+const VESSEL = { name: 'M/Y Serenity', imoNumber: '1234567', flag: 'Malta' }
+const MEMBER: RestCrewMember = { id: 3, name: 'Ana Petrović', role: 'Stewardess', department: 'Interior' }
+
+// Isti radni periodi (sat početka i kraja) za dane from..to
+const daily = (from: number, to: number, hours: [number, number][]): WorkPeriod[] =>
+  Array.from({ length: to - from + 1 }, (_, index) => hours.map(([start, end]) => ({
+    startsAt: at(from + index, start),
+    endsAt: at(from + index, end),
+  }))).flat()
+
+describe('RestHoursService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('buildSheet', () => {
+    it('should compute daily hours of work and rest', () => {
+      const sheet = RestHoursService.buildSheet(MEMBER, '2025-09', daily(1, 5, [[8, 17]]), VESSEL)
+
+      expect(sheet.days).toHaveLength(30)
+      expect(sheet.days[0]).toEqual({
+        date: '2025-09-01',
+        work: [{ from: 480, to: 1020 }],
+        workHours: 9,
+        restHours: 15,
+        minRest24h: 15,
+        minRest7d: 159,
+        nonconformities: [],
+      })
+      expect(sheet.totals).toEqual({ workHours: 45, restHours: 675, nonconformities: 0 })
+    })
+
+    it('should flag less than 10 hours of rest in 24 hours', () => {
+      const sheet = RestHoursService.buildSheet(MEMBER, '2025-09', [{ startsAt: at(2, 6), endsAt: at(2, 22) }], VESSEL)
+
+      expect(sheet.days[1].minRest24h).toBe(8)
+      expect(sheet.days[1].nonconformities).toEqual([
+        { type: 'rest_24h', message: 'Only 8h rest in a 24-hour period (minimum 10h)' }
+      ])
+      expect(sheet.totals.nonconformities).toBe(1)
+    })
+
+    it('should flag less than 77 hours of rest in 7 days, including the previous month', () => {
+      // 14 sati rada dnevno od 26. avgusta: sedmi dan je 1. septembar
+      const periods = Array.from({ length: 7 }, (_, day) => ({ startsAt: at(day - 5, 6), endsAt: at(day - 5, 20) }))
+      const sheet = RestHoursService.buildSheet(MEMBER, '2025-09', periods, VESSEL)
+
+      expect(sheet.days[0].minRest7d).toBe(70)
+      expect(sheet.days[0].nonconformities.map(item => item.type)).toEqual(['rest_7d'])
+      expect(sheet.days[0].nonconformities[0].message).toBe('Only 70h rest in a 7-day period (minimum 77h)')
+    })
+
+    it('should flag rest split into too many short periods', () => {
+      const sheet = RestHoursService.buildSheet(MEMBER, '2025-09', daily(1, 3, [[4, 8], [10, 13], [15, 18], [20, 22]]), VESSEL)
+
+      expect(sheet.days[1].minRest24h).toBe(12)
+      expect(sheet.days[1].nonconformities.map(item => item.type)).toEqual(['rest_periods'])
+    })
+
+    it('should accept split shifts with one long and one six-hour rest', () => {
+      const sheet = RestHoursService.buildSheet(MEMBER, '2025-09', daily(1, 6, [[7, 11], [17, 23]]), VESSEL)
+
+      expect(sheet.totals.nonconformities).toBe(0)
+    })
+  })
+
+  describe('toCsv', () => {
+    it('should export the sheet in the half-hour table layout', () => {
+      const sheet = RestHoursService.buildSheet(MEMBER, '2025-09', daily(1, 1, [[8, 17]]), VESSEL)
+      const csv = RestHoursService.toCsv({
+        sheet,
+        signature: { crewSignedAt: '2025-10-01T08:00:00.000Z', masterSignedAt: null, masterSignedBy: null },
+        changedSinceSigned: false,
+      })
+      const lines = csv.trim().split('\n')
+
+      expect(lines[0]).toBe('Name of ship,M/Y Serenity')
+      expect(lines[7].split(',')).toHaveLength(54)
+      const firstDay = lines[8].split(',')
+      expect(firstDay[0]).toBe('2025-09-01')
+      expect(firstDay.slice(1, 49).join('')).toBe('X'.repeat(18))
+      expect(firstDay[17]).toBe('X')
+      expect(firstDay.slice(49, 53)).toEqual(['9', '15', '15', '159'])
+      expect(lines[lines.length - 2]).toBe('Seafarer signed,2025-10-01T08:00:00.000Z')
+    })
+  })
+
+  describe('toPdf', () => {
+    it('should render a PDF document', () => {
+      const sheet = RestHoursService.buildSheet(MEMBER, '2025-09', daily(1, 1, [[8, 17]]), VESSEL)
+      const pdf = RestHoursService.toPdf({
+        sheet,
+        signature: { crewSignedAt: null, masterSignedAt: null, masterSignedBy: null },
+        changedSinceSigned: false,
+      }).toString('latin1')
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+      expect(pdf.trim().endsWith('%%EOF')).toBe(true)
+      // Slova van WinAnsi (ć) se zamenjuju osnovnim slovom
+      expect(pdf).toContain('(Seafarer: Ana Petrovic) Tj')
+    })
+  })
+
+  describe('signatures', () => {
+    beforeEach(() => {
+      prisma.user.findUnique.mockResolvedValue(MEMBER)
+      prisma.shift.findMany.mockResolvedValue(daily(1, 1, [[8, 17]]))
+    })
+
+    it('should store the sheet and reset the master signature when the crew signs', async () => {
+      prisma.restRecord.findUnique.mockResolvedValue(null)
+      const now = new Date('2025-10-01T08:00:00Z')
+
+      const record = await RestHoursService.sign(3, '2025-09', now)
+
+      expect(record?.signature).toEqual({ crewSignedAt: now.toISOString(), masterSignedAt: null, masterSignedBy: null })
+      const { where, create, update } = prisma.restRecord.upsert.mock.calls[0][0]
+      expect(where).toEqual({ userId_month: { userId: 3, month: '2025-09' } })
+      expect(JSON.parse(create.sheet).days[0].workHours).toBe(9)
+      expect(update).toMatchObject({ crewSignedAt: now, masterSignedAt: null, masterSignedById: null })
+    })
+
+    it('should keep the signed sheet and report later shift changes', async () => {
+      const signed = RestHoursService.buildSheet(MEMBER, '2025-09', daily(1, 1, [[8, 12]]))
+      prisma.restRecord.findUnique.mockResolvedValue({
+        sheet: JSON.stringify(signed),
+        crewSignedAt: new Date('2025-10-01T08:00:00Z'),
+        masterSignedAt: null,
+        masterSignedById: null,
+      })
+
+      const record = await RestHoursService.getRecord(3, '2025-09')
+
+      expect(record?.sheet.days[0].workHours).toBe(4)
+      expect(record?.changedSinceSigned).toBe(true)
+    })
+
+    it('should return null for an unknown crew member', async () => {
+      prisma.user.findUnique.mockResolvedValue(null)
+      prisma.restRecord.findUnique.mockResolvedValue(null)
+
+      expect(await RestHoursService.getRecord(99, '2025-09')).toBeNull()
+    })
+  })
+})
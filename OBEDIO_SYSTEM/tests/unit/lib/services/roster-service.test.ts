@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { RosterService } from '@/lib/services/roster-service'
+import type { RosterCrew, RosterInput } from '@/lib/services/roster-service'
+import { detectRestHourConflicts } from '@/utils/conflict-detection'
+import type { Assignment } from '@/utils/conflict-detection'
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    user: {
+      findMany: vi.fn()
+    },
+    shift: {
+      findMany: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    roster: {
+      create: vi.fn()
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+// Lokalno vreme, jer su šabloni rotacije u vremenu broda
+const START = new Date(2025, 8, 1)
+const at = (day: number, hour: number) => new Date(2025, 8, 1 + day, hour)
+
+const member = (id: number, overrides: Partial<RosterCrew> = {}): RosterCrew => ({
+  id,
+  name: `Crew ${id}`,
+  department: 'Interior',
+  skills: null,
+  onLeave: false,
+  workloadHours: id,
+  ...overrides,
+})
+
+const input = (overrides: Partial<RosterInput> = {}): RosterInput => ({
+  startDate: START,
+  weeks: 1,
+  positions: [{ laneId: 'service', templateId: 'two_on_one_off', crew: 3 }],
+  ...overrides,
+})
+
+const assignment = (id: string, start: Date, end: Date): Assignment => ({
+  id, crewId: '1', laneId: 'service', start: start.toISOString(), end: end.toISOString(), status: 'duty', name: 'Crew 1'
+})
+
+describe('RosterService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('build', () => {
+    it('should stagger a 2-on/1-off rotation so two crew are on every day', () => {
+      const plan = RosterService.build(input(), [member(1), member(2), member(3)], [])
+
+      expect(plan.startsAt).toEqual(START)
+      expect(plan.endsAt).toEqual(at(7, 0))
+      expect(plan.shifts.filter(shift => shift.userId === 1)).toHaveLength(5)
+      for (let day = 0; day < 7; day++) {
+        expect(plan.shifts.filter(shift => shift.startsAt.getTime() === at(day, 7).getTime())).toHaveLength(2)
+      }
+      expect(plan.shifts[0]).toMatchObject({ laneId: 'service', startsAt: at(0, 7), endsAt: at(0, 19) })
+      expect(plan.conflicts).toEqual([])
+    })
+
+    it('should skip crew on leave, from another department or without the skills', () => {
+      const crew = [
+        member(1, { onLeave: true }),
+        member(2, { department: 'Deck' }),
+        member(3, { skills: JSON.stringify(['Silver Service']) }),
+        member(4),
+      ]
+      const plan = RosterService.build(input({
+        positions: [{ laneId: 'service', templateId: 'split_shift', crew: 2, department: 'interior', skills: ['silver service'] }]
+      }), crew, [])
+
+      expect(Array.from(new Set(plan.shifts.map(shift => shift.userId)))).toEqual([3])
+      expect(plan.unfilled).toEqual([{ laneId: 'service', requested: 2, assigned: 1 }])
+    })
+
+    it('should put each crew member on the next watch', () => {
+      const plan = RosterService.build(input({
+        positions: [{ laneId: 'bridge', templateId: 'watch_4_on_8_off', crew: 3 }]
+      }), [member(1), member(2), member(3)], [])
+
+      const firstWatch = (userId: number) => plan.shifts.find(shift => shift.userId === userId)!.startsAt
+      expect([firstWatch(1), firstWatch(2), firstWatch(3)]).toEqual([at(0, 0), at(0, 4), at(0, 8)])
+      expect(plan.conflicts).toEqual([])
+    })
+
+    it('should report rest-hour violations with existing shifts unless they are replaced', () => {
+      const existing = [{ id: 9, userId: 1, laneId: null, startsAt: at(0, 20), endsAt: at(1, 0), completed: false }]
+
+      const plan = RosterService.build(input(), [member(1), member(2), member(3)], existing)
+      expect(plan.conflicts).toHaveLength(1)
+      expect(plan.conflicts[0]).toMatchObject({ type: 'rest_hours', affectedItems: { crewIds: ['1'] } })
+      expect(plan.conflicts[0].message).toContain('8h rest in 24 hours')
+
+      const replaced = RosterService.build(input({ replaceExisting: true }), [member(1), member(2), member(3)], existing)
+      expect(replaced.replacedShiftIds).toEqual([9])
+      expect(replaced.conflicts).toEqual([])
+    })
+  })
+
+  describe('detectRestHourConflicts', () => {
+    it('should require 77 hours of rest in any seven days', () => {
+      // 14 sati rada dnevno ostavlja 10 sati odmora, ali samo 70 sati nedeljno
+      const week = Array.from({ length: 7 }, (_, day) => assignment(`a${day}`, at(day, 6), at(day, 20)))
+
+      const conflicts = detectRestHourConflicts(week)
+      expect(conflicts).toHaveLength(1)
+      expect(conflicts[0].message).toContain('70h rest in 7 days')
+      expect(detectRestHourConflicts(week.slice(0, 6))).toEqual([])
+    })
+  })
+
+  describe('generate', () => {
+    beforeEach(() => {
+      prisma.user.findMany.mockResolvedValue([member(1), member(2), member(3)])
+      prisma.shift.findMany.mockResolvedValue([])
+      prisma.roster.create.mockResolvedValue({ id: 5 })
+    })
+
+    it('should only preview the roster on a dry run', async () => {
+      const result = await RosterService.generate(input(), { dryRun: true })
+
+      expect(result).toMatchObject({ saved: false, rosterId: null })
+      expect(result.shifts).toHaveLength(14)
+      expect(prisma.roster.create).not.toHaveBeenCalled()
+    })
+
+    it('should save the roster with its shifts', async () => {
+      const result = await RosterService.generate(input({ name: 'September' }), { createdById: 2 })
+
+      expect(result).toMatchObject({ saved: true, rosterId: 5 })
+      const data = prisma.roster.create.mock.calls[0][0].data
+      expect(data).toMatchObject({ name: 'September', startsAt: START, endsAt: at(7, 0), createdById: 2 })
+      expect(data.shifts.create).toHaveLength(14)
+      expect(data.shifts.create[0]).toEqual({ userId: 1, laneId: 'service', startsAt: at(0, 7), endsAt: at(0, 19) })
+    })
+  })
+})
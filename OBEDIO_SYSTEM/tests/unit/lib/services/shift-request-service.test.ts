@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { ShiftRequestService } from '@/lib/services/shift-request-service'
+import type { ShiftRow } from '@/lib/services/shift-request-service'
+import { emitter } from '@/lib/sseEmitter'
+import { WatchService } from '@/lib/services/watch-service'
+
+// Mock za emitter
+vi.mock('@/lib/sseEmitter', () => ({
+  emitter: {
+    emitEvent: vi.fn()
+  },
+  SSE_EVENTS: {
+    SHIFT_REQUEST: 'shift_request'
+  }
+}))
+
+// Mock za slanje na satove
+vi.mock('@/lib/services/watch-service', () => ({
+  WatchService: {
+    notifyUsers: vi.fn().mockResolvedValue([])
+  }
+}))
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    shift: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    user: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    shiftChangeRequest: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn()
+    },
+    $transaction: vi.fn(),
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const at = (day: number, hour: number) => new Date(2025, 8, day, hour)
+
+const shiftRow = (id: number, userId: number, day: number, from: number, to: number): ShiftRow => ({
+  id, userId, laneId: 'service', startsAt: at(day, from), endsAt: at(day, to), completed: false
+})
+
+const NAMES = new Map([[3, 'Ana'], [4, 'Marko']])
+
+const request = (overrides: Record<string, unknown> = {}) => ({
+  id: 10,
+  type: 'swap',
+  status: 'pending_colleague',
+  requesterId: 3,
+  shiftId: 1,
+  colleagueId: 4,
+  colleagueShiftId: null,
+  startsAt: null,
+  endsAt: null,
+  reason: null,
+  conflicts: '[]',
+  colleagueRespondedAt: null,
+  decidedById: null,
+  decidedAt: null,
+  decisionNote: null,
+  createdAt: at(1, 8),
+  requester: { id: 3, name: 'Ana', department: 'Interior' },
+  colleague: { id: 4, name: 'Marko' },
+  shift: shiftRow(1, 3, 10, 8, 16),
+  colleagueShift: null,
+  ...overrides,
+})
+
+describe('ShiftRequestService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+    prisma.$transaction.mockImplementation((operations: unknown[]) => Promise.all(operations))
+  })
+
+  describe('isHeadOfDepartment', () => {
+    it('should accept department heads only for their own department', () => {
+      const chiefStew = { role: 'Chief Stewardess', accessRole: 'chief_stew', department: 'Interior' }
+
+      expect(ShiftRequestService.isHeadOfDepartment(chiefStew, 'interior')).toBe(true)
+      expect(ShiftRequestService.isHeadOfDepartment(chiefStew, 'Deck')).toBe(false)
+    })
+
+    it('should accept the captain for every department and reject regular crew', () => {
+      expect(ShiftRequestService.isHeadOfDepartment({ role: 'Captain', accessRole: 'captain', department: 'Bridge' }, 'Interior')).toBe(true)
+      expect(ShiftRequestService.isHeadOfDepartment({ role: 'Stewardess', accessRole: 'stew', department: 'Interior' }, 'Interior')).toBe(false)
+    })
+
+    it('should accept engineering and deck heads by position without shifts:write', () => {
+      const chiefEngineer = { role: 'Chief Engineer', accessRole: null, department: 'Engineering' }
+      const bosun = { role: 'Bosun', accessRole: null, department: 'Deck' }
+
+      expect(ShiftRequestService.isHeadOfDepartment(chiefEngineer, 'Engineering')).toBe(true)
+      expect(ShiftRequestService.isHeadOfDepartment(chiefEngineer, 'Deck')).toBe(false)
+      expect(ShiftRequestService.isHeadOfDepartment(bosun, 'Deck')).toBe(true)
+      expect(ShiftRequestService.isHeadOfDepartment({ role: 'Second Engineer', accessRole: null, department: 'Engineering' }, 'Engineering')).toBe(false)
+      expect(ShiftRequestService.isHeadOfDepartment({ role: 'Deckhand', accessRole: null, department: 'Deck' }, 'Deck')).toBe(false)
+    })
+  })
+
+  describe('swapConflicts', () => {
+    it('should report an overlap created by the swap', () => {
+      // Marko već radi 10. septembra od 12 do 20
+      const shifts = [shiftRow(1, 3, 10, 8, 16), shiftRow(2, 4, 10, 12, 20)]
+
+      const conflicts = ShiftRequestService.swapConflicts(shifts, { requesterId: 3, colleagueId: 4, shiftId: 1, colleagueShiftId: null }, NAMES)
+
+      expect(conflicts.map(conflict => conflict.type)).toContain('crew_overlap')
+    })
+
+    it('should accept a clean exchange of shifts', () => {
+      const shifts = [shiftRow(1, 3, 10, 8, 16), shiftRow(2, 4, 12, 8, 16)]
+
+      expect(ShiftRequestService.swapConflicts(shifts, { requesterId: 3, colleagueId: 4, shiftId: 1, colleagueShiftId: 2 }, NAMES)).toEqual([])
+    })
+
+    it('should ignore conflicts that do not involve the swapped shifts', () => {
+      // Ana već ima preklapanje 20. septembra koje zamena ne menja
+      const shifts = [shiftRow(1, 3, 10, 8, 16), shiftRow(5, 3, 20, 8, 16), shiftRow(6, 3, 20, 10, 18)]
+
+      expect(ShiftRequestService.swapConflicts(shifts, { requesterId: 3, colleagueId: 4, shiftId: 1, colleagueShiftId: null }, NAMES)).toEqual([])
+    })
+  })
+
+  describe('validate', () => {
+    const now = at(1, 8)
+
+    it('should reject swapping a shift that belongs to someone else', async () => {
+      prisma.shift.findUnique.mockResolvedValue(shiftRow(1, 5, 10, 8, 16))
+      prisma.user.findUnique.mockResolvedValue({ id: 4, onLeave: false })
+      prisma.shiftChangeRequest.count.mockResolvedValue(0)
+
+      const error = await ShiftRequestService.validate({ type: 'swap', shiftId: 1, colleagueId: 4 }, 3, now)
+
+      expect(error).toBe('Smena ne pripada članu posade koji traži zamenu')
+    })
+
+    it('should reject leave that ends before it starts', async () => {
+      const error = await ShiftRequestService.validate({ type: 'leave', startsAt: at(12, 0), endsAt: at(10, 0) }, 3, now)
+
+      expect(error).toBe('Kraj odsustva mora biti posle početka')
+    })
+  })
+
+  describe('decide', () => {
+    it('should not apply a swap with conflicts unless forced', async () => {
+      prisma.shiftChangeRequest.findUniqueOrThrow.mockResolvedValue(request({ status: 'pending_approval' }))
+      prisma.shift.findMany
+        .mockResolvedValueOnce([shiftRow(1, 3, 10, 8, 16)])
+        .mockResolvedValueOnce([shiftRow(1, 3, 10, 8, 16), shiftRow(2, 4, 10, 12, 20)])
+      prisma.user.findMany.mockResolvedValue([{ id: 3, name: 'Ana' }, { id: 4, name: 'Marko' }])
+
+      const decision = await ShiftRequestService.decide(10, 7, true)
+
+      expect(decision.outcome).toBe('conflicts')
+      expect(prisma.shift.update).not.toHaveBeenCalled()
+    })
+
+    it('should hand the shift over to the colleague when approved', async () => {
+      prisma.shiftChangeRequest.findUniqueOrThrow.mockResolvedValue(request({ status: 'pending_approval' }))
+      prisma.shift.findMany
+        .mockResolvedValueOnce([shiftRow(1, 3, 10, 8, 16)])
+        .mockResolvedValueOnce([shiftRow(1, 3, 10, 8, 16)])
+      prisma.user.findMany.mockResolvedValue([{ id: 3, name: 'Ana' }, { id: 4, name: 'Marko' }])
+      prisma.shiftChangeRequest.update.mockResolvedValue(request({ status: 'approved' }))
+
+      const decision = await ShiftRequestService.decide(10, 7, true)
+
+      expect(decision.outcome).toBe('decided')
+      expect(prisma.shift.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { userId: 4 } })
+      expect(emitter.emitEvent).toHaveBeenCalledWith('shift_request', expect.objectContaining({
+        requestId: 10,
+        status: 'approved',
+        recipients: [3, 4],
+      }))
+    })
+
+    it('should report a stale swap when the shift changed owner', async () => {
+      prisma.shiftChangeRequest.findUniqueOrThrow.mockResolvedValue(request({ status: 'pending_approval' }))
+      prisma.shift.findMany.mockResolvedValueOnce([shiftRow(1, 8, 10, 8, 16)])
+
+      expect(await ShiftRequestService.decide(10, 7, true)).toEqual({ outcome: 'stale' })
+    })
+  })
+
+  describe('applyLeave', () => {
+    const now = at(10, 12)
+
+    it('should put the crew member on leave when approved leave starts', async () => {
+      prisma.shiftChangeRequest.findMany
+        .mockResolvedValueOnce([{ id: 20, requesterId: 3 }])
+        .mockResolvedValueOnce([])
+
+      await ShiftRequestService.applyLeave(now)
+
+      expect(prisma.user.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { onLeave: true } })
+      expect(prisma.shiftChangeRequest.update).toHaveBeenCalledWith({ where: { id: 20 }, data: { leaveAppliedAt: now } })
+    })
+
+    it('should keep onLeave while another approved leave is ongoing', async () => {
+      prisma.shiftChangeRequest.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: 20, requesterId: 3, leaveAppliedAt: at(5, 0) }])
+      prisma.shiftChangeRequest.count.mockResolvedValue(1)
+
+      await ShiftRequestService.applyLeave(now)
+
+      expect(prisma.user.update).not.toHaveBeenCalled()
+      expect(prisma.shiftChangeRequest.update).toHaveBeenCalledWith({ where: { id: 20 }, data: { leaveEndedAt: now } })
+    })
+  })
+
+  describe('deliverPending', () => {
+    it('should send the status to the heads of department and mark it delivered', async () => {
+      prisma.shiftChangeRequest.findMany.mockResolvedValue([request({ status: 'pending_approval' })])
+      prisma.user.findMany.mockResolvedValue([
+        { id: 1, role: 'Captain', accessRole: 'captain', department: 'Bridge' },
+        { id: 2, role: 'Chief Stewardess', accessRole: 'chief_stew', department: 'Interior' },
+      ])
+
+      await ShiftRequestService.deliverPending()
+
+      expect(WatchService.notifyUsers).toHaveBeenCalledWith([2], expect.objectContaining({
+        type: 'shift_request',
+        shiftRequestId: 10,
+        status: 'pending_approval',
+      }))
+      expect(prisma.shiftChangeRequest.update).toHaveBeenCalledWith({ where: { id: 10 }, data: { watchNotified: true } })
+    })
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import type { MeshLink } from '@prisma/client'
+import { TopologyService, GATEWAY_NODE } from '@/lib/services/topology-service'
+import type { TopologyDevice } from '@/lib/services/topology-service'
+import { CoverageService, signalToRssi } from '@/lib/services/coverage-service'
+
+// Mock za istoriju signala
+vi.mock('@/lib/services/coverage-service', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/services/coverage-service')>(),
+  CoverageService: {
+    recordSignal: vi.fn()
+  }
+}))
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    meshLink: {
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+      findMany: vi.fn()
+    },
+    device: {
+      findMany: vi.fn(),
+      updateMany: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const NOW = new Date('2025-09-01T12:00:00Z')
+
+const device = (uid: string, type: string, deck: string | null = 'Main Deck'): TopologyDevice => ({
+  id: uid.length,
+  uid,
+  name: null,
+  type,
+  isActive: true,
+  lastSeen: NOW,
+  locationRef: deck ? { name: `${uid} room`, deck } : null,
+})
+
+const link = (sourceUid: string, targetUid: string, overrides: Partial<MeshLink> = {}): MeshLink => ({
+  id: 1,
+  sourceUid,
+  targetUid,
+  kind: targetUid === GATEWAY_NODE || targetUid.startsWith('REP') ? 'uplink' : 'device',
+  rssi: -70,
+  snr: 8,
+  hopCount: 1,
+  lastSeen: NOW,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+})
+
+describe('TopologyService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma = new PrismaClient()
+  })
+
+  describe('handleMesh', () => {
+    it('should replace the repeater links with the reported snapshot', async () => {
+      await TopologyService.handleMesh('REP-1', {
+        parentNodes: [],
+        connectedDevices: [
+          { deviceId: 'BTN-1', rssi: -82, snr: 4.5, hopCount: 1 },
+          { deviceId: 'BTN-2', signalStrength: 50 },
+        ],
+      }, NOW)
+
+      expect(prisma.meshLink.upsert).toHaveBeenCalledWith({
+        where: { sourceUid_targetUid: { sourceUid: 'REP-1', targetUid: 'BTN-1' } },
+        create: { sourceUid: 'REP-1', targetUid: 'BTN-1', kind: 'device', rssi: -82, snr: 4.5, hopCount: 1, lastSeen: NOW },
+        update: { kind: 'device', rssi: -82, snr: 4.5, hopCount: 1, lastSeen: NOW },
+      })
+      expect(prisma.meshLink.upsert.mock.calls[1][0].create).toMatchObject({ targetUid: 'BTN-2', rssi: signalToRssi(50) })
+      expect(CoverageService.recordSignal).toHaveBeenCalledWith('BTN-1', -82, 4.5, 'REP-1', NOW)
+      expect(CoverageService.recordSignal).toHaveBeenCalledTimes(2)
+      expect(prisma.meshLink.deleteMany).toHaveBeenCalledWith({
+        where: { sourceUid: 'REP-1', kind: 'device', targetUid: { notIn: ['BTN-1', 'BTN-2'] } }
+      })
+      // Repetitor bez nadređenog je direktno vezan za server
+      expect(prisma.meshLink.upsert.mock.calls[2][0].create).toMatchObject({ targetUid: GATEWAY_NODE, kind: 'uplink' })
+      expect(prisma.device.updateMany).toHaveBeenCalledWith({
+        where: { uid: 'REP-1' },
+        data: { connectedDevices: 2, lastSeen: NOW }
+      })
+    })
+
+    it('should drop a device link when the repeater reports a disconnect', async () => {
+      await TopologyService.handleDeviceDisconnected('REP-1', { deviceUid: 'BTN-1' })
+
+      expect(prisma.meshLink.deleteMany).toHaveBeenCalledWith({
+        where: { sourceUid: 'REP-1', targetUid: 'BTN-1', kind: 'device' }
+      })
+    })
+  })
+
+  describe('buildTopology', () => {
+    const devices = [
+      device('REP-1', 'REPEATER'),
+      device('REP-2', 'REPEATER', 'Lower Deck'),
+      device('BTN-1', 'BUTTON'),
+      device('BTN-2', 'BUTTON', 'Lower Deck'),
+      device('BTN-3', 'BUTTON', 'Lower Deck'),
+    ]
+
+    it('should find weak links, single points of failure and orphaned buttons', () => {
+      const topology = TopologyService.buildTopology(devices, [
+        link('REP-1', GATEWAY_NODE),
+        link('REP-2', 'REP-1'),
+        link('REP-1', 'BTN-1'),
+        link('REP-2', 'BTN-2', { rssi: -110 }),
+        // Veza koju repetitor nije potvrdio sat vremena ne računa se
+        link('REP-2', 'BTN-3', { lastSeen: new Date(NOW.getTime() - 60 * 60 * 1000) }),
+      ], NOW)
+
+      expect(topology.decks).toEqual(['Lower Deck', 'Main Deck'])
+      expect(topology.weakLinks).toBe(1)
+      expect(topology.links.find(item => item.target === 'BTN-3')?.stale).toBe(true)
+      expect(topology.singlePointsOfFailure).toEqual(['REP-1', 'REP-2'])
+      expect(topology.nodes.find(node => node.uid === 'REP-1')?.dependents).toEqual(['REP-2', 'BTN-1', 'BTN-2'])
+      expect(topology.nodes.find(node => node.uid === 'BTN-2')?.hops).toBe(3)
+      expect(topology.orphans).toEqual(['BTN-3'])
+    })
+
+    it('should not flag repeaters when another path to the server exists', () => {
+      const topology = TopologyService.buildTopology(devices, [
+        link('REP-1', GATEWAY_NODE),
+        link('REP-2', GATEWAY_NODE),
+        link('REP-1', 'BTN-2'),
+        link('REP-2', 'BTN-2'),
+        link('REP-3', 'BTN-3'),
+      ], NOW)
+
+      expect(topology.singlePointsOfFailure).toEqual([])
+      // Nepoznat repetitor bez veze sa serverom ne spašava dugme
+      expect(topology.nodes.find(node => node.uid === 'REP-3')).toMatchObject({ registered: false, type: 'repeater', reachable: false })
+      expect(topology.orphans).toEqual(['BTN-1', 'BTN-3'])
+    })
+  })
+})
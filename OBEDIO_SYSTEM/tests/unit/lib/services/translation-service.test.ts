@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { TranslationService, DEFAULT_TRANSLATION_SETTINGS } from '@/lib/services/translation-service'
+import { SettingsService } from '@/lib/services/settings-service'
+import { DictionaryTranslator } from '@/lib/translation/translator'
+
+// Mock za fajl sistem - rečnik postoji samo ugrađen
+vi.mock('fs/promises', async importOriginal => {
+  const actual = await importOriginal<typeof import('fs/promises')>()
+  const mocked = {
+    readFile: vi.fn().mockRejectedValue(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }))
+  }
+  return { ...actual, ...mocked, default: { ...actual, ...mocked } }
+})
+
+// Mock za SSE emitter
+vi.mock('@/lib/sseEmitter', () => ({
+  emitter: {
+    emitEvent: vi.fn()
+  },
+  SSE_EVENTS: {
+    REQUEST_TRANSLATION: 'request_translation',
+    REQUEST_REPLY: 'request_reply'
+  }
+}))
+
+// Mock za podešavanja
+vi.mock('@/lib/services/settings-service', () => ({
+  SettingsService: {
+    get: vi.fn(),
+    save: vi.fn()
+  }
+}))
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    request: {
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    crewReply: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn()
+    },
+    device: {
+      findMany: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const NOW = new Date('2025-09-01T12:00:00Z')
+
+const guestContext = (languages: string[]) => JSON.stringify([
+  { guestId: 1, name: 'Gost', isVip: true, drinks: [], food: [], allergies: [], languages, notes: null, summary: '' }
+])
+
+const reply = (overrides: Record<string, unknown> = {}) => ({
+  id: 5,
+  requestId: 42,
+  userId: 3,
+  replyKey: 'on_my_way',
+  text: 'On my way',
+  language: 'es',
+  translatedText: 'Voy en camino',
+  engine: 'dictionary',
+  status: 'pending',
+  error: null,
+  createdAt: NOW,
+  sentAt: null,
+  ...overrides
+})
+
+describe('TranslationService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    TranslationService.setPublisher(null)
+    prisma = new PrismaClient()
+    vi.mocked(SettingsService.get).mockResolvedValue(DEFAULT_TRANSLATION_SETTINGS)
+  })
+
+  describe('languages', () => {
+    it('should map language names from profiles to ISO codes', () => {
+      expect(TranslationService.parseLanguage(JSON.stringify(['Klingon', 'Croatian', 'English']))).toBe('hr')
+      expect(TranslationService.parseLanguage(JSON.stringify(['es']))).toBe('es')
+      expect(TranslationService.parseLanguage('not json')).toBeNull()
+      expect(TranslationService.guestLanguage(guestContext(['Russian']))).toBe('ru')
+      expect(TranslationService.guestLanguage(null)).toBeNull()
+    })
+  })
+
+  describe('DictionaryTranslator', () => {
+    const translator = new DictionaryTranslator(null)
+
+    it('should translate whole phrases and fall back to single words', async () => {
+      expect(await translator.translate({ text: 'Your request has been received', from: 'en', to: 'es' }))
+        .toEqual({ text: 'Hemos recibido su solicitud', from: 'en' })
+      expect(await translator.translate({ text: 'Toallas y agua!', from: 'auto', to: 'en' }))
+        .toEqual({ text: 'towels y water', from: 'es' })
+    })
+
+    it('should fail when no word is known', async () => {
+      await expect(translator.translate({ text: 'Xyzzy', from: 'auto', to: 'en' })).rejects.toThrow('Rečnik')
+    })
+  })
+
+  describe('translateRequest', () => {
+    it('should translate the transcript to the language of the assigned crew member', async () => {
+      vi.mocked(SettingsService.get).mockResolvedValue({ ...DEFAULT_TRANSLATION_SETTINGS, engine: 'stub' })
+      prisma.request.findUnique.mockResolvedValue({
+        transcript: 'Necesito toallas',
+        transcriptLanguage: null,
+        translatedTranscript: null,
+        translationLanguage: null,
+        guestContext: guestContext(['Spanish']),
+        assignee: { languages: JSON.stringify(['Croatian', 'English']) }
+      })
+
+      const result = await TranslationService.translateRequest(42)
+
+      expect(result).toEqual({ translatedTranscript: '[hr] Necesito toallas', translationLanguage: 'hr' })
+      expect(prisma.request.update).toHaveBeenCalledWith({
+        where: { id: 42 },
+        data: { transcriptLanguage: 'es', translatedTranscript: '[hr] Necesito toallas', translationLanguage: 'hr' }
+      })
+    })
+
+    it('should skip translation when the guest speaks the crew language', async () => {
+      prisma.request.findUnique.mockResolvedValue({
+        transcript: 'More towels please',
+        transcriptLanguage: 'en',
+        translatedTranscript: null,
+        translationLanguage: null,
+        guestContext: null,
+        assignee: null
+      })
+
+      expect(await TranslationService.translateRequest(42)).toBeNull()
+      expect(prisma.request.update).not.toHaveBeenCalled()
+    })
+
+    it('should keep the stored translation while the target language is the same', async () => {
+      prisma.request.findUnique.mockResolvedValue({
+        transcript: 'Necesito toallas',
+        transcriptLanguage: 'es',
+        translatedTranscript: 'I need towels',
+        translationLanguage: 'en',
+        guestContext: null,
+        assignee: { languages: JSON.stringify(['English']) }
+      })
+
+      expect(await TranslationService.translateRequest(42)).toEqual({ translatedTranscript: 'I need towels', translationLanguage: 'en' })
+      expect(prisma.request.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('sendReply', () => {
+    it('should translate the reply and show it on the cabin devices', async () => {
+      const publisher = vi.fn()
+      TranslationService.setPublisher(publisher)
+      prisma.request.findUnique
+        .mockResolvedValueOnce({ id: 42, guestContext: guestContext(['Spanish']) })
+        .mockResolvedValueOnce({ device: { id: 1, uid: 'BTN-1', locationId: 10 } })
+      prisma.crewReply.create.mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(reply(data)))
+      prisma.device.findMany.mockResolvedValue([{ uid: 'BTN-1' }, { uid: 'DISPLAY-1' }])
+      prisma.crewReply.update.mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(reply(data)))
+
+      const sent = await TranslationService.sendReply(42, 'on_my_way', 3)
+
+      expect(prisma.crewReply.create.mock.calls[0][0].data).toMatchObject({
+        replyKey: 'on_my_way',
+        language: 'es',
+        translatedText: 'Voy en camino',
+        engine: 'dictionary'
+      })
+      expect(publisher).toHaveBeenCalledTimes(2)
+      expect(publisher).toHaveBeenCalledWith('obedio/device/DISPLAY-1/command', expect.objectContaining({
+        command: 'show_message',
+        params: { requestId: 42, replyId: 5, text: 'Voy en camino', language: 'es' }
+      }))
+      expect(sent?.status).toBe('sent')
+    })
+
+    it('should leave the reply for the bridge when there is no MQTT client', async () => {
+      prisma.request.findUnique.mockResolvedValue({ id: 42, guestContext: null })
+      prisma.crewReply.create.mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(reply(data)))
+
+      const pending = await TranslationService.sendReply(42, 'completed')
+
+      expect(pending?.status).toBe('pending')
+      expect(prisma.crewReply.create.mock.calls[0][0].data).toMatchObject({ language: 'en', translatedText: 'Your request has been completed' })
+      expect(prisma.crewReply.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject unknown replies', async () => {
+      expect(await TranslationService.sendReply(42, 'free_text')).toBeNull()
+      expect(prisma.crewReply.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deliverPending', () => {
+    it('should expire replies that did not reach the cabin in time', async () => {
+      TranslationService.setPublisher(vi.fn())
+      prisma.crewReply.findMany.mockResolvedValue([reply({ createdAt: new Date(NOW.getTime() - 11 * 60 * 1000) })])
+      prisma.crewReply.update.mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(reply(data)))
+
+      await TranslationService.deliverPending(NOW)
+
+      expect(prisma.crewReply.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { status: 'failed', error: 'Odgovor nije stigao do kabine na vreme' }
+      })
+    })
+  })
+})
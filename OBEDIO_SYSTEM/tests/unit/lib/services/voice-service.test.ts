@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { writeFile } from 'fs/promises'
+import { VoiceService, DEFAULT_VOICE_SETTINGS } from '@/lib/services/voice-service'
+import { SettingsService } from '@/lib/services/settings-service'
+import { WatchService } from '@/lib/services/watch-service'
+import { TranslationService } from '@/lib/services/translation-service'
+import { handleButtonPress } from '@/lib/mqtt-handlers/request-handler'
+
+// Mock za fajl sistem - snimci se ne upisuju na disk
+vi.mock('fs/promises', async importOriginal => {
+  const actual = await importOriginal<typeof import('fs/promises')>()
+  const mocked = {
+    mkdir: vi.fn().mockResolvedValue(undefined),
+    writeFile: vi.fn().mockResolvedValue(undefined),
+    access: vi.fn().mockRejectedValue(new Error('ENOENT'))
+  }
+  return { ...actual, ...mocked, default: { ...actual, ...mocked } }
+})
+
+// Mock za SSE emitter
+vi.mock('@/lib/sseEmitter', () => ({
+  emitter: {
+    emitEvent: vi.fn()
+  },
+  SSE_EVENTS: {
+    REQUEST_VOICE: 'request_voice'
+  }
+}))
+
+// Mock za slanje na satove
+vi.mock('@/lib/services/watch-service', () => ({
+  WatchService: {
+    notifyUsers: vi.fn().mockResolvedValue([])
+  }
+}))
+
+// Mock za prevod poruke gosta
+vi.mock('@/lib/services/translation-service', () => ({
+  TranslationService: {
+    translateRequest: vi.fn()
+  }
+}))
+
+// Mock za podešavanja
+vi.mock('@/lib/services/settings-service', () => ({
+  SettingsService: {
+    get: vi.fn(),
+    save: vi.fn()
+  }
+}))
+
+// Mock za kreiranje zahteva sa dugmeta
+vi.mock('@/lib/mqtt-handlers/request-handler', () => ({
+  handleButtonPress: vi.fn()
+}))
+
+// Mock za Prisma klijenta
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    device: {
+      findUnique: vi.fn()
+    },
+    request: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    voiceRecording: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn()
+    },
+    $disconnect: vi.fn()
+  }
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient)
+  }
+})
+
+const NOW = 1_000_000
+
+const chunk = (index: number, totalChunks: number, data: string) => ({
+  recordingId: 'rec-1',
+  index,
+  totalChunks,
+  data: Buffer.from(data).toString('base64'),
+  format: 'wav' as const,
+})
+
+const recording = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  deviceId: 1,
+  requestId: 42,
+  recordingId: 'rec-1',
+  source: 'mqtt',
+  format: 'wav',
+  sampleRate: 16000,
+  durationMs: 3000,
+  size: 100,
+  fileName: '1-rec-1.wav',
+  status: 'stored',
+  transcript: null,
+  language: null,
+  engine: null,
+  error: null,
+  createdAt: new Date(NOW),
+  transcribedAt: null,
+  ...overrides
+})
+
+describe('VoiceService', () => {
+  let prisma: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    VoiceService.stop()
+    prisma = new PrismaClient()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('handleChunk', () => {
+    it('should reassemble chunks that arrive out of order and ignore duplicates', async () => {
+      const ingest = vi.spyOn(VoiceService, 'ingest').mockResolvedValue(null)
+
+      await VoiceService.handleChunk('BTN-1', chunk(2, 3, 'C'), NOW)
+      await VoiceService.handleChunk('BTN-1', chunk(0, 3, 'A'), NOW)
+      await VoiceService.handleChunk('BTN-1', chunk(0, 3, 'X'), NOW)
+      expect(ingest).not.toHaveBeenCalled()
+
+      await VoiceService.handleChunk('BTN-1', chunk(1, 3, 'B'), NOW)
+
+      expect(ingest).toHaveBeenCalledTimes(1)
+      expect(ingest.mock.calls[0][0]).toMatchObject({ deviceUid: 'BTN-1', recordingId: 'rec-1', source: 'mqtt', format: 'wav' })
+      expect(ingest.mock.calls[0][0].data.toString()).toBe('ABC')
+      expect(VoiceService.pendingAssemblies()).toBe(0)
+    })
+
+    it('should reject chunks with an index outside the recording', async () => {
+      const ingest = vi.spyOn(VoiceService, 'ingest').mockResolvedValue(null)
+
+      await VoiceService.handleChunk('BTN-1', chunk(3, 3, 'D'), NOW)
+
+      expect(ingest).not.toHaveBeenCalled()
+      expect(VoiceService.pendingAssemblies()).toBe(0)
+    })
+
+    it('should drop incomplete recordings after the assembly timeout', async () => {
+      await VoiceService.handleChunk('BTN-1', chunk(0, 2, 'A'), NOW)
+
+      VoiceService.sweep(NOW + 1000)
+      expect(VoiceService.pendingAssemblies()).toBe(1)
+
+      VoiceService.sweep(NOW + 30000)
+      expect(VoiceService.pendingAssemblies()).toBe(0)
+    })
+  })
+
+  describe('pcm16ToWav', () => {
+    it('should prepend a mono 16-bit WAV header', () => {
+      const wav = VoiceService.pcm16ToWav(Buffer.alloc(100), 8000)
+
+      expect(wav.length).toBe(144)
+      expect(wav.toString('ascii', 0, 4)).toBe('RIFF')
+      expect(wav.toString('ascii', 8, 12)).toBe('WAVE')
+      expect(wav.readUInt32LE(24)).toBe(8000)
+      expect(wav.readUInt32LE(40)).toBe(100)
+    })
+  })
+
+  describe('ingest', () => {
+    it('should create a request when the button has no open request', async () => {
+      prisma.device.findUnique.mockResolvedValue({ id: 1, uid: 'BTN-1' })
+      prisma.request.findFirst.mockResolvedValue(null)
+      prisma.voiceRecording.upsert.mockResolvedValue(recording())
+      prisma.voiceRecording.findUnique.mockResolvedValue(null)
+      vi.mocked(handleButtonPress).mockResolvedValue({ id: 42, assignedTo: null } as Awaited<ReturnType<typeof handleButtonPress>>)
+
+      const result = await VoiceService.ingest({
+        deviceUid: 'BTN-1',
+        recordingId: 'rec-1',
+        source: 'mqtt',
+        format: 'pcm16',
+        sampleRate: 8000,
+        durationMs: 3000,
+        data: Buffer.alloc(100),
+      })
+
+      expect(handleButtonPress).toHaveBeenCalledWith('BTN-1', { pressType: 'long', notes: 'Glasovna poruka' })
+      expect(writeFile).toHaveBeenCalledWith(expect.stringContaining('1-rec-1.wav'), expect.any(Buffer))
+      expect(prisma.voiceRecording.upsert.mock.calls[0][0].create).toMatchObject({ requestId: 42, format: 'wav', size: 144 })
+      expect(prisma.request.update).toHaveBeenCalledWith({ where: { id: 42 }, data: { voiceUrl: '/api/voice/7' } })
+      expect(result?.createdRequest).toEqual({ id: 42, assignedTo: null })
+    })
+
+    it('should attach the message to the open request from the same button', async () => {
+      prisma.device.findUnique.mockResolvedValue({ id: 1, uid: 'BTN-1' })
+      prisma.request.findFirst.mockResolvedValue({ id: 40 })
+      prisma.voiceRecording.upsert.mockResolvedValue(recording({ requestId: 40 }))
+      prisma.voiceRecording.findUnique.mockResolvedValue(null)
+
+      const result = await VoiceService.ingest({
+        deviceUid: 'BTN-1',
+        recordingId: 'rec-1',
+        source: 'upload',
+        format: 'wav',
+        sampleRate: null,
+        durationMs: null,
+        data: Buffer.alloc(10),
+      })
+
+      expect(handleButtonPress).not.toHaveBeenCalled()
+      expect(result?.createdRequest).toBeUndefined()
+      expect(prisma.voiceRecording.upsert.mock.calls[0][0].create.requestId).toBe(40)
+    })
+  })
+
+  describe('transcribe', () => {
+    it('should store the transcript and send it to the assigned crew member', async () => {
+      vi.mocked(SettingsService.get).mockResolvedValue({ ...DEFAULT_VOICE_SETTINGS, engine: 'stub', language: 'en' })
+      prisma.voiceRecording.findUnique.mockResolvedValue(recording())
+      prisma.voiceRecording.update.mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(recording(data)))
+      prisma.request.findUnique.mockResolvedValue({ assignedTo: 3 })
+      vi.mocked(TranslationService.translateRequest).mockResolvedValue({ translatedTranscript: 'Poruka', translationLanguage: 'hr' })
+
+      const updated = await VoiceService.transcribe(7)
+
+      expect(updated?.status).toBe('transcribed')
+      expect(updated?.transcript).toBe('Test voice message')
+      expect(prisma.request.update).toHaveBeenCalledWith({
+        where: { id: 42 },
+        data: { transcript: 'Test voice message', transcriptLanguage: 'en' }
+      })
+      expect(TranslationService.translateRequest).toHaveBeenCalledWith(42)
+      expect(WatchService.notifyUsers).toHaveBeenCalledWith([3], expect.objectContaining({
+        type: 'voice_message',
+        requestId: 42,
+        translatedTranscript: 'Poruka',
+        translationLanguage: 'hr'
+      }))
+    })
+
+    it('should not transcribe recordings longer than the configured limit', async () => {
+      vi.mocked(SettingsService.get).mockResolvedValue({ ...DEFAULT_VOICE_SETTINGS, engine: 'stub', maxDurationSeconds: 2 })
+      prisma.voiceRecording.findUnique.mockResolvedValue(recording())
+      prisma.voiceRecording.update.mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(recording(data)))
+
+      const updated = await VoiceService.transcribe(7)
+
+      expect(updated?.status).toBe('failed')
+      expect(prisma.request.update).not.toHaveBeenCalled()
+    })
+
+    it('should leave the recording untouched when transcription is disabled', async () => {
+      vi.mocked(SettingsService.get).mockResolvedValue({ ...DEFAULT_VOICE_SETTINGS, enabled: false })
+      prisma.voiceRecording.findUnique.mockResolvedValue(recording())
+
+      await VoiceService.transcribe(7)
+
+      expect(prisma.voiceRecording.update).not.toHaveBeenCalled()
+    })
+  })
+})
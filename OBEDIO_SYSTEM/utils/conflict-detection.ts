@@ -31,6 +31,7 @@ export type ConflictType =
   | 'lane_understaffed'  // Lane has fewer crew than target
   | 'lane_overstaffed'   // Lane has more crew than target
   | 'schedule_gap'       // Gaps in coverage for critical lanes
+  | 'rest_hours'         // MLC 2006 minimum rest hours not met
 
 export interface Conflict {
   id: string
@@ -46,6 +47,12 @@ export interface Conflict {
   suggestions?: string[]
 }
 
+// MLC 2006 (Standard A2.3) minimum hours of rest
+export const MLC_MIN_REST_24H = 10
+export const MLC_MIN_REST_7D = 77
+
+const HOUR_MS = 60 * 60 * 1000
+
 // Helper function to check if two time ranges overlap
 export function timeRangesOverlap(range1: TimeSlot, range2: TimeSlot): boolean {
   const start1 = new Date(range1.start).getTime()
@@ -208,6 +215,95 @@ export function detectLaneStaffingConflicts(
   return conflicts
 }
 
+// Hours worked by one crew member inside a window (overlapping assignments counted once)
+function hoursWorked(assignments: Assignment[], windowStart: number, windowEnd: number): number {
+  const intervals = assignments
+    .map(a => [Math.max(new Date(a.start).getTime(), windowStart), Math.min(new Date(a.end).getTime(), windowEnd)])
+    .filter(([start, end]) => start < end)
+    .sort((a, b) => a[0] - b[0])
+
+  let worked = 0
+  let cursor = windowStart
+  intervals.forEach(([start, end]) => {
+    const from = Math.max(start, cursor)
+    if (end > from) {
+      worked += end - from
+      cursor = end
+    }
+  })
+  return worked / HOUR_MS
+}
+
+// Detect MLC 2006 rest-hour violations: at least 10h rest in any 24h and 77h in any 7 days.
+// Duty and standby both count as hours of work.
+export function detectRestHourConflicts(assignments: Assignment[]): Conflict[] {
+  const conflicts: Conflict[] = []
+  const crewAssignments = new Map<string, Assignment[]>()
+
+  assignments.forEach(assignment => {
+    if (!crewAssignments.has(assignment.crewId)) {
+      crewAssignments.set(assignment.crewId, [])
+    }
+    crewAssignments.get(assignment.crewId)!.push(assignment)
+  })
+
+  const rules = [
+    { label: '24 hours', windowHours: 24, minRest: MLC_MIN_REST_24H },
+    { label: '7 days', windowHours: 7 * 24, minRest: MLC_MIN_REST_7D },
+  ]
+
+  crewAssignments.forEach((crewAssignmentList, crewId) => {
+    rules.forEach(rule => {
+      const windowMs = rule.windowHours * HOUR_MS
+      // The busiest window starts when a work period starts or ends when one ends
+      const starts = crewAssignmentList
+        .map(a => new Date(a.start).getTime())
+        .concat(crewAssignmentList.map(a => new Date(a.end).getTime() - windowMs))
+        .sort((a, b) => a - b)
+      let reportedUntil = -Infinity
+
+      starts.forEach(windowStart => {
+        const windowEnd = windowStart + windowMs
+        // One conflict per violating period, not one per shift inside it
+        if (windowStart < reportedUntil) return
+
+        const rest = rule.windowHours - hoursWorked(crewAssignmentList, windowStart, windowEnd)
+        if (rest >= rule.minRest) return
+
+        reportedUntil = windowEnd
+        const inWindow = crewAssignmentList.filter(a =>
+          timeRangesOverlap(
+            { start: a.start, end: a.end },
+            { start: new Date(windowStart).toISOString(), end: new Date(windowEnd).toISOString() }
+          )
+        )
+
+        conflicts.push({
+          id: `rest_hours_${rule.windowHours}h_${crewId}_${windowStart}`,
+          type: 'rest_hours',
+          severity: 'critical',
+          message: `${crewAssignmentList[0].name || 'Crew member'} has ${Math.round(rest * 10) / 10}h rest in ${rule.label} (minimum ${rule.minRest}h)`,
+          affectedItems: {
+            assignments: inWindow.map(a => a.id),
+            crewIds: [crewId]
+          },
+          timeRange: {
+            start: new Date(windowStart).toISOString(),
+            end: new Date(windowEnd).toISOString()
+          },
+          suggestions: [
+            'Give the crew member a longer break between shifts',
+            'Move one of the shifts to another crew member',
+            'Use a rotation with more time off'
+          ]
+        })
+      })
+    })
+  })
+
+  return conflicts
+}
+
 // Main conflict detection function
 export function detectAllConflicts(
   assignments: Assignment[], 
@@ -222,6 +318,9 @@ export function detectAllConflicts(
   // Detect lane staffing conflicts
   conflicts.push(...detectLaneStaffingConflicts(assignments, lanes, currentTimeSlot))
 
+  // Detect rest-hour violations
+  conflicts.push(...detectRestHourConflicts(assignments))
+
   return conflicts
 }
 
@@ -243,6 +342,7 @@ export function getConflictIcon(type: ConflictType): string {
     case 'lane_understaffed': return '📉'
     case 'lane_overstaffed': return '📈'
     case 'schedule_gap': return '🕳️'
+    case 'rest_hours': return '😴'
     default: return '⚠️'
   }
 }
\ No newline at end of file
@@ -18,7 +18,8 @@ export default defineConfig({
   },
   resolve: {
     alias: {
-      '@': resolve(__dirname, './')
+      '@': resolve(__dirname, './'),
+      '@obedio/mqtt-contract': resolve(__dirname, '../shared/mqtt-contract')
     }
   }
 })
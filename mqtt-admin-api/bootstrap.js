@@ -1,20 +1,24 @@
 const path = require('path');
 const moduleAlias = require('module-alias');
 
+// The build also compiles ../shared, so sources land under dist/mqtt-admin-api/src
+const distDir = path.join(__dirname, 'dist/mqtt-admin-api/src');
+
 // Register path aliases for the compiled dist directory
 moduleAlias.addAliases({
-  '@': path.join(__dirname, 'dist'),
-  '@/config': path.join(__dirname, 'dist/config'),
-  '@/controllers': path.join(__dirname, 'dist/controllers'),
-  '@/middleware': path.join(__dirname, 'dist/middleware'),
-  '@/models': path.join(__dirname, 'dist/models'),
-  '@/routes': path.join(__dirname, 'dist/routes'),
-  '@/schemas': path.join(__dirname, 'dist/schemas'),
-  '@/services': path.join(__dirname, 'dist/services'),
-  '@/types': path.join(__dirname, 'dist/types'),
-  '@/utils': path.join(__dirname, 'dist/utils'),
-  '@/websocket': path.join(__dirname, 'dist/websocket')
+  '@': distDir,
+  '@/config': path.join(distDir, 'config'),
+  '@/controllers': path.join(distDir, 'controllers'),
+  '@/middleware': path.join(distDir, 'middleware'),
+  '@/models': path.join(distDir, 'models'),
+  '@/routes': path.join(distDir, 'routes'),
+  '@/schemas': path.join(distDir, 'schemas'),
+  '@/services': path.join(distDir, 'services'),
+  '@/types': path.join(distDir, 'types'),
+  '@/utils': path.join(distDir, 'utils'),
+  '@/websocket': path.join(distDir, 'websocket'),
+  '@obedio/mqtt-contract': path.join(__dirname, 'dist/shared/mqtt-contract')
 });
 
 // Now require the main server
-require('./dist/server.js');
\ No newline at end of file
+require('./dist/mqtt-admin-api/src/server.js');
\ No newline at end of file
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "DeviceCommand" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "commandId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "command" TEXT NOT NULL,
+    "params" TEXT,
+    "priority" TEXT NOT NULL DEFAULT 'normal',
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL,
+    "timeoutMs" INTEGER NOT NULL,
+    "nextAttemptAt" DATETIME,
+    "expiresAt" DATETIME NOT NULL,
+    "sentAt" DATETIME,
+    "ackedAt" DATETIME,
+    "result" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "DeviceCommand_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "MqttDevice" ("deviceId") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeviceCommand_commandId_key" ON "DeviceCommand"("commandId");
+
+-- CreateIndex
+CREATE INDEX "DeviceCommand_deviceId_createdAt_idx" ON "DeviceCommand"("deviceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DeviceCommand_status_nextAttemptAt_idx" ON "DeviceCommand"("status", "nextAttemptAt");
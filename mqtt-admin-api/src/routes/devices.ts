@@ -1,10 +1,13 @@
 import { Router, Request, Response } from 'express';
 import { asyncHandler, createSuccessResponse, NotFoundError, ValidationError } from '@/middleware/errorHandler';
 import { DeviceService } from '@/services/deviceService';
+import { CommandService } from '@/services/commandService';
 import { 
   CreateDeviceSchema, 
   UpdateDeviceSchema, 
   DeviceCommandSchema,
+  CommandHistoryQuerySchema,
+  CommandHistoryQuery,
   PaginationSchema,
   createValidationMiddleware 
 } from '@/schemas';
@@ -204,12 +207,12 @@ router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
   res.json(createSuccessResponse(null, 'Device deactivated successfully'));
 }));
 
-// POST /api/v1/devices/:id/command - Send command to device
+// POST /api/v1/devices/:id/command - Queue a tracked command for a device
 router.post('/:id/command', 
   createValidationMiddleware(DeviceCommandSchema, 'body'),
   asyncHandler(async (req: Request, res: Response) => {
     const deviceId = req.params.id;
-    const { command, params, priority = 'normal', timeout = 30000 } = req.body;
+    const { command, params, priority, timeout } = req.body;
     
     const device = await DeviceService.getDevice(deviceId);
     
@@ -217,26 +220,43 @@ router.post('/:id/command',
       throw new NotFoundError('Device');
     }
     
-    if (!device.isOnline) {
-      throw new ValidationError('Device is not online');
-    }
-    
-    // Generate command ID for tracking
-    const commandId = `cmd_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-    
-    // For MVP, we'll simulate command sending
-    logOperation('device_command_sent', {
+    // Offline devices get the command once they reconnect, unless it expires first
+    const queued = await CommandService.getInstance().enqueue({
       deviceId,
       command,
-      commandId,
+      params,
       priority,
+      timeout,
     });
     
-    res.json(createSuccessResponse({ 
-      commandId,
-      status: 'sent',
-      timeout 
-    }, 'Command sent successfully'));
+    res.status(202).json(createSuccessResponse({ 
+      commandId: queued.commandId,
+      status: queued.status,
+      timeout: queued.timeoutMs,
+      expiresAt: queued.expiresAt,
+    }, queued.status === 'sent' ? 'Command sent' : 'Command queued until the device is online'));
+  })
+);
+
+// GET /api/v1/devices/:id/commands - Command history for a device
+router.get('/:id/commands',
+  createValidationMiddleware(CommandHistoryQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const deviceId = req.params.id;
+    const { page, limit, status } = req.query as unknown as CommandHistoryQuery;
+    
+    const device = await DeviceService.getDevice(deviceId);
+    
+    if (!device) {
+      throw new NotFoundError('Device');
+    }
+    
+    const result = await CommandService.getInstance().getHistory(deviceId, { page, limit, status });
+    
+    const response = createSuccessResponse(result.commands, 'Device commands retrieved successfully');
+    response.pagination = result.pagination;
+    
+    res.json(response);
   })
 );
 
@@ -52,6 +52,10 @@ export const DeviceCommandSchema = z.object({
   timeout: z.number().min(1000).max(60000).default(5000), // milliseconds
 });
 
+export const CommandHistoryQuerySchema = PaginationSchema.extend({
+  status: z.enum(['queued', 'sent', 'acked', 'failed', 'expired']).optional(),
+});
+
 // Security schemas
 export const SecurityProfileSchema = z.object({
   name: z.string().min(1).max(100),
@@ -239,6 +243,7 @@ export const SuccessResponseSchema = z.object({
 export type CreateDeviceRequest = z.infer<typeof CreateDeviceSchema>;
 export type UpdateDeviceRequest = z.infer<typeof UpdateDeviceSchema>;
 export type DeviceCommand = z.infer<typeof DeviceCommandSchema>;
+export type CommandHistoryQuery = z.infer<typeof CommandHistoryQuerySchema>;
 export type SecurityProfile = z.infer<typeof SecurityProfileSchema>;
 export type ACLRule = z.infer<typeof ACLRuleSchema>;
 export type ProvisionToken = z.infer<typeof CreateProvisionTokenSchema>;
@@ -304,6 +309,7 @@ export default {
   CreateDeviceSchema,
   UpdateDeviceSchema,
   DeviceCommandSchema,
+  CommandHistoryQuerySchema,
   
   // Security schemas
   CreateSecurityProfileSchema,
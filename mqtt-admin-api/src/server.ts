@@ -9,6 +9,7 @@ import { config } from '@/config';
 import { connectDatabase } from '@/models/database';
 import { connectRedis } from '@/utils/redis';
 import { MqttService } from '@/services/mqttService';
+import { CommandService } from '@/services/commandService';
 import { WebSocketGateway } from '@/websocket/gateway';
 import { errorHandler } from '@/middleware/errorHandler';
 import { notFoundHandler } from '@/middleware/notFoundHandler';
@@ -146,6 +147,9 @@ class Application {
         this.mqttService = null;
       }
 
+      // Start command delivery; without MQTT, commands stay queued
+      CommandService.getInstance().start(this.mqttService);
+
       // Create HTTP server
       this.server = createServer(this.app);
 
@@ -194,6 +198,9 @@ class Application {
       logger.info('WebSocket gateway closed');
     }
 
+    // Stop command delivery before MQTT goes away
+    CommandService.getInstance().stop();
+
     // Disconnect MQTT
     if (this.mqttService) {
       await this.mqttService.disconnect();
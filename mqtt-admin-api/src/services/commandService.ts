@@ -0,0 +1,407 @@
+import { PrismaClient, DeviceCommand } from '@prisma/client';
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import {
+  DEVICE_ACTIONS,
+  SCHEME_PAYLOAD_STYLE,
+  convertPayload,
+  hierarchicalTopic,
+  readPayload,
+  toDeviceType,
+} from '@obedio/mqtt-contract';
+import { mqttLogger, logOperation } from '@/utils/logger';
+import type { MqttService, MqttMessage } from '@/services/mqttService';
+
+const prisma = new PrismaClient();
+
+export type CommandPriority = 'low' | 'normal' | 'high';
+export type CommandStatus = 'queued' | 'sent' | 'acked' | 'failed' | 'expired';
+
+export interface EnqueueCommandData {
+  deviceId: string;
+  command: string;
+  params?: Record<string, any>;
+  priority: CommandPriority;
+  timeout: number;
+}
+
+export interface CommandHistoryQuery {
+  page: number;
+  limit: number;
+  status?: CommandStatus;
+}
+
+interface PriorityPolicy {
+  maxAttempts: number;
+  backoffBaseMs: number;
+  ttlMs: number;
+}
+
+// High priority commands retry sooner and more often, but are not worth delivering late
+const PRIORITY_POLICIES: Record<CommandPriority, PriorityPolicy> = {
+  high: { maxAttempts: 5, backoffBaseMs: 1000, ttlMs: 10 * 60 * 1000 },
+  normal: { maxAttempts: 3, backoffBaseMs: 2000, ttlMs: 60 * 60 * 1000 },
+  low: { maxAttempts: 2, backoffBaseMs: 5000, ttlMs: 24 * 60 * 60 * 1000 },
+};
+
+const PRIORITY_ORDER: Record<string, number> = { high: 0, normal: 1, low: 2 };
+const MAX_BACKOFF_MS = 60000;
+const OPEN_STATUSES: CommandStatus[] = ['queued', 'sent'];
+
+/**
+ * Tracked command delivery: commands are persisted, published on the device's
+ * `command` topic, retried with backoff until the device acks them on
+ * `command/ack`, and held back while the device is offline.
+ */
+export class CommandService extends EventEmitter {
+  private static instance: CommandService;
+  private mqttService: MqttService | null = null;
+  private sweepInterval?: NodeJS.Timeout;
+  private sweeping = false;
+  private lastSeen = new Map<string, Date>();
+  private readonly SWEEP_INTERVAL = 1000;
+  private readonly OFFLINE_AFTER = 90000; // Same as the presence heartbeat timeout
+
+  private constructor() {
+    super();
+  }
+
+  public static getInstance(): CommandService {
+    if (!CommandService.instance) {
+      CommandService.instance = new CommandService();
+    }
+    return CommandService.instance;
+  }
+
+  /**
+   * Start delivering commands. Without an MQTT service commands are only queued.
+   */
+  start(mqttService: MqttService | null): void {
+    this.stop();
+    this.mqttService = mqttService;
+    this.mqttService?.on('message', this.handleMessage);
+
+    this.sweepInterval = setInterval(() => {
+      this.sweep().catch((error) => mqttLogger.error('Command sweep failed:', error));
+    }, this.SWEEP_INTERVAL);
+
+    mqttLogger.info('Command delivery started');
+  }
+
+  stop(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = undefined;
+    }
+    this.mqttService?.off('message', this.handleMessage);
+    this.mqttService = null;
+  }
+
+  /**
+   * Persist a command and send it right away if the device is reachable.
+   */
+  async enqueue(data: EnqueueCommandData): Promise<DeviceCommand> {
+    const policy = PRIORITY_POLICIES[data.priority];
+    const now = new Date();
+
+    const command = await prisma.deviceCommand.create({
+      data: {
+        commandId: `cmd_${crypto.randomUUID()}`,
+        deviceId: data.deviceId,
+        command: data.command,
+        params: data.params ? JSON.stringify(data.params) : null,
+        priority: data.priority,
+        maxAttempts: policy.maxAttempts,
+        timeoutMs: data.timeout,
+        expiresAt: new Date(now.getTime() + policy.ttlMs),
+      },
+    });
+
+    logOperation('device_command_queued', {
+      deviceId: data.deviceId,
+      commandId: command.commandId,
+      command: data.command,
+      priority: data.priority,
+    });
+
+    if (await this.isReachable(data.deviceId)) {
+      return this.dispatch(command);
+    }
+
+    this.emitUpdate(command);
+    return command;
+  }
+
+  /**
+   * Command history for a device, newest first.
+   */
+  async getHistory(deviceId: string, query: CommandHistoryQuery) {
+    const where = { deviceId, ...(query.status ? { status: query.status } : {}) };
+
+    const [commands, total] = await Promise.all([
+      prisma.deviceCommand.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.deviceCommand.count({ where }),
+    ]);
+
+    return {
+      commands: commands.map((command) => this.format(command)),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit),
+      },
+    };
+  }
+
+  format(command: DeviceCommand) {
+    return {
+      ...command,
+      params: command.params ? JSON.parse(command.params) : null,
+      result: command.result ? JSON.parse(command.result) : null,
+    };
+  }
+
+  /**
+   * Expire stale commands, fail or retry unacknowledged ones and send due commands
+   * to reachable devices.
+   */
+  async sweep(now: Date = new Date()): Promise<void> {
+    // setInterval can fire while a slow sweep is still publishing
+    if (this.sweeping) {
+      return;
+    }
+    this.sweeping = true;
+
+    try {
+      const expired = await prisma.deviceCommand.findMany({
+        where: { status: { in: OPEN_STATUSES }, expiresAt: { lte: now } },
+      });
+      for (const command of expired) {
+        await this.finish(command, 'expired', { error: 'Command expired before the device acknowledged it' });
+      }
+
+      const unacked = await prisma.deviceCommand.findMany({
+        where: { status: 'sent', nextAttemptAt: { lte: now } },
+      });
+      for (const command of unacked) {
+        await this.handleAckTimeout(command, now);
+      }
+
+      const due = await prisma.deviceCommand.findMany({
+        where: {
+          status: 'queued',
+          expiresAt: { gt: now },
+          OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+      await this.dispatchAll(due);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async handleAckTimeout(command: DeviceCommand, now: Date): Promise<void> {
+    if (command.attempts >= command.maxAttempts) {
+      await this.finish(command, 'failed', {
+        error: `No acknowledgement after ${command.attempts} attempt(s)`,
+      });
+      return;
+    }
+
+    const policy = PRIORITY_POLICIES[command.priority as CommandPriority] || PRIORITY_POLICIES.normal;
+    const backoff = Math.min(policy.backoffBaseMs * Math.pow(2, command.attempts - 1), MAX_BACKOFF_MS);
+
+    const updated = await prisma.deviceCommand.update({
+      where: { id: command.id },
+      data: { status: 'queued', nextAttemptAt: new Date(now.getTime() + backoff) },
+    });
+
+    mqttLogger.debug({ commandId: command.commandId, attempt: command.attempts, backoff }, 'Command not acknowledged, retrying');
+    this.emitUpdate(updated);
+  }
+
+  /**
+   * Send queued commands, highest priority first, skipping devices that are offline.
+   */
+  private async dispatchAll(commands: DeviceCommand[]): Promise<void> {
+    const sorted = [...commands].sort((a, b) =>
+      (PRIORITY_ORDER[a.priority] ?? 1) - (PRIORITY_ORDER[b.priority] ?? 1) ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+    );
+
+    const reachable = new Map<string, boolean>();
+    for (const command of sorted) {
+      if (!reachable.has(command.deviceId)) {
+        reachable.set(command.deviceId, await this.isReachable(command.deviceId));
+      }
+      if (reachable.get(command.deviceId)) {
+        await this.dispatch(command);
+      }
+    }
+  }
+
+  private async dispatch(command: DeviceCommand): Promise<DeviceCommand> {
+    const device = await prisma.mqttDevice.findUnique({ where: { deviceId: command.deviceId } });
+    if (!device || !this.mqttService?.isConnected()) {
+      return command;
+    }
+
+    const attempt = command.attempts + 1;
+    const topic = hierarchicalTopic({
+      site: device.site,
+      room: device.room,
+      type: toDeviceType(device.deviceType),
+      id: device.deviceId,
+    }, DEVICE_ACTIONS.COMMAND);
+
+    const payload = convertPayload({
+      commandId: command.commandId,
+      command: command.command,
+      params: command.params ? JSON.parse(command.params) : undefined,
+      priority: command.priority,
+      attempt,
+      timestamp: new Date().toISOString(),
+      source: 'api',
+    }, SCHEME_PAYLOAD_STYLE.hierarchical);
+
+    try {
+      await this.mqttService.publishMessage(topic, payload, { qos: 1 });
+    } catch (error) {
+      // Broker went away between the check and the publish - the sweep will try again
+      mqttLogger.warn({ commandId: command.commandId, error }, 'Failed to publish device command');
+      return command;
+    }
+
+    const now = new Date();
+    const updated = await prisma.deviceCommand.update({
+      where: { id: command.id },
+      data: {
+        status: 'sent',
+        attempts: attempt,
+        sentAt: now,
+        nextAttemptAt: new Date(now.getTime() + command.timeoutMs),
+      },
+    });
+
+    logOperation('device_command_sent', {
+      deviceId: command.deviceId,
+      commandId: command.commandId,
+      command: command.command,
+      attempt,
+      topic,
+    });
+
+    this.emitUpdate(updated);
+    return updated;
+  }
+
+  private async finish(command: DeviceCommand, status: CommandStatus, data: { error?: string; result?: string } = {}): Promise<void> {
+    const updated = await prisma.deviceCommand.update({
+      where: { id: command.id },
+      data: {
+        status,
+        nextAttemptAt: null,
+        ackedAt: status === 'acked' ? new Date() : command.ackedAt,
+        ...data,
+      },
+    });
+
+    logOperation(`device_command_${status}`, {
+      deviceId: command.deviceId,
+      commandId: command.commandId,
+      attempts: command.attempts,
+      error: data.error,
+    });
+
+    this.emitUpdate(updated);
+  }
+
+  /**
+   * Any message from a device proves it is online: flush its queue, and settle
+   * the command when the message is an ack.
+   */
+  private handleMessage = (message: MqttMessage): void => {
+    const address = message.address;
+    if (!address) {
+      return;
+    }
+
+    this.lastSeen.set(address.id, message.timestamp);
+
+    const work = address.action === DEVICE_ACTIONS.COMMAND_ACK
+      ? this.handleAck(address.id, message.payload.toString())
+      : this.flushDevice(address.id);
+
+    work.catch((error) => mqttLogger.error('Failed to process command delivery for device message:', error));
+  };
+
+  private async handleAck(deviceId: string, rawPayload: string): Promise<void> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(rawPayload);
+    } catch {
+      mqttLogger.warn({ deviceId }, 'Ignoring command ack that is not JSON');
+      return;
+    }
+
+    const ack = readPayload(DEVICE_ACTIONS.COMMAND_ACK, raw);
+    if (!ack.commandId) {
+      return;
+    }
+
+    const command = await prisma.deviceCommand.findUnique({ where: { commandId: ack.commandId } });
+    // Duplicate acks for retried commands arrive after the command is already settled
+    if (!command || command.deviceId !== deviceId || !OPEN_STATUSES.includes(command.status as CommandStatus)) {
+      return;
+    }
+
+    if (ack.status === 'error') {
+      await this.finish(command, 'failed', { error: ack.error || 'Device reported an error' });
+    } else {
+      await this.finish(command, 'acked', { result: ack.result ? JSON.stringify(ack.result) : undefined });
+    }
+
+    await this.flushDevice(deviceId);
+  }
+
+  private async flushDevice(deviceId: string): Promise<void> {
+    const now = new Date();
+    const queued = await prisma.deviceCommand.findMany({
+      where: {
+        deviceId,
+        status: 'queued',
+        expiresAt: { gt: now },
+        OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+      },
+    });
+
+    await this.dispatchAll(queued);
+  }
+
+  private async isReachable(deviceId: string): Promise<boolean> {
+    if (!this.mqttService?.isConnected()) {
+      return false;
+    }
+
+    const seen = this.lastSeen.get(deviceId);
+    if (seen && Date.now() - seen.getTime() < this.OFFLINE_AFTER) {
+      return true;
+    }
+
+    const presence = await prisma.mqttPresence.findUnique({ where: { deviceId } });
+    return presence?.status === 'online';
+  }
+
+  private emitUpdate(command: DeviceCommand): void {
+    this.emit('commandUpdate', this.format(command));
+  }
+}
+
+export default CommandService;
@@ -4,6 +4,7 @@ import { config } from '@/config';
 import { mqttLogger, logMqttMessage, logOperation } from '@/utils/logger';
 import { DatabaseUtils } from '@/models/database';
 import { RedisService } from '@/utils/redis';
+import { DEVICE_ACTIONS, HierarchicalTopic, hierarchicalFilter, parseTopic } from '@obedio/mqtt-contract';
 
 export interface MqttMessage {
   topic: string;
@@ -13,6 +14,7 @@ export interface MqttMessage {
   timestamp: Date;
   deviceId?: string;
   messageType?: string;
+  address?: HierarchicalTopic;
 }
 
 export interface DeviceStatus {
@@ -166,14 +168,15 @@ export class MqttService extends EventEmitter {
     }
 
     const topics = [
-      'obedio/+/+/+/+/status',    // Device status messages
-      'obedio/+/+/+/+/data',      // Device data messages  
-      'obedio/+/+/+/+/battery',   // Battery status
-      'obedio/+/+/+/+/signal',    // Signal strength
-      'obedio/+/+/+/+/location',  // Location updates
-      'obedio/+/+/+/+/emergency', // Emergency alerts
-      'obedio/+/+/+/+/heartbeat', // Device heartbeats
-      'obedio/system/+',          // System messages
+      hierarchicalFilter(DEVICE_ACTIONS.STATUS),    // Device status messages
+      hierarchicalFilter('data'),                   // Device data messages
+      hierarchicalFilter(DEVICE_ACTIONS.BATTERY),   // Battery status
+      hierarchicalFilter(DEVICE_ACTIONS.SIGNAL),    // Signal strength
+      hierarchicalFilter(DEVICE_ACTIONS.LOCATION),  // Location updates
+      hierarchicalFilter(DEVICE_ACTIONS.EMERGENCY), // Emergency alerts
+      hierarchicalFilter(DEVICE_ACTIONS.HEARTBEAT), // Device heartbeats
+      hierarchicalFilter(DEVICE_ACTIONS.COMMAND_ACK), // Command acknowledgements (CommandService)
+      'obedio/system/+',                            // System messages
     ];
 
     topics.forEach(topic => {
@@ -217,10 +220,12 @@ export class MqttService extends EventEmitter {
       };
 
       // Parse topic structure: obedio/{site}/{room}/{type}/{id}/{action}
-      const topicParts = topic.split('/');
-      if (topicParts.length >= 5 && topicParts[0] === 'obedio') {
-        message.deviceId = `${topicParts[1]}-${topicParts[2]}-${topicParts[3]}-${topicParts[4]}`;
-        message.messageType = topicParts[5] || 'unknown';
+      // Legacy devices arrive here through the OBEDIO bridge, already translated
+      const address = parseTopic(topic);
+      if (address?.scheme === 'hierarchical') {
+        message.deviceId = `${address.site}-${address.room}-${address.type}-${address.id}`;
+        message.messageType = address.action.split('/')[0];
+        message.address = address;
       }
 
       // Log message for debugging
@@ -301,6 +306,10 @@ export class MqttService extends EventEmitter {
           await this.handleDataMessage(message.deviceId, parsedPayload);
           break;
 
+        case 'command':
+          // command/ack is settled by CommandService from the 'message' event
+          break;
+
         default:
           mqttLogger.debug(`Unhandled message type: ${message.messageType}`, {
             deviceId: message.deviceId,
@@ -456,27 +465,6 @@ export class MqttService extends EventEmitter {
     });
   }
 
-  async sendDeviceCommand(deviceId: string, command: string, params?: any): Promise<void> {
-    const [site, room, type, id] = deviceId.split('-');
-    const topic = `obedio/${site}/${room}/${type}/${id}/command`;
-    
-    const commandPayload = {
-      command,
-      params,
-      timestamp: new Date().toISOString(),
-      source: 'api',
-    };
-
-    await this.publishMessage(topic, commandPayload);
-    
-    logOperation('device_command_sent', {
-      deviceId,
-      command,
-      params,
-      topic,
-    });
-  }
-
   private async publishSystemStatus(status: 'online' | 'offline'): Promise<void> {
     const statusPayload = {
       status,
@@ -5,6 +5,8 @@ import { v4 as uuidv4 } from 'uuid';
 import { wsLogger, logOperation } from '@/utils/logger';
 import { RedisService } from '@/utils/redis';
 import { MqttService, MqttMessage, DeviceStatus } from '@/services/mqttService';
+import { CommandService } from '@/services/commandService';
+import { DeviceCommandSchema } from '@/schemas';
 
 export interface WebSocketConnection {
   id: string;
@@ -152,6 +154,11 @@ export class WebSocketGateway extends EventEmitter {
     this.mqttService.on('deviceData', (data: any) => {
       this.broadcastToSubscribers('device:data', data);
     });
+
+    // Forward command delivery progress (sent, retried, acked, failed, expired)
+    CommandService.getInstance().on('commandUpdate', (command: any) => {
+      this.broadcastToSubscribers('device:command_status', command);
+    });
   }
 
   private async handleMessage(connectionId: string, data: Buffer): Promise<void> {
@@ -315,13 +322,22 @@ export class WebSocketGateway extends EventEmitter {
     }
 
     try {
-      await this.mqttService.sendDeviceCommand(data.deviceId, data.command, data.params);
+      const { command, params, priority, timeout } = DeviceCommandSchema.parse(data);
+      const queued = await CommandService.getInstance().enqueue({
+        deviceId: data.deviceId,
+        command,
+        params,
+        priority,
+        timeout,
+      });
 
       this.sendToConnection(connectionId, {
         type: 'device:command_sent',
         data: {
           deviceId: data.deviceId,
           command: data.command,
+          commandId: queued.commandId,
+          status: queued.status,
           success: true,
         },
         timestamp: new Date().toISOString(),
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { PrismaClient, DeviceCommand } from '@prisma/client';
+import { CommandService } from '@/services/commandService';
+import type { MqttService, MqttMessage } from '@/services/mqttService';
+
+// Logger without the config and pino transports
+vi.mock('@/utils/logger', () => ({
+  mqttLogger: { info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  logOperation: vi.fn(),
+}));
+
+vi.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    deviceCommand: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn(),
+    },
+    mqttDevice: {
+      findUnique: vi.fn(),
+    },
+    mqttPresence: {
+      findUnique: vi.fn(),
+    },
+  };
+
+  return {
+    PrismaClient: vi.fn(() => mockPrismaClient),
+  };
+});
+
+class FakeMqttService extends EventEmitter {
+  connected = true;
+  publishMessage = vi.fn().mockResolvedValue(undefined);
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+}
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const command = (overrides: Partial<DeviceCommand> = {}): DeviceCommand => ({
+  id: 1,
+  commandId: 'cmd_1',
+  deviceId: 'BTN-1',
+  command: 'reset',
+  params: null,
+  priority: 'normal',
+  status: 'queued',
+  attempts: 0,
+  maxAttempts: 3,
+  timeoutMs: 5000,
+  nextAttemptAt: null,
+  expiresAt: new Date(NOW.getTime() + 60 * 60 * 1000),
+  sentAt: null,
+  ackedAt: null,
+  result: null,
+  error: null,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+const deviceMessage = (deviceId: string, action: string, payload: unknown = {}): MqttMessage => ({
+  topic: `obedio/yacht/cabin/button/${deviceId}/${action}`,
+  payload: JSON.stringify(payload),
+  qos: 1,
+  retain: false,
+  timestamp: new Date(),
+  address: { scheme: 'hierarchical', site: 'yacht', room: 'cabin', type: 'button', id: deviceId, action },
+});
+
+// Message handlers run their work in the background
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('CommandService', () => {
+  let prisma: any;
+  let mqtt: FakeMqttService;
+  const service = CommandService.getInstance();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    prisma = new PrismaClient();
+    prisma.deviceCommand.findMany.mockResolvedValue([]);
+    prisma.deviceCommand.update.mockImplementation(async ({ where, data }: { where: { id: number }; data: Partial<DeviceCommand> }) =>
+      command({ id: where.id, ...data })
+    );
+    prisma.mqttDevice.findUnique.mockImplementation(async ({ where }: { where: { deviceId: string } }) => ({
+      deviceId: where.deviceId,
+      site: 'yacht',
+      room: 'cabin',
+      deviceType: 'button',
+    }));
+    prisma.mqttPresence.findUnique.mockResolvedValue({ status: 'offline' });
+
+    mqtt = new FakeMqttService();
+    service.start(mqtt as unknown as MqttService);
+  });
+
+  afterEach(() => {
+    service.stop();
+    vi.useRealTimers();
+  });
+
+  describe('sweep', () => {
+    it('should requeue an unacknowledged command with exponential backoff', async () => {
+      prisma.deviceCommand.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([command({ status: 'sent', attempts: 2, nextAttemptAt: NOW })]);
+
+      await service.sweep(NOW);
+
+      expect(prisma.deviceCommand.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { status: 'queued', nextAttemptAt: new Date(NOW.getTime() + 4000) },
+      });
+      expect(mqtt.publishMessage).not.toHaveBeenCalled();
+    });
+
+    it('should fail a command after the last unacknowledged attempt', async () => {
+      prisma.deviceCommand.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([command({ status: 'sent', attempts: 3, nextAttemptAt: NOW })]);
+      const updates = vi.fn();
+      service.on('commandUpdate', updates);
+
+      await service.sweep(NOW);
+
+      expect(prisma.deviceCommand.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ status: 'failed', nextAttemptAt: null, error: 'No acknowledgement after 3 attempt(s)' }),
+      });
+      expect(updates).toHaveBeenCalledWith(expect.objectContaining({ commandId: 'cmd_1', status: 'failed' }));
+      service.off('commandUpdate', updates);
+    });
+
+    it('should expire open commands past their deadline without sending them', async () => {
+      prisma.deviceCommand.findMany.mockResolvedValueOnce([command({ expiresAt: NOW })]);
+
+      await service.sweep(NOW);
+
+      expect(prisma.deviceCommand.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ status: 'expired', error: 'Command expired before the device acknowledged it' }),
+      });
+      expect(mqtt.publishMessage).not.toHaveBeenCalled();
+    });
+
+    it('should send due commands highest priority first and skip offline devices', async () => {
+      prisma.mqttPresence.findUnique.mockImplementation(async ({ where }: { where: { deviceId: string } }) => ({
+        status: where.deviceId === 'BTN-OFF' ? 'offline' : 'online',
+      }));
+      prisma.deviceCommand.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          command({ id: 1, commandId: 'cmd_low', priority: 'low', deviceId: 'BTN-2' }),
+          command({ id: 2, commandId: 'cmd_offline', priority: 'high', deviceId: 'BTN-OFF' }),
+          command({ id: 3, commandId: 'cmd_high', priority: 'high', deviceId: 'BTN-2' }),
+        ]);
+
+      await service.sweep(NOW);
+
+      expect(mqtt.publishMessage.mock.calls.map(([, payload]) => payload.command_id)).toEqual(['cmd_high', 'cmd_low']);
+      expect(mqtt.publishMessage).toHaveBeenCalledWith(
+        'obedio/yacht/cabin/button/BTN-2/command',
+        expect.objectContaining({ command_id: 'cmd_high', attempt: 1 }),
+        { qos: 1 }
+      );
+      expect(prisma.deviceCommand.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: expect.objectContaining({ status: 'sent', attempts: 1 }),
+      });
+    });
+  });
+
+  describe('offline queue', () => {
+    it('should hold commands for an offline device and flush them when it comes back', async () => {
+      prisma.deviceCommand.create.mockResolvedValue(command({ deviceId: 'BTN-3' }));
+
+      const queued = await service.enqueue({ deviceId: 'BTN-3', command: 'reset', priority: 'normal', timeout: 5000 });
+
+      expect(queued.status).toBe('queued');
+      expect(mqtt.publishMessage).not.toHaveBeenCalled();
+
+      prisma.deviceCommand.findMany.mockResolvedValueOnce([command({ deviceId: 'BTN-3' })]);
+      mqtt.emit('message', deviceMessage('BTN-3', 'status'));
+      await settle();
+
+      expect(prisma.deviceCommand.findMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ deviceId: 'BTN-3', status: 'queued' }),
+      });
+      expect(mqtt.publishMessage).toHaveBeenCalledWith(
+        'obedio/yacht/cabin/button/BTN-3/command',
+        expect.objectContaining({ command_id: 'cmd_1' }),
+        { qos: 1 }
+      );
+    });
+
+    it('should settle an acknowledged command and ignore duplicate acks', async () => {
+      prisma.deviceCommand.findUnique
+        .mockResolvedValueOnce(command({ deviceId: 'BTN-4', status: 'sent', attempts: 1 }))
+        .mockResolvedValueOnce(command({ deviceId: 'BTN-4', status: 'acked', attempts: 1 }));
+
+      mqtt.emit('message', deviceMessage('BTN-4', 'command/ack', { command_id: 'cmd_1', status: 'ok', result: { rebooted: true } }));
+      await settle();
+      mqtt.emit('message', deviceMessage('BTN-4', 'command/ack', { command_id: 'cmd_1', status: 'ok' }));
+      await settle();
+
+      expect(prisma.deviceCommand.update).toHaveBeenCalledTimes(1);
+      expect(prisma.deviceCommand.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ status: 'acked', result: JSON.stringify({ rebooted: true }) }),
+      });
+    });
+  });
+});
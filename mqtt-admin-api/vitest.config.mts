@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+import { resolve } from 'path';
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/unit/**/*.test.ts'],
+    exclude: ['**/node_modules/**', '**/dist/**'],
+  },
+  resolve: {
+    alias: {
+      '@obedio/mqtt-contract': resolve(__dirname, '../shared/mqtt-contract'),
+      '@': resolve(__dirname, './src'),
+    },
+  },
+});
@@ -0,0 +1,335 @@
+import type { TopicScheme } from './topics';
+
+/**
+ * Payload contract for device messages.
+ *
+ * Fields are declared in camelCase, which is what legacy firmware and the
+ * OBEDIO_SYSTEM handlers use. Hierarchical devices publish the same fields in
+ * snake_case (`press_type`, `device_id`); the translation bridge converts the
+ * top-level keys between the two styles.
+ */
+
+export type PayloadStyle = 'camel' | 'snake';
+
+export const SCHEME_PAYLOAD_STYLE: Record<TopicScheme, PayloadStyle> = {
+  legacy: 'camel',
+  hierarchical: 'snake',
+};
+
+/** Set on every message published by the translation bridge, holding the scheme it came from. */
+export const BRIDGE_MARKER = '_bridge';
+
+export type PressType = 'short' | 'long' | 'double' | 'triple' | 'emergency';
+
+interface BasePayload {
+  timestamp?: string;
+  deviceId?: string;
+  [BRIDGE_MARKER]?: TopicScheme;
+}
+
+export interface StatusPayload extends BasePayload {
+  battery?: number;
+  signal?: number;
+  temperature?: number;
+  humidity?: number;
+  uptime?: number;
+  firmwareVersion?: string;
+}
+
+export interface HeartbeatPayload extends BasePayload {
+  status?: string;
+}
+
+export interface ButtonPressPayload extends BasePayload {
+  pressType?: PressType;
+  duration?: number;
+  sequenceId?: number;
+  battery?: number;
+  signal?: number;
+  notes?: string;
+}
+
+export interface EmergencyPayload extends BasePayload {
+  alertType?: string;
+  urgency?: string;
+  battery?: number;
+}
+
+export interface VoicePayload extends BasePayload {
+  transcript?: string;
+  duration?: number;
+  language?: string;
+}
+
+export type VoiceFormat = 'wav' | 'opus' | 'pcm16';
+
+/**
+ * One slice of a voice recording on `voice/chunk`. Slices may arrive out of order or
+ * repeated; the server stores the recording once it holds all `totalChunks` slices of
+ * `recordingId`. `format`, `sampleRate` and `durationMs` are read from the first slice.
+ */
+export interface VoiceChunkPayload extends BasePayload {
+  recordingId: string;
+  index: number;
+  totalChunks: number;
+  /** Base64 encoded slice of the audio. */
+  data: string;
+  format?: VoiceFormat;
+  sampleRate?: number;
+  durationMs?: number;
+}
+
+export interface LocationPayload extends BasePayload {
+  locationId?: number;
+  room?: string;
+}
+
+export interface CrewStatusPayload extends BasePayload {
+  crewId?: number;
+  status: string;
+}
+
+/** Watch put on (or taken off) the wrist; wearing it confirms the start of a planned shift. */
+export interface WornPayload extends BasePayload {
+  crewId?: number;
+  worn: boolean;
+}
+
+/** "Start watch" / "End watch" tapped on the watch. */
+export interface DutyPayload extends BasePayload {
+  crewId?: number;
+}
+
+/** Incoming crew acknowledged a shift handover on the watch. */
+export interface HandoverAckPayload extends BasePayload {
+  crewId?: number;
+  handoverId: number;
+}
+
+export interface WatchRequestPayload extends BasePayload {
+  requestId: number;
+  reason?: string;
+  completionNotes?: string;
+}
+
+/** Canned reply picked on the watch; `reply` is the key of the reply, not its text. */
+export interface WatchReplyPayload extends BasePayload {
+  requestId: number;
+  reply: string;
+}
+
+export interface CommandPayload extends BasePayload {
+  command: string;
+  params?: Record<string, unknown>;
+  source?: string;
+  /** Set on tracked commands; the device echoes it back on `command/ack`. */
+  commandId?: string;
+  attempt?: number;
+  priority?: 'low' | 'normal' | 'high';
+}
+
+export type CommandAckStatus = 'ok' | 'error';
+
+/**
+ * Published by the device on `command/ack` once a tracked command has been handled.
+ * Devices must ack retried commands too; the same `commandId` may arrive more than once.
+ */
+export interface CommandAckPayload extends BasePayload {
+  commandId: string;
+  status: CommandAckStatus;
+  error?: string;
+  result?: Record<string, unknown>;
+}
+
+export interface NotificationPayload extends BasePayload {
+  requestId?: number;
+  title?: string;
+  message?: string;
+  priority?: string;
+}
+
+/**
+ * Firmware update flow: the server offers an update on `ota/offer`, the device pulls
+ * the image chunk by chunk (`ota/chunk/request` -> `ota/chunk`) and reports each step
+ * on `ota/progress`. The device verifies `checksum` (SHA-256, hex) before installing.
+ */
+export interface OtaOfferPayload extends BasePayload {
+  campaignId: number;
+  version: string;
+  size: number;
+  checksum: string;
+  chunkSize: number;
+  totalChunks: number;
+}
+
+export interface OtaChunkRequestPayload extends BasePayload {
+  campaignId: number;
+  index: number;
+}
+
+export interface OtaChunkPayload extends BasePayload {
+  campaignId: number;
+  index: number;
+  totalChunks: number;
+  /** Base64 encoded slice of the image. */
+  data: string;
+}
+
+export type OtaStatus = 'downloading' | 'installing' | 'succeeded' | 'failed';
+
+export interface OtaProgressPayload extends BasePayload {
+  campaignId: number;
+  status: OtaStatus;
+  /** Download progress, 0-100. */
+  progress?: number;
+  /** Version running after a successful install. */
+  version?: string;
+  error?: string;
+}
+
+/**
+ * Configuration profile pushed on `cmd/config`. `config` is the full resolved profile
+ * (nested keys are camelCase in both schemes). The device applies it and answers on
+ * `config/applied` with the same `hash`, or with `error` when it rejects the profile.
+ */
+export interface ConfigPayload extends BasePayload {
+  hash: string;
+  config: Record<string, unknown>;
+}
+
+export interface ConfigAppliedPayload extends BasePayload {
+  hash?: string;
+  error?: string;
+}
+
+/**
+ * One radio link seen by a repeater. Nested objects keep camelCase keys in both schemes.
+ * Firmware without an RSSI reading reports `signalStrength` (0-100 %) instead.
+ */
+export interface MeshNeighbor {
+  deviceId: string;
+  deviceType?: string;
+  /** Received signal strength, dBm. */
+  rssi?: number;
+  /** Signal-to-noise ratio, dB. */
+  snr?: number;
+  signalStrength?: number;
+  hopCount?: number;
+  lastSeen?: string;
+}
+
+/**
+ * Repeater mesh snapshot on `mesh`: every device the repeater currently hears and the
+ * repeaters it forwards through. An empty `parentNodes` list means the repeater talks
+ * to the server directly.
+ */
+export interface MeshPayload extends BasePayload {
+  nodeId?: string;
+  networkId?: string;
+  parentNodes?: string[];
+  connectedDevices?: MeshNeighbor[];
+  signalQuality?: number;
+  networkLoad?: number;
+}
+
+export interface MeshDeparturePayload extends BasePayload {
+  nodeId?: string;
+  connectedDevices?: string[];
+}
+
+/** Result of a `mesh_scan` command; `neighbors` lists the other repeaters in range. */
+export interface MeshScanResultsPayload extends BasePayload {
+  scanType?: string;
+  discoveredNodes?: number;
+  neighbors?: MeshNeighbor[];
+}
+
+export interface MeshDeviceConnectedPayload extends BasePayload {
+  device: { uid: string; type?: string; rssi?: number; snr?: number; lastSeen?: string };
+  totalDevices?: number;
+}
+
+export interface MeshDeviceDisconnectedPayload extends BasePayload {
+  deviceUid: string;
+  totalDevices?: number;
+}
+
+/** A message a repeater forwarded from `from`, with the RSSI it was received at. */
+export interface MeshRelayPayload extends BasePayload {
+  from: string;
+  to?: string;
+  rssi?: number;
+  snr?: number;
+  hopCount?: number;
+}
+
+/** Payload type for each well-known action. */
+export interface DevicePayloads {
+  status: StatusPayload;
+  heartbeat: HeartbeatPayload;
+  press: ButtonPressPayload;
+  emergency: EmergencyPayload;
+  voice: VoicePayload;
+  'voice/chunk': VoiceChunkPayload;
+  location: LocationPayload;
+  command: CommandPayload;
+  'command/ack': CommandAckPayload;
+  notification: NotificationPayload;
+  'crew/status': CrewStatusPayload;
+  worn: WornPayload;
+  'duty/start': DutyPayload;
+  'duty/end': DutyPayload;
+  'handover/ack': HandoverAckPayload;
+  'request/accept': WatchRequestPayload;
+  'request/decline': WatchRequestPayload;
+  'request/complete': WatchRequestPayload;
+  'request/reply': WatchReplyPayload;
+  'ota/offer': OtaOfferPayload;
+  'ota/chunk': OtaChunkPayload;
+  'ota/chunk/request': OtaChunkRequestPayload;
+  'ota/progress': OtaProgressPayload;
+  'cmd/config': ConfigPayload;
+  'config/applied': ConfigAppliedPayload;
+  mesh: MeshPayload;
+  'mesh/departure': MeshDeparturePayload;
+  scan_results: MeshScanResultsPayload;
+  'device/connected': MeshDeviceConnectedPayload;
+  'device/disconnected': MeshDeviceDisconnectedPayload;
+  relay: MeshRelayPayload;
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toCamel(key: string): string {
+  return key.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+function toSnake(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * Converts the top-level keys of a payload to the given style. Nested objects are
+ * device-specific data and are left untouched; keys starting with `_` are never renamed.
+ */
+export function convertPayload(payload: Record<string, unknown>, style: PayloadStyle): Record<string, unknown> {
+  const convert = style === 'camel' ? toCamel : toSnake;
+
+  return Object.fromEntries(
+    Object.entries(payload).map(([key, value]) => [key.startsWith('_') ? key : convert(key), value])
+  );
+}
+
+/**
+ * Reads a payload of either style as the typed camelCase contract for an action.
+ */
+export function readPayload<A extends keyof DevicePayloads>(_action: A, raw: unknown): DevicePayloads[A] {
+  return (isPlainObject(raw) ? convertPayload(raw, 'camel') : {}) as unknown as DevicePayloads[A];
+}
+
+/** True when the message was already published by the translation bridge. */
+export function isBridged(payload: unknown): boolean {
+  return isPlainObject(payload) && payload[BRIDGE_MARKER] !== undefined;
+}
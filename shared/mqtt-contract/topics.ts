@@ -0,0 +1,278 @@
+/**
+ * MQTT topic contract shared by OBEDIO_SYSTEM, mqtt-admin-api and the device simulators.
+ *
+ * Two topic schemes coexist on the broker while firmware migrates:
+ *
+ *   legacy        obedio/device/{uid}/{action}
+ *                 obedio/repeater/{uid}/{action}
+ *   hierarchical  obedio/{site}/{room}/{type}/{id}/{action}
+ *
+ * The action part is identical in both schemes (it may span several levels,
+ * e.g. `request/accept`), and a device keeps the same identifier: the legacy
+ * `uid` is the hierarchical `id`.
+ */
+
+export const TOPIC_ROOT = 'obedio';
+
+export const DEVICE_TYPES = ['button', 'watch', 'repeater', 'sensor', 'generic'] as const;
+export type DeviceType = (typeof DEVICE_TYPES)[number];
+
+export type TopicScheme = 'legacy' | 'hierarchical';
+
+/** Legacy topic families, named after their second level. */
+export type LegacyKind = 'device' | 'repeater';
+
+/**
+ * Second-level segments that belong to non-device topics or to the legacy scheme.
+ * They can never be used as site names.
+ */
+export const RESERVED_SEGMENTS = ['device', 'repeater', 'system', 'provision'] as const;
+
+/** Well-known device actions. Repeaters and simulators publish additional free-form actions. */
+export const DEVICE_ACTIONS = {
+  STATUS: 'status',
+  HEARTBEAT: 'heartbeat',
+  BIRTH: 'birth',
+  LWT: 'lwt',
+  PRESS: 'press',
+  VOICE: 'voice',
+  VOICE_CHUNK: 'voice/chunk',
+  EMERGENCY: 'emergency',
+  FALL: 'fall',
+  SOS: 'sos',
+  BATTERY: 'battery',
+  SIGNAL: 'signal',
+  LOCATION: 'location',
+  COMMAND: 'command',
+  COMMAND_ACK: 'command/ack',
+  NOTIFICATION: 'notification',
+  ASSIGN: 'assign',
+  CREW_STATUS: 'crew/status',
+  WORN: 'worn',
+  DUTY_START: 'duty/start',
+  DUTY_END: 'duty/end',
+  HANDOVER_ACK: 'handover/ack',
+  REQUEST_ACCEPT: 'request/accept',
+  REQUEST_DECLINE: 'request/decline',
+  REQUEST_COMPLETE: 'request/complete',
+  REQUEST_REPLY: 'request/reply',
+  OTA_OFFER: 'ota/offer',
+  OTA_CHUNK: 'ota/chunk',
+  OTA_CHUNK_REQUEST: 'ota/chunk/request',
+  OTA_PROGRESS: 'ota/progress',
+  CONFIG: 'cmd/config',
+  CONFIG_APPLIED: 'config/applied',
+  MESH: 'mesh',
+  MESH_DEPARTURE: 'mesh/departure',
+  MESH_SCAN_RESULTS: 'scan_results',
+  MESH_DEVICE_CONNECTED: 'device/connected',
+  MESH_DEVICE_DISCONNECTED: 'device/disconnected',
+  MESH_RELAY: 'relay',
+} as const;
+
+// `string & {}` keeps editor completion for the known actions while allowing custom ones
+export type DeviceAction = (typeof DEVICE_ACTIONS)[keyof typeof DEVICE_ACTIONS] | (string & {});
+
+/** Where a device sits in the hierarchical scheme. */
+export interface DeviceAddress {
+  site: string;
+  room: string;
+  type: DeviceType;
+  id: string;
+}
+
+export interface LegacyTopic {
+  scheme: 'legacy';
+  kind: LegacyKind;
+  uid: string;
+  action: string;
+}
+
+export interface HierarchicalTopic extends DeviceAddress {
+  scheme: 'hierarchical';
+  action: string;
+}
+
+export type DeviceTopic = LegacyTopic | HierarchicalTopic;
+
+/**
+ * Subscription filters covering every device topic of each scheme.
+ * Hierarchical devices are subscribed per site (see `hierarchicalSiteFilter`): a
+ * `obedio/+/+/+/+/#` filter would also match legacy and system topics whose action
+ * spans several levels, and the broker delivers a message once per matching filter.
+ */
+export const SUBSCRIPTIONS = {
+  LEGACY_DEVICES: `${TOPIC_ROOT}/device/+/#`,
+  LEGACY_REPEATERS: `${TOPIC_ROOT}/repeater/+/#`,
+  SYSTEM: `${TOPIC_ROOT}/system/#`,
+  PROVISION: `${TOPIC_ROOT}/provision/request`,
+} as const;
+
+// Device types as stored by OBEDIO_SYSTEM (Device.type) and their hierarchical names
+const STORED_DEVICE_TYPES: Record<string, DeviceType> = {
+  BUTTON: 'button',
+  SMART_WATCH: 'watch',
+  WATCH: 'watch',
+  REPEATER: 'repeater',
+  SENSOR: 'sensor',
+};
+
+/**
+ * Normalizes any device type spelling (`SMART_WATCH`, `watch`, ...) to a hierarchical type.
+ */
+export function toDeviceType(value: string | null | undefined): DeviceType {
+  if (!value) {
+    return 'generic';
+  }
+
+  const lower = value.toLowerCase();
+  if ((DEVICE_TYPES as readonly string[]).includes(lower)) {
+    return lower as DeviceType;
+  }
+
+  return STORED_DEVICE_TYPES[value.toUpperCase()] ?? 'generic';
+}
+
+/**
+ * Turns a free-form name (e.g. a room called "Master Suite") into a single topic level.
+ */
+export function toTopicSegment(value: string | null | undefined, fallback = 'unassigned'): string {
+  const segment = (value ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return segment || fallback;
+}
+
+function assertSegment(name: string, value: string): void {
+  if (!value || /[/+#]/.test(value)) {
+    throw new Error(`Invalid MQTT topic segment for ${name}: "${value}"`);
+  }
+}
+
+/**
+ * Builds a legacy topic, e.g. `obedio/device/BTN-001/press`.
+ * A `+` uid is allowed so the same builder produces subscription filters.
+ */
+export function legacyTopic(uid: string, action: DeviceAction, kind: LegacyKind = 'device'): string {
+  if (uid !== '+') {
+    assertSegment('uid', uid);
+  }
+
+  return `${TOPIC_ROOT}/${kind}/${uid}/${action}`;
+}
+
+/**
+ * Builds a hierarchical topic, e.g. `obedio/yacht/master-suite/button/BTN-001/press`.
+ */
+export function hierarchicalTopic(address: DeviceAddress, action: DeviceAction): string {
+  assertSegment('site', address.site);
+  assertSegment('room', address.room);
+  assertSegment('id', address.id);
+
+  if ((RESERVED_SEGMENTS as readonly string[]).includes(address.site)) {
+    throw new Error(`Site name "${address.site}" is reserved`);
+  }
+
+  return `${TOPIC_ROOT}/${address.site}/${address.room}/${address.type}/${address.id}/${action}`;
+}
+
+/**
+ * Subscription filter for every hierarchical device of one site, e.g. `obedio/yacht/+/+/+/#`.
+ * Reserved site names are rejected so the filter never overlaps the legacy and system filters.
+ */
+export function hierarchicalSiteFilter(site: string): string {
+  assertSegment('site', site);
+
+  if ((RESERVED_SEGMENTS as readonly string[]).includes(site)) {
+    throw new Error(`Site name "${site}" is reserved`);
+  }
+
+  return `${TOPIC_ROOT}/${site}/+/+/+/#`;
+}
+
+/**
+ * Non-overlapping filters for every device, system and provisioning topic of one site,
+ * so each message is delivered exactly once to a client subscribed to all of them.
+ */
+export function deviceSubscriptions(site: string): string[] {
+  return [
+    SUBSCRIPTIONS.LEGACY_DEVICES,
+    SUBSCRIPTIONS.LEGACY_REPEATERS,
+    hierarchicalSiteFilter(site),
+    SUBSCRIPTIONS.SYSTEM,
+    SUBSCRIPTIONS.PROVISION,
+  ];
+}
+
+/** Subscription filter for one action across all hierarchical devices. */
+export function hierarchicalFilter(action: DeviceAction): string {
+  return `${TOPIC_ROOT}/+/+/+/+/${action}`;
+}
+
+/**
+ * Parses a device topic of either scheme. Returns null for system, provisioning
+ * and malformed topics.
+ */
+export function parseTopic(topic: string): DeviceTopic | null {
+  const parts = topic.split('/');
+  if (parts[0] !== TOPIC_ROOT) {
+    return null;
+  }
+
+  if (parts[1] === 'device' || parts[1] === 'repeater') {
+    if (parts.length < 4 || !parts[2]) {
+      return null;
+    }
+
+    return {
+      scheme: 'legacy',
+      kind: parts[1],
+      uid: parts[2],
+      action: parts.slice(3).join('/'),
+    };
+  }
+
+  if ((RESERVED_SEGMENTS as readonly string[]).includes(parts[1]) || parts.length < 6) {
+    return null;
+  }
+
+  const [, site, room, type, id] = parts;
+  // Site-wide topics such as obedio/{site}/system/... are not addressed to a device
+  if (room === 'system' || !(DEVICE_TYPES as readonly string[]).includes(type) || !site || !room || !id) {
+    return null;
+  }
+
+  return {
+    scheme: 'hierarchical',
+    site,
+    room,
+    type: type as DeviceType,
+    id,
+    action: parts.slice(5).join('/'),
+  };
+}
+
+/**
+ * Checks a topic against an MQTT subscription filter (`+` and `#` wildcards).
+ */
+export function topicMatches(filter: string, topic: string): boolean {
+  const filterParts = filter.split('/');
+  const topicParts = topic.split('/');
+
+  for (let i = 0; i < filterParts.length; i++) {
+    if (filterParts[i] === '#') {
+      return true;
+    }
+    if (i >= topicParts.length) {
+      return false;
+    }
+    if (filterParts[i] !== '+' && filterParts[i] !== topicParts[i]) {
+      return false;
+    }
+  }
+
+  return filterParts.length === topicParts.length;
+}
@@ -0,0 +1,99 @@
+import {
+  DeviceAddress,
+  DeviceTopic,
+  LegacyKind,
+  hierarchicalTopic,
+  legacyTopic,
+  parseTopic,
+  toTopicSegment,
+} from './topics';
+import { BRIDGE_MARKER, SCHEME_PAYLOAD_STYLE, convertPayload, isBridged, isPlainObject } from './payloads';
+
+/**
+ * Knows where legacy devices sit in the hierarchical scheme.
+ */
+export interface DeviceDirectory {
+  /** Hierarchical address for a legacy device. */
+  locate(uid: string, kind: LegacyKind): DeviceAddress;
+  /** Records an address seen on the broker or loaded from a device registry. */
+  remember(uid: string, address: DeviceAddress): void;
+}
+
+export interface DirectoryDefaults {
+  /** Site used for devices that have never been seen with a hierarchical address. */
+  site: string;
+  /** Room used for such devices; defaults to `unassigned`. */
+  room?: string;
+}
+
+/**
+ * In-memory directory. Devices it has not learned about are placed in the default
+ * site and room, so legacy firmware is still visible on the hierarchical side.
+ */
+export class MemoryDeviceDirectory implements DeviceDirectory {
+  private readonly addresses = new Map<string, DeviceAddress>();
+
+  constructor(private readonly defaults: DirectoryDefaults) {}
+
+  has(uid: string): boolean {
+    return this.addresses.has(uid);
+  }
+
+  locate(uid: string, kind: LegacyKind): DeviceAddress {
+    return this.addresses.get(uid) ?? {
+      site: toTopicSegment(this.defaults.site),
+      room: toTopicSegment(this.defaults.room),
+      type: kind === 'repeater' ? 'repeater' : 'generic',
+      id: uid,
+    };
+  }
+
+  remember(uid: string, address: DeviceAddress): void {
+    this.addresses.set(uid, address);
+  }
+}
+
+export interface TranslatedMessage {
+  topic: string;
+  payload: Record<string, unknown>;
+  source: DeviceTopic;
+}
+
+/**
+ * Maps device messages between the legacy and hierarchical schemes.
+ *
+ * Translated payloads carry a bridge marker; messages that already have it are
+ * never translated again, which keeps two bridges (or one bridge subscribed to
+ * both schemes) from echoing messages back and forth.
+ */
+export class TopicTranslator {
+  constructor(private readonly directory: DeviceDirectory) {}
+
+  /**
+   * Returns the mirrored message for a device topic, or null when the topic is not
+   * a device topic, the payload is not a JSON object, or the message was already bridged.
+   */
+  translate(topic: string, payload: unknown): TranslatedMessage | null {
+    const source = parseTopic(topic);
+    if (!source || !isPlainObject(payload) || isBridged(payload)) {
+      return null;
+    }
+
+    if (source.scheme === 'hierarchical') {
+      const { site, room, type, id } = source;
+      this.directory.remember(id, { site, room, type, id });
+
+      return {
+        topic: legacyTopic(id, source.action, type === 'repeater' ? 'repeater' : 'device'),
+        payload: { ...convertPayload(payload, SCHEME_PAYLOAD_STYLE.legacy), [BRIDGE_MARKER]: 'hierarchical' },
+        source,
+      };
+    }
+
+    return {
+      topic: hierarchicalTopic(this.directory.locate(source.uid, source.kind), source.action),
+      payload: { ...convertPayload(payload, SCHEME_PAYLOAD_STYLE.hierarchical), [BRIDGE_MARKER]: 'legacy' },
+      source,
+    };
+  }
+}
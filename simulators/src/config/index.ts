@@ -180,6 +180,18 @@ export class Config {
     return this.getEnvNumber('REPEATER_CONNECTED_DEVICES_MAX', 10);
   }
   
+  getOtaFailureRate(): number {
+    return parseFloat(this.getEnvString('OTA_FAILURE_RATE', '0'));
+  }
+  
+  getOtaInstallDuration(): number {
+    return this.getEnvNumber('OTA_INSTALL_DURATION', 5000);
+  }
+  
+  getVoiceChunkSize(): number {
+    return this.getEnvNumber('VOICE_CHUNK_SIZE', 4096);
+  }
+  
   isMetricsEnabled(): boolean {
     return this.getEnvBoolean('ENABLE_METRICS', true);
   }
@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
 import { MqttClient, connect } from 'mqtt';
 import { v4 as uuidv4 } from 'uuid';
 import { 
@@ -12,6 +13,7 @@ import {
 } from '@/types/index.js';
 import { createDeviceLogger, DeviceLogger } from '@/utils/logger.js';
 import { config } from '@/config/index.js';
+import { DeviceAction, hierarchicalTopic } from '@obedio/mqtt-contract';
 
 export abstract class BaseDeviceSimulator extends EventEmitter {
   protected mqttClient: MqttClient | null = null;
@@ -31,6 +33,19 @@ export abstract class BaseDeviceSimulator extends EventEmitter {
   protected statusTimer: NodeJS.Timeout | null = null;
   protected eventTimers: Map<string, NodeJS.Timeout> = new Map();
   
+  // Configuration profile pushed on cmd/config
+  protected appliedConfig: Record<string, any> | null = null;
+  
+  // Firmware update in progress
+  protected otaDownload: {
+    campaignId: number;
+    version: string;
+    checksum: string;
+    totalChunks: number;
+    chunks: Buffer[];
+    lastReported: number;
+  } | null = null;
+  
   constructor(deviceConfig: DeviceConfig, mqttConfig?: MqttConfig) {
     super();
     
@@ -75,6 +90,8 @@ export abstract class BaseDeviceSimulator extends EventEmitter {
     
     try {
       await this.connectMqtt();
+      await this.subscribeToTopic(this.getDeviceTopic('ota/offer'));
+      await this.subscribeToTopic(this.getDeviceTopic('ota/chunk'));
       this.startPeriodicTasks();
       await this.onDeviceStart();
       this.emit('started');
@@ -101,6 +118,7 @@ export abstract class BaseDeviceSimulator extends EventEmitter {
     try {
       await this.onDeviceStop();
       this.stopPeriodicTasks();
+      this.otaDownload = null;
       await this.disconnectMqtt();
       this.emit('stopped');
       this.logger.info('Device simulator stopped successfully');
@@ -279,8 +297,13 @@ export abstract class BaseDeviceSimulator extends EventEmitter {
   /**
    * Generate device topic
    */
-  protected getDeviceTopic(action: string): string {
-    return `obedio/${this.deviceConfig.site}/${this.deviceConfig.room}/${this.deviceConfig.deviceType}/${this.deviceConfig.deviceId}/${action}`;
+  protected getDeviceTopic(action: DeviceAction): string {
+    return hierarchicalTopic({
+      site: this.deviceConfig.site,
+      room: this.deviceConfig.room,
+      type: this.deviceConfig.deviceType,
+      id: this.deviceConfig.deviceId
+    }, action);
   }
   
   /**
@@ -360,6 +383,10 @@ export abstract class BaseDeviceSimulator extends EventEmitter {
       // Parse command messages
       if (topic.includes('/cmd/')) {
         this.handleCommand(topic, message);
+      } else if (topic.endsWith('/ota/offer')) {
+        this.handleOtaOffer(JSON.parse(message));
+      } else if (topic.endsWith('/ota/chunk')) {
+        this.handleOtaChunk(JSON.parse(message));
       }
       
       this.emit('message', { topic, payload: message });
@@ -414,9 +441,16 @@ export abstract class BaseDeviceSimulator extends EventEmitter {
   /**
    * Handle config command
    */
-  protected handleConfigCommand(data: any): void {
+  protected async handleConfigCommand(data: any): Promise<void> {
     this.logger.info('Config command received', data);
-    // Override in specific device implementations
+    this.appliedConfig = data.config || null;
+    
+    // Confirm with the profile hash so the admin panel can detect drift
+    await this.publishMessage(this.getDeviceTopic('config/applied'), {
+      timestamp: new Date().toISOString(),
+      device_id: this.deviceConfig.deviceId,
+      hash: data.hash
+    });
   }
   
   /**
@@ -428,6 +462,139 @@ export abstract class BaseDeviceSimulator extends EventEmitter {
     setTimeout(() => this.start(), 2000);
   }
   
+  /**
+   * Handle firmware update offer - start pulling the image chunk by chunk
+   */
+  protected async handleOtaOffer(data: any): Promise<void> {
+    if (this.otaDownload) {
+      this.logger.warn('Firmware update already in progress, ignoring offer', data);
+      return;
+    }
+    
+    this.logger.info(`Firmware update offered: ${data.version}`, data);
+    this.otaDownload = {
+      campaignId: data.campaign_id,
+      version: data.version,
+      checksum: data.checksum,
+      totalChunks: data.total_chunks,
+      chunks: [],
+      lastReported: 0
+    };
+    
+    await this.publishOtaProgress('downloading', { progress: 0 });
+    await this.requestOtaChunk(0);
+  }
+  
+  /**
+   * Handle firmware chunk - store it and request the next one, install when complete
+   */
+  protected async handleOtaChunk(data: any): Promise<void> {
+    const download = this.otaDownload;
+    if (!download || data.campaign_id !== download.campaignId || data.index !== download.chunks.length) {
+      return;
+    }
+    
+    download.chunks.push(Buffer.from(data.data, 'base64'));
+    
+    const progress = Math.floor((download.chunks.length / download.totalChunks) * 100);
+    if (download.chunks.length < download.totalChunks) {
+      // Report roughly every 10% to keep the broker quiet
+      if (progress - download.lastReported >= 10) {
+        download.lastReported = progress;
+        await this.publishOtaProgress('downloading', { progress });
+      }
+      await this.requestOtaChunk(download.chunks.length);
+      return;
+    }
+    
+    this.clearOtaTimer();
+    
+    const checksum = createHash('sha256').update(Buffer.concat(download.chunks)).digest('hex');
+    if (checksum !== download.checksum) {
+      await this.finishOta('failed', 'Checksum mismatch');
+      return;
+    }
+    
+    await this.publishOtaProgress('installing', { progress: 100 });
+    
+    // Simulate flashing and reboot
+    this.eventTimers.set('ota', setTimeout(() => {
+      this.eventTimers.delete('ota');
+      
+      if (Math.random() < config.getOtaFailureRate()) {
+        this.finishOta('failed', 'Simulated install failure').catch(() => {});
+        return;
+      }
+      
+      this.deviceConfig.firmware = download.version;
+      this.finishOta('succeeded')
+        .then(() => this.publishBirthMessage())
+        .catch(error => this.logger.error('Failed to complete firmware update', error));
+    }, config.getOtaInstallDuration()));
+  }
+  
+  /**
+   * Request a firmware chunk, retrying if the server does not answer
+   */
+  protected async requestOtaChunk(index: number): Promise<void> {
+    const download = this.otaDownload;
+    if (!download) {
+      return;
+    }
+    
+    this.clearOtaTimer();
+    this.eventTimers.set('ota', setTimeout(() => {
+      this.logger.warn(`Firmware chunk ${index} not received, retrying`);
+      this.requestOtaChunk(index).catch(() => {});
+    }, 10000));
+    
+    await this.publishMessage(this.getDeviceTopic('ota/chunk/request'), {
+      timestamp: new Date().toISOString(),
+      device_id: this.deviceConfig.deviceId,
+      campaign_id: download.campaignId,
+      index
+    });
+  }
+  
+  /**
+   * Publish firmware update progress
+   */
+  protected async publishOtaProgress(status: string, extra: Record<string, unknown> = {}): Promise<void> {
+    if (!this.otaDownload) {
+      return;
+    }
+    
+    await this.publishMessage(this.getDeviceTopic('ota/progress'), {
+      timestamp: new Date().toISOString(),
+      device_id: this.deviceConfig.deviceId,
+      campaign_id: this.otaDownload.campaignId,
+      status,
+      ...extra
+    });
+  }
+  
+  /**
+   * Report the final update result and reset OTA state
+   */
+  protected async finishOta(status: 'succeeded' | 'failed', error?: string): Promise<void> {
+    const download = this.otaDownload;
+    if (!download) {
+      return;
+    }
+    
+    this.logger.event('OTA', { version: download.version, status, error });
+    await this.publishOtaProgress(status, status === 'succeeded' ? { version: download.version } : { error });
+    this.otaDownload = null;
+  }
+  
+  protected clearOtaTimer(): void {
+    const timer = this.eventTimers.get('ota');
+    if (timer) {
+      clearTimeout(timer);
+      this.eventTimers.delete('ota');
+    }
+  }
+  
   /**
    * Update device status with realistic variations
    */
@@ -65,6 +65,11 @@ export class ButtonDeviceSimulator extends BaseDeviceSimulator {
       case 'disable_voice':
         this.disableVoice();
         break;
+      case 'voice_message':
+        this.simulateVoiceMessage(data.durationMs).catch(error => {
+          this.logger.error('Failed to simulate voice message', error);
+        });
+        break;
       case 'emergency':
         this.simulateEmergencyPress();
         break;
@@ -137,6 +142,11 @@ export class ButtonDeviceSimulator extends BaseDeviceSimulator {
     
     this.emit('buttonPress', pressEvent);
     
+    // Holding the button records a voice message when the microphone is ready
+    if (pressType === 'long' && this.isVoiceReady) {
+      await this.simulateVoiceMessage();
+    }
+    
     // Schedule next random press
     this.scheduleRandomPress();
   }
@@ -167,6 +177,34 @@ export class ButtonDeviceSimulator extends BaseDeviceSimulator {
     this.scheduleVoiceReady();
   }
   
+  /**
+   * Simulate a recorded voice message, sent as base64 PCM chunks on voice/chunk
+   */
+  public async simulateVoiceMessage(durationMs: number = Math.floor(Math.random() * 3000) + 2000): Promise<void> {
+    const sampleRate = 8000;
+    const audio = this.generateTone(durationMs, sampleRate);
+    const chunkSize = config.getVoiceChunkSize();
+    const totalChunks = Math.ceil(audio.length / chunkSize);
+    const recordingId = `${this.deviceConfig.deviceId}-${Date.now()}`;
+    
+    for (let index = 0; index < totalChunks; index++) {
+      await this.publishMessage(this.getDeviceTopic('voice/chunk'), {
+        timestamp: new Date().toISOString(),
+        device_id: this.deviceConfig.deviceId,
+        recording_id: recordingId,
+        index,
+        total_chunks: totalChunks,
+        data: audio.subarray(index * chunkSize, (index + 1) * chunkSize).toString('base64'),
+        format: 'pcm16',
+        sample_rate: sampleRate,
+        duration_ms: durationMs
+      });
+    }
+    
+    this.logger.event('VOICE_MESSAGE', { recordingId, durationMs, totalChunks, bytes: audio.length });
+    this.emit('voiceMessage', { recordingId, durationMs, totalChunks });
+  }
+  
   /**
    * Simulate emergency button press
    */
@@ -235,6 +273,7 @@ export class ButtonDeviceSimulator extends BaseDeviceSimulator {
     const interval = Math.random() * 120000 + 60000; // 1-3 minutes
     
     this.voiceReadyTimer = setTimeout(() => {
+      this.voiceReadyTimer = null;
       if (this.isRunning && this.isConnected && this.isVoiceReady) {
         this.simulateVoiceReady().catch(error => {
           this.logger.error('Failed to simulate voice ready', error);
@@ -243,6 +282,18 @@ export class ButtonDeviceSimulator extends BaseDeviceSimulator {
     }, interval);
   }
   
+  /**
+   * Generate a 16-bit mono sine tone standing in for recorded speech
+   */
+  private generateTone(durationMs: number, sampleRate: number): Buffer {
+    const samples = Math.floor(durationMs * sampleRate / 1000);
+    const audio = Buffer.alloc(samples * 2);
+    for (let i = 0; i < samples; i++) {
+      audio.writeInt16LE(Math.round(Math.sin(2 * Math.PI * 440 * i / sampleRate) * 8000), i * 2);
+    }
+    return audio;
+  }
+  
   /**
    * Calculate press duration based on type
    */
@@ -1,6 +1,7 @@
 import { BaseDeviceSimulator } from '@/core/base-device-simulator.js';
 import { DeviceConfig, DeviceEvent, MqttMessage } from '@/types/index.js';
 import { config } from '@/config/index.js';
+import { TOPIC_ROOT } from '@obedio/mqtt-contract';
 
 interface CustomTopicPattern {
   name: string;
@@ -480,7 +481,7 @@ export class GenericDeviceSimulator extends BaseDeviceSimulator {
     resolved = resolved.replace('{deviceType}', this.deviceConfig.deviceType);
     
     // If pattern doesn't start with full topic path, prepend device topic
-    if (!resolved.startsWith('obedio/')) {
+    if (!resolved.startsWith(`${TOPIC_ROOT}/`)) {
       resolved = this.getDeviceTopic(resolved);
     }
     
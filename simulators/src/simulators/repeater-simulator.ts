@@ -6,6 +6,8 @@ interface ConnectedDevice {
   deviceId: string;
   deviceType: string;
   signalStrength: number;
+  rssi: number; // dBm
+  snr: number; // dB
   lastSeen: Date;
   hopCount: number;
 }
@@ -331,10 +333,12 @@ export class RepeaterDeviceSimulator extends BaseDeviceSimulator {
     const deviceType = deviceTypes[Math.floor(Math.random() * deviceTypes.length)];
     const deviceId = `${deviceType}-${Math.random().toString(36).substr(2, 6)}`;
     
+    const signalStrength = Math.floor(Math.random() * 40 + 60); // 60-100%
     const device: ConnectedDevice = {
       deviceId,
       deviceType,
-      signalStrength: Math.floor(Math.random() * 40 + 60), // 60-100%
+      signalStrength,
+      ...this.estimateRadioLink(signalStrength),
       lastSeen: new Date(),
       hopCount: Math.floor(Math.random() * 3 + 1) // 1-3 hops
     };
@@ -364,12 +368,23 @@ export class RepeaterDeviceSimulator extends BaseDeviceSimulator {
       device.signalStrength = Math.max(20, Math.min(100, 
         device.signalStrength + (Math.random() - 0.5) * 10
       ));
+      Object.assign(device, this.estimateRadioLink(device.signalStrength));
       
       // Update last seen
       device.lastSeen = new Date();
     });
   }
   
+  /**
+   * RSSI and SNR matching a signal strength percentage (0% = -120 dBm, 100% = -40 dBm)
+   */
+  private estimateRadioLink(signalStrength: number): { rssi: number; snr: number } {
+    return {
+      rssi: Math.round(-120 + signalStrength * 0.8),
+      snr: Math.round(((signalStrength - 30) / 5 + (Math.random() - 0.5) * 2) * 10) / 10
+    };
+  }
+  
   /**
    * Update power status
    */